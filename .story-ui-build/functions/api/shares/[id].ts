@@ -0,0 +1,20 @@
+/**
+ * Pages Function: GET /api/shares/<id>
+ *
+ * Serves a preview stored by POST /api/shares (see index.ts). KV drops
+ * snapshots when they expire; the check here covers the delay before it does.
+ */
+
+import { SHARE_ID_PATTERN, isExpired, type StoredSnapshot } from '../../../shareSnapshots';
+import { type ShareEnv, sendJSON, sharesNotConfigured } from './_shared';
+
+export const onRequestGet: PagesFunction<ShareEnv, 'id'> = async ({ params, env }) => {
+  if (!env.SHARES) return sharesNotConfigured();
+
+  const id = String(params.id);
+  const snapshot = SHARE_ID_PATTERN.test(id) ? await env.SHARES.get<StoredSnapshot>(id, 'json') : null;
+  if (!snapshot || isExpired(snapshot)) {
+    return sendJSON(404, { error: 'Shared preview not found' });
+  }
+  return sendJSON(200, snapshot);
+};
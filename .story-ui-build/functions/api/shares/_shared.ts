@@ -0,0 +1,18 @@
+/**
+ * Helpers shared by the share API functions. The module exports no request
+ * handlers, so Pages doesn't route it.
+ */
+
+export interface ShareEnv {
+  /** KV namespace holding the snapshots, keyed by share id */
+  SHARES?: KVNamespace;
+}
+
+export const sendJSON = (status: number, body: unknown): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+export const sharesNotConfigured = (): Response =>
+  sendJSON(503, { error: 'Storing shared previews is not configured on this deployment' });
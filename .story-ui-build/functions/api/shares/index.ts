@@ -0,0 +1,40 @@
+/**
+ * Pages Function: POST /api/shares
+ *
+ * Stores a shared preview that is too large for a link (see src/sharing.ts)
+ * in the SHARES KV namespace, which expires it after SNAPSHOT_RETENTION_MS.
+ * Bind the namespace as `SHARES` in the Pages project settings; without it the
+ * API answers 503 and only previews small enough for a link can be shared.
+ */
+
+import { MAX_SNAPSHOT_BYTES, SNAPSHOT_RETENTION_MS, createShareId, parseSnapshot } from '../../../shareSnapshots';
+import { type ShareEnv, sendJSON, sharesNotConfigured } from './_shared';
+
+export const onRequestPost: PagesFunction<ShareEnv> = async ({ request, env }) => {
+  if (!env.SHARES) return sharesNotConfigured();
+
+  if (Number(request.headers.get('Content-Length')) > MAX_SNAPSHOT_BYTES) {
+    return sendJSON(413, { error: 'Snapshot is too large' });
+  }
+  const text = await request.text();
+  if (new TextEncoder().encode(text).length > MAX_SNAPSHOT_BYTES) {
+    return sendJSON(413, { error: 'Snapshot is too large' });
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return sendJSON(400, { error: 'Request body is not valid JSON' });
+  }
+  const snapshot = parseSnapshot(body);
+  if (!snapshot) {
+    return sendJSON(400, { error: 'code is required' });
+  }
+
+  const id = createShareId();
+  await env.SHARES.put(id, JSON.stringify(snapshot), {
+    expirationTtl: Math.ceil(SNAPSHOT_RETENTION_MS / 1000),
+  });
+  return sendJSON(201, { id, expiresAt: snapshot.expiresAt });
+};
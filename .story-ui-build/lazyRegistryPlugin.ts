@@ -0,0 +1,260 @@
+/**
+ * Vite Plugin: Lazy Component Registry
+ *
+ * Rather than importing every component of every registry package up front
+ * (see registryManifest.ts), this plugin turns the registry into on-demand
+ * loaders so the production app only downloads the components a preview
+ * actually renders:
+ *
+ * - Every registry component gets a virtual module
+ *   (`virtual:story-ui-component/<Name>`) that re-exports just that component,
+ *   along with its package's stylesheets, so Rollup emits it as its own chunk
+ *   with shared internals split out.
+ * - src/componentLoaders.ts is generated with a dynamic `import()` loader per
+ *   component, plus the compound members of each component (`Card.Section`)
+ *   so names can be resolved without loading any component code. Packages
+ *   with thousands of components keep their loaders in a virtual module
+ *   (`virtual:story-ui-loaders/<package>`) that loads with their first use.
+ *
+ * Like the prop schema, the loaders are regenerated when the build starts and
+ * whenever the registry or the config changes in dev, and only written when
+ * they changed.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { createRequire } from 'module';
+import type { Plugin } from 'vite';
+import { loadRegistryManifest, registryInputFiles, type RegistryManifest, type RegistryPackage } from './registryManifest';
+
+const LOADERS_FILE = 'src/componentLoaders.ts';
+
+/** Import specifier prefix of the per-component virtual modules */
+export const COMPONENT_MODULE_PREFIX = 'virtual:story-ui-component/';
+/** Import specifier prefix of the per-package loader modules */
+export const LOADERS_MODULE_PREFIX = 'virtual:story-ui-loaders/';
+
+// Packages with more components than this (icon sets) keep their loaders in a
+// chunk of their own, so the app doesn't ship thousands of loaders up front
+const INLINE_LOADERS_LIMIT = 500;
+const LOADER_CHUNK_PREFIX = 'loaders-';
+
+/**
+ * Find the compound members of each component by loading its package:
+ * capitalized static properties that are themselves registry components of
+ * the same package
+ */
+function findCompoundComponents(root: string, packages: RegistryPackage[]): Record<string, Record<string, string>> {
+  const requireFromRoot = createRequire(path.join(root, 'package.json'));
+  const compound: Record<string, Record<string, string>> = {};
+
+  for (const pkg of packages) {
+    let exports: Record<string, unknown>;
+    try {
+      exports = requireFromRoot(pkg.name);
+    } catch (error) {
+      console.warn(`[lazy-registry-plugin] Failed to load ${pkg.name}, compound components won't resolve:`, error);
+      continue;
+    }
+
+    const registryNames = new Map<unknown, string>();
+    for (const component of pkg.components) {
+      const value = exports[component.exportName];
+      if (!registryNames.has(value)) registryNames.set(value, component.name);
+    }
+
+    for (const component of pkg.components) {
+      const value = exports[component.exportName];
+      if (!value || (typeof value !== 'function' && typeof value !== 'object')) continue;
+
+      for (const [member, memberValue] of Object.entries(value)) {
+        const memberName = registryNames.get(memberValue);
+        if (/^[A-Z]/.test(member) && memberName && memberName !== component.name) {
+          compound[component.name] = { ...compound[component.name], [member]: memberName };
+        }
+      }
+    }
+  }
+
+  return compound;
+}
+
+const generateLoaderEntries = (names: string[], indent: string): string =>
+  names.map(name => `${indent}${JSON.stringify(name)}: () => import('${COMPONENT_MODULE_PREFIX}${name}'),`).join('\n');
+
+/**
+ * Build the loaders file content for the components in the registry manifest
+ */
+export function generateComponentLoaders(root: string, manifest: RegistryManifest): string {
+  const compound = findCompoundComponents(root, manifest.packages);
+
+  const packageEntries = manifest.packages.map(pkg => {
+    const names = pkg.components.map(component => component.name);
+    const loaders = names.length > INLINE_LOADERS_LIMIT
+      ? `() => import('${LOADERS_MODULE_PREFIX}${pkg.name}').then(module => module.default)`
+      : `() => Promise.resolve({\n${generateLoaderEntries(names, '      ')}\n    })`;
+    const aliases = Object.fromEntries(pkg.components
+      .filter(component => component.name !== component.exportName)
+      .map(component => [component.name, component.exportName]));
+    return [
+      `  ${JSON.stringify(pkg.name)}: {`,
+      `    components: ${JSON.stringify(names)},`,
+      `    loaders: ${loaders},`,
+      `    aliases: ${JSON.stringify(aliases)},`,
+      ...(pkg.description ? [`    description: ${JSON.stringify(pkg.description)},`] : []),
+      '  },',
+    ].join('\n');
+  }).join('\n');
+  const compoundEntries = Object.entries(compound)
+    .map(([name, members]) => `  ${JSON.stringify(name)}: ${JSON.stringify(members)},`)
+    .join('\n');
+
+  return `/**
+ * Component Loaders
+ *
+ * AUTO-GENERATED FILE - DO NOT EDIT
+ * This file is generated from the component registry by lazyRegistryPlugin.ts
+ *
+ * Maps each registry component to a loader that imports it on demand, so
+ * components are code-split instead of bundled up front. Components are
+ * grouped by the package they're imported from.
+ */
+
+import type React from 'react';
+
+export type ComponentLoader = () => Promise<{ default: React.ElementType }>;
+
+export interface RegistryPackage {
+  /** Registry names of the package's components */
+  components: string[];
+  /** Resolves to the loader of each component, keyed by registry name */
+  loaders: () => Promise<Record<string, ComponentLoader>>;
+  /** Export name of components exposed under another name to avoid a collision */
+  aliases: Record<string, string>;
+  /** Describes the components when they're too many to list in prompts */
+  description?: string;
+}
+
+export const registryPackages: Record<string, RegistryPackage> = {
+${packageEntries}
+};
+
+// Compound members of each component and the registry component they are, e.g. Card.Section -> CardSection
+export const compoundComponents: Record<string, Record<string, string>> = {
+${compoundEntries}
+};
+`;
+}
+
+async function writeComponentLoaders(root: string, manifest: RegistryManifest) {
+  const loadersPath = path.join(root, LOADERS_FILE);
+  try {
+    const content = generateComponentLoaders(root, manifest);
+    const existing = fs.existsSync(loadersPath) ? fs.readFileSync(loadersPath, 'utf-8') : null;
+    if (content !== existing) {
+      fs.writeFileSync(loadersPath, content, 'utf-8');
+      console.log(`[lazy-registry-plugin] Generated ${LOADERS_FILE}`);
+    }
+  } catch (error) {
+    // Keep the previous loaders rather than failing the build
+    console.warn('[lazy-registry-plugin] Failed to generate the component loaders:', error);
+  }
+}
+
+/**
+ * Vite plugin that serves per-component modules and keeps
+ * src/componentLoaders.ts in sync with the registry and the config
+ */
+export function lazyRegistryPlugin(): Plugin {
+  let root = process.cwd();
+  // Where each registry component is imported from
+  let sources = new Map<string, { pkg: RegistryPackage; exportName: string }>();
+  let packages = new Map<string, RegistryPackage>();
+
+  const update = async () => {
+    let manifest: RegistryManifest;
+    try {
+      manifest = await loadRegistryManifest(root);
+    } catch (error) {
+      // Keep serving the previous registry, e.g. while the config is mid-edit
+      console.warn('[lazy-registry-plugin] Failed to load the registry manifest:', error);
+      return;
+    }
+    packages = new Map(manifest.packages.map(pkg => [pkg.name, pkg]));
+    sources = new Map(manifest.packages.flatMap(pkg =>
+      pkg.components.map(component => [component.name, { pkg, exportName: component.exportName }] as const)
+    ));
+    await writeComponentLoaders(root, manifest);
+  };
+
+  return {
+    name: 'story-ui-lazy-registry',
+
+    config() {
+      return {
+        build: {
+          rollupOptions: {
+            output: {
+              chunkFileNames: chunk => chunk.facadeModuleId?.startsWith(`\0${LOADERS_MODULE_PREFIX}`)
+                ? `assets/${LOADER_CHUNK_PREFIX}[name]-[hash].js`
+                : 'assets/[name]-[hash].js',
+            },
+          },
+          modulePreload: {
+            // A component chunk's dependencies load with it anyway; preload
+            // lists for thousands of components would outweigh the loaders
+            resolveDependencies: (_filename: string, deps: string[], { hostId }: { hostId: string }) =>
+              hostId.includes(`/${LOADER_CHUNK_PREFIX}`) ? [] : deps,
+          },
+        },
+      };
+    },
+
+    configResolved(config) {
+      root = config.root;
+    },
+
+    async buildStart() {
+      await update();
+    },
+
+    resolveId(id) {
+      return id.startsWith(COMPONENT_MODULE_PREFIX) || id.startsWith(LOADERS_MODULE_PREFIX) ? `\0${id}` : null;
+    },
+
+    load(id) {
+      if (id.startsWith(`\0${LOADERS_MODULE_PREFIX}`)) {
+        const pkg = packages.get(id.slice(LOADERS_MODULE_PREFIX.length + 1));
+        if (!pkg) {
+          this.error(`[lazy-registry-plugin] ${id.slice(1)} is not a registry package`);
+        }
+        const names = pkg.components.map(component => component.name);
+        return `export default {\n${generateLoaderEntries(names, '  ')}\n};`;
+      }
+
+      if (!id.startsWith(`\0${COMPONENT_MODULE_PREFIX}`)) return null;
+      const name = id.slice(COMPONENT_MODULE_PREFIX.length + 1);
+      const source = sources.get(name);
+      if (!source) {
+        this.error(`[lazy-registry-plugin] ${name} is not a registry component`);
+      }
+      // Package stylesheets load with the first of its components a preview uses
+      return [
+        ...source.pkg.styles.map(style => `import '${style}';`),
+        `export { ${source.exportName} as default } from '${source.pkg.name}';`,
+      ].join('\n');
+    },
+
+    configureServer(server) {
+      const watched = registryInputFiles(root);
+      server.watcher.add(watched);
+      server.watcher.on('change', file => {
+        if (watched.includes(path.resolve(file))) {
+          update();
+        }
+      });
+    },
+  };
+}
+
+export default lazyRegistryPlugin;
@@ -0,0 +1,274 @@
+/**
+ * Vite Plugin: Component Prop Schema
+ *
+ * Generates src/componentPropSchema.ts for the component registry (see
+ * registryManifest.ts). For every registry component that its package describes with a
+ * `<Name>Props` type (the Mantine convention), the TypeScript checker is used
+ * to record the props it accepts, which of them are required, and the string
+ * values allowed for props typed as literal unions (`variant`, `size`,
+ * `color`, ...), and which props are plain booleans, numbers or strings. The
+ * live preview validates generated JSX against it, and the props inspector
+ * picks its controls from it.
+ *
+ * The schema is regenerated when the build starts and whenever the registry
+ * or the config changes in dev, and only written when its content changed.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import ts from 'typescript';
+import type { Plugin } from 'vite';
+import { loadRegistryManifest, registryInputFiles, type RegistryManifest } from './registryManifest';
+
+const SCHEMA_FILE = 'src/componentPropSchema.ts';
+
+// Synthetic module the checker resolves package types from
+const ENTRY_FILE = 'src/__prop-schema-entry.ts';
+
+// Type whose props every component accepts (style props, className, ...)
+const SHARED_PROPS_TYPE = 'BoxProps';
+
+// Literal unions larger than this (e.g. every CSS keyword) aren't worth validating
+const MAX_ENUM_VALUES = 60;
+
+interface PropEnum {
+  values: string[];
+  open: boolean;
+}
+
+type PropKind = 'boolean' | 'number' | 'string';
+
+interface ComponentPropSchema {
+  props: string[];
+  required: string[];
+  enums: Record<string, PropEnum>;
+  kinds: Record<string, PropKind>;
+}
+
+/**
+ * String literal values of a union type, and whether it also accepts other
+ * values (e.g. `MantineSize | (string & {})`)
+ */
+function literalValues(type: ts.Type): PropEnum | null {
+  const members = type.isUnion() ? type.types : [type];
+  const values = members.filter(member => member.isStringLiteral()).map(member => (member as ts.StringLiteralType).value);
+  if (values.length === 0 || values.length > MAX_ENUM_VALUES) {
+    return null;
+  }
+  return { values, open: values.length !== members.length };
+}
+
+/**
+ * The primitive a prop type consists of, or null for anything else (unions of
+ * different primitives, objects, functions, nodes)
+ */
+function primitiveKind(type: ts.Type): PropKind | null {
+  const members = type.isUnion() ? type.types : [type];
+  if (members.every(member => member.flags & ts.TypeFlags.BooleanLike)) return 'boolean';
+  if (members.every(member => member.flags & ts.TypeFlags.NumberLike)) return 'number';
+  if (members.every(member => member.flags & ts.TypeFlags.String)) return 'string';
+  return null;
+}
+
+/**
+ * Describe a component's props. Props inherited from the shared and DOM types
+ * (recognized by their declaration, since e.g. Mantine redeclares `size` and
+ * `color`) are left out of `props`, but still listed when required.
+ */
+function describeProps(
+  checker: ts.TypeChecker,
+  type: ts.Type,
+  location: ts.Node,
+  inherited: Set<ts.Declaration>
+): ComponentPropSchema {
+  const schema: ComponentPropSchema = { props: [], required: [], enums: {}, kinds: {} };
+
+  for (const prop of checker.getPropertiesOfType(type)) {
+    const name = prop.getName();
+    if (name.startsWith('__')) continue;
+
+    if (!(prop.flags & ts.SymbolFlags.Optional)) {
+      schema.required.push(name);
+    }
+    if (prop.declarations?.some(declaration => inherited.has(declaration))) continue;
+
+    schema.props.push(name);
+    const propType = checker.getNonNullableType(checker.getTypeOfSymbolAtLocation(prop, location));
+    const values = literalValues(propType);
+    const kind = primitiveKind(propType);
+    if (values) {
+      schema.enums[name] = values;
+    } else if (kind) {
+      schema.kinds[name] = kind;
+    }
+  }
+  return schema;
+}
+
+/**
+ * Build the schema file content for the components in the registry manifest
+ */
+export function generatePropSchema(root: string, manifest: RegistryManifest): string {
+  const packages = manifest.packages.map(pkg => pkg.name);
+
+  const entryPath = path.join(root, ENTRY_FILE);
+  const entrySource = [
+    `import type * as React from 'react';`,
+    ...packages.map((pkg, i) => `import type * as __lib${i} from '${pkg}';`),
+    `export type __DomProps = React.AllHTMLAttributes<HTMLElement>;`,
+  ].join('\n');
+
+  const options: ts.CompilerOptions = {
+    target: ts.ScriptTarget.ES2020,
+    module: ts.ModuleKind.ESNext,
+    moduleResolution: ts.ModuleResolutionKind.Bundler,
+    jsx: ts.JsxEmit.ReactJSX,
+    strict: true,
+    skipLibCheck: true,
+    noEmit: true,
+    types: [],
+  };
+  const host = ts.createCompilerHost(options);
+  const getSourceFile = host.getSourceFile;
+  host.getSourceFile = (fileName, languageVersion, ...rest) =>
+    path.resolve(fileName) === entryPath
+      ? ts.createSourceFile(fileName, entrySource, languageVersion)
+      : getSourceFile.call(host, fileName, languageVersion, ...rest);
+  const fileExists = host.fileExists;
+  host.fileExists = fileName => path.resolve(fileName) === entryPath || fileExists.call(host, fileName);
+
+  const program = ts.createProgram([entryPath], options, host);
+  const checker = program.getTypeChecker();
+  const entry = program.getSourceFile(entryPath);
+  if (!entry) {
+    throw new Error(`[prop-schema-plugin] Failed to create ${ENTRY_FILE}`);
+  }
+
+  // Exported types of each package, keyed by package and then by name
+  const exportedTypes = new Map<string, Map<string, ts.Type>>();
+  for (const statement of entry.statements) {
+    if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) continue;
+    const moduleSymbol = checker.getSymbolAtLocation(statement.moduleSpecifier);
+    if (!moduleSymbol) continue;
+    const types = new Map<string, ts.Type>();
+    for (const exported of checker.getExportsOfModule(moduleSymbol)) {
+      const symbol = exported.flags & ts.SymbolFlags.Alias ? checker.getAliasedSymbol(exported) : exported;
+      if (symbol.flags & (ts.SymbolFlags.Interface | ts.SymbolFlags.TypeAlias)) {
+        types.set(exported.getName(), checker.getDeclaredTypeOfSymbol(symbol));
+      }
+    }
+    exportedTypes.set(statement.moduleSpecifier.text, types);
+  }
+
+  const propsOf = (type: ts.Type | undefined) => (type ? checker.getPropertiesOfType(type) : []);
+
+  const sharedType = Array.from(exportedTypes.values()).find(types => types.has(SHARED_PROPS_TYPE))?.get(SHARED_PROPS_TYPE);
+  const sharedTypeProps = propsOf(sharedType);
+  const domAlias = entry.statements.find(ts.isTypeAliasDeclaration);
+  const domTypeProps = propsOf(domAlias ? checker.getTypeAtLocation(domAlias.name) : undefined);
+  const sharedProps = new Set(sharedTypeProps.map(prop => prop.getName()));
+  const domProps = new Set(domTypeProps.map(prop => prop.getName()));
+
+  // Shared and DOM props are listed once instead of on every component
+  const inherited = new Set([...sharedTypeProps, ...domTypeProps].flatMap(prop => prop.declarations ?? []));
+  const components: Record<string, ComponentPropSchema> = {};
+  for (const pkg of manifest.packages) {
+    for (const component of pkg.components) {
+      const propsType = exportedTypes.get(pkg.name)?.get(`${component.exportName}Props`);
+      if (propsType) {
+        components[component.name] = describeProps(checker, propsType, entry, inherited);
+      }
+    }
+  }
+
+  const entries = Object.entries(components)
+    .map(([name, schema]) => `  ${JSON.stringify(name)}: ${JSON.stringify(schema)},`)
+    .join('\n');
+
+  return `/**
+ * Component Prop Schema
+ *
+ * AUTO-GENERATED FILE - DO NOT EDIT
+ * This file is generated from the component registry by propSchemaPlugin.ts
+ *
+ * It describes the props of each registry component so generated JSX can be
+ * validated before it renders, and edited in the props inspector.
+ */
+
+export interface PropEnum {
+  /** Allowed string values */
+  values: string[];
+  /** Whether the prop also accepts values outside the list (custom theme values, CSS values) */
+  open: boolean;
+}
+
+export type PropKind = 'boolean' | 'number' | 'string';
+
+export interface ComponentPropSchema {
+  /** Props specific to the component (shared props and DOM attributes are listed separately) */
+  props: string[];
+  required: string[];
+  enums: Record<string, PropEnum>;
+  /** Props typed as a plain boolean, number or string */
+  kinds: Record<string, PropKind>;
+}
+
+// Props accepted by every component (style props, className, ...)
+export const sharedProps: string[] = ${JSON.stringify(Array.from(sharedProps).sort())};
+
+// DOM attributes, accepted by components that render an element
+export const domProps: string[] = ${JSON.stringify(Array.from(domProps).sort())};
+
+export const componentPropSchema: Record<string, ComponentPropSchema> = {
+${entries}
+};
+`;
+}
+
+async function writePropSchema(root: string) {
+  const schemaPath = path.join(root, SCHEMA_FILE);
+  try {
+    const manifest = await loadRegistryManifest(root);
+    const content = generatePropSchema(root, manifest);
+    const existing = fs.existsSync(schemaPath) ? fs.readFileSync(schemaPath, 'utf-8') : null;
+    if (content !== existing) {
+      fs.writeFileSync(schemaPath, content, 'utf-8');
+      console.log(`[prop-schema-plugin] Generated ${SCHEMA_FILE}`);
+    }
+  } catch (error) {
+    // Keep the previous schema rather than failing the build
+    console.warn('[prop-schema-plugin] Failed to generate the prop schema:', error);
+  }
+}
+
+/**
+ * Vite plugin that keeps src/componentPropSchema.ts in sync with the registry
+ * and the config
+ */
+export function propSchemaPlugin(): Plugin {
+  let root = process.cwd();
+
+  return {
+    name: 'story-ui-prop-schema',
+
+    configResolved(config) {
+      root = config.root;
+    },
+
+    async buildStart() {
+      await writePropSchema(root);
+    },
+
+    configureServer(server) {
+      const watched = registryInputFiles(root);
+      server.watcher.add(watched);
+      server.watcher.on('change', file => {
+        if (watched.includes(path.resolve(file))) {
+          writePropSchema(root);
+        }
+      });
+    },
+  };
+}
+
+export default propSchemaPlugin;
@@ -0,0 +1,225 @@
+/**
+ * Component Registry Manifest
+ *
+ * Works out which components the live preview registry exposes, for the
+ * build plugins that generate the component loaders and the prop schema.
+ *
+ * The registry covers every component package in the `dependencies` of
+ * story-ui.config.js, in the order they're listed:
+ *
+ * - The design system package (`importPath`) keeps the component list story-ui
+ *   generated into src/componentRegistry.ts.
+ * - Other packages contribute their component exports (capitalized functions
+ *   and React element types), optionally narrowed with `registry[pkg].include`
+ *   and extended with non-component exports in `registry[pkg].exports`.
+ * - A name exported by more than one package belongs to the first; later
+ *   packages expose theirs under `registry[pkg].aliases[name]`, or prefixed
+ *   with the package name (`@mantine/dates` Calendar -> DatesCalendar).
+ *
+ * Packages that aren't installed are skipped with a warning. Without a config
+ * file the registry is just the generated registry file.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { createRequire } from 'module';
+import { pathToFileURL } from 'url';
+import ts from 'typescript';
+
+export const REGISTRY_FILE = 'src/componentRegistry.ts';
+const CONFIG_FILE = 'story-ui.config.js';
+
+// Bound in every preview scope, so no package may claim them
+const RESERVED_NAMES = new Set(['React']);
+
+/** Per-package options in the `registry` field of story-ui.config.js */
+interface PackageOptions {
+  /** Only expose exports matching this pattern */
+  include?: string;
+  /** Non-component exports to expose as well, e.g. `notifications` */
+  exports?: string[];
+  /** Registry names for exports whose name another package already claimed */
+  aliases?: Record<string, string>;
+  /** Describes the package's components when they're too many to list in prompts */
+  description?: string;
+}
+
+export interface StoryUIConfig {
+  importPath?: string;
+  dependencies?: string[];
+  registry?: Record<string, PackageOptions>;
+  provider?: { cssImports?: string[] };
+  /** Mantine theme overrides for previews, as passed to `createTheme` */
+  theme?: Record<string, unknown>;
+  /** Title prefix of generated stories, e.g. `Generated/` */
+  storyPrefix?: string;
+  /** Folder generated stories are written to */
+  generatedStoriesPath?: string;
+}
+
+export interface RegistryComponent {
+  /** Name the component is exposed under in previews */
+  name: string;
+  /** Name the package exports it under */
+  exportName: string;
+}
+
+export interface RegistryPackage {
+  name: string;
+  components: RegistryComponent[];
+  /** Stylesheets to load with the package's components */
+  styles: string[];
+  description?: string;
+}
+
+export interface RegistryManifest {
+  packages: RegistryPackage[];
+}
+
+/**
+ * Read the named imports of the registry file, grouped by package
+ */
+export function readRegistryImports(registrySource: string): Map<string, string[]> {
+  const sourceFile = ts.createSourceFile(REGISTRY_FILE, registrySource, ts.ScriptTarget.Latest);
+  const imports = new Map<string, string[]>();
+
+  for (const statement of sourceFile.statements) {
+    if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) continue;
+    const bindings = statement.importClause?.namedBindings;
+    if (!bindings || !ts.isNamedImports(bindings)) continue;
+
+    const names = bindings.elements.map(element => element.name.text);
+    imports.set(statement.moduleSpecifier.text, [...(imports.get(statement.moduleSpecifier.text) ?? []), ...names]);
+  }
+  return imports;
+}
+
+/**
+ * story-ui.config.js lives in the project the app is built for, which is
+ * either the app root itself or its parent
+ */
+export function findConfigFile(root: string): string | null {
+  for (const dir of [root, path.dirname(root)]) {
+    const configPath = path.join(dir, CONFIG_FILE);
+    if (fs.existsSync(configPath)) return configPath;
+  }
+  return null;
+}
+
+/**
+ * Files the manifest is built from, to regenerate on changes in dev
+ */
+export function registryInputFiles(root: string): string[] {
+  const configPath = findConfigFile(root);
+  return [path.join(root, REGISTRY_FILE), ...(configPath ? [configPath] : [])];
+}
+
+async function loadConfig(configPath: string): Promise<StoryUIConfig> {
+  // Cache-bust so config edits are picked up in dev
+  const module = await import(`${pathToFileURL(configPath).href}?t=${fs.statSync(configPath).mtimeMs}`);
+  return (module.default ?? module) as StoryUIConfig;
+}
+
+/**
+ * Read story-ui.config.js for the app at `root`, or an empty config without one
+ */
+export async function loadStoryUIConfig(root: string): Promise<StoryUIConfig> {
+  const configPath = findConfigFile(root);
+  return configPath ? loadConfig(configPath) : {};
+}
+
+const isComponent = (value: unknown): boolean =>
+  typeof value === 'function' || (!!value && typeof value === 'object' && '$$typeof' in value);
+
+/**
+ * Name an export gets when an earlier package already claimed its own name:
+ * the package name's last segment in PascalCase, then the export name
+ */
+const prefixedName = (pkg: string, exportName: string): string => {
+  const prefix = (pkg.split('/').pop() ?? pkg)
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map(part => part[0].toUpperCase() + part.slice(1))
+    .join('');
+  return `${prefix}${exportName}`;
+};
+
+/**
+ * Export names a package contributes to the registry
+ */
+function packageExports(
+  pkg: string,
+  config: StoryUIConfig,
+  registryImports: Map<string, string[]>,
+  requireFromRoot: NodeRequire
+): string[] | null {
+  const options = config.registry?.[pkg] ?? {};
+  const curated = registryImports.get(pkg);
+  if (curated && (pkg === config.importPath || !config.dependencies)) {
+    return curated;
+  }
+
+  let exports: Record<string, unknown>;
+  try {
+    exports = requireFromRoot(pkg);
+  } catch (error) {
+    console.warn(`[registry] ${pkg} is listed in the dependencies but couldn't be loaded, skipping it:`, (error as Error).message);
+    return null;
+  }
+
+  const include = options.include ? new RegExp(options.include) : null;
+  const components = Object.keys(exports).filter(name =>
+    /^[A-Z]/.test(name) && isComponent(exports[name]) && (!include || include.test(name))
+  );
+  const extra = (options.exports ?? []).filter(name => name in exports);
+  return [...components, ...extra];
+}
+
+/**
+ * Build the registry manifest for the app at `root`
+ */
+export async function loadRegistryManifest(root: string): Promise<RegistryManifest> {
+  const registryPath = path.join(root, REGISTRY_FILE);
+  const registryImports = fs.existsSync(registryPath)
+    ? readRegistryImports(fs.readFileSync(registryPath, 'utf-8'))
+    : new Map<string, string[]>();
+
+  const config = await loadStoryUIConfig(root);
+  const requireFromRoot = createRequire(path.join(root, 'package.json'));
+  const cssImports = config.provider?.cssImports ?? [];
+
+  const packageNames = config.dependencies ?? Array.from(registryImports.keys());
+  const claimed = new Set(RESERVED_NAMES);
+  const packages: RegistryPackage[] = [];
+
+  for (const pkg of packageNames) {
+    const exportNames = packageExports(pkg, config, registryImports, requireFromRoot);
+    if (!exportNames?.length) continue;
+
+    const aliases = config.registry?.[pkg]?.aliases ?? {};
+    const components: RegistryComponent[] = [];
+    for (const exportName of Array.from(new Set(exportNames))) {
+      let name = exportName;
+      if (claimed.has(name)) {
+        name = aliases[exportName] ?? prefixedName(pkg, exportName);
+        if (claimed.has(name)) {
+          console.warn(`[registry] ${exportName} from ${pkg} collides with another package and its alias ${name} is taken, skipping it`);
+          continue;
+        }
+        console.warn(`[registry] ${exportName} from ${pkg} collides with another package, exposing it as ${name}`);
+      }
+      claimed.add(name);
+      components.push({ name, exportName });
+    }
+
+    packages.push({
+      name: pkg,
+      components,
+      // The design system's own styles are imported by the app entry
+      styles: pkg === config.importPath ? [] : cssImports.filter(css => css.startsWith(`${pkg}/`)),
+      description: config.registry?.[pkg]?.description,
+    });
+  }
+
+  return { packages };
+}
@@ -0,0 +1,77 @@
+/**
+ * Vite Plugin: Preview Sandbox Policy
+ *
+ * Serves sandbox.html, the document the preview iframe loads (see
+ * src/sandbox.tsx), with a Content-Security-Policy that:
+ *
+ * - sandboxes it with scripts only, so it has an opaque origin even when a
+ *   page frames it without the iframe `sandbox` attribute
+ * - blocks every connection (`connect-src 'none'`), so generated code can't
+ *   call the Story UI server, whose CORS accepts the `null` origin
+ * - only runs the app's own scripts, plus the `new Function` the compiled
+ *   preview needs
+ *
+ * The policy is served by both the dev server and `vite preview`. Cloudflare
+ * Pages serves the same policy from public/_headers; keep the two in sync.
+ */
+
+import type { Connect, Plugin } from 'vite';
+
+const SANDBOX_PATHS = ['/sandbox.html', '/sandbox'];
+
+const SANDBOX_POLICY = {
+  sandbox: 'allow-scripts',
+  'default-src': "'none'",
+  'script-src': "'self' 'unsafe-eval'",
+  'style-src': "'self' 'unsafe-inline' https://fonts.googleapis.com",
+  'font-src': "'self' data: https://fonts.gstatic.com",
+  'img-src': "'self' data: blob: https:",
+  'connect-src': "'none'",
+  'base-uri': "'none'",
+  'form-action': "'none'",
+};
+
+/**
+ * The policy as a header value. In dev, the React refresh preamble is an
+ * inline script and HMR needs its websocket; plain requests stay blocked,
+ * since the dev server proxies `/story-ui` to the Story UI server.
+ */
+function sandboxPolicyHeader(devHost?: string): string {
+  const policy = devHost
+    ? {
+        ...SANDBOX_POLICY,
+        'script-src': `${SANDBOX_POLICY['script-src']} 'unsafe-inline'`,
+        'connect-src': `ws://${devHost} wss://${devHost}`,
+      }
+    : SANDBOX_POLICY;
+  return Object.entries(policy).map(([directive, value]) => `${directive} ${value}`).join('; ');
+}
+
+function createSandboxPolicyMiddleware(dev: boolean): Connect.NextHandleFunction {
+  return (req, res, next) => {
+    const url = req.url?.split('?')[0] ?? '';
+    if (SANDBOX_PATHS.includes(url)) {
+      res.setHeader('Content-Security-Policy', sandboxPolicyHeader(dev ? req.headers.host : undefined));
+    }
+    next();
+  };
+}
+
+/**
+ * Vite plugin that serves the preview sandbox document with its policy
+ */
+export function sandboxPlugin(): Plugin {
+  return {
+    name: 'story-ui-sandbox-policy',
+
+    configureServer(server) {
+      server.middlewares.use(createSandboxPolicyMiddleware(true));
+    },
+
+    configurePreviewServer(server) {
+      server.middlewares.use(createSandboxPolicyMiddleware(false));
+    },
+  };
+}
+
+export default sandboxPlugin;
@@ -0,0 +1,170 @@
+/**
+ * Vite Plugin: Shared Previews
+ *
+ * Stores the previews shared from the app that are too large for a link
+ * (see src/sharing.ts), so they can be opened as `?share=<id>`:
+ *
+ *   POST /api/shares      {code, title, theme} -> {id, expiresAt}
+ *   GET  /api/shares/<id> -> the stored preview
+ *
+ * This is the local stand-in for the Pages Function that serves the API in
+ * production (functions/api/shares). Snapshots are JSON files in
+ * `.story-ui-shares/` under the app root, removed once they expire and capped
+ * at MAX_STORED_SNAPSHOTS. The API is served by both the dev server and
+ * `vite preview`.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Connect, Plugin } from 'vite';
+import {
+  MAX_SNAPSHOT_BYTES,
+  SHARE_API_PATH,
+  SHARE_ID_PATTERN,
+  createShareId,
+  isExpired,
+  parseSnapshot,
+  type StoredSnapshot,
+} from './shareSnapshots';
+
+const SHARES_DIR = '.story-ui-shares';
+
+// Oldest snapshots are removed past this, so the directory can't grow without bound
+const MAX_STORED_SNAPSHOTS = 200;
+
+const sendJSON = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * Read a JSON request body, rejecting bodies over MAX_SNAPSHOT_BYTES
+ */
+function readJSONBody(req: IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_SNAPSHOT_BYTES) {
+        reject(new Error('Snapshot is too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf-8')));
+      } catch {
+        reject(new Error('Request body is not valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+/**
+ * The stored snapshot in a file, or null when it's missing or unreadable
+ */
+function readSnapshot(file: string): StoredSnapshot | null {
+  try {
+    return JSON.parse(fs.readFileSync(file, 'utf-8')) as StoredSnapshot;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remove expired and unreadable snapshots, then the oldest ones past
+ * MAX_STORED_SNAPSHOTS
+ */
+function pruneSnapshots(sharesDir: string) {
+  const now = Date.now();
+  const kept = fs.readdirSync(sharesDir)
+    .filter(name => name.endsWith('.json'))
+    .flatMap(name => {
+      const file = path.join(sharesDir, name);
+      const snapshot = readSnapshot(file);
+      if (!snapshot || isExpired(snapshot, now)) {
+        fs.rmSync(file, { force: true });
+        return [];
+      }
+      return [{ file, createdAt: snapshot.createdAt }];
+    })
+    .sort((a, b) => b.createdAt - a.createdAt);
+
+  kept.slice(MAX_STORED_SNAPSHOTS).forEach(({ file }) => fs.rmSync(file, { force: true }));
+}
+
+function createShareMiddleware(root: string): Connect.NextHandleFunction {
+  const sharesDir = path.join(root, SHARES_DIR);
+
+  return (req, res, next) => {
+    const url = req.url?.split('?')[0] ?? '';
+    if (url !== SHARE_API_PATH && !url.startsWith(`${SHARE_API_PATH}/`)) {
+      next();
+      return;
+    }
+
+    if (req.method === 'POST' && url === SHARE_API_PATH) {
+      readJSONBody(req)
+        .then(body => {
+          const snapshot = parseSnapshot(body);
+          if (!snapshot) {
+            sendJSON(res, 400, { error: 'code is required' });
+            return;
+          }
+          const id = createShareId();
+          fs.mkdirSync(sharesDir, { recursive: true });
+          fs.writeFileSync(path.join(sharesDir, `${id}.json`), JSON.stringify(snapshot), 'utf-8');
+          pruneSnapshots(sharesDir);
+          sendJSON(res, 201, { id, expiresAt: snapshot.expiresAt });
+        })
+        .catch(error => sendJSON(res, 400, { error: error instanceof Error ? error.message : String(error) }));
+      return;
+    }
+
+    const id = url.slice(SHARE_API_PATH.length + 1);
+    if (req.method === 'GET' && SHARE_ID_PATTERN.test(id)) {
+      const file = path.join(sharesDir, `${id}.json`);
+      const snapshot = readSnapshot(file);
+      if (!snapshot || isExpired(snapshot)) {
+        fs.rmSync(file, { force: true });
+        sendJSON(res, 404, { error: 'Shared preview not found' });
+        return;
+      }
+      sendJSON(res, 200, snapshot);
+      return;
+    }
+
+    sendJSON(res, 404, { error: 'Not found' });
+  };
+}
+
+/**
+ * Vite plugin that serves the share API
+ */
+export function sharePlugin(): Plugin {
+  let root = process.cwd();
+
+  return {
+    name: 'story-ui-share',
+
+    configResolved(config) {
+      root = config.root;
+    },
+
+    configureServer(server) {
+      server.middlewares.use(createShareMiddleware(root));
+    },
+
+    configurePreviewServer(server) {
+      server.middlewares.use(createShareMiddleware(root));
+    },
+  };
+}
+
+export default sharePlugin;
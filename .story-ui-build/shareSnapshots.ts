@@ -0,0 +1,58 @@
+/**
+ * Shared Preview Snapshots
+ *
+ * The rules for the previews stored by the share API (see src/sharing.ts),
+ * shared by the Pages Function that serves it in production
+ * (functions/api/shares) and the Vite plugin that serves it locally
+ * (sharePlugin.ts). Uses only web APIs so it runs in both.
+ */
+
+/** URL path of the share API */
+export const SHARE_API_PATH = '/api/shares';
+
+// Generated code is rarely more than a few KB; this leaves room without letting
+// single requests fill the store
+export const MAX_SNAPSHOT_BYTES = 256 * 1024;
+
+/** How long a snapshot is kept before it expires */
+export const SNAPSHOT_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+export const SHARE_ID_PATTERN = /^[A-Za-z0-9_-]{8}$/;
+
+export interface StoredSnapshot {
+  code: string;
+  title: string;
+  theme: unknown;
+  createdAt: number;
+  expiresAt: number;
+}
+
+/**
+ * The snapshot to store from a request body, or null when it isn't one
+ */
+export function parseSnapshot(body: unknown, now = Date.now()): StoredSnapshot | null {
+  if (!body || typeof body !== 'object') return null;
+  const { code, title, theme } = body as Record<string, unknown>;
+  if (typeof code !== 'string' || !code.trim()) return null;
+  return {
+    code,
+    title: typeof title === 'string' ? title : '',
+    theme: theme ?? null,
+    createdAt: now,
+    expiresAt: now + SNAPSHOT_RETENTION_MS,
+  };
+}
+
+/**
+ * A random id matching SHARE_ID_PATTERN
+ */
+export function createShareId(): string {
+  let binary = '';
+  crypto.getRandomValues(new Uint8Array(6)).forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_');
+}
+
+export const isExpired = (snapshot: Pick<StoredSnapshot, 'expiresAt'>, now = Date.now()): boolean =>
+  !(snapshot.expiresAt > now);
@@ -5,11 +5,75 @@
  * using AI and a user's component library.
  */
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import * as Babel from '@babel/standalone';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { LivePreviewRenderer } from './LivePreviewRenderer';
-import { availableComponents } from './componentRegistry';
+import { extractJSX } from './jsxExtraction';
+import { transpilePreview, previewScopeNames } from './previewCompiler';
+import { PreviewError, formatDiagnostic, type PreviewDiagnostic } from './previewDiagnostics';
+import { resolveComponents, type ComponentWarning } from './componentResolution';
+import { propSchemaFor, validateProps, type PropWarning } from './propValidation';
+import type { ComponentPropSchema } from './componentPropSchema';
+import { registryPackages } from './componentLoaders';
+import { registryComponents } from './lazyRegistry';
 import { aiConsiderations, hasConsiderations } from './considerations';
+import { diffLines, diffStats, type DiffLine } from '../../src/stories/StoryUI/codeDiff';
+import { streamGeneration } from './generationStream';
+import { StreamProtocolError } from '../../src/stories/StoryUI/streamProtocol';
+import { closePartialJSX } from './partialJSX';
+import { buildStoryFile, componentNameFor, StoryExportError, type StoryFile } from './storyExport';
+import { buildComponentModule } from './componentExport';
+import {
+  createShareLink,
+  isShareLink,
+  loadSharedPreview,
+  ShareError,
+  type ShareLink,
+  type SharedPreview,
+} from './sharing';
+import storyConfig from 'virtual:story-ui-story-config';
+import {
+  DEFAULT_PREVIEW_THEME_SETTINGS,
+  configuredDefaults,
+  previewBackground,
+  primaryColorOptions,
+  radiusOptions,
+  type PreviewThemeSettings,
+} from './previewTheme';
+import {
+  CUSTOM_WIDTH_RANGE,
+  FIT_VIEWPORT,
+  activeBreakpoint,
+  breakpointViewports,
+  customViewport,
+  deviceViewports,
+  findViewport,
+  type DeviceFrame,
+  type Viewport,
+} from './viewports';
+import {
+  describeJSXOutline,
+  findJSXElement,
+  findJSXElementAt,
+  parsePatchResponse,
+  applyJSXPatches,
+  readJSXProps,
+  setJSXProp,
+  JSXPatchError,
+  type JSXElementInfo,
+  type JSXProp,
+  type JSXPropValue,
+} from './jsxPatches';
+import {
+  loadConversations,
+  saveConversations,
+  deleteConversations,
+  getStorageUsage,
+  pruneStorage,
+  formatBytes,
+  StorageQuotaError,
+  type StorageUsage,
+  type PruneOptions,
+} from './conversationStorage';
 
 // ============================================================================
 // TYPES
@@ -21,7 +85,15 @@ interface Message {
   content: string;
   timestamp: number;
   generatedCode?: string;
+  /** Unknown component names found in the generated code, including those that were auto-fixed */
+  componentWarnings?: ComponentWarning[];
+  /** Props in the generated code that don't match the component prop schema */
+  propWarnings?: PropWarning[];
   images?: ImageAttachment[];
+  /** Id of the message whose code this one restored */
+  restoredFrom?: string;
+  /** Element picked in the preview for this request to change. `path` is only set when it refers to the latest code. */
+  targetElement?: Omit<JSXElementInfo, 'path'> & { path?: string };
 }
 
 interface ImageAttachment {
@@ -39,6 +111,40 @@ interface Conversation {
   updatedAt: number;
 }
 
+/** A generated code version: an assistant message with code, numbered from 1 */
+interface CodeVersion {
+  number: number;
+  message: Message & { generatedCode: string };
+}
+
+/** One model's result in a side-by-side comparison */
+interface ComparisonRun {
+  model: string;
+  status: 'generating' | 'done' | 'error';
+  /** Characters of the response received so far */
+  received: number;
+  code?: string;
+  componentWarnings?: ComponentWarning[];
+  propWarnings?: PropWarning[];
+  error?: string;
+  /** Milliseconds from sending the prompt to the validated result */
+  latency?: number;
+}
+
+/** A prompt generated with several models, waiting for the user to pick a result */
+interface Comparison {
+  conversationId: string;
+  runs: ComparisonRun[];
+}
+
+/** Overrides for one generation request */
+interface GenerationOptions {
+  /** Model to generate with instead of the selected one */
+  model?: string;
+  /** Receives the response as it streams in, instead of the preview */
+  onText?: (text: string) => void;
+}
+
 interface ProviderOption {
   id: string;
   name: string;
@@ -94,6 +200,37 @@ const THEME = {
 
 const generateId = () => Math.random().toString(36).substring(2, 15);
 
+// Packages with more components than this are described rather than listed in prompts
+const PROMPT_COMPONENT_LIST_LIMIT = 300;
+
+// Conversations pruning leaves untouched, most recent first
+const PRUNE_KEEP_RECENT = 10;
+
+// Minimum time between preview re-renders while a response streams in, in ms
+const STREAM_PREVIEW_INTERVAL = 250;
+
+// Most models a prompt can be compared across; more panes get too narrow to judge
+const MAX_COMPARE_MODELS = 3;
+
+/**
+ * List the registry components for the system prompt, grouped by package.
+ * Throws when the registry has none, as the model would have nothing to use.
+ */
+const describeRegistryComponents = (): string => {
+  const packages = Object.entries(registryPackages).filter(([, { components }]) => components.length > 0);
+  if (packages.length === 0) {
+    throw new Error('The component registry has no components. Check the registry packages in story-ui.config.js.');
+  }
+  return packages
+    .map(([pkg, { components, description }]) => {
+      if (components.length <= PROMPT_COMPONENT_LIST_LIMIT) {
+        return `From ${pkg}: ${components.join(', ')}`;
+      }
+      return `From ${pkg} (${components.length} components): ${description ?? `${components.slice(0, PROMPT_COMPONENT_LIST_LIMIT).join(', ')}, ...`}`;
+    })
+    .join('\n\n');
+};
+
 // ============================================================================
 // HOOKS
 // ============================================================================
@@ -122,6 +259,97 @@ const useLocalStorage = <T,>(key: string, initialValue: T): [T, React.Dispatch<R
   return [storedValue, setValue];
 };
 
+/**
+ * Conversations persisted in IndexedDB. Every change to the list is written
+ * back: conversations whose object changed are saved and removed ones are
+ * deleted. Save failures (e.g. a full quota) are reported through
+ * `storageError` and retried on the next change.
+ */
+const useConversationStorage = () => {
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
+
+  // The conversations as last written to storage
+  const persisted = useRef(new Map<string, Conversation>());
+  const conversationsRef = useRef(conversations);
+  conversationsRef.current = conversations;
+
+  const refreshUsage = useCallback(() => {
+    getStorageUsage().then(setUsage).catch(() => setUsage(null));
+  }, []);
+
+  const reportError = useCallback((error: unknown, action: string) => {
+    setStorageError(error instanceof StorageQuotaError
+      ? error.message
+      : `Couldn't ${action} conversations: ${error instanceof Error ? error.message : String(error)}`);
+  }, []);
+
+  useEffect(() => {
+    loadConversations<Conversation>()
+      .then(loaded => {
+        persisted.current = new Map(loaded.map(c => [c.id, c]));
+        // Keep anything started while storage was loading
+        setConversations(prev => [...prev, ...loaded]);
+        refreshUsage();
+      })
+      .catch(error => reportError(error, 'load'))
+      .finally(() => setIsLoaded(true));
+  }, [refreshUsage, reportError]);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    const previous = persisted.current;
+    const current = new Map(conversations.map(c => [c.id, c]));
+    const changed = conversations.filter(c => previous.get(c.id) !== c);
+    const removed = Array.from(previous.keys()).filter(id => !current.has(id));
+    if (changed.length === 0 && removed.length === 0) return;
+
+    persisted.current = current;
+    Promise.all([saveConversations(changed), deleteConversations(removed)])
+      .then(() => {
+        setStorageError(null);
+        refreshUsage();
+      })
+      .catch(error => {
+        // Forget the unsaved versions so the next change writes them again
+        changed.forEach(c => {
+          if (persisted.current.get(c.id) === c) persisted.current.delete(c.id);
+        });
+        reportError(error, 'save');
+      });
+  }, [conversations, isLoaded, refreshUsage, reportError]);
+
+  /**
+   * Free up space by deleting older conversations, or only their images
+   */
+  const pruneConversations = useCallback(async (options: PruneOptions) => {
+    try {
+      const pruned = new Set(await pruneStorage(options));
+      const next = options.imagesOnly
+        ? conversationsRef.current.map(c => pruned.has(c.id)
+          ? { ...c, messages: c.messages.map(m => ({ ...m, images: undefined })) }
+          : c)
+        : conversationsRef.current.filter(c => !pruned.has(c.id));
+
+      // Storage already reflects the pruning
+      next.forEach(c => {
+        if (pruned.has(c.id)) persisted.current.set(c.id, c);
+      });
+      if (!options.imagesOnly) pruned.forEach(id => persisted.current.delete(id));
+
+      setConversations(next);
+      setStorageError(null);
+      refreshUsage();
+    } catch (error) {
+      reportError(error, 'prune');
+    }
+  }, [refreshUsage, reportError]);
+
+  return { conversations, setConversations, usage, storageError, pruneConversations };
+};
+
 const useResizable = (initialWidth: number, minWidth: number, maxWidth: number) => {
   const [width, setWidth] = useState(initialWidth);
   const isDragging = useRef(false);
@@ -315,11 +543,61 @@ const Icons = {
       <path d="M6 9l6 6 6-6" />
     </svg>
   ),
+  Compare: () => (
+    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+      <rect x="3" y="3" width="7" height="18" rx="1" />
+      <rect x="14" y="3" width="7" height="18" rx="1" />
+    </svg>
+  ),
+  Restore: () => (
+    <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+      <path d="M3 12a9 9 0 109-9 9.75 9.75 0 00-6.74 2.74L3 8" />
+      <path d="M3 3v5h5" />
+    </svg>
+  ),
+  Inspect: () => (
+    <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+      <path d="M21 11V5a2 2 0 00-2-2H5a2 2 0 00-2 2v14a2 2 0 002 2h6" />
+      <path d="M13 13l9 3-4 2-2 4-3-9z" />
+    </svg>
+  ),
+  Sliders: () => (
+    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+      <path d="M4 21v-7M4 10V3M12 21v-9M12 8V3M20 21v-5M20 12V3M1 14h6M9 8h6M17 16h6" />
+    </svg>
+  ),
+  Sun: () => (
+    <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+      <circle cx="12" cy="12" r="4" />
+      <path d="M12 2v2M12 20v2M4.93 4.93l1.41 1.41M17.66 17.66l1.41 1.41M2 12h2M20 12h2M4.93 19.07l1.41-1.41M17.66 6.34l1.41-1.41" />
+    </svg>
+  ),
+  Moon: () => (
+    <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+      <path d="M21 12.79A9 9 0 1111.21 3 7 7 0 0021 12.79z" />
+    </svg>
+  ),
+  Stop: () => (
+    <svg width="18" height="18" viewBox="0 0 24 24" fill="currentColor" stroke="none">
+      <rect x="6" y="6" width="12" height="12" rx="2" />
+    </svg>
+  ),
   ExternalLink: () => (
     <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
       <path d="M18 13v6a2 2 0 01-2 2H5a2 2 0 01-2-2V8a2 2 0 012-2h6M15 3h6v6M10 14L21 3" />
     </svg>
   ),
+  Link: () => (
+    <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+      <path d="M10 13a5 5 0 007.54.54l3-3a5 5 0 00-7.07-7.07l-1.72 1.71" />
+      <path d="M14 11a5 5 0 00-7.54-.54l-3 3a5 5 0 007.07 7.07l1.71-1.71" />
+    </svg>
+  ),
+  Download: () => (
+    <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+      <path d="M21 15v4a2 2 0 01-2 2H5a2 2 0 01-2-2v-4M7 10l5 5 5-5M12 15V3" />
+    </svg>
+  ),
 };
 
 // ============================================================================
@@ -585,187 +863,1507 @@ const loadPrism = (): Promise<void> => {
   });
 };
 
-const CodeViewer: React.FC<{ code: string }> = ({ code }) => {
-  const [copied, setCopied] = useState(false);
-  const [prismLoaded, setPrismLoaded] = useState(false);
-  const codeRef = useRef<HTMLElement>(null);
-
-  const handleCopy = async () => {
-    await navigator.clipboard.writeText(code);
-    setCopied(true);
-    setTimeout(() => setCopied(false), 2000);
-  };
-
-  // Load Prism on mount
-  useEffect(() => {
-    loadPrism().then(() => setPrismLoaded(true));
-  }, []);
-
-  // Apply Prism syntax highlighting when code changes or Prism loads
-  useEffect(() => {
-    if (codeRef.current && prismLoaded && (window as any).Prism) {
-      (window as any).Prism.highlightElement(codeRef.current);
-    }
-  }, [code, prismLoaded]);
+// Must match the <pre> styles below so the error highlight lines up with the code
+const CODE_FONT_SIZE = 13;
+const CODE_LINE_HEIGHT = 1.6;
+const CODE_PADDING = 16;
+
+const EXPORT_BUTTON_STYLE: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  gap: '4px',
+  flex: 1,
+  padding: '6px 8px',
+  background: THEME.bgElevated,
+  border: `1px solid ${THEME.border}`,
+  borderRadius: '4px',
+  color: THEME.text,
+  fontSize: '11px',
+  cursor: 'pointer',
+};
 
-  return (
-    <div style={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
-      <div style={{
-        padding: '8px 12px',
-        borderBottom: `1px solid ${THEME.border}`,
-        display: 'flex',
-        justifyContent: 'space-between',
-        alignItems: 'center',
-      }}>
-        <span style={{ fontSize: '12px', color: THEME.textMuted }}>Generated Code</span>
-        <button
-          onClick={handleCopy}
-          style={{
-            display: 'flex',
-            alignItems: 'center',
-            gap: '4px',
-            padding: '4px 8px',
-            background: copied ? 'rgba(34, 197, 94, 0.2)' : 'transparent',
-            border: `1px solid ${copied ? THEME.success : THEME.border}`,
-            borderRadius: '4px',
-            color: copied ? THEME.success : THEME.textMuted,
-            fontSize: '11px',
-            cursor: 'pointer',
-            transition: 'all 0.2s',
-          }}
-        >
-          {copied ? <Icons.Check /> : <Icons.Copy />}
-          {copied ? 'Copied!' : 'Copy'}
-        </button>
-      </div>
-      <pre
-        style={{
-          flex: 1,
-          margin: 0,
-          padding: '16px',
-          overflow: 'auto',
-          fontSize: '13px',
-          lineHeight: 1.6,
-          fontFamily: '"Fira Code", "SF Mono", Monaco, monospace',
-          background: '#1d1f21',
-          borderRadius: 0,
-        }}
-      >
-        <code ref={codeRef} className="language-jsx">
-          {code}
-        </code>
-      </pre>
-    </div>
-  );
+const EXPORT_INPUT_STYLE: React.CSSProperties = {
+  flex: 1,
+  minWidth: 0,
+  padding: '4px 8px',
+  background: THEME.bgElevated,
+  border: `1px solid ${THEME.border}`,
+  borderRadius: '4px',
+  color: THEME.text,
+  fontSize: '12px',
 };
 
-// ============================================================================
-// POPOUT MODE COMPONENT
-// ============================================================================
+const EXPORT_LABEL_STYLE: React.CSSProperties = {
+  display: 'flex',
+  flexDirection: 'column',
+  gap: '4px',
+  color: THEME.textMuted,
+};
 
-// Check if we're in popout mode (loaded in iframe for full-width preview)
-const isPopoutMode = new URLSearchParams(window.location.search).get('popout') === 'true';
+/**
+ * Save `contents` as a file through the browser's download
+ */
+const downloadFile = (fileName: string, contents: string) => {
+  const url = URL.createObjectURL(new Blob([contents], { type: 'text/plain' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
 
 /**
- * Popout Preview Component
- *
- * This is a minimal component that renders ONLY the LivePreviewRenderer.
- * It listens for postMessage from the parent window to receive the JSX code.
- *
- * This approach is completely design-system agnostic because:
- * - It uses the same bundled CSS (whatever library the user has)
- * - It uses the same component registry
- * - No framework-specific code needed
+ * Button that opens an export form below it
  */
-const PopoutPreview: React.FC = () => {
-  const [code, setCode] = useState<string | null>(null);
+const ExportMenu: React.FC<{
+  label: string;
+  title: string;
+  children: React.ReactNode;
+}> = ({ label, title, children }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const ref = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
-    // Listen for the preview code from the parent window
-    const handleMessage = (event: MessageEvent) => {
-      // Verify the message is from our parent and has the right type
-      if (event.data && event.data.type === 'PREVIEW_CODE' && typeof event.data.code === 'string') {
-        setCode(event.data.code);
+    const handleClickOutside = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) {
+        setIsOpen(false);
       }
     };
-
-    window.addEventListener('message', handleMessage);
-    return () => window.removeEventListener('message', handleMessage);
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
-  // Simple full-viewport layout for the preview
   return (
-    <div style={{
-      width: '100%',
-      height: '100vh',
-      overflow: 'auto',
-      background: THEME.bgSurface,
-    }}>
-      {code ? (
-        <LivePreviewRenderer
-          code={code}
-          containerStyle={{
-            width: '100%',
-            minHeight: '100%',
-            padding: '24px',
-            background: THEME.bgSurface
-          }}
-          onError={(err) => console.error('Preview error:', err)}
-        />
-      ) : (
-        <div style={{
+    <div ref={ref} style={{ position: 'relative' }}>
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        title={title}
+        style={{
           display: 'flex',
           alignItems: 'center',
-          justifyContent: 'center',
-          height: '100%',
+          gap: '4px',
+          padding: '4px 8px',
+          background: isOpen ? THEME.bgElevated : 'transparent',
+          border: `1px solid ${THEME.border}`,
+          borderRadius: '4px',
           color: THEME.textMuted,
-          fontSize: '14px',
+          fontSize: '11px',
+          cursor: 'pointer',
+        }}
+      >
+        <Icons.Download />
+        {label}
+      </button>
+      {isOpen && (
+        <div style={{
+          position: 'absolute',
+          top: '100%',
+          right: 0,
+          marginTop: '4px',
+          width: '320px',
+          padding: '12px',
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '8px',
+          background: THEME.bgSurface,
+          border: `1px solid ${THEME.border}`,
+          borderRadius: '6px',
+          boxShadow: '0 4px 12px rgba(0,0,0,0.3)',
+          zIndex: 100,
+          fontSize: '12px',
         }}>
-          Loading preview...
+          {children}
         </div>
       )}
     </div>
   );
 };
 
-// ============================================================================
-// MAIN APP
-// ============================================================================
+/**
+ * Exports the code as a Storybook story file, downloaded or saved by the
+ * server into `generatedStoriesPath`
+ */
+const StoryExportMenu: React.FC<{ code: string; defaultTitle: string }> = ({ code, defaultTitle }) => {
+  const [title, setTitle] = useState(defaultTitle);
+  const [status, setStatus] = useState<{ kind: 'saving' | 'saved' | 'exists' | 'error'; message: string } | null>(null);
+  // Ids of the stories in the project when the file to save turned out to exist
+  const [existingIds, setExistingIds] = useState<Set<string> | null>(null);
 
-const App: React.FC = () => {
-  // If we're in popout mode, render only the preview component
-  if (isPopoutMode) {
-    return <PopoutPreview />;
-  }
+  const story = useMemo(() => {
+    try {
+      return { file: buildStoryFile(code, { title, storyPrefix: storyConfig.storyPrefix }), error: null };
+    } catch (err) {
+      return { file: null, error: err instanceof StoryExportError ? err.message : String(err) };
+    }
+  }, [code, title]);
+  const filePath = story.file && `${storyConfig.generatedStoriesPath.replace(/\/$/, '')}/${story.file.fileName}`;
 
-  // Server configuration (providers, models)
-  const serverConfig = useServerConfig();
+  useEffect(() => {
+    setTitle(defaultTitle);
+  }, [defaultTitle]);
 
-  const [conversations, setConversations] = useLocalStorage<Conversation[]>('storyui_conversations', []);
-  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
-  const [inputValue, setInputValue] = useState('');
-  const [isGenerating, setIsGenerating] = useState(false);
-  const [previewCode, setPreviewCode] = useState<string | null>(null);
-  const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
-  const [previewTab, setPreviewTab] = useState<'preview' | 'code'>('preview');
-  const [images, setImages] = useState<ImageAttachment[]>([]);
+  useEffect(() => {
+    setStatus(null);
+    setExistingIds(null);
+  }, [code, title]);
 
-  const messagesEndRef = useRef<HTMLDivElement>(null);
-  const inputRef = useRef<HTMLTextAreaElement>(null);
-  const previewContainerRef = useRef<HTMLDivElement>(null);
-  const { width: chatWidth, startResize } = useResizable(400, 320, 600);
+  // The server overwrites story files, so saving asks first when the file exists
+  const saveToProject = async (file: StoryFile, replace: boolean) => {
+    setStatus({ kind: 'saving', message: 'Saving...' });
+    try {
+      if (!replace) {
+        const listResponse = await fetch(`${SERVER_URL}/story-ui/stories`);
+        if (!listResponse.ok) {
+          throw new Error(`Could not check for an existing story: server responded with ${listResponse.status}`);
+        }
+        const ids = new Set<string>(((await listResponse.json()).stories ?? []).map((s: { id: string }) => s.id));
+        if (ids.has(file.id)) {
+          setExistingIds(ids);
+          setStatus({ kind: 'exists', message: `${file.fileName} already exists in the project.` });
+          return;
+        }
+      }
+      const response = await fetch(`${SERVER_URL}/story-ui/stories`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: file.id, title: file.title, code: file.code }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || `Server responded with ${response.status}`);
+      }
+      setStatus({ kind: 'saved', message: `Saved to ${storyConfig.generatedStoriesPath.replace(/\/$/, '')}/${file.fileName}` });
+    } catch (err) {
+      setStatus({ kind: 'error', message: err instanceof Error ? err.message : String(err) });
+    }
+  };
 
-  const activeConversation = conversations.find(c => c.id === activeConversationId);
+  // A copy needs its own title as well as its own file, or Storybook sees duplicate stories
+  const copyFile = useMemo(() => {
+    if (!existingIds) return null;
+    for (let index = 2; index < 100; index++) {
+      const file = buildStoryFile(code, { title: `${title.trim() || 'Untitled'} ${index}`, storyPrefix: storyConfig.storyPrefix });
+      if (!existingIds.has(file.id)) return file;
+    }
+    return null;
+  }, [code, title, existingIds]);
 
-  // Filter out empty conversations for display (deferred creation)
-  const displayConversations = conversations.filter(c => c.messages.length > 0);
+  return (
+    <ExportMenu label="Export story" title="Export as a Storybook story file">
+      <label style={EXPORT_LABEL_STYLE}>
+        Story title
+        <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+          <span style={{ color: THEME.textSubtle }}>{storyConfig.storyPrefix}</span>
+          <input value={title} onChange={e => setTitle(e.target.value)} style={EXPORT_INPUT_STYLE} />
+        </div>
+      </label>
+      {story.file ? (
+        <div style={{ color: THEME.textSubtle, wordBreak: 'break-all' }}>{filePath}</div>
+      ) : (
+        <div style={{ color: THEME.error }}>{story.error}</div>
+      )}
+      <div style={{ display: 'flex', gap: '6px' }}>
+        <button
+          onClick={() => story.file && downloadFile(story.file.fileName, story.file.code)}
+          disabled={!story.file}
+          style={{ ...EXPORT_BUTTON_STYLE, opacity: story.file ? 1 : 0.5 }}
+        >
+          <Icons.Download />
+          Download
+        </button>
+        <button
+          onClick={() => story.file && saveToProject(story.file, false)}
+          disabled={!story.file || status?.kind === 'saving' || status?.kind === 'exists'}
+          title={`Write the story into ${storyConfig.generatedStoriesPath} on the server`}
+          style={{
+            ...EXPORT_BUTTON_STYLE,
+            opacity: story.file && status?.kind !== 'saving' && status?.kind !== 'exists' ? 1 : 0.5,
+          }}
+        >
+          Save to project
+        </button>
+      </div>
+      {status?.kind === 'exists' && story.file && (
+        <div style={{ display: 'flex', gap: '6px' }}>
+          <button onClick={() => story.file && saveToProject(story.file, true)} style={EXPORT_BUTTON_STYLE}>
+            Replace it
+          </button>
+          {copyFile && (
+            <button onClick={() => saveToProject(copyFile, true)} style={EXPORT_BUTTON_STYLE} title={copyFile.fileName}>
+              Save as "{copyFile.title}"
+            </button>
+          )}
+        </div>
+      )}
+      {status && (
+        <div style={{
+          color: status.kind === 'error' ? THEME.error : status.kind === 'saved' ? THEME.success : THEME.textMuted,
+          wordBreak: 'break-all',
+        }}>
+          {status.message}
+        </div>
+      )}
+    </ExportMenu>
+  );
+};
 
-  // Auto-scroll messages
-  useEffect(() => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [activeConversation?.messages]);
+/**
+ * Exports the code as a standalone component module, with its hard-coded
+ * content lifted into props
+ */
+const ComponentExportMenu: React.FC<{ code: string; defaultTitle: string }> = ({ code, defaultTitle }) => {
+  const [name, setName] = useState(() => componentNameFor(defaultTitle));
+  const [copied, setCopied] = useState(false);
+
+  const component = useMemo(() => {
+    try {
+      return { module: buildComponentModule(code, { title: name }), error: null };
+    } catch (err) {
+      return { module: null, error: err instanceof StoryExportError ? err.message : String(err) };
+    }
+  }, [code, name]);
 
-  // Initialize - select existing conversation or stay in "new chat" mode
+  useEffect(() => {
+    setName(componentNameFor(defaultTitle));
+  }, [defaultTitle]);
+
+  const handleCopy = async () => {
+    if (!component.module) return;
+    await navigator.clipboard.writeText(component.module.code);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <ExportMenu label="Export component" title="Export as a reusable component with props">
+      <label style={EXPORT_LABEL_STYLE}>
+        Component name
+        <input value={name} onChange={e => setName(e.target.value)} style={EXPORT_INPUT_STYLE} />
+      </label>
+      {component.module ? (
+        <div style={{ color: THEME.textSubtle }}>
+          <div style={{ color: THEME.textMuted }}>{component.module.fileName}</div>
+          {component.module.props.length > 0
+            ? `Props: ${component.module.props.map(prop => prop.name).join(', ')}`
+            : 'No content to lift into props'}
+        </div>
+      ) : (
+        <div style={{ color: THEME.error }}>{component.error}</div>
+      )}
+      <div style={{ display: 'flex', gap: '6px' }}>
+        <button
+          onClick={() => component.module && downloadFile(component.module.fileName, component.module.code)}
+          disabled={!component.module}
+          style={{ ...EXPORT_BUTTON_STYLE, opacity: component.module ? 1 : 0.5 }}
+        >
+          <Icons.Download />
+          Download
+        </button>
+        <button
+          onClick={handleCopy}
+          disabled={!component.module}
+          style={{ ...EXPORT_BUTTON_STYLE, opacity: component.module ? 1 : 0.5 }}
+        >
+          {copied ? <Icons.Check /> : <Icons.Copy />}
+          {copied ? 'Copied!' : 'Copy'}
+        </button>
+      </div>
+    </ExportMenu>
+  );
+};
+
+/**
+ * Creates a permalink to the preview and copies it, showing the link below
+ * the button
+ */
+const ShareButton: React.FC<SharedPreview> = ({ code, title, theme }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [link, setLink] = useState<ShareLink | null>(null);
+  const [status, setStatus] = useState<{ kind: 'sharing' | 'copied' | 'error'; message: string } | null>(null);
+  const ref = useRef<HTMLDivElement>(null);
+
+  // A link shares the preview as it was, so changes need a new one
+  useEffect(() => {
+    setLink(null);
+    setStatus(null);
+  }, [code, title, theme]);
+
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const share = async () => {
+    setIsOpen(true);
+    if (link || status?.kind === 'sharing') return;
+    setStatus({ kind: 'sharing', message: 'Creating link...' });
+    try {
+      const created = await createShareLink({ code, title, theme }, `${window.location.origin}${window.location.pathname}`);
+      setLink(created);
+      await navigator.clipboard.writeText(created.url)
+        .then(() => setStatus({ kind: 'copied', message: 'Link copied' }))
+        .catch(() => setStatus(null));
+    } catch (err) {
+      setStatus({ kind: 'error', message: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
+  return (
+    <div ref={ref} style={{ position: 'relative' }}>
+      <button
+        onClick={share}
+        title="Copy a link anyone can open to view this preview and its code"
+        style={{
+          padding: '6px 10px',
+          background: THEME.bgElevated,
+          border: `1px solid ${THEME.border}`,
+          borderRadius: '6px',
+          color: THEME.textMuted,
+          fontSize: '12px',
+          cursor: 'pointer',
+          display: 'flex',
+          alignItems: 'center',
+          gap: '4px',
+        }}
+      >
+        <Icons.Link />
+        Share
+      </button>
+      {isOpen && (link || status) && (
+        <div style={{
+          position: 'absolute',
+          top: '100%',
+          right: 0,
+          marginTop: '4px',
+          width: '320px',
+          padding: '12px',
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '8px',
+          background: THEME.bgSurface,
+          border: `1px solid ${THEME.border}`,
+          borderRadius: '6px',
+          boxShadow: '0 4px 12px rgba(0,0,0,0.3)',
+          zIndex: 100,
+          fontSize: '12px',
+        }}>
+          {link && (
+            <>
+              <input
+                readOnly
+                value={link.url}
+                onFocus={e => e.currentTarget.select()}
+                style={EXPORT_INPUT_STYLE}
+              />
+              <div style={{ color: THEME.textSubtle }}>
+                {link.stored
+                  ? `The preview is stored on the server${link.expiresAt ? ` until ${new Date(link.expiresAt).toLocaleDateString()}` : ''}; the link opens it read-only.`
+                  : 'The code is in the link itself; it opens the preview read-only.'}
+              </div>
+            </>
+          )}
+          {status && (
+            <div style={{
+              color: status.kind === 'error' ? THEME.error : status.kind === 'copied' ? THEME.success : THEME.textMuted,
+            }}>
+              {status.message}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const CodeViewer: React.FC<{
+  code: string;
+  diagnostic?: PreviewDiagnostic | null;
+  /** Offers exporting the code as a story or component with this title, when set */
+  storyTitle?: string;
+}> = ({ code, diagnostic, storyTitle }) => {
+  const [copied, setCopied] = useState(false);
+  const [prismLoaded, setPrismLoaded] = useState(false);
+  const codeRef = useRef<HTMLElement>(null);
+  const highlightRef = useRef<HTMLDivElement>(null);
+  const errorLine = diagnostic?.line;
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(code);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  // Load Prism on mount
+  useEffect(() => {
+    loadPrism().then(() => setPrismLoaded(true));
+  }, []);
+
+  // Apply Prism syntax highlighting when code changes or Prism loads
+  useEffect(() => {
+    if (codeRef.current && prismLoaded && (window as any).Prism) {
+      (window as any).Prism.highlightElement(codeRef.current);
+    }
+  }, [code, prismLoaded]);
+
+  // Bring the offending line into view
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: 'center' });
+  }, [errorLine, code]);
+
+  return (
+    <div style={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
+      <div style={{
+        padding: '8px 12px',
+        borderBottom: `1px solid ${THEME.border}`,
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+      }}>
+        <span style={{ fontSize: '12px', color: THEME.textMuted }}>Generated Code</span>
+        <div style={{ display: 'flex', gap: '6px' }}>
+          {storyTitle !== undefined && (
+            <>
+              <ComponentExportMenu code={code} defaultTitle={storyTitle} />
+              <StoryExportMenu code={code} defaultTitle={storyTitle} />
+            </>
+          )}
+          <button
+            onClick={handleCopy}
+            style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '4px',
+              padding: '4px 8px',
+              background: copied ? 'rgba(34, 197, 94, 0.2)' : 'transparent',
+              border: `1px solid ${copied ? THEME.success : THEME.border}`,
+              borderRadius: '4px',
+              color: copied ? THEME.success : THEME.textMuted,
+              fontSize: '11px',
+              cursor: 'pointer',
+              transition: 'all 0.2s',
+            }}
+          >
+            {copied ? <Icons.Check /> : <Icons.Copy />}
+            {copied ? 'Copied!' : 'Copy'}
+          </button>
+        </div>
+      </div>
+      {diagnostic && (
+        <div style={{
+          padding: '8px 12px',
+          background: 'rgba(239, 68, 68, 0.1)',
+          borderBottom: `1px solid ${THEME.border}`,
+          color: THEME.error,
+          fontSize: '12px',
+          fontFamily: '"Fira Code", "SF Mono", Monaco, monospace',
+        }}>
+          {diagnostic.phase === 'compile' ? 'Compilation error' : 'Runtime error'}
+          {errorLine !== undefined && ` at line ${errorLine}, column ${diagnostic.column}`}: {diagnostic.message}
+        </div>
+      )}
+      <pre
+        style={{
+          position: 'relative',
+          flex: 1,
+          margin: 0,
+          padding: `${CODE_PADDING}px`,
+          overflow: 'auto',
+          fontSize: `${CODE_FONT_SIZE}px`,
+          lineHeight: CODE_LINE_HEIGHT,
+          fontFamily: '"Fira Code", "SF Mono", Monaco, monospace',
+          background: '#1d1f21',
+          borderRadius: 0,
+        }}
+      >
+        {errorLine !== undefined && (
+          <div
+            ref={highlightRef}
+            style={{
+              position: 'absolute',
+              left: 0,
+              right: 0,
+              top: `${CODE_PADDING + (errorLine - 1) * CODE_FONT_SIZE * CODE_LINE_HEIGHT}px`,
+              height: `${CODE_FONT_SIZE * CODE_LINE_HEIGHT}px`,
+              background: 'rgba(239, 68, 68, 0.18)',
+              borderLeft: `3px solid ${THEME.error}`,
+              pointerEvents: 'none',
+            }}
+          />
+        )}
+        <code ref={codeRef} className="language-jsx">
+          {code}
+        </code>
+      </pre>
+    </div>
+  );
+};
+
+const DIFF_ROW_COLORS = {
+  removed: 'rgba(239, 68, 68, 0.15)',
+  added: 'rgba(34, 197, 94, 0.15)',
+};
+
+/**
+ * Side-by-side diff of two code versions of a conversation
+ */
+const VersionDiff: React.FC<{
+  versions: CodeVersion[];
+  /** The version shown on the right, compared against the one before it */
+  initialVersionId: string | null;
+}> = ({ versions, initialVersionId }) => {
+  const initialIndex = Math.max(versions.findIndex(v => v.message.id === initialVersionId), 1);
+  const [afterId, setAfterId] = useState(versions[initialIndex]?.message.id);
+  const [beforeId, setBeforeId] = useState(versions[initialIndex - 1]?.message.id);
+
+  const before = versions.find(v => v.message.id === beforeId) ?? versions[0];
+  const after = versions.find(v => v.message.id === afterId) ?? versions[versions.length - 1];
+  const rows = useMemo(() => diffLines(before.message.generatedCode, after.message.generatedCode), [before, after]);
+  const stats = diffStats(rows);
+
+  const versionSelect = (value: CodeVersion, onChange: (id: string) => void) => (
+    <select
+      value={value.message.id}
+      onChange={(e) => onChange(e.target.value)}
+      style={{
+        padding: '4px 8px',
+        background: THEME.bgElevated,
+        border: `1px solid ${THEME.border}`,
+        borderRadius: '4px',
+        color: THEME.text,
+        fontSize: '12px',
+        outline: 'none',
+      }}
+    >
+      {versions.map(version => (
+        <option key={version.message.id} value={version.message.id}>Version {version.number}</option>
+      ))}
+    </select>
+  );
+
+  const cell = (line: DiffLine | undefined, background: string | undefined) => (
+    <div style={{ display: 'flex', background, minHeight: `${CODE_FONT_SIZE * CODE_LINE_HEIGHT}px` }}>
+      <span style={{
+        flexShrink: 0,
+        width: '40px',
+        paddingRight: '8px',
+        textAlign: 'right',
+        color: THEME.textSubtle,
+        userSelect: 'none',
+      }}>
+        {line?.number}
+      </span>
+      <span style={{ whiteSpace: 'pre', paddingRight: '16px', color: THEME.text }}>{line?.text}</span>
+    </div>
+  );
+
+  return (
+    <div style={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
+      <div style={{
+        padding: '8px 12px',
+        borderBottom: `1px solid ${THEME.border}`,
+        display: 'flex',
+        alignItems: 'center',
+        gap: '8px',
+        fontSize: '12px',
+        color: THEME.textMuted,
+      }}>
+        {versionSelect(before, setBeforeId)}
+        <span>→</span>
+        {versionSelect(after, setAfterId)}
+        <span style={{ marginLeft: 'auto' }}>
+          <span style={{ color: THEME.success }}>+{stats.added}</span>
+          {' '}
+          <span style={{ color: THEME.error }}>-{stats.removed}</span>
+        </span>
+      </div>
+      <div style={{
+        flex: 1,
+        overflow: 'auto',
+        padding: `${CODE_PADDING}px 0`,
+        fontSize: `${CODE_FONT_SIZE}px`,
+        lineHeight: CODE_LINE_HEIGHT,
+        fontFamily: '"Fira Code", "SF Mono", Monaco, monospace',
+        background: '#1d1f21',
+      }}>
+        {stats.added === 0 && stats.removed === 0 && (
+          <div style={{ padding: '0 16px 8px', color: THEME.textMuted }}>These versions are identical.</div>
+        )}
+        {/* One grid for all rows keeps both columns aligned when lines overflow */}
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(2, minmax(max-content, 1fr))' }}>
+          {rows.map((row, i) => (
+            <React.Fragment key={i}>
+              {cell(row.before, row.type === 'removed' || row.type === 'changed' ? DIFF_ROW_COLORS.removed : undefined)}
+              {cell(row.after, row.type === 'added' || row.type === 'changed' ? DIFF_ROW_COLORS.added : undefined)}
+            </React.Fragment>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Props the inspector doesn't offer to add: content and internal attributes
+const isEditableProp = (prop: string) => prop !== 'children' && !/^(?:data|aria)-/.test(prop);
+
+/** A prop value as written in JSX, for messages and labels */
+const formatPropValue = (value: JSXPropValue): string =>
+  value.kind === 'string' ? JSON.stringify(value.value)
+    : value.kind === 'expression' ? `{${value.source}}`
+      : String(value.value);
+
+/** The value a newly added prop starts with */
+const defaultPropValue = (prop: string, schema: ComponentPropSchema): JSXPropValue => {
+  const options = schema.enums[prop];
+  if (options) return { kind: 'string', value: options.values[0] ?? '' };
+  switch (schema.kinds[prop]) {
+    case 'boolean':
+      return { kind: 'boolean', value: true };
+    case 'number':
+      return { kind: 'number', value: 0 };
+    default:
+      return { kind: 'string', value: '' };
+  }
+};
+
+const PROP_INPUT_STYLE: React.CSSProperties = {
+  width: '100%',
+  padding: '5px 8px',
+  background: THEME.bgElevated,
+  border: `1px solid ${THEME.border}`,
+  borderRadius: '4px',
+  color: THEME.text,
+  fontSize: '12px',
+  outline: 'none',
+  boxSizing: 'border-box',
+};
+
+/**
+ * Text input that commits on blur or Enter, so typing doesn't create a
+ * version per keystroke
+ */
+const PropTextInput: React.FC<{
+  value: string;
+  onCommit: (value: string) => void;
+  type?: 'text' | 'number';
+  list?: string;
+  monospace?: boolean;
+  disabled?: boolean;
+}> = ({ value, onCommit, type = 'text', list, monospace, disabled }) => {
+  const [draft, setDraft] = useState(value);
+  useEffect(() => setDraft(value), [value]);
+
+  const commit = () => {
+    if (draft !== value) onCommit(draft);
+  };
+
+  return (
+    <input
+      type={type}
+      list={list}
+      value={draft}
+      disabled={disabled}
+      onChange={e => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={e => {
+        if (e.key === 'Enter') commit();
+        if (e.key === 'Escape') setDraft(value);
+      }}
+      style={{ ...PROP_INPUT_STYLE, fontFamily: monospace ? '"Fira Code", Monaco, monospace' : 'inherit' }}
+    />
+  );
+};
+
+const PROPS_PANEL_STYLE: React.CSSProperties = {
+  width: '280px',
+  flexShrink: 0,
+  display: 'flex',
+  flexDirection: 'column',
+  borderLeft: `1px solid ${THEME.border}`,
+  background: THEME.bgSurface,
+  fontSize: '12px',
+};
+
+/**
+ * Props of the element selected in the preview, with controls picked from
+ * the component's prop schema. Edits are reported through `onChange` and
+ * applied to the code by the caller.
+ */
+const PropsPanel: React.FC<{
+  /** The selected element, null while nothing is selected */
+  element: JSXElementInfo | null;
+  props: JSXProp[];
+  schema: ComponentPropSchema | null;
+  error: string | null;
+  disabled: boolean;
+  onChange: (prop: string, value: JSXPropValue | null) => void;
+  onClose: () => void;
+}> = ({ element, props, schema, error, disabled, onChange, onClose }) => {
+  if (!element) {
+    return (
+      <div style={{ ...PROPS_PANEL_STYLE, padding: '16px 12px', color: THEME.textMuted, lineHeight: 1.5 }}>
+        Use "Select element" and click a component in the preview to edit its props.
+      </div>
+    );
+  }
+
+  const present = new Set(props.map(prop => prop.name));
+  const addable = (schema?.props ?? [])
+    .filter(prop => isEditableProp(prop) && !present.has(prop) && (schema!.enums[prop] || schema!.kinds[prop]))
+    .sort();
+
+  // Controls follow the value as written; the schema supplies the options
+  const control = ({ name, value }: JSXProp) => {
+    const options = schema?.enums[name];
+
+    switch (value.kind) {
+      case 'expression':
+        return (
+          <PropTextInput
+            monospace
+            disabled={disabled}
+            value={value.source}
+            onCommit={source => onChange(name, { kind: 'expression', source })}
+          />
+        );
+      case 'boolean':
+        return (
+          <input
+            type="checkbox"
+            checked={value.value}
+            disabled={disabled}
+            onChange={e => onChange(name, { kind: 'boolean', value: e.target.checked })}
+          />
+        );
+      case 'number':
+        return (
+          <PropTextInput
+            type="number"
+            disabled={disabled}
+            value={String(value.value)}
+            onCommit={text => text.trim() !== '' && onChange(name, { kind: 'number', value: Number(text) })}
+          />
+        );
+    }
+
+    if (options && !options.open) {
+      return (
+        <select
+          value={value.value}
+          disabled={disabled}
+          onChange={e => onChange(name, { kind: 'string', value: e.target.value })}
+          style={PROP_INPUT_STYLE}
+        >
+          {!options.values.includes(value.value) && <option value={value.value}>{value.value}</option>}
+          {options.values.map(option => <option key={option} value={option}>{option}</option>)}
+        </select>
+      );
+    }
+    return (
+      <>
+        <PropTextInput
+          list={options ? `prop-options-${name}` : undefined}
+          disabled={disabled}
+          value={value.value}
+          onCommit={text => onChange(name, { kind: 'string', value: text })}
+        />
+        {/* Open props suggest their built-in values but accept any */}
+        {options && (
+          <datalist id={`prop-options-${name}`}>
+            {options.values.map(option => <option key={option} value={option} />)}
+          </datalist>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div style={PROPS_PANEL_STYLE}>
+      <div style={{
+        padding: '10px 12px',
+        borderBottom: `1px solid ${THEME.border}`,
+        display: 'flex',
+        alignItems: 'center',
+        gap: '8px',
+      }}>
+        <span style={{ flex: 1, color: THEME.text, fontWeight: 500 }}>
+          &lt;{element.name || 'fragment'}&gt;
+          <span style={{ marginLeft: '6px', color: THEME.textSubtle, fontWeight: 400 }}>line {element.line}</span>
+        </span>
+        <button
+          onClick={onClose}
+          title="Clear selection"
+          style={{ padding: '2px', background: 'transparent', border: 'none', color: THEME.textMuted, cursor: 'pointer', display: 'flex' }}
+        >
+          <Icons.X />
+        </button>
+      </div>
+
+      <div style={{ flex: 1, overflowY: 'auto', padding: '8px 12px' }}>
+        {error && (
+          <div style={{
+            marginBottom: '8px',
+            padding: '6px 8px',
+            background: 'rgba(239, 68, 68, 0.1)',
+            borderRadius: '4px',
+            color: THEME.error,
+          }}>
+            {error}
+          </div>
+        )}
+        {props.length === 0 && (
+          <div style={{ padding: '4px 0 8px', color: THEME.textMuted }}>No props set.</div>
+        )}
+        {props.map(prop => (
+          <div key={prop.name} style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '8px' }}>
+            <span
+              title={prop.name}
+              style={{ width: '90px', flexShrink: 0, overflow: 'hidden', textOverflow: 'ellipsis', color: THEME.textMuted }}
+            >
+              {prop.name}
+            </span>
+            <div style={{ flex: 1, minWidth: 0 }}>{control(prop)}</div>
+            <button
+              onClick={() => onChange(prop.name, null)}
+              disabled={disabled}
+              title={`Remove ${prop.name}`}
+              style={{ padding: '2px', background: 'transparent', border: 'none', color: THEME.textSubtle, cursor: 'pointer', display: 'flex' }}
+            >
+              <Icons.Trash />
+            </button>
+          </div>
+        ))}
+
+        {schema && addable.length > 0 && (
+          <select
+            value=""
+            disabled={disabled}
+            onChange={e => e.target.value && onChange(e.target.value, defaultPropValue(e.target.value, schema))}
+            style={{ ...PROP_INPUT_STYLE, marginTop: '4px', color: THEME.textMuted }}
+          >
+            <option value="">Add prop...</option>
+            {addable.map(prop => <option key={prop} value={prop}>{prop}</option>)}
+          </select>
+        )}
+        {!schema && element.name && (
+          <div style={{ marginTop: '4px', color: THEME.textSubtle }}>
+            &lt;{element.name}&gt; isn't a registry component, so only its current props can be edited.
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Bezel around the preview for each device frame
+const DEVICE_FRAME_STYLES: Record<DeviceFrame, React.CSSProperties> = {
+  phone: { padding: '12px', borderRadius: '36px', background: THEME.bgElevated, border: `1px solid ${THEME.borderSubtle}` },
+  tablet: { padding: '16px', borderRadius: '24px', background: THEME.bgElevated, border: `1px solid ${THEME.borderSubtle}` },
+  desktop: { padding: '0', borderRadius: '8px', background: THEME.bgElevated, border: `1px solid ${THEME.borderSubtle}` },
+};
+
+const viewportDescription = (viewport: Viewport) =>
+  viewport.width === null ? viewport.label : `${viewport.label} - ${viewport.width}px (${activeBreakpoint(viewport.width)})`;
+
+/**
+ * The live preview at a chosen viewport: filling the pane, in a device frame,
+ * at a breakpoint or at a custom width, or at every device size side by side.
+ * The choice is remembered across sessions.
+ */
+const ResponsivePreview: React.FC<{
+  code: string;
+  theme: PreviewThemeSettings;
+  onError: (error: Error, diagnostic: PreviewDiagnostic) => void;
+  onSuccess: () => void;
+  inspecting: boolean;
+  onSelect: (offset: number) => void;
+}> = ({ code, theme, onError, onSuccess, inspecting, onSelect }) => {
+  const [viewportId, setViewportId] = useLocalStorage<string>('storyui_preview_viewport', FIT_VIEWPORT.id);
+  const [customWidth, setCustomWidth] = useLocalStorage<number>('storyui_preview_custom_width', 1024);
+  const [sideBySide, setSideBySide] = useLocalStorage<boolean>('storyui_preview_side_by_side', false);
+
+  const viewport = viewportId === 'custom' ? customViewport(customWidth) : findViewport(viewportId) ?? FIT_VIEWPORT;
+  const shown = sideBySide ? deviceViewports : [viewport];
+
+  const chip = (active: boolean): React.CSSProperties => ({
+    flexShrink: 0,
+    padding: '4px 10px',
+    background: active ? THEME.accentMuted : THEME.bgElevated,
+    border: `1px solid ${active ? THEME.accent : THEME.border}`,
+    borderRadius: '12px',
+    color: active ? THEME.accent : THEME.textMuted,
+    fontSize: '12px',
+    cursor: 'pointer',
+  });
+
+  const renderer = (style: React.CSSProperties) => (
+    <LivePreviewRenderer
+      code={code}
+      containerStyle={{ background: previewBackground(theme), ...style }}
+      onError={onError}
+      onSuccess={onSuccess}
+      inspecting={inspecting}
+      onSelect={onSelect}
+      theme={theme}
+    />
+  );
+
+  const frame = (shownViewport: Viewport) => {
+    const { width, height, frame: device } = shownViewport;
+    return (
+      <div
+        key={shownViewport.id}
+        style={{ flexShrink: 0, display: 'flex', flexDirection: 'column', gap: '8px', height: height ? undefined : '100%' }}
+      >
+        <div style={{ fontSize: '12px', color: THEME.textSubtle }}>{viewportDescription(shownViewport)}</div>
+        <div style={{
+          ...(device ? DEVICE_FRAME_STYLES[device] : { border: `1px dashed ${THEME.borderSubtle}` }),
+          flex: height ? undefined : 1,
+          minHeight: 0,
+          display: 'flex',
+          flexDirection: 'column',
+        }}>
+          {device === 'desktop' && (
+            <div style={{ padding: '8px 12px', display: 'flex', gap: '6px' }}>
+              {[0, 1, 2].map(dot => (
+                <span key={dot} style={{ width: '10px', height: '10px', borderRadius: '50%', background: THEME.bgHover }} />
+              ))}
+            </div>
+          )}
+          <div style={{
+            width: `${width}px`,
+            height: height ? `${height}px` : undefined,
+            flex: height ? undefined : 1,
+            minHeight: 0,
+            borderRadius: device === 'phone' ? '24px' : device === 'tablet' ? '8px' : undefined,
+            overflow: 'hidden',
+          }}>
+            {renderer({ height: '100%' })}
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div style={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
+      {/* Viewport Toolbar */}
+      <div style={{
+        padding: '8px 16px',
+        borderBottom: `1px solid ${THEME.border}`,
+        display: 'flex',
+        alignItems: 'center',
+        gap: '6px',
+        overflowX: 'auto',
+      }}>
+        {[FIT_VIEWPORT, ...deviceViewports].map(preset => (
+          <button
+            key={preset.id}
+            onClick={() => { setViewportId(preset.id); setSideBySide(false); }}
+            title={viewportDescription(preset)}
+            style={chip(!sideBySide && viewport.id === preset.id)}
+          >
+            {preset.label}
+          </button>
+        ))}
+        <span style={{ width: '1px', alignSelf: 'stretch', margin: '0 4px', background: THEME.border }} />
+        {breakpointViewports.map(preset => (
+          <button
+            key={preset.id}
+            onClick={() => { setViewportId(preset.id); setSideBySide(false); }}
+            title={`Breakpoint ${preset.label} starts at ${preset.width}px`}
+            style={chip(!sideBySide && viewport.id === preset.id)}
+          >
+            {preset.label}
+          </button>
+        ))}
+        <span style={{ width: '1px', alignSelf: 'stretch', margin: '0 4px', background: THEME.border }} />
+        <label style={{ ...chip(!sideBySide && viewport.id === 'custom'), display: 'flex', alignItems: 'center', gap: '4px' }}>
+          <input
+            type="number"
+            min={CUSTOM_WIDTH_RANGE.min}
+            max={CUSTOM_WIDTH_RANGE.max}
+            value={customWidth}
+            onChange={e => {
+              if (e.target.value === '') return;
+              setCustomWidth(Number(e.target.value));
+              setViewportId('custom');
+              setSideBySide(false);
+            }}
+            onBlur={() => setCustomWidth(customViewport(customWidth).width!)}
+            style={{
+              width: '56px',
+              background: 'transparent',
+              border: 'none',
+              color: 'inherit',
+              fontSize: '12px',
+              outline: 'none',
+            }}
+          />
+          px
+        </label>
+        <button
+          onClick={() => setSideBySide(prev => !prev)}
+          title="Show the mobile, tablet and desktop sizes next to each other"
+          style={{ ...chip(sideBySide), marginLeft: 'auto', display: 'flex', alignItems: 'center', gap: '4px' }}
+        >
+          <Icons.Compare />
+          Side by side
+        </button>
+      </div>
+
+      {viewport.width === null && !sideBySide ? (
+        <div style={{ flex: 1, minHeight: 0 }}>{renderer({ height: '100%' })}</div>
+      ) : (
+        <div style={{ flex: 1, minHeight: 0, overflow: 'auto', padding: '16px', background: THEME.bg }}>
+          {/* max-content keeps wide frames scrollable instead of clipped by the centering */}
+          <div style={{ width: 'max-content', height: '100%', margin: '0 auto', display: 'flex', alignItems: 'flex-start', gap: '24px' }}>
+            {shown.map(frame)}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const THEME_SELECT_STYLE: React.CSSProperties = {
+  padding: '5px 8px',
+  background: THEME.bgElevated,
+  border: `1px solid ${THEME.border}`,
+  borderRadius: '6px',
+  color: THEME.textMuted,
+  fontSize: '12px',
+  outline: 'none',
+};
+
+/**
+ * Results of generating one prompt with several models side by side. Each
+ * pane shows the model's preview with how long it took and whether its code
+ * validated; picking one continues the conversation with it.
+ */
+const ModelComparison: React.FC<{
+  runs: ComparisonRun[];
+  modelName: (model: string) => string;
+  theme: PreviewThemeSettings;
+  onPick: (run: ComparisonRun) => void;
+  onDiscard: () => void;
+}> = ({ runs, modelName, theme, onPick, onDiscard }) => {
+  // Render errors the previews report, by model
+  const [renderErrors, setRenderErrors] = useState<Record<string, string>>({});
+  const generating = runs.some(run => run.status === 'generating');
+
+  const setRenderError = (model: string, message: string | null) => {
+    setRenderErrors(prev => {
+      if ((prev[model] ?? null) === message) return prev;
+      const next = { ...prev };
+      if (message === null) delete next[model];
+      else next[model] = message;
+      return next;
+    });
+  };
+
+  const runStatus = (run: ComparisonRun): { label: string; color: string } => {
+    if (run.status === 'generating') {
+      return { label: run.received > 0 ? `Generating... ${run.received.toLocaleString()} chars` : 'Generating...', color: THEME.textMuted };
+    }
+    if (run.status === 'error') return { label: run.error ?? 'Failed', color: THEME.error };
+    if (renderErrors[run.model]) return { label: `Render error: ${renderErrors[run.model]}`, color: THEME.error };
+    const warnings = (run.componentWarnings?.length ?? 0) + (run.propWarnings?.length ?? 0);
+    return warnings > 0
+      ? { label: `${warnings} validation warning${warnings === 1 ? '' : 's'}`, color: THEME.warning }
+      : { label: 'Valid', color: THEME.success };
+  };
+
+  return (
+    <div style={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
+      <div style={{
+        padding: '8px 16px',
+        borderBottom: `1px solid ${THEME.border}`,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        fontSize: '12px',
+        color: THEME.textMuted,
+      }}>
+        <span>
+          {generating
+            ? `Comparing ${runs.length} models...`
+            : 'Pick the result to continue the conversation with'}
+        </span>
+        <button
+          onClick={onDiscard}
+          disabled={generating}
+          style={{
+            padding: '4px 10px',
+            background: 'transparent',
+            border: `1px solid ${THEME.border}`,
+            borderRadius: '6px',
+            color: THEME.textMuted,
+            fontSize: '12px',
+            cursor: generating ? 'not-allowed' : 'pointer',
+            opacity: generating ? 0.5 : 1,
+          }}
+        >
+          Discard all
+        </button>
+      </div>
+      <div style={{
+        flex: 1,
+        minHeight: 0,
+        display: 'grid',
+        gridTemplateColumns: `repeat(${runs.length}, minmax(0, 1fr))`,
+      }}>
+        {runs.map((run, index) => {
+          const status = runStatus(run);
+          return (
+            <div
+              key={run.model}
+              style={{
+                display: 'flex',
+                flexDirection: 'column',
+                minWidth: 0,
+                borderLeft: index > 0 ? `1px solid ${THEME.border}` : 'none',
+              }}
+            >
+              <div style={{
+                padding: '8px 12px',
+                borderBottom: `1px solid ${THEME.border}`,
+                display: 'flex',
+                alignItems: 'center',
+                gap: '8px',
+              }}>
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  <div style={{ fontSize: '13px', color: THEME.text, fontWeight: 500 }}>
+                    {modelName(run.model)}
+                    {run.latency !== undefined && (
+                      <span style={{ marginLeft: '6px', fontSize: '11px', color: THEME.textSubtle, fontWeight: 400 }}>
+                        {(run.latency / 1000).toFixed(1)}s
+                      </span>
+                    )}
+                  </div>
+                  <div
+                    title={status.label}
+                    style={{ fontSize: '11px', color: status.color, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+                  >
+                    {status.label}
+                  </div>
+                </div>
+                <button
+                  onClick={() => onPick(run)}
+                  disabled={run.status !== 'done'}
+                  style={{
+                    flexShrink: 0,
+                    padding: '6px 10px',
+                    background: run.status === 'done' ? THEME.accent : THEME.bgElevated,
+                    border: 'none',
+                    borderRadius: '6px',
+                    color: run.status === 'done' ? '#fff' : THEME.textSubtle,
+                    fontSize: '12px',
+                    cursor: run.status === 'done' ? 'pointer' : 'not-allowed',
+                  }}
+                >
+                  Use this
+                </button>
+              </div>
+              <div style={{ flex: 1, minHeight: 0, overflow: 'auto', background: run.code ? previewBackground(theme) : THEME.bgSurface }}>
+                {run.code ? (
+                  <LivePreviewRenderer
+                    code={run.code}
+                    containerStyle={{ padding: '16px', background: previewBackground(theme) }}
+                    onError={err => setRenderError(run.model, err.message)}
+                    onSuccess={() => setRenderError(run.model, null)}
+                    theme={theme}
+                  />
+                ) : run.status === 'generating' && (
+                  <div style={{ height: '100%', display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+                    <LoadingDots />
+                  </div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Color scheme, primary color and default radius for previews. Colors and
+ * radii left on "Theme" keep the values configured in story-ui.config.js.
+ */
+const ThemeControls: React.FC<{
+  settings: PreviewThemeSettings;
+  onChange: (settings: PreviewThemeSettings) => void;
+}> = ({ settings, onChange }) => {
+  const isDark = settings.colorScheme === 'dark';
+
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+      <button
+        onClick={() => onChange({ ...settings, colorScheme: isDark ? 'light' : 'dark' })}
+        title={`Preview in ${isDark ? 'light' : 'dark'} mode`}
+        style={{
+          padding: '6px 8px',
+          background: THEME.bgElevated,
+          border: `1px solid ${THEME.border}`,
+          borderRadius: '6px',
+          color: THEME.textMuted,
+          cursor: 'pointer',
+          display: 'flex',
+          alignItems: 'center',
+        }}
+      >
+        {isDark ? <Icons.Moon /> : <Icons.Sun />}
+      </button>
+      <select
+        value={settings.primaryColor ?? ''}
+        onChange={e => onChange({ ...settings, primaryColor: e.target.value || undefined })}
+        title="Primary color"
+        style={THEME_SELECT_STYLE}
+      >
+        <option value="">Color: theme ({configuredDefaults.primaryColor})</option>
+        {primaryColorOptions.map(color => <option key={color} value={color}>Color: {color}</option>)}
+      </select>
+      <select
+        value={settings.defaultRadius ?? ''}
+        onChange={e => onChange({ ...settings, defaultRadius: e.target.value || undefined })}
+        title="Default radius"
+        style={THEME_SELECT_STYLE}
+      >
+        <option value="">Radius: theme ({configuredDefaults.defaultRadius})</option>
+        {radiusOptions.map(radius => <option key={radius} value={radius}>Radius: {radius}</option>)}
+      </select>
+    </div>
+  );
+};
+
+// ============================================================================
+// POPOUT MODE COMPONENT
+// ============================================================================
+
+// Check if we're in popout mode (loaded in iframe for full-width preview)
+const isPopoutMode = new URLSearchParams(window.location.search).get('popout') === 'true';
+
+// Opened from a share link (see sharing.ts)
+const isShareMode = isShareLink(window.location);
+
+/**
+ * Popout Preview Component
+ *
+ * This is a minimal component that renders ONLY the LivePreviewRenderer.
+ * It listens for postMessage from the parent window to receive the JSX code.
+ *
+ * This approach is completely design-system agnostic because:
+ * - It uses the same bundled CSS (whatever library the user has)
+ * - It uses the same component registry
+ * - No framework-specific code needed
+ *
+ * Opened from a share link, it loads the shared preview instead and shows it
+ * read-only, with a header to switch between the preview and its code.
+ */
+const PopoutPreview: React.FC<{ shared?: boolean }> = ({ shared = false }) => {
+  const [code, setCode] = useState<string | null>(null);
+  const [theme, setTheme] = useState<PreviewThemeSettings>(DEFAULT_PREVIEW_THEME_SETTINGS);
+  const [title, setTitle] = useState('');
+  const [shareError, setShareError] = useState<string | null>(null);
+  const [tab, setTab] = useState<'preview' | 'code'>('preview');
+
+  useEffect(() => {
+    if (!shared) return;
+    loadSharedPreview(window.location)
+      .then(preview => {
+        setCode(preview.code);
+        setTheme(preview.theme);
+        setTitle(preview.title);
+        if (preview.title) document.title = `${preview.title} - Story UI`;
+      })
+      .catch(err => setShareError(err instanceof ShareError ? err.message : `Could not load the shared preview: ${err}`));
+  }, [shared]);
+
+  useEffect(() => {
+    if (shared) return;
+    // Listen for the preview code from the parent window
+    const handleMessage = (event: MessageEvent) => {
+      // Verify the message is from our parent and has the right type
+      if (event.data && event.data.type === 'PREVIEW_CODE' && typeof event.data.code === 'string') {
+        setCode(event.data.code);
+        // The theme the app was previewing with, when sent
+        if (event.data.theme?.colorScheme === 'light' || event.data.theme?.colorScheme === 'dark') {
+          setTheme(event.data.theme);
+        }
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [shared]);
+
+  const preview = code ? (
+    <LivePreviewRenderer
+      code={code}
+      containerStyle={{
+        width: '100%',
+        minHeight: '100%',
+        padding: '24px',
+        background: previewBackground(theme)
+      }}
+      onError={(err) => console.error('Preview error:', err)}
+      theme={theme}
+    />
+  ) : (
+    <div style={{
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      height: '100%',
+      color: shareError ? THEME.error : THEME.textMuted,
+      fontSize: '14px',
+    }}>
+      {shareError ?? 'Loading preview...'}
+    </div>
+  );
+
+  if (!shared) {
+    // Simple full-viewport layout for the preview
+    return (
+      <div style={{
+        width: '100%',
+        height: '100vh',
+        overflow: 'auto',
+        background: code ? previewBackground(theme) : THEME.bgSurface,
+      }}>
+        {preview}
+      </div>
+    );
+  }
+
+  const tabStyle = (selected: boolean): React.CSSProperties => ({
+    padding: '6px 12px',
+    background: selected ? THEME.bgElevated : 'transparent',
+    border: 'none',
+    borderRadius: '6px',
+    color: selected ? THEME.text : THEME.textMuted,
+    fontSize: '13px',
+    cursor: 'pointer',
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+  });
+
+  return (
+    <div style={{ height: '100vh', display: 'flex', flexDirection: 'column', background: THEME.bg }}>
+      <div style={{
+        padding: '10px 16px',
+        borderBottom: `1px solid ${THEME.border}`,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        gap: '12px',
+      }}>
+        <div style={{ minWidth: 0 }}>
+          <div style={{ color: THEME.text, fontSize: '14px', fontWeight: 500, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+            {title || 'Shared preview'}
+          </div>
+          <div style={{ color: THEME.textSubtle, fontSize: '11px' }}>Shared from Story UI - read-only</div>
+        </div>
+        <div style={{ display: 'flex', gap: '4px' }}>
+          <button onClick={() => setTab('preview')} style={tabStyle(tab === 'preview')}>
+            <Icons.Eye />
+            Preview
+          </button>
+          <button onClick={() => setTab('code')} disabled={!code} style={tabStyle(tab === 'code')}>
+            <Icons.Code />
+            Code
+          </button>
+        </div>
+      </div>
+      <div style={{
+        flex: 1,
+        overflow: tab === 'preview' ? 'auto' : 'hidden',
+        background: code && tab === 'preview' ? previewBackground(theme) : THEME.bgSurface,
+      }}>
+        {tab === 'code' && code ? <CodeViewer code={code} /> : preview}
+      </div>
+    </div>
+  );
+};
+
+// ============================================================================
+// MAIN APP
+// ============================================================================
+
+const MainApp: React.FC = () => {
+  // Server configuration (providers, models)
+  const serverConfig = useServerConfig();
+
+  const { conversations, setConversations, usage: storageUsage, storageError, pruneConversations } = useConversationStorage();
+  const [autoFixComponents, setAutoFixComponents] = useLocalStorage<boolean>('storyui_auto_fix_components', true);
+  const [previewTheme, setPreviewTheme] = useLocalStorage<PreviewThemeSettings>('storyui_preview_theme', DEFAULT_PREVIEW_THEME_SETTINGS);
+  // Compare mode sends each prompt to several models at once
+  const [compareSettings, setCompareSettings] = useLocalStorage<{ enabled: boolean; models: string[] }>(
+    'storyui_compare_models',
+    { enabled: false, models: [] }
+  );
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  const [inputValue, setInputValue] = useState('');
+  const [isGenerating, setIsGenerating] = useState(false);
+  // The response received so far while one is streaming in
+  const [streamingCode, setStreamingCode] = useState<string | null>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
+  const lastStreamPreviewRef = useRef(0);
+  const [previewCode, setPreviewCode] = useState<string | null>(null);
+  // The last error the preview reported, with the code it refers to
+  const [previewFailure, setPreviewFailure] = useState<{ code: string; diagnostic: PreviewDiagnostic } | null>(null);
+  const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
+  const [previewTab, setPreviewTab] = useState<'preview' | 'code' | 'diff'>('preview');
+  // The version of the active conversation being previewed
+  const [previewVersionId, setPreviewVersionId] = useState<string | null>(null);
+  const [images, setImages] = useState<ImageAttachment[]>([]);
+  // Inspect mode: clicking the preview picks the element the next message targets
+  const [inspecting, setInspecting] = useState(false);
+  const [selectedElement, setSelectedElement] = useState<{ code: string; element: JSXElementInfo } | null>(null);
+  const [propsPanelOpen, setPropsPanelOpen] = useState(false);
+  const [propEditError, setPropEditError] = useState<string | null>(null);
+
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+  const previewContainerRef = useRef<HTMLDivElement>(null);
+  const { width: chatWidth, startResize } = useResizable(400, 320, 600);
+
+  const activeConversation = conversations.find(c => c.id === activeConversationId);
+
+  // Every code version of the active conversation, oldest first
+  const versions = useMemo<CodeVersion[]>(
+    () => (activeConversation?.messages ?? [])
+      .filter((m): m is CodeVersion['message'] => m.role === 'assistant' && !!m.generatedCode)
+      .map((message, i) => ({ number: i + 1, message })),
+    [activeConversation?.messages]
+  );
+  const latestVersion = versions[versions.length - 1];
+  const previewVersion = versions.find(v => v.message.id === previewVersionId);
+
+  // Components in the current preview that still don't resolve (auto-fixed names are already rewritten)
+  const previewWarnings = useMemo(
+    () => previewCode ? resolveComponents(previewCode, { autoFix: false }).warnings : [],
+    [previewCode]
+  );
+
+  // Filter out empty conversations for display (deferred creation)
+  const displayConversations = conversations.filter(c => c.messages.length > 0);
+
+  // Auto-scroll messages
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [activeConversation?.messages]);
+
+  // Initialize - select existing conversation or stay in "new chat" mode
   useEffect(() => {
     // Only select an existing conversation if we don't have one selected
     // and there are conversations with messages
@@ -773,6 +2371,7 @@ const App: React.FC = () => {
       setActiveConversationId(displayConversations[0].id);
       const lastMsgWithCode = [...displayConversations[0].messages].reverse().find(m => m.generatedCode);
       setPreviewCode(lastMsgWithCode?.generatedCode || null);
+      setPreviewVersionId(lastMsgWithCode?.id || null);
     }
     // Don't create an empty conversation - we'll create one when user sends first message
   }, [displayConversations.length, activeConversationId]);
@@ -781,6 +2380,7 @@ const App: React.FC = () => {
   const startNewChat = useCallback(() => {
     setActiveConversationId(null);
     setPreviewCode(null);
+    setPreviewVersionId(null);
     setImages([]);
     inputRef.current?.focus();
   }, []);
@@ -808,10 +2408,50 @@ const App: React.FC = () => {
         // Go to "new chat" mode instead of creating empty conversation
         setActiveConversationId(null);
         setPreviewCode(null);
+        setPreviewVersionId(null);
       }
     }
   };
 
+  const showVersion = (version: CodeVersion) => {
+    setPreviewCode(version.message.generatedCode);
+    setPreviewVersionId(version.message.id);
+  };
+
+  /**
+   * Make an earlier version the latest again, so the next prompt iterates on
+   * it. The restore is added as a new assistant turn, keeping the versions in
+   * between in the timeline.
+   */
+  const restoreVersion = (version: CodeVersion) => {
+    if (!activeConversationId || isGenerating) return;
+
+    const restoredMessage: Message = {
+      id: generateId(),
+      role: 'assistant',
+      content: `Restored version ${version.number}. Your next message will build on it.`,
+      timestamp: Date.now(),
+      generatedCode: version.message.generatedCode,
+      componentWarnings: version.message.componentWarnings,
+      propWarnings: version.message.propWarnings,
+      restoredFrom: version.message.id,
+    };
+
+    setConversations(prev => prev.map(conv => {
+      if (conv.id === activeConversationId) {
+        return {
+          ...conv,
+          messages: [...conv.messages, restoredMessage],
+          updatedAt: Date.now(),
+        };
+      }
+      return conv;
+    }));
+    setPreviewCode(version.message.generatedCode);
+    setPreviewVersionId(restoredMessage.id);
+    setPreviewTab('preview');
+  };
+
   /**
    * Open preview in a new window with an iframe for full-width viewing.
    *
@@ -865,9 +2505,10 @@ const App: React.FC = () => {
   </div>
   <script>
     var code = ${JSON.stringify(previewCode)};
+    var theme = ${JSON.stringify(previewTheme)};
     var iframe = document.getElementById('preview-frame');
     iframe.onload = function() {
-      iframe.contentWindow.postMessage({ type: 'PREVIEW_CODE', code: code }, '*');
+      iframe.contentWindow.postMessage({ type: 'PREVIEW_CODE', code: code, theme: theme }, '*');
     };
   </script>
 </body>
@@ -877,7 +2518,39 @@ const App: React.FC = () => {
     newWindow.document.close();
   };
 
-  const generateComponent = async (prompt: string, imageAttachments: ImageAttachment[], currentMessages: Message[]): Promise<string> => {
+  /**
+   * Show a response as it streams in: the raw text in the code view, and the
+   * preview re-rendered at the last point where the JSX is balanced
+   */
+  const showStreamedText = (text: string) => {
+    const code = text.trimStart().replace(/^```(?:jsx|tsx|javascript|js)?\n?/, '');
+    setStreamingCode(code);
+
+    const now = Date.now();
+    if (now - lastStreamPreviewRef.current < STREAM_PREVIEW_INTERVAL) return;
+    lastStreamPreviewRef.current = now;
+
+    const partial = closePartialJSX(code);
+    if (!partial) return;
+    try {
+      // Keep showing the last partial code that compiled
+      transpilePreview(partial, previewScopeNames(registryComponents));
+      setPreviewCode(partial);
+      setPreviewVersionId(null);
+    } catch {
+      // The next chunk may complete it
+    }
+  };
+
+  const generateComponent = async (
+    prompt: string,
+    imageAttachments: ImageAttachment[],
+    currentMessages: Message[],
+    failedAttempt?: PreviewError,
+    // Iterations ask for patches first, and for complete code when they don't apply
+    allowPatches = true,
+    options: GenerationOptions = {}
+  ): Promise<string> => {
     // Get the last generated code from the passed-in messages (not stale state)
     const lastGeneratedCode = currentMessages
       .filter(m => m.generatedCode)
@@ -886,6 +2559,25 @@ const App: React.FC = () => {
     // Check if this is an iteration (modification of existing code)
     const isIteration = !!lastGeneratedCode && currentMessages.length > 0;
 
+    // Surgical edits address the elements of the current code through this outline
+    const outline = isIteration && allowPatches ? describeJSXOutline(lastGeneratedCode) : null;
+
+    // The element the user picked in the preview for this request
+    const targetElement = isIteration ? currentMessages[currentMessages.length - 1]?.targetElement : undefined;
+
+    // If the code being modified failed in the preview, tell the model where
+    const currentCodeFailure = previewFailure && previewFailure.code === lastGeneratedCode
+      ? previewFailure.diagnostic
+      : null;
+
+    // Feed validation warnings for the code being modified back to the model
+    const currentCodeWarnings = lastGeneratedCode
+      ? [
+          ...resolveComponents(lastGeneratedCode, { autoFix: false }).warnings,
+          ...validateProps(lastGeneratedCode),
+        ]
+      : [];
+
     // Build conversation history from passed-in messages (excluding the just-added user message)
     const conversationHistory = isIteration
       ? currentMessages.slice(0, -1).map(msg => ({
@@ -903,11 +2595,11 @@ const App: React.FC = () => {
     const basePrompt = `You are a JSX code generator. Your ONLY job is to output raw JSX code.
 
 CRITICAL OUTPUT RULES:
-1. Start DIRECTLY with < (opening tag of a component)
-2. End with > (closing tag)
+1. Output EITHER a single JSX expression starting with < OR a single function component: function Preview() { ... return (...); }
+2. Use the function form only when you need state, handlers or local data - React hooks (useState, useEffect, useCallback, useMemo, useRef) are available without imports
 3. NO markdown, NO headers, NO explanations, NO code fences
 4. NO internal tags like <budget>, <usage>, <thinking>, or any metadata
-5. NEVER output anything except JSX components
+5. NEVER output anything except the JSX expression or the component
 
 UNIVERSAL BEST PRACTICES (applies to ALL design systems):
 
@@ -928,10 +2620,10 @@ ACCESSIBILITY:
 - Include aria-labels on interactive elements without visible text
 - Form inputs should have associated labels
 
-AVAILABLE COMPONENTS:
-${availableComponents.join(', ')}
+AVAILABLE COMPONENTS (all are in scope without imports):
+${describeRegistryComponents()}
 
-Use ONLY these components. Do not use external icon libraries - use Text with Unicode symbols instead.${hasConsiderations ? `
+Use ONLY these components. For icons, use the icon components listed above - never emojis or Unicode symbols.${hasConsiderations ? `
 
 DESIGN SYSTEM GUIDELINES:
 ${aiConsiderations}` : ''}`;
@@ -946,70 +2638,95 @@ ITERATION MODE - You are MODIFYING existing code:
 
 CURRENT_CODE (this is what you're modifying):
 ${lastGeneratedCode}
-
+${outline ? `
+JSX_OUTLINE (the elements of CURRENT_CODE, addressed by path):
+${outline}
+` : ''}${targetElement ? `
+TARGET_ELEMENT - the user selected this <${targetElement.name || 'fragment'}> in the preview${targetElement.path ? ` (path ${targetElement.path}, line ${targetElement.line} of CURRENT_CODE)` : ' in an earlier version'}. Apply the request to it and leave the rest unchanged unless the request says otherwise:
+${targetElement.snippet}
+` : ''}
 MODIFICATION RULES:
 1. Keep the overall structure unless asked to change it
 2. Only modify what the user specifically requests
 3. Preserve existing styling, layout, and components not mentioned
-4. Output the COMPLETE modified JSX (not just the changed parts)
-
+4. ${outline
+  ? 'Answer with patches that make only the requested change (see EDIT FORMAT)'
+  : 'Output the COMPLETE modified code (not just the changed parts), keeping the same form - a JSX expression or a function Preview() component'}
+${outline ? `
+EDIT FORMAT - instead of code, answer with ONLY a JSON object, no markdown:
+{"patches": [...]}
+
+Each patch is one of:
+- {"op": "setProp", "path": "0.1", "prop": "color", "value": "\\"red\\""} - set a prop. The value is written as in JSX: "\\"text\\"" for strings, "{expression}" for anything else, or null to remove the prop
+- {"op": "replace", "path": "0.1", "code": "<Card>...</Card>"} - replace the element at the path, children included
+- {"op": "insertChild", "path": "0", "index": 2, "code": "<Button>Save</Button>"} - insert JSX as the child at the index (the child count appends it)
+- {"op": "remove", "path": "0.2"} - remove the element at the path
+
+Paths refer to JSX_OUTLINE before any patch is applied. Don't patch inside an element that another patch replaces or removes.
+If the change needs more than JSX edits (new state, handlers or data), output the COMPLETE modified code instead, keeping the same form - a JSX expression or a function Preview() component.
+` : ''}
 IMPORTANT: User requests OVERRIDE design system defaults. If the user asks to change colors, styling, or any other aspect, follow their request exactly - even if it differs from the design system guidelines above.
-
-OUTPUT: Start immediately with < and output only the complete modified JSX.`;
+${currentCodeFailure ? `
+CURRENT_CODE FAILS IN THE PREVIEW - fix this as well (lines are numbered from the start of CURRENT_CODE):
+${formatDiagnostic(currentCodeFailure)}
+` : ''}${currentCodeWarnings.length > 0 ? `
+CURRENT_CODE HAS VALIDATION WARNINGS - fix these as well (lines are numbered from the start of CURRENT_CODE):
+${currentCodeWarnings.map(warning => `- Line ${warning.line}: ${warning.message}`).join('\n')}
+` : ''}
+OUTPUT: ${outline
+  ? 'Output only the JSON patches, or the complete modified code when patches can\'t express the change.'
+  : 'Output only the complete modified code.'}`;
     } else {
       // New generation prompt
       systemPrompt = `${basePrompt}
 
 GENERATION RULES:
-1. Output a SINGLE JSX expression starting with < and ending with >
+1. Output a SINGLE JSX expression, or a SINGLE function Preview() component when state or handlers are needed
 2. Use ONLY components from the list above
-3. NO imports, NO exports, NO function definitions
-4. NO explanations, NO comments outside JSX
+3. NO imports, NO exports, NO helper functions outside the component
+4. NO explanations, NO comments outside the code
 
-OUTPUT: Start immediately with < and output only JSX.`;
+OUTPUT: Output only the JSX expression or the component.`;
     }
 
-    // Use assistant prefill to force Claude to start with JSX
-    // This is a powerful technique that constrains the output format
-    const prefillAssistant = '<';
-
-    const response = await fetch(`${SERVER_URL}/story-ui/claude`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        prompt,
-        messages: conversationHistory,
-        systemPrompt,
-        prefillAssistant,
-        model: serverConfig.currentModel,
-        maxTokens: 4096,
-        images: imageAttachments.map(img => ({
-          type: img.type,
-          data: img.data.split(',')[1],
-        })),
-        // Pass available components for server-side validation with auto-retry
-        availableComponents,
-      }),
-    });
+    if (failedAttempt?.code) {
+      // Retrying after an invalid response - show the model exactly what went wrong
+      systemPrompt += `
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(errorData.error || `Server Error: ${response.status}`);
+PREVIOUS ATTEMPT FAILED - do not repeat this mistake (lines are numbered from the start of the previous output):
+${formatDiagnostic(failedAttempt.diagnostic)}`;
     }
 
-    const data = await response.json();
-    // Handle various response formats from different LLM providers
-    let content: string;
-    if (Array.isArray(data.content)) {
-      // Claude API format: { content: [{ type: 'text', text: '...' }] }
-      content = data.content[0]?.text || '';
-    } else if (typeof data.content === 'string') {
-      content = data.content;
-    } else if (typeof data.text === 'string') {
-      // Alternative format
-      content = data.text;
-    } else {
-      content = String(data.content || data.text || '');
+    const content = await streamGeneration(SERVER_URL, {
+      prompt,
+      messages: conversationHistory,
+      systemPrompt,
+      model: options.model ?? serverConfig.currentModel,
+      maxTokens: 4096,
+      images: imageAttachments.map(img => ({
+        type: img.type,
+        data: img.data.split(',')[1],
+      })),
+      // Pass available components for server-side validation with auto-retry
+      availableComponents: registryComponents,
+    }, options.onText ?? showStreamedText, generationAbortRef.current?.signal);
+
+    if (outline && lastGeneratedCode) {
+      try {
+        const patches = parsePatchResponse(content);
+        if (patches) {
+          const patchedCode = applyJSXPatches(lastGeneratedCode, patches);
+          const patchedResult = validateJSXResponse(patchedCode);
+          if (!patchedResult.isValid) {
+            throw new JSXPatchError(patchedResult.error || 'The patched code is invalid');
+          }
+          return patchedCode;
+        }
+      } catch (error) {
+        if (!(error instanceof JSXPatchError)) throw error;
+        console.warn('[edit] Patches could not be applied, regenerating the complete code:', error.message);
+        return generateComponent(prompt, imageAttachments, currentMessages, failedAttempt, false, options);
+      }
     }
 
     // Clean up the response
@@ -1023,14 +2740,15 @@ OUTPUT: Start immediately with < and output only JSX.`;
     // Validate that the response is actually JSX and not metadata/thinking
     const validationResult = validateJSXResponse(cleanCode);
     if (!validationResult.isValid) {
-      throw new Error(validationResult.error || 'Invalid JSX response');
+      const message = validationResult.error || 'Invalid JSX response';
+      throw new PreviewError(validationResult.diagnostic ?? { phase: 'compile', message }, cleanCode);
     }
 
     return cleanCode;
   };
 
   // Validate that the LLM response is valid JSX and not internal metadata
-  const validateJSXResponse = (code: string): { isValid: boolean; error?: string } => {
+  const validateJSXResponse = (code: string): { isValid: boolean; error?: string; diagnostic?: PreviewDiagnostic } => {
     const trimmed = code.trim();
 
     // Check for empty response
@@ -1046,11 +2764,6 @@ OUTPUT: Start immediately with < and output only JSX.`;
       }
     }
 
-    // Check that it starts with a valid JSX opening tag (component or HTML element)
-    if (!trimmed.startsWith('<')) {
-      return { isValid: false, error: 'Response does not start with JSX. LLM may have returned explanatory text.' };
-    }
-
     // Check for markdown artifacts
     if (trimmed.startsWith('```') || trimmed.includes('```jsx') || trimmed.includes('```tsx')) {
       return { isValid: false, error: 'Response contains markdown code fences' };
@@ -1065,7 +2778,8 @@ OUTPUT: Start immediately with < and output only JSX.`;
     const last10Chars = trimmed.slice(-10);
 
     // Should end with > or /> or } or ; but NOT with ); which indicates truncation
-    if (last10Chars.includes('>);') || last10Chars.includes('>");')) {
+    // (a function component legitimately ends with `);` followed by its closing brace)
+    if (!/^(?:function|const)\b/.test(trimmed) && (last10Chars.includes('>);') || last10Chars.includes('>");'))) {
       return { isValid: false, error: 'JSX appears to be truncated (ends with >); pattern). LLM output was cut off.' };
     }
 
@@ -1089,22 +2803,25 @@ OUTPUT: Start immediately with < and output only JSX.`;
       return { isValid: false, error: `JSX has unbalanced parentheses (${openParens} open, ${closeParens} close) - response appears truncated` };
     }
 
-    // Try to do a basic Babel parse to catch syntax errors before rendering
-    // This is the most reliable check - if Babel can't parse it, it won't render
+    // Try the same transform the preview uses to catch syntax errors before rendering
+    // This is the most reliable check - if Babel can't transform it, it won't render
     try {
-      const wrappedCode = `(function() { return (${trimmed}); })()`;
-      Babel.transform(wrappedCode, {
-        presets: ['react'],
-        filename: 'validation.tsx'
-      });
+      const extraction = extractJSX(trimmed);
+      // Code shaped like a body or component that didn't parse gets its located syntax error below
+      if (extraction.strategy === 'raw' && extraction.kind === 'expression') {
+        return { isValid: false, error: 'Response does not contain JSX or a component. LLM may have returned explanatory text.' };
+      }
+      transpilePreview(trimmed, previewScopeNames(registryComponents));
     } catch (babelError: any) {
-      // Extract useful error message
+      // Extract useful error message, keeping the located diagnostic for the retry
       const errorMsg = babelError.message || 'Unknown syntax error';
+      const diagnostic = babelError instanceof PreviewError ? babelError.diagnostic : undefined;
+      const location = diagnostic?.line !== undefined ? ` (line ${diagnostic.line}, column ${diagnostic.column})` : '';
       if (errorMsg.includes('Unterminated') || errorMsg.includes('Unexpected token') || errorMsg.includes('Unexpected end')) {
-        return { isValid: false, error: `JSX syntax error: ${errorMsg}. LLM response may be truncated or malformed.` };
+        return { isValid: false, error: `JSX syntax error${location}: ${errorMsg}. LLM response may be truncated or malformed.`, diagnostic };
       }
       // For other Babel errors, still fail validation
-      return { isValid: false, error: `JSX parsing failed: ${errorMsg}` };
+      return { isValid: false, error: `JSX parsing failed${location}: ${errorMsg}`, diagnostic };
     }
 
     return { isValid: true };
@@ -1115,16 +2832,23 @@ OUTPUT: Start immediately with < and output only JSX.`;
     prompt: string,
     imageAttachments: ImageAttachment[],
     currentMessages: Message[],
+    options: GenerationOptions = {},
     maxRetries: number = 2
   ): Promise<string> => {
     let lastError: Error | null = null;
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
       try {
-        const result = await generateComponent(prompt, imageAttachments, currentMessages);
+        // Invalid responses are retried with their diagnostics so the model can correct them
+        const failedAttempt = lastError instanceof PreviewError ? lastError : undefined;
+        if (!options.onText) setStreamingCode(null);
+        const result = await generateComponent(prompt, imageAttachments, currentMessages, failedAttempt, true, options);
         return result;
       } catch (error) {
         lastError = error instanceof Error ? error : new Error(String(error));
+        // A cancelled generation isn't retried, and a server answering outside
+        // the protocol won't start following it on a retry
+        if (generationAbortRef.current?.signal.aborted || lastError instanceof StreamProtocolError) throw lastError;
         console.warn(`Generation attempt ${attempt + 1} failed:`, lastError.message);
 
         // If this isn't the last attempt, wait briefly before retrying
@@ -1138,8 +2862,139 @@ OUTPUT: Start immediately with < and output only JSX.`;
     throw lastError || new Error('Generation failed after multiple attempts');
   };
 
+  /**
+   * Generate with every compared model in parallel, showing each result in
+   * the comparison as it completes. Failures are kept per model, so one
+   * model's error doesn't end the others.
+   */
+  const runComparison = async (
+    conversationId: string,
+    models: string[],
+    prompt: string,
+    imageAttachments: ImageAttachment[],
+    currentMessages: Message[]
+  ) => {
+    const updateRun = (model: string, update: Partial<ComparisonRun>) => {
+      setComparison(prev => prev && {
+        ...prev,
+        runs: prev.runs.map(run => (run.model === model ? { ...run, ...update } : run)),
+      });
+    };
+
+    setComparison({
+      conversationId,
+      runs: models.map(model => ({ model, status: 'generating', received: 0 })),
+    });
+
+    await Promise.all(models.map(async model => {
+      const startedAt = performance.now();
+      try {
+        const rawCode = await generateComponentWithRetry(prompt, imageAttachments, currentMessages, {
+          model,
+          onText: text => updateRun(model, { received: text.length }),
+        });
+        const { code, warnings } = resolveComponents(rawCode, { autoFix: autoFixComponents });
+        const propWarnings = validateProps(code);
+        updateRun(model, {
+          status: 'done',
+          code,
+          componentWarnings: warnings.length > 0 ? warnings : undefined,
+          propWarnings: propWarnings.length > 0 ? propWarnings : undefined,
+          latency: performance.now() - startedAt,
+        });
+      } catch (error) {
+        updateRun(model, {
+          status: 'error',
+          error: generationAbortRef.current?.signal.aborted
+            ? 'Cancelled'
+            : error instanceof Error ? error.message : 'Unknown error',
+          latency: performance.now() - startedAt,
+        });
+      }
+    }));
+  };
+
+  const modelName = (model: string) => serverConfig.models.find(m => m.id === model)?.name ?? model;
+
+  const appendAssistantMessage = (conversationId: string, message: Message) => {
+    setConversations(prev => prev.map(conv => {
+      if (conv.id === conversationId) {
+        return {
+          ...conv,
+          messages: [...conv.messages, message],
+          updatedAt: Date.now(),
+        };
+      }
+      return conv;
+    }));
+  };
+
+  /**
+   * Continue the conversation with a comparison result: it becomes the next
+   * version, and its model the selected one
+   */
+  const pickComparisonRun = (run: ComparisonRun) => {
+    if (!comparison || !run.code) return;
+    const others = comparison.runs.filter(r => r.model !== run.model).map(r => modelName(r.model));
+
+    const assistantMessage: Message = {
+      id: generateId(),
+      role: 'assistant',
+      content: `Picked ${modelName(run.model)} from the comparison with ${others.join(', ')}.`,
+      timestamp: Date.now(),
+      generatedCode: run.code,
+      componentWarnings: run.componentWarnings,
+      propWarnings: run.propWarnings,
+    };
+    appendAssistantMessage(comparison.conversationId, assistantMessage);
+
+    setPreviewCode(run.code);
+    setPreviewVersionId(assistantMessage.id);
+    setPreviewTab('preview');
+    if (run.model !== serverConfig.currentModel) {
+      serverConfig.changeModel(run.model);
+    }
+    setComparison(null);
+  };
+
+  const discardComparison = () => {
+    if (!comparison) return;
+    appendAssistantMessage(comparison.conversationId, {
+      id: generateId(),
+      role: 'assistant',
+      content: 'Comparison discarded, no result was picked.',
+      timestamp: Date.now(),
+    });
+    setComparison(null);
+  };
+
+  // The models the next prompt is compared across, or null to generate with the selected one
+  const comparableModels = compareSettings.models
+    .filter(model => serverConfig.models.some(m => m.id === model))
+    .slice(0, MAX_COMPARE_MODELS);
+  const comparedModels = compareSettings.enabled && comparableModels.length >= 2 ? comparableModels : null;
+
+  const toggleComparedModel = (model: string) => {
+    setCompareSettings(prev => ({
+      ...prev,
+      models: prev.models.includes(model)
+        ? prev.models.filter(m => m !== model)
+        : [...prev.models, model],
+    }));
+  };
+
   const sendMessage = async () => {
-    if (!inputValue.trim() || isGenerating) return;
+    // A comparison waits for a pick before the conversation goes on
+    if (!inputValue.trim() || isGenerating || comparison) return;
+
+    // Paths only address the code they were taken from, so a selection made
+    // on an older version is sent as a snippet alone
+    let targetElement: Message['targetElement'];
+    if (selectedElement) {
+      const latestCode = activeConversation?.messages.filter(m => m.generatedCode).slice(-1)[0]?.generatedCode;
+      const { path, ...element } = selectedElement.element;
+      targetElement = selectedElement.code === latestCode ? { path, ...element } : element;
+    }
 
     const userMessage: Message = {
       id: generateId(),
@@ -1147,6 +3002,7 @@ OUTPUT: Start immediately with < and output only JSX.`;
       content: inputValue.trim(),
       timestamp: Date.now(),
       images: images.length > 0 ? [...images] : undefined,
+      targetElement,
     };
 
     // Determine if we need to create a new conversation or add to existing
@@ -1179,12 +3035,29 @@ OUTPUT: Start immediately with < and output only JSX.`;
     const currentImages = [...images];
     setInputValue('');
     setImages([]);
+    setSelectedElement(null);
+    setInspecting(false);
     setIsGenerating(true);
 
+    // Streaming replaces the preview with partial code; cancelling or failing puts it back
+    const previousPreview = { code: previewCode, versionId: previewVersionId };
+    const abortController = new AbortController();
+    generationAbortRef.current = abortController;
+    lastStreamPreviewRef.current = 0;
+
     try {
+      if (comparedModels) {
+        await runComparison(conversationId, comparedModels, inputValue.trim(), currentImages, currentMessages);
+        return;
+      }
+
       // Pass currentMessages directly to avoid stale closure issues
       // Use retry wrapper to handle invalid LLM responses automatically
-      const generatedCode = await generateComponentWithRetry(inputValue.trim(), currentImages, currentMessages);
+      const rawCode = await generateComponentWithRetry(inputValue.trim(), currentImages, currentMessages);
+
+      // Check component names before rendering, rewriting close misses like Grid.Column -> Grid.Col
+      const { code: generatedCode, warnings } = resolveComponents(rawCode, { autoFix: autoFixComponents });
+      const propWarnings = validateProps(generatedCode);
 
       const assistantMessage: Message = {
         id: generateId(),
@@ -1192,6 +3065,8 @@ OUTPUT: Start immediately with < and output only JSX.`;
         content: 'Component generated successfully.',
         timestamp: Date.now(),
         generatedCode,
+        componentWarnings: warnings.length > 0 ? warnings : undefined,
+        propWarnings: propWarnings.length > 0 ? propWarnings : undefined,
       };
 
       setConversations(prev => prev.map(conv => {
@@ -1207,13 +3082,19 @@ OUTPUT: Start immediately with < and output only JSX.`;
 
       if (generatedCode) {
         setPreviewCode(generatedCode);
+        setPreviewVersionId(assistantMessage.id);
         setPreviewTab('preview');
       }
     } catch (error) {
+      setPreviewCode(previousPreview.code);
+      setPreviewVersionId(previousPreview.versionId);
+
       const errorMessage: Message = {
         id: generateId(),
         role: 'assistant',
-        content: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        content: abortController.signal.aborted
+          ? 'Generation cancelled.'
+          : `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
         timestamp: Date.now(),
       };
 
@@ -1228,10 +3109,78 @@ OUTPUT: Start immediately with < and output only JSX.`;
         return conv;
       }));
     } finally {
+      generationAbortRef.current = null;
+      setStreamingCode(null);
       setIsGenerating(false);
     }
   };
 
+  const cancelGeneration = () => {
+    generationAbortRef.current?.abort();
+  };
+
+  // The selection, when it was made on the code being previewed
+  const inspectedElement = selectedElement?.code === previewCode ? selectedElement : null;
+  const inspectedProps = propsPanelOpen && inspectedElement
+    ? readJSXProps(inspectedElement.code, inspectedElement.element.path)
+    : null;
+
+  const selectPreviewElement = (code: string, offset: number) => {
+    const element = findJSXElementAt(code, offset);
+    if (element) {
+      setSelectedElement({ code, element });
+      setPropEditError(null);
+      setInspecting(false);
+      if (!propsPanelOpen) inputRef.current?.focus();
+    }
+  };
+
+  /**
+   * Apply a props inspector edit to the selected element and record the
+   * result as a new version, without asking the model
+   */
+  const applyPropEdit = (prop: string, value: JSXPropValue | null) => {
+    if (!selectedElement || !activeConversationId || isGenerating) return;
+    const { code, element } = selectedElement;
+
+    let editedCode: string;
+    try {
+      editedCode = setJSXProp(code, element.path, prop, value);
+    } catch (error) {
+      setPropEditError(error instanceof Error ? error.message : String(error));
+      return;
+    }
+    setPropEditError(null);
+    if (editedCode === code) return;
+
+    const propWarnings = validateProps(editedCode);
+    const editMessage: Message = {
+      id: generateId(),
+      role: 'assistant',
+      content: value === null
+        ? `Removed ${prop} from <${element.name}>.`
+        : `Set ${prop} to ${formatPropValue(value)} on <${element.name}>.`,
+      timestamp: Date.now(),
+      generatedCode: editedCode,
+      propWarnings: propWarnings.length > 0 ? propWarnings : undefined,
+    };
+
+    setConversations(prev => prev.map(conv => {
+      if (conv.id === activeConversationId) {
+        return {
+          ...conv,
+          messages: [...conv.messages, editMessage],
+          updatedAt: Date.now(),
+        };
+      }
+      return conv;
+    }));
+    setPreviewCode(editedCode);
+    setPreviewVersionId(editMessage.id);
+    // Prop edits leave the element tree as it was, so the path still points at the element
+    setSelectedElement({ code: editedCode, element: findJSXElement(editedCode, element.path) ?? element });
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -1340,6 +3289,7 @@ OUTPUT: Start immediately with < and output only JSX.`;
                   setActiveConversationId(conv.id);
                   const lastMsgWithCode = [...conv.messages].reverse().find(m => m.generatedCode);
                   setPreviewCode(lastMsgWithCode?.generatedCode || null);
+                  setPreviewVersionId(lastMsgWithCode?.id || null);
                 }}
                 style={{
                   padding: '10px 12px',
@@ -1430,6 +3380,50 @@ OUTPUT: Start immediately with < and output only JSX.`;
               ))}
             </select>
 
+            {/* Compare Models */}
+            <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px', color: THEME.textMuted, cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={compareSettings.enabled}
+                onChange={(e) => setCompareSettings(prev => ({ ...prev, enabled: e.target.checked }))}
+              />
+              Compare models
+            </label>
+            {compareSettings.enabled && (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', paddingLeft: '20px' }}>
+                {serverConfig.models.map(model => {
+                  const checked = compareSettings.models.includes(model.id);
+                  const disabled = !checked && comparableModels.length >= MAX_COMPARE_MODELS;
+                  return (
+                    <label
+                      key={model.id}
+                      style={{
+                        display: 'flex',
+                        alignItems: 'center',
+                        gap: '6px',
+                        fontSize: '12px',
+                        color: disabled ? THEME.textSubtle : THEME.text,
+                        cursor: disabled ? 'not-allowed' : 'pointer',
+                      }}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={checked}
+                        disabled={disabled}
+                        onChange={() => toggleComparedModel(model.id)}
+                      />
+                      {model.name}
+                    </label>
+                  );
+                })}
+                {!comparedModels && (
+                  <div style={{ fontSize: '11px', color: THEME.warning }}>
+                    Pick 2 to {MAX_COMPARE_MODELS} models to compare
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Components Count */}
             <div style={{
               display: 'flex',
@@ -1445,8 +3439,70 @@ OUTPUT: Start immediately with < and output only JSX.`;
                 borderRadius: '50%',
                 background: THEME.success,
               }} />
-              <span>{availableComponents.length} components available</span>
+              <span>{registryComponents.length} components available</span>
             </div>
+
+            {/* Storage Usage */}
+            {storageUsage && (
+              <div style={{ fontSize: '11px', color: THEME.textSubtle }}>
+                Storage: {formatBytes(storageUsage.conversationBytes + storageUsage.imageBytes)} in {storageUsage.conversations} chats
+                {storageUsage.images > 0 && ` (${storageUsage.images} images, ${formatBytes(storageUsage.imageBytes)})`}
+                {storageUsage.usage !== undefined && storageUsage.quota
+                  ? ` · ${Math.round((storageUsage.usage / storageUsage.quota) * 100)}% of quota`
+                  : ''}
+              </div>
+            )}
+            {storageError && (
+              <div style={{
+                padding: '8px 10px',
+                background: `${THEME.error}15`,
+                border: `1px solid ${THEME.error}40`,
+                borderRadius: '6px',
+                fontSize: '11px',
+                color: THEME.error,
+                lineHeight: 1.4,
+              }}>
+                {storageError}
+              </div>
+            )}
+            {(storageError || (storageUsage && storageUsage.conversations > PRUNE_KEEP_RECENT)) && (
+              <div style={{ display: 'flex', gap: '6px' }}>
+                {[
+                  {
+                    label: 'Remove old images',
+                    description: `Delete the images attached to chats older than the ${PRUNE_KEEP_RECENT} most recent`,
+                    imagesOnly: true,
+                  },
+                  {
+                    label: 'Delete old chats',
+                    description: `Delete chats older than the ${PRUNE_KEEP_RECENT} most recent`,
+                    imagesOnly: false,
+                  },
+                ].map(action => (
+                  <button
+                    key={action.label}
+                    onClick={() => {
+                      if (window.confirm(`${action.description}? This can't be undone.`)) {
+                        pruneConversations({ keepRecent: PRUNE_KEEP_RECENT, imagesOnly: action.imagesOnly });
+                      }
+                    }}
+                    title={action.description}
+                    style={{
+                      flex: 1,
+                      padding: '6px 8px',
+                      background: THEME.bgElevated,
+                      border: `1px solid ${THEME.border}`,
+                      borderRadius: '6px',
+                      color: THEME.textMuted,
+                      fontSize: '11px',
+                      cursor: 'pointer',
+                    }}
+                  >
+                    {action.label}
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
         )}
       </aside>
@@ -1539,13 +3595,46 @@ OUTPUT: Start immediately with < and output only JSX.`;
                   ))}
                 </div>
               )}
+              {message.targetElement && (
+                <div
+                  title={message.targetElement.snippet}
+                  style={{ marginBottom: '6px', fontSize: '12px', color: THEME.textMuted }}
+                >
+                  Targeting &lt;{message.targetElement.name || 'fragment'}&gt; (line {message.targetElement.line})
+                </div>
+              )}
               <div style={{ fontSize: '14px', lineHeight: 1.6, color: THEME.text }}>
                 {message.content}
               </div>
+              {(message.componentWarnings || message.propWarnings) && (
+                <ul style={{ margin: '8px 0 0', padding: 0, listStyle: 'none' }}>
+                  {message.componentWarnings?.map(warning => (
+                    <li
+                      key={warning.name}
+                      style={{
+                        fontSize: '12px',
+                        lineHeight: 1.5,
+                        color: warning.fixed ? THEME.textMuted : THEME.warning,
+                      }}
+                    >
+                      {warning.message} (line {warning.line})
+                    </li>
+                  ))}
+                  {message.propWarnings?.map(warning => (
+                    <li
+                      key={`${warning.line}:${warning.column}:${warning.prop}`}
+                      style={{ fontSize: '12px', lineHeight: 1.5, color: THEME.warning }}
+                    >
+                      {warning.message} (line {warning.line})
+                    </li>
+                  ))}
+                </ul>
+              )}
               {message.generatedCode && (
                 <button
                   onClick={() => {
                     setPreviewCode(message.generatedCode!);
+                    setPreviewVersionId(message.id);
                     setPreviewTab('preview');
                   }}
                   style={{
@@ -1563,7 +3652,7 @@ OUTPUT: Start immediately with < and output only JSX.`;
                   }}
                 >
                   <Icons.Eye />
-                  View Component
+                  {message.id === previewVersionId ? 'Viewing' : 'View'} version {versions.find(v => v.message.id === message.id)?.number}
                 </button>
               )}
             </div>
@@ -1637,6 +3726,45 @@ OUTPUT: Start immediately with < and output only JSX.`;
             </div>
           )}
 
+          {/* Element picked in the preview */}
+          {selectedElement && (
+            <div style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '8px',
+              marginBottom: '12px',
+              padding: '6px 10px',
+              background: THEME.accentMuted,
+              border: `1px solid ${THEME.accent}`,
+              borderRadius: '8px',
+              fontSize: '12px',
+              color: THEME.accent,
+            }}>
+              <Icons.Inspect />
+              <span
+                title={selectedElement.element.snippet}
+                style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}
+              >
+                Targeting &lt;{selectedElement.element.name || 'fragment'}&gt; (line {selectedElement.element.line})
+                {selectedElement.code !== previewCode && ' from another version'}
+              </span>
+              <button
+                onClick={() => setSelectedElement(null)}
+                title="Clear selection"
+                style={{
+                  padding: '2px',
+                  background: 'transparent',
+                  border: 'none',
+                  color: THEME.accent,
+                  cursor: 'pointer',
+                  display: 'flex',
+                }}
+              >
+                <Icons.X />
+              </button>
+            </div>
+          )}
+
           {/* Combined input container matching reference */}
           <div style={{
             display: 'flex',
@@ -1652,7 +3780,9 @@ OUTPUT: Start immediately with < and output only JSX.`;
               value={inputValue}
               onChange={e => setInputValue(e.target.value)}
               onKeyDown={handleKeyPress}
-              placeholder="Describe the component you want to create..."
+              placeholder={comparison
+                ? 'Pick a compared result to continue...'
+                : 'Describe the component you want to create...'}
               disabled={isGenerating}
               style={{
                 width: '100%',
@@ -1725,24 +3855,45 @@ OUTPUT: Start immediately with < and output only JSX.`;
                 />
               </label>
 
-              {/* Send button */}
-              <button
-                onClick={sendMessage}
-                disabled={isGenerating || !inputValue.trim()}
-                style={{
-                  padding: '8px 12px',
-                  background: (isGenerating || !inputValue.trim()) ? THEME.bgHover : THEME.accent,
-                  border: 'none',
-                  borderRadius: '8px',
-                  color: (isGenerating || !inputValue.trim()) ? THEME.textSubtle : '#fff',
-                  cursor: (isGenerating || !inputValue.trim()) ? 'not-allowed' : 'pointer',
-                  display: 'flex',
-                  alignItems: 'center',
-                  justifyContent: 'center',
-                }}
-              >
-                <Icons.Send />
-              </button>
+              {/* Send button, or Stop while generating */}
+              {isGenerating ? (
+                <button
+                  onClick={cancelGeneration}
+                  title="Stop generating"
+                  style={{
+                    padding: '8px 12px',
+                    background: THEME.bgElevated,
+                    border: `1px solid ${THEME.border}`,
+                    borderRadius: '8px',
+                    color: THEME.text,
+                    cursor: 'pointer',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                  }}
+                >
+                  <Icons.Stop />
+                </button>
+              ) : (
+                <button
+                  onClick={sendMessage}
+                  disabled={!inputValue.trim() || !!comparison}
+                  title={comparedModels ? `Compare ${comparedModels.map(modelName).join(', ')}` : undefined}
+                  style={{
+                    padding: '8px 12px',
+                    background: !inputValue.trim() || comparison ? THEME.bgHover : THEME.accent,
+                    border: 'none',
+                    borderRadius: '8px',
+                    color: !inputValue.trim() || comparison ? THEME.textSubtle : '#fff',
+                    cursor: !inputValue.trim() || comparison ? 'not-allowed' : 'pointer',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                  }}
+                >
+                  <Icons.Send />
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -1815,6 +3966,52 @@ OUTPUT: Start immediately with < and output only JSX.`;
               <Icons.Code />
               Code
             </button>
+            {versions.length > 1 && (
+              <button
+                onClick={() => setPreviewTab('diff')}
+                style={{
+                  padding: '8px 14px',
+                  background: previewTab === 'diff' ? THEME.bgElevated : 'transparent',
+                  border: 'none',
+                  borderRadius: '6px',
+                  color: previewTab === 'diff' ? THEME.text : THEME.textMuted,
+                  fontSize: '13px',
+                  cursor: 'pointer',
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '6px',
+                }}
+              >
+                <Icons.Compare />
+                Compare
+              </button>
+            )}
+            {previewCode && (
+              <button
+                onClick={() => {
+                  setPreviewTab('preview');
+                  setPropsPanelOpen(prev => !prev);
+                  // Start picking right away when there's nothing to show yet
+                  if (!propsPanelOpen && !inspectedElement && !isGenerating) setInspecting(true);
+                }}
+                title="Edit the props of the selected element directly"
+                style={{
+                  padding: '8px 14px',
+                  background: propsPanelOpen && previewTab === 'preview' ? THEME.bgElevated : 'transparent',
+                  border: 'none',
+                  borderRadius: '6px',
+                  color: propsPanelOpen && previewTab === 'preview' ? THEME.text : THEME.textMuted,
+                  fontSize: '13px',
+                  cursor: 'pointer',
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '6px',
+                }}
+              >
+                <Icons.Sliders />
+                Props
+              </button>
+            )}
           </div>
 
           {previewCode && previewTab === 'preview' && (
@@ -1822,6 +4019,43 @@ OUTPUT: Start immediately with < and output only JSX.`;
               <span style={{ fontSize: '12px', color: THEME.textMuted }}>
                 Live Preview
               </span>
+              <ThemeControls settings={previewTheme} onChange={setPreviewTheme} />
+              <button
+                onClick={() => setInspecting(prev => !prev)}
+                disabled={isGenerating}
+                title="Click an element in the preview to target it with your next message"
+                style={{
+                  padding: '6px 10px',
+                  background: inspecting ? THEME.accentMuted : THEME.bgElevated,
+                  border: `1px solid ${inspecting ? THEME.accent : THEME.border}`,
+                  borderRadius: '6px',
+                  color: inspecting ? THEME.accent : THEME.textMuted,
+                  fontSize: '12px',
+                  cursor: isGenerating ? 'not-allowed' : 'pointer',
+                  opacity: isGenerating ? 0.5 : 1,
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '4px',
+                }}
+              >
+                <Icons.Inspect />
+                {inspecting ? 'Selecting...' : 'Select element'}
+              </button>
+              <button
+                onClick={() => setAutoFixComponents(prev => !prev)}
+                title="Rewrite unknown component names to the closest available component when generating"
+                style={{
+                  padding: '6px 10px',
+                  background: autoFixComponents ? THEME.accentMuted : THEME.bgElevated,
+                  border: `1px solid ${autoFixComponents ? THEME.accent : THEME.border}`,
+                  borderRadius: '6px',
+                  color: autoFixComponents ? THEME.accent : THEME.textMuted,
+                  fontSize: '12px',
+                  cursor: 'pointer',
+                }}
+              >
+                Auto-fix names: {autoFixComponents ? 'On' : 'Off'}
+              </button>
               <button
                 onClick={() => openPreviewInNewWindow()}
                 title="Open in new window"
@@ -1841,23 +4075,148 @@ OUTPUT: Start immediately with < and output only JSX.`;
                 <Icons.ExternalLink />
                 Pop Out
               </button>
+              <ShareButton code={previewCode} title={activeConversation?.title ?? ''} theme={previewTheme} />
             </div>
           )}
         </div>
 
+        {/* Version Timeline */}
+        {versions.length > 1 && (
+          <div style={{
+            padding: '8px 16px',
+            borderBottom: `1px solid ${THEME.border}`,
+            display: 'flex',
+            alignItems: 'center',
+            gap: '6px',
+            overflowX: 'auto',
+          }}>
+            <span style={{
+              flexShrink: 0,
+              marginRight: '4px',
+              color: THEME.textSubtle,
+              textTransform: 'uppercase',
+              fontSize: '10px',
+              letterSpacing: '0.5px',
+            }}>
+              Versions
+            </span>
+            {versions.map(version => {
+              const selected = version.message.id === previewVersionId;
+              const restoredFrom = version.message.restoredFrom
+                && versions.find(v => v.message.id === version.message.restoredFrom);
+              return (
+                <button
+                  key={version.message.id}
+                  onClick={() => showVersion(version)}
+                  title={`${new Date(version.message.timestamp).toLocaleString()}${restoredFrom ? ` - restored from version ${restoredFrom.number}` : ''}`}
+                  style={{
+                    flexShrink: 0,
+                    padding: '4px 10px',
+                    background: selected ? THEME.accentMuted : THEME.bgElevated,
+                    border: `1px solid ${selected ? THEME.accent : THEME.border}`,
+                    borderRadius: '12px',
+                    color: selected ? THEME.accent : THEME.textMuted,
+                    fontSize: '12px',
+                    cursor: 'pointer',
+                  }}
+                >
+                  v{version.number}{version === latestVersion && ' (latest)'}
+                </button>
+              );
+            })}
+            {previewVersion && previewVersion !== latestVersion && (
+              <button
+                onClick={() => restoreVersion(previewVersion)}
+                disabled={isGenerating}
+                title={`Make version ${previewVersion.number} the latest, so your next message builds on it`}
+                style={{
+                  flexShrink: 0,
+                  marginLeft: 'auto',
+                  padding: '4px 10px',
+                  background: THEME.bgElevated,
+                  border: `1px solid ${THEME.border}`,
+                  borderRadius: '6px',
+                  color: THEME.text,
+                  fontSize: '12px',
+                  cursor: isGenerating ? 'not-allowed' : 'pointer',
+                  opacity: isGenerating ? 0.5 : 1,
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '4px',
+                }}
+              >
+                <Icons.Restore />
+                Restore version {previewVersion.number}
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Preview Content */}
         <div style={{ flex: 1, overflow: 'hidden' }}>
-          {previewCode ? (
+          {comparison && comparison.conversationId === activeConversationId ? (
+            <ModelComparison
+              runs={comparison.runs}
+              modelName={modelName}
+              theme={previewTheme}
+              onPick={pickComparisonRun}
+              onDiscard={discardComparison}
+            />
+          ) : previewCode ? (
             previewTab === 'preview' ? (
-              <div ref={previewContainerRef} style={{ height: '100%' }}>
-                <LivePreviewRenderer
-                  code={previewCode}
-                  containerStyle={{ height: '100%', background: THEME.bgSurface }}
-                  onError={(err) => console.error('Preview error:', err)}
-                />
+              <div ref={previewContainerRef} style={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
+                {previewWarnings.length > 0 && (
+                  <div style={{
+                    padding: '8px 16px',
+                    background: 'rgba(245, 158, 11, 0.1)',
+                    borderBottom: `1px solid ${THEME.border}`,
+                    color: THEME.warning,
+                    fontSize: '12px',
+                    lineHeight: 1.6,
+                  }}>
+                    {previewWarnings.map(warning => (
+                      <div key={warning.name}>
+                        Line {warning.line}: {warning.message}
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <div style={{ flex: 1, minHeight: 0, display: 'flex' }}>
+                  <div style={{ flex: 1, minWidth: 0 }}>
+                    <ResponsivePreview
+                      code={previewCode}
+                      theme={previewTheme}
+                      onError={(err, diagnostic) => {
+                        console.error('Preview error:', err);
+                        setPreviewFailure({ code: previewCode, diagnostic });
+                      }}
+                      onSuccess={() => setPreviewFailure(null)}
+                      inspecting={inspecting && !isGenerating}
+                      onSelect={offset => selectPreviewElement(previewCode, offset)}
+                    />
+                  </div>
+                  {propsPanelOpen && (
+                    <PropsPanel
+                      element={inspectedElement?.element ?? null}
+                      props={inspectedProps ?? []}
+                      schema={inspectedElement ? propSchemaFor(inspectedElement.element.name) : null}
+                      error={propEditError}
+                      disabled={isGenerating}
+                      onChange={applyPropEdit}
+                      onClose={() => setSelectedElement(null)}
+                    />
+                  )}
+                </div>
               </div>
+            ) : previewTab === 'diff' && versions.length > 1 ? (
+              <VersionDiff key={previewVersionId} versions={versions} initialVersionId={previewVersionId} />
             ) : (
-              <CodeViewer code={previewCode} />
+              // Shows the raw response while it streams in
+              <CodeViewer
+                code={streamingCode ?? previewCode}
+                diagnostic={previewFailure?.code === (streamingCode ?? previewCode) ? previewFailure.diagnostic : null}
+                storyTitle={streamingCode === null ? activeConversation?.title ?? '' : undefined}
+              />
             )
           ) : (
             <div style={{
@@ -1899,4 +4258,13 @@ OUTPUT: Start immediately with < and output only JSX.`;
   );
 };
 
+const App: React.FC = () => {
+  // If we're in popout mode, render only the preview component
+  if (isPopoutMode || isShareMode) {
+    return <PopoutPreview shared={isShareMode} />;
+  }
+
+  return <MainApp />;
+};
+
 export default App;
@@ -0,0 +1,285 @@
+/**
+ * Preview Sandbox
+ *
+ * The runtime that boots inside the sandboxed preview iframe. It receives
+ * generated code from the host over postMessage, compiles and mounts it, and
+ * reports located errors and content size back to the host. Because the iframe has an
+ * opaque origin, generated code running here cannot reach the host app's
+ * localStorage, cookies or DOM. It only boots with that origin, see sandbox.tsx.
+ *
+ * The preview renders in its own MantineProvider, with the theme built from
+ * the settings the host sends (see previewTheme).
+ *
+ * In inspect mode, pointer events are intercepted: hovering highlights the
+ * element under the pointer and clicking reports its source offset (see
+ * SOURCE_ATTRIBUTE) to the host instead of reaching the component.
+ */
+
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { MantineProvider } from '@mantine/core';
+import { SOURCE_ATTRIBUTE, compileJSX, type CompiledPreview } from './previewCompiler';
+import { prefetchComponents } from './lazyRegistry';
+import { PreviewError, createDiagnostic, type PreviewDiagnostic } from './previewDiagnostics';
+import { DEFAULT_PREVIEW_THEME_SETTINGS, buildPreviewTheme, type PreviewThemeSettings } from './previewTheme';
+import {
+  SANDBOX_MESSAGE_SOURCE,
+  isHostToSandboxMessage,
+  type SandboxRenderMessage,
+  type SandboxToHostMessage,
+} from './sandboxProtocol';
+
+const postToHost = (message: SandboxToHostMessage) => {
+  // The host's origin is not known to an opaque-origin frame, so '*' is required.
+  // Messages only ever contain diagnostics, never host data.
+  window.parent.postMessage(message, '*');
+};
+
+const reportError = (renderId: number, diagnostic: PreviewDiagnostic) => {
+  postToHost({ source: SANDBOX_MESSAGE_SOURCE, type: 'error', renderId, diagnostic });
+};
+
+/** The nearest element (from `target` up) that was compiled from generated JSX */
+const findSourceElement = (target: EventTarget | null): HTMLElement | null =>
+  target instanceof Element ? target.closest<HTMLElement>(`[${SOURCE_ATTRIBUTE}]`) : null;
+
+// Events swallowed while inspecting so the preview doesn't react to selection clicks
+const INSPECT_BLOCKED_EVENTS = ['pointerdown', 'mousedown', 'pointerup', 'mouseup', 'dblclick'];
+
+interface ErrorBoundaryState {
+  hasError: boolean;
+  error: Error | null;
+  diagnostic: PreviewDiagnostic | null;
+}
+
+interface ErrorBoundaryProps {
+  children: React.ReactNode;
+  /** Locates a caught error in the generated code */
+  diagnose: (error: Error, componentStack?: string) => PreviewDiagnostic;
+  onError?: (diagnostic: PreviewDiagnostic) => void;
+}
+
+// Error boundary to catch render errors
+class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundaryState> {
+  constructor(props: ErrorBoundaryProps) {
+    super(props);
+    this.state = { hasError: false, error: null, diagnostic: null };
+  }
+
+  static getDerivedStateFromError(error: Error): Partial<ErrorBoundaryState> {
+    return { hasError: true, error };
+  }
+
+  componentDidCatch(error: Error, info: React.ErrorInfo) {
+    const diagnostic = this.props.diagnose(error, info.componentStack ?? undefined);
+    this.setState({ diagnostic });
+    this.props.onError?.(diagnostic);
+  }
+
+  render() {
+    if (this.state.hasError) {
+      return (
+        <div style={{
+          padding: '16px',
+          background: 'rgba(239, 68, 68, 0.1)',
+          borderLeft: '3px solid #ef4444',
+          borderRadius: '4px',
+          color: '#ef4444',
+          fontFamily: 'monospace',
+          fontSize: '13px',
+          whiteSpace: 'pre-wrap',
+        }}>
+          <strong>
+            Render Error{this.state.diagnostic?.line !== undefined && ` (line ${this.state.diagnostic.line}, column ${this.state.diagnostic.column})`}:
+          </strong>
+          <br />
+          {this.state.diagnostic?.message ?? this.state.error?.message}
+        </div>
+      );
+    }
+
+    return this.props.children;
+  }
+}
+
+export const PreviewSandbox: React.FC = () => {
+  const [request, setRequest] = useState<SandboxRenderMessage | null>(null);
+  const [compiled, setCompiled] = useState<{ renderId: number; preview: CompiledPreview } | null>(null);
+  const [inspecting, setInspecting] = useState(false);
+  const [highlight, setHighlight] = useState<DOMRect | null>(null);
+  const [themeSettings, setThemeSettings] = useState<PreviewThemeSettings>(DEFAULT_PREVIEW_THEME_SETTINGS);
+  const theme = useMemo(() => buildPreviewTheme(themeSettings), [themeSettings]);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const renderIdRef = useRef(0);
+  const compiledRef = useRef(compiled);
+  compiledRef.current = compiled;
+
+  // Let the host's container background show through the iframe
+  useEffect(() => {
+    for (const element of [document.documentElement, document.body, document.getElementById('root')]) {
+      if (element) element.style.background = 'transparent';
+    }
+  }, []);
+
+  // Warm the component cache before the first render request
+  useEffect(() => {
+    prefetchComponents();
+  }, []);
+
+  // Receive render requests from the host
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== window.parent || !isHostToSandboxMessage(event.data)) {
+        return;
+      }
+      switch (event.data.type) {
+        case 'inspect':
+          setInspecting(event.data.enabled);
+          break;
+        case 'theme':
+          setThemeSettings(event.data.settings);
+          break;
+        default:
+          setRequest(event.data);
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    postToHost({ source: SANDBOX_MESSAGE_SOURCE, type: 'ready' });
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+
+  // Compile whenever a new request arrives. Compiling waits for the components
+  // the code uses to load, so a newer request supersedes a pending one.
+  useEffect(() => {
+    if (!request) return;
+    renderIdRef.current = request.renderId;
+    let cancelled = false;
+
+    compileJSX(request.code, request.components)
+      .then(preview => {
+        if (cancelled) return;
+        setCompiled({ renderId: request.renderId, preview });
+        postToHost({ source: SANDBOX_MESSAGE_SOURCE, type: 'rendered', renderId: request.renderId });
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setCompiled(null);
+        reportError(request.renderId, err instanceof PreviewError
+          ? err.diagnostic
+          : createDiagnostic('compile', err instanceof Error ? err : new Error(String(err)), request.code, null));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [request]);
+
+  // Errors thrown outside React rendering (event handlers, effects, timers)
+  useEffect(() => {
+    const reportRuntimeError = (error: unknown) => {
+      const err = error instanceof Error ? error : new Error(String(error));
+      const current = compiledRef.current;
+      const diagnostic = current?.renderId === renderIdRef.current
+        ? current.preview.diagnose(err)
+        : { phase: 'runtime' as const, message: err.message, stack: err.stack };
+      reportError(renderIdRef.current, diagnostic);
+    };
+    const handleError = (event: ErrorEvent) => reportRuntimeError(event.error ?? event.message);
+    const handleRejection = (event: PromiseRejectionEvent) => reportRuntimeError(event.reason);
+
+    window.addEventListener('error', handleError);
+    window.addEventListener('unhandledrejection', handleRejection);
+    return () => {
+      window.removeEventListener('error', handleError);
+      window.removeEventListener('unhandledrejection', handleRejection);
+    };
+  }, []);
+
+  // Inspect mode: highlight on hover, report the source offset on click.
+  // Listeners run in the capture phase so they come before the component's own.
+  useEffect(() => {
+    if (!inspecting) {
+      setHighlight(null);
+      return;
+    }
+
+    const handleOver = (event: MouseEvent) => {
+      setHighlight(findSourceElement(event.target)?.getBoundingClientRect() ?? null);
+    };
+    const handleLeave = () => setHighlight(null);
+    const block = (event: Event) => {
+      event.preventDefault();
+      event.stopPropagation();
+    };
+    const handleClick = (event: MouseEvent) => {
+      block(event);
+      const offset = Number(findSourceElement(event.target)?.getAttribute(SOURCE_ATTRIBUTE) ?? NaN);
+      if (Number.isInteger(offset)) {
+        postToHost({ source: SANDBOX_MESSAGE_SOURCE, type: 'select', renderId: renderIdRef.current, offset });
+      }
+    };
+
+    document.addEventListener('mouseover', handleOver, true);
+    document.documentElement.addEventListener('mouseleave', handleLeave);
+    // The highlight is positioned for the current scroll offset
+    window.addEventListener('scroll', handleLeave, true);
+    document.addEventListener('click', handleClick, true);
+    INSPECT_BLOCKED_EVENTS.forEach(type => document.addEventListener(type, block, true));
+    return () => {
+      document.removeEventListener('mouseover', handleOver, true);
+      document.documentElement.removeEventListener('mouseleave', handleLeave);
+      window.removeEventListener('scroll', handleLeave, true);
+      document.removeEventListener('click', handleClick, true);
+      INSPECT_BLOCKED_EVENTS.forEach(type => document.removeEventListener(type, block, true));
+    };
+  }, [inspecting]);
+
+  // Report content size so the host can size the iframe
+  useEffect(() => {
+    const element = contentRef.current;
+    if (!element) return;
+
+    const observer = new ResizeObserver(() => {
+      postToHost({
+        source: SANDBOX_MESSAGE_SOURCE,
+        type: 'resize',
+        height: Math.ceil(element.getBoundingClientRect().height),
+      });
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  return (
+    <MantineProvider theme={theme} forceColorScheme={themeSettings.colorScheme}>
+      <div ref={contentRef} style={{ ...request?.contentStyle, cursor: inspecting ? 'crosshair' : undefined }}>
+        {compiled && (
+          // Keyed by render so a fresh compile clears any previous render error
+          <ErrorBoundary
+            key={compiled.renderId}
+            diagnose={compiled.preview.diagnose}
+            onError={(diagnostic) => reportError(compiled.renderId, diagnostic)}
+          >
+            <compiled.preview.Component />
+          </ErrorBoundary>
+        )}
+        {highlight && (
+          <div style={{
+            position: 'fixed',
+            top: highlight.top,
+            left: highlight.left,
+            width: highlight.width,
+            height: highlight.height,
+            outline: '2px solid #3b82f6',
+            background: 'rgba(59, 130, 246, 0.12)',
+            borderRadius: '2px',
+            pointerEvents: 'none',
+            zIndex: 2147483647,
+          }} />
+        )}
+      </div>
+    </MantineProvider>
+  );
+};
+
+export default PreviewSandbox;
@@ -0,0 +1,210 @@
+/**
+ * Component Export
+ *
+ * Turns generated preview code into a standalone component module that can be
+ * dropped into an app. The component is declared and its imports worked out
+ * the same way as for story files (see storyExport), and its hard-coded
+ * content is lifted into props: text children like titles and button labels,
+ * and content attributes like image URLs, links and input labels, become
+ * optional string props of an exported props interface. The generated values
+ * are the defaults, so the module renders exactly like the preview until it's
+ * given props.
+ *
+ * Only the component's own JSX is lifted; helper components declared next to
+ * it keep their literals. Components that already take props are exported as
+ * they are.
+ */
+
+import * as Babel from '@babel/standalone';
+import type { NodePath } from '@babel/traverse';
+import type { Function as FunctionNode, JSXElement, Node, Statement } from '@babel/types';
+import { parseSource } from './jsxExtraction';
+import { jsxNameParts } from './componentResolution';
+import { INDENT, buildComponentSource, moduleImports, quote } from './storyExport';
+
+const { traverse, types: t } = Babel.packages;
+
+export interface LiftedProp {
+  name: string;
+  /** The literal the prop replaced */
+  defaultValue: string;
+  /** What the value sets, e.g. `<Button> text` or `<Image> src` */
+  target: string;
+}
+
+export interface ComponentModule {
+  /** Name of the exported component */
+  name: string;
+  fileName: string;
+  props: LiftedProp[];
+  code: string;
+}
+
+export interface ComponentExportOptions {
+  /** Title the component and its file are named after */
+  title: string;
+}
+
+// Attributes that hold content rather than styling
+const CONTENT_ATTRIBUTES = new Set(['src', 'href', 'alt', 'label', 'placeholder', 'description', 'title', 'caption']);
+
+// Elements whose text reads as a label rather than running text
+const LABEL_ELEMENTS = new Set(['Button', 'Badge', 'Anchor', 'Chip', 'Tab', 'NavLink', 'Pill', 'Kbd', 'a', 'button', 'label']);
+
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const capitalize = (value: string) => value[0].toUpperCase() + value.slice(1);
+
+/**
+ * The string a literal child or attribute value holds, or null when it isn't
+ * a plain string: `"Save"`, `{'Save'}` or a template literal without
+ * expressions
+ */
+function stringValue(node: Node | null | undefined): string | null {
+  const value = t.isJSXExpressionContainer(node) ? node.expression : node;
+  if (t.isStringLiteral(value)) return value.value;
+  if (t.isTemplateLiteral(value) && value.expressions.length === 0) return value.quasis[0].value.cooked ?? null;
+  return null;
+}
+
+/**
+ * The component's function and the top-level statement declaring it, or null
+ * when it isn't a plain function (e.g. a class or a `memo` call)
+ */
+function findComponentFunction(code: string, name: string) {
+  const found: { fn: NodePath<FunctionNode> | null; statement: Statement | null } = { fn: null, statement: null };
+  traverse.default(parseSource(code), {
+    Program(path) {
+      const binding = path.scope.getBinding(name);
+      if (binding?.path.isFunctionDeclaration()) {
+        found.fn = binding.path;
+        found.statement = binding.path.node;
+      } else if (binding?.path.isVariableDeclarator()) {
+        const init = binding.path.get('init');
+        if (!Array.isArray(init) && (init.isArrowFunctionExpression() || init.isFunctionExpression())) {
+          found.fn = init;
+          found.statement = binding.path.parentPath.node as Statement;
+        }
+      }
+      path.stop();
+    },
+  });
+  return found.fn && found.statement ? { fn: found.fn, statement: found.statement } : null;
+}
+
+/**
+ * Find the literals in the component's JSX, and the edits that replace each
+ * with a prop
+ */
+function liftLiterals(code: string, fn: NodePath<FunctionNode>): { props: LiftedProp[]; edits: TextEdit[] } {
+  const props: LiftedProp[] = [];
+  const edits: TextEdit[] = [];
+
+  const lift = (base: string, defaultValue: string, target: string, start: number, end: number) => {
+    let name = base;
+    for (let index = 2; props.some(prop => prop.name === name) || fn.scope.hasBinding(name); index++) {
+      name = `${base}${index}`;
+    }
+    props.push({ name, defaultValue, target });
+    edits.push({ start, end, text: `{${name}}` });
+  };
+
+  fn.traverse({
+    JSXElement(path) {
+      const element: JSXElement = path.node;
+      const parts = jsxNameParts(element.openingElement.name);
+      if (!parts) return;
+      const elementName = parts.join('.');
+      const base = parts.join('').replace(/^./, first => first.toLowerCase());
+
+      for (const attribute of element.openingElement.attributes) {
+        if (!t.isJSXAttribute(attribute) || !t.isJSXIdentifier(attribute.name) || !attribute.value) continue;
+        const value = stringValue(attribute.value);
+        if (!CONTENT_ATTRIBUTES.has(attribute.name.name) || !value?.trim()) continue;
+        lift(`${base}${capitalize(attribute.name.name)}`, value, `<${elementName}> ${attribute.name.name}`,
+          attribute.value.start!, attribute.value.end!);
+      }
+
+      // Only elements whose whole content is one literal, so `Hello {name}` stays as it is
+      const children = element.children.filter(child => !t.isJSXText(child) || child.value.trim());
+      if (children.length !== 1) return;
+      const child = children[0];
+      const textBase = /(title|text)$/i.test(base) ? base : `${base}${LABEL_ELEMENTS.has(parts[parts.length - 1]) ? 'Label' : 'Text'}`;
+      const target = `<${elementName}> text`;
+
+      if (t.isJSXText(child)) {
+        // Keep the whitespace around the text, so the JSX keeps its layout
+        const raw = code.slice(child.start!, child.end!);
+        const start = child.start! + (raw.length - raw.trimStart().length);
+        const end = child.end! - (raw.length - raw.trimEnd().length);
+        lift(textBase, child.value.replace(/\s*\n\s*/g, ' ').trim(), target, start, end);
+      } else if (t.isJSXExpressionContainer(child)) {
+        const value = stringValue(child);
+        if (value?.trim()) lift(textBase, value, target, child.start!, child.end!);
+      }
+    },
+  });
+
+  return { props, edits };
+}
+
+const applyEdits = (code: string, edits: TextEdit[]): string =>
+  edits
+    .slice()
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, edit) => result.slice(0, edit.start) + edit.text + result.slice(edit.end), code);
+
+/**
+ * Offset between the parentheses of a function's empty parameter list
+ */
+function emptyParamsOffset(code: string, fn: FunctionNode): number {
+  const searchFrom = t.isFunctionDeclaration(fn) || t.isFunctionExpression(fn) ? fn.id?.end ?? fn.start! : fn.start!;
+  return code.indexOf('(', searchFrom) + 1;
+}
+
+/**
+ * Build a standalone component module from generated preview code. Throws a
+ * StoryExportError when the code has no component to export.
+ */
+export function buildComponentModule(previewCode: string, options: ComponentExportOptions): ComponentModule {
+  const component = buildComponentSource(previewCode, options.title.trim() || 'Untitled');
+  const propsName = `${component.name}Props`;
+  const declaration = findComponentFunction(component.code, component.name);
+
+  let props: LiftedProp[] = [];
+  let code = component.code;
+  if (declaration) {
+    const edits: TextEdit[] = [{ start: declaration.statement.start!, end: declaration.statement.start!, text: 'export ' }];
+    if (declaration.fn.node.params.length === 0) {
+      const lifted = liftLiterals(code, declaration.fn);
+      props = lifted.props;
+      edits.push(...lifted.edits);
+      if (props.length > 0) {
+        const offset = emptyParamsOffset(code, declaration.fn.node);
+        const defaults = props.map(prop => `${INDENT}${prop.name} = ${quote(prop.defaultValue)},`).join('\n');
+        edits.push({ start: offset, end: offset, text: `{\n${defaults}\n}: ${propsName}` });
+      }
+    }
+    code = applyEdits(code, edits);
+  } else {
+    code = `${code}\n\nexport { ${component.name} };`;
+  }
+
+  const { imports, body } = moduleImports(code);
+  const propsInterface = props.length > 0 && [
+    `export interface ${propsName} {`,
+    ...props.map(prop => `${INDENT}/** ${prop.target} */\n${INDENT}${prop.name}?: string;`),
+    '}',
+  ].join('\n');
+
+  return {
+    name: component.name,
+    fileName: `${component.name}.tsx`,
+    props,
+    code: [imports.join('\n'), propsInterface, body].filter(Boolean).join('\n\n') + '\n',
+  };
+}
@@ -0,0 +1,345 @@
+/**
+ * Component Loaders
+ *
+ * AUTO-GENERATED FILE - DO NOT EDIT
+ * This file is generated from the component registry by lazyRegistryPlugin.ts
+ *
+ * Maps each registry component to a loader that imports it on demand, so
+ * components are code-split instead of bundled up front. Components are
+ * grouped by the package they're imported from.
+ */
+
+import type React from 'react';
+
+export type ComponentLoader = () => Promise<{ default: React.ElementType }>;
+
+export interface RegistryPackage {
+  /** Registry names of the package's components */
+  components: string[];
+  /** Resolves to the loader of each component, keyed by registry name */
+  loaders: () => Promise<Record<string, ComponentLoader>>;
+  /** Export name of components exposed under another name to avoid a collision */
+  aliases: Record<string, string>;
+  /** Describes the components when they're too many to list in prompts */
+  description?: string;
+}
+
+export const registryPackages: Record<string, RegistryPackage> = {
+  "@mantine/core": {
+    components: ["RemoveScroll","ColorSchemeScript","InlineStyles","Box","Collapse","ScrollArea","ScrollAreaAutosize","UnstyledButton","VisuallyHidden","Paper","Popover","PopoverDropdown","PopoverTarget","ActionIcon","ActionIconGroup","ActionIconGroupSection","CloseIcon","CloseButton","Group","Loader","Overlay","ModalBase","ModalBaseBody","ModalBaseCloseButton","ModalBaseContent","ModalBaseHeader","ModalBaseOverlay","ModalBaseTitle","NativeScrollArea","Input","InputWrapper","InputDescription","InputError","InputLabel","InputPlaceholder","InputClearButton","InputBase","Flex","FloatingIndicator","FloatingArrow","Accordion","AccordionChevron","AccordionItem","AccordionPanel","AccordionControl","Affix","Alert","Anchor","AngleSlider","AppShell","AppShellAside","AppShellFooter","AppShellHeader","AppShellNavbar","AppShellSection","AppShellMain","AspectRatio","Autocomplete","Avatar","AvatarGroup","BackgroundImage","Badge","Blockquote","Breadcrumbs","Burger","Button","ButtonGroup","ButtonGroupSection","Card","CardSection","Center","Checkbox","CheckboxGroup","CheckIcon","CheckboxIndicator","CheckboxCard","Chip","ChipGroup","Code","ColorPicker","AlphaSlider","HueSlider","ColorInput","ColorSwatch","ComboboxChevron","Combobox","ComboboxDropdown","ComboboxOptions","ComboboxOption","ComboboxTarget","ComboboxSearch","ComboboxEmpty","ComboboxFooter","ComboboxHeader","ComboboxEventsTarget","ComboboxDropdownTarget","ComboboxGroup","ComboboxClearButton","ComboboxHiddenInput","OptionsDropdown","Container","CopyButton","Dialog","Divider","Drawer","DrawerRoot","DrawerBody","DrawerCloseButton","DrawerContent","DrawerHeader","DrawerOverlay","DrawerTitle","DrawerStack","Fieldset","FileButton","FileInput","FocusTrap","FocusTrapInitialFocus","Grid","GridCol","Highlight","HoverCard","HoverCardDropdown","HoverCardTarget","HoverCardGroup","Image","Indicator","JsonInput","Kbd","List","ListItem","LoadingOverlay","Mark","Menu","MenuDivider","MenuItem","MenuLabel","MenuDropdown","MenuTarget","Modal","ModalRoot","ModalBody","ModalCloseButton","ModalContent","ModalHeader","ModalOverlay","ModalTitle","ModalStack","MultiSelect","NativeSelect","NavLink","Notification","NumberFormatter","NumberInput","Pagination","PaginationControl","PaginationDots","PaginationFirst","PaginationLast","PaginationNext","PaginationPrevious","PaginationItems","PaginationRoot","PasswordInput","Pill","PillGroup","PillsInput","PillsInputField","PinInput","Portal","OptionalPortal","Progress","ProgressLabel","ProgressRoot","ProgressSection","Radio","RadioGroup","RadioIcon","RadioCard","RadioIndicator","Rating","RingProgress","SegmentedControl","Select","SemiCircleProgress","SimpleGrid","Skeleton","Slider","RangeSlider","Space","Spoiler","Stack","Stepper","StepperStep","StepperCompleted","Switch","SwitchGroup","Table","TableCaption","TableTbody","TableTd","TableTfoot","TableTh","TableThead","TableTr","TableScrollContainer","TableOfContents","Tabs","TabsList","TabsTab","TabsPanel","TagsInput","Text","Textarea","TextInput","ThemeIcon","Timeline","TimelineItem","Title","Tooltip","TooltipGroup","TooltipFloating","Transition","Tree","Typography"],
+    loaders: () => Promise.resolve({
+      "RemoveScroll": () => import('virtual:story-ui-component/RemoveScroll'),
+      "ColorSchemeScript": () => import('virtual:story-ui-component/ColorSchemeScript'),
+      "InlineStyles": () => import('virtual:story-ui-component/InlineStyles'),
+      "Box": () => import('virtual:story-ui-component/Box'),
+      "Collapse": () => import('virtual:story-ui-component/Collapse'),
+      "ScrollArea": () => import('virtual:story-ui-component/ScrollArea'),
+      "ScrollAreaAutosize": () => import('virtual:story-ui-component/ScrollAreaAutosize'),
+      "UnstyledButton": () => import('virtual:story-ui-component/UnstyledButton'),
+      "VisuallyHidden": () => import('virtual:story-ui-component/VisuallyHidden'),
+      "Paper": () => import('virtual:story-ui-component/Paper'),
+      "Popover": () => import('virtual:story-ui-component/Popover'),
+      "PopoverDropdown": () => import('virtual:story-ui-component/PopoverDropdown'),
+      "PopoverTarget": () => import('virtual:story-ui-component/PopoverTarget'),
+      "ActionIcon": () => import('virtual:story-ui-component/ActionIcon'),
+      "ActionIconGroup": () => import('virtual:story-ui-component/ActionIconGroup'),
+      "ActionIconGroupSection": () => import('virtual:story-ui-component/ActionIconGroupSection'),
+      "CloseIcon": () => import('virtual:story-ui-component/CloseIcon'),
+      "CloseButton": () => import('virtual:story-ui-component/CloseButton'),
+      "Group": () => import('virtual:story-ui-component/Group'),
+      "Loader": () => import('virtual:story-ui-component/Loader'),
+      "Overlay": () => import('virtual:story-ui-component/Overlay'),
+      "ModalBase": () => import('virtual:story-ui-component/ModalBase'),
+      "ModalBaseBody": () => import('virtual:story-ui-component/ModalBaseBody'),
+      "ModalBaseCloseButton": () => import('virtual:story-ui-component/ModalBaseCloseButton'),
+      "ModalBaseContent": () => import('virtual:story-ui-component/ModalBaseContent'),
+      "ModalBaseHeader": () => import('virtual:story-ui-component/ModalBaseHeader'),
+      "ModalBaseOverlay": () => import('virtual:story-ui-component/ModalBaseOverlay'),
+      "ModalBaseTitle": () => import('virtual:story-ui-component/ModalBaseTitle'),
+      "NativeScrollArea": () => import('virtual:story-ui-component/NativeScrollArea'),
+      "Input": () => import('virtual:story-ui-component/Input'),
+      "InputWrapper": () => import('virtual:story-ui-component/InputWrapper'),
+      "InputDescription": () => import('virtual:story-ui-component/InputDescription'),
+      "InputError": () => import('virtual:story-ui-component/InputError'),
+      "InputLabel": () => import('virtual:story-ui-component/InputLabel'),
+      "InputPlaceholder": () => import('virtual:story-ui-component/InputPlaceholder'),
+      "InputClearButton": () => import('virtual:story-ui-component/InputClearButton'),
+      "InputBase": () => import('virtual:story-ui-component/InputBase'),
+      "Flex": () => import('virtual:story-ui-component/Flex'),
+      "FloatingIndicator": () => import('virtual:story-ui-component/FloatingIndicator'),
+      "FloatingArrow": () => import('virtual:story-ui-component/FloatingArrow'),
+      "Accordion": () => import('virtual:story-ui-component/Accordion'),
+      "AccordionChevron": () => import('virtual:story-ui-component/AccordionChevron'),
+      "AccordionItem": () => import('virtual:story-ui-component/AccordionItem'),
+      "AccordionPanel": () => import('virtual:story-ui-component/AccordionPanel'),
+      "AccordionControl": () => import('virtual:story-ui-component/AccordionControl'),
+      "Affix": () => import('virtual:story-ui-component/Affix'),
+      "Alert": () => import('virtual:story-ui-component/Alert'),
+      "Anchor": () => import('virtual:story-ui-component/Anchor'),
+      "AngleSlider": () => import('virtual:story-ui-component/AngleSlider'),
+      "AppShell": () => import('virtual:story-ui-component/AppShell'),
+      "AppShellAside": () => import('virtual:story-ui-component/AppShellAside'),
+      "AppShellFooter": () => import('virtual:story-ui-component/AppShellFooter'),
+      "AppShellHeader": () => import('virtual:story-ui-component/AppShellHeader'),
+      "AppShellNavbar": () => import('virtual:story-ui-component/AppShellNavbar'),
+      "AppShellSection": () => import('virtual:story-ui-component/AppShellSection'),
+      "AppShellMain": () => import('virtual:story-ui-component/AppShellMain'),
+      "AspectRatio": () => import('virtual:story-ui-component/AspectRatio'),
+      "Autocomplete": () => import('virtual:story-ui-component/Autocomplete'),
+      "Avatar": () => import('virtual:story-ui-component/Avatar'),
+      "AvatarGroup": () => import('virtual:story-ui-component/AvatarGroup'),
+      "BackgroundImage": () => import('virtual:story-ui-component/BackgroundImage'),
+      "Badge": () => import('virtual:story-ui-component/Badge'),
+      "Blockquote": () => import('virtual:story-ui-component/Blockquote'),
+      "Breadcrumbs": () => import('virtual:story-ui-component/Breadcrumbs'),
+      "Burger": () => import('virtual:story-ui-component/Burger'),
+      "Button": () => import('virtual:story-ui-component/Button'),
+      "ButtonGroup": () => import('virtual:story-ui-component/ButtonGroup'),
+      "ButtonGroupSection": () => import('virtual:story-ui-component/ButtonGroupSection'),
+      "Card": () => import('virtual:story-ui-component/Card'),
+      "CardSection": () => import('virtual:story-ui-component/CardSection'),
+      "Center": () => import('virtual:story-ui-component/Center'),
+      "Checkbox": () => import('virtual:story-ui-component/Checkbox'),
+      "CheckboxGroup": () => import('virtual:story-ui-component/CheckboxGroup'),
+      "CheckIcon": () => import('virtual:story-ui-component/CheckIcon'),
+      "CheckboxIndicator": () => import('virtual:story-ui-component/CheckboxIndicator'),
+      "CheckboxCard": () => import('virtual:story-ui-component/CheckboxCard'),
+      "Chip": () => import('virtual:story-ui-component/Chip'),
+      "ChipGroup": () => import('virtual:story-ui-component/ChipGroup'),
+      "Code": () => import('virtual:story-ui-component/Code'),
+      "ColorPicker": () => import('virtual:story-ui-component/ColorPicker'),
+      "AlphaSlider": () => import('virtual:story-ui-component/AlphaSlider'),
+      "HueSlider": () => import('virtual:story-ui-component/HueSlider'),
+      "ColorInput": () => import('virtual:story-ui-component/ColorInput'),
+      "ColorSwatch": () => import('virtual:story-ui-component/ColorSwatch'),
+      "ComboboxChevron": () => import('virtual:story-ui-component/ComboboxChevron'),
+      "Combobox": () => import('virtual:story-ui-component/Combobox'),
+      "ComboboxDropdown": () => import('virtual:story-ui-component/ComboboxDropdown'),
+      "ComboboxOptions": () => import('virtual:story-ui-component/ComboboxOptions'),
+      "ComboboxOption": () => import('virtual:story-ui-component/ComboboxOption'),
+      "ComboboxTarget": () => import('virtual:story-ui-component/ComboboxTarget'),
+      "ComboboxSearch": () => import('virtual:story-ui-component/ComboboxSearch'),
+      "ComboboxEmpty": () => import('virtual:story-ui-component/ComboboxEmpty'),
+      "ComboboxFooter": () => import('virtual:story-ui-component/ComboboxFooter'),
+      "ComboboxHeader": () => import('virtual:story-ui-component/ComboboxHeader'),
+      "ComboboxEventsTarget": () => import('virtual:story-ui-component/ComboboxEventsTarget'),
+      "ComboboxDropdownTarget": () => import('virtual:story-ui-component/ComboboxDropdownTarget'),
+      "ComboboxGroup": () => import('virtual:story-ui-component/ComboboxGroup'),
+      "ComboboxClearButton": () => import('virtual:story-ui-component/ComboboxClearButton'),
+      "ComboboxHiddenInput": () => import('virtual:story-ui-component/ComboboxHiddenInput'),
+      "OptionsDropdown": () => import('virtual:story-ui-component/OptionsDropdown'),
+      "Container": () => import('virtual:story-ui-component/Container'),
+      "CopyButton": () => import('virtual:story-ui-component/CopyButton'),
+      "Dialog": () => import('virtual:story-ui-component/Dialog'),
+      "Divider": () => import('virtual:story-ui-component/Divider'),
+      "Drawer": () => import('virtual:story-ui-component/Drawer'),
+      "DrawerRoot": () => import('virtual:story-ui-component/DrawerRoot'),
+      "DrawerBody": () => import('virtual:story-ui-component/DrawerBody'),
+      "DrawerCloseButton": () => import('virtual:story-ui-component/DrawerCloseButton'),
+      "DrawerContent": () => import('virtual:story-ui-component/DrawerContent'),
+      "DrawerHeader": () => import('virtual:story-ui-component/DrawerHeader'),
+      "DrawerOverlay": () => import('virtual:story-ui-component/DrawerOverlay'),
+      "DrawerTitle": () => import('virtual:story-ui-component/DrawerTitle'),
+      "DrawerStack": () => import('virtual:story-ui-component/DrawerStack'),
+      "Fieldset": () => import('virtual:story-ui-component/Fieldset'),
+      "FileButton": () => import('virtual:story-ui-component/FileButton'),
+      "FileInput": () => import('virtual:story-ui-component/FileInput'),
+      "FocusTrap": () => import('virtual:story-ui-component/FocusTrap'),
+      "FocusTrapInitialFocus": () => import('virtual:story-ui-component/FocusTrapInitialFocus'),
+      "Grid": () => import('virtual:story-ui-component/Grid'),
+      "GridCol": () => import('virtual:story-ui-component/GridCol'),
+      "Highlight": () => import('virtual:story-ui-component/Highlight'),
+      "HoverCard": () => import('virtual:story-ui-component/HoverCard'),
+      "HoverCardDropdown": () => import('virtual:story-ui-component/HoverCardDropdown'),
+      "HoverCardTarget": () => import('virtual:story-ui-component/HoverCardTarget'),
+      "HoverCardGroup": () => import('virtual:story-ui-component/HoverCardGroup'),
+      "Image": () => import('virtual:story-ui-component/Image'),
+      "Indicator": () => import('virtual:story-ui-component/Indicator'),
+      "JsonInput": () => import('virtual:story-ui-component/JsonInput'),
+      "Kbd": () => import('virtual:story-ui-component/Kbd'),
+      "List": () => import('virtual:story-ui-component/List'),
+      "ListItem": () => import('virtual:story-ui-component/ListItem'),
+      "LoadingOverlay": () => import('virtual:story-ui-component/LoadingOverlay'),
+      "Mark": () => import('virtual:story-ui-component/Mark'),
+      "Menu": () => import('virtual:story-ui-component/Menu'),
+      "MenuDivider": () => import('virtual:story-ui-component/MenuDivider'),
+      "MenuItem": () => import('virtual:story-ui-component/MenuItem'),
+      "MenuLabel": () => import('virtual:story-ui-component/MenuLabel'),
+      "MenuDropdown": () => import('virtual:story-ui-component/MenuDropdown'),
+      "MenuTarget": () => import('virtual:story-ui-component/MenuTarget'),
+      "Modal": () => import('virtual:story-ui-component/Modal'),
+      "ModalRoot": () => import('virtual:story-ui-component/ModalRoot'),
+      "ModalBody": () => import('virtual:story-ui-component/ModalBody'),
+      "ModalCloseButton": () => import('virtual:story-ui-component/ModalCloseButton'),
+      "ModalContent": () => import('virtual:story-ui-component/ModalContent'),
+      "ModalHeader": () => import('virtual:story-ui-component/ModalHeader'),
+      "ModalOverlay": () => import('virtual:story-ui-component/ModalOverlay'),
+      "ModalTitle": () => import('virtual:story-ui-component/ModalTitle'),
+      "ModalStack": () => import('virtual:story-ui-component/ModalStack'),
+      "MultiSelect": () => import('virtual:story-ui-component/MultiSelect'),
+      "NativeSelect": () => import('virtual:story-ui-component/NativeSelect'),
+      "NavLink": () => import('virtual:story-ui-component/NavLink'),
+      "Notification": () => import('virtual:story-ui-component/Notification'),
+      "NumberFormatter": () => import('virtual:story-ui-component/NumberFormatter'),
+      "NumberInput": () => import('virtual:story-ui-component/NumberInput'),
+      "Pagination": () => import('virtual:story-ui-component/Pagination'),
+      "PaginationControl": () => import('virtual:story-ui-component/PaginationControl'),
+      "PaginationDots": () => import('virtual:story-ui-component/PaginationDots'),
+      "PaginationFirst": () => import('virtual:story-ui-component/PaginationFirst'),
+      "PaginationLast": () => import('virtual:story-ui-component/PaginationLast'),
+      "PaginationNext": () => import('virtual:story-ui-component/PaginationNext'),
+      "PaginationPrevious": () => import('virtual:story-ui-component/PaginationPrevious'),
+      "PaginationItems": () => import('virtual:story-ui-component/PaginationItems'),
+      "PaginationRoot": () => import('virtual:story-ui-component/PaginationRoot'),
+      "PasswordInput": () => import('virtual:story-ui-component/PasswordInput'),
+      "Pill": () => import('virtual:story-ui-component/Pill'),
+      "PillGroup": () => import('virtual:story-ui-component/PillGroup'),
+      "PillsInput": () => import('virtual:story-ui-component/PillsInput'),
+      "PillsInputField": () => import('virtual:story-ui-component/PillsInputField'),
+      "PinInput": () => import('virtual:story-ui-component/PinInput'),
+      "Portal": () => import('virtual:story-ui-component/Portal'),
+      "OptionalPortal": () => import('virtual:story-ui-component/OptionalPortal'),
+      "Progress": () => import('virtual:story-ui-component/Progress'),
+      "ProgressLabel": () => import('virtual:story-ui-component/ProgressLabel'),
+      "ProgressRoot": () => import('virtual:story-ui-component/ProgressRoot'),
+      "ProgressSection": () => import('virtual:story-ui-component/ProgressSection'),
+      "Radio": () => import('virtual:story-ui-component/Radio'),
+      "RadioGroup": () => import('virtual:story-ui-component/RadioGroup'),
+      "RadioIcon": () => import('virtual:story-ui-component/RadioIcon'),
+      "RadioCard": () => import('virtual:story-ui-component/RadioCard'),
+      "RadioIndicator": () => import('virtual:story-ui-component/RadioIndicator'),
+      "Rating": () => import('virtual:story-ui-component/Rating'),
+      "RingProgress": () => import('virtual:story-ui-component/RingProgress'),
+      "SegmentedControl": () => import('virtual:story-ui-component/SegmentedControl'),
+      "Select": () => import('virtual:story-ui-component/Select'),
+      "SemiCircleProgress": () => import('virtual:story-ui-component/SemiCircleProgress'),
+      "SimpleGrid": () => import('virtual:story-ui-component/SimpleGrid'),
+      "Skeleton": () => import('virtual:story-ui-component/Skeleton'),
+      "Slider": () => import('virtual:story-ui-component/Slider'),
+      "RangeSlider": () => import('virtual:story-ui-component/RangeSlider'),
+      "Space": () => import('virtual:story-ui-component/Space'),
+      "Spoiler": () => import('virtual:story-ui-component/Spoiler'),
+      "Stack": () => import('virtual:story-ui-component/Stack'),
+      "Stepper": () => import('virtual:story-ui-component/Stepper'),
+      "StepperStep": () => import('virtual:story-ui-component/StepperStep'),
+      "StepperCompleted": () => import('virtual:story-ui-component/StepperCompleted'),
+      "Switch": () => import('virtual:story-ui-component/Switch'),
+      "SwitchGroup": () => import('virtual:story-ui-component/SwitchGroup'),
+      "Table": () => import('virtual:story-ui-component/Table'),
+      "TableCaption": () => import('virtual:story-ui-component/TableCaption'),
+      "TableTbody": () => import('virtual:story-ui-component/TableTbody'),
+      "TableTd": () => import('virtual:story-ui-component/TableTd'),
+      "TableTfoot": () => import('virtual:story-ui-component/TableTfoot'),
+      "TableTh": () => import('virtual:story-ui-component/TableTh'),
+      "TableThead": () => import('virtual:story-ui-component/TableThead'),
+      "TableTr": () => import('virtual:story-ui-component/TableTr'),
+      "TableScrollContainer": () => import('virtual:story-ui-component/TableScrollContainer'),
+      "TableOfContents": () => import('virtual:story-ui-component/TableOfContents'),
+      "Tabs": () => import('virtual:story-ui-component/Tabs'),
+      "TabsList": () => import('virtual:story-ui-component/TabsList'),
+      "TabsTab": () => import('virtual:story-ui-component/TabsTab'),
+      "TabsPanel": () => import('virtual:story-ui-component/TabsPanel'),
+      "TagsInput": () => import('virtual:story-ui-component/TagsInput'),
+      "Text": () => import('virtual:story-ui-component/Text'),
+      "Textarea": () => import('virtual:story-ui-component/Textarea'),
+      "TextInput": () => import('virtual:story-ui-component/TextInput'),
+      "ThemeIcon": () => import('virtual:story-ui-component/ThemeIcon'),
+      "Timeline": () => import('virtual:story-ui-component/Timeline'),
+      "TimelineItem": () => import('virtual:story-ui-component/TimelineItem'),
+      "Title": () => import('virtual:story-ui-component/Title'),
+      "Tooltip": () => import('virtual:story-ui-component/Tooltip'),
+      "TooltipGroup": () => import('virtual:story-ui-component/TooltipGroup'),
+      "TooltipFloating": () => import('virtual:story-ui-component/TooltipFloating'),
+      "Transition": () => import('virtual:story-ui-component/Transition'),
+      "Tree": () => import('virtual:story-ui-component/Tree'),
+      "Typography": () => import('virtual:story-ui-component/Typography'),
+    }),
+    aliases: {},
+  },
+  "@mantine/dates": {
+    components: ["DatesProvider","HiddenDatesInput","TimeInput","TimePicker","TimeValue","Day","WeekdaysRow","Month","PickerControl","YearsList","MonthsList","CalendarHeader","DecadeLevel","YearLevel","MonthLevel","LevelsGroup","DecadeLevelGroup","YearLevelGroup","MonthLevelGroup","PickerInputBase","Calendar","YearPicker","MonthPicker","DatePicker","DateInput","DateTimePicker","YearPickerInput","MonthPickerInput","DatePickerInput","TimeGrid","MiniCalendar"],
+    loaders: () => Promise.resolve({
+      "DatesProvider": () => import('virtual:story-ui-component/DatesProvider'),
+      "HiddenDatesInput": () => import('virtual:story-ui-component/HiddenDatesInput'),
+      "TimeInput": () => import('virtual:story-ui-component/TimeInput'),
+      "TimePicker": () => import('virtual:story-ui-component/TimePicker'),
+      "TimeValue": () => import('virtual:story-ui-component/TimeValue'),
+      "Day": () => import('virtual:story-ui-component/Day'),
+      "WeekdaysRow": () => import('virtual:story-ui-component/WeekdaysRow'),
+      "Month": () => import('virtual:story-ui-component/Month'),
+      "PickerControl": () => import('virtual:story-ui-component/PickerControl'),
+      "YearsList": () => import('virtual:story-ui-component/YearsList'),
+      "MonthsList": () => import('virtual:story-ui-component/MonthsList'),
+      "CalendarHeader": () => import('virtual:story-ui-component/CalendarHeader'),
+      "DecadeLevel": () => import('virtual:story-ui-component/DecadeLevel'),
+      "YearLevel": () => import('virtual:story-ui-component/YearLevel'),
+      "MonthLevel": () => import('virtual:story-ui-component/MonthLevel'),
+      "LevelsGroup": () => import('virtual:story-ui-component/LevelsGroup'),
+      "DecadeLevelGroup": () => import('virtual:story-ui-component/DecadeLevelGroup'),
+      "YearLevelGroup": () => import('virtual:story-ui-component/YearLevelGroup'),
+      "MonthLevelGroup": () => import('virtual:story-ui-component/MonthLevelGroup'),
+      "PickerInputBase": () => import('virtual:story-ui-component/PickerInputBase'),
+      "Calendar": () => import('virtual:story-ui-component/Calendar'),
+      "YearPicker": () => import('virtual:story-ui-component/YearPicker'),
+      "MonthPicker": () => import('virtual:story-ui-component/MonthPicker'),
+      "DatePicker": () => import('virtual:story-ui-component/DatePicker'),
+      "DateInput": () => import('virtual:story-ui-component/DateInput'),
+      "DateTimePicker": () => import('virtual:story-ui-component/DateTimePicker'),
+      "YearPickerInput": () => import('virtual:story-ui-component/YearPickerInput'),
+      "MonthPickerInput": () => import('virtual:story-ui-component/MonthPickerInput'),
+      "DatePickerInput": () => import('virtual:story-ui-component/DatePickerInput'),
+      "TimeGrid": () => import('virtual:story-ui-component/TimeGrid'),
+      "MiniCalendar": () => import('virtual:story-ui-component/MiniCalendar'),
+    }),
+    aliases: {},
+  },
+  "@mantine/notifications": {
+    components: ["Notifications","notifications"],
+    loaders: () => Promise.resolve({
+      "Notifications": () => import('virtual:story-ui-component/Notifications'),
+      "notifications": () => import('virtual:story-ui-component/notifications'),
+    }),
+    aliases: {},
+    description: "Render <Notifications /> once, then call notifications.show({ title, message, color })",
+  },
+  "@tabler/icons-react": {
+    components: ["Icon123","Icon12Hours","Icon24Hours","Icon2fa","Icon360","Icon360View","Icon3dCubeSphere","Icon3dCubeSphereOff","Icon3dRotate","IconAB","IconAB2","IconABOff","IconAbacus","IconAbacusOff","IconAbc","IconAccessPoint","IconAccessPointOff","IconAccessible","IconAccessibleFilled","IconAccessibleOff","IconAcorn","IconAcrobatic","IconActivity","IconActivityHeartbeat","IconAd","IconAd2","IconAdCircle","IconAdCircleFilled","IconAdCircleOff","IconAdFilled","IconAdOff","IconAddressBook","IconAddressBookOff","IconAdjustments","IconAdjustmentsAlt","IconAdjustmentsBolt","IconAdjustmentsCancel","IconAdjustmentsCheck","IconAdjustmentsCode","IconAdjustmentsCog","IconAdjustmentsDollar","IconAdjustmentsDown","IconAdjustmentsExclamation","IconAdjustmentsFilled","IconAdjustmentsHeart","IconAdjustmentsHorizontal","IconAdjustmentsHorizontalFilled","IconAdjustmentsMinus","IconAdjustmentsOff","IconAdjustmentsPause","IconAdjustmentsPin","IconAdjustmentsPlus","IconAdjustmentsQuestion","IconAdjustmentsSearch","IconAdjustmentsShare","IconAdjustmentsSpark","IconAdjustmentsStar","IconAdjustmentsUp","IconAdjustmentsX","IconAerialLift","IconAerialLiftFilled","IconAffiliate","IconAffiliateFilled","IconAi","IconAiAgent","IconAiAgents","IconAiGateway","IconAirBalloon","IconAirBalloonFilled","IconAirConditioning","IconAirConditioningDisabled","IconAirTrafficControl","IconAirpodsL","IconAirpodsR","IconAlarm","IconAlarmAverage","IconAlarmFilled","IconAlarmMinus","IconAlarmMinusFilled","IconAlarmOff","IconAlarmPlus","IconAlarmPlusFilled","IconAlarmSmoke","IconAlarmSnooze","IconAlarmSnoozeFilled","IconAlbum","IconAlbumOff","IconAlertCircle","IconAlertCircleFilled","IconAlertCircleOff","IconAlertHexagon","IconAlertHexagonFilled","IconAlertHexagonOff","IconAlertOctagon","IconAlertOctagonFilled","IconAlertSmall","IconAlertSmallOff","IconAlertSquare","IconAlertSquareFilled","IconAlertSquareRounded","IconAlertSquareRoundedFilled","IconAlertSquareRoundedOff","IconAlertTriangle","IconAlertTriangleFilled","IconAlertTriangleOff","IconAlien","IconAlienFilled","IconAlignBoxBottomCenter","IconAlignBoxBottomCenterFilled","IconAlignBoxBottomLeft","IconAlignBoxBottomLeftFilled","IconAlignBoxBottomRight","IconAlignBoxBottomRightFilled","IconAlignBoxCenterBottom","IconAlignBoxCenterMiddle","IconAlignBoxCenterMiddleFilled","IconAlignBoxCenterStretch","IconAlignBoxCenterTop","IconAlignBoxLeftBottom","IconAlignBoxLeftBottomFilled","IconAlignBoxLeftMiddle","IconAlignBoxLeftMiddleFilled","IconAlignBoxLeftStretch","IconAlignBoxLeftTop","IconAlignBoxLeftTopFilled","IconAlignBoxRightBottom","IconAlignBoxRightBottomFilled","IconAlignBoxRightMiddle","IconAlignBoxRightMiddleFilled","IconAlignBoxRightStretch","IconAlignBoxRightTop","IconAlignBoxRightTopFilled","IconAlignBoxTopCenter","IconAlignBoxTopCenterFilled","IconAlignBoxTopLeft","IconAlignBoxTopLeftFilled","IconAlignBoxTopRight","IconAlignBoxTopRightFilled","IconAlignCenter","IconAlignJustified","IconAlignLeft","IconAlignLeft2","IconAlignRight","IconAlignRight2","IconAlpha","IconAlphabetArabic","IconAlphabetBangla","IconAlphabetCyrillic","IconAlphabetGreek","IconAlphabetHebrew","IconAlphabetKorean","IconAlphabetLatin","IconAlphabetPolish","IconAlphabetRunes","IconAlphabetThai","IconAlt","IconAmbulance","IconAmpersand","IconAnalyze","IconAnalyzeFilled","IconAnalyzeOff","IconAnchor","IconAnchorOff","IconAngle","IconAnkh","IconAntenna","IconAntennaBars1","IconAntennaBars2","IconAntennaBars3","IconAntennaBars4","IconAntennaBars5","IconAntennaBarsOff","IconAntennaOff","IconAperture","IconApertureOff","IconApi","IconApiApp","IconApiAppOff","IconApiBook","IconApiOff","IconAppWindow","IconAppWindowBottom","IconAppWindowBottomLeft","IconAppWindowBottomRight","IconAppWindowCenter","IconAppWindowFilled","IconApple","IconAppleFilled","IconApps","IconAppsFilled","IconAppsOff","IconArcheryArrow","IconArchive","IconArchiveFilled","IconArchiveOff","IconArmchair","IconArmchair2","IconArmchair2Off","IconArmchairOff","IconArrowAutofitContent","IconArrowAutofitContentFilled","IconArrowAutofitDown","IconArrowAutofitDownFilled","IconArrowAutofitHeight","IconArrowAutofitHeightFilled","IconArrowAutofitLeft","IconArrowAutofitLeftFilled","IconArrowAutofitRight","IconArrowAutofitRightFilled","IconArrowAutofitUp","IconArrowAutofitUpFilled","IconArrowAutofitWidth","IconArrowAutofitWidthFilled","IconArrowBack","IconArrowBackUp","IconArrowBackUpDouble","IconArrowBadgeDown","IconArrowBadgeDownFilled","IconArrowBadgeLeft","IconArrowBadgeLeftFilled","IconArrowBadgeRight","IconArrowBadgeRightFilled","IconArrowBadgeUp","IconArrowBadgeUpFilled","IconArrowBarBoth","IconArrowBarDown","IconArrowBarLeft","IconArrowBarRight","IconArrowBarToDown","IconArrowBarToDownDashed","IconArrowBarToLeft","IconArrowBarToLeftDashed","IconArrowBarToRight","IconArrowBarToRightDashed","IconArrowBarToUp","IconArrowBarToUpDashed","IconArrowBarUp","IconArrowBearLeft","IconArrowBearLeft2","IconArrowBearRight","IconArrowBearRight2","IconArrowBigDown","IconArrowBigDownFilled","IconArrowBigDownLine","IconArrowBigDownLineFilled","IconArrowBigDownLines","IconArrowBigDownLinesFilled","IconArrowBigLeft","IconArrowBigLeftFilled","IconArrowBigLeftLine","IconArrowBigLeftLineFilled","IconArrowBigLeftLines","IconArrowBigLeftLinesFilled","IconArrowBigRight","IconArrowBigRightFilled","IconArrowBigRightLine","IconArrowBigRightLineFilled","IconArrowBigRightLines","IconArrowBigRightLinesFilled","IconArrowBigUp","IconArrowBigUpFilled","IconArrowBigUpLine","IconArrowBigUpLineFilled","IconArrowBigUpLines","IconArrowBigUpLinesFilled","IconArrowBounce","IconArrowCapsule","IconArrowCurveLeft","IconArrowCurveRight","IconArrowDown","IconArrowDownBar","IconArrowDownCircle","IconArrowDownCircleFilled","IconArrowDownDashed","IconArrowDownFromArc","IconArrowDownLeft","IconArrowDownLeftCircle","IconArrowDownRhombus","IconArrowDownRhombusFilled","IconArrowDownRight","IconArrowDownRightCircle","IconArrowDownSquare","IconArrowDownSquareFilled","IconArrowDownTail","IconArrowDownToArc","IconArrowElbowLeft","IconArrowElbowRight","IconArrowFork","IconArrowForkTriple","IconArrowForward","IconArrowForwardUp","IconArrowForwardUpDouble","IconArrowGuide","IconArrowGuideFilled","IconArrowIteration","IconArrowLeft","IconArrowLeftBar","IconArrowLeftCircle","IconArrowLeftCircleFilled","IconArrowLeftDashed","IconArrowLeftFromArc","IconArrowLeftRhombus","IconArrowLeftRhombusFilled","IconArrowLeftRight","IconArrowLeftSquare","IconArrowLeftSquareFilled","IconArrowLeftTail","IconArrowLeftToArc","IconArrowLoopLeft","IconArrowLoopLeft2","IconArrowLoopRight","IconArrowLoopRight2","IconArrowMerge","IconArrowMergeAltLeft","IconArrowMergeAltRight","IconArrowMergeBoth","IconArrowMergeLeft","IconArrowMergeRight","IconArrowMoveDown","IconArrowMoveDownFilled","IconArrowMoveLeft","IconArrowMoveLeftFilled","IconArrowMoveRight","IconArrowMoveRightFilled","IconArrowMoveUp","IconArrowMoveUpFilled","IconArrowNarrowDown","IconArrowNarrowDownDashed","IconArrowNarrowLeft","IconArrowNarrowLeftDashed","IconArrowNarrowRight","IconArrowNarrowRightDashed","IconArrowNarrowUp","IconArrowNarrowUpDashed","IconArrowRampLeft","IconArrowRampLeft2","IconArrowRampLeft3","IconArrowRampRight","IconArrowRampRight2","IconArrowRampRight3","IconArrowRight","IconArrowRightBar","IconArrowRightCircle","IconArrowRightCircleFilled","IconArrowRightDashed","IconArrowRightFromArc","IconArrowRightRhombus","IconArrowRightRhombusFilled","IconArrowRightSquare","IconArrowRightSquareFilled","IconArrowRightTail","IconArrowRightToArc","IconArrowRotaryFirstLeft","IconArrowRotaryFirstRight","IconArrowRotaryLastLeft","IconArrowRotaryLastRight","IconArrowRotaryLeft","IconArrowRotaryRight","IconArrowRotaryStraight","IconArrowRoundaboutLeft","IconArrowRoundaboutRight","IconArrowSharpTurnLeft","IconArrowSharpTurnRight","IconArrowUp","IconArrowUpBar","IconArrowUpCircle","IconArrowUpCircleFilled","IconArrowUpDashed","IconArrowUpFromArc","IconArrowUpLeft","IconArrowUpLeftCircle","IconArrowUpRhombus","IconArrowUpRhombusFilled","IconArrowUpRight","IconArrowUpRightCircle","IconArrowUpSquare","IconArrowUpSquareFilled","IconArrowUpTail","IconArrowUpToArc","IconArrowWaveLeftDown","IconArrowWaveLeftUp","IconArrowWaveRightDown","IconArrowWaveRightUp","IconArrowZigZag","IconArrowsCross","IconArrowsDiagonal","IconArrowsDiagonal2","IconArrowsDiagonalMinimize","IconArrowsDiagonalMinimize2","IconArrowsDiff","IconArrowsDoubleNeSw","IconArrowsDoubleNwSe","IconArrowsDoubleSeNw","IconArrowsDoubleSwNe","IconArrowsDown","IconArrowsDownUp","IconArrowsExchange","IconArrowsExchange2","IconArrowsHorizontal","IconArrowsJoin","IconArrowsJoin2","IconArrowsLeft","IconArrowsLeftDown","IconArrowsLeftRight","IconArrowsMaximize","IconArrowsMinimize","IconArrowsMove","IconArrowsMoveHorizontal","IconArrowsMoveVertical","IconArrowsRandom","IconArrowsRight","IconArrowsRightDown","IconArrowsRightLeft","IconArrowsShuffle","IconArrowsShuffle2","IconArrowsSort","IconArrowsSplit","IconArrowsSplit2","IconArrowsTransferDown","IconArrowsTransferUp","IconArrowsTransferUpDown","IconArrowsUp","IconArrowsUpDown","IconArrowsUpLeft","IconArrowsUpRight","IconArrowsVertical","IconArtboard","IconArtboardFilled","IconArtboardOff","IconArticle","IconArticleFilled","IconArticleOff","IconAspectRatio","IconAspectRatioFilled","IconAspectRatioOff","IconAssembly","IconAssemblyFilled","IconAssemblyOff","IconAsset","IconAssetFilled","IconAsterisk","IconAsteriskSimple","IconAt","IconAtOff","IconAtom","IconAtom2","IconAtom2Filled","IconAtomOff","IconAugmentedReality","IconAugmentedReality2","IconAugmentedRealityOff","IconAuth2fa","IconAutomaticGearbox","IconAutomaticGearboxFilled","IconAutomation","IconAvocado","IconAward","IconAwardFilled","IconAwardOff","IconAxe","IconAxisX","IconAxisY","IconBabyBottle","IconBabyCarriage","IconBabyCarriageFilled","IconBackground","IconBackhoe","IconBackpack","IconBackpackOff","IconBackslash","IconBackspace","IconBackspaceFilled","IconBadge","IconBadge2k","IconBadge3d","IconBadge3dFilled","IconBadge3k","IconBadge4k","IconBadge4kFilled","IconBadge5k","IconBadge8k","IconBadge8kFilled","IconBadgeAd","IconBadgeAdFilled","IconBadgeAdOff","IconBadgeAr","IconBadgeArFilled","IconBadgeCc","IconBadgeCcFilled","IconBadgeFilled","IconBadgeHd","IconBadgeHdFilled","IconBadgeOff","IconBadgeSd","IconBadgeSdFilled","IconBadgeTm","IconBadgeTmFilled","IconBadgeVo","IconBadgeVoFilled","IconBadgeVr","IconBadgeVrFilled","IconBadgeWc","IconBadgeWcFilled","IconBadges","IconBadgesFilled","IconBadgesOff","IconBaguette","IconBallAmericanFootball","IconBallAmericanFootballOff","IconBallBaseball","IconBallBasketball","IconBallBowling","IconBallBowlingFilled","IconBallFootball","IconBallFootballOff","IconBallTennis","IconBallVolleyball","IconBalloon","IconBalloonFilled","IconBalloonOff","IconBallpen","IconBallpenFilled","IconBallpenOff","IconBan","IconBanana","IconBandage","IconBandageFilled","IconBandageOff","IconBarbell","IconBarbellFilled","IconBarbellOff","IconBarcode","IconBarcodeOff","IconBarrel","IconBarrelOff","IconBarrierBlock","IconBarrierBlockFilled","IconBarrierBlockOff","IconBaseline","IconBaselineDensityLarge","IconBaselineDensityMedium","IconBaselineDensitySmall","IconBasket","IconBasketBolt","IconBasketCancel","IconBasketCheck","IconBasketCode","IconBasketCog","IconBasketDiscount","IconBasketDollar","IconBasketDown","IconBasketExclamation","IconBasketFilled","IconBasketHeart","IconBasketMinus","IconBasketOff","IconBasketPause","IconBasketPin","IconBasketPlus","IconBasketQuestion","IconBasketSearch","IconBasketShare","IconBasketStar","IconBasketUp","IconBasketX","IconBat","IconBath","IconBathFilled","IconBathOff","IconBattery","IconBattery1","IconBattery1Filled","IconBattery2","IconBattery2Filled","IconBattery3","IconBattery3Filled","IconBattery4","IconBattery4Filled","IconBatteryAutomotive","IconBatteryAutomotiveFilled","IconBatteryCharging","IconBatteryCharging2","IconBatteryEco","IconBatteryExclamation","IconBatteryFilled","IconBatteryOff","IconBatterySpark","IconBatteryVertical","IconBatteryVertical1","IconBatteryVertical1Filled","IconBatteryVertical2","IconBatteryVertical2Filled","IconBatteryVertical3","IconBatteryVertical3Filled","IconBatteryVertical4","IconBatteryVertical4Filled","IconBatteryVerticalCharging","IconBatteryVerticalCharging2","IconBatteryVerticalEco","IconBatteryVerticalExclamation","IconBatteryVerticalFilled","IconBatteryVerticalOff","IconBeach","IconBeachOff","IconBed","IconBedFilled","IconBedFlat","IconBedFlatFilled","IconBedOff","IconBeer","IconBeerFilled","IconBeerOff","IconBell","IconBellBolt","IconBellCancel","IconBellCheck","IconBellCode","IconBellCog","IconBellDollar","IconBellDown","IconBellExclamation","IconBellFilled","IconBellHeart","IconBellMinus","IconBellMinusFilled","IconBellOff","IconBellPause","IconBellPin","IconBellPlus","IconBellPlusFilled","IconBellQuestion","IconBellRinging","IconBellRinging2","IconBellRinging2Filled","IconBellRingingFilled","IconBellSchool","IconBellSearch","IconBellShare","IconBellStar","IconBellUp","IconBellX","IconBellXFilled","IconBellZ","IconBellZFilled","IconBeta","IconBible","IconBike","IconBikeFilled","IconBikeOff","IconBinary","IconBinaryOff","IconBinaryTree","IconBinaryTree2","IconBinaryTree2Filled","IconBinaryTreeFilled","IconBinoculars","IconBinocularsFilled","IconBiohazard","IconBiohazardFilled","IconBiohazardOff","IconBlade","IconBladeFilled","IconBleach","IconBleachChlorine","IconBleachNoChlorine","IconBleachOff","IconBlendMode","IconBlender","IconBlenderFilled","IconBlind","IconBlob","IconBlobFilled","IconBlockquote","IconBlocks","IconBluetooth","IconBluetoothConnected","IconBluetoothOff","IconBluetoothX","IconBlur","IconBlurOff","IconBmp","IconBodyScan","IconBold","IconBoldOff","IconBolt","IconBoltFilled","IconBoltOff","IconBomb","IconBombFilled","IconBone","IconBoneFilled","IconBoneOff","IconBong","IconBongFilled","IconBongOff","IconBook","IconBook2","IconBookDownload","IconBookFilled","IconBookOff","IconBookUpload","IconBookmark","IconBookmarkAi","IconBookmarkEdit","IconBookmarkFilled","IconBookmarkMinus","IconBookmarkOff","IconBookmarkPlus","IconBookmarkQuestion","IconBookmarks","IconBookmarksFilled","IconBookmarksOff","IconBooks","IconBooksOff","IconBoom","IconBoomFilled","IconBorderAll","IconBorderBottom","IconBorderBottomPlus","IconBorderCornerIos","IconBorderCornerPill","IconBorderCornerRounded","IconBorderCornerSquare","IconBorderCorners","IconBorderHorizontal","IconBorderInner","IconBorderLeft","IconBorderLeftPlus","IconBorderNone","IconBorderOuter","IconBorderRadius","IconBorderRight","IconBorderRightPlus","IconBorderSides","IconBorderStyle","IconBorderStyle2","IconBorderTop","IconBorderTopPlus","IconBorderVertical","IconBotId","IconBottle","IconBottleFilled","IconBottleOff","IconBounceLeft","IconBounceLeftFilled","IconBounceRight","IconBounceRightFilled","IconBow","IconBowFilled","IconBowl","IconBowlChopsticks","IconBowlChopsticksFilled","IconBowlFilled","IconBowlSpoon","IconBowlSpoonFilled","IconBowling","IconBox","IconBoxAlignBottom","IconBoxAlignBottomFilled","IconBoxAlignBottomLeft","IconBoxAlignBottomLeftFilled","IconBoxAlignBottomRight","IconBoxAlignBottomRightFilled","IconBoxAlignLeft","IconBoxAlignLeftFilled","IconBoxAlignRight","IconBoxAlignRightFilled","IconBoxAlignTop","IconBoxAlignTopFilled","IconBoxAlignTopLeft","IconBoxAlignTopLeftFilled","IconBoxAlignTopRight","IconBoxAlignTopRightFilled","IconBoxMargin","IconBoxModel","IconBoxModel2","IconBoxModel2Off","IconBoxModelOff","IconBoxMultiple","IconBoxMultiple0","IconBoxMultiple1","IconBoxMultiple2","IconBoxMultiple3","IconBoxMultiple4","IconBoxMultiple5","IconBoxMultiple6","IconBoxMultiple7","IconBoxMultiple8","IconBoxMultiple9","IconBoxMultipleFilled","IconBoxOff","IconBoxPadding","IconBoxSeam","IconBraces","IconBracesOff","IconBrackets","IconBracketsAngle","IconBracketsAngleOff","IconBracketsContain","IconBracketsContainEnd","IconBracketsContainStart","IconBracketsOff","IconBraille","IconBrain","IconBrand4chan","IconBrandAbstract","IconBrandAdobe","IconBrandAdobeAfterEffect","IconBrandAdobeAfterEffects","IconBrandAdobeIllustrator","IconBrandAdobeIndesign","IconBrandAdobePhotoshop","IconBrandAdobePremier","IconBrandAdobePremiere","IconBrandAdobeXd","IconBrandAdonisJs","IconBrandAirbnb","IconBrandAirtable","IconBrandAlgolia","IconBrandAlipay","IconBrandAlpineJs","IconBrandAmazon","IconBrandAmd","IconBrandAmie","IconBrandAmigo","IconBrandAmongUs","IconBrandAndroid","IconBrandAngular","IconBrandAngularFilled","IconBrandAnsible","IconBrandAo3","IconBrandAppgallery","IconBrandApple","IconBrandAppleArcade","IconBrandAppleFilled","IconBrandAppleNews","IconBrandApplePodcast","IconBrandAppstore","IconBrandArc","IconBrandAsana","IconBrandAstro","IconBrandAudible","IconBrandAuth0","IconBrandAws","IconBrandAzure","IconBrandBackbone","IconBrandBadoo","IconBrandBaidu","IconBrandBandcamp","IconBrandBandlab","IconBrandBeats","IconBrandBebo","IconBrandBehance","IconBrandBilibili","IconBrandBinance","IconBrandBing","IconBrandBitbucket","IconBrandBitbucketFilled","IconBrandBlackberry","IconBrandBlender","IconBrandBlogger","IconBrandBluesky","IconBrandBooking","IconBrandBootstrap","IconBrandBulma","IconBrandBumble","IconBrandBunpo","IconBrandCSharp","IconBrandCake","IconBrandCakephp","IconBrandCampaignmonitor","IconBrandCarbon","IconBrandCashapp","IconBrandChrome","IconBrandCinema4d","IconBrandCitymapper","IconBrandCloudflare","IconBrandCodecov","IconBrandCodepen","IconBrandCodesandbox","IconBrandCohost","IconBrandCoinbase","IconBrandComedyCentral","IconBrandCoreos","IconBrandCouchdb","IconBrandCouchsurfing","IconBrandCpp","IconBrandCraft","IconBrandCrunchbase","IconBrandCss3","IconBrandCtemplar","IconBrandCucumber","IconBrandCupra","IconBrandCypress","IconBrandD3","IconBrandDatabricks","IconBrandDaysCounter","IconBrandDcos","IconBrandDebian","IconBrandDeezer","IconBrandDeliveroo","IconBrandDeno","IconBrandDenodo","IconBrandDeviantart","IconBrandDigg","IconBrandDingtalk","IconBrandDiscord","IconBrandDiscordFilled","IconBrandDisney","IconBrandDisqus","IconBrandDjango","IconBrandDocker","IconBrandDoctrine","IconBrandDolbyDigital","IconBrandDouban","IconBrandDribbble","IconBrandDribbbleFilled","IconBrandDropbox","IconBrandDrops","IconBrandDrupal","IconBrandEdge","IconBrandElastic","IconBrandElectronicArts","IconBrandEmber","IconBrandEnvato","IconBrandEtsy","IconBrandEvernote","IconBrandFacebook","IconBrandFacebookFilled","IconBrandFeedly","IconBrandFigma","IconBrandFilezilla","IconBrandFinder","IconBrandFirebase","IconBrandFirefox","IconBrandFiverr","IconBrandFlickr","IconBrandFlightradar24","IconBrandFlipboard","IconBrandFlutter","IconBrandFortnite","IconBrandFoursquare","IconBrandFramer","IconBrandFramerMotion","IconBrandFunimation","IconBrandGatsby","IconBrandGit","IconBrandGithub","IconBrandGithubCopilot","IconBrandGithubFilled","IconBrandGitlab","IconBrandGmail","IconBrandGolang","IconBrandGoogle","IconBrandGoogleAnalytics","IconBrandGoogleBigQuery","IconBrandGoogleDrive","IconBrandGoogleFilled","IconBrandGoogleFit","IconBrandGoogleHome","IconBrandGoogleMaps","IconBrandGoogleOne","IconBrandGooglePhotos","IconBrandGooglePlay","IconBrandGooglePodcasts","IconBrandGrammarly","IconBrandGraphql","IconBrandGravatar","IconBrandGrindr","IconBrandGuardian","IconBrandGumroad","IconBrandHackerrank","IconBrandHbo","IconBrandHeadlessui","IconBrandHexo","IconBrandHipchat","IconBrandHtml5","IconBrandInertia","IconBrandInfakt","IconBrandInstagram","IconBrandInstagramFilled","IconBrandIntercom","IconBrandItch","IconBrandJavascript","IconBrandJira","IconBrandJuejin","IconBrandKakaoTalk","IconBrandKakoTalk","IconBrandKbin","IconBrandKick","IconBrandKickFilled","IconBrandKickstarter","IconBrandKotlin","IconBrandLaravel","IconBrandLastfm","IconBrandLeetcode","IconBrandLetterboxd","IconBrandLine","IconBrandLinkedin","IconBrandLinkedinFilled","IconBrandLinktree","IconBrandLinqpad","IconBrandLivewire","IconBrandLoom","IconBrandMailgun","IconBrandMantine","IconBrandMastercard","IconBrandMastodon","IconBrandMatrix","IconBrandMcdonalds","IconBrandMedium","IconBrandMeetup","IconBrandMercedes","IconBrandMessenger","IconBrandMessengerFilled","IconBrandMeta","IconBrandMetabrainz","IconBrandMinecraft","IconBrandMiniprogram","IconBrandMixpanel","IconBrandMonday","IconBrandMongodb","IconBrandMyOppo","IconBrandMysql","IconBrandNationalGeographic","IconBrandNem","IconBrandNetbeans","IconBrandNeteaseMusic","IconBrandNetflix","IconBrandNexo","IconBrandNextcloud","IconBrandNextjs","IconBrandNodejs","IconBrandNordVpn","IconBrandNotion","IconBrandNpm","IconBrandNuxt","IconBrandNytimes","IconBrandOauth","IconBrandOffice","IconBrandOkRu","IconBrandOnedrive","IconBrandOnlyfans","IconBrandOpenSource","IconBrandOpenSourceFilled","IconBrandOpenai","IconBrandOpenvpn","IconBrandOpera","IconBrandOperaFilled","IconBrandPagekit","IconBrandParsinta","IconBrandPatreon","IconBrandPatreonFilled","IconBrandPaypal","IconBrandPaypalFilled","IconBrandPaypay","IconBrandPeanut","IconBrandPepsi","IconBrandPhp","IconBrandPicsart","IconBrandPinterest","IconBrandPinterestFilled","IconBrandPlanetscale","IconBrandPnpm","IconBrandPocket","IconBrandPolymer","IconBrandPowershell","IconBrandPrintables","IconBrandPrisma","IconBrandProducthunt","IconBrandPushbullet","IconBrandPushover","IconBrandPython","IconBrandQq","IconBrandRadixUi","IconBrandReact","IconBrandReactNative","IconBrandReason","IconBrandReddit","IconBrandRedhat","IconBrandRedux","IconBrandRevolut","IconBrandRumble","IconBrandRust","IconBrandSafari","IconBrandSamsungpass","IconBrandSass","IconBrandSentry","IconBrandSharik","IconBrandShazam","IconBrandShopee","IconBrandSignal","IconBrandSignalFilled","IconBrandSketch","IconBrandSketchFilled","IconBrandSkype","IconBrandSlack","IconBrandSnapchat","IconBrandSnapchatFilled","IconBrandSnapseed","IconBrandSnowflake","IconBrandSocketIo","IconBrandSolidjs","IconBrandSoundcloud","IconBrandSpacehey","IconBrandSpeedtest","IconBrandSpotify","IconBrandSpotifyFilled","IconBrandStackoverflow","IconBrandStackshare","IconBrandSteam","IconBrandSteamFilled","IconBrandStellar","IconBrandStocktwits","IconBrandStorj","IconBrandStorybook","IconBrandStorytel","IconBrandStrava","IconBrandStripe","IconBrandStripeFilled","IconBrandSublimeText","IconBrandSugarizer","IconBrandSupabase","IconBrandSuperhuman","IconBrandSupernova","IconBrandSurfshark","IconBrandSvelte","IconBrandSwift","IconBrandSymfony","IconBrandTabler","IconBrandTablerFilled","IconBrandTabnine","IconBrandTailwind","IconBrandTaobao","IconBrandTeams","IconBrandTed","IconBrandTelegram","IconBrandTerraform","IconBrandTesla","IconBrandTether","IconBrandThingiverse","IconBrandThreads","IconBrandThreejs","IconBrandTidal","IconBrandTiktok","IconBrandTiktokFilled","IconBrandTinder","IconBrandTinderFilled","IconBrandTopbuzz","IconBrandTorchain","IconBrandToyota","IconBrandTrello","IconBrandTripadvisor","IconBrandTumblr","IconBrandTumblrFilled","IconBrandTwilio","IconBrandTwitch","IconBrandTwitter","IconBrandTwitterFilled","IconBrandTypescript","IconBrandUber","IconBrandUbuntu","IconBrandUnity","IconBrandUnsplash","IconBrandUpwork","IconBrandValorant","IconBrandVechain","IconBrandVercel","IconBrandVercelFilled","IconBrandVimeo","IconBrandVimeoFilled","IconBrandVinted","IconBrandVisa","IconBrandVisualStudio","IconBrandVite","IconBrandVivaldi","IconBrandVk","IconBrandVlc","IconBrandVolkswagen","IconBrandVsco","IconBrandVscode","IconBrandVue","IconBrandWalmart","IconBrandWaze","IconBrandWebflow","IconBrandWechat","IconBrandWeibo","IconBrandWeiboFilled","IconBrandWhatsapp","IconBrandWhatsappFilled","IconBrandWikipedia","IconBrandWindows","IconBrandWindowsFilled","IconBrandWindy","IconBrandWish","IconBrandWix","IconBrandWordpress","IconBrandX","IconBrandXFilled","IconBrandXamarin","IconBrandXbox","IconBrandXdeep","IconBrandXing","IconBrandYahoo","IconBrandYandex","IconBrandYarn","IconBrandYatse","IconBrandYcombinator","IconBrandYoutube","IconBrandYoutubeFilled","IconBrandYoutubeKids","IconBrandZalando","IconBrandZapier","IconBrandZeit","IconBrandZhihu","IconBrandZoom","IconBrandZulip","IconBrandZwift","IconBread","IconBreadFilled","IconBreadOff","IconBriefcase","IconBriefcase2","IconBriefcase2Filled","IconBriefcaseFilled","IconBriefcaseOff","IconBrightness","IconBrightness2","IconBrightnessAuto","IconBrightnessAutoFilled","IconBrightnessDown","IconBrightnessDownFilled","IconBrightnessFilled","IconBrightnessHalf","IconBrightnessOff","IconBrightnessUp","IconBrightnessUpFilled","IconBroadcast","IconBroadcastOff","IconBrowser","IconBrowserCheck","IconBrowserMaximize","IconBrowserMinus","IconBrowserOff","IconBrowserPlus","IconBrowserShare","IconBrowserX","IconBrush","IconBrushOff","IconBubble","IconBubbleFilled","IconBubbleMinus","IconBubblePlus","IconBubbleTea","IconBubbleTea2","IconBubbleText","IconBubbleTextFilled","IconBubbleX","IconBucket","IconBucketDroplet","IconBucketOff","IconBug","IconBugFilled","IconBugOff","IconBuilding","IconBuildingAirport","IconBuildingArch","IconBuildingBank","IconBuildingBridge","IconBuildingBridge2","IconBuildingBridge2Filled","IconBuildingBroadcastTower","IconBuildingBroadcastTowerFilled","IconBuildingBurjAlArab","IconBuildingCarousel","IconBuildingCastle","IconBuildingChurch","IconBuildingCircus","IconBuildingCog","IconBuildingCommunity","IconBuildingCottage","IconBuildingEiffelTower","IconBuildingEstate","IconBuildingFactory","IconBuildingFactory2","IconBuildingFortress","IconBuildingHospital","IconBuildingLighthouse","IconBuildingMinus","IconBuildingMonument","IconBuildingMosque","IconBuildingOff","IconBuildingPavilion","IconBuildingPlus","IconBuildingSkyscraper","IconBuildingStadium","IconBuildingStore","IconBuildingTunnel","IconBuildingWarehouse","IconBuildingWindTurbine","IconBuildings","IconBulb","IconBulbFilled","IconBulbOff","IconBulldozer","IconBurger","IconBus","IconBusFilled","IconBusOff","IconBusStop","IconBusinessplan","IconButterfly","IconButterflyFilled","IconCactus","IconCactusFilled","IconCactusOff","IconCake","IconCakeOff","IconCakeRoll","IconCalculator","IconCalculatorFilled","IconCalculatorOff","IconCalendar","IconCalendarBolt","IconCalendarCancel","IconCalendarCheck","IconCalendarClock","IconCalendarCode","IconCalendarCog","IconCalendarDollar","IconCalendarDot","IconCalendarDown","IconCalendarDue","IconCalendarEvent","IconCalendarEventFilled","IconCalendarExclamation","IconCalendarFilled","IconCalendarHeart","IconCalendarMinus","IconCalendarMonth","IconCalendarMonthFilled","IconCalendarOff","IconCalendarPause","IconCalendarPin","IconCalendarPlus","IconCalendarQuestion","IconCalendarRepeat","IconCalendarSad","IconCalendarSearch","IconCalendarShare","IconCalendarSmile","IconCalendarStar","IconCalendarStats","IconCalendarTime","IconCalendarUp","IconCalendarUser","IconCalendarWeek","IconCalendarWeekFilled","IconCalendarX","IconCamera","IconCameraAi","IconCameraBitcoin","IconCameraBolt","IconCameraCancel","IconCameraCheck","IconCameraCode","IconCameraCog","IconCameraDollar","IconCameraDown","IconCameraExclamation","IconCameraFilled","IconCameraHeart","IconCameraMinus","IconCameraMoon","IconCameraOff","IconCameraPause","IconCameraPin","IconCameraPlus","IconCameraQuestion","IconCameraRotate","IconCameraSearch","IconCameraSelfie","IconCameraShare","IconCameraSpark","IconCameraStar","IconCameraUp","IconCameraX","IconCamper","IconCampfire","IconCampfireFilled","IconCanary","IconCancel","IconCandle","IconCandleFilled","IconCandy","IconCandyOff","IconCane","IconCannabis","IconCannabisFilled","IconCapProjecting","IconCapRounded","IconCapStraight","IconCapsule","IconCapsuleFilled","IconCapsuleHorizontal","IconCapsuleHorizontalFilled","IconCapture","IconCaptureFilled","IconCaptureOff","IconCar","IconCar4wd","IconCar4wdFilled","IconCarCrane","IconCarCraneFilled","IconCarCrash","IconCarDoor","IconCarFan","IconCarFan1","IconCarFan2","IconCarFan3","IconCarFanAuto","IconCarFanFilled","IconCarFilled","IconCarGarage","IconCarLifter","IconCarOff","IconCarOffRoad","IconCarSuspension","IconCarSuv","IconCarSuvFilled","IconCarTurbine","IconCarambola","IconCarambolaFilled","IconCaravan","IconCaravanFilled","IconCardboards","IconCardboardsFilled","IconCardboardsOff","IconCards","IconCardsFilled","IconCaretDown","IconCaretDownFilled","IconCaretLeft","IconCaretLeftFilled","IconCaretLeftRight","IconCaretLeftRightFilled","IconCaretRight","IconCaretRightFilled","IconCaretUp","IconCaretUpDown","IconCaretUpDownFilled","IconCaretUpFilled","IconCarouselHorizontal","IconCarouselHorizontalFilled","IconCarouselVertical","IconCarouselVerticalFilled","IconCarrot","IconCarrotOff","IconCash","IconCashBanknote","IconCashBanknoteEdit","IconCashBanknoteFilled","IconCashBanknoteHeart","IconCashBanknoteMinus","IconCashBanknoteMove","IconCashBanknoteMoveBack","IconCashBanknoteOff","IconCashBanknotePlus","IconCashCoin","IconCashEdit","IconCashHeart","IconCashMinus","IconCashMove","IconCashMoveBack","IconCashOff","IconCashPlus","IconCashRegister","IconCast","IconCastOff","IconCat","IconCategory","IconCategory2","IconCategoryFilled","IconCategoryMinus","IconCategoryPlus","IconCe","IconCeOff","IconCell","IconCellSignal1","IconCellSignal2","IconCellSignal3","IconCellSignal4","IconCellSignal5","IconCellSignalOff","IconCertificate","IconCertificate2","IconCertificate2Off","IconCertificateOff","IconChairDirector","IconChalkboard","IconChalkboardOff","IconChalkboardTeacher","IconChargingPile","IconChargingPileFilled","IconChartArcs","IconChartArcs3","IconChartArea","IconChartAreaFilled","IconChartAreaLine","IconChartAreaLineFilled","IconChartArrows","IconChartArrowsVertical","IconChartBar","IconChartBarOff","IconChartBarPopular","IconChartBubble","IconChartBubbleFilled","IconChartCandle","IconChartCandleFilled","IconChartCircles","IconChartCohort","IconChartColumn","IconChartCovariate","IconChartDonut","IconChartDonut2","IconChartDonut3","IconChartDonut4","IconChartDonutFilled","IconChartDots","IconChartDots2","IconChartDots2Filled","IconChartDots3","IconChartDots3Filled","IconChartDotsFilled","IconChartFunnel","IconChartFunnelFilled","IconChartGridDots","IconChartGridDotsFilled","IconChartHistogram","IconChartInfographic","IconChartLine","IconChartPie","IconChartPie2","IconChartPie2Filled","IconChartPie3","IconChartPie3Filled","IconChartPie4","IconChartPie4Filled","IconChartPieFilled","IconChartPieOff","IconChartPpf","IconChartRadar","IconChartSankey","IconChartScatter","IconChartScatter3d","IconChartTreemap","IconCheck","IconCheckFilled","IconCheckbox","IconChecklist","IconChecks","IconCheckupList","IconCheese","IconChefHat","IconChefHatFilled","IconChefHatOff","IconCherry","IconCherryFilled","IconChess","IconChessBishop","IconChessBishopFilled","IconChessFilled","IconChessKing","IconChessKingFilled","IconChessKnight","IconChessKnightFilled","IconChessQueen","IconChessQueenFilled","IconChessRook","IconChessRookFilled","IconChevronCompactDown","IconChevronCompactLeft","IconChevronCompactRight","IconChevronCompactUp","IconChevronDown","IconChevronDownFilled","IconChevronDownLeft","IconChevronDownRight","IconChevronLeft","IconChevronLeftPipe","IconChevronRight","IconChevronRightFilled","IconChevronRightPipe","IconChevronUp","IconChevronUpLeft","IconChevronUpRight","IconChevronsDown","IconChevronsDownLeft","IconChevronsDownRight","IconChevronsLeft","IconChevronsRight","IconChevronsUp","IconChevronsUpLeft","IconChevronsUpRight","IconChisel","IconChocolate","IconChristmasBall","IconChristmasTree","IconChristmasTreeFilled","IconChristmasTreeOff","IconCircle","IconCircle0","IconCircle1","IconCircle2","IconCircle3","IconCircle4","IconCircle5","IconCircle6","IconCircle7","IconCircle8","IconCircle9","IconCircleArrowDown","IconCircleArrowDownFilled","IconCircleArrowDownLeft","IconCircleArrowDownLeftFilled","IconCircleArrowDownRight","IconCircleArrowDownRightFilled","IconCircleArrowLeft","IconCircleArrowLeftFilled","IconCircleArrowRight","IconCircleArrowRightFilled","IconCircleArrowUp","IconCircleArrowUpFilled","IconCircleArrowUpLeft","IconCircleArrowUpLeftFilled","IconCircleArrowUpRight","IconCircleArrowUpRightFilled","IconCircleAsterisk","IconCircleCaretDown","IconCircleCaretDownFilled","IconCircleCaretLeft","IconCircleCaretLeftFilled","IconCircleCaretRight","IconCircleCaretRightFilled","IconCircleCaretUp","IconCircleCaretUpFilled","IconCircleCheck","IconCircleCheckFilled","IconCircleChevronDown","IconCircleChevronDownFilled","IconCircleChevronLeft","IconCircleChevronLeftFilled","IconCircleChevronRight","IconCircleChevronRightFilled","IconCircleChevronUp","IconCircleChevronUpFilled","IconCircleChevronsDown","IconCircleChevronsDownFilled","IconCircleChevronsLeft","IconCircleChevronsLeftFilled","IconCircleChevronsRight","IconCircleChevronsRightFilled","IconCircleChevronsUp","IconCircleChevronsUpFilled","IconCircleDashed","IconCircleDashedCheck","IconCircleDashedLetterA","IconCircleDashedLetterB","IconCircleDashedLetterC","IconCircleDashedLetterD","IconCircleDashedLetterE","IconCircleDashedLetterF","IconCircleDashedLetterG","IconCircleDashedLetterH","IconCircleDashedLetterI","IconCircleDashedLetterJ","IconCircleDashedLetterK","IconCircleDashedLetterL","IconCircleDashedLetterLetterV","IconCircleDashedLetterM","IconCircleDashedLetterN","IconCircleDashedLetterO","IconCircleDashedLetterP","IconCircleDashedLetterQ","IconCircleDashedLetterR","IconCircleDashedLetterS","IconCircleDashedLetterT","IconCircleDashedLetterU","IconCircleDashedLetterV","IconCircleDashedLetterW","IconCircleDashedLetterX","IconCircleDashedLetterY","IconCircleDashedLetterZ","IconCircleDashedMinus","IconCircleDashedNumber0","IconCircleDashedNumber1","IconCircleDashedNumber2","IconCircleDashedNumber3","IconCircleDashedNumber4","IconCircleDashedNumber5","IconCircleDashedNumber6","IconCircleDashedNumber7","IconCircleDashedNumber8","IconCircleDashedNumber9","IconCircleDashedPercentage","IconCircleDashedPlus","IconCircleDashedX","IconCircleDot","IconCircleDotFilled","IconCircleDotted","IconCircleDottedLetterA","IconCircleDottedLetterB","IconCircleDottedLetterC","IconCircleDottedLetterD","IconCircleDottedLetterE","IconCircleDottedLetterF","IconCircleDottedLetterG","IconCircleDottedLetterH","IconCircleDottedLetterI","IconCircleDottedLetterJ","IconCircleDottedLetterK","IconCircleDottedLetterL","IconCircleDottedLetterM","IconCircleDottedLetterN","IconCircleDottedLetterO","IconCircleDottedLetterP","IconCircleDottedLetterQ","IconCircleDottedLetterR","IconCircleDottedLetterS","IconCircleDottedLetterT","IconCircleDottedLetterU","IconCircleDottedLetterV","IconCircleDottedLetterW","IconCircleDottedLetterX","IconCircleDottedLetterY","IconCircleDottedLetterZ","IconCircleFilled","IconCircleHalf","IconCircleHalf2","IconCircleHalfVertical","IconCircleKey","IconCircleKeyFilled","IconCircleLetterA","IconCircleLetterAFilled","IconCircleLetterB","IconCircleLetterBFilled","IconCircleLetterC","IconCircleLetterCFilled","IconCircleLetterD","IconCircleLetterDFilled","IconCircleLetterE","IconCircleLetterEFilled","IconCircleLetterF","IconCircleLetterFFilled","IconCircleLetterG","IconCircleLetterGFilled","IconCircleLetterH","IconCircleLetterHFilled","IconCircleLetterI","IconCircleLetterIFilled","IconCircleLetterJ","IconCircleLetterJFilled","IconCircleLetterK","IconCircleLetterKFilled","IconCircleLetterL","IconCircleLetterLFilled","IconCircleLetterM","IconCircleLetterMFilled","IconCircleLetterN","IconCircleLetterNFilled","IconCircleLetterO","IconCircleLetterOFilled","IconCircleLetterP","IconCircleLetterPFilled","IconCircleLetterQ","IconCircleLetterQFilled","IconCircleLetterR","IconCircleLetterRFilled","IconCircleLetterS","IconCircleLetterSFilled","IconCircleLetterT","IconCircleLetterTFilled","IconCircleLetterU","IconCircleLetterUFilled","IconCircleLetterV","IconCircleLetterVFilled","IconCircleLetterW","IconCircleLetterWFilled","IconCircleLetterX","IconCircleLetterXFilled","IconCircleLetterY","IconCircleLetterYFilled","IconCircleLetterZ","IconCircleLetterZFilled","IconCircleMinus","IconCircleMinus2","IconCircleNumber0","IconCircleNumber0Filled","IconCircleNumber1","IconCircleNumber1Filled","IconCircleNumber2","IconCircleNumber2Filled","IconCircleNumber3","IconCircleNumber3Filled","IconCircleNumber4","IconCircleNumber4Filled","IconCircleNumber5","IconCircleNumber5Filled","IconCircleNumber6","IconCircleNumber6Filled","IconCircleNumber7","IconCircleNumber7Filled","IconCircleNumber8","IconCircleNumber8Filled","IconCircleNumber9","IconCircleNumber9Filled","IconCircleOff","IconCircleOpenArrowDown","IconCircleOpenArrowLeft","IconCircleOpenArrowRight","IconCircleOpenArrowUp","IconCirclePercentage","IconCirclePercentageFilled","IconCirclePlus","IconCirclePlus2","IconCirclePlusFilled","IconCirclePlusMinus","IconCircleRectangle","IconCircleRectangleFilled","IconCircleRectangleOff","IconCircleSquare","IconCircleTriangle","IconCircleX","IconCircleXFilled","IconCircles","IconCirclesFilled","IconCirclesRelation","IconCircuitAmmeter","IconCircuitBattery","IconCircuitBulb","IconCircuitCapacitor","IconCircuitCapacitorPolarized","IconCircuitCell","IconCircuitCellPlus","IconCircuitChangeover","IconCircuitDiode","IconCircuitDiodeZener","IconCircuitGround","IconCircuitGroundDigital","IconCircuitInductor","IconCircuitMotor","IconCircuitPushbutton","IconCircuitResistor","IconCircuitSwitchClosed","IconCircuitSwitchOpen","IconCircuitVoltmeter","IconClearAll","IconClearFormatting","IconClef","IconClefStaff","IconClick","IconClickFilled","IconCliffJumping","IconClipboard","IconClipboardCheck","IconClipboardCheckFilled","IconClipboardCopy","IconClipboardData","IconClipboardDataFilled","IconClipboardFilled","IconClipboardHeart","IconClipboardList","IconClipboardListFilled","IconClipboardOff","IconClipboardPlus","IconClipboardPlusFilled","IconClipboardSearch","IconClipboardSmile","IconClipboardSmileFilled","IconClipboardText","IconClipboardTextFilled","IconClipboardTypography","IconClipboardTypographyFilled","IconClipboardX","IconClipboardXFilled","IconClock","IconClock12","IconClock2","IconClock24","IconClockBitcoin","IconClockBolt","IconClockCancel","IconClockCheck","IconClockCode","IconClockCog","IconClockDollar","IconClockDown","IconClockEdit","IconClockExclamation","IconClockFilled","IconClockHeart","IconClockHour1","IconClockHour10","IconClockHour10Filled","IconClockHour11","IconClockHour11Filled","IconClockHour12","IconClockHour12Filled","IconClockHour1Filled","IconClockHour2","IconClockHour2Filled","IconClockHour3","IconClockHour3Filled","IconClockHour4","IconClockHour4Filled","IconClockHour5","IconClockHour5Filled","IconClockHour6","IconClockHour6Filled","IconClockHour7","IconClockHour7Filled","IconClockHour8","IconClockHour8Filled","IconClockHour9","IconClockHour9Filled","IconClockMinus","IconClockOff","IconClockPause","IconClockPin","IconClockPlay","IconClockPlus","IconClockQuestion","IconClockRecord","IconClockSearch","IconClockShare","IconClockShield","IconClockStar","IconClockStop","IconClockUp","IconClockX","IconClothesRack","IconClothesRackOff","IconCloud","IconCloudBitcoin","IconCloudBolt","IconCloudCancel","IconCloudCheck","IconCloudCode","IconCloudCog","IconCloudComputing","IconCloudComputingFilled","IconCloudDataConnection","IconCloudDataConnectionFilled","IconCloudDollar","IconCloudDown","IconCloudDownload","IconCloudExclamation","IconCloudFilled","IconCloudFog","IconCloudHeart","IconCloudLock","IconCloudLockOpen","IconCloudMinus","IconCloudNetwork","IconCloudOff","IconCloudPause","IconCloudPin","IconCloudPlus","IconCloudQuestion","IconCloudRain","IconCloudSearch","IconCloudShare","IconCloudSnow","IconCloudStar","IconCloudStorm","IconCloudUp","IconCloudUpload","IconCloudX","IconClover","IconClover2","IconCloverFilled","IconClubs","IconClubsFilled","IconCode","IconCodeAi","IconCodeAsterisk","IconCodeAsterix","IconCodeCircle","IconCodeCircle2","IconCodeCircle2Filled","IconCodeCircleFilled","IconCodeDots","IconCodeMinus","IconCodeOff","IconCodePlus","IconCodeVariable","IconCodeVariableMinus","IconCodeVariablePlus","IconCodeblock","IconCoffee","IconCoffeeOff","IconCoffin","IconCoin","IconCoinBitcoin","IconCoinBitcoinFilled","IconCoinEuro","IconCoinEuroFilled","IconCoinFilled","IconCoinMonero","IconCoinMoneroFilled","IconCoinOff","IconCoinPound","IconCoinPoundFilled","IconCoinRupee","IconCoinRupeeFilled","IconCoinTaka","IconCoinTakaFilled","IconCoinYen","IconCoinYenFilled","IconCoinYuan","IconCoinYuanFilled","IconCoins","IconColorFilter","IconColorPicker","IconColorPickerOff","IconColorSwatch","IconColorSwatchOff","IconColumnInsertLeft","IconColumnInsertRight","IconColumnRemove","IconColumns","IconColumns1","IconColumns1Filled","IconColumns2","IconColumns2Filled","IconColumns3","IconColumns3Filled","IconColumnsOff","IconComet","IconCommand","IconCommandOff","IconCompass","IconCompassFilled","IconCompassOff","IconComponents","IconComponentsOff","IconCone","IconCone2","IconCone2Filled","IconConeFilled","IconConeOff","IconConePlus","IconConfetti","IconConfettiFilled","IconConfettiOff","IconConfucius","IconCongruentTo","IconConnection","IconContainer","IconContainerFilled","IconContainerOff","IconContract","IconContrast","IconContrast2","IconContrast2Filled","IconContrast2Off","IconContrastFilled","IconContrastOff","IconCooker","IconCookie","IconCookieFilled","IconCookieMan","IconCookieManFilled","IconCookieOff","IconCopy","IconCopyCheck","IconCopyCheckFilled","IconCopyFilled","IconCopyMinus","IconCopyMinusFilled","IconCopyOff","IconCopyPlus","IconCopyPlusFilled","IconCopyX","IconCopyXFilled","IconCopyleft","IconCopyleftFilled","IconCopyleftOff","IconCopyright","IconCopyrightFilled","IconCopyrightOff","IconCornerDownLeft","IconCornerDownLeftDouble","IconCornerDownRight","IconCornerDownRightDouble","IconCornerLeftDown","IconCornerLeftDownDouble","IconCornerLeftUp","IconCornerLeftUpDouble","IconCornerRightDown","IconCornerRightDownDouble","IconCornerRightUp","IconCornerRightUpDouble","IconCornerUpLeft","IconCornerUpLeftDouble","IconCornerUpRight","IconCornerUpRightDouble","IconCpu","IconCpu2","IconCpuOff","IconCrane","IconCraneOff","IconCreativeCommons","IconCreativeCommonsBy","IconCreativeCommonsNc","IconCreativeCommonsNd","IconCreativeCommonsOff","IconCreativeCommonsSa","IconCreativeCommonsZero","IconCreditCard","IconCreditCardFilled","IconCreditCardHand","IconCreditCardOff","IconCreditCardPay","IconCreditCardRefund","IconCredits","IconCricket","IconCrop","IconCrop11","IconCrop11Filled","IconCrop169","IconCrop169Filled","IconCrop32","IconCrop32Filled","IconCrop54","IconCrop54Filled","IconCrop75","IconCrop75Filled","IconCropLandscape","IconCropLandscapeFilled","IconCropPortrait","IconCropPortraitFilled","IconCross","IconCrossFilled","IconCrossOff","IconCrosshair","IconCrown","IconCrownFilled","IconCrownOff","IconCrutches","IconCrutchesOff","IconCrystalBall","IconCsv","IconCube","IconCube3dSphere","IconCube3dSphereOff","IconCubeOff","IconCubePlus","IconCubeSend","IconCubeSpark","IconCubeUnfolded","IconCup","IconCupOff","IconCurling","IconCurlyLoop","IconCurrency","IconCurrencyAfghani","IconCurrencyBahraini","IconCurrencyBaht","IconCurrencyBitcoin","IconCurrencyCent","IconCurrencyDinar","IconCurrencyDirham","IconCurrencyDogecoin","IconCurrencyDollar","IconCurrencyDollarAustralian","IconCurrencyDollarBrunei","IconCurrencyDollarCanadian","IconCurrencyDollarGuyanese","IconCurrencyDollarOff","IconCurrencyDollarSingapore","IconCurrencyDollarZimbabwean","IconCurrencyDong","IconCurrencyDram","IconCurrencyEthereum","IconCurrencyEuro","IconCurrencyEuroOff","IconCurrencyFlorin","IconCurrencyForint","IconCurrencyFrank","IconCurrencyGuarani","IconCurrencyHryvnia","IconCurrencyHusd","IconCurrencyIranianRial","IconCurrencyKip","IconCurrencyKroneCzech","IconCurrencyKroneDanish","IconCurrencyKroneSwedish","IconCurrencyLari","IconCurrencyLeu","IconCurrencyLira","IconCurrencyLitecoin","IconCurrencyLyd","IconCurrencyManat","IconCurrencyMonero","IconCurrencyNaira","IconCurrencyNano","IconCurrencyOff","IconCurrencyPaanga","IconCurrencyPeso","IconCurrencyPound","IconCurrencyPoundOff","IconCurrencyQuetzal","IconCurrencyReal","IconCurrencyRenminbi","IconCurrencyRipple","IconCurrencyRiyal","IconCurrencyRubel","IconCurrencyRuble","IconCurrencyRufiyaa","IconCurrencyRupee","IconCurrencyRupeeNepalese","IconCurrencyShekel","IconCurrencySolana","IconCurrencySom","IconCurrencyTaka","IconCurrencyTenge","IconCurrencyTether","IconCurrencyTugrik","IconCurrencyWon","IconCurrencyXrp","IconCurrencyYen","IconCurrencyYenOff","IconCurrencyYuan","IconCurrencyZcash","IconCurrencyZloty","IconCurrentLocation","IconCurrentLocationFilled","IconCurrentLocationOff","IconCursorOff","IconCursorText","IconCut","IconCylinder","IconCylinderOff","IconCylinderPlus","IconDashboard","IconDashboardFilled","IconDashboardOff","IconDatabase","IconDatabaseCog","IconDatabaseDollar","IconDatabaseEdit","IconDatabaseExclamation","IconDatabaseExport","IconDatabaseFilled","IconDatabaseHeart","IconDatabaseImport","IconDatabaseLeak","IconDatabaseMinus","IconDatabaseOff","IconDatabasePlus","IconDatabaseSearch","IconDatabaseShare","IconDatabaseSmile","IconDatabaseStar","IconDatabaseX","IconDeaf","IconDecimal","IconDeer","IconDelta","IconDental","IconDentalBroken","IconDentalOff","IconDeselect","IconDesk","IconDetails","IconDetailsOff","IconDevice3dCamera","IconDevice3dLens","IconDeviceAirpods","IconDeviceAirpodsCase","IconDeviceAirtag","IconDeviceAnalytics","IconDeviceAudioTape","IconDeviceCameraPhone","IconDeviceCctv","IconDeviceCctvFilled","IconDeviceCctvOff","IconDeviceComputerCamera","IconDeviceComputerCamera2","IconDeviceComputerCameraOff","IconDeviceDesktop","IconDeviceDesktopAnalytics","IconDeviceDesktopBolt","IconDeviceDesktopCancel","IconDeviceDesktopCheck","IconDeviceDesktopCode","IconDeviceDesktopCog","IconDeviceDesktopDollar","IconDeviceDesktopDown","IconDeviceDesktopExclamation","IconDeviceDesktopFilled","IconDeviceDesktopHeart","IconDeviceDesktopMinus","IconDeviceDesktopOff","IconDeviceDesktopPause","IconDeviceDesktopPin","IconDeviceDesktopPlus","IconDeviceDesktopQuestion","IconDeviceDesktopSearch","IconDeviceDesktopShare","IconDeviceDesktopStar","IconDeviceDesktopUp","IconDeviceDesktopX","IconDeviceFloppy","IconDeviceFloppyFilled","IconDeviceGamepad","IconDeviceGamepad2","IconDeviceGamepad2Filled","IconDeviceGamepad3","IconDeviceGamepad3Filled","IconDeviceGamepadFilled","IconDeviceHeartMonitor","IconDeviceHeartMonitorFilled","IconDeviceImac","IconDeviceImacBolt","IconDeviceImacCancel","IconDeviceImacCheck","IconDeviceImacCode","IconDeviceImacCog","IconDeviceImacDollar","IconDeviceImacDown","IconDeviceImacExclamation","IconDeviceImacFilled","IconDeviceImacHeart","IconDeviceImacMinus","IconDeviceImacOff","IconDeviceImacPause","IconDeviceImacPin","IconDeviceImacPlus","IconDeviceImacQuestion","IconDeviceImacSearch","IconDeviceImacShare","IconDeviceImacStar","IconDeviceImacUp","IconDeviceImacX","IconDeviceIpad","IconDeviceIpadBolt","IconDeviceIpadCancel","IconDeviceIpadCheck","IconDeviceIpadCode","IconDeviceIpadCog","IconDeviceIpadDollar","IconDeviceIpadDown","IconDeviceIpadExclamation","IconDeviceIpadFilled","IconDeviceIpadHeart","IconDeviceIpadHorizontal","IconDeviceIpadHorizontalBolt","IconDeviceIpadHorizontalCancel","IconDeviceIpadHorizontalCheck","IconDeviceIpadHorizontalCode","IconDeviceIpadHorizontalCog","IconDeviceIpadHorizontalDollar","IconDeviceIpadHorizontalDown","IconDeviceIpadHorizontalExclamation","IconDeviceIpadHorizontalHeart","IconDeviceIpadHorizontalMinus","IconDeviceIpadHorizontalOff","IconDeviceIpadHorizontalPause","IconDeviceIpadHorizontalPin","IconDeviceIpadHorizontalPlus","IconDeviceIpadHorizontalQuestion","IconDeviceIpadHorizontalSearch","IconDeviceIpadHorizontalShare","IconDeviceIpadHorizontalStar","IconDeviceIpadHorizontalUp","IconDeviceIpadHorizontalX","IconDeviceIpadMinus","IconDeviceIpadOff","IconDeviceIpadPause","IconDeviceIpadPin","IconDeviceIpadPlus","IconDeviceIpadQuestion","IconDeviceIpadSearch","IconDeviceIpadShare","IconDeviceIpadStar","IconDeviceIpadUp","IconDeviceIpadX","IconDeviceLandlinePhone","IconDeviceLaptop","IconDeviceLaptopOff","IconDeviceMobile","IconDeviceMobileBolt","IconDeviceMobileCancel","IconDeviceMobileCharging","IconDeviceMobileCheck","IconDeviceMobileCode","IconDeviceMobileCog","IconDeviceMobileDollar","IconDeviceMobileDown","IconDeviceMobileExclamation","IconDeviceMobileFilled","IconDeviceMobileHeart","IconDeviceMobileMessage","IconDeviceMobileMinus","IconDeviceMobileOff","IconDeviceMobilePause","IconDeviceMobilePin","IconDeviceMobilePlus","IconDeviceMobileQuestion","IconDeviceMobileRotated","IconDeviceMobileSearch","IconDeviceMobileShare","IconDeviceMobileStar","IconDeviceMobileUp","IconDeviceMobileVibration","IconDeviceMobileX","IconDeviceNintendo","IconDeviceNintendoOff","IconDeviceProjector","IconDeviceRemote","IconDeviceRemoteFilled","IconDeviceScreen","IconDeviceSdCard","IconDeviceSim","IconDeviceSim1","IconDeviceSim2","IconDeviceSim3","IconDeviceSpeaker","IconDeviceSpeakerFilled","IconDeviceSpeakerOff","IconDeviceTablet","IconDeviceTabletBolt","IconDeviceTabletCancel","IconDeviceTabletCheck","IconDeviceTabletCode","IconDeviceTabletCog","IconDeviceTabletDollar","IconDeviceTabletDown","IconDeviceTabletExclamation","IconDeviceTabletFilled","IconDeviceTabletHeart","IconDeviceTabletMinus","IconDeviceTabletOff","IconDeviceTabletPause","IconDeviceTabletPin","IconDeviceTabletPlus","IconDeviceTabletQuestion","IconDeviceTabletSearch","IconDeviceTabletShare","IconDeviceTabletStar","IconDeviceTabletUp","IconDeviceTabletX","IconDeviceTv","IconDeviceTvFilled","IconDeviceTvOff","IconDeviceTvOld","IconDeviceTvOldFilled","IconDeviceUnknown","IconDeviceUnknownFilled","IconDeviceUsb","IconDeviceUsbFilled","IconDeviceVisionPro","IconDeviceVisionProFilled","IconDeviceVisionProWifi","IconDeviceWatch","IconDeviceWatchBolt","IconDeviceWatchCancel","IconDeviceWatchCheck","IconDeviceWatchCode","IconDeviceWatchCog","IconDeviceWatchDollar","IconDeviceWatchDown","IconDeviceWatchExclamation","IconDeviceWatchFilled","IconDeviceWatchHeart","IconDeviceWatchMinus","IconDeviceWatchOff","IconDeviceWatchPause","IconDeviceWatchPin","IconDeviceWatchPlus","IconDeviceWatchQuestion","IconDeviceWatchSearch","IconDeviceWatchShare","IconDeviceWatchStar","IconDeviceWatchStats","IconDeviceWatchStats2","IconDeviceWatchUp","IconDeviceWatchX","IconDeviceWorkstation","IconDevices","IconDevices2","IconDevicesBolt","IconDevicesCancel","IconDevicesCheck","IconDevicesCode","IconDevicesCog","IconDevicesDollar","IconDevicesDown","IconDevicesExclamation","IconDevicesHeart","IconDevicesMinus","IconDevicesOff","IconDevicesPause","IconDevicesPc","IconDevicesPcOff","IconDevicesPin","IconDevicesPlus","IconDevicesQuestion","IconDevicesSearch","IconDevicesShare","IconDevicesStar","IconDevicesUp","IconDevicesX","IconDiabolo","IconDiaboloOff","IconDiaboloPlus","IconDialpad","IconDialpadFilled","IconDialpadOff","IconDiamond","IconDiamondFilled","IconDiamondOff","IconDiamonds","IconDiamondsFilled","IconDiaper","IconDice","IconDice1","IconDice1Filled","IconDice2","IconDice2Filled","IconDice3","IconDice3Filled","IconDice4","IconDice4Filled","IconDice5","IconDice5Filled","IconDice6","IconDice6Filled","IconDiceFilled","IconDimensions","IconDirection","IconDirectionArrows","IconDirectionArrowsFilled","IconDirectionHorizontal","IconDirectionSign","IconDirectionSignFilled","IconDirectionSignOff","IconDirections","IconDirectionsFilled","IconDirectionsOff","IconDisabled","IconDisabled2","IconDisabledOff","IconDisc","IconDiscFilled","IconDiscGolf","IconDiscOff","IconDiscount","IconDiscount2","IconDiscount2Off","IconDiscountCheck","IconDiscountCheckFilled","IconDiscountFilled","IconDiscountOff","IconDivide","IconDna","IconDna2","IconDna2Off","IconDnaOff","IconDog","IconDogBowl","IconDoor","IconDoorEnter","IconDoorExit","IconDoorHanger","IconDoorOff","IconDots","IconDotsCircleHorizontal","IconDotsDiagonal","IconDotsDiagonal2","IconDotsFilled","IconDotsVertical","IconDotsVerticalFilled","IconDownload","IconDownloadFilled","IconDownloadOff","IconDragDrop","IconDragDrop2","IconDragon","IconDrone","IconDroneOff","IconDropCircle","IconDropCircleFilled","IconDroplet","IconDropletBolt","IconDropletCancel","IconDropletCheck","IconDropletCode","IconDropletCog","IconDropletDollar","IconDropletDown","IconDropletExclamation","IconDropletFilled","IconDropletHalf","IconDropletHalf2","IconDropletHalf2Filled","IconDropletHalfFilled","IconDropletHeart","IconDropletMinus","IconDropletOff","IconDropletPause","IconDropletPin","IconDropletPlus","IconDropletQuestion","IconDropletSearch","IconDropletShare","IconDropletStar","IconDropletUp","IconDropletX","IconDroplets","IconDropletsFilled","IconDualScreen","IconDualScreenFilled","IconDumbbell","IconDumpling","IconDumplingFilled","IconDuplicate","IconEPassport","IconEar","IconEarOff","IconEarScan","IconEarphoneBluetooth","IconEaseIn","IconEaseInControlPoint","IconEaseInControlPointFilled","IconEaseInOut","IconEaseInOutControlPoints","IconEaseInOutControlPointsFilled","IconEaseOut","IconEaseOutControlPoint","IconEaseOutControlPointFilled","IconEdit","IconEditBulk","IconEditCircle","IconEditCircleOff","IconEditFilled","IconEditOff","IconEgg","IconEggCracked","IconEggCrackedFilled","IconEggFilled","IconEggFried","IconEggFriedFilled","IconEggOff","IconEggs","IconElevator","IconElevatorFilled","IconElevatorOff","IconEmailStamp","IconEmergencyBed","IconEmpathize","IconEmpathizeOff","IconEmphasis","IconEngine","IconEngineFilled","IconEngineOff","IconEqual","IconEqualDouble","IconEqualNot","IconEraser","IconEraserOff","IconError404","IconError404Off","IconEscalator","IconEscalatorDown","IconEscalatorDownFilled","IconEscalatorFilled","IconEscalatorUp","IconEscalatorUpFilled","IconExchange","IconExchangeFilled","IconExchangeOff","IconExclamationCircle","IconExclamationCircleFilled","IconExclamationMark","IconExclamationMarkOff","IconExerciseBall","IconExplicit","IconExplicitFilled","IconExplicitOff","IconExposure","IconExposure0","IconExposureFilled","IconExposureMinus1","IconExposureMinus2","IconExposureOff","IconExposurePlus1","IconExposurePlus2","IconExternalLink","IconExternalLinkFilled","IconExternalLinkOff","IconEye","IconEyeBitcoin","IconEyeBolt","IconEyeCancel","IconEyeCheck","IconEyeClosed","IconEyeCode","IconEyeCog","IconEyeDiscount","IconEyeDollar","IconEyeDotted","IconEyeDown","IconEyeEdit","IconEyeExclamation","IconEyeFilled","IconEyeHeart","IconEyeMinus","IconEyeOff","IconEyePause","IconEyePin","IconEyePlus","IconEyeQuestion","IconEyeSearch","IconEyeShare","IconEyeSpark","IconEyeStar","IconEyeTable","IconEyeTableFilled","IconEyeUp","IconEyeX","IconEyeglass","IconEyeglass2","IconEyeglass2Filled","IconEyeglassFilled","IconEyeglassOff","IconFaceId","IconFaceIdError","IconFaceMask","IconFaceMaskFilled","IconFaceMaskOff","IconFall","IconFavicon","IconFaviconFilled","IconFeather","IconFeatherFilled","IconFeatherOff","IconFence","IconFenceFilled","IconFenceOff","IconFerry","IconFerryFilled","IconFidgetSpinner","IconFidgetSpinnerFilled","IconFile","IconFile3d","IconFileAi","IconFileAlert","IconFileAnalytics","IconFileAnalyticsFilled","IconFileArrowLeft","IconFileArrowRight","IconFileBarcode","IconFileBitcoin","IconFileBroken","IconFileCertificate","IconFileChart","IconFileCheck","IconFileCheckFilled","IconFileCode","IconFileCode2","IconFileCode2Filled","IconFileCodeFilled","IconFileCv","IconFileCvFilled","IconFileDatabase","IconFileDelta","IconFileDeltaFilled","IconFileDescription","IconFileDescriptionFilled","IconFileDiff","IconFileDiffFilled","IconFileDigit","IconFileDigitFilled","IconFileDislike","IconFileDollar","IconFileDollarFilled","IconFileDots","IconFileDotsFilled","IconFileDownload","IconFileDownloadFilled","IconFileEuro","IconFileEuroFilled","IconFileExcel","IconFileExport","IconFileFilled","IconFileFunction","IconFileFunctionFilled","IconFileHorizontal","IconFileHorizontalFilled","IconFileImport","IconFileInfinity","IconFileInfo","IconFileInfoFilled","IconFileInvoice","IconFileInvoiceFilled","IconFileIsr","IconFileLambda","IconFileLambdaFilled","IconFileLike","IconFileMinus","IconFileMinusFilled","IconFileMusic","IconFileMusicFilled","IconFileNeutral","IconFileNeutralFilled","IconFileOff","IconFileOrientation","IconFilePencil","IconFilePencilFilled","IconFilePercent","IconFilePercentFilled","IconFilePhone","IconFilePhoneFilled","IconFilePlus","IconFilePower","IconFilePowerFilled","IconFileReport","IconFileRss","IconFileRssFilled","IconFileSad","IconFileSadFilled","IconFileScissors","IconFileScissorsFilled","IconFileSearch","IconFileSettings","IconFileSettingsFilled","IconFileShredder","IconFileSignal","IconFileSignalFilled","IconFileSmile","IconFileSmileFilled","IconFileSpark","IconFileSpreadsheet","IconFileStack","IconFileStar","IconFileStarFilled","IconFileSymlink","IconFileText","IconFileTextAi","IconFileTextFilled","IconFileTextShield","IconFileTextSpark","IconFileTime","IconFileTimeFilled","IconFileTypeBmp","IconFileTypeCss","IconFileTypeCsv","IconFileTypeDoc","IconFileTypeDocx","IconFileTypeHtml","IconFileTypeJpg","IconFileTypeJs","IconFileTypeJsx","IconFileTypePdf","IconFileTypePhp","IconFileTypePng","IconFileTypePpt","IconFileTypeRs","IconFileTypeSql","IconFileTypeSvg","IconFileTypeTs","IconFileTypeTsx","IconFileTypeTxt","IconFileTypeVue","IconFileTypeXls","IconFileTypeXml","IconFileTypeZip","IconFileTypography","IconFileTypographyFilled","IconFileUnknown","IconFileUnknownFilled","IconFileUpload","IconFileUploadFilled","IconFileVector","IconFileVectorFilled","IconFileWord","IconFileX","IconFileXFilled","IconFileZip","IconFiles","IconFilesFilled","IconFilesOff","IconFilter","IconFilter2","IconFilter2Bolt","IconFilter2Cancel","IconFilter2Check","IconFilter2Code","IconFilter2Cog","IconFilter2Discount","IconFilter2Dollar","IconFilter2Down","IconFilter2Edit","IconFilter2Exclamation","IconFilter2Minus","IconFilter2Pause","IconFilter2Pin","IconFilter2Plus","IconFilter2Question","IconFilter2Search","IconFilter2Share","IconFilter2Spark","IconFilter2Up","IconFilter2X","IconFilterBolt","IconFilterCancel","IconFilterCheck","IconFilterCode","IconFilterCog","IconFilterDiscount","IconFilterDollar","IconFilterDown","IconFilterEdit","IconFilterExclamation","IconFilterFilled","IconFilterHeart","IconFilterMinus","IconFilterOff","IconFilterPause","IconFilterPin","IconFilterPlus","IconFilterQuestion","IconFilterSearch","IconFilterShare","IconFilterSpark","IconFilterStar","IconFilterUp","IconFilterX","IconFilters","IconFiltersFilled","IconFingerprint","IconFingerprintOff","IconFingerprintScan","IconFireExtinguisher","IconFireHydrant","IconFireHydrantOff","IconFiretruck","IconFirewallCheck","IconFirewallFlame","IconFirstAidKit","IconFirstAidKitOff","IconFish","IconFishBone","IconFishBoneFilled","IconFishChristianity","IconFishHook","IconFishHookOff","IconFishOff","IconFlag","IconFlag2","IconFlag2Filled","IconFlag2Off","IconFlag3","IconFlag3Filled","IconFlagBitcoin","IconFlagBolt","IconFlagCancel","IconFlagCheck","IconFlagCode","IconFlagCog","IconFlagDiscount","IconFlagDollar","IconFlagDown","IconFlagExclamation","IconFlagFilled","IconFlagHeart","IconFlagMinus","IconFlagOff","IconFlagPause","IconFlagPin","IconFlagPlus","IconFlagQuestion","IconFlagSearch","IconFlagShare","IconFlagSpark","IconFlagStar","IconFlagUp","IconFlagX","IconFlame","IconFlameFilled","IconFlameOff","IconFlare","IconFlareFilled","IconFlask","IconFlask2","IconFlask2Filled","IconFlask2Off","IconFlaskFilled","IconFlaskOff","IconFlipFlops","IconFlipHorizontal","IconFlipVertical","IconFloatCenter","IconFloatLeft","IconFloatNone","IconFloatRight","IconFlood","IconFlower","IconFlowerFilled","IconFlowerOff","IconFocus","IconFocus2","IconFocusAuto","IconFocusCentered","IconFold","IconFoldDown","IconFoldUp","IconFolder","IconFolderAi","IconFolderBolt","IconFolderCancel","IconFolderCheck","IconFolderCode","IconFolderCog","IconFolderDollar","IconFolderDown","IconFolderExclamation","IconFolderFilled","IconFolderHeart","IconFolderMinus","IconFolderOff","IconFolderOpen","IconFolderOpenFilled","IconFolderPause","IconFolderPin","IconFolderPlus","IconFolderQuestion","IconFolderRoot","IconFolderSearch","IconFolderShare","IconFolderSparkle","IconFolderStar","IconFolderStats","IconFolderSymlink","IconFolderUp","IconFolderUser","IconFolderX","IconFolders","IconFoldersFilled","IconFoldersOff","IconFoodsteps","IconFootsteps","IconForbid","IconForbid2","IconForbid2Filled","IconForbidFilled","IconForklift","IconForms","IconFountain","IconFountainFilled","IconFountainOff","IconFrame","IconFrameOff","IconFreeRights","IconFreezeColumn","IconFreezeRow","IconFreezeRowColumn","IconFridge","IconFridgeOff","IconFriends","IconFriendsOff","IconFrustum","IconFrustumOff","IconFrustumPlus","IconFunction","IconFunctionFilled","IconFunctionOff","IconGalaxy","IconGardenCart","IconGardenCartFilled","IconGardenCartOff","IconGasStation","IconGasStationFilled","IconGasStationOff","IconGauge","IconGaugeFilled","IconGaugeOff","IconGavel","IconGenderAgender","IconGenderAndrogyne","IconGenderBigender","IconGenderDemiboy","IconGenderDemigirl","IconGenderEpicene","IconGenderFemale","IconGenderFemme","IconGenderGenderfluid","IconGenderGenderless","IconGenderGenderqueer","IconGenderHermaphrodite","IconGenderIntergender","IconGenderMale","IconGenderNeutrois","IconGenderThird","IconGenderTransgender","IconGenderTrasvesti","IconGenderTravesti","IconGeometry","IconGhost","IconGhost2","IconGhost2Filled","IconGhost3","IconGhost3Filled","IconGhostFilled","IconGhostOff","IconGif","IconGift","IconGiftCard","IconGiftCardFilled","IconGiftFilled","IconGiftOff","IconGitBranch","IconGitBranchCheck","IconGitBranchDeleted","IconGitBranchX","IconGitCherryPick","IconGitCommit","IconGitCompare","IconGitFork","IconGitMerge","IconGitMergeQueue","IconGitPullRequest","IconGitPullRequestClosed","IconGitPullRequestConflict","IconGitPullRequestDraft","IconGitPullRequestLocked","IconGitPullRequestUnlisted","IconGizmo","IconGlass","IconGlassChampagne","IconGlassCocktail","IconGlassFilled","IconGlassFull","IconGlassFullFilled","IconGlassGin","IconGlassOff","IconGlobe","IconGlobeFilled","IconGlobeOff","IconGoGame","IconGolf","IconGolfFilled","IconGolfOff","IconGps","IconGpsFilled","IconGpu","IconGpu2","IconGradienter","IconGrain","IconGrape","IconGraph","IconGraphFilled","IconGraphOff","IconGrave","IconGrave2","IconGrid3x3","IconGrid4x4","IconGridDots","IconGridGoldenratio","IconGridPattern","IconGridPatternFilled","IconGridScan","IconGrill","IconGrillFork","IconGrillOff","IconGrillSpatula","IconGripHorizontal","IconGripVertical","IconGrowth","IconGuitarPick","IconGuitarPickFilled","IconGymnastics","IconH1","IconH2","IconH3","IconH4","IconH5","IconH6","IconHammer","IconHammerDrill","IconHammerOff","IconHandClick","IconHandClickOff","IconHandFinger","IconHandFingerDown","IconHandFingerLeft","IconHandFingerOff","IconHandFingerRight","IconHandGrab","IconHandLittleFinger","IconHandLoveYou","IconHandMiddleFinger","IconHandMove","IconHandOff","IconHandRingFinger","IconHandRock","IconHandSanitizer","IconHandStop","IconHandThreeFingers","IconHandTwoFingers","IconHanger","IconHanger2","IconHanger2Filled","IconHangerOff","IconHash","IconHaze","IconHazeMoon","IconHdr","IconHeading","IconHeadingOff","IconHeadphones","IconHeadphonesFilled","IconHeadphonesOff","IconHeadset","IconHeadsetFilled","IconHeadsetOff","IconHealthRecognition","IconHeart","IconHeartBitcoin","IconHeartBolt","IconHeartBroken","IconHeartBrokenFilled","IconHeartCancel","IconHeartCheck","IconHeartCode","IconHeartCog","IconHeartDiscount","IconHeartDollar","IconHeartDown","IconHeartExclamation","IconHeartFilled","IconHeartHandshake","IconHeartMinus","IconHeartOff","IconHeartPause","IconHeartPin","IconHeartPlus","IconHeartQuestion","IconHeartRateMonitor","IconHeartSearch","IconHeartShare","IconHeartSpark","IconHeartStar","IconHeartUp","IconHeartX","IconHeartbeat","IconHearts","IconHeartsOff","IconHelicopter","IconHelicopterFilled","IconHelicopterLanding","IconHelicopterLandingFilled","IconHelmet","IconHelmetOff","IconHelp","IconHelpCircle","IconHelpCircleFilled","IconHelpFilled","IconHelpHexagon","IconHelpHexagonFilled","IconHelpOctagon","IconHelpOctagonFilled","IconHelpOff","IconHelpSmall","IconHelpSquare","IconHelpSquareFilled","IconHelpSquareRounded","IconHelpSquareRoundedFilled","IconHelpTriangle","IconHelpTriangleFilled","IconHemisphere","IconHemisphereOff","IconHemispherePlus","IconHexagon","IconHexagon0","IconHexagon1","IconHexagon2","IconHexagon3","IconHexagon3d","IconHexagon4","IconHexagon5","IconHexagon6","IconHexagon7","IconHexagon8","IconHexagon9","IconHexagonAsterisk","IconHexagonFilled","IconHexagonLetterA","IconHexagonLetterAFilled","IconHexagonLetterB","IconHexagonLetterBFilled","IconHexagonLetterC","IconHexagonLetterCFilled","IconHexagonLetterD","IconHexagonLetterDFilled","IconHexagonLetterE","IconHexagonLetterEFilled","IconHexagonLetterF","IconHexagonLetterFFilled","IconHexagonLetterG","IconHexagonLetterGFilled","IconHexagonLetterH","IconHexagonLetterHFilled","IconHexagonLetterI","IconHexagonLetterIFilled","IconHexagonLetterJ","IconHexagonLetterJFilled","IconHexagonLetterK","IconHexagonLetterKFilled","IconHexagonLetterL","IconHexagonLetterLFilled","IconHexagonLetterM","IconHexagonLetterMFilled","IconHexagonLetterN","IconHexagonLetterNFilled","IconHexagonLetterO","IconHexagonLetterOFilled","IconHexagonLetterP","IconHexagonLetterPFilled","IconHexagonLetterQ","IconHexagonLetterQFilled","IconHexagonLetterR","IconHexagonLetterRFilled","IconHexagonLetterS","IconHexagonLetterSFilled","IconHexagonLetterT","IconHexagonLetterTFilled","IconHexagonLetterU","IconHexagonLetterUFilled","IconHexagonLetterV","IconHexagonLetterVFilled","IconHexagonLetterW","IconHexagonLetterWFilled","IconHexagonLetterX","IconHexagonLetterXFilled","IconHexagonLetterY","IconHexagonLetterYFilled","IconHexagonLetterZ","IconHexagonLetterZFilled","IconHexagonMinus","IconHexagonMinus2","IconHexagonMinusFilled","IconHexagonNumber0","IconHexagonNumber0Filled","IconHexagonNumber1","IconHexagonNumber1Filled","IconHexagonNumber2","IconHexagonNumber2Filled","IconHexagonNumber3","IconHexagonNumber3Filled","IconHexagonNumber4","IconHexagonNumber4Filled","IconHexagonNumber5","IconHexagonNumber5Filled","IconHexagonNumber6","IconHexagonNumber6Filled","IconHexagonNumber7","IconHexagonNumber7Filled","IconHexagonNumber8","IconHexagonNumber8Filled","IconHexagonNumber9","IconHexagonNumber9Filled","IconHexagonOff","IconHexagonPlus","IconHexagonPlus2","IconHexagonPlusFilled","IconHexagonalPrism","IconHexagonalPrismOff","IconHexagonalPrismPlus","IconHexagonalPyramid","IconHexagonalPyramidOff","IconHexagonalPyramidPlus","IconHexagons","IconHexagonsOff","IconHierarchy","IconHierarchy2","IconHierarchy3","IconHierarchyOff","IconHighlight","IconHighlightOff","IconHistory","IconHistoryOff","IconHistoryToggle","IconHome","IconHome2","IconHome2Filled","IconHomeBitcoin","IconHomeBolt","IconHomeCancel","IconHomeCheck","IconHomeCog","IconHomeDollar","IconHomeDot","IconHomeDown","IconHomeEco","IconHomeEdit","IconHomeExclamation","IconHomeFilled","IconHomeHand","IconHomeHeart","IconHomeInfinity","IconHomeLink","IconHomeLock","IconHomeMinus","IconHomeMove","IconHomeOff","IconHomePlus","IconHomeQuestion","IconHomeRibbon","IconHomeSearch","IconHomeShare","IconHomeShield","IconHomeSignal","IconHomeSpark","IconHomeStar","IconHomeStats","IconHomeUp","IconHomeX","IconHorse","IconHorseToy","IconHorseshoe","IconHospital","IconHospitalCircle","IconHospitalCircleFilled","IconHotelService","IconHourglass","IconHourglassEmpty","IconHourglassFilled","IconHourglassHigh","IconHourglassLow","IconHourglassOff","IconHours12","IconHours24","IconHtml","IconHttpConnect","IconHttpConnectOff","IconHttpDelete","IconHttpDeleteOff","IconHttpGet","IconHttpGetOff","IconHttpHead","IconHttpHeadOff","IconHttpOptions","IconHttpOptionsOff","IconHttpPatch","IconHttpPatchOff","IconHttpPost","IconHttpPostOff","IconHttpPut","IconHttpPutOff","IconHttpQue","IconHttpQueOff","IconHttpTrace","IconHttpTraceOff","IconHulaHoop","IconIceCream","IconIceCream2","IconIceCreamOff","IconIceSkating","IconIceberg","IconIcons","IconIconsFilled","IconIconsOff","IconIcosahedron","IconId","IconIdBadge","IconIdBadge2","IconIdBadgeOff","IconIdFilled","IconIdOff","IconIkosaedr","IconImageGeneration","IconImageInPicture","IconInbox","IconInboxOff","IconIndentDecrease","IconIndentIncrease","IconInfinity","IconInfinity2","IconInfinityOff","IconInfoCircle","IconInfoCircleFilled","IconInfoHexagon","IconInfoHexagonFilled","IconInfoOctagon","IconInfoOctagonFilled","IconInfoSmall","IconInfoSquare","IconInfoSquareFilled","IconInfoSquareRounded","IconInfoSquareRoundedFilled","IconInfoTriangle","IconInfoTriangleFilled","IconInnerShadowBottom","IconInnerShadowBottomFilled","IconInnerShadowBottomLeft","IconInnerShadowBottomLeftFilled","IconInnerShadowBottomRight","IconInnerShadowBottomRightFilled","IconInnerShadowLeft","IconInnerShadowLeftFilled","IconInnerShadowRight","IconInnerShadowRightFilled","IconInnerShadowTop","IconInnerShadowTopFilled","IconInnerShadowTopLeft","IconInnerShadowTopLeftFilled","IconInnerShadowTopRight","IconInnerShadowTopRightFilled","IconInputAi","IconInputCheck","IconInputSearch","IconInputSpark","IconInputX","IconInvoice","IconIroning","IconIroning1","IconIroning1Filled","IconIroning2","IconIroning2Filled","IconIroning3","IconIroning3Filled","IconIroningFilled","IconIroningOff","IconIroningSteam","IconIroningSteamFilled","IconIroningSteamOff","IconIrregularPolyhedron","IconIrregularPolyhedronOff","IconIrregularPolyhedronPlus","IconItalic","IconItalicOff","IconJacket","IconJetpack","IconJetpackFilled","IconJetski","IconJewishStar","IconJewishStarFilled","IconJoinBevel","IconJoinRound","IconJoinStraight","IconJoker","IconJpg","IconJson","IconJumpRope","IconKarate","IconKayak","IconKering","IconKerning","IconKey","IconKeyFilled","IconKeyOff","IconKeyboard","IconKeyboardFilled","IconKeyboardHide","IconKeyboardOff","IconKeyboardShow","IconKeyframe","IconKeyframeAlignCenter","IconKeyframeAlignCenterFilled","IconKeyframeAlignHorizontal","IconKeyframeAlignHorizontalFilled","IconKeyframeAlignVertical","IconKeyframeAlignVerticalFilled","IconKeyframeFilled","IconKeyframes","IconKeyframesFilled","IconLabel","IconLabelFilled","IconLabelImportant","IconLabelImportantFilled","IconLabelOff","IconLadder","IconLadderOff","IconLadle","IconLambda","IconLamp","IconLamp2","IconLampOff","IconLane","IconLanguage","IconLanguageHiragana","IconLanguageKatakana","IconLanguageOff","IconLasso","IconLassoOff","IconLassoPolygon","IconLassoPolygonFilled","IconLaurelWreath","IconLaurelWreath1","IconLaurelWreath1Filled","IconLaurelWreath2","IconLaurelWreath2Filled","IconLaurelWreath3","IconLaurelWreath3Filled","IconLaurelWreathFilled","IconLawnMower","IconLayersDifference","IconLayersIntersect","IconLayersIntersect2","IconLayersLinked","IconLayersOff","IconLayersSelected","IconLayersSelectedBottom","IconLayersSubtract","IconLayersUnion","IconLayout","IconLayout2","IconLayout2Filled","IconLayoutAlignBottom","IconLayoutAlignBottomFilled","IconLayoutAlignCenter","IconLayoutAlignCenterFilled","IconLayoutAlignLeft","IconLayoutAlignLeftFilled","IconLayoutAlignMiddle","IconLayoutAlignMiddleFilled","IconLayoutAlignRight","IconLayoutAlignRightFilled","IconLayoutAlignTop","IconLayoutAlignTopFilled","IconLayoutBoard","IconLayoutBoardFilled","IconLayoutBoardSplit","IconLayoutBoardSplitFilled","IconLayoutBottombar","IconLayoutBottombarCollapse","IconLayoutBottombarCollapseFilled","IconLayoutBottombarExpand","IconLayoutBottombarExpandFilled","IconLayoutBottombarFilled","IconLayoutBottombarInactive","IconLayoutCards","IconLayoutCardsFilled","IconLayoutCollage","IconLayoutColumns","IconLayoutDashboard","IconLayoutDashboardFilled","IconLayoutDistributeHorizontal","IconLayoutDistributeHorizontalFilled","IconLayoutDistributeVertical","IconLayoutDistributeVerticalFilled","IconLayoutFilled","IconLayoutGrid","IconLayoutGridAdd","IconLayoutGridFilled","IconLayoutGridRemove","IconLayoutKanban","IconLayoutKanbanFilled","IconLayoutList","IconLayoutListFilled","IconLayoutNavbar","IconLayoutNavbarCollapse","IconLayoutNavbarCollapseFilled","IconLayoutNavbarExpand","IconLayoutNavbarExpandFilled","IconLayoutNavbarFilled","IconLayoutNavbarInactive","IconLayoutOff","IconLayoutRows","IconLayoutSidebar","IconLayoutSidebarFilled","IconLayoutSidebarInactive","IconLayoutSidebarLeftCollapse","IconLayoutSidebarLeftCollapseFilled","IconLayoutSidebarLeftExpand","IconLayoutSidebarLeftExpandFilled","IconLayoutSidebarRight","IconLayoutSidebarRightCollapse","IconLayoutSidebarRightCollapseFilled","IconLayoutSidebarRightExpand","IconLayoutSidebarRightExpandFilled","IconLayoutSidebarRightFilled","IconLayoutSidebarRightInactive","IconLeaf","IconLeaf2","IconLeafFilled","IconLeafMaple","IconLeafOff","IconLego","IconLegoFilled","IconLegoOff","IconLemon","IconLemon2","IconLemon2Filled","IconLetterA","IconLetterASmall","IconLetterB","IconLetterBSmall","IconLetterC","IconLetterCSmall","IconLetterCase","IconLetterCaseLower","IconLetterCaseToggle","IconLetterCaseUpper","IconLetterD","IconLetterDSmall","IconLetterE","IconLetterESmall","IconLetterF","IconLetterFSmall","IconLetterG","IconLetterGSmall","IconLetterH","IconLetterHSmall","IconLetterI","IconLetterISmall","IconLetterJ","IconLetterJSmall","IconLetterK","IconLetterKSmall","IconLetterL","IconLetterLSmall","IconLetterM","IconLetterMSmall","IconLetterN","IconLetterNSmall","IconLetterO","IconLetterOSmall","IconLetterP","IconLetterPSmall","IconLetterQ","IconLetterQSmall","IconLetterR","IconLetterRSmall","IconLetterS","IconLetterSSmall","IconLetterSpacing","IconLetterT","IconLetterTSmall","IconLetterU","IconLetterUSmall","IconLetterV","IconLetterVSmall","IconLetterW","IconLetterWSmall","IconLetterX","IconLetterXSmall","IconLetterY","IconLetterYSmall","IconLetterZ","IconLetterZSmall","IconLibrary","IconLibraryFilled","IconLibraryMinus","IconLibraryPhoto","IconLibraryPlus","IconLibraryPlusFilled","IconLicense","IconLicenseOff","IconLifebuoy","IconLifebuoyFilled","IconLifebuoyOff","IconLighter","IconLine","IconLineDashed","IconLineDotted","IconLineHeight","IconLineScan","IconLink","IconLinkFilled","IconLinkMinus","IconLinkOff","IconLinkPlus","IconList","IconListCheck","IconListCheckFilled","IconListDetails","IconListDetailsFilled","IconListFilled","IconListLetters","IconListNumbers","IconListSearch","IconListTree","IconLivePhoto","IconLivePhotoFilled","IconLivePhotoOff","IconLiveView","IconLiveViewFilled","IconLoadBalancer","IconLoader","IconLoader2","IconLoader3","IconLoader4","IconLoaderQuarter","IconLocation","IconLocationBolt","IconLocationBroken","IconLocationCancel","IconLocationCheck","IconLocationCode","IconLocationCog","IconLocationDiscount","IconLocationDollar","IconLocationDown","IconLocationExclamation","IconLocationFilled","IconLocationHeart","IconLocationMinus","IconLocationOff","IconLocationPause","IconLocationPin","IconLocationPlus","IconLocationQuestion","IconLocationSearch","IconLocationShare","IconLocationStar","IconLocationUp","IconLocationX","IconLock","IconLockAccess","IconLockAccessOff","IconLockBitcoin","IconLockBolt","IconLockCancel","IconLockCheck","IconLockCode","IconLockCog","IconLockDollar","IconLockDown","IconLockExclamation","IconLockFilled","IconLockHeart","IconLockMinus","IconLockOff","IconLockOpen","IconLockOpen2","IconLockOpenOff","IconLockPassword","IconLockPause","IconLockPin","IconLockPlus","IconLockQuestion","IconLockSearch","IconLockShare","IconLockSquare","IconLockSquareRounded","IconLockSquareRoundedFilled","IconLockStar","IconLockUp","IconLockX","IconLogicAnd","IconLogicBuffer","IconLogicNand","IconLogicNor","IconLogicNot","IconLogicOr","IconLogicXnor","IconLogicXor","IconLogin","IconLogin2","IconLogout","IconLogout2","IconLogs","IconLollipop","IconLollipopOff","IconLuggage","IconLuggageOff","IconLungs","IconLungsFilled","IconLungsOff","IconMacro","IconMacroFilled","IconMacroOff","IconMagnet","IconMagnetFilled","IconMagnetOff","IconMagnetic","IconMail","IconMailAi","IconMailBitcoin","IconMailBolt","IconMailCancel","IconMailCheck","IconMailCode","IconMailCog","IconMailDollar","IconMailDown","IconMailExclamation","IconMailFast","IconMailFilled","IconMailForward","IconMailHeart","IconMailMinus","IconMailOff","IconMailOpened","IconMailOpenedFilled","IconMailPause","IconMailPin","IconMailPlus","IconMailQuestion","IconMailSearch","IconMailShare","IconMailSpark","IconMailStar","IconMailUp","IconMailX","IconMailbox","IconMailboxOff","IconMan","IconManFilled","IconManualGearbox","IconManualGearboxFilled","IconMap","IconMap2","IconMapBolt","IconMapCancel","IconMapCheck","IconMapCode","IconMapCog","IconMapDiscount","IconMapDollar","IconMapDown","IconMapEast","IconMapExclamation","IconMapHeart","IconMapLock","IconMapMinus","IconMapNorth","IconMapOff","IconMapPause","IconMapPin","IconMapPin2","IconMapPinBolt","IconMapPinCancel","IconMapPinCheck","IconMapPinCode","IconMapPinCog","IconMapPinDollar","IconMapPinDown","IconMapPinExclamation","IconMapPinFilled","IconMapPinHeart","IconMapPinMinus","IconMapPinOff","IconMapPinPause","IconMapPinPin","IconMapPinPlus","IconMapPinQuestion","IconMapPinSearch","IconMapPinShare","IconMapPinStar","IconMapPinUp","IconMapPinX","IconMapPinned","IconMapPins","IconMapPlus","IconMapQuestion","IconMapRoute","IconMapSearch","IconMapShare","IconMapShield","IconMapSouth","IconMapStar","IconMapUp","IconMapWest","IconMapX","IconMarkdown","IconMarkdownOff","IconMarquee","IconMarquee2","IconMarqueeOff","IconMars","IconMask","IconMaskOff","IconMasksTheater","IconMasksTheaterOff","IconMassage","IconMatchstick","IconMath","IconMath1Divide2","IconMath1Divide3","IconMathAvg","IconMathCos","IconMathCtg","IconMathEqualGreater","IconMathEqualLower","IconMathFunction","IconMathFunctionOff","IconMathFunctionY","IconMathGreater","IconMathIntegral","IconMathIntegralX","IconMathIntegrals","IconMathLower","IconMathMax","IconMathMaxMin","IconMathMin","IconMathNot","IconMathOff","IconMathPi","IconMathPiDivide2","IconMathSec","IconMathSin","IconMathSymbols","IconMathTg","IconMathXDivide2","IconMathXDivideY","IconMathXDivideY2","IconMathXFloorDivideY","IconMathXMinusX","IconMathXMinusY","IconMathXPlusX","IconMathXPlusY","IconMathXy","IconMathYMinusY","IconMathYPlusY","IconMatrix","IconMaximize","IconMaximizeOff","IconMeat","IconMeatOff","IconMedal","IconMedal2","IconMedicalCross","IconMedicalCrossCircle","IconMedicalCrossFilled","IconMedicalCrossOff","IconMedicineSyrup","IconMeeple","IconMeepleFilled","IconMelon","IconMelonFilled","IconMenorah","IconMenu","IconMenu2","IconMenu2Filled","IconMenu3","IconMenu4","IconMenuDeep","IconMenuOrder","IconMesh","IconMessage","IconMessage2","IconMessage2Ai","IconMessage2Bolt","IconMessage2Cancel","IconMessage2Check","IconMessage2Code","IconMessage2Cog","IconMessage2Dollar","IconMessage2Down","IconMessage2Exclamation","IconMessage2Filled","IconMessage2Heart","IconMessage2Minus","IconMessage2Off","IconMessage2Pause","IconMessage2Pin","IconMessage2Plus","IconMessage2Question","IconMessage2Search","IconMessage2Share","IconMessage2Sparkle","IconMessage2Star","IconMessage2Up","IconMessage2X","IconMessageAi","IconMessageBolt","IconMessageCancel","IconMessageChatbot","IconMessageChatbotFilled","IconMessageCheck","IconMessageCircle","IconMessageCircle2","IconMessageCircle2Filled","IconMessageCircleBolt","IconMessageCircleCancel","IconMessageCircleCheck","IconMessageCircleCode","IconMessageCircleCog","IconMessageCircleDollar","IconMessageCircleDown","IconMessageCircleExclamation","IconMessageCircleFilled","IconMessageCircleHeart","IconMessageCircleMinus","IconMessageCircleOff","IconMessageCirclePause","IconMessageCirclePin","IconMessageCirclePlus","IconMessageCircleQuestion","IconMessageCircleSearch","IconMessageCircleShare","IconMessageCircleStar","IconMessageCircleUp","IconMessageCircleUser","IconMessageCircleX","IconMessageCode","IconMessageCog","IconMessageDollar","IconMessageDots","IconMessageDown","IconMessageExclamation","IconMessageFilled","IconMessageForward","IconMessageHeart","IconMessageLanguage","IconMessageMinus","IconMessageOff","IconMessagePause","IconMessagePin","IconMessagePlus","IconMessageQuestion","IconMessageReply","IconMessageReport","IconMessageReportFilled","IconMessageSearch","IconMessageShare","IconMessageSparkle","IconMessageStar","IconMessageUp","IconMessageUser","IconMessageX","IconMessages","IconMessagesFilled","IconMessagesOff","IconMeteor","IconMeteorFilled","IconMeteorOff","IconMeterCube","IconMeterSquare","IconMetronome","IconMichelinBibGourmand","IconMichelinStar","IconMichelinStarFilled","IconMichelinStarGreen","IconMickey","IconMickeyFilled","IconMicrofrontends","IconMicrophone","IconMicrophone2","IconMicrophone2Off","IconMicrophoneFilled","IconMicrophoneOff","IconMicroscope","IconMicroscopeFilled","IconMicroscopeOff","IconMicrowave","IconMicrowaveFilled","IconMicrowaveOff","IconMiddleware","IconMilitaryAward","IconMilitaryRank","IconMilitaryRankFilled","IconMilk","IconMilkFilled","IconMilkOff","IconMilkshake","IconMinimize","IconMinus","IconMinusVertical","IconMist","IconMistOff","IconMobiledata","IconMobiledataOff","IconModelAi","IconMoneybag","IconMoneybagEdit","IconMoneybagHeart","IconMoneybagMinus","IconMoneybagMove","IconMoneybagMoveBack","IconMoneybagPlus","IconMonkeybar","IconMoodAngry","IconMoodAngryFilled","IconMoodAnnoyed","IconMoodAnnoyed2","IconMoodBitcoin","IconMoodBoy","IconMoodCheck","IconMoodCog","IconMoodConfused","IconMoodConfusedFilled","IconMoodConfuzed","IconMoodCrazyHappy","IconMoodCrazyHappyFilled","IconMoodCry","IconMoodDollar","IconMoodEdit","IconMoodEmpty","IconMoodEmptyFilled","IconMoodHappy","IconMoodHappyFilled","IconMoodHeart","IconMoodKid","IconMoodKidFilled","IconMoodLookDown","IconMoodLookLeft","IconMoodLookRight","IconMoodLookUp","IconMoodMinus","IconMoodNerd","IconMoodNervous","IconMoodNeutral","IconMoodNeutralFilled","IconMoodOff","IconMoodPin","IconMoodPlus","IconMoodPuzzled","IconMoodSad","IconMoodSad2","IconMoodSadDizzy","IconMoodSadFilled","IconMoodSadSquint","IconMoodSearch","IconMoodShare","IconMoodSick","IconMoodSilence","IconMoodSing","IconMoodSmile","IconMoodSmileBeam","IconMoodSmileDizzy","IconMoodSmileFilled","IconMoodSpark","IconMoodSuprised","IconMoodSurprised","IconMoodTongue","IconMoodTongueWink","IconMoodTongueWink2","IconMoodUnamused","IconMoodUp","IconMoodWink","IconMoodWink2","IconMoodWrrr","IconMoodWrrrFilled","IconMoodX","IconMoodXd","IconMoon","IconMoon2","IconMoonFilled","IconMoonOff","IconMoonStars","IconMoped","IconMosque","IconMotorbike","IconMotorbikeFilled","IconMountain","IconMountainFilled","IconMountainOff","IconMouse","IconMouse2","IconMouseFilled","IconMouseOff","IconMoustache","IconMovie","IconMovieOff","IconMug","IconMugFilled","IconMugOff","IconMultiplier05x","IconMultiplier15x","IconMultiplier1x","IconMultiplier2x","IconMushroom","IconMushroomFilled","IconMushroomOff","IconMusic","IconMusicBolt","IconMusicCancel","IconMusicCheck","IconMusicCode","IconMusicCog","IconMusicDiscount","IconMusicDollar","IconMusicDown","IconMusicExclamation","IconMusicHeart","IconMusicMinus","IconMusicOff","IconMusicPause","IconMusicPin","IconMusicPlus","IconMusicQuestion","IconMusicSearch","IconMusicShare","IconMusicStar","IconMusicUp","IconMusicX","IconNavigation","IconNavigationBolt","IconNavigationCancel","IconNavigationCheck","IconNavigationCode","IconNavigationCog","IconNavigationDiscount","IconNavigationDollar","IconNavigationDown","IconNavigationEast","IconNavigationExclamation","IconNavigationFilled","IconNavigationHeart","IconNavigationMinus","IconNavigationNorth","IconNavigationOff","IconNavigationPause","IconNavigationPin","IconNavigationPlus","IconNavigationQuestion","IconNavigationSearch","IconNavigationShare","IconNavigationSouth","IconNavigationStar","IconNavigationTop","IconNavigationUp","IconNavigationWest","IconNavigationX","IconNeedle","IconNeedleThread","IconNetwork","IconNetworkOff","IconNewSection","IconNews","IconNewsOff","IconNfc","IconNfcOff","IconNoCopyright","IconNoCreativeCommons","IconNoDerivatives","IconNoiseReduction","IconNorthStar","IconNotdef","IconNote","IconNoteOff","IconNotebook","IconNotebookOff","IconNotes","IconNotesOff","IconNotification","IconNotificationOff","IconNumber","IconNumber0","IconNumber0Small","IconNumber1","IconNumber10","IconNumber100Small","IconNumber10Small","IconNumber11","IconNumber11Small","IconNumber123","IconNumber12Small","IconNumber13Small","IconNumber14Small","IconNumber15Small","IconNumber16Small","IconNumber17Small","IconNumber18Small","IconNumber19Small","IconNumber1Small","IconNumber2","IconNumber20Small","IconNumber21Small","IconNumber22Small","IconNumber23Small","IconNumber24Small","IconNumber25Small","IconNumber26Small","IconNumber27Small","IconNumber28Small","IconNumber29Small","IconNumber2Small","IconNumber3","IconNumber30Small","IconNumber31Small","IconNumber32Small","IconNumber33Small","IconNumber34Small","IconNumber35Small","IconNumber36Small","IconNumber37Small","IconNumber38Small","IconNumber39Small","IconNumber3Small","IconNumber4","IconNumber40Small","IconNumber41Small","IconNumber42Small","IconNumber43Small","IconNumber44Small","IconNumber45Small","IconNumber46Small","IconNumber47Small","IconNumber48Small","IconNumber49Small","IconNumber4Small","IconNumber5","IconNumber50Small","IconNumber51Small","IconNumber52Small","IconNumber53Small","IconNumber54Small","IconNumber55Small","IconNumber56Small","IconNumber57Small","IconNumber58Small","IconNumber59Small","IconNumber5Small","IconNumber6","IconNumber60Small","IconNumber61Small","IconNumber62Small","IconNumber63Small","IconNumber64Small","IconNumber65Small","IconNumber66Small","IconNumber67Small","IconNumber68Small","IconNumber69Small","IconNumber6Small","IconNumber7","IconNumber70Small","IconNumber71Small","IconNumber72Small","IconNumber73Small","IconNumber74Small","IconNumber75Small","IconNumber76Small","IconNumber77Small","IconNumber78Small","IconNumber79Small","IconNumber7Small","IconNumber8","IconNumber80Small","IconNumber81Small","IconNumber82Small","IconNumber83Small","IconNumber84Small","IconNumber85Small","IconNumber86Small","IconNumber87Small","IconNumber88Small","IconNumber89Small","IconNumber8Small","IconNumber9","IconNumber90Small","IconNumber91Small","IconNumber92Small","IconNumber93Small","IconNumber94Small","IconNumber95Small","IconNumber96Small","IconNumber97Small","IconNumber98Small","IconNumber99Small","IconNumber9Small","IconNumbers","IconNurse","IconNurseFilled","IconNut","IconObjectScan","IconOctagon","IconOctagonFilled","IconOctagonMinus","IconOctagonMinus2","IconOctagonMinusFilled","IconOctagonOff","IconOctagonPlus","IconOctagonPlus2","IconOctagonPlusFilled","IconOctahedron","IconOctahedronOff","IconOctahedronPlus","IconOld","IconOlympicTorch","IconOlympics","IconOlympicsOff","IconOm","IconOmega","IconOption","IconOrbit","IconOrbitVertical","IconOrbits","IconOutbound","IconOutlet","IconOval","IconOvalFilled","IconOvalVertical","IconOvalVerticalFilled","IconOverline","IconPackage","IconPackageExport","IconPackageImport","IconPackageOff","IconPackages","IconPacman","IconPacmanFilled","IconPageBreak","IconPaint","IconPaintFilled","IconPaintOff","IconPalette","IconPaletteFilled","IconPaletteOff","IconPanoramaHorizontal","IconPanoramaHorizontalFilled","IconPanoramaHorizontalOff","IconPanoramaVertical","IconPanoramaVerticalFilled","IconPanoramaVerticalOff","IconPaperBag","IconPaperBagOff","IconPaperclip","IconParachute","IconParachuteOff","IconParentheses","IconParenthesesOff","IconParking","IconParkingCircle","IconParkingCircleFilled","IconParkingMeter","IconParkingOff","IconPassword","IconPasswordFingerprint","IconPasswordMobilePhone","IconPasswordUser","IconPaw","IconPawFilled","IconPawOff","IconPaywall","IconPdf","IconPeace","IconPencil","IconPencilAi","IconPencilBolt","IconPencilCancel","IconPencilCheck","IconPencilCode","IconPencilCog","IconPencilDiscount","IconPencilDollar","IconPencilDown","IconPencilExclamation","IconPencilFilled","IconPencilHeart","IconPencilMinus","IconPencilOff","IconPencilPause","IconPencilPin","IconPencilPlus","IconPencilQuestion","IconPencilSearch","IconPencilShare","IconPencilStar","IconPencilUp","IconPencilX","IconPendulum","IconPennant","IconPennant2","IconPennant2Filled","IconPennantFilled","IconPennantOff","IconPentagon","IconPentagonFilled","IconPentagonMinus","IconPentagonNumber0","IconPentagonNumber1","IconPentagonNumber2","IconPentagonNumber3","IconPentagonNumber4","IconPentagonNumber5","IconPentagonNumber6","IconPentagonNumber7","IconPentagonNumber8","IconPentagonNumber9","IconPentagonOff","IconPentagonPlus","IconPentagonX","IconPentagram","IconPepper","IconPepperOff","IconPercentage","IconPercentage0","IconPercentage10","IconPercentage100","IconPercentage20","IconPercentage25","IconPercentage30","IconPercentage33","IconPercentage40","IconPercentage50","IconPercentage60","IconPercentage66","IconPercentage70","IconPercentage75","IconPercentage80","IconPercentage90","IconPerfume","IconPerspective","IconPerspectiveOff","IconPhone","IconPhoneCall","IconPhoneCallFilled","IconPhoneCalling","IconPhoneCallingFilled","IconPhoneCheck","IconPhoneCheckFilled","IconPhoneDone","IconPhoneEnd","IconPhoneFilled","IconPhoneIncoming","IconPhoneOff","IconPhoneOutgoing","IconPhonePause","IconPhonePlus","IconPhoneRinging","IconPhoneSpark","IconPhoneX","IconPhoneXFilled","IconPhoto","IconPhotoAi","IconPhotoAlt","IconPhotoBitcoin","IconPhotoBolt","IconPhotoCancel","IconPhotoCheck","IconPhotoCircle","IconPhotoCircleMinus","IconPhotoCirclePlus","IconPhotoCode","IconPhotoCog","IconPhotoDollar","IconPhotoDown","IconPhotoEdit","IconPhotoExclamation","IconPhotoFilled","IconPhotoHeart","IconPhotoHexagon","IconPhotoMinus","IconPhotoOff","IconPhotoPause","IconPhotoPentagon","IconPhotoPin","IconPhotoPlus","IconPhotoQuestion","IconPhotoScan","IconPhotoSearch","IconPhotoSensor","IconPhotoSensor2","IconPhotoSensor3","IconPhotoShare","IconPhotoShield","IconPhotoSpark","IconPhotoSquareRounded","IconPhotoStar","IconPhotoUp","IconPhotoVideo","IconPhotoX","IconPhysiotherapist","IconPhysotherapist","IconPiano","IconPick","IconPicnicTable","IconPictureInPicture","IconPictureInPictureFilled","IconPictureInPictureOff","IconPictureInPictureOn","IconPictureInPictureTop","IconPictureInPictureTopFilled","IconPig","IconPigFilled","IconPigMoney","IconPigOff","IconPilcrow","IconPilcrowLeft","IconPilcrowRight","IconPill","IconPillFilled","IconPillOff","IconPillow","IconPills","IconPin","IconPinEnd","IconPinFilled","IconPinInvoke","IconPingPong","IconPinned","IconPinnedFilled","IconPinnedOff","IconPipeline","IconPizza","IconPizzaFilled","IconPizzaOff","IconPlaceholder","IconPlane","IconPlaneArrival","IconPlaneArrivalFilled","IconPlaneDeparture","IconPlaneDepartureFilled","IconPlaneFilled","IconPlaneInflight","IconPlaneOff","IconPlaneTilt","IconPlaneTiltFilled","IconPlanet","IconPlanetOff","IconPlant","IconPlant2","IconPlant2Off","IconPlantOff","IconPlayBasketball","IconPlayBug","IconPlayBugs","IconPlayCard","IconPlayCard1","IconPlayCard10","IconPlayCard10Filled","IconPlayCard1Filled","IconPlayCard2","IconPlayCard2Filled","IconPlayCard3","IconPlayCard3Filled","IconPlayCard4","IconPlayCard4Filled","IconPlayCard5","IconPlayCard5Filled","IconPlayCard6","IconPlayCard6Filled","IconPlayCard7","IconPlayCard7Filled","IconPlayCard8","IconPlayCard8Filled","IconPlayCard9","IconPlayCard9Filled","IconPlayCardA","IconPlayCardAFilled","IconPlayCardFilled","IconPlayCardJ","IconPlayCardJFilled","IconPlayCardK","IconPlayCardKFilled","IconPlayCardOff","IconPlayCardQ","IconPlayCardQFilled","IconPlayCardStar","IconPlayCardStarFilled","IconPlayFootball","IconPlayHandball","IconPlayVolleyball","IconPlayerEject","IconPlayerEjectFilled","IconPlayerPause","IconPlayerPauseFilled","IconPlayerPlay","IconPlayerPlayFilled","IconPlayerRecord","IconPlayerRecordFilled","IconPlayerSkipBack","IconPlayerSkipBackFilled","IconPlayerSkipForward","IconPlayerSkipForwardFilled","IconPlayerStop","IconPlayerStopFilled","IconPlayerTrackNext","IconPlayerTrackNextFilled","IconPlayerTrackPrev","IconPlayerTrackPrevFilled","IconPlaylist","IconPlaylistAdd","IconPlaylistFilled","IconPlaylistOff","IconPlaylistX","IconPlaystationCircle","IconPlaystationSquare","IconPlaystationTriangle","IconPlaystationX","IconPlug","IconPlugConnected","IconPlugConnectedX","IconPlugOff","IconPlugX","IconPlunger","IconPlus","IconPlusEqual","IconPlusFilled","IconPlusMinus","IconPng","IconPodium","IconPodiumOff","IconPoint","IconPointFilled","IconPointOff","IconPointer","IconPointer2","IconPointerBolt","IconPointerCancel","IconPointerCheck","IconPointerCode","IconPointerCog","IconPointerCollaboration","IconPointerCollaboration2","IconPointerDollar","IconPointerDown","IconPointerExclamation","IconPointerFilled","IconPointerHeart","IconPointerMinus","IconPointerOff","IconPointerPause","IconPointerPin","IconPointerPlus","IconPointerQuestion","IconPointerSearch","IconPointerShare","IconPointerStar","IconPointerUp","IconPointerX","IconPokeball","IconPokeballOff","IconPokerChip","IconPolaroid","IconPolaroidFilled","IconPolygon","IconPolygonOff","IconPoo","IconPooFilled","IconPool","IconPoolOff","IconPower","IconPray","IconPremiumRights","IconPrescription","IconPresentation","IconPresentationAnalytics","IconPresentationAnalyticsFilled","IconPresentationFilled","IconPresentationOff","IconPrinter","IconPrinterOff","IconPrism","IconPrismLight","IconPrismOff","IconPrismPlus","IconPrison","IconProgress","IconProgressAlert","IconProgressBolt","IconProgressCheck","IconProgressDown","IconProgressHelp","IconProgressX","IconPrompt","IconProng","IconPropeller","IconPropellerOff","IconProtocol","IconPumpkinScary","IconPuzzle","IconPuzzle2","IconPuzzleFilled","IconPuzzleOff","IconPyramid","IconPyramidOff","IconPyramidPlus","IconQrcode","IconQrcodeOff","IconQuestionMark","IconQueuePopIn","IconQueuePopOut","IconQuote","IconQuoteFilled","IconQuoteOff","IconQuoteOpen","IconQuotes","IconRadar","IconRadar2","IconRadarFilled","IconRadarOff","IconRadio","IconRadioOff","IconRadioactive","IconRadioactiveFilled","IconRadioactiveOff","IconRadiusBottomLeft","IconRadiusBottomRight","IconRadiusTopLeft","IconRadiusTopRight","IconRainbow","IconRainbowOff","IconRating12Plus","IconRating14Plus","IconRating16Plus","IconRating18Plus","IconRating21Plus","IconRazor","IconRazorElectric","IconReceipt","IconReceipt2","IconReceiptBitcoin","IconReceiptDollar","IconReceiptDollarFilled","IconReceiptEuro","IconReceiptEuroFilled","IconReceiptFilled","IconReceiptOff","IconReceiptPound","IconReceiptPoundFilled","IconReceiptRefund","IconReceiptRupee","IconReceiptRupeeFilled","IconReceiptTax","IconReceiptYen","IconReceiptYenFilled","IconReceiptYuan","IconReceiptYuanFilled","IconRecharging","IconRecordMail","IconRecordMailOff","IconRectangle","IconRectangleFilled","IconRectangleRoundedBottom","IconRectangleRoundedTop","IconRectangleVertical","IconRectangleVerticalFilled","IconRectangularPrism","IconRectangularPrismOff","IconRectangularPrismPlus","IconRecycle","IconRecycleOff","IconReduceMotion","IconReferenceImage","IconRefresh","IconRefreshAlert","IconRefreshDot","IconRefreshOff","IconRegex","IconRegexOff","IconRegistered","IconRegisteredFilled","IconRelationManyToMany","IconRelationManyToManyFilled","IconRelationOneToMany","IconRelationOneToManyFilled","IconRelationOneToOne","IconRelationOneToOneFilled","IconReload","IconRemoteControl","IconReorder","IconRepeat","IconRepeatOff","IconRepeatOnce","IconReplace","IconReplaceFilled","IconReplaceOff","IconReplaceUser","IconReport","IconReportAnalytics","IconReportAnalyticsFilled","IconReportMedical","IconReportMoney","IconReportMoneyFilled","IconReportOff","IconReportSearch","IconReservedLine","IconResize","IconRestore","IconRewindBackward10","IconRewindBackward15","IconRewindBackward20","IconRewindBackward30","IconRewindBackward40","IconRewindBackward5","IconRewindBackward50","IconRewindBackward60","IconRewindForward10","IconRewindForward15","IconRewindForward20","IconRewindForward30","IconRewindForward40","IconRewindForward5","IconRewindForward50","IconRewindForward60","IconRibbonHealth","IconRings","IconRipple","IconRippleDown","IconRippleOff","IconRippleUp","IconRoad","IconRoadOff","IconRoadSign","IconRobot","IconRobotFace","IconRobotOff","IconRocket","IconRocketOff","IconRockingChair","IconRollerSkating","IconRollercoaster","IconRollercoasterFilled","IconRollercoasterOff","IconRosette","IconRosetteAsterisk","IconRosetteDiscount","IconRosetteDiscountCheck","IconRosetteDiscountCheckFilled","IconRosetteDiscountCheckOff","IconRosetteDiscountFilled","IconRosetteDiscountOff","IconRosetteFilled","IconRosetteNumber0","IconRosetteNumber1","IconRosetteNumber2","IconRosetteNumber3","IconRosetteNumber4","IconRosetteNumber5","IconRosetteNumber6","IconRosetteNumber7","IconRosetteNumber8","IconRosetteNumber9","IconRotate","IconRotate2","IconRotate360","IconRotate3d","IconRotateClockwise","IconRotateClockwise2","IconRotateDot","IconRotateRectangle","IconRoulette","IconRoute","IconRoute2","IconRouteAltLeft","IconRouteAltRight","IconRouteOff","IconRouteScan","IconRouteSquare","IconRouteSquare2","IconRouteX","IconRouteX2","IconRouter","IconRouterOff","IconRowInsertBottom","IconRowInsertTop","IconRowRemove","IconRss","IconRubberStamp","IconRubberStampOff","IconRugby","IconRuler","IconRuler2","IconRuler2Off","IconRuler3","IconRulerMeasure","IconRulerMeasure2","IconRulerOff","IconRun","IconRunSprint","IconRvTruck","IconSTurnDown","IconSTurnLeft","IconSTurnRight","IconSTurnUp","IconSailboat","IconSailboat2","IconSailboatOff","IconSalad","IconSaladFilled","IconSalt","IconSandbox","IconSatellite","IconSatelliteFilled","IconSatelliteOff","IconSausage","IconScale","IconScaleFilled","IconScaleOff","IconScaleOutline","IconScaleOutlineOff","IconScan","IconScanCube","IconScanEye","IconScanLetterA","IconScanLetterT","IconScanPosition","IconScanTraces","IconSchema","IconSchemaOff","IconSchool","IconSchoolBell","IconSchoolFilled","IconSchoolOff","IconScissors","IconScissorsOff","IconScooter","IconScooterElectric","IconScoreboard","IconScreenShare","IconScreenShareOff","IconScreenshot","IconScribble","IconScribbleOff","IconScript","IconScriptMinus","IconScriptPlus","IconScriptX","IconScubaDiving","IconScubaDivingTank","IconScubaDivingTankFilled","IconScubaMask","IconScubaMaskOff","IconSdk","IconSearch","IconSearchFilled","IconSearchOff","IconSecretPhrases","IconSection","IconSectionFilled","IconSectionSign","IconSeeding","IconSeedingFilled","IconSeedingOff","IconSeedling","IconSeedlingFilled","IconSeedlingOff","IconSegway","IconSelect","IconSelectAll","IconSelector","IconSend","IconSend2","IconSendFilled","IconSendOff","IconSeo","IconSeparator","IconSeparatorHorizontal","IconSeparatorVertical","IconServer","IconServer2","IconServerBolt","IconServerCog","IconServerOff","IconServerSpark","IconServerless","IconServicemark","IconSettings","IconSettings2","IconSettingsAi","IconSettingsAutomation","IconSettingsBolt","IconSettingsCancel","IconSettingsCheck","IconSettingsCode","IconSettingsCog","IconSettingsDollar","IconSettingsDown","IconSettingsExclamation","IconSettingsFilled","IconSettingsHeart","IconSettingsMinus","IconSettingsOff","IconSettingsPause","IconSettingsPin","IconSettingsPlus","IconSettingsQuestion","IconSettingsSearch","IconSettingsShare","IconSettingsSpark","IconSettingsStar","IconSettingsUp","IconSettingsX","IconShadow","IconShadowOff","IconShape","IconShape2","IconShape3","IconShapeOff","IconShare","IconShare2","IconShare3","IconShareOff","IconShareplay","IconShiJumping","IconShield","IconShieldBolt","IconShieldCancel","IconShieldCheck","IconShieldCheckFilled","IconShieldCheckered","IconShieldCheckeredFilled","IconShieldChevron","IconShieldCode","IconShieldCog","IconShieldDollar","IconShieldDown","IconShieldExclamation","IconShieldFilled","IconShieldHalf","IconShieldHalfFilled","IconShieldHeart","IconShieldLock","IconShieldLockFilled","IconShieldMinus","IconShieldOff","IconShieldPause","IconShieldPin","IconShieldPlus","IconShieldQuestion","IconShieldSearch","IconShieldShare","IconShieldStar","IconShieldUp","IconShieldX","IconShip","IconShipOff","IconShirt","IconShirtFilled","IconShirtOff","IconShirtSport","IconShoe","IconShoeOff","IconShoppingBag","IconShoppingBagCheck","IconShoppingBagDiscount","IconShoppingBagEdit","IconShoppingBagExclamation","IconShoppingBagHeart","IconShoppingBagMinus","IconShoppingBagPlus","IconShoppingBagSearch","IconShoppingBagX","IconShoppingCart","IconShoppingCartBolt","IconShoppingCartCancel","IconShoppingCartCheck","IconShoppingCartCode","IconShoppingCartCog","IconShoppingCartCopy","IconShoppingCartDiscount","IconShoppingCartDollar","IconShoppingCartDown","IconShoppingCartExclamation","IconShoppingCartFilled","IconShoppingCartHeart","IconShoppingCartMinus","IconShoppingCartOff","IconShoppingCartPause","IconShoppingCartPin","IconShoppingCartPlus","IconShoppingCartQuestion","IconShoppingCartSearch","IconShoppingCartShare","IconShoppingCartStar","IconShoppingCartUp","IconShoppingCartX","IconShovel","IconShovelPitchforks","IconShredder","IconSignLeft","IconSignLeftFilled","IconSignRight","IconSignRightFilled","IconSignal2g","IconSignal3g","IconSignal4g","IconSignal4gPlus","IconSignal5g","IconSignal6g","IconSignalE","IconSignalG","IconSignalH","IconSignalHPlus","IconSignalLte","IconSignature","IconSignatureOff","IconSitemap","IconSitemapFilled","IconSitemapOff","IconSkateboard","IconSkateboardOff","IconSkateboarding","IconSketching","IconSkewX","IconSkewY","IconSkiJumping","IconSkull","IconSlash","IconSlashes","IconSleigh","IconSlice","IconSlideshow","IconSmartHome","IconSmartHomeOff","IconSmoking","IconSmokingNo","IconSnowboarding","IconSnowflake","IconSnowflakeOff","IconSnowman","IconSoccerField","IconSocial","IconSocialOff","IconSock","IconSofa","IconSofaOff","IconSolarElectricity","IconSolarPanel","IconSolarPanel2","IconSort09","IconSort90","IconSortAZ","IconSortAscending","IconSortAscending2","IconSortAscending2Filled","IconSortAscendingLetters","IconSortAscendingNumbers","IconSortAscendingShapes","IconSortAscendingShapesFilled","IconSortAscendingSmallBig","IconSortDeacendingSmallBig","IconSortDescending","IconSortDescending2","IconSortDescending2Filled","IconSortDescendingLetters","IconSortDescendingNumbers","IconSortDescendingShapes","IconSortDescendingShapesFilled","IconSortDescendingSmallBig","IconSortZA","IconSos","IconSoup","IconSoupFilled","IconSoupOff","IconSourceCode","IconSpace","IconSpaceOff","IconSpaces","IconSpacingHorizontal","IconSpacingVertical","IconSpade","IconSpadeFilled","IconSparkle","IconSparkle2","IconSparkleHighlight","IconSparkles","IconSparkles2","IconSparkles2Filled","IconSparkles2Off","IconSparklesFilled","IconSpeakerphone","IconSpeedboat","IconSpeedboatFilled","IconSphere","IconSphere2","IconSphereOff","IconSpherePlus","IconSpider","IconSpiderFilled","IconSpiral","IconSpiralOff","IconSportBillard","IconSportBilliard","IconSpray","IconSpy","IconSpyOff","IconSql","IconSquare","IconSquare0","IconSquare1","IconSquare2","IconSquare3","IconSquare4","IconSquare5","IconSquare6","IconSquare7","IconSquare8","IconSquare9","IconSquareArrowDown","IconSquareArrowDownFilled","IconSquareArrowLeft","IconSquareArrowLeftFilled","IconSquareArrowRight","IconSquareArrowRightFilled","IconSquareArrowUp","IconSquareArrowUpFilled","IconSquareAsterisk","IconSquareAsteriskFilled","IconSquareCheck","IconSquareCheckFilled","IconSquareChevronDown","IconSquareChevronDownFilled","IconSquareChevronLeft","IconSquareChevronLeftFilled","IconSquareChevronRight","IconSquareChevronRightFilled","IconSquareChevronUp","IconSquareChevronUpFilled","IconSquareChevronsDown","IconSquareChevronsDownFilled","IconSquareChevronsLeft","IconSquareChevronsLeftFilled","IconSquareChevronsRight","IconSquareChevronsRightFilled","IconSquareChevronsUp","IconSquareChevronsUpFilled","IconSquareDashed","IconSquareDot","IconSquareDotFilled","IconSquareF0","IconSquareF0Filled","IconSquareF1","IconSquareF1Filled","IconSquareF2","IconSquareF2Filled","IconSquareF3","IconSquareF3Filled","IconSquareF4","IconSquareF4Filled","IconSquareF5","IconSquareF5Filled","IconSquareF6","IconSquareF6Filled","IconSquareF7","IconSquareF7Filled","IconSquareF8","IconSquareF8Filled","IconSquareF9","IconSquareF9Filled","IconSquareFilled","IconSquareForbid","IconSquareForbid2","IconSquareHalf","IconSquareKey","IconSquareLetterA","IconSquareLetterAFilled","IconSquareLetterB","IconSquareLetterBFilled","IconSquareLetterC","IconSquareLetterCFilled","IconSquareLetterD","IconSquareLetterDFilled","IconSquareLetterE","IconSquareLetterEFilled","IconSquareLetterF","IconSquareLetterFFilled","IconSquareLetterG","IconSquareLetterGFilled","IconSquareLetterH","IconSquareLetterHFilled","IconSquareLetterI","IconSquareLetterIFilled","IconSquareLetterJ","IconSquareLetterJFilled","IconSquareLetterK","IconSquareLetterKFilled","IconSquareLetterL","IconSquareLetterLFilled","IconSquareLetterM","IconSquareLetterMFilled","IconSquareLetterN","IconSquareLetterNFilled","IconSquareLetterO","IconSquareLetterOFilled","IconSquareLetterP","IconSquareLetterPFilled","IconSquareLetterQ","IconSquareLetterQFilled","IconSquareLetterR","IconSquareLetterRFilled","IconSquareLetterS","IconSquareLetterSFilled","IconSquareLetterT","IconSquareLetterTFilled","IconSquareLetterU","IconSquareLetterUFilled","IconSquareLetterV","IconSquareLetterVFilled","IconSquareLetterW","IconSquareLetterWFilled","IconSquareLetterX","IconSquareLetterXFilled","IconSquareLetterY","IconSquareLetterYFilled","IconSquareLetterZ","IconSquareLetterZFilled","IconSquareMinus","IconSquareMinus2","IconSquareMinusFilled","IconSquareNumber0","IconSquareNumber0Filled","IconSquareNumber1","IconSquareNumber1Filled","IconSquareNumber2","IconSquareNumber2Filled","IconSquareNumber3","IconSquareNumber3Filled","IconSquareNumber4","IconSquareNumber4Filled","IconSquareNumber5","IconSquareNumber5Filled","IconSquareNumber6","IconSquareNumber6Filled","IconSquareNumber7","IconSquareNumber7Filled","IconSquareNumber8","IconSquareNumber8Filled","IconSquareNumber9","IconSquareNumber9Filled","IconSquareOff","IconSquarePercentage","IconSquarePlus","IconSquarePlus2","IconSquareRoot","IconSquareRoot2","IconSquareRotated","IconSquareRotatedAsterisk","IconSquareRotatedFilled","IconSquareRotatedForbid","IconSquareRotatedForbid2","IconSquareRotatedOff","IconSquareRounded","IconSquareRoundedArrowDown","IconSquareRoundedArrowDownFilled","IconSquareRoundedArrowLeft","IconSquareRoundedArrowLeftFilled","IconSquareRoundedArrowRight","IconSquareRoundedArrowRightFilled","IconSquareRoundedArrowUp","IconSquareRoundedArrowUpFilled","IconSquareRoundedCheck","IconSquareRoundedCheckFilled","IconSquareRoundedChevronDown","IconSquareRoundedChevronDownFilled","IconSquareRoundedChevronLeft","IconSquareRoundedChevronLeftFilled","IconSquareRoundedChevronRight","IconSquareRoundedChevronRightFilled","IconSquareRoundedChevronUp","IconSquareRoundedChevronUpFilled","IconSquareRoundedChevronsDown","IconSquareRoundedChevronsDownFilled","IconSquareRoundedChevronsLeft","IconSquareRoundedChevronsLeftFilled","IconSquareRoundedChevronsRight","IconSquareRoundedChevronsRightFilled","IconSquareRoundedChevronsUp","IconSquareRoundedChevronsUpFilled","IconSquareRoundedFilled","IconSquareRoundedLetterA","IconSquareRoundedLetterAFilled","IconSquareRoundedLetterB","IconSquareRoundedLetterBFilled","IconSquareRoundedLetterC","IconSquareRoundedLetterCFilled","IconSquareRoundedLetterD","IconSquareRoundedLetterDFilled","IconSquareRoundedLetterE","IconSquareRoundedLetterEFilled","IconSquareRoundedLetterF","IconSquareRoundedLetterFFilled","IconSquareRoundedLetterG","IconSquareRoundedLetterGFilled","IconSquareRoundedLetterH","IconSquareRoundedLetterHFilled","IconSquareRoundedLetterI","IconSquareRoundedLetterIFilled","IconSquareRoundedLetterJ","IconSquareRoundedLetterJFilled","IconSquareRoundedLetterK","IconSquareRoundedLetterKFilled","IconSquareRoundedLetterL","IconSquareRoundedLetterLFilled","IconSquareRoundedLetterM","IconSquareRoundedLetterMFilled","IconSquareRoundedLetterN","IconSquareRoundedLetterNFilled","IconSquareRoundedLetterO","IconSquareRoundedLetterOFilled","IconSquareRoundedLetterP","IconSquareRoundedLetterPFilled","IconSquareRoundedLetterQ","IconSquareRoundedLetterQFilled","IconSquareRoundedLetterR","IconSquareRoundedLetterRFilled","IconSquareRoundedLetterS","IconSquareRoundedLetterSFilled","IconSquareRoundedLetterT","IconSquareRoundedLetterTFilled","IconSquareRoundedLetterU","IconSquareRoundedLetterUFilled","IconSquareRoundedLetterV","IconSquareRoundedLetterVFilled","IconSquareRoundedLetterW","IconSquareRoundedLetterWFilled","IconSquareRoundedLetterX","IconSquareRoundedLetterXFilled","IconSquareRoundedLetterY","IconSquareRoundedLetterYFilled","IconSquareRoundedLetterZ","IconSquareRoundedLetterZFilled","IconSquareRoundedMinus","IconSquareRoundedMinus2","IconSquareRoundedMinusFilled","IconSquareRoundedNumber0","IconSquareRoundedNumber0Filled","IconSquareRoundedNumber1","IconSquareRoundedNumber1Filled","IconSquareRoundedNumber2","IconSquareRoundedNumber2Filled","IconSquareRoundedNumber3","IconSquareRoundedNumber3Filled","IconSquareRoundedNumber4","IconSquareRoundedNumber4Filled","IconSquareRoundedNumber5","IconSquareRoundedNumber5Filled","IconSquareRoundedNumber6","IconSquareRoundedNumber6Filled","IconSquareRoundedNumber7","IconSquareRoundedNumber7Filled","IconSquareRoundedNumber8","IconSquareRoundedNumber8Filled","IconSquareRoundedNumber9","IconSquareRoundedNumber9Filled","IconSquareRoundedPercentage","IconSquareRoundedPlus","IconSquareRoundedPlus2","IconSquareRoundedPlusFilled","IconSquareRoundedX","IconSquareRoundedXFilled","IconSquareToggle","IconSquareToggleHorizontal","IconSquareX","IconSquareXFilled","IconSquares","IconSquaresDiagonal","IconSquaresFilled","IconSquaresSelected","IconStack","IconStack2","IconStack2Filled","IconStack3","IconStack3Filled","IconStackBack","IconStackBackward","IconStackCheck","IconStackFilled","IconStackForward","IconStackFront","IconStackMiddle","IconStackMinus","IconStackPlus","IconStackPop","IconStackPush","IconStackX","IconStairs","IconStairsDown","IconStairsUp","IconStar","IconStarFilled","IconStarHalf","IconStarHalfFilled","IconStarOff","IconStars","IconStarsFilled","IconStarsOff","IconStatusChange","IconSteam","IconSteeringWheel","IconSteeringWheelFilled","IconSteeringWheelOff","IconStepInto","IconStepOut","IconStereoGlasses","IconStethoscope","IconStethoscopeOff","IconSticker","IconSticker2","IconStickerSmile","IconStopwatch","IconStorm","IconStormOff","IconStretching","IconStretching2","IconStrikethrough","IconStrokeCurved","IconStrokeDynamic","IconStrokeStraight","IconSubmarine","IconSubscript","IconSubtask","IconSubtitles","IconSubtitlesAi","IconSubtitlesEdit","IconSubtitlesOff","IconSum","IconSumOff","IconSun","IconSunElectricity","IconSunFilled","IconSunHigh","IconSunHighFilled","IconSunLow","IconSunLowFilled","IconSunMoon","IconSunOff","IconSunWind","IconSunglasses","IconSunglassesFilled","IconSunrise","IconSunriseFilled","IconSunset","IconSunset2","IconSunset2Filled","IconSunsetFilled","IconSuperscript","IconSvg","IconSwimming","IconSwipe","IconSwipeDown","IconSwipeDownFilled","IconSwipeLeft","IconSwipeLeftFilled","IconSwipeRight","IconSwipeRightFilled","IconSwipeUp","IconSwipeUpFilled","IconSwitch","IconSwitch2","IconSwitch3","IconSwitchHorizontal","IconSwitchVertical","IconSword","IconSwordOff","IconSwords","IconTabClose","IconTable","IconTableAlias","IconTableColumn","IconTableDashed","IconTableDown","IconTableExport","IconTableFilled","IconTableHeart","IconTableImport","IconTableMinus","IconTableOff","IconTableOptions","IconTablePlus","IconTableRow","IconTableShare","IconTableShortcut","IconTableSpark","IconTabs","IconTag","IconTagFilled","IconTagMinus","IconTagOff","IconTagPlus","IconTagStarred","IconTags","IconTagsChevronDown","IconTagsChevronLeft","IconTagsChevronRight","IconTagsChevronUp","IconTagsFilled","IconTagsOff","IconTaiwanDollar","IconTallymark1","IconTallymark2","IconTallymark3","IconTallymark4","IconTallymarks","IconTank","IconTarget","IconTarget2","IconTargetArrow","IconTargetOff","IconTax","IconTaxEuro","IconTaxPound","IconTeapot","IconTelescope","IconTelescopeOff","IconTemperature","IconTemperatureCelsius","IconTemperatureFahrenheit","IconTemperatureMinus","IconTemperatureMinusFilled","IconTemperatureOff","IconTemperaturePlus","IconTemperaturePlusFilled","IconTemperatureSnow","IconTemperatureSun","IconTemplate","IconTemplateFilled","IconTemplateOff","IconTent","IconTentOff","IconTerminal","IconTerminal2","IconTestPipe","IconTestPipe2","IconTestPipe2Filled","IconTestPipeOff","IconTex","IconTextCaption","IconTextColor","IconTextDecrease","IconTextDirectionLtr","IconTextDirectionRtl","IconTextGrammar","IconTextIncrease","IconTextOrientation","IconTextOutline","IconTextPlus","IconTextRecognition","IconTextRegexAsterisk","IconTextRegexEnd","IconTextRegexPlus","IconTextRegexQuestion","IconTextRegexStart","IconTextResize","IconTextScan2","IconTextScanAi","IconTextSize","IconTextSpellcheck","IconTextWrap","IconTextWrapColumn","IconTextWrapDisabled","IconTexture","IconTheater","IconThermometer","IconThinkingHigh","IconThinkingLow","IconThinkingMedium","IconThumbDown","IconThumbDownFilled","IconThumbDownOff","IconThumbUp","IconThumbUpFilled","IconThumbUpOff","IconTicTac","IconTicket","IconTicketFilled","IconTicketOff","IconTie","IconTilde","IconTiltShift","IconTiltShiftFilled","IconTiltShiftOff","IconTimeDuration0","IconTimeDuration10","IconTimeDuration15","IconTimeDuration30","IconTimeDuration45","IconTimeDuration5","IconTimeDuration60","IconTimeDuration90","IconTimeDurationOff","IconTimeline","IconTimelineEvent","IconTimelineEventExclamation","IconTimelineEventFilled","IconTimelineEventMinus","IconTimelineEventPlus","IconTimelineEventText","IconTimelineEventX","IconTimezone","IconTipJar","IconTipJarEuro","IconTipJarPound","IconTir","IconToggleLeft","IconToggleLeftFilled","IconToggleRight","IconToggleRightFilled","IconToiletPaper","IconToiletPaperOff","IconToml","IconTool","IconTools","IconToolsKitchen","IconToolsKitchen2","IconToolsKitchen2Filled","IconToolsKitchen2Off","IconToolsKitchen3","IconToolsKitchenOff","IconToolsOff","IconTooltip","IconTopologyBus","IconTopologyComplex","IconTopologyFull","IconTopologyFullHierarchy","IconTopologyRing","IconTopologyRing2","IconTopologyRing3","IconTopologyStar","IconTopologyStar2","IconTopologyStar3","IconTopologyStarRing","IconTopologyStarRing2","IconTopologyStarRing3","IconTorii","IconTornado","IconTournament","IconTower","IconTowerOff","IconTrack","IconTractor","IconTrademark","IconTrafficCone","IconTrafficConeOff","IconTrafficLights","IconTrafficLightsOff","IconTrain","IconTrainFilled","IconTransactionBitcoin","IconTransactionDollar","IconTransactionEuro","IconTransactionPound","IconTransactionRupee","IconTransactionYen","IconTransactionYuan","IconTransfer","IconTransferIn","IconTransferOut","IconTransferVertical","IconTransform","IconTransformFilled","IconTransformPoint","IconTransformPointBottomLeft","IconTransformPointBottomRight","IconTransformPointTopLeft","IconTransformPointTopRight","IconTransitionBottom","IconTransitionBottomFilled","IconTransitionLeft","IconTransitionLeftFilled","IconTransitionRight","IconTransitionRightFilled","IconTransitionTop","IconTransitionTopFilled","IconTrash","IconTrashFilled","IconTrashOff","IconTrashX","IconTrashXFilled","IconTreadmill","IconTreasureChest","IconTree","IconTrees","IconTrekking","IconTrendingDown","IconTrendingDown2","IconTrendingDown3","IconTrendingUp","IconTrendingUp2","IconTrendingUp3","IconTrendingUpDown","IconTriangle","IconTriangleFilled","IconTriangleInverted","IconTriangleInvertedFilled","IconTriangleMinus","IconTriangleMinus2","IconTriangleOff","IconTrianglePlus","IconTrianglePlus2","IconTriangleSquareCircle","IconTriangleSquareCircleFilled","IconTriangles","IconTrident","IconTrolley","IconTrolleyFilled","IconTrophy","IconTrophyFilled","IconTrophyOff","IconTrowel","IconTruck","IconTruckDelivery","IconTruckFilled","IconTruckLoading","IconTruckOff","IconTruckReturn","IconTwig","IconTxt","IconTypeface","IconTypography","IconTypographyOff","IconUTurnLeft","IconUTurnRight","IconUfo","IconUfoFilled","IconUfoOff","IconUhd","IconUmbrella","IconUmbrella2","IconUmbrellaClosed","IconUmbrellaClosed2","IconUmbrellaFilled","IconUmbrellaOff","IconUnderline","IconUnderlineOff","IconUnicycle","IconUniverse","IconUnlink","IconUpload","IconUrgent","IconUsb","IconUser","IconUserBitcoin","IconUserBolt","IconUserCancel","IconUserCheck","IconUserCircle","IconUserCode","IconUserCog","IconUserDollar","IconUserDown","IconUserEdit","IconUserExclamation","IconUserFilled","IconUserHeart","IconUserHexagon","IconUserKey","IconUserMinus","IconUserOff","IconUserPause","IconUserPentagon","IconUserPin","IconUserPlus","IconUserQuestion","IconUserScan","IconUserScreen","IconUserSearch","IconUserShare","IconUserShield","IconUserSquare","IconUserSquareRounded","IconUserStar","IconUserUp","IconUserX","IconUsers","IconUsersGroup","IconUsersMinus","IconUsersPlus","IconUvIndex","IconUxCircle","IconVaccine","IconVaccineBottle","IconVaccineBottleOff","IconVaccineOff","IconVacuumCleaner","IconVariable","IconVariableMinus","IconVariableOff","IconVariablePlus","IconVault","IconVector","IconVectorBezier","IconVectorBezier2","IconVectorBezierArc","IconVectorBezierCircle","IconVectorOff","IconVectorSpline","IconVectorTriangle","IconVectorTriangleOff","IconVenus","IconVersions","IconVersionsFilled","IconVersionsOff","IconVideo","IconVideoFilled","IconVideoMinus","IconVideoMinusFilled","IconVideoOff","IconVideoPlus","IconVideoPlusFilled","IconView360","IconView360Arrow","IconView360Number","IconView360Off","IconViewfinder","IconViewfinderOff","IconViewportNarrow","IconViewportShort","IconViewportTall","IconViewportWide","IconVignette","IconVinyl","IconVip","IconVip2","IconVipOff","IconVirtualSpace","IconVirus","IconVirusOff","IconVirusSearch","IconVocabulary","IconVocabularyOff","IconVoice","IconVoice2","IconVolcano","IconVolume","IconVolume2","IconVolume3","IconVolume4","IconVolumeOff","IconVs","IconWalk","IconWall","IconWallOff","IconWallet","IconWalletOff","IconWallpaper","IconWallpaperOff","IconWand","IconWandOff","IconWash","IconWashDry","IconWashDry1","IconWashDry2","IconWashDry3","IconWashDryA","IconWashDryDip","IconWashDryF","IconWashDryFlat","IconWashDryHang","IconWashDryOff","IconWashDryP","IconWashDryShade","IconWashDryW","IconWashDryclean","IconWashDrycleanOff","IconWashEco","IconWashGentle","IconWashHand","IconWashMachine","IconWashOff","IconWashPress","IconWashTemperature1","IconWashTemperature2","IconWashTemperature3","IconWashTemperature4","IconWashTemperature5","IconWashTemperature6","IconWashTumbleDry","IconWashTumbleOff","IconWaterpolo","IconWaveSawTool","IconWaveSine","IconWaveSquare","IconWavesElectricity","IconWebhook","IconWebhookOff","IconWeight","IconWheat","IconWheatOff","IconWheel","IconWheelchair","IconWheelchairOff","IconWhirl","IconWhisk","IconWifi","IconWifi0","IconWifi1","IconWifi2","IconWifiOff","IconWind","IconWindElectricity","IconWindOff","IconWindmill","IconWindmillFilled","IconWindmillOff","IconWindow","IconWindowMaximize","IconWindowMinimize","IconWindowOff","IconWindsock","IconWindsockFilled","IconWiper","IconWiperWash","IconWoman","IconWomanFilled","IconWood","IconWorld","IconWorldBolt","IconWorldCancel","IconWorldCheck","IconWorldCode","IconWorldCog","IconWorldDollar","IconWorldDown","IconWorldDownload","IconWorldExclamation","IconWorldFilled","IconWorldHeart","IconWorldLatitude","IconWorldLongitude","IconWorldMap","IconWorldMinus","IconWorldOff","IconWorldPause","IconWorldPin","IconWorldPlus","IconWorldQuestion","IconWorldSearch","IconWorldShare","IconWorldStar","IconWorldUp","IconWorldUpload","IconWorldWww","IconWorldX","IconWreckingBall","IconWriting","IconWritingFilled","IconWritingOff","IconWritingSign","IconWritingSignFilled","IconWritingSignOff","IconX","IconXFilled","IconXMark","IconXPowerY","IconXboxA","IconXboxAFilled","IconXboxB","IconXboxBFilled","IconXboxX","IconXboxXFilled","IconXboxY","IconXboxYFilled","IconXd","IconXxx","IconYarn","IconYinYang","IconYinYangFilled","IconYoga","IconZeppelin","IconZeppelinFilled","IconZeppelinOff","IconZeroConfig","IconZip","IconZodiacAquarius","IconZodiacAries","IconZodiacCancer","IconZodiacCapricorn","IconZodiacGemini","IconZodiacLeo","IconZodiacLibra","IconZodiacPisces","IconZodiacSagittarius","IconZodiacScorpio","IconZodiacTaurus","IconZodiacVirgo","IconZoom","IconZoomCancel","IconZoomCancelFilled","IconZoomCheck","IconZoomCheckFilled","IconZoomCode","IconZoomCodeFilled","IconZoomExclamation","IconZoomExclamationFilled","IconZoomFilled","IconZoomIn","IconZoomInArea","IconZoomInAreaFilled","IconZoomInFilled","IconZoomMoney","IconZoomMoneyFilled","IconZoomOut","IconZoomOutArea","IconZoomOutAreaFilled","IconZoomOutFilled","IconZoomPan","IconZoomPanFilled","IconZoomQuestion","IconZoomQuestionFilled","IconZoomReplace","IconZoomReset","IconZoomScan","IconZoomScanFilled","IconZzz","IconZzzOff"],
+    loaders: () => import('virtual:story-ui-loaders/@tabler/icons-react').then(module => module.default),
+    aliases: {},
+    description: "Tabler icons named Icon + the PascalCase icon name, e.g. IconSearch, IconHeart, IconSettings, IconUser, IconChevronRight, IconCheck, IconX, IconPlus, IconTrash, IconBell. Size them with size={16} and stroke={1.5}",
+  },
+};
+
+// Compound members of each component and the registry component they are, e.g. Card.Section -> CardSection
+export const compoundComponents: Record<string, Record<string, string>> = {
+  "ScrollArea": {"Autosize":"ScrollAreaAutosize"},
+  "Popover": {"Target":"PopoverTarget","Dropdown":"PopoverDropdown"},
+  "ActionIcon": {"Group":"ActionIconGroup","GroupSection":"ActionIconGroupSection"},
+  "Input": {"Wrapper":"InputWrapper","Label":"InputLabel","Error":"InputError","Description":"InputDescription","Placeholder":"InputPlaceholder","ClearButton":"InputClearButton"},
+  "Accordion": {"Item":"AccordionItem","Panel":"AccordionPanel","Control":"AccordionControl","Chevron":"AccordionChevron"},
+  "AppShell": {"Navbar":"AppShellNavbar","Header":"AppShellHeader","Main":"AppShellMain","Aside":"AppShellAside","Footer":"AppShellFooter","Section":"AppShellSection"},
+  "Avatar": {"Group":"AvatarGroup"},
+  "Button": {"Group":"ButtonGroup","GroupSection":"ButtonGroupSection"},
+  "Card": {"Section":"CardSection"},
+  "Checkbox": {"Group":"CheckboxGroup","Indicator":"CheckboxIndicator","Card":"CheckboxCard"},
+  "Chip": {"Group":"ChipGroup"},
+  "Combobox": {"Target":"ComboboxTarget","Dropdown":"ComboboxDropdown","Options":"ComboboxOptions","Option":"ComboboxOption","Search":"ComboboxSearch","Empty":"ComboboxEmpty","Chevron":"ComboboxChevron","Footer":"ComboboxFooter","Header":"ComboboxHeader","EventsTarget":"ComboboxEventsTarget","DropdownTarget":"ComboboxDropdownTarget","Group":"ComboboxGroup","ClearButton":"ComboboxClearButton","HiddenInput":"ComboboxHiddenInput"},
+  "Drawer": {"Root":"DrawerRoot","Overlay":"DrawerOverlay","Content":"DrawerContent","Body":"DrawerBody","Header":"DrawerHeader","Title":"DrawerTitle","CloseButton":"DrawerCloseButton","Stack":"DrawerStack"},
+  "FocusTrap": {"InitialFocus":"FocusTrapInitialFocus"},
+  "Grid": {"Col":"GridCol"},
+  "HoverCard": {"Target":"HoverCardTarget","Dropdown":"HoverCardDropdown","Group":"HoverCardGroup"},
+  "List": {"Item":"ListItem"},
+  "Menu": {"Item":"MenuItem","Label":"MenuLabel","Dropdown":"MenuDropdown","Target":"MenuTarget","Divider":"MenuDivider"},
+  "Modal": {"Root":"ModalRoot","Overlay":"ModalOverlay","Content":"ModalContent","Body":"ModalBody","Header":"ModalHeader","Title":"ModalTitle","CloseButton":"ModalCloseButton","Stack":"ModalStack"},
+  "Pagination": {"Root":"PaginationRoot","Control":"PaginationControl","Dots":"PaginationDots","First":"PaginationFirst","Last":"PaginationLast","Next":"PaginationNext","Previous":"PaginationPrevious","Items":"PaginationItems"},
+  "Pill": {"Group":"PillGroup"},
+  "PillsInput": {"Field":"PillsInputField"},
+  "Progress": {"Section":"ProgressSection","Root":"ProgressRoot","Label":"ProgressLabel"},
+  "Radio": {"Group":"RadioGroup","Card":"RadioCard","Indicator":"RadioIndicator"},
+  "Stepper": {"Completed":"StepperCompleted","Step":"StepperStep"},
+  "Switch": {"Group":"SwitchGroup"},
+  "Table": {"Td":"TableTd","Th":"TableTh","Tr":"TableTr","Thead":"TableThead","Tbody":"TableTbody","Tfoot":"TableTfoot","Caption":"TableCaption","ScrollContainer":"TableScrollContainer"},
+  "Tabs": {"Tab":"TabsTab","Panel":"TabsPanel","List":"TabsList"},
+  "Timeline": {"Item":"TimelineItem"},
+  "Tooltip": {"Floating":"TooltipFloating","Group":"TooltipGroup"},
+};
@@ -0,0 +1,283 @@
+/**
+ * Component Prop Schema
+ *
+ * AUTO-GENERATED FILE - DO NOT EDIT
+ * This file is generated from the component registry by propSchemaPlugin.ts
+ *
+ * It describes the props of each registry component so generated JSX can be
+ * validated before it renders, and edited in the props inspector.
+ */
+
+export interface PropEnum {
+  /** Allowed string values */
+  values: string[];
+  /** Whether the prop also accepts values outside the list (custom theme values, CSS values) */
+  open: boolean;
+}
+
+export type PropKind = 'boolean' | 'number' | 'string';
+
+export interface ComponentPropSchema {
+  /** Props specific to the component (shared props and DOM attributes are listed separately) */
+  props: string[];
+  required: string[];
+  enums: Record<string, PropEnum>;
+  /** Props typed as a plain boolean, number or string */
+  kinds: Record<string, PropKind>;
+}
+
+// Props accepted by every component (style props, className, ...)
+export const sharedProps: string[] = ["__size","__vars","bd","bdrs","bg","bga","bgp","bgr","bgsz","bottom","c","className","darkHidden","display","ff","flex","fs","fw","fz","h","hiddenFrom","inset","left","lh","lightHidden","lts","m","mah","maw","mb","me","mih","miw","ml","mod","mr","ms","mt","mx","my","opacity","p","pb","pe","pl","pos","pr","ps","pt","px","py","right","style","ta","td","top","tt","visibleFrom","w"];
+
+// DOM attributes, accepted by components that render an element
+export const domProps: string[] = ["about","accept","acceptCharset","accessKey","action","allowFullScreen","allowTransparency","alt","aria-activedescendant","aria-atomic","aria-autocomplete","aria-braillelabel","aria-brailleroledescription","aria-busy","aria-checked","aria-colcount","aria-colindex","aria-colindextext","aria-colspan","aria-controls","aria-current","aria-describedby","aria-description","aria-details","aria-disabled","aria-dropeffect","aria-errormessage","aria-expanded","aria-flowto","aria-grabbed","aria-haspopup","aria-hidden","aria-invalid","aria-keyshortcuts","aria-label","aria-labelledby","aria-level","aria-live","aria-modal","aria-multiline","aria-multiselectable","aria-orientation","aria-owns","aria-placeholder","aria-posinset","aria-pressed","aria-readonly","aria-relevant","aria-required","aria-roledescription","aria-rowcount","aria-rowindex","aria-rowindextext","aria-rowspan","aria-selected","aria-setsize","aria-sort","aria-valuemax","aria-valuemin","aria-valuenow","aria-valuetext","as","async","autoCapitalize","autoComplete","autoCorrect","autoFocus","autoPlay","autoSave","capture","cellPadding","cellSpacing","challenge","charSet","checked","children","cite","classID","className","colSpan","color","cols","content","contentEditable","contextMenu","controls","coords","crossOrigin","dangerouslySetInnerHTML","data","datatype","dateTime","default","defaultChecked","defaultValue","defer","dir","disabled","download","draggable","encType","enterKeyHint","exportparts","form","formAction","formEncType","formMethod","formNoValidate","formTarget","frameBorder","headers","height","hidden","high","href","hrefLang","htmlFor","httpEquiv","id","inlist","inputMode","integrity","is","itemID","itemProp","itemRef","itemScope","itemType","keyParams","keyType","kind","label","lang","list","loop","low","manifest","marginHeight","marginWidth","max","maxLength","media","mediaGroup","method","min","minLength","multiple","muted","name","noValidate","nonce","onAbort","onAbortCapture","onAnimationEnd","onAnimationEndCapture","onAnimationIteration","onAnimationIterationCapture","onAnimationStart","onAnimationStartCapture","onAuxClick","onAuxClickCapture","onBeforeInput","onBeforeInputCapture","onBlur","onBlurCapture","onCanPlay","onCanPlayCapture","onCanPlayThrough","onCanPlayThroughCapture","onChange","onChangeCapture","onClick","onClickCapture","onCompositionEnd","onCompositionEndCapture","onCompositionStart","onCompositionStartCapture","onCompositionUpdate","onCompositionUpdateCapture","onContextMenu","onContextMenuCapture","onCopy","onCopyCapture","onCut","onCutCapture","onDoubleClick","onDoubleClickCapture","onDrag","onDragCapture","onDragEnd","onDragEndCapture","onDragEnter","onDragEnterCapture","onDragExit","onDragExitCapture","onDragLeave","onDragLeaveCapture","onDragOver","onDragOverCapture","onDragStart","onDragStartCapture","onDrop","onDropCapture","onDurationChange","onDurationChangeCapture","onEmptied","onEmptiedCapture","onEncrypted","onEncryptedCapture","onEnded","onEndedCapture","onError","onErrorCapture","onFocus","onFocusCapture","onGotPointerCapture","onGotPointerCaptureCapture","onInput","onInputCapture","onInvalid","onInvalidCapture","onKeyDown","onKeyDownCapture","onKeyPress","onKeyPressCapture","onKeyUp","onKeyUpCapture","onLoad","onLoadCapture","onLoadStart","onLoadStartCapture","onLoadedData","onLoadedDataCapture","onLoadedMetadata","onLoadedMetadataCapture","onLostPointerCapture","onLostPointerCaptureCapture","onMouseDown","onMouseDownCapture","onMouseEnter","onMouseLeave","onMouseMove","onMouseMoveCapture","onMouseOut","onMouseOutCapture","onMouseOver","onMouseOverCapture","onMouseUp","onMouseUpCapture","onPaste","onPasteCapture","onPause","onPauseCapture","onPlay","onPlayCapture","onPlaying","onPlayingCapture","onPointerCancel","onPointerCancelCapture","onPointerDown","onPointerDownCapture","onPointerEnter","onPointerLeave","onPointerMove","onPointerMoveCapture","onPointerOut","onPointerOutCapture","onPointerOver","onPointerOverCapture","onPointerUp","onPointerUpCapture","onProgress","onProgressCapture","onRateChange","onRateChangeCapture","onReset","onResetCapture","onScroll","onScrollCapture","onSeeked","onSeekedCapture","onSeeking","onSeekingCapture","onSelect","onSelectCapture","onStalled","onStalledCapture","onSubmit","onSubmitCapture","onSuspend","onSuspendCapture","onTimeUpdate","onTimeUpdateCapture","onTouchCancel","onTouchCancelCapture","onTouchEnd","onTouchEndCapture","onTouchMove","onTouchMoveCapture","onTouchStart","onTouchStartCapture","onTransitionEnd","onTransitionEndCapture","onVolumeChange","onVolumeChangeCapture","onWaiting","onWaitingCapture","onWheel","onWheelCapture","open","optimum","part","pattern","placeholder","playsInline","poster","prefix","preload","property","radioGroup","readOnly","rel","required","resource","results","rev","reversed","role","rowSpan","rows","sandbox","scope","scoped","scrolling","seamless","security","selected","shape","size","sizes","slot","span","spellCheck","src","srcDoc","srcLang","srcSet","start","step","style","summary","suppressContentEditableWarning","suppressHydrationWarning","tabIndex","target","title","translate","type","typeof","unselectable","useMap","value","vocab","width","wmode","wrap"];
+
+export const componentPropSchema: Record<string, ComponentPropSchema> = {
+  "ColorSchemeScript": {"props":["forceColorScheme","defaultColorScheme","localStorageKey","key","async","blocking","charSet","crossOrigin","defer","integrity","noModule","referrerPolicy","src","type"],"required":[],"enums":{"forceColorScheme":{"values":["light","dark"],"open":false},"defaultColorScheme":{"values":["light","dark","auto"],"open":false},"blocking":{"values":["render"],"open":true},"crossOrigin":{"values":["","anonymous","use-credentials"],"open":false},"referrerPolicy":{"values":["","no-referrer","no-referrer-when-downgrade","origin","origin-when-cross-origin","same-origin","strict-origin","strict-origin-when-cross-origin","unsafe-url"],"open":false}},"kinds":{"localStorageKey":"string","async":"boolean","charSet":"string","defer":"boolean","integrity":"string","noModule":"boolean","src":"string","type":"string"}},
+  "InlineStyles": {"props":["selector","styles","media","container","key","blocking","type","scoped"],"required":["selector"],"enums":{"blocking":{"values":["render"],"open":true}},"kinds":{"selector":"string","type":"string","scoped":"boolean"}},
+  "Box": {"props":[],"required":[],"enums":{},"kinds":{}},
+  "Collapse": {"props":["in","onTransitionEnd","transitionDuration","transitionTimingFunction","animateOpacity","keepMounted","key"],"required":["in"],"enums":{},"kinds":{"in":"boolean","transitionDuration":"number","transitionTimingFunction":"string","animateOpacity":"boolean","keepMounted":"boolean"}},
+  "ScrollArea": {"props":["scrollbarSize","type","scrollHideDelay","scrollbars","offsetScrollbars","viewportRef","viewportProps","onScrollPositionChange","onBottomReached","onTopReached","overscrollBehavior","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"type":{"values":["auto","always","scroll","hover","never"],"open":false},"scrollbars":{"values":["x","y","xy"],"open":true},"offsetScrollbars":{"values":["x","y","present"],"open":true},"overscrollBehavior":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","contain"],"open":true}},"kinds":{"scrollHideDelay":"number","unstyled":"boolean","variant":"string"}},
+  "ScrollAreaAutosize": {"props":["onOverflowChange","scrollbarSize","type","scrollHideDelay","scrollbars","offsetScrollbars","viewportRef","viewportProps","onScrollPositionChange","onBottomReached","onTopReached","overscrollBehavior","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"type":{"values":["auto","always","scroll","hover","never"],"open":false},"scrollbars":{"values":["x","y","xy"],"open":true},"offsetScrollbars":{"values":["x","y","present"],"open":true},"overscrollBehavior":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","contain"],"open":true}},"kinds":{"scrollHideDelay":"number","unstyled":"boolean","variant":"string"}},
+  "UnstyledButton": {"props":["size","unstyled","variant","classNames","styles","vars","attributes"],"required":[],"enums":{},"kinds":{"unstyled":"boolean","variant":"string"}},
+  "VisuallyHidden": {"props":["unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{},"kinds":{"unstyled":"boolean","variant":"string"}},
+  "Paper": {"props":["shadow","radius","withBorder","unstyled","variant","classNames","styles","vars","attributes"],"required":[],"enums":{"shadow":{"values":["xs","sm","md","lg","xl"],"open":true},"radius":{"values":["xs","sm","md","lg","xl"],"open":true}},"kinds":{"withBorder":"boolean","unstyled":"boolean","variant":"string"}},
+  "Popover": {"props":["children","defaultOpened","opened","onChange","closeOnClickOutside","clickOutsideEvents","trapFocus","closeOnEscape","id","withRoles","position","offset","onPositionChange","positionDependencies","onClose","onDismiss","onOpen","keepMounted","transitionProps","onExitTransitionEnd","onEnterTransitionEnd","width","middlewares","withArrow","withOverlay","overlayProps","arrowSize","arrowOffset","arrowRadius","arrowPosition","withinPortal","portalProps","zIndex","radius","shadow","disabled","returnFocus","floatingStrategy","hideDetached","preventPositionChangeWhenVisible","unstyled","variant","classNames","styles","vars","attributes"],"required":[],"enums":{"position":{"values":["top","right","bottom","left","top-end","top-start","right-end","right-start","bottom-end","bottom-start","left-end","left-start"],"open":false},"arrowPosition":{"values":["center","side"],"open":false},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"shadow":{"values":["xs","sm","md","lg","xl"],"open":true},"floatingStrategy":{"values":["fixed","absolute"],"open":false}},"kinds":{"defaultOpened":"boolean","opened":"boolean","closeOnClickOutside":"boolean","trapFocus":"boolean","closeOnEscape":"boolean","id":"string","withRoles":"boolean","keepMounted":"boolean","withArrow":"boolean","withOverlay":"boolean","arrowSize":"number","arrowOffset":"number","arrowRadius":"number","withinPortal":"boolean","disabled":"boolean","returnFocus":"boolean","hideDetached":"boolean","preventPositionChangeWhenVisible":"boolean","unstyled":"boolean","variant":"string"}},
+  "PopoverDropdown": {"props":["styles","variant","vars","classNames","key"],"required":[],"enums":{},"kinds":{"variant":"string"}},
+  "PopoverTarget": {"props":["children","refProp","popupType"],"required":["children"],"enums":{},"kinds":{"refProp":"string","popupType":"string"}},
+  "ActionIcon": {"props":["data-disabled","loading","loaderProps","size","color","radius","gradient","disabled","children","autoContrast","unstyled","variant","classNames","styles","vars","attributes"],"required":[],"enums":{"size":{"values":["xs","sm","md","lg","xl","input-xs","input-sm","input-md","input-lg","input-xl"],"open":true},"color":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"variant":{"values":["light","white","filled","outline","transparent","subtle","default","gradient"],"open":true}},"kinds":{"data-disabled":"boolean","loading":"boolean","disabled":"boolean","autoContrast":"boolean","unstyled":"boolean"}},
+  "ActionIconGroup": {"props":["children","orientation","borderWidth","unstyled","variant","classNames","styles","vars","attributes"],"required":[],"enums":{"orientation":{"values":["horizontal","vertical"],"open":false}},"kinds":{"unstyled":"boolean","variant":"string"}},
+  "ActionIconGroupSection": {"props":["radius","gradient","autoContrast","size","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":true},"variant":{"values":["light","white","filled","outline","transparent","subtle","default","gradient"],"open":true}},"kinds":{"autoContrast":"boolean","unstyled":"boolean"}},
+  "CloseIcon": {"props":["size","string","style","clipPath","filter","mask","path","origin","color","name","scale","fontFamily","radius","spacing","target","width","end","fontSize","key","crossOrigin","type","suppressHydrationWarning","className","id","lang","tabIndex","role","media","opacity","display","x","y","height","max","method","min","accentHeight","accumulate","additive","alignmentBaseline","allowReorder","alphabetic","amplitude","arabicForm","ascent","attributeName","attributeType","autoReverse","azimuth","baseFrequency","baselineShift","baseProfile","bbox","begin","bias","by","calcMode","capHeight","clip","clipPathUnits","clipRule","colorInterpolation","colorInterpolationFilters","colorProfile","colorRendering","contentScriptType","contentStyleType","cursor","cx","cy","d","decelerate","descent","diffuseConstant","direction","divisor","dominantBaseline","dur","dx","dy","edgeMode","elevation","enableBackground","exponent","externalResourcesRequired","fill","fillOpacity","fillRule","filterRes","filterUnits","floodColor","floodOpacity","focusable","fontSizeAdjust","fontStretch","fontStyle","fontVariant","fontWeight","format","fr","from","fx","fy","g1","g2","glyphName","glyphOrientationHorizontal","glyphOrientationVertical","glyphRef","gradientTransform","gradientUnits","hanging","horizAdvX","horizOriginX","href","ideographic","imageRendering","in2","in","intercept","k1","k2","k3","k4","k","kernelMatrix","kernelUnitLength","kerning","keyPoints","keySplines","keyTimes","lengthAdjust","letterSpacing","lightingColor","limitingConeAngle","local","markerEnd","markerHeight","markerMid","markerStart","markerUnits","markerWidth","maskContentUnits","maskUnits","mathematical","mode","numOctaves","offset","operator","order","orient","orientation","overflow","overlinePosition","overlineThickness","paintOrder","panose1","pathLength","patternContentUnits","patternTransform","patternUnits","pointerEvents","points","pointsAtX","pointsAtY","pointsAtZ","preserveAlpha","preserveAspectRatio","primitiveUnits","r","refX","refY","renderingIntent","repeatCount","repeatDur","requiredExtensions","requiredFeatures","restart","result","rotate","rx","ry","seed","shapeRendering","slope","specularConstant","specularExponent","speed","spreadMethod","startOffset","stdDeviation","stemh","stemv","stitchTiles","stopColor","stopOpacity","strikethroughPosition","strikethroughThickness","stroke","strokeDasharray","strokeDashoffset","strokeLinecap","strokeLinejoin","strokeMiterlimit","strokeOpacity","strokeWidth","surfaceScale","systemLanguage","tableValues","targetX","targetY","textAnchor","textDecoration","textLength","textRendering","to","transform","transformOrigin","u1","u2","underlinePosition","underlineThickness","unicode","unicodeBidi","unicodeRange","unitsPerEm","vAlphabetic","values","vectorEffect","version","vertAdvY","vertOriginX","vertOriginY","vHanging","vIdeographic","viewBox","viewTarget","visibility","vMathematical","widths","wordSpacing","writingMode","x1","x2","xChannelSelector","xHeight","xlinkActuate","xlinkArcrole","xlinkHref","xlinkRole","xlinkShow","xlinkTitle","xlinkType","xmlBase","xmlLang","xmlns","xmlnsXlink","xmlSpace","y1","y2","yChannelSelector","z","zoomAndPan"],"required":[],"enums":{"crossOrigin":{"values":["","anonymous","use-credentials"],"open":false},"accumulate":{"values":["none","sum"],"open":false},"additive":{"values":["replace","sum"],"open":false},"alignmentBaseline":{"values":["auto","inherit","alphabetic","hanging","ideographic","mathematical","baseline","before-edge","text-before-edge","middle","central","after-edge","text-after-edge"],"open":false},"allowReorder":{"values":["no","yes"],"open":false},"arabicForm":{"values":["initial","medial","terminal","isolated"],"open":false},"autoReverse":{"values":["true","false"],"open":true},"colorInterpolationFilters":{"values":["auto","inherit","sRGB","linearRGB"],"open":false},"dominantBaseline":{"values":["auto","inherit","alphabetic","hanging","ideographic","mathematical","text-before-edge","middle","central","text-after-edge","use-script","no-change","reset-size"],"open":false},"externalResourcesRequired":{"values":["true","false"],"open":true},"fillRule":{"values":["inherit","nonzero","evenodd"],"open":false},"focusable":{"values":["auto","true","false"],"open":true},"preserveAlpha":{"values":["true","false"],"open":true},"strokeLinecap":{"values":["inherit","butt","round","square"],"open":false},"strokeLinejoin":{"values":["inherit","round","miter","bevel"],"open":false},"textAnchor":{"values":["inherit","end","start","middle"],"open":false}},"kinds":{"size":"string","clipPath":"string","filter":"string","mask":"string","path":"string","color":"string","name":"string","fontFamily":"string","target":"string","type":"string","suppressHydrationWarning":"boolean","className":"string","id":"string","lang":"string","tabIndex":"number","media":"string","method":"string","attributeName":"string","attributeType":"string","d":"string","fill":"string","gradientTransform":"string","gradientUnits":"string","href":"string","in":"string","markerEnd":"string","markerMid":"string","markerStart":"string","patternContentUnits":"string","patternUnits":"string","points":"string","preserveAspectRatio":"string","result":"string","spreadMethod":"string","stopColor":"string","stroke":"string","transform":"string","transformOrigin":"string","values":"string","version":"string","viewBox":"string","xChannelSelector":"string","xlinkActuate":"string","xlinkArcrole":"string","xlinkHref":"string","xlinkRole":"string","xlinkShow":"string","xlinkTitle":"string","xlinkType":"string","xmlBase":"string","xmlLang":"string","xmlns":"string","xmlnsXlink":"string","xmlSpace":"string","yChannelSelector":"string","zoomAndPan":"string"}},
+  "CloseButton": {"props":["data-disabled","size","radius","disabled","iconSize","children","icon","unstyled","variant","classNames","styles","vars","attributes"],"required":[],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":true},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"variant":{"values":["transparent","subtle"],"open":true}},"kinds":{"data-disabled":"boolean","disabled":"boolean","unstyled":"boolean"}},
+  "Group": {"props":["justify","align","wrap","gap","grow","preventGrowOverflow","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"justify":{"values":["center","-moz-initial","inherit","initial","revert","revert-layer","unset","end","start","right","left","space-around","space-between","space-evenly","stretch","flex-end","flex-start","normal"],"open":true},"align":{"values":["center","-moz-initial","inherit","initial","revert","revert-layer","unset","end","start","baseline","stretch","flex-end","flex-start","normal","self-end","self-start","anchor-center"],"open":true},"wrap":{"values":["-moz-initial","inherit","initial","revert","revert-layer","unset","nowrap","wrap","wrap-reverse"],"open":false},"gap":{"values":["xs","sm","md","lg","xl"],"open":true}},"kinds":{"grow":"boolean","preventGrowOverflow":"boolean","unstyled":"boolean","variant":"string"}},
+  "Loader": {"props":["size","color","type","loaders","children","unstyled","variant","classNames","styles","vars","attributes","string","clipPath","filter","mask","path","origin","name","scale","fontFamily","radius","spacing","target","width","end","fontSize","key","crossOrigin","suppressHydrationWarning","id","lang","tabIndex","role","media","x","y","height","max","method","min","accentHeight","accumulate","additive","alignmentBaseline","allowReorder","alphabetic","amplitude","arabicForm","ascent","attributeName","attributeType","autoReverse","azimuth","baseFrequency","baselineShift","baseProfile","bbox","begin","bias","by","calcMode","capHeight","clip","clipPathUnits","clipRule","colorInterpolation","colorInterpolationFilters","colorProfile","colorRendering","contentScriptType","contentStyleType","cursor","cx","cy","d","decelerate","descent","diffuseConstant","direction","divisor","dominantBaseline","dur","dx","dy","edgeMode","elevation","enableBackground","exponent","externalResourcesRequired","fill","fillOpacity","fillRule","filterRes","filterUnits","floodColor","floodOpacity","focusable","fontSizeAdjust","fontStretch","fontStyle","fontVariant","fontWeight","format","fr","from","fx","fy","g1","g2","glyphName","glyphOrientationHorizontal","glyphOrientationVertical","glyphRef","gradientTransform","gradientUnits","hanging","horizAdvX","horizOriginX","href","ideographic","imageRendering","in2","in","intercept","k1","k2","k3","k4","k","kernelMatrix","kernelUnitLength","kerning","keyPoints","keySplines","keyTimes","lengthAdjust","letterSpacing","lightingColor","limitingConeAngle","local","markerEnd","markerHeight","markerMid","markerStart","markerUnits","markerWidth","maskContentUnits","maskUnits","mathematical","mode","numOctaves","offset","operator","order","orient","orientation","overflow","overlinePosition","overlineThickness","paintOrder","panose1","pathLength","patternContentUnits","patternTransform","patternUnits","pointerEvents","points","pointsAtX","pointsAtY","pointsAtZ","preserveAlpha","preserveAspectRatio","primitiveUnits","r","refX","refY","renderingIntent","repeatCount","repeatDur","requiredExtensions","requiredFeatures","restart","result","rotate","rx","ry","seed","shapeRendering","slope","specularConstant","specularExponent","speed","spreadMethod","startOffset","stdDeviation","stemh","stemv","stitchTiles","stopColor","stopOpacity","strikethroughPosition","strikethroughThickness","stroke","strokeDasharray","strokeDashoffset","strokeLinecap","strokeLinejoin","strokeMiterlimit","strokeOpacity","strokeWidth","surfaceScale","systemLanguage","tableValues","targetX","targetY","textAnchor","textDecoration","textLength","textRendering","to","transform","transformOrigin","u1","u2","underlinePosition","underlineThickness","unicode","unicodeBidi","unicodeRange","unitsPerEm","vAlphabetic","values","vectorEffect","version","vertAdvY","vertOriginX","vertOriginY","vHanging","vIdeographic","viewBox","viewTarget","visibility","vMathematical","widths","wordSpacing","writingMode","x1","x2","xChannelSelector","xHeight","xlinkActuate","xlinkArcrole","xlinkHref","xlinkRole","xlinkShow","xlinkTitle","xlinkType","xmlBase","xmlLang","xmlns","xmlnsXlink","xmlSpace","y1","y2","yChannelSelector","z","zoomAndPan"],"required":[],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":true},"color":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"type":{"values":["bars","dots","oval"],"open":true},"crossOrigin":{"values":["","anonymous","use-credentials"],"open":false},"accumulate":{"values":["none","sum"],"open":false},"additive":{"values":["replace","sum"],"open":false},"alignmentBaseline":{"values":["auto","inherit","alphabetic","hanging","ideographic","mathematical","baseline","before-edge","text-before-edge","middle","central","after-edge","text-after-edge"],"open":false},"allowReorder":{"values":["no","yes"],"open":false},"arabicForm":{"values":["initial","medial","terminal","isolated"],"open":false},"autoReverse":{"values":["true","false"],"open":true},"colorInterpolationFilters":{"values":["auto","inherit","sRGB","linearRGB"],"open":false},"dominantBaseline":{"values":["auto","inherit","alphabetic","hanging","ideographic","mathematical","text-before-edge","middle","central","text-after-edge","use-script","no-change","reset-size"],"open":false},"externalResourcesRequired":{"values":["true","false"],"open":true},"fillRule":{"values":["inherit","nonzero","evenodd"],"open":false},"focusable":{"values":["auto","true","false"],"open":true},"preserveAlpha":{"values":["true","false"],"open":true},"strokeLinecap":{"values":["inherit","butt","round","square"],"open":false},"strokeLinejoin":{"values":["inherit","round","miter","bevel"],"open":false},"textAnchor":{"values":["inherit","end","start","middle"],"open":false}},"kinds":{"unstyled":"boolean","variant":"string","clipPath":"string","filter":"string","mask":"string","path":"string","name":"string","fontFamily":"string","target":"string","suppressHydrationWarning":"boolean","id":"string","lang":"string","tabIndex":"number","media":"string","method":"string","attributeName":"string","attributeType":"string","d":"string","fill":"string","gradientTransform":"string","gradientUnits":"string","href":"string","in":"string","markerEnd":"string","markerMid":"string","markerStart":"string","patternContentUnits":"string","patternUnits":"string","points":"string","preserveAspectRatio":"string","result":"string","spreadMethod":"string","stopColor":"string","stroke":"string","transform":"string","transformOrigin":"string","values":"string","version":"string","viewBox":"string","xChannelSelector":"string","xlinkActuate":"string","xlinkArcrole":"string","xlinkHref":"string","xlinkRole":"string","xlinkShow":"string","xlinkTitle":"string","xlinkType":"string","xmlBase":"string","xmlLang":"string","xmlns":"string","xmlnsXlink":"string","xmlSpace":"string","yChannelSelector":"string","zoomAndPan":"string"}},
+  "Overlay": {"props":["backgroundOpacity","color","blur","gradient","zIndex","radius","children","center","fixed","unstyled","variant","classNames","styles","vars","attributes"],"required":[],"enums":{"radius":{"values":["xs","sm","md","lg","xl"],"open":true}},"kinds":{"backgroundOpacity":"number","gradient":"string","center":"boolean","fixed":"boolean","unstyled":"boolean","variant":"string"}},
+  "ModalBase": {"props":["unstyled","keepMounted","opened","onClose","id","lockScroll","trapFocus","withinPortal","portalProps","children","closeOnClickOutside","transitionProps","onExitTransitionEnd","onEnterTransitionEnd","closeOnEscape","returnFocus","zIndex","shadow","padding","size","removeScrollProps","key"],"required":["opened","onClose"],"enums":{"shadow":{"values":["xs","sm","md","lg","xl"],"open":true},"padding":{"values":["xs","sm","md","lg","xl"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":true}},"kinds":{"unstyled":"boolean","keepMounted":"boolean","opened":"boolean","id":"string","lockScroll":"boolean","trapFocus":"boolean","withinPortal":"boolean","closeOnClickOutside":"boolean","closeOnEscape":"boolean","returnFocus":"boolean"}},
+  "ModalBaseBody": {"props":["key"],"required":[],"enums":{},"kinds":{}},
+  "ModalBaseCloseButton": {"props":["data-disabled","size","radius","disabled","iconSize","children","icon","form","name","key","type","formAction","formEncType","formMethod","formNoValidate","formTarget","value"],"required":[],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":true},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"type":{"values":["button","reset","submit"],"open":false}},"kinds":{"data-disabled":"boolean","disabled":"boolean","form":"string","name":"string","formAction":"string","formEncType":"string","formMethod":"string","formNoValidate":"boolean","formTarget":"string"}},
+  "ModalBaseContent": {"props":["transitionProps","shadow","radius","key"],"required":[],"enums":{"shadow":{"values":["xs","sm","md","lg","xl"],"open":true},"radius":{"values":["xs","sm","md","lg","xl"],"open":true}},"kinds":{}},
+  "ModalBaseHeader": {"props":["key"],"required":[],"enums":{},"kinds":{}},
+  "ModalBaseOverlay": {"props":["transitionProps","visible","center","color","fixed","radius","gradient","unstyled","children","attributes","backgroundOpacity","blur","zIndex","key"],"required":[],"enums":{"radius":{"values":["xs","sm","md","lg","xl"],"open":true}},"kinds":{"visible":"boolean","center":"boolean","fixed":"boolean","gradient":"string","unstyled":"boolean","backgroundOpacity":"number"}},
+  "ModalBaseTitle": {"props":["key"],"required":[],"enums":{},"kinds":{}},
+  "Input": {"props":["error","multiline","id","withAria","wrapperProps","leftSection","leftSectionWidth","leftSectionProps","leftSectionPointerEvents","rightSection","rightSectionWidth","rightSectionProps","rightSectionPointerEvents","required","radius","disabled","size","pointer","withErrorStyles","inputSize","unstyled","variant","classNames","styles","vars","attributes"],"required":[],"enums":{"leftSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"rightSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":true},"variant":{"values":["filled","default","unstyled"],"open":true}},"kinds":{"multiline":"boolean","id":"string","withAria":"boolean","required":"boolean","disabled":"boolean","pointer":"boolean","withErrorStyles":"boolean","inputSize":"string","unstyled":"boolean"}},
+  "InputWrapper": {"props":["id","size","labelElement","label","description","error","required","withAsterisk","labelProps","descriptionProps","errorProps","inputContainer","inputWrapperOrder","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":true},"labelElement":{"values":["div","label"],"open":false}},"kinds":{"id":"string","required":"boolean","withAsterisk":"boolean","unstyled":"boolean","variant":"string"}},
+  "InputDescription": {"props":["size","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":true}},"kinds":{"unstyled":"boolean","variant":"string"}},
+  "InputError": {"props":["size","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":true}},"kinds":{"unstyled":"boolean","variant":"string"}},
+  "InputLabel": {"props":["required","size","labelElement","unstyled","variant","classNames","styles","vars","attributes","form","key","htmlFor"],"required":[],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":true},"labelElement":{"values":["div","label"],"open":false}},"kinds":{"required":"boolean","unstyled":"boolean","variant":"string","form":"string","htmlFor":"string"}},
+  "InputPlaceholder": {"props":["error","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{},"kinds":{"unstyled":"boolean","variant":"string"}},
+  "InputClearButton": {"props":["size","unstyled","variant","classNames","styles","vars","attributes","form","name","key","type","disabled","formAction","formEncType","formMethod","formNoValidate","formTarget","value"],"required":[],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":true},"type":{"values":["button","reset","submit"],"open":false}},"kinds":{"unstyled":"boolean","variant":"string","form":"string","name":"string","disabled":"boolean","formAction":"string","formEncType":"string","formMethod":"string","formNoValidate":"boolean","formTarget":"string"}},
+  "InputBase": {"props":["wrapperProps","multiline","withAria","label","description","error","required","withAsterisk","labelProps","descriptionProps","errorProps","inputContainer","inputWrapperOrder","leftSection","leftSectionWidth","leftSectionProps","leftSectionPointerEvents","rightSection","rightSectionWidth","rightSectionProps","rightSectionPointerEvents","radius","disabled","size","pointer","withErrorStyles","inputSize","unstyled","variant","classNames","styles","vars","attributes"],"required":[],"enums":{"leftSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"rightSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":true},"variant":{"values":["filled","default","unstyled"],"open":true}},"kinds":{"multiline":"boolean","withAria":"boolean","required":"boolean","withAsterisk":"boolean","disabled":"boolean","pointer":"boolean","withErrorStyles":"boolean","inputSize":"string","unstyled":"boolean"}},
+  "Flex": {"props":["gap","rowGap","columnGap","align","justify","wrap","direction","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"gap":{"values":["xs","sm","md","lg","xl"],"open":true},"rowGap":{"values":["xs","sm","md","lg","xl"],"open":true},"columnGap":{"values":["xs","sm","md","lg","xl"],"open":true},"align":{"values":["center","-moz-initial","inherit","initial","revert","revert-layer","unset","end","start","baseline","stretch","flex-end","flex-start","normal","self-end","self-start","anchor-center"],"open":true},"justify":{"values":["center","-moz-initial","inherit","initial","revert","revert-layer","unset","end","start","right","left","space-around","space-between","space-evenly","stretch","flex-end","flex-start","normal"],"open":true},"wrap":{"values":["-moz-initial","inherit","initial","revert","revert-layer","unset","nowrap","wrap","wrap-reverse"],"open":true},"direction":{"values":["row","-moz-initial","inherit","initial","revert","revert-layer","unset","column","column-reverse","row-reverse"],"open":true}},"kinds":{"unstyled":"boolean","variant":"string"}},
+  "FloatingIndicator": {"props":["target","parent","transitionDuration","displayAfterTransitionEnd","unstyled","variant","classNames","styles","vars","attributes","key"],"required":["target","parent"],"enums":{},"kinds":{"displayAfterTransitionEnd":"boolean","unstyled":"boolean","variant":"string"}},
+  "Accordion": {"props":["multiple","value","defaultValue","onChange","loop","transitionDuration","disableChevronRotation","chevronPosition","chevronSize","chevronIconSize","order","chevron","radius","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"chevronPosition":{"values":["right","left"],"open":false},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"variant":{"values":["filled","default","contained","separated"],"open":true}},"kinds":{"loop":"boolean","transitionDuration":"number","disableChevronRotation":"boolean","order":"number","unstyled":"boolean"}},
+  "AccordionChevron": {"props":["size","string","style","clipPath","filter","mask","path","origin","color","name","scale","fontFamily","radius","spacing","target","width","end","fontSize","key","crossOrigin","type","suppressHydrationWarning","className","id","lang","tabIndex","role","media","opacity","display","x","y","height","max","method","min","accentHeight","accumulate","additive","alignmentBaseline","allowReorder","alphabetic","amplitude","arabicForm","ascent","attributeName","attributeType","autoReverse","azimuth","baseFrequency","baselineShift","baseProfile","bbox","begin","bias","by","calcMode","capHeight","clip","clipPathUnits","clipRule","colorInterpolation","colorInterpolationFilters","colorProfile","colorRendering","contentScriptType","contentStyleType","cursor","cx","cy","d","decelerate","descent","diffuseConstant","direction","divisor","dominantBaseline","dur","dx","dy","edgeMode","elevation","enableBackground","exponent","externalResourcesRequired","fill","fillOpacity","fillRule","filterRes","filterUnits","floodColor","floodOpacity","focusable","fontSizeAdjust","fontStretch","fontStyle","fontVariant","fontWeight","format","fr","from","fx","fy","g1","g2","glyphName","glyphOrientationHorizontal","glyphOrientationVertical","glyphRef","gradientTransform","gradientUnits","hanging","horizAdvX","horizOriginX","href","ideographic","imageRendering","in2","in","intercept","k1","k2","k3","k4","k","kernelMatrix","kernelUnitLength","kerning","keyPoints","keySplines","keyTimes","lengthAdjust","letterSpacing","lightingColor","limitingConeAngle","local","markerEnd","markerHeight","markerMid","markerStart","markerUnits","markerWidth","maskContentUnits","maskUnits","mathematical","mode","numOctaves","offset","operator","order","orient","orientation","overflow","overlinePosition","overlineThickness","paintOrder","panose1","pathLength","patternContentUnits","patternTransform","patternUnits","pointerEvents","points","pointsAtX","pointsAtY","pointsAtZ","preserveAlpha","preserveAspectRatio","primitiveUnits","r","refX","refY","renderingIntent","repeatCount","repeatDur","requiredExtensions","requiredFeatures","restart","result","rotate","rx","ry","seed","shapeRendering","slope","specularConstant","specularExponent","speed","spreadMethod","startOffset","stdDeviation","stemh","stemv","stitchTiles","stopColor","stopOpacity","strikethroughPosition","strikethroughThickness","stroke","strokeDasharray","strokeDashoffset","strokeLinecap","strokeLinejoin","strokeMiterlimit","strokeOpacity","strokeWidth","surfaceScale","systemLanguage","tableValues","targetX","targetY","textAnchor","textDecoration","textLength","textRendering","to","transform","transformOrigin","u1","u2","underlinePosition","underlineThickness","unicode","unicodeBidi","unicodeRange","unitsPerEm","vAlphabetic","values","vectorEffect","version","vertAdvY","vertOriginX","vertOriginY","vHanging","vIdeographic","viewBox","viewTarget","visibility","vMathematical","widths","wordSpacing","writingMode","x1","x2","xChannelSelector","xHeight","xlinkActuate","xlinkArcrole","xlinkHref","xlinkRole","xlinkShow","xlinkTitle","xlinkType","xmlBase","xmlLang","xmlns","xmlnsXlink","xmlSpace","y1","y2","yChannelSelector","z","zoomAndPan"],"required":[],"enums":{"crossOrigin":{"values":["","anonymous","use-credentials"],"open":false},"accumulate":{"values":["none","sum"],"open":false},"additive":{"values":["replace","sum"],"open":false},"alignmentBaseline":{"values":["auto","inherit","alphabetic","hanging","ideographic","mathematical","baseline","before-edge","text-before-edge","middle","central","after-edge","text-after-edge"],"open":false},"allowReorder":{"values":["no","yes"],"open":false},"arabicForm":{"values":["initial","medial","terminal","isolated"],"open":false},"autoReverse":{"values":["true","false"],"open":true},"colorInterpolationFilters":{"values":["auto","inherit","sRGB","linearRGB"],"open":false},"dominantBaseline":{"values":["auto","inherit","alphabetic","hanging","ideographic","mathematical","text-before-edge","middle","central","text-after-edge","use-script","no-change","reset-size"],"open":false},"externalResourcesRequired":{"values":["true","false"],"open":true},"fillRule":{"values":["inherit","nonzero","evenodd"],"open":false},"focusable":{"values":["auto","true","false"],"open":true},"preserveAlpha":{"values":["true","false"],"open":true},"strokeLinecap":{"values":["inherit","butt","round","square"],"open":false},"strokeLinejoin":{"values":["inherit","round","miter","bevel"],"open":false},"textAnchor":{"values":["inherit","end","start","middle"],"open":false}},"kinds":{"clipPath":"string","filter":"string","mask":"string","path":"string","color":"string","name":"string","fontFamily":"string","target":"string","type":"string","suppressHydrationWarning":"boolean","className":"string","id":"string","lang":"string","tabIndex":"number","media":"string","method":"string","attributeName":"string","attributeType":"string","d":"string","fill":"string","gradientTransform":"string","gradientUnits":"string","href":"string","in":"string","markerEnd":"string","markerMid":"string","markerStart":"string","patternContentUnits":"string","patternUnits":"string","points":"string","preserveAspectRatio":"string","result":"string","spreadMethod":"string","stopColor":"string","stroke":"string","transform":"string","transformOrigin":"string","values":"string","version":"string","viewBox":"string","xChannelSelector":"string","xlinkActuate":"string","xlinkArcrole":"string","xlinkHref":"string","xlinkRole":"string","xlinkShow":"string","xlinkTitle":"string","xlinkType":"string","xmlBase":"string","xmlLang":"string","xmlns":"string","xmlnsXlink":"string","xmlSpace":"string","yChannelSelector":"string","zoomAndPan":"string"}},
+  "AccordionItem": {"props":["value","styles","variant","vars","classNames","key"],"required":["value"],"enums":{},"kinds":{"value":"string","variant":"string"}},
+  "AccordionPanel": {"props":["onTransitionEnd","styles","variant","vars","classNames","key"],"required":[],"enums":{},"kinds":{"variant":"string"}},
+  "AccordionControl": {"props":["disabled","chevron","children","icon","styles","variant","vars","classNames","form","name","key","type","formAction","formEncType","formMethod","formNoValidate","formTarget","value"],"required":[],"enums":{"type":{"values":["button","reset","submit"],"open":false}},"kinds":{"disabled":"boolean","variant":"string","form":"string","name":"string","formAction":"string","formEncType":"string","formMethod":"string","formNoValidate":"boolean","formTarget":"string"}},
+  "Affix": {"props":["zIndex","withinPortal","portalProps","position","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"zIndex":{"values":["auto","-moz-initial","inherit","initial","revert","revert-layer","unset"],"open":true}},"kinds":{"withinPortal":"boolean","unstyled":"boolean","variant":"string"}},
+  "Alert": {"props":["radius","color","title","icon","withCloseButton","onClose","closeButtonLabel","autoContrast","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"color":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"variant":{"values":["light","white","filled","outline","transparent","default"],"open":true}},"kinds":{"withCloseButton":"boolean","closeButtonLabel":"string","autoContrast":"boolean","unstyled":"boolean"}},
+  "Anchor": {"props":["underline","color","inherit","gradient","unstyled","styles","variant","vars","size","attributes","classNames","lineClamp","truncate","inline"],"required":[],"enums":{"underline":{"values":["always","hover","never","not-hover"],"open":false},"color":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"variant":{"values":["text","gradient"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":true},"truncate":{"values":["end","start"],"open":true}},"kinds":{"inherit":"boolean","unstyled":"boolean","lineClamp":"number","inline":"boolean"}},
+  "AngleSlider": {"props":["step","value","defaultValue","onChange","onChangeEnd","onScrubStart","onScrubEnd","withLabel","marks","size","thumbSize","formatLabel","disabled","restrictToMarks","hiddenInputProps","name","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{},"kinds":{"step":"number","value":"number","defaultValue":"number","withLabel":"boolean","size":"number","thumbSize":"number","disabled":"boolean","restrictToMarks":"boolean","name":"string","unstyled":"boolean","variant":"string"}},
+  "AppShell": {"props":["withBorder","padding","navbar","aside","header","footer","transitionDuration","transitionTimingFunction","zIndex","layout","disabled","offsetScrollbars","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"padding":{"values":["xs","sm","md","lg","xl"],"open":true},"transitionTimingFunction":{"values":["-moz-initial","inherit","initial","revert","revert-layer","unset","ease","ease-in","ease-in-out","ease-out","step-end","step-start","linear"],"open":true},"layout":{"values":["default","alt"],"open":false}},"kinds":{"withBorder":"boolean","transitionDuration":"number","disabled":"boolean","offsetScrollbars":"boolean","unstyled":"boolean","variant":"string"}},
+  "AppShellAside": {"props":["withBorder","zIndex","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"zIndex":{"values":["auto","-moz-initial","inherit","initial","revert","revert-layer","unset"],"open":true}},"kinds":{"withBorder":"boolean","unstyled":"boolean","variant":"string"}},
+  "AppShellFooter": {"props":["withBorder","zIndex","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"zIndex":{"values":["auto","-moz-initial","inherit","initial","revert","revert-layer","unset"],"open":true}},"kinds":{"withBorder":"boolean","unstyled":"boolean","variant":"string"}},
+  "AppShellHeader": {"props":["withBorder","zIndex","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"zIndex":{"values":["auto","-moz-initial","inherit","initial","revert","revert-layer","unset"],"open":true}},"kinds":{"withBorder":"boolean","unstyled":"boolean","variant":"string"}},
+  "AppShellNavbar": {"props":["withBorder","zIndex","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"zIndex":{"values":["auto","-moz-initial","inherit","initial","revert","revert-layer","unset"],"open":true}},"kinds":{"withBorder":"boolean","unstyled":"boolean","variant":"string"}},
+  "AppShellSection": {"props":["grow","styles","variant","vars","classNames"],"required":[],"enums":{},"kinds":{"grow":"boolean","variant":"string"}},
+  "AppShellMain": {"props":["styles","variant","vars","classNames","key"],"required":[],"enums":{},"kinds":{"variant":"string"}},
+  "AspectRatio": {"props":["ratio","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{},"kinds":{"ratio":"number","unstyled":"boolean","variant":"string"}},
+  "Autocomplete": {"props":["data","value","defaultValue","onChange","renderOption","scrollAreaProps","onClear","clearButtonProps","clearable","autoSelectOnBlur","label","radius","required","description","error","size","disabled","wrapperProps","withAsterisk","labelProps","descriptionProps","errorProps","inputContainer","inputWrapperOrder","leftSection","leftSectionWidth","leftSectionProps","leftSectionPointerEvents","rightSection","rightSectionWidth","rightSectionProps","rightSectionPointerEvents","withErrorStyles","inputSize","filter","dropdownOpened","defaultDropdownOpened","onDropdownOpen","onDropdownClose","selectFirstOptionOnChange","onOptionSubmit","comboboxProps","limit","withScrollArea","maxDropdownHeight","unstyled","variant","classNames","styles","vars","attributes","form","pattern","list","name","width","placeholder","step","multiple","key","src","type","height","max","min","formAction","formEncType","formMethod","formNoValidate","formTarget","accept","alt","autoComplete","capture","checked","maxLength","minLength","readOnly"],"required":[],"enums":{"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":true},"leftSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"rightSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"variant":{"values":["filled","default","unstyled"],"open":true},"type":{"values":["number","button","search","time","image","text","checkbox","radio","color","date","datetime-local","email","file","hidden","month","password","range","reset","submit","tel","url","week"],"open":true},"capture":{"values":["user","environment"],"open":true}},"kinds":{"value":"string","defaultValue":"string","clearable":"boolean","autoSelectOnBlur":"boolean","required":"boolean","disabled":"boolean","withAsterisk":"boolean","withErrorStyles":"boolean","inputSize":"string","dropdownOpened":"boolean","defaultDropdownOpened":"boolean","selectFirstOptionOnChange":"boolean","limit":"number","withScrollArea":"boolean","unstyled":"boolean","form":"string","pattern":"string","list":"string","name":"string","placeholder":"string","multiple":"boolean","src":"string","formAction":"string","formEncType":"string","formMethod":"string","formNoValidate":"boolean","formTarget":"string","accept":"string","alt":"string","checked":"boolean","maxLength":"number","minLength":"number","readOnly":"boolean"}},
+  "Avatar": {"props":["size","radius","color","gradient","src","alt","imageProps","children","autoContrast","name","allowedInitialsColors","unstyled","variant","classNames","styles","vars","attributes"],"required":[],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":true},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"color":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal","initials"],"open":true},"variant":{"values":["light","white","filled","outline","transparent","default","gradient"],"open":true}},"kinds":{"src":"string","alt":"string","autoContrast":"boolean","name":"string","unstyled":"boolean"}},
+  "AvatarGroup": {"props":["spacing","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"spacing":{"values":["xs","sm","md","lg","xl"],"open":true}},"kinds":{"unstyled":"boolean","variant":"string"}},
+  "BackgroundImage": {"props":["radius","src","unstyled","variant","classNames","styles","vars","attributes"],"required":["src"],"enums":{"radius":{"values":["xs","sm","md","lg","xl"],"open":true}},"kinds":{"src":"string","unstyled":"boolean","variant":"string"}},
+  "Badge": {"props":["size","circle","radius","color","gradient","leftSection","rightSection","fullWidth","children","autoContrast","unstyled","variant","classNames","styles","vars","attributes"],"required":[],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":true},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"color":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"variant":{"values":["light","white","filled","outline","transparent","default","gradient","dot"],"open":true}},"kinds":{"circle":"boolean","fullWidth":"boolean","autoContrast":"boolean","unstyled":"boolean"}},
+  "Blockquote": {"props":["icon","iconSize","color","radius","cite","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"color":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"radius":{"values":["xs","sm","md","lg","xl"],"open":true}},"kinds":{"unstyled":"boolean","variant":"string"}},
+  "Breadcrumbs": {"props":["separator","separatorMargin","children","unstyled","variant","classNames","styles","vars","attributes","key"],"required":["children"],"enums":{"separatorMargin":{"values":["xs","sm","md","lg","xl"],"open":true}},"kinds":{"unstyled":"boolean","variant":"string"}},
+  "Burger": {"props":["size","lineSize","color","opened","transitionDuration","transitionTimingFunction","unstyled","variant","classNames","styles","vars","attributes","form","name","key","type","disabled","formAction","formEncType","formMethod","formNoValidate","formTarget","value"],"required":[],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":true},"color":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"type":{"values":["button","reset","submit"],"open":false}},"kinds":{"opened":"boolean","transitionDuration":"number","transitionTimingFunction":"string","unstyled":"boolean","variant":"string","form":"string","name":"string","disabled":"boolean","formAction":"string","formEncType":"string","formMethod":"string","formNoValidate":"boolean","formTarget":"string"}},
+  "Button": {"props":["data-disabled","size","color","justify","leftSection","rightSection","fullWidth","radius","gradient","disabled","children","loading","loaderProps","autoContrast","unstyled","variant","classNames","styles","vars","attributes"],"required":[],"enums":{"size":{"values":["xs","sm","md","lg","xl","compact-xs","compact-sm","compact-md","compact-lg","compact-xl"],"open":true},"color":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"justify":{"values":["center","-moz-initial","inherit","initial","revert","revert-layer","unset","end","start","right","left","space-around","space-between","space-evenly","stretch","flex-end","flex-start","normal"],"open":true},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"variant":{"values":["light","white","filled","outline","transparent","subtle","default","gradient"],"open":true}},"kinds":{"data-disabled":"boolean","fullWidth":"boolean","disabled":"boolean","loading":"boolean","autoContrast":"boolean","unstyled":"boolean"}},
+  "ButtonGroup": {"props":["children","orientation","borderWidth","unstyled","variant","classNames","styles","vars","attributes"],"required":[],"enums":{"orientation":{"values":["horizontal","vertical"],"open":false}},"kinds":{"unstyled":"boolean","variant":"string"}},
+  "ButtonGroupSection": {"props":["radius","gradient","autoContrast","size","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"size":{"values":["xs","sm","md","lg","xl","compact-xs","compact-sm","compact-md","compact-lg","compact-xl"],"open":true},"variant":{"values":["light","white","filled","outline","transparent","subtle","default","gradient"],"open":true}},"kinds":{"autoContrast":"boolean","unstyled":"boolean"}},
+  "Card": {"props":["shadow","radius","withBorder","padding","children","unstyled","variant","classNames","styles","vars","attributes"],"required":[],"enums":{"shadow":{"values":["xs","sm","md","lg","xl"],"open":true},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"padding":{"values":["xs","sm","md","lg","xl"],"open":true}},"kinds":{"withBorder":"boolean","unstyled":"boolean","variant":"string"}},
+  "CardSection": {"props":["withBorder","inheritPadding","styles","variant","vars","classNames"],"required":[],"enums":{},"kinds":{"withBorder":"boolean","inheritPadding":"boolean","variant":"string"}},
+  "Center": {"props":["children","inline","unstyled","variant","classNames","styles","vars","attributes"],"required":[],"enums":{},"kinds":{"inline":"boolean","unstyled":"boolean","variant":"string"}},
+  "Checkbox": {"props":["id","label","color","size","radius","wrapperProps","labelPosition","description","error","indeterminate","icon","rootRef","iconColor","autoContrast","unstyled","variant","classNames","styles","vars","attributes","form","pattern","list","name","width","required","placeholder","step","multiple","key","src","type","onChange","height","max","min","disabled","formAction","formEncType","formMethod","formNoValidate","formTarget","value","accept","alt","autoComplete","capture","checked","maxLength","minLength","readOnly"],"required":[],"enums":{"color":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":true},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"labelPosition":{"values":["right","left"],"open":false},"iconColor":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"variant":{"values":["filled","outline"],"open":true},"type":{"values":["number","button","search","time","image","text","checkbox","radio","color","date","datetime-local","email","file","hidden","month","password","range","reset","submit","tel","url","week"],"open":true},"capture":{"values":["user","environment"],"open":true}},"kinds":{"id":"string","indeterminate":"boolean","autoContrast":"boolean","unstyled":"boolean","form":"string","pattern":"string","list":"string","name":"string","required":"boolean","placeholder":"string","multiple":"boolean","src":"string","disabled":"boolean","formAction":"string","formEncType":"string","formMethod":"string","formNoValidate":"boolean","formTarget":"string","accept":"string","alt":"string","checked":"boolean","maxLength":"number","minLength":"number","readOnly":"boolean"}},
+  "CheckboxGroup": {"props":["children","value","defaultValue","onChange","wrapperProps","size","readOnly","disabled","label","required","description","error","unstyled","key","id","styles","variant","vars","attributes","classNames","withAsterisk","labelProps","descriptionProps","errorProps","inputContainer","inputWrapperOrder","labelElement"],"required":["children"],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":true},"labelElement":{"values":["div","label"],"open":false}},"kinds":{"readOnly":"boolean","disabled":"boolean","required":"boolean","unstyled":"boolean","id":"string","variant":"string","withAsterisk":"boolean"}},
+  "CheckIcon": {"props":["size","string","style","clipPath","filter","mask","path","origin","color","name","scale","fontFamily","radius","spacing","target","width","end","fontSize","key","crossOrigin","type","suppressHydrationWarning","className","id","lang","tabIndex","role","media","opacity","display","x","y","height","max","method","min","accentHeight","accumulate","additive","alignmentBaseline","allowReorder","alphabetic","amplitude","arabicForm","ascent","attributeName","attributeType","autoReverse","azimuth","baseFrequency","baselineShift","baseProfile","bbox","begin","bias","by","calcMode","capHeight","clip","clipPathUnits","clipRule","colorInterpolation","colorInterpolationFilters","colorProfile","colorRendering","contentScriptType","contentStyleType","cursor","cx","cy","d","decelerate","descent","diffuseConstant","direction","divisor","dominantBaseline","dur","dx","dy","edgeMode","elevation","enableBackground","exponent","externalResourcesRequired","fill","fillOpacity","fillRule","filterRes","filterUnits","floodColor","floodOpacity","focusable","fontSizeAdjust","fontStretch","fontStyle","fontVariant","fontWeight","format","fr","from","fx","fy","g1","g2","glyphName","glyphOrientationHorizontal","glyphOrientationVertical","glyphRef","gradientTransform","gradientUnits","hanging","horizAdvX","horizOriginX","href","ideographic","imageRendering","in2","in","intercept","k1","k2","k3","k4","k","kernelMatrix","kernelUnitLength","kerning","keyPoints","keySplines","keyTimes","lengthAdjust","letterSpacing","lightingColor","limitingConeAngle","local","markerEnd","markerHeight","markerMid","markerStart","markerUnits","markerWidth","maskContentUnits","maskUnits","mathematical","mode","numOctaves","offset","operator","order","orient","orientation","overflow","overlinePosition","overlineThickness","paintOrder","panose1","pathLength","patternContentUnits","patternTransform","patternUnits","pointerEvents","points","pointsAtX","pointsAtY","pointsAtZ","preserveAlpha","preserveAspectRatio","primitiveUnits","r","refX","refY","renderingIntent","repeatCount","repeatDur","requiredExtensions","requiredFeatures","restart","result","rotate","rx","ry","seed","shapeRendering","slope","specularConstant","specularExponent","speed","spreadMethod","startOffset","stdDeviation","stemh","stemv","stitchTiles","stopColor","stopOpacity","strikethroughPosition","strikethroughThickness","stroke","strokeDasharray","strokeDashoffset","strokeLinecap","strokeLinejoin","strokeMiterlimit","strokeOpacity","strokeWidth","surfaceScale","systemLanguage","tableValues","targetX","targetY","textAnchor","textDecoration","textLength","textRendering","to","transform","transformOrigin","u1","u2","underlinePosition","underlineThickness","unicode","unicodeBidi","unicodeRange","unitsPerEm","vAlphabetic","values","vectorEffect","version","vertAdvY","vertOriginX","vertOriginY","vHanging","vIdeographic","viewBox","viewTarget","visibility","vMathematical","widths","wordSpacing","writingMode","x1","x2","xChannelSelector","xHeight","xlinkActuate","xlinkArcrole","xlinkHref","xlinkRole","xlinkShow","xlinkTitle","xlinkType","xmlBase","xmlLang","xmlns","xmlnsXlink","xmlSpace","y1","y2","yChannelSelector","z","zoomAndPan"],"required":[],"enums":{"crossOrigin":{"values":["","anonymous","use-credentials"],"open":false},"accumulate":{"values":["none","sum"],"open":false},"additive":{"values":["replace","sum"],"open":false},"alignmentBaseline":{"values":["auto","inherit","alphabetic","hanging","ideographic","mathematical","baseline","before-edge","text-before-edge","middle","central","after-edge","text-after-edge"],"open":false},"allowReorder":{"values":["no","yes"],"open":false},"arabicForm":{"values":["initial","medial","terminal","isolated"],"open":false},"autoReverse":{"values":["true","false"],"open":true},"colorInterpolationFilters":{"values":["auto","inherit","sRGB","linearRGB"],"open":false},"dominantBaseline":{"values":["auto","inherit","alphabetic","hanging","ideographic","mathematical","text-before-edge","middle","central","text-after-edge","use-script","no-change","reset-size"],"open":false},"externalResourcesRequired":{"values":["true","false"],"open":true},"fillRule":{"values":["inherit","nonzero","evenodd"],"open":false},"focusable":{"values":["auto","true","false"],"open":true},"preserveAlpha":{"values":["true","false"],"open":true},"strokeLinecap":{"values":["inherit","butt","round","square"],"open":false},"strokeLinejoin":{"values":["inherit","round","miter","bevel"],"open":false},"textAnchor":{"values":["inherit","end","start","middle"],"open":false}},"kinds":{"clipPath":"string","filter":"string","mask":"string","path":"string","color":"string","name":"string","fontFamily":"string","target":"string","type":"string","suppressHydrationWarning":"boolean","className":"string","id":"string","lang":"string","tabIndex":"number","media":"string","method":"string","attributeName":"string","attributeType":"string","d":"string","fill":"string","gradientTransform":"string","gradientUnits":"string","href":"string","in":"string","markerEnd":"string","markerMid":"string","markerStart":"string","patternContentUnits":"string","patternUnits":"string","points":"string","preserveAspectRatio":"string","result":"string","spreadMethod":"string","stopColor":"string","stroke":"string","transform":"string","transformOrigin":"string","values":"string","version":"string","viewBox":"string","xChannelSelector":"string","xlinkActuate":"string","xlinkArcrole":"string","xlinkHref":"string","xlinkRole":"string","xlinkShow":"string","xlinkTitle":"string","xlinkType":"string","xmlBase":"string","xmlLang":"string","xmlns":"string","xmlnsXlink":"string","xmlSpace":"string","yChannelSelector":"string","zoomAndPan":"string"}},
+  "CheckboxIndicator": {"props":["color","size","radius","iconColor","autoContrast","indeterminate","icon","checked","disabled","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"color":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":true},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"iconColor":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"variant":{"values":["filled","outline"],"open":true}},"kinds":{"autoContrast":"boolean","indeterminate":"boolean","checked":"boolean","disabled":"boolean","unstyled":"boolean"}},
+  "CheckboxCard": {"props":["checked","defaultChecked","onChange","withBorder","radius","value","unstyled","variant","classNames","styles","vars","attributes","form","name","key","type","disabled","formAction","formEncType","formMethod","formNoValidate","formTarget"],"required":[],"enums":{"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"type":{"values":["button","reset","submit"],"open":false}},"kinds":{"checked":"boolean","defaultChecked":"boolean","withBorder":"boolean","value":"string","unstyled":"boolean","variant":"string","form":"string","name":"string","disabled":"boolean","formAction":"string","formEncType":"string","formMethod":"string","formNoValidate":"boolean","formTarget":"string"}},
+  "Chip": {"props":["radius","size","type","children","checked","defaultChecked","onChange","color","id","wrapperProps","icon","rootRef","autoContrast","unstyled","variant","classNames","styles","vars","attributes","form","pattern","list","name","width","required","placeholder","step","multiple","key","src","height","max","min","disabled","formAction","formEncType","formMethod","formNoValidate","formTarget","value","accept","alt","autoComplete","capture","maxLength","minLength","readOnly"],"required":["children"],"enums":{"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":false},"type":{"values":["checkbox","radio"],"open":false},"color":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"variant":{"values":["light","filled","outline"],"open":true},"capture":{"values":["user","environment"],"open":true}},"kinds":{"checked":"boolean","defaultChecked":"boolean","id":"string","autoContrast":"boolean","unstyled":"boolean","form":"string","pattern":"string","list":"string","name":"string","required":"boolean","placeholder":"string","multiple":"boolean","src":"string","disabled":"boolean","formAction":"string","formEncType":"string","formMethod":"string","formNoValidate":"boolean","formTarget":"string","accept":"string","alt":"string","maxLength":"number","minLength":"number","readOnly":"boolean"}},
+  "ChipGroup": {"props":["multiple","value","defaultValue","onChange","children"],"required":[],"enums":{},"kinds":{}},
+  "Code": {"props":["color","block","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"color":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true}},"kinds":{"block":"boolean","unstyled":"boolean","variant":"string"}},
+  "ColorPicker": {"props":["fullWidth","focusable","saturationLabel","hueLabel","alphaLabel","onColorSwatchClick","value","defaultValue","onChange","onChangeEnd","format","withPicker","swatches","swatchesPerRow","size","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"format":{"values":["hex","hexa","rgba","rgb","hsl","hsla"],"open":false},"size":{"values":["xs","sm","md","lg","xl"],"open":true}},"kinds":{"fullWidth":"boolean","focusable":"boolean","saturationLabel":"string","hueLabel":"string","alphaLabel":"string","value":"string","defaultValue":"string","withPicker":"boolean","swatchesPerRow":"number","unstyled":"boolean","variant":"string"}},
+  "ColorInput": {"props":["disallowInput","fixOnBlur","popoverProps","withPreview","withEyeDropper","eyeDropperIcon","closeOnColorSwatchClick","eyeDropperButtonProps","wrapperProps","label","description","error","required","withAsterisk","labelProps","descriptionProps","errorProps","inputContainer","inputWrapperOrder","leftSection","leftSectionWidth","leftSectionProps","leftSectionPointerEvents","rightSection","rightSectionWidth","rightSectionProps","rightSectionPointerEvents","radius","disabled","size","pointer","withErrorStyles","inputSize","value","defaultValue","onChange","onChangeEnd","format","withPicker","swatches","swatchesPerRow","unstyled","variant","classNames","styles","vars","attributes","form","pattern","list","name","width","placeholder","step","multiple","key","src","type","height","max","min","formAction","formEncType","formMethod","formNoValidate","formTarget","accept","alt","autoComplete","capture","checked","maxLength","minLength","readOnly"],"required":[],"enums":{"leftSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"rightSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":true},"format":{"values":["hex","hexa","rgba","rgb","hsl","hsla"],"open":false},"variant":{"values":["filled","default","unstyled"],"open":true},"type":{"values":["number","button","search","time","image","text","checkbox","radio","color","date","datetime-local","email","file","hidden","month","password","range","reset","submit","tel","url","week"],"open":true},"capture":{"values":["user","environment"],"open":true}},"kinds":{"disallowInput":"boolean","fixOnBlur":"boolean","withPreview":"boolean","withEyeDropper":"boolean","closeOnColorSwatchClick":"boolean","required":"boolean","withAsterisk":"boolean","disabled":"boolean","pointer":"boolean","withErrorStyles":"boolean","inputSize":"string","value":"string","defaultValue":"string","withPicker":"boolean","swatchesPerRow":"number","unstyled":"boolean","form":"string","pattern":"string","list":"string","name":"string","placeholder":"string","multiple":"boolean","src":"string","formAction":"string","formEncType":"string","formMethod":"string","formNoValidate":"boolean","formTarget":"string","accept":"string","alt":"string","checked":"boolean","maxLength":"number","minLength":"number","readOnly":"boolean"}},
+  "ColorSwatch": {"props":["color","size","radius","withShadow","children","unstyled","variant","classNames","styles","vars","attributes"],"required":["color"],"enums":{"radius":{"values":["xs","sm","md","lg","xl"],"open":true}},"kinds":{"color":"string","withShadow":"boolean","unstyled":"boolean","variant":"string"}},
+  "ComboboxChevron": {"props":["size","error","color","unstyled","variant","classNames","styles","vars","attributes","string","clipPath","filter","mask","path","origin","name","scale","fontFamily","radius","spacing","target","width","end","fontSize","key","crossOrigin","type","suppressHydrationWarning","id","lang","tabIndex","role","media","x","y","height","max","method","min","accentHeight","accumulate","additive","alignmentBaseline","allowReorder","alphabetic","amplitude","arabicForm","ascent","attributeName","attributeType","autoReverse","azimuth","baseFrequency","baselineShift","baseProfile","bbox","begin","bias","by","calcMode","capHeight","clip","clipPathUnits","clipRule","colorInterpolation","colorInterpolationFilters","colorProfile","colorRendering","contentScriptType","contentStyleType","cursor","cx","cy","d","decelerate","descent","diffuseConstant","direction","divisor","dominantBaseline","dur","dx","dy","edgeMode","elevation","enableBackground","exponent","externalResourcesRequired","fill","fillOpacity","fillRule","filterRes","filterUnits","floodColor","floodOpacity","focusable","fontSizeAdjust","fontStretch","fontStyle","fontVariant","fontWeight","format","fr","from","fx","fy","g1","g2","glyphName","glyphOrientationHorizontal","glyphOrientationVertical","glyphRef","gradientTransform","gradientUnits","hanging","horizAdvX","horizOriginX","href","ideographic","imageRendering","in2","in","intercept","k1","k2","k3","k4","k","kernelMatrix","kernelUnitLength","kerning","keyPoints","keySplines","keyTimes","lengthAdjust","letterSpacing","lightingColor","limitingConeAngle","local","markerEnd","markerHeight","markerMid","markerStart","markerUnits","markerWidth","maskContentUnits","maskUnits","mathematical","mode","numOctaves","offset","operator","order","orient","orientation","overflow","overlinePosition","overlineThickness","paintOrder","panose1","pathLength","patternContentUnits","patternTransform","patternUnits","pointerEvents","points","pointsAtX","pointsAtY","pointsAtZ","preserveAlpha","preserveAspectRatio","primitiveUnits","r","refX","refY","renderingIntent","repeatCount","repeatDur","requiredExtensions","requiredFeatures","restart","result","rotate","rx","ry","seed","shapeRendering","slope","specularConstant","specularExponent","speed","spreadMethod","startOffset","stdDeviation","stemh","stemv","stitchTiles","stopColor","stopOpacity","strikethroughPosition","strikethroughThickness","stroke","strokeDasharray","strokeDashoffset","strokeLinecap","strokeLinejoin","strokeMiterlimit","strokeOpacity","strokeWidth","surfaceScale","systemLanguage","tableValues","targetX","targetY","textAnchor","textDecoration","textLength","textRendering","to","transform","transformOrigin","u1","u2","underlinePosition","underlineThickness","unicode","unicodeBidi","unicodeRange","unitsPerEm","vAlphabetic","values","vectorEffect","version","vertAdvY","vertOriginX","vertOriginY","vHanging","vIdeographic","viewBox","viewTarget","visibility","vMathematical","widths","wordSpacing","writingMode","x1","x2","xChannelSelector","xHeight","xlinkActuate","xlinkArcrole","xlinkHref","xlinkRole","xlinkShow","xlinkTitle","xlinkType","xmlBase","xmlLang","xmlns","xmlnsXlink","xmlSpace","y1","y2","yChannelSelector","z","zoomAndPan"],"required":[],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":true},"color":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"crossOrigin":{"values":["","anonymous","use-credentials"],"open":false},"accumulate":{"values":["none","sum"],"open":false},"additive":{"values":["replace","sum"],"open":false},"alignmentBaseline":{"values":["auto","inherit","alphabetic","hanging","ideographic","mathematical","baseline","before-edge","text-before-edge","middle","central","after-edge","text-after-edge"],"open":false},"allowReorder":{"values":["no","yes"],"open":false},"arabicForm":{"values":["initial","medial","terminal","isolated"],"open":false},"autoReverse":{"values":["true","false"],"open":true},"colorInterpolationFilters":{"values":["auto","inherit","sRGB","linearRGB"],"open":false},"dominantBaseline":{"values":["auto","inherit","alphabetic","hanging","ideographic","mathematical","text-before-edge","middle","central","text-after-edge","use-script","no-change","reset-size"],"open":false},"externalResourcesRequired":{"values":["true","false"],"open":true},"fillRule":{"values":["inherit","nonzero","evenodd"],"open":false},"focusable":{"values":["auto","true","false"],"open":true},"preserveAlpha":{"values":["true","false"],"open":true},"strokeLinecap":{"values":["inherit","butt","round","square"],"open":false},"strokeLinejoin":{"values":["inherit","round","miter","bevel"],"open":false},"textAnchor":{"values":["inherit","end","start","middle"],"open":false}},"kinds":{"unstyled":"boolean","variant":"string","clipPath":"string","filter":"string","mask":"string","path":"string","name":"string","fontFamily":"string","target":"string","type":"string","suppressHydrationWarning":"boolean","id":"string","lang":"string","tabIndex":"number","media":"string","method":"string","attributeName":"string","attributeType":"string","d":"string","fill":"string","gradientTransform":"string","gradientUnits":"string","href":"string","in":"string","markerEnd":"string","markerMid":"string","markerStart":"string","patternContentUnits":"string","patternUnits":"string","points":"string","preserveAspectRatio":"string","result":"string","spreadMethod":"string","stopColor":"string","stroke":"string","transform":"string","transformOrigin":"string","values":"string","version":"string","viewBox":"string","xChannelSelector":"string","xlinkActuate":"string","xlinkArcrole":"string","xlinkHref":"string","xlinkRole":"string","xlinkShow":"string","xlinkTitle":"string","xlinkType":"string","xmlBase":"string","xmlLang":"string","xmlns":"string","xmlnsXlink":"string","xmlSpace":"string","yChannelSelector":"string","zoomAndPan":"string"}},
+  "Combobox": {"props":["children","store","onOptionSubmit","size","dropdownPadding","resetSelectionOnOptionHover","readOnly","position","offset","onPositionChange","positionDependencies","onClose","onDismiss","onOpen","keepMounted","transitionProps","onExitTransitionEnd","onEnterTransitionEnd","width","middlewares","withArrow","withOverlay","overlayProps","arrowSize","arrowOffset","arrowRadius","arrowPosition","withinPortal","portalProps","zIndex","radius","shadow","disabled","returnFocus","floatingStrategy","hideDetached","preventPositionChangeWhenVisible","unstyled","variant","classNames","styles","vars","attributes"],"required":[],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":true},"position":{"values":["top","right","bottom","left","top-end","top-start","right-end","right-start","bottom-end","bottom-start","left-end","left-start"],"open":false},"arrowPosition":{"values":["center","side"],"open":false},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"shadow":{"values":["xs","sm","md","lg","xl"],"open":true},"floatingStrategy":{"values":["fixed","absolute"],"open":false}},"kinds":{"resetSelectionOnOptionHover":"boolean","readOnly":"boolean","keepMounted":"boolean","withArrow":"boolean","withOverlay":"boolean","arrowSize":"number","arrowOffset":"number","arrowRadius":"number","withinPortal":"boolean","disabled":"boolean","returnFocus":"boolean","hideDetached":"boolean","preventPositionChangeWhenVisible":"boolean","unstyled":"boolean","variant":"string"}},
+  "ComboboxDropdown": {"props":["hidden","styles","variant","vars","classNames","key"],"required":[],"enums":{},"kinds":{"hidden":"boolean","variant":"string"}},
+  "ComboboxOptions": {"props":["labelledBy","styles","variant","vars","classNames","key"],"required":[],"enums":{},"kinds":{"labelledBy":"string","variant":"string"}},
+  "ComboboxOption": {"props":["value","active","disabled","selected","styles","variant","vars","classNames","key"],"required":["value"],"enums":{},"kinds":{"value":"string","active":"boolean","disabled":"boolean","selected":"boolean","variant":"string"}},
+  "ComboboxTarget": {"props":["children","refProp","withKeyboardNavigation","withAriaAttributes","withExpandedAttribute","targetType","autoComplete"],"required":["children"],"enums":{"targetType":{"values":["button","input"],"open":false}},"kinds":{"refProp":"string","withKeyboardNavigation":"boolean","withAriaAttributes":"boolean","withExpandedAttribute":"boolean","autoComplete":"string"}},
+  "ComboboxSearch": {"props":["withAriaAttributes","withKeyboardNavigation","error","multiline","id","withAria","wrapperProps","leftSection","leftSectionWidth","leftSectionProps","leftSectionPointerEvents","rightSection","rightSectionWidth","rightSectionProps","rightSectionPointerEvents","required","radius","disabled","size","pointer","withErrorStyles","inputSize","unstyled","variant","classNames","styles","vars","attributes","form","pattern","list","name","width","placeholder","step","multiple","key","src","type","onChange","height","max","min","formAction","formEncType","formMethod","formNoValidate","formTarget","value","accept","alt","autoComplete","capture","checked","maxLength","minLength","readOnly"],"required":[],"enums":{"leftSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"rightSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":true},"variant":{"values":["filled","default","unstyled"],"open":true},"type":{"values":["number","button","search","time","image","text","checkbox","radio","color","date","datetime-local","email","file","hidden","month","password","range","reset","submit","tel","url","week"],"open":true},"capture":{"values":["user","environment"],"open":true}},"kinds":{"withAriaAttributes":"boolean","withKeyboardNavigation":"boolean","multiline":"boolean","id":"string","withAria":"boolean","required":"boolean","disabled":"boolean","pointer":"boolean","withErrorStyles":"boolean","inputSize":"string","unstyled":"boolean","form":"string","pattern":"string","list":"string","name":"string","placeholder":"string","multiple":"boolean","src":"string","formAction":"string","formEncType":"string","formMethod":"string","formNoValidate":"boolean","formTarget":"string","accept":"string","alt":"string","checked":"boolean","maxLength":"number","minLength":"number","readOnly":"boolean"}},
+  "ComboboxEmpty": {"props":["styles","variant","vars","classNames","key"],"required":[],"enums":{},"kinds":{"variant":"string"}},
+  "ComboboxFooter": {"props":["styles","variant","vars","classNames","key"],"required":[],"enums":{},"kinds":{"variant":"string"}},
+  "ComboboxHeader": {"props":["styles","variant","vars","classNames","key"],"required":[],"enums":{},"kinds":{"variant":"string"}},
+  "ComboboxEventsTarget": {"props":["children","refProp","withKeyboardNavigation","withAriaAttributes","withExpandedAttribute","targetType","autoComplete"],"required":["children"],"enums":{"targetType":{"values":["button","input"],"open":false}},"kinds":{"refProp":"string","withKeyboardNavigation":"boolean","withAriaAttributes":"boolean","withExpandedAttribute":"boolean","autoComplete":"string"}},
+  "ComboboxDropdownTarget": {"props":["children","refProp"],"required":["children"],"enums":{},"kinds":{"refProp":"string"}},
+  "ComboboxGroup": {"props":["label","styles","variant","vars","classNames","key"],"required":[],"enums":{},"kinds":{"variant":"string"}},
+  "ComboboxClearButton": {"props":["onClear","size","unstyled","variant","classNames","styles","vars","attributes","form","name","key","type","disabled","formAction","formEncType","formMethod","formNoValidate","formTarget","value"],"required":["onClear"],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":true},"type":{"values":["button","reset","submit"],"open":false}},"kinds":{"unstyled":"boolean","variant":"string","form":"string","name":"string","disabled":"boolean","formAction":"string","formEncType":"string","formMethod":"string","formNoValidate":"boolean","formTarget":"string"}},
+  "ComboboxHiddenInput": {"props":["value","valuesDivider","form","pattern","list","name","width","required","placeholder","step","multiple","key","src","type","onChange","size","height","max","min","disabled","formAction","formEncType","formMethod","formNoValidate","formTarget","accept","alt","autoComplete","capture","checked","maxLength","minLength","readOnly"],"required":["value"],"enums":{"type":{"values":["number","button","search","time","image","text","checkbox","radio","color","date","datetime-local","email","file","hidden","month","password","range","reset","submit","tel","url","week"],"open":true},"capture":{"values":["user","environment"],"open":true}},"kinds":{"valuesDivider":"string","form":"string","pattern":"string","list":"string","name":"string","required":"boolean","placeholder":"string","multiple":"boolean","src":"string","size":"number","disabled":"boolean","formAction":"string","formEncType":"string","formMethod":"string","formNoValidate":"boolean","formTarget":"string","accept":"string","alt":"string","checked":"boolean","maxLength":"number","minLength":"number","readOnly":"boolean"}},
+  "OptionsDropdown": {"props":["data","filter","search","limit","withScrollArea","maxDropdownHeight","hidden","hiddenWhenEmpty","filterOptions","withCheckIcon","withAlignedLabels","value","checkIconPosition","nothingFoundMessage","unstyled","labelId","aria-label","renderOption","scrollAreaProps"],"required":["data","filter","search","limit","withScrollArea","maxDropdownHeight","unstyled","labelId","aria-label","scrollAreaProps"],"enums":{"checkIconPosition":{"values":["right","left"],"open":false}},"kinds":{"search":"string","limit":"number","withScrollArea":"boolean","hidden":"boolean","hiddenWhenEmpty":"boolean","filterOptions":"boolean","withCheckIcon":"boolean","withAlignedLabels":"boolean","unstyled":"boolean","labelId":"string","aria-label":"string"}},
+  "Container": {"props":["size","fluid","strategy","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":true},"strategy":{"values":["grid","block"],"open":false}},"kinds":{"fluid":"boolean","unstyled":"boolean","variant":"string"}},
+  "CopyButton": {"props":["children","value","timeout"],"required":["children","value"],"enums":{},"kinds":{"value":"string","timeout":"number"}},
+  "Dialog": {"props":["keepMounted","withCloseButton","onClose","children","opened","transitionProps","size","zIndex","withinPortal","portalProps","position","shadow","radius","withBorder","unstyled","variant","classNames","styles","vars","attributes","key"],"required":["opened"],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":true},"zIndex":{"values":["auto","-moz-initial","inherit","initial","revert","revert-layer","unset"],"open":true},"shadow":{"values":["xs","sm","md","lg","xl"],"open":true},"radius":{"values":["xs","sm","md","lg","xl"],"open":true}},"kinds":{"keepMounted":"boolean","withCloseButton":"boolean","opened":"boolean","withinPortal":"boolean","withBorder":"boolean","unstyled":"boolean","variant":"string"}},
+  "Divider": {"props":["color","size","label","labelPosition","orientation","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"color":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":true},"labelPosition":{"values":["center","right","left"],"open":false},"orientation":{"values":["horizontal","vertical"],"open":false},"variant":{"values":["solid","dashed","dotted"],"open":true}},"kinds":{"unstyled":"boolean"}},
+  "Drawer": {"props":["title","withOverlay","overlayProps","children","withCloseButton","closeButtonProps","stackId","scrollAreaComponent","position","radius","offset","unstyled","variant","classNames","styles","vars","attributes","keepMounted","opened","onClose","id","lockScroll","trapFocus","withinPortal","portalProps","closeOnClickOutside","transitionProps","onExitTransitionEnd","onEnterTransitionEnd","closeOnEscape","returnFocus","zIndex","shadow","padding","size","removeScrollProps","key"],"required":["opened","onClose"],"enums":{"position":{"values":["top","right","bottom","left"],"open":false},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"shadow":{"values":["xs","sm","md","lg","xl"],"open":true},"padding":{"values":["xs","sm","md","lg","xl"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":true}},"kinds":{"withOverlay":"boolean","withCloseButton":"boolean","stackId":"string","unstyled":"boolean","variant":"string","keepMounted":"boolean","opened":"boolean","id":"string","lockScroll":"boolean","trapFocus":"boolean","withinPortal":"boolean","closeOnClickOutside":"boolean","closeOnEscape":"boolean","returnFocus":"boolean"}},
+  "DrawerRoot": {"props":["scrollAreaComponent","position","radius","offset","unstyled","variant","classNames","styles","vars","attributes","keepMounted","opened","onClose","id","lockScroll","trapFocus","withinPortal","portalProps","children","closeOnClickOutside","transitionProps","onExitTransitionEnd","onEnterTransitionEnd","closeOnEscape","returnFocus","zIndex","shadow","padding","size","removeScrollProps","key"],"required":["opened","onClose"],"enums":{"position":{"values":["top","right","bottom","left"],"open":false},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"shadow":{"values":["xs","sm","md","lg","xl"],"open":true},"padding":{"values":["xs","sm","md","lg","xl"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":true}},"kinds":{"unstyled":"boolean","variant":"string","keepMounted":"boolean","opened":"boolean","id":"string","lockScroll":"boolean","trapFocus":"boolean","withinPortal":"boolean","closeOnClickOutside":"boolean","closeOnEscape":"boolean","returnFocus":"boolean"}},
+  "DrawerBody": {"props":["key","styles","variant","vars","classNames"],"required":[],"enums":{},"kinds":{"variant":"string"}},
+  "DrawerCloseButton": {"props":["data-disabled","size","radius","disabled","iconSize","children","icon","form","name","key","type","formAction","formEncType","formMethod","formNoValidate","formTarget","value","styles","variant","vars","classNames"],"required":[],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":true},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"type":{"values":["button","reset","submit"],"open":false}},"kinds":{"data-disabled":"boolean","disabled":"boolean","form":"string","name":"string","formAction":"string","formEncType":"string","formMethod":"string","formNoValidate":"boolean","formTarget":"string","variant":"string"}},
+  "DrawerContent": {"props":["transitionProps","shadow","radius","key","styles","variant","vars","classNames"],"required":[],"enums":{"shadow":{"values":["xs","sm","md","lg","xl"],"open":true},"radius":{"values":["xs","sm","md","lg","xl"],"open":true}},"kinds":{"variant":"string"}},
+  "DrawerHeader": {"props":["key","styles","variant","vars","classNames"],"required":[],"enums":{},"kinds":{"variant":"string"}},
+  "DrawerOverlay": {"props":["transitionProps","visible","center","color","fixed","radius","gradient","unstyled","children","attributes","backgroundOpacity","blur","zIndex","key","styles","variant","vars","classNames"],"required":[],"enums":{"radius":{"values":["xs","sm","md","lg","xl"],"open":true}},"kinds":{"visible":"boolean","center":"boolean","fixed":"boolean","gradient":"string","unstyled":"boolean","backgroundOpacity":"number","variant":"string"}},
+  "DrawerTitle": {"props":["key","styles","variant","vars","classNames"],"required":[],"enums":{},"kinds":{"variant":"string"}},
+  "DrawerStack": {"props":["children"],"required":["children"],"enums":{},"kinds":{}},
+  "Fieldset": {"props":["legend","radius","unstyled","variant","classNames","styles","vars","attributes","form","name","key","disabled"],"required":[],"enums":{"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"variant":{"values":["filled","default","unstyled"],"open":true}},"kinds":{"unstyled":"boolean","form":"string","name":"string","disabled":"boolean"}},
+  "FileButton": {"props":["onChange","children","multiple","accept","name","form","resetRef","disabled","capture","inputProps"],"required":["onChange","children"],"enums":{"capture":{"values":["user","environment"],"open":true}},"kinds":{"accept":"string","name":"string","form":"string","disabled":"boolean"}},
+  "FileInput": {"props":["component","onChange","value","defaultValue","multiple","accept","name","form","valueComponent","clearable","clearButtonProps","readOnly","capture","fileInputProps","placeholder","resetRef","wrapperProps","label","description","error","required","withAsterisk","labelProps","descriptionProps","errorProps","inputContainer","inputWrapperOrder","leftSection","leftSectionWidth","leftSectionProps","leftSectionPointerEvents","rightSection","rightSectionWidth","rightSectionProps","rightSectionPointerEvents","radius","disabled","size","pointer","withErrorStyles","inputSize","unstyled","variant","classNames","styles","vars","attributes","key","type","formAction","formEncType","formMethod","formNoValidate","formTarget"],"required":[],"enums":{"capture":{"values":["user","environment"],"open":true},"leftSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"rightSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":true},"variant":{"values":["filled","default","unstyled"],"open":true},"type":{"values":["button","reset","submit"],"open":false}},"kinds":{"accept":"string","name":"string","form":"string","clearable":"boolean","readOnly":"boolean","required":"boolean","withAsterisk":"boolean","disabled":"boolean","pointer":"boolean","withErrorStyles":"boolean","inputSize":"string","unstyled":"boolean","formAction":"string","formEncType":"string","formMethod":"string","formNoValidate":"boolean","formTarget":"string"}},
+  "FocusTrap": {"props":["children","active","refProp","innerRef"],"required":["children"],"enums":{},"kinds":{"active":"boolean","refProp":"string"}},
+  "Grid": {"props":["gutter","grow","justify","align","columns","overflow","type","breakpoints","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"gutter":{"values":["xs","sm","md","lg","xl"],"open":true},"justify":{"values":["center","-moz-initial","inherit","initial","revert","revert-layer","unset","end","start","right","left","space-around","space-between","space-evenly","stretch","flex-end","flex-start","normal"],"open":true},"align":{"values":["center","-moz-initial","inherit","initial","revert","revert-layer","unset","end","start","baseline","stretch","flex-end","flex-start","normal","self-end","self-start","anchor-center"],"open":true},"overflow":{"values":["hidden","auto","overlay","-moz-initial","inherit","initial","revert","revert-layer","unset","scroll","clip","visible","-moz-hidden-unscrollable"],"open":true},"type":{"values":["container","media"],"open":false}},"kinds":{"grow":"boolean","columns":"number","unstyled":"boolean","variant":"string"}},
+  "GridCol": {"props":["span","order","offset","styles","variant","vars","classNames","key"],"required":[],"enums":{"span":{"values":["auto","content"],"open":true}},"kinds":{"variant":"string"}},
+  "Highlight": {"props":["highlight","color","highlightStyles","children","span","inherit","gradient","unstyled","styles","variant","vars","size","attributes","classNames","lineClamp","truncate","inline"],"required":["highlight","children"],"enums":{"variant":{"values":["text","gradient"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":true},"truncate":{"values":["end","start"],"open":true}},"kinds":{"children":"string","span":"boolean","inherit":"boolean","unstyled":"boolean","lineClamp":"number","inline":"boolean"}},
+  "HoverCard": {"props":["variant","initiallyOpened","onOpen","onClose","openDelay","closeDelay","radius","width","unstyled","children","keepMounted","id","styles","vars","attributes","classNames","offset","disabled","zIndex","defaultOpened","closeOnClickOutside","clickOutsideEvents","trapFocus","closeOnEscape","withRoles","position","onPositionChange","positionDependencies","onDismiss","transitionProps","onExitTransitionEnd","onEnterTransitionEnd","middlewares","withArrow","withOverlay","overlayProps","arrowSize","arrowOffset","arrowRadius","arrowPosition","withinPortal","portalProps","shadow","returnFocus","floatingStrategy","hideDetached","preventPositionChangeWhenVisible"],"required":[],"enums":{"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"position":{"values":["top","right","bottom","left","top-end","top-start","right-end","right-start","bottom-end","bottom-start","left-end","left-start"],"open":false},"arrowPosition":{"values":["center","side"],"open":false},"shadow":{"values":["xs","sm","md","lg","xl"],"open":true},"floatingStrategy":{"values":["fixed","absolute"],"open":false}},"kinds":{"variant":"string","initiallyOpened":"boolean","openDelay":"number","closeDelay":"number","unstyled":"boolean","keepMounted":"boolean","id":"string","disabled":"boolean","defaultOpened":"boolean","closeOnClickOutside":"boolean","trapFocus":"boolean","closeOnEscape":"boolean","withRoles":"boolean","withArrow":"boolean","withOverlay":"boolean","arrowSize":"number","arrowOffset":"number","arrowRadius":"number","withinPortal":"boolean","returnFocus":"boolean","hideDetached":"boolean","preventPositionChangeWhenVisible":"boolean"}},
+  "HoverCardDropdown": {"props":["children","styles","variant","vars","classNames","key"],"required":[],"enums":{},"kinds":{"variant":"string"}},
+  "HoverCardTarget": {"props":["eventPropsWrapperName","children","refProp","popupType"],"required":["children"],"enums":{},"kinds":{"eventPropsWrapperName":"string","refProp":"string","popupType":"string"}},
+  "HoverCardGroup": {"props":["children","openDelay","closeDelay"],"required":["children"],"enums":{},"kinds":{"openDelay":"number","closeDelay":"number"}},
+  "Image": {"props":["radius","fit","fallbackSrc","src","onError","unstyled","variant","classNames","styles","vars","attributes"],"required":[],"enums":{"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"fit":{"values":["none","-moz-initial","inherit","initial","revert","revert-layer","unset","contain","fill","cover","scale-down"],"open":false}},"kinds":{"fallbackSrc":"string","unstyled":"boolean","variant":"string"}},
+  "Indicator": {"props":["position","offset","inline","size","label","radius","color","withBorder","disabled","processing","zIndex","autoContrast","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"position":{"values":["top-end","top-start","bottom-end","bottom-start","top-center","bottom-center","middle-center","middle-end","middle-start"],"open":false},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"color":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true}},"kinds":{"offset":"number","inline":"boolean","withBorder":"boolean","disabled":"boolean","processing":"boolean","autoContrast":"boolean","unstyled":"boolean","variant":"string"}},
+  "JsonInput": {"props":["value","defaultValue","onChange","formatOnBlur","validationError","serialize","deserialize","form","label","name","radius","required","description","error","unstyled","placeholder","key","styles","variant","vars","size","attributes","classNames","wrap","disabled","autoComplete","maxLength","minLength","readOnly","pointer","wrapperProps","withAsterisk","labelProps","descriptionProps","errorProps","inputContainer","inputWrapperOrder","leftSection","leftSectionWidth","leftSectionProps","leftSectionPointerEvents","rightSection","rightSectionWidth","rightSectionProps","rightSectionPointerEvents","withErrorStyles","inputSize","cols","dirName","rows","autosize","maxRows","minRows","resize"],"required":[],"enums":{"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":true},"leftSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"rightSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"resize":{"values":["none","-moz-initial","inherit","initial","revert","revert-layer","unset","horizontal","vertical","inline","block","both"],"open":false}},"kinds":{"value":"string","defaultValue":"string","formatOnBlur":"boolean","form":"string","name":"string","required":"boolean","unstyled":"boolean","placeholder":"string","variant":"string","wrap":"string","disabled":"boolean","autoComplete":"string","maxLength":"number","minLength":"number","readOnly":"boolean","pointer":"boolean","withAsterisk":"boolean","withErrorStyles":"boolean","inputSize":"string","cols":"number","dirName":"string","rows":"number","autosize":"boolean","maxRows":"number","minRows":"number"}},
+  "Kbd": {"props":["size","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":true}},"kinds":{"unstyled":"boolean","variant":"string"}},
+  "List": {"props":["children","type","withPadding","size","icon","spacing","center","listStyleType","unstyled","variant","classNames","styles","vars","attributes","start","key","reversed"],"required":[],"enums":{"type":{"values":["ordered","unordered"],"open":false},"size":{"values":["xs","sm","md","lg","xl"],"open":false},"spacing":{"values":["xs","sm","md","lg","xl"],"open":true},"listStyleType":{"values":["none","-moz-initial","inherit","initial","revert","revert-layer","unset"],"open":true}},"kinds":{"withPadding":"boolean","center":"boolean","unstyled":"boolean","variant":"string","start":"number","reversed":"boolean"}},
+  "ListItem": {"props":["icon","children","styles","variant","vars","classNames","key","value"],"required":[],"enums":{},"kinds":{"variant":"string"}},
+  "LoadingOverlay": {"props":["transitionProps","loaderProps","overlayProps","visible","zIndex","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{},"kinds":{"visible":"boolean","unstyled":"boolean","variant":"string"}},
+  "Mark": {"props":["color","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"color":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true}},"kinds":{"unstyled":"boolean","variant":"string"}},
+  "Menu": {"props":["variant","children","opened","defaultOpened","trapFocus","onChange","onOpen","onClose","closeOnItemClick","loop","closeOnEscape","trigger","openDelay","closeDelay","closeOnClickOutside","clickOutsideEvents","id","menuItemTabIndex","withInitialFocusPlaceholder","position","offset","onPositionChange","positionDependencies","onDismiss","keepMounted","transitionProps","onExitTransitionEnd","onEnterTransitionEnd","width","middlewares","withArrow","withOverlay","overlayProps","arrowSize","arrowOffset","arrowRadius","arrowPosition","withinPortal","portalProps","zIndex","radius","shadow","disabled","returnFocus","floatingStrategy","hideDetached","preventPositionChangeWhenVisible","unstyled","classNames","styles","vars","attributes"],"required":[],"enums":{"trigger":{"values":["hover","click","click-hover"],"open":false},"position":{"values":["top","right","bottom","left","top-end","top-start","right-end","right-start","bottom-end","bottom-start","left-end","left-start"],"open":false},"arrowPosition":{"values":["center","side"],"open":false},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"shadow":{"values":["xs","sm","md","lg","xl"],"open":true},"floatingStrategy":{"values":["fixed","absolute"],"open":false}},"kinds":{"variant":"string","opened":"boolean","defaultOpened":"boolean","trapFocus":"boolean","closeOnItemClick":"boolean","loop":"boolean","closeOnEscape":"boolean","openDelay":"number","closeDelay":"number","closeOnClickOutside":"boolean","id":"string","menuItemTabIndex":"number","withInitialFocusPlaceholder":"boolean","keepMounted":"boolean","withArrow":"boolean","withOverlay":"boolean","arrowSize":"number","arrowOffset":"number","arrowRadius":"number","withinPortal":"boolean","disabled":"boolean","returnFocus":"boolean","hideDetached":"boolean","preventPositionChangeWhenVisible":"boolean","unstyled":"boolean"}},
+  "MenuDivider": {"props":["styles","variant","vars","classNames","key"],"required":[],"enums":{},"kinds":{"variant":"string"}},
+  "MenuItem": {"props":["data-disabled","children","color","closeMenuOnClick","leftSection","rightSection","disabled","styles","variant","vars","classNames"],"required":[],"enums":{"color":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true}},"kinds":{"data-disabled":"boolean","closeMenuOnClick":"boolean","disabled":"boolean","variant":"string"}},
+  "MenuLabel": {"props":["styles","variant","vars","classNames","key"],"required":[],"enums":{},"kinds":{"variant":"string"}},
+  "MenuDropdown": {"props":["styles","variant","vars","classNames","key"],"required":[],"enums":{},"kinds":{"variant":"string"}},
+  "MenuTarget": {"props":["children","refProp"],"required":["children"],"enums":{},"kinds":{"refProp":"string"}},
+  "Modal": {"props":["title","withOverlay","overlayProps","children","withCloseButton","closeButtonProps","stackId","yOffset","xOffset","scrollAreaComponent","radius","centered","fullScreen","unstyled","variant","classNames","styles","vars","attributes","keepMounted","opened","onClose","id","lockScroll","trapFocus","withinPortal","portalProps","closeOnClickOutside","transitionProps","onExitTransitionEnd","onEnterTransitionEnd","closeOnEscape","returnFocus","zIndex","shadow","padding","size","removeScrollProps","key"],"required":["opened","onClose"],"enums":{"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"shadow":{"values":["xs","sm","md","lg","xl"],"open":true},"padding":{"values":["xs","sm","md","lg","xl"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":true}},"kinds":{"withOverlay":"boolean","withCloseButton":"boolean","stackId":"string","centered":"boolean","fullScreen":"boolean","unstyled":"boolean","variant":"string","keepMounted":"boolean","opened":"boolean","id":"string","lockScroll":"boolean","trapFocus":"boolean","withinPortal":"boolean","closeOnClickOutside":"boolean","closeOnEscape":"boolean","returnFocus":"boolean"}},
+  "ModalRoot": {"props":["yOffset","xOffset","scrollAreaComponent","radius","centered","fullScreen","unstyled","variant","classNames","styles","vars","attributes","keepMounted","opened","onClose","id","lockScroll","trapFocus","withinPortal","portalProps","children","closeOnClickOutside","transitionProps","onExitTransitionEnd","onEnterTransitionEnd","closeOnEscape","returnFocus","zIndex","shadow","padding","size","removeScrollProps","key"],"required":["opened","onClose"],"enums":{"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"shadow":{"values":["xs","sm","md","lg","xl"],"open":true},"padding":{"values":["xs","sm","md","lg","xl"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":true}},"kinds":{"centered":"boolean","fullScreen":"boolean","unstyled":"boolean","variant":"string","keepMounted":"boolean","opened":"boolean","id":"string","lockScroll":"boolean","trapFocus":"boolean","withinPortal":"boolean","closeOnClickOutside":"boolean","closeOnEscape":"boolean","returnFocus":"boolean"}},
+  "ModalBody": {"props":["key","styles","variant","vars","classNames"],"required":[],"enums":{},"kinds":{"variant":"string"}},
+  "ModalCloseButton": {"props":["data-disabled","size","radius","disabled","iconSize","children","icon","form","name","key","type","formAction","formEncType","formMethod","formNoValidate","formTarget","value","styles","variant","vars","classNames"],"required":[],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":true},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"type":{"values":["button","reset","submit"],"open":false}},"kinds":{"data-disabled":"boolean","disabled":"boolean","form":"string","name":"string","formAction":"string","formEncType":"string","formMethod":"string","formNoValidate":"boolean","formTarget":"string","variant":"string"}},
+  "ModalContent": {"props":["transitionProps","shadow","radius","key","styles","variant","vars","classNames"],"required":[],"enums":{"shadow":{"values":["xs","sm","md","lg","xl"],"open":true},"radius":{"values":["xs","sm","md","lg","xl"],"open":true}},"kinds":{"variant":"string"}},
+  "ModalHeader": {"props":["key","styles","variant","vars","classNames"],"required":[],"enums":{},"kinds":{"variant":"string"}},
+  "ModalOverlay": {"props":["transitionProps","visible","center","color","fixed","radius","gradient","unstyled","children","attributes","backgroundOpacity","blur","zIndex","key","styles","variant","vars","classNames"],"required":[],"enums":{"radius":{"values":["xs","sm","md","lg","xl"],"open":true}},"kinds":{"visible":"boolean","center":"boolean","fixed":"boolean","gradient":"string","unstyled":"boolean","backgroundOpacity":"number","variant":"string"}},
+  "ModalTitle": {"props":["key","styles","variant","vars","classNames"],"required":[],"enums":{},"kinds":{"variant":"string"}},
+  "ModalStack": {"props":["children"],"required":["children"],"enums":{},"kinds":{}},
+  "MultiSelect": {"props":["value","defaultValue","onChange","onRemove","onClear","searchValue","defaultSearchValue","onSearchChange","maxValues","searchable","nothingFoundMessage","withCheckIcon","withAlignedLabels","checkIconPosition","hidePickedOptions","clearable","clearButtonProps","hiddenInputProps","hiddenInputValuesDivider","renderOption","scrollAreaProps","chevronColor","clearSearchOnChange","wrapperProps","label","description","error","required","withAsterisk","labelProps","descriptionProps","errorProps","inputContainer","inputWrapperOrder","leftSection","leftSectionWidth","leftSectionProps","leftSectionPointerEvents","rightSection","rightSectionWidth","rightSectionProps","rightSectionPointerEvents","radius","disabled","size","pointer","withErrorStyles","inputSize","data","dropdownOpened","defaultDropdownOpened","onDropdownOpen","onDropdownClose","selectFirstOptionOnChange","onOptionSubmit","comboboxProps","filter","limit","withScrollArea","maxDropdownHeight","unstyled","variant","classNames","styles","vars","attributes","form","pattern","list","name","width","placeholder","step","multiple","key","src","type","height","max","min","formAction","formEncType","formMethod","formNoValidate","formTarget","accept","alt","autoComplete","capture","checked","maxLength","minLength","readOnly"],"required":[],"enums":{"checkIconPosition":{"values":["right","left"],"open":false},"chevronColor":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"leftSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"rightSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":true},"type":{"values":["number","button","search","time","image","text","checkbox","radio","color","date","datetime-local","email","file","hidden","month","password","range","reset","submit","tel","url","week"],"open":true},"capture":{"values":["user","environment"],"open":true}},"kinds":{"searchValue":"string","defaultSearchValue":"string","maxValues":"number","searchable":"boolean","withCheckIcon":"boolean","withAlignedLabels":"boolean","hidePickedOptions":"boolean","clearable":"boolean","hiddenInputValuesDivider":"string","clearSearchOnChange":"boolean","required":"boolean","withAsterisk":"boolean","disabled":"boolean","pointer":"boolean","withErrorStyles":"boolean","inputSize":"string","dropdownOpened":"boolean","defaultDropdownOpened":"boolean","selectFirstOptionOnChange":"boolean","limit":"number","withScrollArea":"boolean","unstyled":"boolean","variant":"string","form":"string","pattern":"string","list":"string","name":"string","placeholder":"string","multiple":"boolean","src":"string","formAction":"string","formEncType":"string","formMethod":"string","formNoValidate":"boolean","formTarget":"string","accept":"string","alt":"string","checked":"boolean","maxLength":"number","minLength":"number","readOnly":"boolean"}},
+  "NativeSelect": {"props":["data","label","radius","required","description","error","size","disabled","wrapperProps","withAsterisk","labelProps","descriptionProps","errorProps","inputContainer","inputWrapperOrder","leftSection","leftSectionWidth","leftSectionProps","leftSectionPointerEvents","rightSection","rightSectionWidth","rightSectionProps","rightSectionPointerEvents","withErrorStyles","inputSize","unstyled","variant","classNames","styles","vars","attributes","form","name","multiple","key","onChange","value","autoComplete"],"required":[],"enums":{"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":true},"leftSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"rightSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false}},"kinds":{"required":"boolean","disabled":"boolean","withAsterisk":"boolean","withErrorStyles":"boolean","inputSize":"string","unstyled":"boolean","variant":"string","form":"string","name":"string","multiple":"boolean","autoComplete":"string"}},
+  "NavLink": {"props":["label","description","leftSection","rightSection","active","color","noWrap","children","opened","defaultOpened","onChange","disableRightSectionRotation","childrenOffset","disabled","autoContrast","onClick","onKeyDown","unstyled","variant","classNames","styles","vars","attributes"],"required":[],"enums":{"color":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"childrenOffset":{"values":["xs","sm","md","lg","xl"],"open":true},"variant":{"values":["light","filled","subtle"],"open":true}},"kinds":{"active":"boolean","noWrap":"boolean","opened":"boolean","defaultOpened":"boolean","disableRightSectionRotation":"boolean","disabled":"boolean","autoContrast":"boolean","unstyled":"boolean"}},
+  "Notification": {"props":["variant","onClose","color","radius","icon","title","children","loading","withBorder","withCloseButton","closeButtonProps","loaderProps","unstyled","classNames","styles","vars","attributes","key"],"required":[],"enums":{"color":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"radius":{"values":["xs","sm","md","lg","xl"],"open":true}},"kinds":{"variant":"string","loading":"boolean","withBorder":"boolean","withCloseButton":"boolean","unstyled":"boolean"}},
+  "NumberFormatter": {"props":["value","allowNegative","decimalScale","decimalSeparator","fixedDecimalScale","prefix","suffix","thousandsGroupStyle","thousandSeparator","key"],"required":[],"enums":{"thousandsGroupStyle":{"values":["none","thousand","lakh","wan"],"open":false}},"kinds":{"allowNegative":"boolean","decimalScale":"number","decimalSeparator":"string","fixedDecimalScale":"boolean","prefix":"string","suffix":"string"}},
+  "NumberInput": {"props":["value","defaultValue","onChange","onValueChange","allowLeadingZeros","allowNegative","allowedDecimalSeparators","decimalScale","decimalSeparator","fixedDecimalScale","prefix","suffix","thousandsGroupStyle","isAllowed","valueIsNumericString","type","thousandSeparator","min","max","step","hideControls","clampBehavior","allowDecimal","handlersRef","startValue","stepHoldInterval","stepHoldDelay","withKeyboardEvents","trimLeadingZeroesOnBlur","wrapperProps","label","description","error","required","withAsterisk","labelProps","descriptionProps","errorProps","inputContainer","inputWrapperOrder","leftSection","leftSectionWidth","leftSectionProps","leftSectionPointerEvents","rightSection","rightSectionWidth","rightSectionProps","rightSectionPointerEvents","radius","disabled","size","pointer","withErrorStyles","inputSize","unstyled","variant","classNames","styles","vars","attributes","form","pattern","list","name","width","placeholder","multiple","key","src","height","formAction","formEncType","formMethod","formNoValidate","formTarget","accept","alt","autoComplete","capture","checked","maxLength","minLength","readOnly"],"required":[],"enums":{"thousandsGroupStyle":{"values":["none","thousand","lakh","wan"],"open":false},"type":{"values":["text","password","tel"],"open":false},"clampBehavior":{"values":["none","blur","strict"],"open":false},"leftSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"rightSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":true},"variant":{"values":["filled","default","unstyled"],"open":true},"capture":{"values":["user","environment"],"open":true}},"kinds":{"allowLeadingZeros":"boolean","allowNegative":"boolean","decimalScale":"number","decimalSeparator":"string","fixedDecimalScale":"boolean","prefix":"string","suffix":"string","valueIsNumericString":"boolean","min":"number","max":"number","step":"number","hideControls":"boolean","allowDecimal":"boolean","startValue":"number","stepHoldDelay":"number","withKeyboardEvents":"boolean","trimLeadingZeroesOnBlur":"boolean","required":"boolean","withAsterisk":"boolean","disabled":"boolean","pointer":"boolean","withErrorStyles":"boolean","inputSize":"string","unstyled":"boolean","form":"string","pattern":"string","list":"string","name":"string","placeholder":"string","multiple":"boolean","src":"string","formAction":"string","formEncType":"string","formMethod":"string","formNoValidate":"boolean","formTarget":"string","accept":"string","alt":"string","checked":"boolean","maxLength":"number","minLength":"number","readOnly":"boolean"}},
+  "Pagination": {"props":["withEdges","withControls","getControlProps","nextIcon","previousIcon","lastIcon","firstIcon","dotsIcon","gap","hideWithOnePage","withPages","size","total","value","defaultValue","onChange","disabled","siblings","boundaries","color","radius","onNextPage","onPreviousPage","onFirstPage","onLastPage","getItemProps","autoContrast","unstyled","variant","classNames","styles","vars","attributes","key"],"required":["total"],"enums":{"gap":{"values":["xs","sm","md","lg","xl"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":true},"color":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"radius":{"values":["xs","sm","md","lg","xl"],"open":true}},"kinds":{"withEdges":"boolean","withControls":"boolean","hideWithOnePage":"boolean","withPages":"boolean","total":"number","value":"number","defaultValue":"number","disabled":"boolean","siblings":"number","boundaries":"number","autoContrast":"boolean","unstyled":"boolean","variant":"string"}},
+  "PaginationControl": {"props":["active","withPadding","styles","variant","vars","classNames","form","name","key","type","disabled","formAction","formEncType","formMethod","formNoValidate","formTarget","value"],"required":[],"enums":{"type":{"values":["button","reset","submit"],"open":false}},"kinds":{"active":"boolean","withPadding":"boolean","variant":"string","form":"string","name":"string","disabled":"boolean","formAction":"string","formEncType":"string","formMethod":"string","formNoValidate":"boolean","formTarget":"string"}},
+  "PaginationDots": {"props":["icon","styles","variant","vars","classNames","key"],"required":[],"enums":{},"kinds":{"variant":"string"}},
+  "PaginationItems": {"props":["dotsIcon"],"required":[],"enums":{},"kinds":{}},
+  "PaginationRoot": {"props":["size","total","value","defaultValue","onChange","disabled","siblings","boundaries","color","radius","onNextPage","onPreviousPage","onFirstPage","onLastPage","getItemProps","autoContrast","unstyled","variant","classNames","styles","vars","attributes","key"],"required":["total"],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":true},"color":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"radius":{"values":["xs","sm","md","lg","xl"],"open":true}},"kinds":{"total":"number","value":"number","defaultValue":"number","disabled":"boolean","siblings":"number","boundaries":"number","autoContrast":"boolean","unstyled":"boolean","variant":"string"}},
+  "PasswordInput": {"props":["visibilityToggleIcon","visibilityToggleButtonProps","visible","defaultVisible","onVisibilityChange","wrapperProps","label","description","error","required","withAsterisk","labelProps","descriptionProps","errorProps","inputContainer","inputWrapperOrder","leftSection","leftSectionWidth","leftSectionProps","leftSectionPointerEvents","rightSection","rightSectionWidth","rightSectionProps","rightSectionPointerEvents","radius","disabled","size","pointer","withErrorStyles","inputSize","unstyled","variant","classNames","styles","vars","attributes","form","pattern","list","name","width","placeholder","step","multiple","key","src","type","onChange","height","max","min","formAction","formEncType","formMethod","formNoValidate","formTarget","value","accept","alt","autoComplete","capture","checked","maxLength","minLength","readOnly"],"required":[],"enums":{"leftSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"rightSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":true},"variant":{"values":["filled","default","unstyled"],"open":true},"type":{"values":["number","button","search","time","image","text","checkbox","radio","color","date","datetime-local","email","file","hidden","month","password","range","reset","submit","tel","url","week"],"open":true},"capture":{"values":["user","environment"],"open":true}},"kinds":{"visible":"boolean","defaultVisible":"boolean","required":"boolean","withAsterisk":"boolean","disabled":"boolean","pointer":"boolean","withErrorStyles":"boolean","inputSize":"string","unstyled":"boolean","form":"string","pattern":"string","list":"string","name":"string","placeholder":"string","multiple":"boolean","src":"string","formAction":"string","formEncType":"string","formMethod":"string","formNoValidate":"boolean","formTarget":"string","accept":"string","alt":"string","checked":"boolean","maxLength":"number","minLength":"number","readOnly":"boolean"}},
+  "Pill": {"props":["size","withRemoveButton","onRemove","removeButtonProps","radius","disabled","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":false},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"variant":{"values":["default","contrast"],"open":true}},"kinds":{"withRemoveButton":"boolean","disabled":"boolean","unstyled":"boolean"}},
+  "PillGroup": {"props":["gap","size","disabled","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"gap":{"values":["xs","sm","md","lg","xl"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":true}},"kinds":{"disabled":"boolean","unstyled":"boolean","variant":"string"}},
+  "PillsInput": {"props":["wrapperProps","label","description","error","required","withAsterisk","labelProps","descriptionProps","errorProps","inputContainer","inputWrapperOrder","leftSection","leftSectionWidth","leftSectionProps","leftSectionPointerEvents","rightSection","rightSectionWidth","rightSectionProps","rightSectionPointerEvents","radius","disabled","size","pointer","withErrorStyles","inputSize","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"leftSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"rightSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":true}},"kinds":{"required":"boolean","withAsterisk":"boolean","disabled":"boolean","pointer":"boolean","withErrorStyles":"boolean","inputSize":"string","unstyled":"boolean","variant":"string"}},
+  "PillsInputField": {"props":["type","pointer","unstyled","variant","classNames","styles","vars","attributes","form","pattern","list","name","width","required","placeholder","step","multiple","key","src","onChange","size","height","max","min","disabled","formAction","formEncType","formMethod","formNoValidate","formTarget","value","accept","alt","autoComplete","capture","checked","maxLength","minLength","readOnly"],"required":[],"enums":{"type":{"values":["hidden","auto","visible"],"open":false},"capture":{"values":["user","environment"],"open":true}},"kinds":{"pointer":"boolean","unstyled":"boolean","variant":"string","form":"string","pattern":"string","list":"string","name":"string","required":"boolean","placeholder":"string","multiple":"boolean","src":"string","size":"number","disabled":"boolean","formAction":"string","formEncType":"string","formMethod":"string","formNoValidate":"boolean","formTarget":"string","accept":"string","alt":"string","checked":"boolean","maxLength":"number","minLength":"number","readOnly":"boolean"}},
+  "PinInput": {"props":["name","form","gap","radius","size","autoFocus","value","defaultValue","onChange","onComplete","placeholder","manageFocus","oneTimeCode","id","disabled","error","type","mask","length","readOnly","inputType","inputMode","ariaLabel","hiddenInputProps","rootRef","getInputProps","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"gap":{"values":["xs","sm","md","lg","xl"],"open":true},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":false},"type":{"values":["number","alphanumeric"],"open":true},"inputType":{"values":["number","button","search","time","image","text","checkbox","radio","color","date","datetime-local","email","file","hidden","month","password","range","reset","submit","tel","url","week"],"open":true},"inputMode":{"values":["search","text","none","email","tel","url","numeric","decimal"],"open":false}},"kinds":{"name":"string","form":"string","autoFocus":"boolean","value":"string","defaultValue":"string","placeholder":"string","manageFocus":"boolean","oneTimeCode":"boolean","id":"string","disabled":"boolean","error":"boolean","mask":"boolean","length":"number","readOnly":"boolean","ariaLabel":"string","unstyled":"boolean","variant":"string"}},
+  "Portal": {"props":["children","target","reuseTargetNode","key"],"required":["children"],"enums":{},"kinds":{"reuseTargetNode":"boolean"}},
+  "OptionalPortal": {"props":["withinPortal","children","target","reuseTargetNode","key"],"required":["children"],"enums":{},"kinds":{"withinPortal":"boolean","reuseTargetNode":"boolean"}},
+  "Progress": {"props":["value","color","striped","animated","size","radius","autoContrast","transitionDuration","orientation","key","unstyled","variant","classNames","styles","vars","attributes"],"required":["value"],"enums":{"color":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":true},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"orientation":{"values":["horizontal","vertical"],"open":false}},"kinds":{"value":"number","striped":"boolean","animated":"boolean","autoContrast":"boolean","transitionDuration":"number","unstyled":"boolean","variant":"string"}},
+  "ProgressLabel": {"props":["styles","variant","vars","classNames","key"],"required":[],"enums":{},"kinds":{"variant":"string"}},
+  "ProgressRoot": {"props":["size","radius","autoContrast","transitionDuration","orientation","key","unstyled","variant","classNames","styles","vars","attributes"],"required":[],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":true},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"orientation":{"values":["horizontal","vertical"],"open":false}},"kinds":{"autoContrast":"boolean","transitionDuration":"number","unstyled":"boolean","variant":"string"}},
+  "ProgressSection": {"props":["value","withAria","color","striped","animated","styles","variant","vars","classNames","key"],"required":["value"],"enums":{"color":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true}},"kinds":{"value":"number","withAria":"boolean","striped":"boolean","animated":"boolean","variant":"string"}},
+  "Radio": {"props":["label","color","size","icon","wrapperProps","labelPosition","description","error","radius","rootRef","iconColor","autoContrast","unstyled","variant","classNames","styles","vars","attributes","form","pattern","list","name","width","required","placeholder","step","multiple","key","src","type","onChange","height","max","min","disabled","formAction","formEncType","formMethod","formNoValidate","formTarget","value","accept","alt","autoComplete","capture","checked","maxLength","minLength","readOnly"],"required":[],"enums":{"color":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":true},"labelPosition":{"values":["right","left"],"open":false},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"iconColor":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"variant":{"values":["filled","outline"],"open":true},"type":{"values":["number","button","search","time","image","text","checkbox","radio","color","date","datetime-local","email","file","hidden","month","password","range","reset","submit","tel","url","week"],"open":true},"capture":{"values":["user","environment"],"open":true}},"kinds":{"autoContrast":"boolean","unstyled":"boolean","form":"string","pattern":"string","list":"string","name":"string","required":"boolean","placeholder":"string","multiple":"boolean","src":"string","disabled":"boolean","formAction":"string","formEncType":"string","formMethod":"string","formNoValidate":"boolean","formTarget":"string","accept":"string","alt":"string","checked":"boolean","maxLength":"number","minLength":"number","readOnly":"boolean"}},
+  "RadioGroup": {"props":["children","value","defaultValue","onChange","wrapperProps","size","name","readOnly","disabled","label","required","description","error","unstyled","key","id","styles","variant","vars","attributes","classNames","withAsterisk","labelProps","descriptionProps","errorProps","inputContainer","inputWrapperOrder","labelElement"],"required":["children"],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":false},"labelElement":{"values":["div","label"],"open":false}},"kinds":{"value":"string","defaultValue":"string","name":"string","readOnly":"boolean","disabled":"boolean","required":"boolean","unstyled":"boolean","id":"string","variant":"string","withAsterisk":"boolean"}},
+  "RadioIcon": {"props":["size","string","style","clipPath","filter","mask","path","origin","color","name","scale","fontFamily","radius","spacing","target","width","end","fontSize","key","crossOrigin","type","suppressHydrationWarning","className","id","lang","tabIndex","role","media","opacity","display","x","y","height","max","method","min","accentHeight","accumulate","additive","alignmentBaseline","allowReorder","alphabetic","amplitude","arabicForm","ascent","attributeName","attributeType","autoReverse","azimuth","baseFrequency","baselineShift","baseProfile","bbox","begin","bias","by","calcMode","capHeight","clip","clipPathUnits","clipRule","colorInterpolation","colorInterpolationFilters","colorProfile","colorRendering","contentScriptType","contentStyleType","cursor","cx","cy","d","decelerate","descent","diffuseConstant","direction","divisor","dominantBaseline","dur","dx","dy","edgeMode","elevation","enableBackground","exponent","externalResourcesRequired","fill","fillOpacity","fillRule","filterRes","filterUnits","floodColor","floodOpacity","focusable","fontSizeAdjust","fontStretch","fontStyle","fontVariant","fontWeight","format","fr","from","fx","fy","g1","g2","glyphName","glyphOrientationHorizontal","glyphOrientationVertical","glyphRef","gradientTransform","gradientUnits","hanging","horizAdvX","horizOriginX","href","ideographic","imageRendering","in2","in","intercept","k1","k2","k3","k4","k","kernelMatrix","kernelUnitLength","kerning","keyPoints","keySplines","keyTimes","lengthAdjust","letterSpacing","lightingColor","limitingConeAngle","local","markerEnd","markerHeight","markerMid","markerStart","markerUnits","markerWidth","maskContentUnits","maskUnits","mathematical","mode","numOctaves","offset","operator","order","orient","orientation","overflow","overlinePosition","overlineThickness","paintOrder","panose1","pathLength","patternContentUnits","patternTransform","patternUnits","pointerEvents","points","pointsAtX","pointsAtY","pointsAtZ","preserveAlpha","preserveAspectRatio","primitiveUnits","r","refX","refY","renderingIntent","repeatCount","repeatDur","requiredExtensions","requiredFeatures","restart","result","rotate","rx","ry","seed","shapeRendering","slope","specularConstant","specularExponent","speed","spreadMethod","startOffset","stdDeviation","stemh","stemv","stitchTiles","stopColor","stopOpacity","strikethroughPosition","strikethroughThickness","stroke","strokeDasharray","strokeDashoffset","strokeLinecap","strokeLinejoin","strokeMiterlimit","strokeOpacity","strokeWidth","surfaceScale","systemLanguage","tableValues","targetX","targetY","textAnchor","textDecoration","textLength","textRendering","to","transform","transformOrigin","u1","u2","underlinePosition","underlineThickness","unicode","unicodeBidi","unicodeRange","unitsPerEm","vAlphabetic","values","vectorEffect","version","vertAdvY","vertOriginX","vertOriginY","vHanging","vIdeographic","viewBox","viewTarget","visibility","vMathematical","widths","wordSpacing","writingMode","x1","x2","xChannelSelector","xHeight","xlinkActuate","xlinkArcrole","xlinkHref","xlinkRole","xlinkShow","xlinkTitle","xlinkType","xmlBase","xmlLang","xmlns","xmlnsXlink","xmlSpace","y1","y2","yChannelSelector","z","zoomAndPan"],"required":[],"enums":{"crossOrigin":{"values":["","anonymous","use-credentials"],"open":false},"accumulate":{"values":["none","sum"],"open":false},"additive":{"values":["replace","sum"],"open":false},"alignmentBaseline":{"values":["auto","inherit","alphabetic","hanging","ideographic","mathematical","baseline","before-edge","text-before-edge","middle","central","after-edge","text-after-edge"],"open":false},"allowReorder":{"values":["no","yes"],"open":false},"arabicForm":{"values":["initial","medial","terminal","isolated"],"open":false},"autoReverse":{"values":["true","false"],"open":true},"colorInterpolationFilters":{"values":["auto","inherit","sRGB","linearRGB"],"open":false},"dominantBaseline":{"values":["auto","inherit","alphabetic","hanging","ideographic","mathematical","text-before-edge","middle","central","text-after-edge","use-script","no-change","reset-size"],"open":false},"externalResourcesRequired":{"values":["true","false"],"open":true},"fillRule":{"values":["inherit","nonzero","evenodd"],"open":false},"focusable":{"values":["auto","true","false"],"open":true},"preserveAlpha":{"values":["true","false"],"open":true},"strokeLinecap":{"values":["inherit","butt","round","square"],"open":false},"strokeLinejoin":{"values":["inherit","round","miter","bevel"],"open":false},"textAnchor":{"values":["inherit","end","start","middle"],"open":false}},"kinds":{"clipPath":"string","filter":"string","mask":"string","path":"string","color":"string","name":"string","fontFamily":"string","target":"string","type":"string","suppressHydrationWarning":"boolean","className":"string","id":"string","lang":"string","tabIndex":"number","media":"string","method":"string","attributeName":"string","attributeType":"string","d":"string","fill":"string","gradientTransform":"string","gradientUnits":"string","href":"string","in":"string","markerEnd":"string","markerMid":"string","markerStart":"string","patternContentUnits":"string","patternUnits":"string","points":"string","preserveAspectRatio":"string","result":"string","spreadMethod":"string","stopColor":"string","stroke":"string","transform":"string","transformOrigin":"string","values":"string","version":"string","viewBox":"string","xChannelSelector":"string","xlinkActuate":"string","xlinkArcrole":"string","xlinkHref":"string","xlinkRole":"string","xlinkShow":"string","xlinkTitle":"string","xlinkType":"string","xmlBase":"string","xmlLang":"string","xmlns":"string","xmlnsXlink":"string","xmlSpace":"string","yChannelSelector":"string","zoomAndPan":"string"}},
+  "RadioCard": {"props":["checked","withBorder","radius","value","name","unstyled","variant","classNames","styles","vars","attributes","form","key","type","disabled","formAction","formEncType","formMethod","formNoValidate","formTarget"],"required":[],"enums":{"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"type":{"values":["button","reset","submit"],"open":false}},"kinds":{"checked":"boolean","withBorder":"boolean","value":"string","name":"string","unstyled":"boolean","variant":"string","form":"string","disabled":"boolean","formAction":"string","formEncType":"string","formMethod":"string","formNoValidate":"boolean","formTarget":"string"}},
+  "RadioIndicator": {"props":["color","size","radius","iconColor","autoContrast","icon","checked","disabled","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"color":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":true},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"iconColor":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"variant":{"values":["filled","outline"],"open":true}},"kinds":{"autoContrast":"boolean","checked":"boolean","disabled":"boolean","unstyled":"boolean"}},
+  "Rating": {"props":["defaultValue","value","onChange","emptySymbol","fullSymbol","fractions","size","count","onHover","getSymbolLabel","name","readOnly","highlightSelectedOnly","color","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":true},"color":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true}},"kinds":{"defaultValue":"number","value":"number","fractions":"number","count":"number","name":"string","readOnly":"boolean","highlightSelectedOnly":"boolean","unstyled":"boolean","variant":"string"}},
+  "RingProgress": {"props":["label","thickness","size","roundCaps","sections","rootColor","transitionDuration","unstyled","variant","classNames","styles","vars","attributes","key"],"required":["sections"],"enums":{"rootColor":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true}},"kinds":{"thickness":"number","size":"number","roundCaps":"boolean","transitionDuration":"number","unstyled":"boolean","variant":"string"}},
+  "SegmentedControl": {"props":["data","value","defaultValue","onChange","disabled","name","fullWidth","color","size","radius","transitionDuration","transitionTimingFunction","orientation","readOnly","autoContrast","withItemsBorders","unstyled","variant","classNames","styles","vars","attributes","key"],"required":["data"],"enums":{"color":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":true},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"orientation":{"values":["horizontal","vertical"],"open":false}},"kinds":{"value":"string","defaultValue":"string","disabled":"boolean","name":"string","fullWidth":"boolean","transitionDuration":"number","transitionTimingFunction":"string","readOnly":"boolean","autoContrast":"boolean","withItemsBorders":"boolean","unstyled":"boolean","variant":"string"}},
+  "Select": {"props":["value","defaultValue","onChange","onClear","searchable","withCheckIcon","withAlignedLabels","checkIconPosition","nothingFoundMessage","searchValue","defaultSearchValue","onSearchChange","allowDeselect","clearable","clearButtonProps","hiddenInputProps","renderOption","scrollAreaProps","chevronColor","autoSelectOnBlur","wrapperProps","label","description","error","required","withAsterisk","labelProps","descriptionProps","errorProps","inputContainer","inputWrapperOrder","leftSection","leftSectionWidth","leftSectionProps","leftSectionPointerEvents","rightSection","rightSectionWidth","rightSectionProps","rightSectionPointerEvents","radius","disabled","size","pointer","withErrorStyles","inputSize","data","dropdownOpened","defaultDropdownOpened","onDropdownOpen","onDropdownClose","selectFirstOptionOnChange","onOptionSubmit","comboboxProps","filter","limit","withScrollArea","maxDropdownHeight","unstyled","variant","classNames","styles","vars","attributes","form","pattern","list","name","width","placeholder","step","multiple","key","src","type","height","max","min","formAction","formEncType","formMethod","formNoValidate","formTarget","accept","alt","autoComplete","capture","checked","maxLength","minLength","readOnly"],"required":[],"enums":{"checkIconPosition":{"values":["right","left"],"open":false},"chevronColor":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"leftSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"rightSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":true},"variant":{"values":["filled","default","unstyled"],"open":true},"type":{"values":["number","button","search","time","image","text","checkbox","radio","color","date","datetime-local","email","file","hidden","month","password","range","reset","submit","tel","url","week"],"open":true},"capture":{"values":["user","environment"],"open":true}},"kinds":{"value":"string","defaultValue":"string","searchable":"boolean","withCheckIcon":"boolean","withAlignedLabels":"boolean","searchValue":"string","defaultSearchValue":"string","allowDeselect":"boolean","clearable":"boolean","autoSelectOnBlur":"boolean","required":"boolean","withAsterisk":"boolean","disabled":"boolean","pointer":"boolean","withErrorStyles":"boolean","inputSize":"string","dropdownOpened":"boolean","defaultDropdownOpened":"boolean","selectFirstOptionOnChange":"boolean","limit":"number","withScrollArea":"boolean","unstyled":"boolean","form":"string","pattern":"string","list":"string","name":"string","placeholder":"string","multiple":"boolean","src":"string","formAction":"string","formEncType":"string","formMethod":"string","formNoValidate":"boolean","formTarget":"string","accept":"string","alt":"string","checked":"boolean","maxLength":"number","minLength":"number","readOnly":"boolean"}},
+  "SemiCircleProgress": {"props":["value","size","thickness","orientation","fillDirection","filledSegmentColor","emptySegmentColor","transitionDuration","label","labelPosition","unstyled","variant","classNames","styles","vars","attributes","key"],"required":["value"],"enums":{"orientation":{"values":["up","down"],"open":false},"fillDirection":{"values":["right-to-left","left-to-right"],"open":false},"filledSegmentColor":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"emptySegmentColor":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"labelPosition":{"values":["center","bottom"],"open":false}},"kinds":{"value":"number","size":"number","thickness":"number","transitionDuration":"number","unstyled":"boolean","variant":"string"}},
+  "SimpleGrid": {"props":["cols","spacing","verticalSpacing","type","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"spacing":{"values":["xs","sm","md","lg","xl"],"open":true},"verticalSpacing":{"values":["xs","sm","md","lg","xl"],"open":true},"type":{"values":["container","media"],"open":false}},"kinds":{"unstyled":"boolean","variant":"string"}},
+  "Skeleton": {"props":["visible","height","width","circle","radius","animate","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{},"kinds":{"visible":"boolean","circle":"boolean","animate":"boolean","unstyled":"boolean","variant":"string"}},
+  "Slider": {"props":["color","radius","size","min","max","domain","step","precision","value","defaultValue","onChange","onChangeEnd","name","marks","label","labelTransitionProps","labelAlwaysOn","thumbLabel","showLabelOnHover","thumbChildren","disabled","thumbSize","scale","inverted","hiddenInputProps","restrictToMarks","thumbProps","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"color":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":true}},"kinds":{"min":"number","max":"number","step":"number","precision":"number","value":"number","defaultValue":"number","name":"string","labelAlwaysOn":"boolean","thumbLabel":"string","showLabelOnHover":"boolean","disabled":"boolean","inverted":"boolean","restrictToMarks":"boolean","unstyled":"boolean","variant":"string"}},
+  "RangeSlider": {"props":["color","radius","size","min","max","domain","step","precision","value","defaultValue","onChange","onChangeEnd","name","marks","label","labelTransitionProps","labelAlwaysOn","showLabelOnHover","thumbChildren","disabled","thumbSize","scale","inverted","minRange","maxRange","thumbFromLabel","thumbToLabel","hiddenInputProps","restrictToMarks","thumbProps","pushOnOverlap","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"color":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":true}},"kinds":{"min":"number","max":"number","step":"number","precision":"number","name":"string","labelAlwaysOn":"boolean","showLabelOnHover":"boolean","disabled":"boolean","inverted":"boolean","minRange":"number","maxRange":"number","thumbFromLabel":"string","thumbToLabel":"string","restrictToMarks":"boolean","pushOnOverlap":"boolean","unstyled":"boolean","variant":"string"}},
+  "Space": {"props":["unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{},"kinds":{"unstyled":"boolean","variant":"string"}},
+  "Spoiler": {"props":["maxHeight","hideLabel","showLabel","controlRef","initialState","expanded","onExpandedChange","transitionDuration","unstyled","variant","classNames","styles","vars","attributes","key"],"required":["hideLabel","showLabel"],"enums":{},"kinds":{"maxHeight":"number","initialState":"boolean","expanded":"boolean","transitionDuration":"number","unstyled":"boolean","variant":"string"}},
+  "Stack": {"props":["gap","align","justify","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"gap":{"values":["xs","sm","md","lg","xl"],"open":true},"align":{"values":["center","-moz-initial","inherit","initial","revert","revert-layer","unset","end","start","baseline","stretch","flex-end","flex-start","normal","self-end","self-start","anchor-center"],"open":true},"justify":{"values":["center","-moz-initial","inherit","initial","revert","revert-layer","unset","end","start","right","left","space-around","space-between","space-evenly","stretch","flex-end","flex-start","normal"],"open":true}},"kinds":{"unstyled":"boolean","variant":"string"}},
+  "Stepper": {"props":["children","onStepClick","active","icon","completedIcon","progressIcon","color","iconSize","contentPadding","orientation","iconPosition","size","radius","allowNextStepsSelect","wrap","autoContrast","unstyled","variant","classNames","styles","vars","attributes","key"],"required":["children","active"],"enums":{"color":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"contentPadding":{"values":["xs","sm","md","lg","xl"],"open":true},"orientation":{"values":["horizontal","vertical"],"open":false},"iconPosition":{"values":["right","left"],"open":false},"size":{"values":["xs","sm","md","lg","xl"],"open":false},"radius":{"values":["xs","sm","md","lg","xl"],"open":true}},"kinds":{"active":"number","allowNextStepsSelect":"boolean","wrap":"boolean","autoContrast":"boolean","unstyled":"boolean","variant":"string"}},
+  "StepperStep": {"props":["step","state","color","withIcon","icon","completedIcon","progressIcon","label","description","iconSize","iconPosition","loading","allowStepClick","allowStepSelect","orientation","styles","variant","vars","classNames","form","name","key","type","disabled","formAction","formEncType","formMethod","formNoValidate","formTarget","value"],"required":[],"enums":{"state":{"values":["stepInactive","stepProgress","stepCompleted"],"open":false},"color":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"iconPosition":{"values":["right","left"],"open":false},"orientation":{"values":["horizontal","vertical"],"open":false},"type":{"values":["button","reset","submit"],"open":false}},"kinds":{"step":"number","withIcon":"boolean","loading":"boolean","allowStepClick":"boolean","allowStepSelect":"boolean","variant":"string","form":"string","name":"string","disabled":"boolean","formAction":"string","formEncType":"string","formMethod":"string","formNoValidate":"boolean","formTarget":"string"}},
+  "StepperCompleted": {"props":["children"],"required":["children"],"enums":{},"kinds":{}},
+  "Switch": {"props":["id","label","offLabel","onLabel","color","size","radius","wrapperProps","thumbIcon","labelPosition","description","error","rootRef","withThumbIndicator","unstyled","variant","classNames","styles","vars","attributes","form","pattern","list","name","width","required","placeholder","step","multiple","key","src","type","onChange","height","max","min","disabled","formAction","formEncType","formMethod","formNoValidate","formTarget","value","accept","alt","autoComplete","capture","checked","maxLength","minLength","readOnly"],"required":[],"enums":{"color":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":true},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"labelPosition":{"values":["right","left"],"open":false},"type":{"values":["number","button","search","time","image","text","checkbox","radio","color","date","datetime-local","email","file","hidden","month","password","range","reset","submit","tel","url","week"],"open":true},"capture":{"values":["user","environment"],"open":true}},"kinds":{"id":"string","withThumbIndicator":"boolean","unstyled":"boolean","variant":"string","form":"string","pattern":"string","list":"string","name":"string","required":"boolean","placeholder":"string","multiple":"boolean","src":"string","disabled":"boolean","formAction":"string","formEncType":"string","formMethod":"string","formNoValidate":"boolean","formTarget":"string","accept":"string","alt":"string","checked":"boolean","maxLength":"number","minLength":"number","readOnly":"boolean"}},
+  "SwitchGroup": {"props":["children","value","defaultValue","onChange","wrapperProps","size","readOnly","disabled","label","required","description","error","unstyled","key","id","styles","variant","vars","attributes","classNames","withAsterisk","labelProps","descriptionProps","errorProps","inputContainer","inputWrapperOrder","labelElement"],"required":["children"],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":true},"labelElement":{"values":["div","label"],"open":false}},"kinds":{"readOnly":"boolean","disabled":"boolean","required":"boolean","unstyled":"boolean","id":"string","variant":"string","withAsterisk":"boolean"}},
+  "Table": {"props":["layout","captionSide","borderColor","withTableBorder","withColumnBorders","withRowBorders","horizontalSpacing","verticalSpacing","striped","stripedColor","highlightOnHover","highlightOnHoverColor","data","stickyHeader","stickyHeaderOffset","tabularNums","unstyled","variant","classNames","styles","vars","attributes","summary","width","key","align","bgcolor","border","cellPadding","cellSpacing","frame","rules"],"required":[],"enums":{"layout":{"values":["auto","fixed","-moz-initial","inherit","initial","revert","revert-layer","unset"],"open":false},"captionSide":{"values":["top","bottom"],"open":false},"borderColor":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"horizontalSpacing":{"values":["xs","sm","md","lg","xl"],"open":true},"verticalSpacing":{"values":["xs","sm","md","lg","xl"],"open":true},"striped":{"values":["odd","even"],"open":true},"stripedColor":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"highlightOnHoverColor":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"variant":{"values":["default","vertical"],"open":true},"align":{"values":["center","right","left"],"open":false},"rules":{"values":["none","all","rows","groups","columns"],"open":false}},"kinds":{"withTableBorder":"boolean","withColumnBorders":"boolean","withRowBorders":"boolean","highlightOnHover":"boolean","stickyHeader":"boolean","tabularNums":"boolean","unstyled":"boolean","summary":"string","bgcolor":"string","border":"number","frame":"boolean"}},
+  "TableCaption": {"props":["styles","variant","vars","classNames","key"],"required":[],"enums":{"variant":{"values":["default","vertical"],"open":true}},"kinds":{}},
+  "TableTbody": {"props":["styles","variant","vars","classNames","key"],"required":[],"enums":{"variant":{"values":["default","vertical"],"open":true}},"kinds":{}},
+  "TableTd": {"props":["styles","variant","vars","classNames","abbr","width","key","height","align","colSpan","headers","rowSpan","scope","valign"],"required":[],"enums":{"variant":{"values":["default","vertical"],"open":true},"align":{"values":["center","right","left","justify","char"],"open":false},"valign":{"values":["top","bottom","baseline","middle"],"open":false}},"kinds":{"abbr":"string","colSpan":"number","headers":"string","rowSpan":"number","scope":"string"}},
+  "TableTfoot": {"props":["styles","variant","vars","classNames","key"],"required":[],"enums":{"variant":{"values":["default","vertical"],"open":true}},"kinds":{}},
+  "TableTh": {"props":["styles","variant","vars","classNames","abbr","key","align","colSpan","headers","rowSpan","scope"],"required":[],"enums":{"variant":{"values":["default","vertical"],"open":true},"align":{"values":["center","right","left","justify","char"],"open":false}},"kinds":{"abbr":"string","colSpan":"number","headers":"string","rowSpan":"number","scope":"string"}},
+  "TableThead": {"props":["styles","variant","vars","classNames","key"],"required":[],"enums":{"variant":{"values":["default","vertical"],"open":true}},"kinds":{}},
+  "TableTr": {"props":["styles","variant","vars","classNames","key"],"required":[],"enums":{"variant":{"values":["default","vertical"],"open":true}},"kinds":{}},
+  "TableScrollContainer": {"props":["minWidth","maxHeight","type","scrollAreaProps","unstyled","variant","classNames","styles","vars","attributes","key"],"required":["minWidth"],"enums":{"type":{"values":["scrollarea","native"],"open":false}},"kinds":{"unstyled":"boolean","variant":"string"}},
+  "TableOfContents": {"props":["color","size","autoContrast","scrollSpyOptions","initialData","getControlProps","minDepthToOffset","depthOffset","radius","reinitializeRef","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"color":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":true},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"variant":{"values":["none","light","filled"],"open":true}},"kinds":{"autoContrast":"boolean","minDepthToOffset":"number","unstyled":"boolean"}},
+  "Tabs": {"props":["defaultValue","value","onChange","orientation","placement","id","loop","activateTabWithKeyboard","allowTabDeactivation","children","color","radius","inverted","keepMounted","autoContrast","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"orientation":{"values":["horizontal","vertical"],"open":false},"placement":{"values":["right","left"],"open":false},"color":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"variant":{"values":["outline","default","pills"],"open":true}},"kinds":{"defaultValue":"string","value":"string","id":"string","loop":"boolean","activateTabWithKeyboard":"boolean","allowTabDeactivation":"boolean","inverted":"boolean","keepMounted":"boolean","autoContrast":"boolean","unstyled":"boolean"}},
+  "TabsList": {"props":["children","grow","justify","styles","variant","vars","classNames","key"],"required":["children"],"enums":{"justify":{"values":["center","-moz-initial","inherit","initial","revert","revert-layer","unset","end","start","right","left","space-around","space-between","space-evenly","stretch","flex-end","flex-start","normal"],"open":true}},"kinds":{"grow":"boolean","variant":"string"}},
+  "TabsTab": {"props":["value","children","rightSection","leftSection","color","unstyled","variant","size","attributes","styles","vars","classNames","form","name","key","type","disabled","formAction","formEncType","formMethod","formNoValidate","formTarget"],"required":["value"],"enums":{"color":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"type":{"values":["button","reset","submit"],"open":false}},"kinds":{"value":"string","unstyled":"boolean","variant":"string","form":"string","name":"string","disabled":"boolean","formAction":"string","formEncType":"string","formMethod":"string","formNoValidate":"boolean","formTarget":"string"}},
+  "TabsPanel": {"props":["children","keepMounted","value","styles","variant","vars","classNames","key"],"required":["children","value"],"enums":{},"kinds":{"keepMounted":"boolean","value":"string","variant":"string"}},
+  "TagsInput": {"props":["data","value","defaultValue","onChange","onRemove","onClear","searchValue","defaultSearchValue","onSearchChange","maxTags","allowDuplicates","onDuplicate","splitChars","clearable","clearButtonProps","hiddenInputProps","hiddenInputValuesDivider","renderOption","scrollAreaProps","acceptValueOnBlur","isDuplicate","wrapperProps","label","description","error","required","withAsterisk","labelProps","descriptionProps","errorProps","inputContainer","inputWrapperOrder","leftSection","leftSectionWidth","leftSectionProps","leftSectionPointerEvents","rightSection","rightSectionWidth","rightSectionProps","rightSectionPointerEvents","radius","disabled","size","pointer","withErrorStyles","inputSize","filter","dropdownOpened","defaultDropdownOpened","onDropdownOpen","onDropdownClose","selectFirstOptionOnChange","onOptionSubmit","comboboxProps","limit","withScrollArea","maxDropdownHeight","unstyled","variant","classNames","styles","vars","attributes","form","pattern","list","name","width","placeholder","step","multiple","key","src","type","height","max","min","formAction","formEncType","formMethod","formNoValidate","formTarget","accept","alt","autoComplete","capture","checked","maxLength","minLength","readOnly"],"required":[],"enums":{"leftSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"rightSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":true},"type":{"values":["number","button","search","time","image","text","checkbox","radio","color","date","datetime-local","email","file","hidden","month","password","range","reset","submit","tel","url","week"],"open":true},"capture":{"values":["user","environment"],"open":true}},"kinds":{"searchValue":"string","defaultSearchValue":"string","maxTags":"number","allowDuplicates":"boolean","clearable":"boolean","hiddenInputValuesDivider":"string","acceptValueOnBlur":"boolean","required":"boolean","withAsterisk":"boolean","disabled":"boolean","pointer":"boolean","withErrorStyles":"boolean","inputSize":"string","dropdownOpened":"boolean","defaultDropdownOpened":"boolean","selectFirstOptionOnChange":"boolean","limit":"number","withScrollArea":"boolean","unstyled":"boolean","variant":"string","form":"string","pattern":"string","list":"string","name":"string","placeholder":"string","multiple":"boolean","src":"string","formAction":"string","formEncType":"string","formMethod":"string","formNoValidate":"boolean","formTarget":"string","accept":"string","alt":"string","checked":"boolean","maxLength":"number","minLength":"number","readOnly":"boolean"}},
+  "Text": {"props":["size","lineClamp","truncate","inline","inherit","gradient","span","color","unstyled","variant","classNames","styles","vars","attributes"],"required":[],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":true},"truncate":{"values":["end","start"],"open":true},"color":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"variant":{"values":["text","gradient"],"open":true}},"kinds":{"lineClamp":"number","inline":"boolean","inherit":"boolean","span":"boolean","unstyled":"boolean"}},
+  "Textarea": {"props":["autosize","maxRows","minRows","resize","wrapperProps","label","description","error","required","withAsterisk","labelProps","descriptionProps","errorProps","inputContainer","inputWrapperOrder","leftSection","leftSectionWidth","leftSectionProps","leftSectionPointerEvents","rightSection","rightSectionWidth","rightSectionProps","rightSectionPointerEvents","radius","disabled","size","pointer","withErrorStyles","inputSize","unstyled","variant","classNames","styles","vars","attributes","form","name","placeholder","key","onChange","wrap","value","autoComplete","maxLength","minLength","readOnly","cols","dirName","rows"],"required":[],"enums":{"resize":{"values":["none","-moz-initial","inherit","initial","revert","revert-layer","unset","horizontal","vertical","inline","block","both"],"open":false},"leftSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"rightSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":true}},"kinds":{"autosize":"boolean","maxRows":"number","minRows":"number","required":"boolean","withAsterisk":"boolean","disabled":"boolean","pointer":"boolean","withErrorStyles":"boolean","inputSize":"string","unstyled":"boolean","variant":"string","form":"string","name":"string","placeholder":"string","wrap":"string","autoComplete":"string","maxLength":"number","minLength":"number","readOnly":"boolean","cols":"number","dirName":"string","rows":"number"}},
+  "TextInput": {"props":["wrapperProps","label","description","error","required","withAsterisk","labelProps","descriptionProps","errorProps","inputContainer","inputWrapperOrder","leftSection","leftSectionWidth","leftSectionProps","leftSectionPointerEvents","rightSection","rightSectionWidth","rightSectionProps","rightSectionPointerEvents","radius","disabled","size","pointer","withErrorStyles","inputSize","unstyled","variant","classNames","styles","vars","attributes","form","pattern","list","name","width","placeholder","step","multiple","key","src","type","onChange","height","max","min","formAction","formEncType","formMethod","formNoValidate","formTarget","value","accept","alt","autoComplete","capture","checked","maxLength","minLength","readOnly"],"required":[],"enums":{"leftSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"rightSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":true},"variant":{"values":["filled","default","unstyled"],"open":true},"type":{"values":["number","button","search","time","image","text","checkbox","radio","color","date","datetime-local","email","file","hidden","month","password","range","reset","submit","tel","url","week"],"open":true},"capture":{"values":["user","environment"],"open":true}},"kinds":{"required":"boolean","withAsterisk":"boolean","disabled":"boolean","pointer":"boolean","withErrorStyles":"boolean","inputSize":"string","unstyled":"boolean","form":"string","pattern":"string","list":"string","name":"string","placeholder":"string","multiple":"boolean","src":"string","formAction":"string","formEncType":"string","formMethod":"string","formNoValidate":"boolean","formTarget":"string","accept":"string","alt":"string","checked":"boolean","maxLength":"number","minLength":"number","readOnly":"boolean"}},
+  "ThemeIcon": {"props":["size","color","radius","gradient","children","autoContrast","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":true},"color":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"variant":{"values":["light","white","filled","outline","transparent","default","gradient"],"open":true}},"kinds":{"autoContrast":"boolean","unstyled":"boolean"}},
+  "Timeline": {"props":["children","active","color","radius","bulletSize","align","lineWidth","reverseActive","autoContrast","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"color":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"align":{"values":["right","left"],"open":false}},"kinds":{"active":"number","reverseActive":"boolean","autoContrast":"boolean","unstyled":"boolean","variant":"string"}},
+  "TimelineItem": {"props":["title","children","bullet","radius","color","lineVariant","styles","variant","vars","classNames","key"],"required":[],"enums":{"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"color":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true},"lineVariant":{"values":["solid","dashed","dotted"],"open":false}},"kinds":{"variant":"string"}},
+  "Title": {"props":["order","size","lineClamp","textWrap","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"textWrap":{"values":["nowrap","wrap","balance","pretty","stable"],"open":false}},"kinds":{"order":"number","lineClamp":"number","unstyled":"boolean","variant":"string"}},
+  "Tooltip": {"props":["onPositionChange","openDelay","closeDelay","opened","defaultOpened","offset","withArrow","arrowSize","arrowOffset","arrowRadius","arrowPosition","transitionProps","events","positionDependencies","inline","keepMounted","floatingStrategy","autoContrast","target","children","position","refProp","label","withinPortal","radius","color","multiline","zIndex","disabled","portalProps","middlewares","unstyled","variant","classNames","styles","vars","attributes","key"],"required":["label"],"enums":{"arrowPosition":{"values":["center","side"],"open":false},"floatingStrategy":{"values":["fixed","absolute"],"open":false},"position":{"values":["top","right","bottom","left","top-end","top-start","right-end","right-start","bottom-end","bottom-start","left-end","left-start"],"open":false},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"color":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true}},"kinds":{"openDelay":"number","closeDelay":"number","opened":"boolean","defaultOpened":"boolean","withArrow":"boolean","arrowSize":"number","arrowOffset":"number","arrowRadius":"number","inline":"boolean","keepMounted":"boolean","autoContrast":"boolean","refProp":"string","withinPortal":"boolean","multiline":"boolean","disabled":"boolean","unstyled":"boolean","variant":"string"}},
+  "TooltipGroup": {"props":["children","openDelay","closeDelay"],"required":["children"],"enums":{},"kinds":{"openDelay":"number","closeDelay":"number"}},
+  "TooltipFloating": {"props":["offset","defaultOpened","children","position","refProp","label","withinPortal","radius","color","multiline","zIndex","disabled","portalProps","middlewares","unstyled","variant","classNames","styles","vars","attributes","key"],"required":["label"],"enums":{"position":{"values":["top","right","bottom","left","top-end","top-start","right-end","right-start","bottom-end","bottom-start","left-end","left-start"],"open":false},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"color":{"values":["dark","gray","red","pink","grape","violet","indigo","blue","cyan","green","lime","yellow","orange","teal"],"open":true}},"kinds":{"offset":"number","defaultOpened":"boolean","refProp":"string","withinPortal":"boolean","multiline":"boolean","disabled":"boolean","unstyled":"boolean","variant":"string"}},
+  "Transition": {"props":["keepMounted","transition","duration","exitDuration","timingFunction","mounted","children","onExited","onExit","onEnter","onEntered","enterDelay","exitDelay"],"required":["mounted","children"],"enums":{"transition":{"values":["scale","fade","fade-down","fade-up","fade-left","fade-right","skew-up","skew-down","rotate-right","rotate-left","slide-down","slide-up","slide-right","slide-left","scale-y","scale-x","pop","pop-top-left","pop-top-right","pop-bottom-left","pop-bottom-right"],"open":true}},"kinds":{"keepMounted":"boolean","duration":"number","exitDuration":"number","timingFunction":"string","mounted":"boolean","enterDelay":"number","exitDelay":"number"}},
+  "Tree": {"props":["data","levelOffset","expandOnClick","expandOnSpace","checkOnSpace","selectOnClick","tree","renderNode","clearSelectionOnOutsideClick","allowRangeSelection","unstyled","variant","classNames","styles","vars","attributes","key"],"required":["data"],"enums":{"levelOffset":{"values":["xs","sm","md","lg","xl"],"open":true}},"kinds":{"expandOnClick":"boolean","expandOnSpace":"boolean","checkOnSpace":"boolean","selectOnClick":"boolean","clearSelectionOnOutsideClick":"boolean","allowRangeSelection":"boolean","unstyled":"boolean","variant":"string"}},
+  "Typography": {"props":["unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{},"kinds":{"unstyled":"boolean","variant":"string"}},
+  "DatesProvider": {"props":["settings","children"],"required":["settings"],"enums":{},"kinds":{}},
+  "HiddenDatesInput": {"props":["value","type","name","form","withTime"],"required":["value","type","name","form"],"enums":{"type":{"values":["range","default","multiple"],"open":false}},"kinds":{"name":"string","form":"string","withTime":"boolean"}},
+  "TimeInput": {"props":["withSeconds","minTime","maxTime","wrapperProps","label","description","error","required","withAsterisk","labelProps","descriptionProps","errorProps","inputContainer","inputWrapperOrder","leftSection","leftSectionWidth","leftSectionProps","leftSectionPointerEvents","rightSection","rightSectionWidth","rightSectionProps","rightSectionPointerEvents","radius","disabled","size","pointer","withErrorStyles","inputSize","unstyled","variant","classNames","styles","vars","attributes","form","pattern","list","name","width","placeholder","step","multiple","key","src","type","onChange","height","max","min","formAction","formEncType","formMethod","formNoValidate","formTarget","value","accept","alt","autoComplete","capture","checked","maxLength","minLength","readOnly"],"required":[],"enums":{"leftSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"rightSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":true},"type":{"values":["number","button","search","time","image","text","checkbox","radio","color","date","datetime-local","email","file","hidden","month","password","range","reset","submit","tel","url","week"],"open":true},"capture":{"values":["user","environment"],"open":true}},"kinds":{"withSeconds":"boolean","minTime":"string","maxTime":"string","required":"boolean","withAsterisk":"boolean","disabled":"boolean","pointer":"boolean","withErrorStyles":"boolean","inputSize":"string","unstyled":"boolean","variant":"string","form":"string","pattern":"string","list":"string","name":"string","placeholder":"string","multiple":"boolean","src":"string","formAction":"string","formEncType":"string","formMethod":"string","formNoValidate":"boolean","formTarget":"string","accept":"string","alt":"string","checked":"boolean","maxLength":"number","minLength":"number","readOnly":"boolean"}},
+  "TimePicker": {"props":["value","defaultValue","onChange","clearable","name","form","min","max","format","hoursStep","minutesStep","secondsStep","withSeconds","hoursInputLabel","minutesInputLabel","secondsInputLabel","amPmInputLabel","amPmLabels","withDropdown","popoverProps","onFocus","onBlur","clearButtonProps","hoursInputProps","minutesInputProps","secondsInputProps","amPmSelectProps","readOnly","disabled","hiddenInputProps","pasteSplit","hoursRef","minutesRef","secondsRef","amPmRef","presets","maxDropdownContentHeight","scrollAreaProps","reverseTimeControlsList","hoursPlaceholder","minutesPlaceholder","secondsPlaceholder","wrapperProps","label","description","error","required","withAsterisk","labelProps","descriptionProps","errorProps","inputContainer","inputWrapperOrder","leftSection","leftSectionWidth","leftSectionProps","leftSectionPointerEvents","rightSection","rightSectionWidth","rightSectionProps","rightSectionPointerEvents","radius","size","pointer","withErrorStyles","inputSize","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"format":{"values":["12h","24h"],"open":false},"leftSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"rightSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":true},"variant":{"values":["filled","default","unstyled"],"open":true}},"kinds":{"value":"string","defaultValue":"string","clearable":"boolean","name":"string","form":"string","min":"string","max":"string","hoursStep":"number","minutesStep":"number","secondsStep":"number","withSeconds":"boolean","hoursInputLabel":"string","minutesInputLabel":"string","secondsInputLabel":"string","amPmInputLabel":"string","withDropdown":"boolean","readOnly":"boolean","disabled":"boolean","maxDropdownContentHeight":"number","reverseTimeControlsList":"boolean","hoursPlaceholder":"string","minutesPlaceholder":"string","secondsPlaceholder":"string","required":"boolean","withAsterisk":"boolean","pointer":"boolean","withErrorStyles":"boolean","inputSize":"string","unstyled":"boolean"}},
+  "TimeValue": {"props":["value","format","amPmLabels","withSeconds"],"required":["value"],"enums":{"format":{"values":["12h","24h"],"open":false}},"kinds":{"withSeconds":"boolean"}},
+  "Day": {"props":["static","date","size","weekend","outside","selected","hidden","inRange","firstInRange","lastInRange","renderDay","highlightToday","unstyled","variant","classNames","styles","vars","attributes","form","name","key","type","disabled","formAction","formEncType","formMethod","formNoValidate","formTarget","value"],"required":["date"],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":false},"type":{"values":["button","reset","submit"],"open":false}},"kinds":{"static":"boolean","date":"string","weekend":"boolean","outside":"boolean","selected":"boolean","hidden":"boolean","inRange":"boolean","firstInRange":"boolean","lastInRange":"boolean","highlightToday":"boolean","unstyled":"boolean","variant":"string","form":"string","name":"string","disabled":"boolean","formAction":"string","formEncType":"string","formMethod":"string","formNoValidate":"boolean","formTarget":"string"}},
+  "WeekdaysRow": {"props":["size","locale","firstDayOfWeek","weekdayFormat","cellComponent","withWeekNumbers","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":false},"cellComponent":{"values":["td","th"],"open":false}},"kinds":{"locale":"string","firstDayOfWeek":"number","withWeekNumbers":"boolean","unstyled":"boolean","variant":"string"}},
+  "Month": {"props":["month","static","locale","firstDayOfWeek","weekdayFormat","weekendDays","getDayProps","excludeDate","minDate","maxDate","renderDay","hideOutsideDates","hideWeekdays","getDayAriaLabel","size","withCellSpacing","highlightToday","withWeekNumbers","unstyled","variant","classNames","styles","vars","attributes","key"],"required":["month"],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":false}},"kinds":{"month":"string","static":"boolean","locale":"string","firstDayOfWeek":"number","hideOutsideDates":"boolean","hideWeekdays":"boolean","withCellSpacing":"boolean","highlightToday":"boolean","withWeekNumbers":"boolean","unstyled":"boolean","variant":"string"}},
+  "PickerControl": {"props":["children","disabled","selected","inRange","firstInRange","lastInRange","size","unstyled","variant","classNames","styles","vars","attributes","form","name","key","type","formAction","formEncType","formMethod","formNoValidate","formTarget","value"],"required":[],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":false},"type":{"values":["button","reset","submit"],"open":false}},"kinds":{"disabled":"boolean","selected":"boolean","inRange":"boolean","firstInRange":"boolean","lastInRange":"boolean","unstyled":"boolean","variant":"string","form":"string","name":"string","formAction":"string","formEncType":"string","formMethod":"string","formNoValidate":"boolean","formTarget":"string"}},
+  "YearsList": {"props":["decade","yearsListFormat","getYearControlProps","size","withCellSpacing","minDate","maxDate","locale","unstyled","variant","classNames","styles","vars","attributes","summary","width","key","align","bgcolor","border","cellPadding","cellSpacing","frame","rules"],"required":["decade"],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":false},"align":{"values":["center","right","left"],"open":false},"rules":{"values":["none","all","rows","groups","columns"],"open":false}},"kinds":{"decade":"string","yearsListFormat":"string","withCellSpacing":"boolean","locale":"string","unstyled":"boolean","variant":"string","summary":"string","bgcolor":"string","border":"number","frame":"boolean"}},
+  "MonthsList": {"props":["year","size","monthsListFormat","getMonthControlProps","withCellSpacing","minDate","maxDate","locale","unstyled","variant","classNames","styles","vars","attributes","summary","width","key","align","bgcolor","border","cellPadding","cellSpacing","frame","rules"],"required":["year"],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":false},"align":{"values":["center","right","left"],"open":false},"rules":{"values":["none","all","rows","groups","columns"],"open":false}},"kinds":{"year":"string","monthsListFormat":"string","withCellSpacing":"boolean","locale":"string","unstyled":"boolean","variant":"string","summary":"string","bgcolor":"string","border":"number","frame":"boolean"}},
+  "CalendarHeader": {"props":["label","levelControlAriaLabel","nextIcon","previousIcon","nextLabel","previousLabel","onNext","onPrevious","onLevelClick","nextDisabled","previousDisabled","hasNextLevel","withNext","withPrevious","size","headerControlsOrder","unstyled","variant","classNames","styles","vars","attributes","key"],"required":["label"],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":false}},"kinds":{"levelControlAriaLabel":"string","nextLabel":"string","previousLabel":"string","nextDisabled":"boolean","previousDisabled":"boolean","hasNextLevel":"boolean","withNext":"boolean","withPrevious":"boolean","unstyled":"boolean","variant":"string"}},
+  "DecadeLevel": {"props":["classNames","styles","decade","levelControlAriaLabel","decadeLabelFormat","yearsListFormat","getYearControlProps","size","withCellSpacing","minDate","maxDate","locale","nextIcon","previousIcon","nextLabel","previousLabel","onNext","onPrevious","nextDisabled","previousDisabled","withNext","withPrevious","headerControlsOrder","unstyled","variant","vars","attributes","key"],"required":["decade"],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":false}},"kinds":{"decade":"string","levelControlAriaLabel":"string","yearsListFormat":"string","withCellSpacing":"boolean","locale":"string","nextLabel":"string","previousLabel":"string","nextDisabled":"boolean","previousDisabled":"boolean","withNext":"boolean","withPrevious":"boolean","unstyled":"boolean","variant":"string"}},
+  "YearLevel": {"props":["classNames","styles","year","levelControlAriaLabel","yearLabelFormat","monthsListFormat","getMonthControlProps","withCellSpacing","minDate","maxDate","locale","nextIcon","previousIcon","nextLabel","previousLabel","onNext","onPrevious","onLevelClick","nextDisabled","previousDisabled","hasNextLevel","withNext","withPrevious","size","headerControlsOrder","unstyled","variant","vars","attributes","key"],"required":["year"],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":false}},"kinds":{"year":"string","levelControlAriaLabel":"string","monthsListFormat":"string","withCellSpacing":"boolean","locale":"string","nextLabel":"string","previousLabel":"string","nextDisabled":"boolean","previousDisabled":"boolean","hasNextLevel":"boolean","withNext":"boolean","withPrevious":"boolean","unstyled":"boolean","variant":"string"}},
+  "MonthLevel": {"props":["classNames","styles","month","levelControlAriaLabel","static","monthLabelFormat","locale","firstDayOfWeek","weekdayFormat","weekendDays","getDayProps","excludeDate","minDate","maxDate","renderDay","hideOutsideDates","hideWeekdays","getDayAriaLabel","size","withCellSpacing","highlightToday","withWeekNumbers","nextIcon","previousIcon","nextLabel","previousLabel","onNext","onPrevious","onLevelClick","nextDisabled","previousDisabled","hasNextLevel","withNext","withPrevious","headerControlsOrder","unstyled","variant","vars","attributes","key"],"required":["month"],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":false}},"kinds":{"month":"string","levelControlAriaLabel":"string","static":"boolean","locale":"string","firstDayOfWeek":"number","hideOutsideDates":"boolean","hideWeekdays":"boolean","withCellSpacing":"boolean","highlightToday":"boolean","withWeekNumbers":"boolean","nextLabel":"string","previousLabel":"string","nextDisabled":"boolean","previousDisabled":"boolean","hasNextLevel":"boolean","withNext":"boolean","withPrevious":"boolean","unstyled":"boolean","variant":"string"}},
+  "LevelsGroup": {"props":["size","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":false}},"kinds":{"unstyled":"boolean","variant":"string"}},
+  "DecadeLevelGroup": {"props":["classNames","styles","numberOfColumns","decade","levelControlAriaLabel","unstyled","variant","vars","attributes","size","locale","nextIcon","previousIcon","nextLabel","previousLabel","onNext","onPrevious","nextDisabled","previousDisabled","headerControlsOrder","decadeLabelFormat","yearsListFormat","getYearControlProps","withCellSpacing","minDate","maxDate","key"],"required":["decade"],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":false}},"kinds":{"numberOfColumns":"number","decade":"string","unstyled":"boolean","variant":"string","locale":"string","nextLabel":"string","previousLabel":"string","nextDisabled":"boolean","previousDisabled":"boolean","yearsListFormat":"string","withCellSpacing":"boolean"}},
+  "YearLevelGroup": {"props":["classNames","styles","numberOfColumns","year","levelControlAriaLabel","size","locale","onLevelClick","hasNextLevel","nextIcon","previousIcon","nextLabel","previousLabel","onNext","onPrevious","nextDisabled","previousDisabled","headerControlsOrder","withCellSpacing","minDate","maxDate","yearLabelFormat","monthsListFormat","getMonthControlProps","unstyled","variant","vars","attributes","key"],"required":["year"],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":false}},"kinds":{"numberOfColumns":"number","year":"string","locale":"string","hasNextLevel":"boolean","nextLabel":"string","previousLabel":"string","nextDisabled":"boolean","previousDisabled":"boolean","withCellSpacing":"boolean","monthsListFormat":"string","unstyled":"boolean","variant":"string"}},
+  "MonthLevelGroup": {"props":["classNames","styles","numberOfColumns","month","levelControlAriaLabel","static","size","locale","firstDayOfWeek","weekendDays","onLevelClick","hasNextLevel","nextIcon","previousIcon","nextLabel","previousLabel","onNext","onPrevious","nextDisabled","previousDisabled","headerControlsOrder","withCellSpacing","minDate","maxDate","monthLabelFormat","weekdayFormat","getDayProps","excludeDate","renderDay","hideOutsideDates","hideWeekdays","getDayAriaLabel","highlightToday","withWeekNumbers","unstyled","variant","vars","attributes","key"],"required":["month"],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":false}},"kinds":{"numberOfColumns":"number","month":"string","static":"boolean","locale":"string","firstDayOfWeek":"number","hasNextLevel":"boolean","nextLabel":"string","previousLabel":"string","nextDisabled":"boolean","previousDisabled":"boolean","withCellSpacing":"boolean","hideOutsideDates":"boolean","hideWeekdays":"boolean","highlightToday":"boolean","withWeekNumbers":"boolean","unstyled":"boolean","variant":"string"}},
+  "PickerInputBase": {"props":["classNames","styles","children","formattedValue","dropdownHandlers","dropdownOpened","onClear","shouldClear","value","type","size","withTime","closeOnChange","dropdownType","popoverProps","modalProps","clearable","clearButtonProps","readOnly","sortDates","labelSeparator","placeholder","valueFormatter","onDropdownClose","label","radius","required","description","error","disabled","pointer","wrapperProps","withAsterisk","labelProps","descriptionProps","errorProps","inputContainer","inputWrapperOrder","leftSection","leftSectionWidth","leftSectionProps","leftSectionPointerEvents","rightSection","rightSectionWidth","rightSectionProps","rightSectionPointerEvents","withErrorStyles","inputSize","form","name","key","formAction","formEncType","formMethod","formNoValidate","formTarget","unstyled","variant","vars","attributes"],"required":["children","formattedValue","dropdownHandlers","dropdownOpened","onClear","shouldClear","value","type"],"enums":{"type":{"values":["range","default","multiple"],"open":false},"size":{"values":["xs","sm","md","lg","xl"],"open":false},"dropdownType":{"values":["popover","modal"],"open":false},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"leftSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"rightSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"variant":{"values":["filled","default","unstyled"],"open":true}},"kinds":{"formattedValue":"string","dropdownOpened":"boolean","shouldClear":"boolean","withTime":"boolean","closeOnChange":"boolean","clearable":"boolean","readOnly":"boolean","sortDates":"boolean","labelSeparator":"string","placeholder":"string","required":"boolean","disabled":"boolean","pointer":"boolean","withAsterisk":"boolean","withErrorStyles":"boolean","inputSize":"string","form":"string","name":"string","formAction":"string","formEncType":"string","formMethod":"string","formNoValidate":"boolean","formTarget":"string","unstyled":"boolean"}},
+  "Calendar": {"props":["maxLevel","minLevel","static","enableKeyboardNavigation","defaultLevel","level","onLevelChange","onYearSelect","onMonthSelect","onYearMouseEnter","onMonthMouseEnter","size","locale","nextIcon","previousIcon","nextLabel","previousLabel","headerControlsOrder","decadeLabelFormat","yearsListFormat","getYearControlProps","withCellSpacing","minDate","maxDate","yearLabelFormat","monthsListFormat","getMonthControlProps","firstDayOfWeek","weekendDays","monthLabelFormat","weekdayFormat","getDayProps","excludeDate","renderDay","hideOutsideDates","hideWeekdays","getDayAriaLabel","highlightToday","withWeekNumbers","defaultDate","date","onDateChange","numberOfColumns","columnsToScroll","ariaLabels","onNextDecade","onPreviousDecade","onNextYear","onPreviousYear","onNextMonth","onPreviousMonth","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"maxLevel":{"values":["month","year","decade"],"open":false},"minLevel":{"values":["month","year","decade"],"open":false},"defaultLevel":{"values":["month","year","decade"],"open":false},"level":{"values":["month","year","decade"],"open":false},"size":{"values":["xs","sm","md","lg","xl"],"open":false}},"kinds":{"static":"boolean","enableKeyboardNavigation":"boolean","locale":"string","nextLabel":"string","previousLabel":"string","yearsListFormat":"string","withCellSpacing":"boolean","monthsListFormat":"string","firstDayOfWeek":"number","hideOutsideDates":"boolean","hideWeekdays":"boolean","highlightToday":"boolean","withWeekNumbers":"boolean","numberOfColumns":"number","columnsToScroll":"number","unstyled":"boolean","variant":"string"}},
+  "YearPicker": {"props":["onYearSelect","type","value","defaultValue","onChange","allowDeselect","allowSingleDateInRange","decadeLabelFormat","yearsListFormat","getYearControlProps","size","withCellSpacing","minDate","maxDate","locale","date","nextLabel","previousLabel","defaultDate","onDateChange","numberOfColumns","columnsToScroll","ariaLabels","onNextDecade","onPreviousDecade","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"type":{"values":["range","default","multiple"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":false}},"kinds":{"yearsListFormat":"string","withCellSpacing":"boolean","locale":"string","nextLabel":"string","previousLabel":"string","numberOfColumns":"number","columnsToScroll":"number","unstyled":"boolean","variant":"string"}},
+  "MonthPicker": {"props":["onMonthSelect","maxLevel","defaultLevel","level","onLevelChange","type","value","defaultValue","onChange","allowDeselect","allowSingleDateInRange","decadeLabelFormat","yearsListFormat","getYearControlProps","size","withCellSpacing","minDate","maxDate","locale","yearLabelFormat","monthsListFormat","getMonthControlProps","date","nextLabel","previousLabel","onNextYear","onPreviousYear","defaultDate","onDateChange","numberOfColumns","columnsToScroll","ariaLabels","onNextDecade","onPreviousDecade","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"maxLevel":{"values":["month","year","decade"],"open":false},"defaultLevel":{"values":["month","year","decade"],"open":false},"level":{"values":["month","year","decade"],"open":false},"type":{"values":["range","default","multiple"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":false}},"kinds":{"yearsListFormat":"string","withCellSpacing":"boolean","locale":"string","monthsListFormat":"string","nextLabel":"string","previousLabel":"string","numberOfColumns":"number","columnsToScroll":"number","unstyled":"boolean","variant":"string"}},
+  "DatePicker": {"props":["maxLevel","defaultLevel","level","onLevelChange","presets","type","value","defaultValue","onChange","allowDeselect","allowSingleDateInRange","decadeLabelFormat","yearsListFormat","getYearControlProps","size","withCellSpacing","minDate","maxDate","locale","yearLabelFormat","monthsListFormat","getMonthControlProps","monthLabelFormat","firstDayOfWeek","weekdayFormat","weekendDays","getDayProps","excludeDate","renderDay","hideOutsideDates","hideWeekdays","getDayAriaLabel","highlightToday","withWeekNumbers","defaultDate","date","onDateChange","numberOfColumns","columnsToScroll","ariaLabels","nextLabel","previousLabel","onNextDecade","onPreviousDecade","onNextYear","onPreviousYear","onNextMonth","onPreviousMonth","nextIcon","previousIcon","headerControlsOrder","onYearSelect","onMonthSelect","onYearMouseEnter","onMonthMouseEnter","enableKeyboardNavigation","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"maxLevel":{"values":["month","year","decade"],"open":false},"defaultLevel":{"values":["month","year","decade"],"open":false},"level":{"values":["month","year","decade"],"open":false},"type":{"values":["range","default","multiple"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":false}},"kinds":{"yearsListFormat":"string","withCellSpacing":"boolean","locale":"string","monthsListFormat":"string","firstDayOfWeek":"number","hideOutsideDates":"boolean","hideWeekdays":"boolean","highlightToday":"boolean","withWeekNumbers":"boolean","numberOfColumns":"number","columnsToScroll":"number","nextLabel":"string","previousLabel":"string","enableKeyboardNavigation":"boolean","unstyled":"boolean","variant":"string"}},
+  "DateInput": {"props":["dateParser","value","defaultValue","onChange","popoverProps","clearable","clearButtonProps","valueFormat","fixOnBlur","allowDeselect","maxLevel","defaultLevel","level","onLevelChange","label","radius","required","description","error","disabled","pointer","wrapperProps","withAsterisk","labelProps","descriptionProps","errorProps","inputContainer","inputWrapperOrder","leftSection","leftSectionWidth","leftSectionProps","leftSectionPointerEvents","rightSection","rightSectionWidth","rightSectionProps","rightSectionPointerEvents","withErrorStyles","inputSize","defaultDate","date","onDateChange","numberOfColumns","columnsToScroll","ariaLabels","nextLabel","previousLabel","onNextDecade","onPreviousDecade","onNextYear","onPreviousYear","onNextMonth","onPreviousMonth","decadeLabelFormat","yearsListFormat","getYearControlProps","size","withCellSpacing","minDate","maxDate","locale","nextIcon","previousIcon","onNext","onPrevious","nextDisabled","previousDisabled","withNext","withPrevious","headerControlsOrder","yearLabelFormat","monthsListFormat","getMonthControlProps","onLevelClick","hasNextLevel","monthLabelFormat","firstDayOfWeek","weekdayFormat","weekendDays","getDayProps","excludeDate","renderDay","hideOutsideDates","hideWeekdays","getDayAriaLabel","highlightToday","withWeekNumbers","unstyled","variant","classNames","styles","vars","attributes","form","pattern","list","name","width","placeholder","step","multiple","key","src","type","height","max","min","formAction","formEncType","formMethod","formNoValidate","formTarget","accept","alt","autoComplete","capture","checked","maxLength","minLength","readOnly"],"required":[],"enums":{"maxLevel":{"values":["month","year","decade"],"open":false},"defaultLevel":{"values":["month","year","decade"],"open":false},"level":{"values":["month","year","decade"],"open":false},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"leftSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"rightSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"size":{"values":["xs","sm","md","lg","xl"],"open":false},"variant":{"values":["filled","default","unstyled"],"open":true},"type":{"values":["number","button","search","time","image","text","checkbox","radio","color","date","datetime-local","email","file","hidden","month","password","range","reset","submit","tel","url","week"],"open":true},"capture":{"values":["user","environment"],"open":true}},"kinds":{"clearable":"boolean","valueFormat":"string","fixOnBlur":"boolean","allowDeselect":"boolean","required":"boolean","disabled":"boolean","pointer":"boolean","withAsterisk":"boolean","withErrorStyles":"boolean","inputSize":"string","numberOfColumns":"number","columnsToScroll":"number","nextLabel":"string","previousLabel":"string","yearsListFormat":"string","withCellSpacing":"boolean","locale":"string","nextDisabled":"boolean","previousDisabled":"boolean","withNext":"boolean","withPrevious":"boolean","monthsListFormat":"string","hasNextLevel":"boolean","firstDayOfWeek":"number","hideOutsideDates":"boolean","hideWeekdays":"boolean","highlightToday":"boolean","withWeekNumbers":"boolean","unstyled":"boolean","form":"string","pattern":"string","list":"string","name":"string","placeholder":"string","multiple":"boolean","src":"string","formAction":"string","formEncType":"string","formMethod":"string","formNoValidate":"boolean","formTarget":"string","accept":"string","alt":"string","checked":"boolean","maxLength":"number","minLength":"number","readOnly":"boolean"}},
+  "DateTimePicker": {"props":["valueFormat","value","defaultValue","onChange","defaultTimeValue","timePickerProps","submitButtonProps","withSeconds","maxLevel","presets","form","label","name","radius","required","description","error","placeholder","key","disabled","formAction","formEncType","formMethod","formNoValidate","formTarget","readOnly","pointer","wrapperProps","withAsterisk","labelProps","descriptionProps","errorProps","inputContainer","inputWrapperOrder","leftSection","leftSectionWidth","leftSectionProps","leftSectionPointerEvents","rightSection","rightSectionWidth","rightSectionProps","rightSectionPointerEvents","withErrorStyles","inputSize","onDropdownClose","labelSeparator","dropdownType","popoverProps","modalProps","clearable","clearButtonProps","sortDates","defaultDate","date","onDateChange","numberOfColumns","columnsToScroll","ariaLabels","nextLabel","previousLabel","onNextDecade","onPreviousDecade","onNextYear","onPreviousYear","onNextMonth","onPreviousMonth","size","locale","firstDayOfWeek","weekendDays","level","nextIcon","previousIcon","headerControlsOrder","decadeLabelFormat","yearsListFormat","getYearControlProps","withCellSpacing","minDate","maxDate","yearLabelFormat","monthsListFormat","getMonthControlProps","monthLabelFormat","weekdayFormat","getDayProps","excludeDate","renderDay","hideOutsideDates","hideWeekdays","getDayAriaLabel","highlightToday","withWeekNumbers","defaultLevel","onLevelChange","onYearSelect","onMonthSelect","unstyled","variant","classNames","styles","vars","attributes"],"required":[],"enums":{"maxLevel":{"values":["month","year","decade"],"open":false},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"leftSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"rightSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"dropdownType":{"values":["popover","modal"],"open":false},"size":{"values":["xs","sm","md","lg","xl"],"open":false},"level":{"values":["month","year","decade"],"open":false},"defaultLevel":{"values":["month","year","decade"],"open":false},"variant":{"values":["filled","default","unstyled"],"open":true}},"kinds":{"valueFormat":"string","defaultTimeValue":"string","withSeconds":"boolean","form":"string","name":"string","required":"boolean","placeholder":"string","disabled":"boolean","formAction":"string","formEncType":"string","formMethod":"string","formNoValidate":"boolean","formTarget":"string","readOnly":"boolean","pointer":"boolean","withAsterisk":"boolean","withErrorStyles":"boolean","inputSize":"string","labelSeparator":"string","clearable":"boolean","sortDates":"boolean","numberOfColumns":"number","columnsToScroll":"number","nextLabel":"string","previousLabel":"string","locale":"string","firstDayOfWeek":"number","yearsListFormat":"string","withCellSpacing":"boolean","monthsListFormat":"string","hideOutsideDates":"boolean","hideWeekdays":"boolean","highlightToday":"boolean","withWeekNumbers":"boolean","unstyled":"boolean"}},
+  "YearPickerInput": {"props":["valueFormat","closeOnChange","dropdownType","popoverProps","modalProps","clearable","clearButtonProps","readOnly","sortDates","labelSeparator","placeholder","valueFormatter","onDropdownClose","label","radius","required","description","error","disabled","pointer","wrapperProps","withAsterisk","labelProps","descriptionProps","errorProps","inputContainer","inputWrapperOrder","leftSection","leftSectionWidth","leftSectionProps","leftSectionPointerEvents","rightSection","rightSectionWidth","rightSectionProps","rightSectionPointerEvents","withErrorStyles","inputSize","form","name","key","formAction","formEncType","formMethod","formNoValidate","formTarget","type","value","defaultValue","onChange","allowDeselect","allowSingleDateInRange","decadeLabelFormat","yearsListFormat","getYearControlProps","size","withCellSpacing","minDate","maxDate","locale","date","nextLabel","previousLabel","defaultDate","onDateChange","numberOfColumns","columnsToScroll","ariaLabels","onNextDecade","onPreviousDecade","unstyled","variant","classNames","styles","vars","attributes"],"required":[],"enums":{"dropdownType":{"values":["popover","modal"],"open":false},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"leftSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"rightSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"type":{"values":["range","default","multiple"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":false},"variant":{"values":["filled","default","unstyled"],"open":true}},"kinds":{"valueFormat":"string","closeOnChange":"boolean","clearable":"boolean","readOnly":"boolean","sortDates":"boolean","labelSeparator":"string","placeholder":"string","required":"boolean","disabled":"boolean","pointer":"boolean","withAsterisk":"boolean","withErrorStyles":"boolean","inputSize":"string","form":"string","name":"string","formAction":"string","formEncType":"string","formMethod":"string","formNoValidate":"boolean","formTarget":"string","yearsListFormat":"string","withCellSpacing":"boolean","locale":"string","nextLabel":"string","previousLabel":"string","numberOfColumns":"number","columnsToScroll":"number","unstyled":"boolean"}},
+  "MonthPickerInput": {"props":["valueFormat","closeOnChange","dropdownType","popoverProps","modalProps","clearable","clearButtonProps","readOnly","sortDates","labelSeparator","placeholder","valueFormatter","onDropdownClose","label","radius","required","description","error","disabled","pointer","wrapperProps","withAsterisk","labelProps","descriptionProps","errorProps","inputContainer","inputWrapperOrder","leftSection","leftSectionWidth","leftSectionProps","leftSectionPointerEvents","rightSection","rightSectionWidth","rightSectionProps","rightSectionPointerEvents","withErrorStyles","inputSize","form","name","key","formAction","formEncType","formMethod","formNoValidate","formTarget","maxLevel","defaultLevel","level","onLevelChange","type","value","defaultValue","onChange","allowDeselect","allowSingleDateInRange","decadeLabelFormat","yearsListFormat","getYearControlProps","size","withCellSpacing","minDate","maxDate","locale","yearLabelFormat","monthsListFormat","getMonthControlProps","date","nextLabel","previousLabel","onNextYear","onPreviousYear","defaultDate","onDateChange","numberOfColumns","columnsToScroll","ariaLabels","onNextDecade","onPreviousDecade","unstyled","variant","classNames","styles","vars","attributes"],"required":[],"enums":{"dropdownType":{"values":["popover","modal"],"open":false},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"leftSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"rightSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"maxLevel":{"values":["month","year","decade"],"open":false},"defaultLevel":{"values":["month","year","decade"],"open":false},"level":{"values":["month","year","decade"],"open":false},"type":{"values":["range","default","multiple"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":false},"variant":{"values":["filled","default","unstyled"],"open":true}},"kinds":{"valueFormat":"string","closeOnChange":"boolean","clearable":"boolean","readOnly":"boolean","sortDates":"boolean","labelSeparator":"string","placeholder":"string","required":"boolean","disabled":"boolean","pointer":"boolean","withAsterisk":"boolean","withErrorStyles":"boolean","inputSize":"string","form":"string","name":"string","formAction":"string","formEncType":"string","formMethod":"string","formNoValidate":"boolean","formTarget":"string","yearsListFormat":"string","withCellSpacing":"boolean","locale":"string","monthsListFormat":"string","nextLabel":"string","previousLabel":"string","numberOfColumns":"number","columnsToScroll":"number","unstyled":"boolean"}},
+  "DatePickerInput": {"props":["valueFormat","closeOnChange","dropdownType","popoverProps","modalProps","clearable","clearButtonProps","readOnly","sortDates","labelSeparator","placeholder","valueFormatter","onDropdownClose","label","radius","required","description","error","disabled","pointer","wrapperProps","withAsterisk","labelProps","descriptionProps","errorProps","inputContainer","inputWrapperOrder","leftSection","leftSectionWidth","leftSectionProps","leftSectionPointerEvents","rightSection","rightSectionWidth","rightSectionProps","rightSectionPointerEvents","withErrorStyles","inputSize","form","name","key","formAction","formEncType","formMethod","formNoValidate","formTarget","maxLevel","defaultLevel","level","onLevelChange","presets","type","value","defaultValue","onChange","allowDeselect","allowSingleDateInRange","decadeLabelFormat","yearsListFormat","getYearControlProps","size","withCellSpacing","minDate","maxDate","locale","yearLabelFormat","monthsListFormat","getMonthControlProps","monthLabelFormat","firstDayOfWeek","weekdayFormat","weekendDays","getDayProps","excludeDate","renderDay","hideOutsideDates","hideWeekdays","getDayAriaLabel","highlightToday","withWeekNumbers","defaultDate","date","onDateChange","numberOfColumns","columnsToScroll","ariaLabels","nextLabel","previousLabel","onNextDecade","onPreviousDecade","onNextYear","onPreviousYear","onNextMonth","onPreviousMonth","nextIcon","previousIcon","headerControlsOrder","onYearSelect","onMonthSelect","onYearMouseEnter","onMonthMouseEnter","enableKeyboardNavigation","unstyled","variant","classNames","styles","vars","attributes"],"required":[],"enums":{"dropdownType":{"values":["popover","modal"],"open":false},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"leftSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"rightSectionPointerEvents":{"values":["none","auto","-moz-initial","inherit","initial","revert","revert-layer","unset","fill","stroke","all","painted","visible","visibleFill","visiblePainted","visibleStroke"],"open":false},"maxLevel":{"values":["month","year","decade"],"open":false},"defaultLevel":{"values":["month","year","decade"],"open":false},"level":{"values":["month","year","decade"],"open":false},"type":{"values":["range","default","multiple"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":false},"variant":{"values":["filled","default","unstyled"],"open":true}},"kinds":{"valueFormat":"string","closeOnChange":"boolean","clearable":"boolean","readOnly":"boolean","sortDates":"boolean","labelSeparator":"string","placeholder":"string","required":"boolean","disabled":"boolean","pointer":"boolean","withAsterisk":"boolean","withErrorStyles":"boolean","inputSize":"string","form":"string","name":"string","formAction":"string","formEncType":"string","formMethod":"string","formNoValidate":"boolean","formTarget":"string","yearsListFormat":"string","withCellSpacing":"boolean","locale":"string","monthsListFormat":"string","firstDayOfWeek":"number","hideOutsideDates":"boolean","hideWeekdays":"boolean","highlightToday":"boolean","withWeekNumbers":"boolean","numberOfColumns":"number","columnsToScroll":"number","nextLabel":"string","previousLabel":"string","enableKeyboardNavigation":"boolean","unstyled":"boolean"}},
+  "TimeGrid": {"props":["data","value","defaultValue","onChange","allowDeselect","format","withSeconds","amPmLabels","simpleGridProps","getControlProps","radius","size","minTime","maxTime","disableTime","disabled","unstyled","variant","classNames","styles","vars","attributes","key"],"required":["data"],"enums":{"format":{"values":["12h","24h"],"open":false},"radius":{"values":["xs","sm","md","lg","xl"],"open":true},"size":{"values":["xs","sm","md","lg","xl"],"open":false}},"kinds":{"value":"string","defaultValue":"string","allowDeselect":"boolean","withSeconds":"boolean","minTime":"string","maxTime":"string","disabled":"boolean","unstyled":"boolean","variant":"string"}},
+  "MiniCalendar": {"props":["date","defaultDate","onDateChange","value","onChange","maxDate","minDate","numberOfDays","monthLabelFormat","onNext","onPrevious","getDayProps","size","previousControlProps","nextControlProps","locale","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"size":{"values":["xs","sm","md","lg","xl"],"open":false}},"kinds":{"numberOfDays":"number","monthLabelFormat":"string","locale":"string","unstyled":"boolean","variant":"string"}},
+  "Notifications": {"props":["position","autoClose","transitionDuration","containerWidth","notificationMaxHeight","limit","zIndex","portalProps","store","withinPortal","unstyled","variant","classNames","styles","vars","attributes","key"],"required":[],"enums":{"position":{"values":["top-center","bottom-center","top-left","top-right","bottom-left","bottom-right"],"open":false}},"kinds":{"transitionDuration":"number","limit":"number","withinPortal":"boolean","unstyled":"boolean","variant":"string"}},
+};
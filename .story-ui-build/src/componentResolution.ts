@@ -0,0 +1,271 @@
+/**
+ * Component Resolution
+ *
+ * A pre-render pass over the parsed JSX that checks every component the
+ * generated code renders - plain names like `<Button>` and member expressions
+ * like `<Card.Section>` - against the component registry. Unknown names get
+ * the closest available match as a suggestion (`Grid.Column` -> `Grid.Col`)
+ * and can be rewritten in place; anything left unresolved is reported as a
+ * structured warning instead of surfacing as "X is not defined" at runtime.
+ */
+
+import React from 'react';
+import * as Babel from '@babel/standalone';
+import type { JSXElement, Node } from '@babel/types';
+import { compoundComponents } from './componentLoaders';
+import { registryComponents } from './lazyRegistry';
+import { extractJSX, extractionOffset, parseSource } from './jsxExtraction';
+import { offsetToLocation } from './previewDiagnostics';
+
+const { traverse, types: t } = Babel.packages;
+
+export interface ComponentWarning {
+  /** The component name as written in the code, e.g. `Grid.Column` */
+  name: string;
+  /** 1-based line of the first use in the generated code */
+  line: number;
+  /** 1-based column of the first use */
+  column: number;
+  /** The closest available component, if one is close enough */
+  suggestion?: string;
+  /** Whether the code was rewritten to use the suggestion */
+  fixed: boolean;
+  message: string;
+}
+
+export interface ComponentResolution {
+  /** The code, with suggestions applied when auto-fixing */
+  code: string;
+  warnings: ComponentWarning[];
+}
+
+export interface ResolveComponentsOptions {
+  /** Rewrite unknown names that have a suggestion */
+  autoFix: boolean;
+  /** Component names the preview exposes, defaults to the whole registry */
+  components?: string[];
+}
+
+interface NameUse {
+  name: string;
+  start: number;
+  end: number;
+}
+
+// ============================================================================
+// CANDIDATES
+// ============================================================================
+
+interface CandidateIndex {
+  /** Registry components the preview exposes */
+  components: Set<string>;
+  /** Every renderable name, including dotted compound names */
+  names: string[];
+}
+
+let cachedIndex: { components: string[]; index: CandidateIndex } | null = null;
+
+function getCandidateIndex(components: string[]): CandidateIndex {
+  if (cachedIndex?.components === components) {
+    return cachedIndex.index;
+  }
+
+  const available = new Set(components);
+  // Non-component exports (`notifications`) can't be rendered
+  const names = [...available].filter(name => /^[A-Z]/.test(name));
+  for (const name of available) {
+    // Compound members, e.g. `Card.Section`, are known without loading the component
+    names.push(...Object.keys(compoundComponents[name] ?? {}).map(member => `${name}.${member}`));
+  }
+
+  const index = { components: available, names };
+  cachedIndex = { components, index };
+  return index;
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Names compare case-insensitively and without dots, so `CardSection` matches `Card.Section`
+const normalize = (name: string) => name.replace(/\./g, '').toLowerCase();
+
+/**
+ * How far apart two names are. Abbreviations (`Column` vs `Col`) count as a
+ * single edit.
+ */
+const nameDistance = (a: string, b: string): number => {
+  const left = normalize(a);
+  const right = normalize(b);
+  const distance = levenshtein(left, right);
+  const shorter = Math.min(left.length, right.length);
+  const isPrefix = shorter >= 3 && (left.startsWith(right) || right.startsWith(left));
+  return isPrefix ? Math.min(distance, 1) : distance;
+};
+
+export const findClosest = (target: string, candidates: string[]): string | undefined => {
+  const threshold = Math.max(1, Math.floor(normalize(target).length / 4));
+  let best: string | undefined;
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    const distance = nameDistance(target, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return bestDistance <= threshold ? best : undefined;
+};
+
+/**
+ * Suggest an available component for an unknown name. When the root of a
+ * member expression exists, its own members are preferred.
+ */
+function suggest(name: string, index: CandidateIndex): string | undefined {
+  const [root, ...members] = name.split('.');
+  if (members.length > 0 && index.components.has(root)) {
+    const siblings = index.names.filter(candidate => candidate.startsWith(`${root}.`));
+    const member = findClosest(members.join('.'), siblings.map(sibling => sibling.slice(root.length + 1)));
+    if (member) return `${root}.${member}`;
+  }
+  return findClosest(name, index.names);
+}
+
+// ============================================================================
+// RESOLUTION
+// ============================================================================
+
+export const jsxNameParts = (node: Node): string[] | null => {
+  if (t.isJSXIdentifier(node)) return [node.name];
+  if (t.isJSXMemberExpression(node)) {
+    const object = jsxNameParts(node.object);
+    return object ? [...object, node.property.name] : null;
+  }
+  return null;
+};
+
+/**
+ * The registry name of the component a JSX name renders, following compound
+ * members (`Card.Section` -> `CardSection`), or null when the name doesn't
+ * start with an available component or a member doesn't exist
+ */
+const resolveRegistryName = (parts: string[], index: CandidateIndex): string | null => {
+  if (!index.components.has(parts[0])) return null;
+  let name: string | undefined = parts[0];
+  for (const member of parts.slice(1)) {
+    name = compoundComponents[name]?.[member];
+    if (!name) return null;
+  }
+  return name;
+};
+
+// `React.Fragment`, `React.Suspense`, ...
+const isReactMember = (parts: string[]): boolean =>
+  parts[0] === 'React' && parts.length === 2 && parts[1] in React;
+
+const isKnown = (parts: string[], index: CandidateIndex): boolean =>
+  isReactMember(parts) || resolveRegistryName(parts, index) !== null;
+
+/**
+ * The registry name of the component a JSX name renders, e.g. `CardSection`
+ * for `Card.Section`, or null when it isn't a registry component
+ */
+export function registryNameFor(parts: string[], components: string[] = registryComponents): string | null {
+  return resolveRegistryName(parts, getCandidateIndex(components));
+}
+
+/**
+ * Collect the components rendered by the code that don't resolve. Names that
+ * are HTML elements or bound in the code itself (local components, imports)
+ * are left alone.
+ */
+function findUnknownNames(code: string, index: CandidateIndex): NameUse[] {
+  const unknown: NameUse[] = [];
+
+  traverse.default(parseSource(code), {
+    JSXElement(path) {
+      const element: JSXElement = path.node;
+      const parts = jsxNameParts(element.openingElement.name);
+      if (!parts || !/^[A-Z]/.test(parts[0])) return;
+      if (path.scope.hasBinding(parts[0]) || isKnown(parts, index)) return;
+
+      const name = parts.join('.');
+      for (const tag of [element.openingElement.name, element.closingElement?.name]) {
+        if (tag?.start != null && tag.end != null) {
+          unknown.push({ name, start: tag.start, end: tag.end });
+        }
+      }
+    },
+  });
+
+  return unknown;
+}
+
+/**
+ * Check the components used by generated code against the registry,
+ * optionally rewriting unknown names to their closest match
+ */
+export function resolveComponents(code: string, options: ResolveComponentsOptions): ComponentResolution {
+  const index = getCandidateIndex(options.components ?? registryComponents);
+
+  let uses: NameUse[];
+  let codeStart: number | null;
+  try {
+    const extraction = extractJSX(code);
+    uses = findUnknownNames(extraction.code, index);
+    codeStart = extractionOffset(code, extraction);
+  } catch {
+    // Code that doesn't parse is reported by the compiler instead
+    return { code, warnings: [] };
+  }
+
+  const warnings = new Map<string, ComponentWarning>();
+  const rewrites: { start: number; end: number; replacement: string }[] = [];
+
+  for (const use of uses) {
+    const offset = codeStart !== null ? codeStart + use.start : null;
+    const suggestion = suggest(use.name, index);
+    const fixed = options.autoFix && !!suggestion && offset !== null;
+
+    if (fixed && offset !== null && suggestion) {
+      rewrites.push({ start: offset, end: offset + (use.end - use.start), replacement: suggestion });
+    }
+    if (warnings.has(use.name)) continue;
+
+    const { line, column } = offset !== null ? offsetToLocation(code, offset) : { line: 1, column: 1 };
+    warnings.set(use.name, {
+      name: use.name,
+      line,
+      column,
+      suggestion,
+      fixed,
+      message: fixed
+        ? `Replaced <${use.name}> with <${suggestion}>`
+        : `<${use.name}> is not an available component${suggestion ? `. Did you mean <${suggestion}>?` : ''}`,
+    });
+  }
+
+  // Apply from the end so earlier offsets stay valid
+  let resolved = code;
+  for (const rewrite of rewrites.sort((a, b) => b.start - a.start)) {
+    resolved = resolved.slice(0, rewrite.start) + rewrite.replacement + resolved.slice(rewrite.end);
+  }
+
+  return { code: resolved, warnings: [...warnings.values()] };
+}
@@ -0,0 +1,378 @@
+/**
+ * Conversation Storage
+ *
+ * Persists chat conversations in IndexedDB instead of localStorage, whose ~5MB
+ * quota a few screenshot-driven chats used to exhaust. Image attachments are
+ * stored as separate blobs and conversations only keep references to them;
+ * loaded images are exposed as object URLs.
+ *
+ * Conversations saved under the old `storyui_conversations` localStorage key
+ * are moved over the first time storage is opened. Writes that exceed the
+ * browser's quota reject with a StorageQuotaError, which the UI answers by
+ * offering to prune old conversations.
+ */
+
+const DB_NAME = 'storyui';
+const DB_VERSION = 1;
+const CONVERSATIONS_STORE = 'conversations';
+const IMAGES_STORE = 'images';
+
+/** Where conversations were kept before IndexedDB */
+const LEGACY_STORAGE_KEY = 'storyui_conversations';
+
+/** An image attachment, whose data is a data URL (new) or an object URL (loaded) */
+export interface StorableImage {
+  id: string;
+  data: string;
+  type: string;
+  name: string;
+}
+
+/** The parts of a conversation storage depends on */
+export interface StorableConversation {
+  id: string;
+  createdAt: number;
+  messages: { images?: StorableImage[] }[];
+}
+
+interface ImageRecord {
+  id: string;
+  conversationId: string;
+  blob: Blob;
+  type: string;
+  name: string;
+}
+
+export interface StorageUsage {
+  conversations: number;
+  images: number;
+  /** Approximate size of the conversations themselves, in bytes */
+  conversationBytes: number;
+  imageBytes: number;
+  /** What the browser reports for the whole origin, when available */
+  usage?: number;
+  quota?: number;
+}
+
+export interface PruneOptions {
+  /** Conversations to leave untouched, most recent first */
+  keepRecent: number;
+  /** Only remove the images of older conversations instead of the conversations */
+  imagesOnly: boolean;
+}
+
+/**
+ * Thrown when the browser refuses a write because storage is full
+ */
+export class StorageQuotaError extends Error {
+  constructor(message = 'Browser storage is full. Delete or prune old conversations to free up space.') {
+    super(message);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+// ============================================================================
+// INDEXEDDB HELPERS
+// ============================================================================
+
+const requestResult = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+/**
+ * Resolve when a transaction commits. Quota failures surface as a
+ * StorageQuotaError whichever request triggered them.
+ */
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    const fail = () => {
+      const error = transaction.error;
+      reject(isQuotaError(error) ? new StorageQuotaError() : error ?? new Error('Storage transaction failed'));
+    };
+    transaction.onerror = fail;
+    transaction.onabort = fail;
+  });
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(CONVERSATIONS_STORE)) {
+          db.createObjectStore(CONVERSATIONS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(IMAGES_STORE)) {
+          const images = db.createObjectStore(IMAGES_STORE, { keyPath: 'id' });
+          images.createIndex('conversationId', 'conversationId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a failed open be retried
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+}
+
+// ============================================================================
+// IMAGES
+// ============================================================================
+
+const dataURLToBlob = (dataURL: string): Blob => {
+  const [header, base64] = dataURL.split(',');
+  const type = header.match(/^data:([^;]+)/)?.[1] ?? 'application/octet-stream';
+  const bytes = Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+  return new Blob([bytes], { type });
+};
+
+// Object URLs handed out for loaded images, so they can be released
+const objectURLs = new Map<string, string>();
+
+// Images already in the store, so re-saving a conversation doesn't rewrite them
+const storedImageIds = new Set<string>();
+
+const imageURL = (record: ImageRecord): string => {
+  let url = objectURLs.get(record.id);
+  if (!url) {
+    url = URL.createObjectURL(record.blob);
+    objectURLs.set(record.id, url);
+  }
+  return url;
+};
+
+const forgetImage = (id: string) => {
+  storedImageIds.delete(id);
+  const url = objectURLs.get(id);
+  if (url) {
+    URL.revokeObjectURL(url);
+    objectURLs.delete(id);
+  }
+};
+
+/**
+ * The conversation as stored: image attachments reduced to references
+ */
+const toStoredConversation = <C extends StorableConversation>(conversation: C): C => ({
+  ...conversation,
+  messages: conversation.messages.map(message => message.images
+    ? { ...message, images: message.images.map(({ id, type, name }) => ({ id, type, name, data: '' })) }
+    : message),
+});
+
+// ============================================================================
+// CONVERSATIONS
+// ============================================================================
+
+/**
+ * Write conversations and any image attachments not stored yet (those still
+ * held as data URLs) in a single transaction
+ */
+async function writeConversations<C extends StorableConversation>(db: IDBDatabase, conversations: C[]): Promise<void> {
+  const transaction = db.transaction([CONVERSATIONS_STORE, IMAGES_STORE], 'readwrite');
+  const done = transactionDone(transaction);
+  const conversationStore = transaction.objectStore(CONVERSATIONS_STORE);
+  const imageStore = transaction.objectStore(IMAGES_STORE);
+  const newImageIds: string[] = [];
+
+  for (const conversation of conversations) {
+    for (const message of conversation.messages) {
+      for (const image of message.images ?? []) {
+        if (storedImageIds.has(image.id) || !image.data.startsWith('data:')) continue;
+        const record: ImageRecord = {
+          id: image.id,
+          conversationId: conversation.id,
+          blob: dataURLToBlob(image.data),
+          type: image.type,
+          name: image.name,
+        };
+        imageStore.put(record);
+        newImageIds.push(image.id);
+      }
+    }
+    conversationStore.put(toStoredConversation(conversation));
+  }
+  await done;
+  newImageIds.forEach(id => storedImageIds.add(id));
+}
+
+/**
+ * Move conversations from localStorage into IndexedDB. The old key is only
+ * removed once they're written.
+ */
+async function migrateLegacyConversations(db: IDBDatabase): Promise<void> {
+  const legacy = window.localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (legacy === null) return;
+
+  let conversations: StorableConversation[];
+  try {
+    conversations = JSON.parse(legacy);
+  } catch {
+    console.warn('[storage] Discarding unreadable conversations from localStorage');
+    window.localStorage.removeItem(LEGACY_STORAGE_KEY);
+    return;
+  }
+
+  if (Array.isArray(conversations) && conversations.length > 0) {
+    await writeConversations(db, conversations);
+  }
+  window.localStorage.removeItem(LEGACY_STORAGE_KEY);
+}
+
+/**
+ * Load all conversations, newest first, with image attachments as object URLs
+ */
+export async function loadConversations<C extends StorableConversation>(): Promise<C[]> {
+  const db = await openDatabase();
+  await migrateLegacyConversations(db);
+
+  const transaction = db.transaction([CONVERSATIONS_STORE, IMAGES_STORE], 'readonly');
+  const [conversations, images] = await Promise.all([
+    requestResult(transaction.objectStore(CONVERSATIONS_STORE).getAll() as IDBRequest<C[]>),
+    requestResult(transaction.objectStore(IMAGES_STORE).getAll() as IDBRequest<ImageRecord[]>),
+  ]);
+  const imagesById = new Map(images.map(image => [image.id, image]));
+  images.forEach(image => storedImageIds.add(image.id));
+
+  return conversations
+    .map(conversation => ({
+      ...conversation,
+      messages: conversation.messages.map(message => message.images
+        ? {
+            ...message,
+            // Images removed by pruning are dropped from their messages
+            images: message.images.flatMap(image => {
+              const record = imagesById.get(image.id);
+              return record ? [{ ...image, data: imageURL(record) }] : [];
+            }),
+          }
+        : message),
+    }))
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Save conversations, storing new image attachments as blobs
+ */
+export async function saveConversations<C extends StorableConversation>(conversations: C[]): Promise<void> {
+  if (conversations.length === 0) return;
+  await writeConversations(await openDatabase(), conversations);
+}
+
+/**
+ * Delete conversations along with their images
+ */
+export async function deleteConversations(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  const db = await openDatabase();
+  const transaction = db.transaction([CONVERSATIONS_STORE, IMAGES_STORE], 'readwrite');
+  const done = transactionDone(transaction);
+  const imageStore = transaction.objectStore(IMAGES_STORE);
+
+  for (const id of ids) {
+    transaction.objectStore(CONVERSATIONS_STORE).delete(id);
+    // Queued from the request callback, which keeps the transaction active
+    const imageKeys = imageStore.index('conversationId').getAllKeys(id);
+    imageKeys.onsuccess = () => {
+      for (const imageId of imageKeys.result) {
+        imageStore.delete(imageId);
+        forgetImage(String(imageId));
+      }
+    };
+  }
+  await done;
+}
+
+// ============================================================================
+// USAGE & PRUNING
+// ============================================================================
+
+/**
+ * Measure what conversations and images take up
+ */
+export async function getStorageUsage(): Promise<StorageUsage> {
+  const db = await openDatabase();
+  const transaction = db.transaction([CONVERSATIONS_STORE, IMAGES_STORE], 'readonly');
+  const [conversations, images] = await Promise.all([
+    requestResult(transaction.objectStore(CONVERSATIONS_STORE).getAll() as IDBRequest<StorableConversation[]>),
+    requestResult(transaction.objectStore(IMAGES_STORE).getAll() as IDBRequest<ImageRecord[]>),
+  ]);
+
+  const usage: StorageUsage = {
+    conversations: conversations.length,
+    images: images.length,
+    // Strings are stored as UTF-16, so this is a lower bound
+    conversationBytes: conversations.reduce((total, conversation) => total + JSON.stringify(conversation).length, 0),
+    imageBytes: images.reduce((total, image) => total + image.blob.size, 0),
+  };
+
+  if (navigator.storage?.estimate) {
+    const estimate = await navigator.storage.estimate();
+    usage.usage = estimate.usage;
+    usage.quota = estimate.quota;
+  }
+  return usage;
+}
+
+/**
+ * Free up space by removing the conversations (or just the images) beyond the
+ * most recent ones. Returns the ids of the conversations that were changed.
+ */
+export async function pruneStorage(options: PruneOptions): Promise<string[]> {
+  const db = await openDatabase();
+  const conversations = await requestResult(
+    db.transaction(CONVERSATIONS_STORE, 'readonly').objectStore(CONVERSATIONS_STORE).getAll() as IDBRequest<StorableConversation[]>
+  );
+  const older = conversations
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .slice(options.keepRecent);
+
+  if (!options.imagesOnly) {
+    const ids = older.map(conversation => conversation.id);
+    await deleteConversations(ids);
+    return ids;
+  }
+
+  const withImages = older.filter(conversation => conversation.messages.some(message => message.images?.length));
+  const transaction = db.transaction([CONVERSATIONS_STORE, IMAGES_STORE], 'readwrite');
+  const done = transactionDone(transaction);
+  for (const conversation of withImages) {
+    for (const message of conversation.messages) {
+      for (const image of message.images ?? []) {
+        transaction.objectStore(IMAGES_STORE).delete(image.id);
+        forgetImage(image.id);
+      }
+    }
+    transaction.objectStore(CONVERSATIONS_STORE).put({
+      ...conversation,
+      messages: conversation.messages.map(message => ({ ...message, images: undefined })),
+    });
+  }
+  await done;
+  return withImages.map(conversation => conversation.id);
+}
+
+/**
+ * Format a byte count for display
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
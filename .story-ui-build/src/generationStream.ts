@@ -0,0 +1,79 @@
+/**
+ * Generation Stream
+ *
+ * Streams the LLM's response to a generation request as it's written, from
+ * the generations API of the Storybook dev server (.storybook/generations-plugin.ts
+ * at the repository root). Its events follow the Story UI stream protocol the
+ * Storybook panel reads (src/stories/StoryUI/streamProtocol.ts):
+ *
+ * - `token`: `{ text }`, the next piece of the response
+ * - `completion`: `{ content }`, the full response
+ * - `error`: the protocol's error feedback
+ *
+ * Backends without the generations API (a Story UI server on its own) answer
+ * 404, and the request goes to the Story UI server's LLM proxy instead, which
+ * answers with the whole response at once, checked against the protocol's
+ * `llmProxyResponse`. Aborting the signal cancels either way; a streamed
+ * completion stops on the server when its request closes.
+ */
+
+import { completionStreamSchema, llmProxyResponse, readStreamEvents } from '../../src/stories/StoryUI/streamProtocol';
+
+const COMPLETION_API = '/api/story-ui-generations/completion';
+const LLM_PROXY_API = '/story-ui/claude';
+
+/**
+ * Request a generation from `serverUrl`, calling `onText` with the response
+ * received so far each time more arrives. Resolves with the full response.
+ */
+export async function streamGeneration(
+  serverUrl: string,
+  request: Record<string, unknown>,
+  onText: (text: string) => void,
+  signal?: AbortSignal
+): Promise<string> {
+  const post = (path: string) => fetch(`${serverUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    signal,
+    body: JSON.stringify(request),
+  });
+
+  let response = await post(COMPLETION_API);
+  const isStream = response.status !== 404;
+  if (!isStream) {
+    response = await post(LLM_PROXY_API);
+  }
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || `Server Error: ${response.status}`);
+  }
+
+  if (!isStream) {
+    // A body that doesn't match fails with a StreamProtocolError naming the field
+    const data = llmProxyResponse(await response.json(), 'response');
+    const content = data.content.map(block => block.text).join('');
+    onText(content);
+    return content;
+  }
+
+  let text = '';
+  await readStreamEvents(response, completionStreamSchema, event => {
+    switch (event.type) {
+      case 'token':
+        text += event.data.text;
+        onText(text);
+        return;
+      case 'completion':
+        if (event.data.content !== text) {
+          text = event.data.content;
+          onText(text);
+        }
+        return false;
+      case 'error':
+        throw new Error(event.data.message);
+    }
+  });
+  return text;
+}
@@ -0,0 +1,398 @@
+/**
+ * JSX Extraction
+ *
+ * Locates the renderable code inside raw LLM output by parsing it with Babel
+ * instead of pattern-matching the text. The model may answer with a bare JSX
+ * expression, a function component body, a complete component, a full story
+ * file, or any of those wrapped in markdown and prose; the extractor walks the
+ * AST to find it, and reports which strategy matched and how the code has to
+ * be wrapped to become a component.
+ */
+
+import * as Babel from '@babel/standalone';
+import type { File, Node, Expression } from '@babel/types';
+
+const { parser, traverse, types: t } = Babel.packages;
+
+/** How the code was located in the response */
+export type JSXExtractionStrategy =
+  | 'render'          // `render: () => ...` on a story object
+  | 'args-children'   // `args: { children: <... /> }` on a story object
+  | 'component'       // `function Preview() {...}`, `const Preview = () => ...` or `export default ...`
+  | 'body'            // Top-level statements ending in `return <... />`
+  | 'expression'      // A top-level JSX element or fragment
+  | 'raw';            // Nothing matched - the cleaned source is passed through as-is
+
+/**
+ * How the extracted code becomes a component:
+ * - 'expression': a JSX expression, returned from a generated function component
+ * - 'body': statements used as the body of a generated function component
+ * - 'component': module code that declares the component itself
+ */
+export type JSXExtractionKind = 'expression' | 'body' | 'component';
+
+export interface JSXExtractionResult {
+  /** The extracted code */
+  code: string;
+  /** How `code` has to be wrapped to produce a component */
+  kind: JSXExtractionKind;
+  /** For 'component' code, the declared component name, or 'default' for a default export */
+  componentName?: string;
+  /** Which strategy located the code */
+  strategy: JSXExtractionStrategy;
+  /** The cleaned source the code was extracted from */
+  source: string;
+  /** Offset of the code within `source` */
+  start: number;
+  /** End offset of the code within `source` */
+  end: number;
+}
+
+interface LocatedCode {
+  start: number;
+  end: number;
+  kind: JSXExtractionKind;
+  strategy: JSXExtractionStrategy;
+  componentName?: string;
+}
+
+// Internal metadata tags that sometimes leak into LLM responses
+const METADATA_TAG_NAMES = 'anthropic_info|thinking|budget|usage|system|context|response|metadata|internal|reflection|output|result';
+const METADATA_BLOCK_PATTERN = new RegExp(`<(${METADATA_TAG_NAMES})\\b[^>]*>[\\s\\S]*?<\\/\\1>`, 'g');
+const METADATA_TAG_PATTERN = new RegExp(`<\\/?(?:${METADATA_TAG_NAMES})\\b[^>]*>|<[a-z][a-z_]*:[^>]+>`, 'g');
+
+const CODE_FENCE_PATTERN = /```(?:jsx|tsx|javascript|js|typescript|ts|html|react)?[ \t]*\n?([\s\S]*?)```/g;
+
+// Upper bound on how many times trailing prose is trimmed off before giving up
+const MAX_TRIM_ATTEMPTS = 8;
+
+// Shapes of code that doesn't parse: a function body's `return`, and component declarations
+const TOP_LEVEL_RETURN_PATTERN = /^return\b/m;
+const COMPONENT_DECLARATION_PATTERN = /^(?:export\s+(default\s+)?)?(?:function\s+|(?:const|let)\s+)([A-Z]\w*)/gm;
+
+// A line that starts a statement, a JSX element or closes a block - code rather than prose
+const CODE_LINE_PATTERN = /^[ \t]*(?:(?:import|export|const|let|var|function|return)\b|<[A-Za-z>]|[}\])]+;?[ \t]*$)/m;
+
+/**
+ * Parse source as a module with JSX and TypeScript syntax enabled
+ */
+export function parseSource(source: string): File {
+  return parser.parse(source, {
+    sourceType: 'module',
+    plugins: ['jsx', 'typescript'],
+    // Function component bodies are accepted as top-level statements ending in `return`
+    allowReturnOutsideFunction: true,
+  }) as File;
+}
+
+const isJSX = (node: Node | null | undefined): node is Expression =>
+  !!node && (t.isJSXElement(node) || t.isJSXFragment(node));
+
+/**
+ * Unwrap TypeScript-only wrappers (`as`, `satisfies`, `!`) and return the inner expression
+ */
+const unwrapExpression = (node: Node | null | undefined): Node | null | undefined => {
+  let current = node;
+  while (
+    current &&
+    (t.isTSAsExpression(current) || t.isTSSatisfiesExpression(current) || t.isTSNonNullExpression(current))
+  ) {
+    current = current.expression;
+  }
+  return current;
+};
+
+/**
+ * Find the JSX returned by a function body, whether it is an expression body
+ * or a block ending in `return <... />`
+ */
+const findReturnedJSX = (fn: Node | null | undefined): Expression | null => {
+  if (!t.isArrowFunctionExpression(fn) && !t.isFunctionExpression(fn) && !t.isFunctionDeclaration(fn)) {
+    return null;
+  }
+  const body = unwrapExpression(fn.body);
+  if (isJSX(body)) {
+    return body;
+  }
+  if (t.isBlockStatement(body)) {
+    for (let i = body.body.length - 1; i >= 0; i--) {
+      const statement = body.body[i];
+      if (t.isReturnStatement(statement)) {
+        const argument = unwrapExpression(statement.argument);
+        return isJSX(argument) ? argument : null;
+      }
+    }
+  }
+  return null;
+};
+
+const propertyName = (node: Node): string | null => {
+  if (!t.isObjectProperty(node) && !t.isObjectMethod(node)) return null;
+  if (node.computed) return null;
+  if (t.isIdentifier(node.key)) return node.key.name;
+  if (t.isStringLiteral(node.key)) return node.key.value;
+  return null;
+};
+
+const isComponentName = (name: string) => /^[A-Z]/.test(name);
+
+/**
+ * Find a component declared at the top level of the program. A default export
+ * wins; otherwise the last capitalized function that returns JSX is used, since
+ * helpers are usually declared before the component that composes them.
+ */
+function findTopLevelComponent(ast: File): string | null {
+  const declared = new Map<string, Node>();
+  let defaultExport: string | null = null;
+
+  for (const statement of ast.program.body) {
+    const declaration = t.isExportNamedDeclaration(statement) ? statement.declaration : statement;
+
+    if (t.isExportDefaultDeclaration(statement)) {
+      const exported = statement.declaration;
+      if (t.isIdentifier(exported)) {
+        if (declared.has(exported.name)) defaultExport = 'default';
+      } else if (findReturnedJSX(exported)) {
+        defaultExport = 'default';
+        if (t.isFunctionDeclaration(exported) && exported.id) declared.set(exported.id.name, exported);
+      }
+    } else if (t.isFunctionDeclaration(declaration) && declaration.id) {
+      if (isComponentName(declaration.id.name) && findReturnedJSX(declaration)) {
+        declared.set(declaration.id.name, declaration);
+      }
+    } else if (t.isVariableDeclaration(declaration)) {
+      for (const declarator of declaration.declarations) {
+        if (t.isIdentifier(declarator.id) && isComponentName(declarator.id.name) && findReturnedJSX(declarator.init)) {
+          declared.set(declarator.id.name, declarator);
+        }
+      }
+    }
+  }
+
+  return defaultExport ?? [...declared.keys()].pop() ?? null;
+}
+
+/**
+ * Walk a parsed program looking for renderable code, in priority order:
+ * story `render` functions, then `args.children`, then a declared component,
+ * then a function body with a top-level `return`, then a top-level JSX expression
+ */
+function locateCode(ast: File): LocatedCode | null {
+  // Held in an object so the values assigned inside the visitors aren't narrowed away
+  const found: { renderFn: Node | null; childrenNode: Expression | null } = { renderFn: null, childrenNode: null };
+
+  traverse.default(ast, {
+    ObjectProperty(path) {
+      const name = propertyName(path.node);
+      if (name === 'render' && !found.renderFn) {
+        if (findReturnedJSX(path.node.value)) found.renderFn = path.node.value;
+      } else if (name === 'children' && !found.childrenNode) {
+        const value = unwrapExpression(path.node.value);
+        const parent = path.parentPath?.parentPath?.node;
+        if (isJSX(value) && parent && propertyName(parent) === 'args') {
+          found.childrenNode = value;
+        }
+      }
+    },
+    ObjectMethod(path) {
+      if (propertyName(path.node) === 'render' && !found.renderFn) {
+        const returned = path.node.body.body.find(s => t.isReturnStatement(s));
+        const argument = t.isReturnStatement(returned) ? unwrapExpression(returned.argument) : null;
+        if (isJSX(argument)) found.renderFn = path.node;
+      }
+    },
+  });
+
+  const fn = found.renderFn;
+  if (fn) {
+    const body = (t.isArrowFunctionExpression(fn) || t.isFunctionExpression(fn) || t.isObjectMethod(fn))
+      ? unwrapExpression(fn.body)
+      : null;
+    if (t.isBlockStatement(body) && body.start != null && body.end != null) {
+      // Block body - everything between the braces becomes the component body
+      return { start: body.start + 1, end: body.end - 1, kind: 'body', strategy: 'render' };
+    }
+    const jsx = findReturnedJSX(fn);
+    if (jsx?.start != null && jsx.end != null) {
+      return { start: jsx.start, end: jsx.end, kind: 'expression', strategy: 'render' };
+    }
+  }
+
+  const childrenJSX = found.childrenNode;
+  if (childrenJSX?.start != null && childrenJSX.end != null) {
+    return { start: childrenJSX.start, end: childrenJSX.end, kind: 'expression', strategy: 'args-children' };
+  }
+
+  const statements = ast.program.body;
+  const programStart = statements[0]?.start;
+  const programEnd = statements[statements.length - 1]?.end;
+  if (programStart == null || programEnd == null) {
+    return null;
+  }
+
+  const componentName = findTopLevelComponent(ast);
+  if (componentName) {
+    return { start: programStart, end: programEnd, kind: 'component', strategy: 'component', componentName };
+  }
+
+  const topLevelReturn = statements.find(s => t.isReturnStatement(s));
+  if (t.isReturnStatement(topLevelReturn) && isJSX(unwrapExpression(topLevelReturn.argument)) && topLevelReturn.end != null) {
+    return { start: programStart, end: topLevelReturn.end, kind: 'body', strategy: 'body' };
+  }
+
+  for (const statement of statements) {
+    if (t.isExpressionStatement(statement)) {
+      const expression = unwrapExpression(statement.expression);
+      if (isJSX(expression) && expression.start != null && expression.end != null) {
+        return { start: expression.start, end: expression.end, kind: 'expression', strategy: 'expression' };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Code that didn't parse, passed through whole so Babel reports the syntax
+ * error where it is. The kind is judged from the code's shape, as it would
+ * have been extracted: wrapping a body or a component as an expression would
+ * move the error to its first line.
+ */
+function rawResult(source: string): JSXExtractionResult {
+  const raw = { code: source, strategy: 'raw' as const, source, start: 0, end: source.length };
+  if (TOP_LEVEL_RETURN_PATTERN.test(source)) {
+    return { ...raw, kind: 'body' };
+  }
+  const declarations = [...source.matchAll(COMPONENT_DECLARATION_PATTERN)];
+  if (declarations.length > 0) {
+    const isDefault = declarations.some(match => match[1]);
+    return { ...raw, kind: 'component', componentName: isDefault ? 'default' : declarations[declarations.length - 1][2] };
+  }
+  return { ...raw, kind: 'expression' };
+}
+
+/**
+ * Parse a candidate source and locate its JSX. Trailing prose after the code
+ * shows up as a syntax error, so the source is cut at the error position and
+ * re-parsed until it parses cleanly or nothing useful is left.
+ *
+ * Returns 'invalid' when a candidate that starts with code has a syntax error
+ * before its end rather than in trailing prose: cutting it there would preview
+ * part of the code and hide the real error.
+ */
+function extractFromCandidate(candidate: string): JSXExtractionResult | 'invalid' | null {
+  const original = candidate.trim();
+  const startsWithCode = CODE_LINE_PATTERN.test(original.split('\n', 1)[0]);
+  let source = original;
+
+  for (let attempt = 0; attempt < MAX_TRIM_ATTEMPTS && source; attempt++) {
+    try {
+      const located = locateCode(parseSource(source));
+      // What was cut off is trailing prose only if the code was found before it and it holds no code
+      const trimmedCode = source !== original && (!located || CODE_LINE_PATTERN.test(original.slice(source.length)));
+      if (trimmedCode) {
+        return startsWithCode ? 'invalid' : null;
+      }
+      if (!located) {
+        return null;
+      }
+      return {
+        ...located,
+        code: source.slice(located.start, located.end),
+        source,
+      };
+    } catch (error) {
+      const pos = (error as { pos?: number }).pos;
+      if (typeof pos !== 'number' || pos <= 0) {
+        break;
+      }
+      // An error at the very end means the last line is incomplete - drop that line instead
+      const cut = pos < source.length ? pos : source.lastIndexOf('\n');
+      if (cut <= 0) {
+        break;
+      }
+      source = source.slice(0, cut).trim();
+    }
+  }
+
+  return startsWithCode ? 'invalid' : null;
+}
+
+/**
+ * Possible starting points for code inside a response: the whole text, the
+ * first line that looks like module code, and the first capitalized JSX tag
+ * or fragment
+ */
+function candidateStarts(text: string): number[] {
+  const starts = [0];
+  const moduleMatch = text.match(/^(?:import|export|const|let|function|return)\b/m);
+  if (moduleMatch?.index) starts.push(moduleMatch.index);
+  const tagMatch = text.match(/<(?:[A-Z]|>)/);
+  if (tagMatch?.index) starts.push(tagMatch.index);
+  return [...new Set(starts)].sort((a, b) => a - b);
+}
+
+function extractFromText(text: string): JSXExtractionResult | null {
+  for (const start of candidateStarts(text)) {
+    const candidate = text.slice(start);
+    const result = extractFromCandidate(candidate);
+    // Later candidates start inside this code and would skip past its error
+    if (result === 'invalid') return rawResult(candidate.trim());
+    if (result) return result;
+  }
+  return null;
+}
+
+/**
+ * Extract renderable code from generated output
+ * The AI may return a JSX expression, a component, or a full story file, but we
+ * only need the part that renders. This function handles various LLM output
+ * formats including markdown-wrapped code
+ */
+export function extractJSX(code: string): JSXExtractionResult {
+  const original = code.trim();
+
+  // Strip internal LLM metadata (thinking blocks, budget/usage tags) that sometimes leaks through
+  const cleanCode = original
+    .replace(METADATA_BLOCK_PATTERN, '')
+    .replace(METADATA_TAG_PATTERN, '')
+    .trim();
+  const hadMetadata = cleanCode !== original;
+
+  // Prefer the contents of markdown code fences when present
+  const fenced = [...cleanCode.matchAll(CODE_FENCE_PATTERN)].map(match => match[1].trim());
+  if (fenced.length === 0 && cleanCode.startsWith('```')) {
+    // Unclosed code fence - the response was cut off before the closing backticks
+    fenced.push(cleanCode.replace(/^```[a-z]*[ \t]*\n?/, ''));
+  }
+
+  for (const block of fenced) {
+    const result = extractFromText(block);
+    if (result) return result;
+  }
+
+  const result = extractFromText(cleanCode);
+  if (result) return result;
+
+  if (/^<!DOCTYPE\s+html/i.test(cleanCode) || /^<html[\s>]/i.test(cleanCode)) {
+    throw new Error('Invalid response: LLM returned an HTML document instead of JSX components. Please try again with a more specific prompt.');
+  }
+  if (hadMetadata && !/<[A-Z]/.test(cleanCode)) {
+    throw new Error('Invalid response: LLM returned internal metadata instead of JSX components. Please try again.');
+  }
+  if (/^<[a-z]/.test(cleanCode) && !/<[A-Z]/.test(cleanCode)) {
+    throw new Error('Invalid response: LLM returned HTML elements instead of JSX components. Please try again.');
+  }
+
+  // Return as-is and let Babel report the syntax error
+  return rawResult(fenced[0] ?? cleanCode);
+}
+
+/**
+ * Offset of the extracted code within the text it was extracted from, or null
+ * when extraction changed the text beyond a plain slice (e.g. stripped metadata)
+ */
+export function extractionOffset(code: string, result: JSXExtractionResult): number | null {
+  const sourceStart = code.indexOf(result.source);
+  return sourceStart === -1 ? null : sourceStart + result.start;
+}
@@ -0,0 +1,473 @@
+/**
+ * JSX Patches
+ *
+ * Surgical edits for iterations. Instead of regenerating the whole component,
+ * the model is shown an outline of the current code's JSX tree and answers
+ * with patches against it:
+ *
+ *   {"patches": [
+ *     {"op": "setProp", "path": "0.1", "prop": "color", "value": "\"red\""},
+ *     {"op": "insertChild", "path": "0", "index": 2, "code": "<Button>Save</Button>"}
+ *   ]}
+ *
+ * Paths address JSX elements by their position among the JSX children of
+ * their parent element (`0.1` is the second child of the first root).
+ * Elements passed as props, like `leftSection={<Icon />}`, aren't in the
+ * outline and are edited with `setProp` on their owner.
+ *
+ * Patches are applied as text edits to the original code, so everything they
+ * don't touch keeps its exact formatting. Patches that can't be applied throw
+ * a JSXPatchError and the caller falls back to full regeneration.
+ *
+ * The props inspector reads and edits the props of a single element the same
+ * way (see readJSXProps and setJSXProp), printing the edited attribute from
+ * its AST.
+ */
+
+import * as Babel from '@babel/standalone';
+import type { Expression, JSXAttribute, JSXElement, JSXFragment, Node } from '@babel/types';
+import { parseSource } from './jsxExtraction';
+import { jsxNameParts } from './componentResolution';
+import { offsetToLocation } from './previewDiagnostics';
+
+const { generator, parser, traverse, types: t } = Babel.packages;
+
+export type JSXPatch =
+  /** Set a prop to a JSX attribute value (`"text"` or `{expression}`), or remove it with null */
+  | { op: 'setProp'; path: string; prop: string; value: string | null }
+  /** Replace an element with new JSX */
+  | { op: 'replace'; path: string; code: string }
+  /** Insert new JSX as the child at `index`, appending when past the last child */
+  | { op: 'insertChild'; path: string; index: number; code: string }
+  | { op: 'remove'; path: string };
+
+/**
+ * Thrown when patches are malformed or don't fit the code
+ */
+export class JSXPatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JSXPatchError';
+  }
+}
+
+interface OutlineEntry {
+  path: string;
+  node: JSXElement | JSXFragment;
+  children: OutlineEntry[];
+}
+
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const PATCH_OPS = new Set(['setProp', 'replace', 'insertChild', 'remove']);
+
+// ============================================================================
+// OUTLINE
+// ============================================================================
+
+/**
+ * Index the JSX elements of `code` by path
+ */
+function buildOutline(code: string): Map<string, OutlineEntry> {
+  let ast;
+  try {
+    ast = parseSource(code);
+  } catch (error) {
+    throw new JSXPatchError(`The current code doesn't parse: ${(error as Error).message}`);
+  }
+
+  const entries = new Map<Node, OutlineEntry>();
+  const byPath = new Map<string, OutlineEntry>();
+  const roots: OutlineEntry[] = [];
+
+  traverse.default(ast, {
+    'JSXElement|JSXFragment'(path) {
+      const owner = path.findParent(p => p.isJSXAttribute() || p.isJSXElement() || p.isJSXFragment());
+      if (owner?.isJSXAttribute()) {
+        // Elements passed as props are edited through their owner
+        path.skip();
+        return;
+      }
+
+      const parent = owner ? entries.get(owner.node) : undefined;
+      const siblings = parent ? parent.children : roots;
+      const entry: OutlineEntry = {
+        path: parent ? `${parent.path}.${siblings.length}` : String(siblings.length),
+        node: path.node as JSXElement | JSXFragment,
+        children: [],
+      };
+      siblings.push(entry);
+      entries.set(path.node, entry);
+      byPath.set(entry.path, entry);
+    },
+  });
+
+  return byPath;
+}
+
+const elementName = (node: JSXElement | JSXFragment): string =>
+  t.isJSXElement(node) ? (jsxNameParts(node.openingElement.name)?.join('.') ?? 'element') : '';
+
+/**
+ * Describe the JSX tree of `code` for the model, one element per line with
+ * its path, prop names and line:
+ *
+ *   0 <Stack gap> (line 4)
+ *     0.0 <Title order> (line 5)
+ *
+ * Returns null when the code doesn't parse.
+ */
+export function describeJSXOutline(code: string): string | null {
+  let outline: Map<string, OutlineEntry>;
+  try {
+    outline = buildOutline(code);
+  } catch {
+    return null;
+  }
+
+  return Array.from(outline.values())
+    .map(({ path, node }) => {
+      const props = t.isJSXElement(node)
+        ? node.openingElement.attributes.map(attribute =>
+            t.isJSXAttribute(attribute) ? String(attribute.name.name) : '{...spread}')
+        : [];
+      const { line } = offsetToLocation(code, node.start ?? 0);
+      const indent = '  '.repeat(path.split('.').length - 1);
+      return `${indent}${path} <${[elementName(node), ...props].join(' ')}> (line ${line})`;
+    })
+    .join('\n');
+}
+
+/**
+ * A JSX element of the code, as picked in the preview's inspect mode
+ */
+export interface JSXElementInfo {
+  /** Outline path of the element, as used by patches */
+  path: string;
+  /** Component or tag name, empty for fragments */
+  name: string;
+  /** 1-based line the element starts on */
+  line: number;
+  /** The element's source */
+  snippet: string;
+}
+
+const elementInfo = (code: string, entry: OutlineEntry): JSXElementInfo => ({
+  path: entry.path,
+  name: elementName(entry.node),
+  line: offsetToLocation(code, entry.node.start!).line,
+  snippet: code.slice(entry.node.start!, entry.node.end!),
+});
+
+/**
+ * Find the outline element at `offset` in `code`, or the innermost one
+ * containing it (elements passed as props resolve to their owner). Returns
+ * null when the code doesn't parse or no element contains the offset.
+ */
+export function findJSXElementAt(code: string, offset: number): JSXElementInfo | null {
+  let outline: Map<string, OutlineEntry>;
+  try {
+    outline = buildOutline(code);
+  } catch {
+    return null;
+  }
+
+  let match: OutlineEntry | null = null;
+  for (const entry of outline.values()) {
+    // Entries are in document order, so later containing entries are nested deeper
+    if (entry.node.start! <= offset && offset < entry.node.end!) {
+      match = entry;
+    }
+  }
+  return match && elementInfo(code, match);
+}
+
+/**
+ * Find the outline element at `path` in `code`, or null when there is none
+ */
+export function findJSXElement(code: string, path: string): JSXElementInfo | null {
+  try {
+    const entry = buildOutline(code).get(path);
+    return entry ? elementInfo(code, entry) : null;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+const isPatch = (value: unknown): value is JSXPatch => {
+  if (!value || typeof value !== 'object') return false;
+  const patch = value as Record<string, unknown>;
+  if (!PATCH_OPS.has(patch.op as string) || typeof patch.path !== 'string') return false;
+  switch (patch.op) {
+    case 'setProp':
+      return typeof patch.prop === 'string' && (typeof patch.value === 'string' || patch.value === null);
+    case 'replace':
+      return typeof patch.code === 'string';
+    case 'insertChild':
+      return typeof patch.code === 'string' && typeof patch.index === 'number';
+    default:
+      return true;
+  }
+};
+
+/**
+ * Read the patches from a response. Returns null when the response isn't a
+ * patch response (e.g. the model answered with complete code instead), and
+ * throws a JSXPatchError when it is one but is malformed.
+ */
+export function parsePatchResponse(response: string): JSXPatch[] | null {
+  const text = response.trim().replace(/^```(?:json)?\s*\n?/, '').replace(/\n?```$/, '').trim();
+  if (!text.startsWith('{')) return null;
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new JSXPatchError(`The patch response isn't valid JSON: ${(error as Error).message}`);
+  }
+
+  const patches = (data as { patches?: unknown })?.patches;
+  if (!Array.isArray(patches)) {
+    throw new JSXPatchError('The patch response has no "patches" array');
+  }
+  const invalid = patches.find(patch => !isPatch(patch));
+  if (invalid) {
+    throw new JSXPatchError(`Invalid patch: ${JSON.stringify(invalid)}`);
+  }
+  return patches;
+}
+
+// ============================================================================
+// APPLYING
+// ============================================================================
+
+/** Leading whitespace of the line `offset` is on */
+const indentAt = (code: string, offset: number): string => {
+  const lineStart = code.lastIndexOf('\n', offset - 1) + 1;
+  return code.slice(lineStart).match(/^[ \t]*/)?.[0] ?? '';
+};
+
+/** The range to delete for a node, taking its line along when it's alone on it */
+const removalRange = (code: string, start: number, end: number): { start: number; end: number } => {
+  const lineStart = code.lastIndexOf('\n', start - 1) + 1;
+  const lineEnd = code.indexOf('\n', end) === -1 ? code.length : code.indexOf('\n', end);
+  const isAlone = !code.slice(lineStart, start).trim() && !code.slice(end, lineEnd).trim();
+  return isAlone && lineStart > 0 ? { start: lineStart - 1, end: lineEnd } : { start, end };
+};
+
+/** Attribute values are written as in JSX; anything else is taken as an expression */
+const attributeValue = (value: string): string =>
+  /^["'{]/.test(value.trim()) ? value.trim() : `{${value}}`;
+
+/**
+ * Replace, add or (with null) remove the attribute `prop`, as `attribute` source
+ */
+function setPropEdit(code: string, entry: OutlineEntry, prop: string, attribute: string | null): TextEdit {
+  if (!t.isJSXElement(entry.node)) {
+    throw new JSXPatchError(`Can't set props on the fragment at ${entry.path}`);
+  }
+  const opening = entry.node.openingElement;
+  const existing = opening.attributes.find(a => t.isJSXAttribute(a) && a.name.name === prop);
+
+  if (existing) {
+    if (attribute === null) {
+      // Take the whitespace before the attribute with it
+      const start = code.slice(0, existing.start!).search(/\s*$/);
+      return { start, end: existing.end!, text: '' };
+    }
+    return { start: existing.start!, end: existing.end!, text: attribute };
+  }
+
+  if (attribute === null) {
+    // Already absent
+    return { start: opening.end!, end: opening.end!, text: '' };
+  }
+  const last = opening.attributes[opening.attributes.length - 1] ?? opening.name;
+  return { start: last.end!, end: last.end!, text: ` ${attribute}` };
+}
+
+function insertChildEdit(code: string, entry: OutlineEntry, index: number, childCode: string): TextEdit {
+  const node = entry.node;
+
+  if (t.isJSXElement(node) && !node.closingElement) {
+    // Self-closing: open it up around the new child
+    const name = elementName(node);
+    const slash = code.lastIndexOf('/', node.openingElement.end! - 1);
+    const start = code.slice(0, slash).search(/\s*$/);
+    return { start, end: node.openingElement.end!, text: `>${childCode}</${name}>` };
+  }
+
+  const before = entry.children[index];
+  if (before) {
+    // Insert before the direct child holding that element (it may sit in an expression)
+    const direct = node.children.find(child => child.start! <= before.node.start! && child.end! >= before.node.end!);
+    const start = direct?.start ?? before.node.start!;
+    return { start, end: start, text: `${childCode}\n${indentAt(code, start)}` };
+  }
+
+  const closingStart = t.isJSXElement(node) ? node.closingElement!.start! : node.closingFragment.start!;
+  const closingIndent = indentAt(code, closingStart);
+  const onOwnLine = code.slice(closingStart - closingIndent.length, closingStart) === closingIndent
+    && code[closingStart - closingIndent.length - 1] === '\n';
+  return {
+    start: closingStart,
+    end: closingStart,
+    text: onOwnLine ? `  ${childCode}\n${closingIndent}` : childCode,
+  };
+}
+
+/**
+ * Apply patches to `code`. All paths refer to the code before any patch is
+ * applied. Throws a JSXPatchError when a patch doesn't fit.
+ */
+export function applyJSXPatches(code: string, patches: JSXPatch[]): string {
+  if (patches.length === 0) {
+    throw new JSXPatchError('The patch response has no patches');
+  }
+
+  const outline = buildOutline(code);
+  const edits = patches.map((patch, order): TextEdit & { order: number } => {
+    const entry = outline.get(patch.path);
+    if (!entry) {
+      throw new JSXPatchError(`There is no element at path ${patch.path}`);
+    }
+
+    switch (patch.op) {
+      case 'setProp':
+        return {
+          ...setPropEdit(code, entry, patch.prop, patch.value === null ? null : `${patch.prop}=${attributeValue(patch.value)}`),
+          order,
+        };
+      case 'replace':
+        return { start: entry.node.start!, end: entry.node.end!, text: patch.code, order };
+      case 'insertChild':
+        return { ...insertChildEdit(code, entry, patch.index, patch.code), order };
+      case 'remove':
+        if (!patch.path.includes('.')) {
+          throw new JSXPatchError(`Can't remove the root element at ${patch.path}`);
+        }
+        return { ...removalRange(code, entry.node.start!, entry.node.end!), text: '', order };
+    }
+  });
+
+  // Apply from the end so earlier offsets stay valid; insertions at the same
+  // offset keep their patch order
+  edits.sort((a, b) => b.start - a.start || b.order - a.order);
+  let result = code;
+  let limit = code.length;
+  for (const edit of edits) {
+    if (edit.end > limit) {
+      throw new JSXPatchError('Patches overlap - each element can only be changed once');
+    }
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+    limit = edit.start;
+  }
+  return result;
+}
+
+// ============================================================================
+// PROPS
+// ============================================================================
+
+/**
+ * A prop value as the props inspector edits it. Values that aren't literals
+ * are kept as `expression` source.
+ */
+export type JSXPropValue =
+  | { kind: 'string'; value: string }
+  | { kind: 'number'; value: number }
+  | { kind: 'boolean'; value: boolean }
+  | { kind: 'expression'; source: string };
+
+export interface JSXProp {
+  name: string;
+  value: JSXPropValue;
+}
+
+function readPropValue(code: string, attribute: JSXAttribute): JSXPropValue {
+  const { value } = attribute;
+  // `<Button disabled>`
+  if (value === null || value === undefined) return { kind: 'boolean', value: true };
+  if (t.isStringLiteral(value)) return { kind: 'string', value: value.value };
+
+  const expression = t.isJSXExpressionContainer(value) ? value.expression : null;
+  if (t.isStringLiteral(expression)) return { kind: 'string', value: expression.value };
+  if (t.isBooleanLiteral(expression)) return { kind: 'boolean', value: expression.value };
+  if (t.isNumericLiteral(expression)) return { kind: 'number', value: expression.value };
+  if (t.isUnaryExpression(expression) && expression.operator === '-' && t.isNumericLiteral(expression.argument)) {
+    return { kind: 'number', value: -expression.argument.value };
+  }
+  const node = expression ?? value;
+  return { kind: 'expression', source: code.slice(node.start!, node.end!) };
+}
+
+/**
+ * The props set on the element at `path`, in source order. Spread props are
+ * left out. Returns null when there's no element at the path or it's a
+ * fragment.
+ */
+export function readJSXProps(code: string, path: string): JSXProp[] | null {
+  let entry: OutlineEntry | undefined;
+  try {
+    entry = buildOutline(code).get(path);
+  } catch {
+    return null;
+  }
+  if (!entry || !t.isJSXElement(entry.node)) return null;
+
+  return entry.node.openingElement.attributes.flatMap(attribute =>
+    t.isJSXAttribute(attribute)
+      ? [{ name: String(attribute.name.name), value: readPropValue(code, attribute) }]
+      : []);
+}
+
+function propValueNode(value: JSXPropValue): JSXAttribute['value'] {
+  switch (value.kind) {
+    case 'string':
+      // Quotes and line breaks can't be escaped in JSX attribute strings
+      return /["\n\\]/.test(value.value)
+        ? t.jsxExpressionContainer(t.stringLiteral(value.value))
+        : t.stringLiteral(value.value);
+    case 'number':
+      return t.jsxExpressionContainer(value.value < 0
+        ? t.unaryExpression('-', t.numericLiteral(-value.value))
+        : t.numericLiteral(value.value));
+    case 'boolean':
+      return value.value ? null : t.jsxExpressionContainer(t.booleanLiteral(false));
+    case 'expression': {
+      let expression: Expression;
+      try {
+        expression = parser.parseExpression(value.source, { plugins: ['jsx', 'typescript'] });
+      } catch (error) {
+        throw new JSXPatchError(`"${value.source}" isn't a valid expression: ${(error as Error).message}`);
+      }
+      return t.jsxExpressionContainer(expression);
+    }
+  }
+}
+
+/**
+ * Set the prop `prop` of the element at `path` to `value`, or remove it with
+ * null. The attribute is printed from its AST; the rest of the code is left
+ * as it is. Throws a JSXPatchError when there's no element at the path or the
+ * value doesn't parse.
+ */
+export function setJSXProp(code: string, path: string, prop: string, value: JSXPropValue | null): string {
+  const entry = buildOutline(code).get(path);
+  if (!entry) {
+    throw new JSXPatchError(`There is no element at path ${path}`);
+  }
+  const attribute = value === null
+    ? null
+    : generator.default(t.jsxAttribute(t.jsxIdentifier(prop), propValueNode(value))).code;
+  const edit = setPropEdit(code, entry, prop, attribute);
+  return code.slice(0, edit.start) + edit.text + code.slice(edit.end);
+}
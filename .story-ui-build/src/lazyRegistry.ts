@@ -0,0 +1,131 @@
+/**
+ * Lazy Component Registry
+ *
+ * Loads registry components on demand through the code-split loaders
+ * generated by lazyRegistryPlugin.ts. A preview only waits for the components
+ * it renders; components that are loaded stay cached for later previews, and
+ * the most commonly generated ones are prefetched while the sandbox is idle.
+ *
+ * The registry spans several packages. Components are exposed under their
+ * registry name, which is their export name unless another package claimed
+ * it first (see `aliases`).
+ */
+
+import type React from 'react';
+import { registryPackages, type ComponentLoader } from './componentLoaders';
+import { PreviewError } from './previewDiagnostics';
+
+/** Every registry component, in package order */
+export const registryComponents: string[] = Object.values(registryPackages).flatMap(pkg => pkg.components);
+
+const componentPackages = new Map(Object.entries(registryPackages).flatMap(([pkg, { components }]) =>
+  components.map(name => [name, pkg] as const)
+));
+
+/** The package a registry component is imported from */
+export const packageOf = (name: string): string | undefined => componentPackages.get(name);
+
+/** The name a registry component's package exports it under */
+export const exportNameOf = (name: string): string => {
+  const pkg = packageOf(name);
+  return (pkg && registryPackages[pkg].aliases[name]) || name;
+};
+
+/**
+ * The registry name of a package export, e.g. for `import { X } from 'pkg'`,
+ * or undefined when the export isn't in the registry
+ */
+export function registryNameOf(pkg: string, exportName: string): string | undefined {
+  const registryPackage = registryPackages[pkg];
+  if (!registryPackage) return undefined;
+  const alias = Object.keys(registryPackage.aliases).find(name => registryPackage.aliases[name] === exportName);
+  if (alias) return alias;
+  return packageOf(exportName) === pkg ? exportName : undefined;
+}
+
+// Components most generated layouts use, loaded ahead of the first preview
+const PREFETCH_COMPONENTS = [
+  'Box', 'Stack', 'Group', 'Flex', 'Center', 'Container', 'Grid', 'SimpleGrid',
+  'Paper', 'Card', 'Divider', 'Text', 'Title', 'Anchor', 'Badge', 'Avatar',
+  'Image', 'Button', 'ActionIcon', 'TextInput',
+];
+
+const loadedComponents = new Map<string, React.ElementType>();
+const pendingLoads = new Map<string, Promise<React.ElementType>>();
+const packageLoaders = new Map<string, Promise<Record<string, ComponentLoader>>>();
+
+/**
+ * The component loaders of a package, which large packages load on first use
+ */
+function getPackageLoaders(pkg: string): Promise<Record<string, ComponentLoader>> {
+  let loaders = packageLoaders.get(pkg);
+  if (!loaders) {
+    loaders = registryPackages[pkg].loaders();
+    // Let a failed load be retried
+    loaders.catch(() => packageLoaders.delete(pkg));
+    packageLoaders.set(pkg, loaders);
+  }
+  return loaders;
+}
+
+/**
+ * Load a single registry component, sharing in-flight loads
+ */
+function loadComponent(name: string, pkg: string): Promise<React.ElementType> {
+  const loaded = loadedComponents.get(name);
+  if (loaded) return Promise.resolve(loaded);
+
+  let pending = pendingLoads.get(name);
+  if (!pending) {
+    pending = getPackageLoaders(pkg)
+      .then(loaders => loaders[name]())
+      .then(module => {
+        loadedComponents.set(name, module.default);
+        return module.default;
+      })
+      .finally(() => pendingLoads.delete(name));
+    pendingLoads.set(name, pending);
+  }
+  return pending;
+}
+
+/**
+ * Load the named registry components. Names that aren't in the registry are
+ * ignored. Throws a PreviewError when a component fails to load (e.g. its
+ * chunk can't be fetched).
+ */
+export async function loadComponents(names: Iterable<string>): Promise<Record<string, React.ElementType>> {
+  const available = Array.from(new Set(names)).flatMap(name => {
+    const pkg = packageOf(name);
+    return pkg ? [{ name, pkg }] : [];
+  });
+
+  try {
+    const components = await Promise.all(available.map(({ name, pkg }) => loadComponent(name, pkg)));
+    return Object.fromEntries(available.map(({ name }, i) => [name, components[i]]));
+  } catch (err) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    throw new PreviewError({
+      phase: 'compile',
+      message: `Failed to load preview components: ${error.message}`,
+      stack: error.stack,
+    });
+  }
+}
+
+/**
+ * Load the commonly used components once the browser is idle
+ */
+export function prefetchComponents(): void {
+  const prefetch = () => {
+    loadComponents(PREFETCH_COMPONENTS).catch(() => {
+      // A failed prefetch is retried when a preview needs the component
+    });
+  };
+
+  if (typeof window.requestIdleCallback === 'function') {
+    window.requestIdleCallback(prefetch);
+  } else {
+    setTimeout(prefetch, 1);
+  }
+}
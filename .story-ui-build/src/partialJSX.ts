@@ -0,0 +1,170 @@
+/**
+ * Partial JSX
+ *
+ * Turns the prefix of a response that is still streaming into code the
+ * preview can render. The prefix is cut back to the last point where a JSX
+ * tag, text or child expression ended, and everything still open there
+ * (elements, brackets, the component body) is closed:
+ *
+ *   <Stack><Card><Text>Hel     ->  <Stack><Card><Text>Hel</Text></Card></Stack>
+ *
+ * This is a lightweight scanner, not a parser - the result is a best guess
+ * that callers should still compile before showing.
+ */
+
+type Frame =
+  | { type: '(' | '{' | '[' }
+  | { type: 'element'; name: string };
+
+interface Tag {
+  name: string;
+  closing: boolean;
+  selfClosing: boolean;
+  /** Offset just past the tag's `>` */
+  end: number;
+}
+
+const CLOSERS = { '(': ')', '{': '}', '[': ']' } as const;
+
+/**
+ * Skip a string or template literal starting at `start`, returning the offset
+ * past its closing quote, or null when it isn't closed yet
+ */
+function skipString(source: string, start: number): number | null {
+  const quote = source[start];
+  for (let i = start + 1; i < source.length; i++) {
+    if (source[i] === '\\') {
+      i++;
+    } else if (source[i] === quote) {
+      return i + 1;
+    } else if (quote !== '`' && source[i] === '\n') {
+      return null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Read the JSX tag starting at the `<` at `start`, or null when it's incomplete
+ */
+function readTag(source: string, start: number): Tag | null {
+  let i = start + 1;
+  const closing = source[i] === '/';
+  if (closing) i++;
+  const name = source.slice(i).match(/^[A-Za-z0-9_.:-]*/)?.[0] ?? '';
+  i += name.length;
+
+  // Attributes, skipping strings and `{...}` expressions
+  let depth = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (ch === '"' || ch === "'" || (ch === '`' && depth > 0)) {
+      const end = skipString(source, i);
+      if (end === null) return null;
+      i = end;
+      continue;
+    }
+    if (ch === '{') depth++;
+    else if (ch === '}') depth--;
+    else if (depth === 0 && ch === '>') {
+      return { name, closing, selfClosing: source[i - 1] === '/', end: i + 1 };
+    }
+    i++;
+  }
+  return null;
+}
+
+/**
+ * Whether a `<` after this token starts JSX rather than a comparison
+ */
+const expectsExpression = (lastToken: string): boolean =>
+  lastToken === '' || lastToken === 'return' || /[(,=:?&|{[!;>]$/.test(lastToken);
+
+/**
+ * Cut `source` back to its last JSX boundary and close what's still open
+ * there. Returns null when no JSX has been completed yet.
+ */
+export function closePartialJSX(source: string): string | null {
+  const stack: Frame[] = [];
+  let safePoint: { end: number; open: Frame[] } | null = null;
+  let lastToken = '';
+  let i = 0;
+
+  // Where the code could end if everything still open were closed
+  const snapshot = () => ({ end: i, open: stack.slice() });
+
+  while (i < source.length) {
+    const top = stack[stack.length - 1];
+    const ch = source[i];
+
+    // JSX children: text, child expressions and nested tags
+    if (top?.type === 'element') {
+      if (ch === '{') {
+        stack.push({ type: '{' });
+        lastToken = '{';
+        i++;
+      } else if (ch === '<') {
+        const tag = readTag(source, i);
+        if (!tag) break;
+        i = tag.end;
+        if (tag.closing) stack.pop();
+        else if (!tag.selfClosing) stack.push({ type: 'element', name: tag.name });
+        lastToken = ')';
+        safePoint = snapshot();
+      } else {
+        // Text streams in as it arrives
+        i++;
+        safePoint = snapshot();
+      }
+      continue;
+    }
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '"' || ch === "'" || ch === '`') {
+      const end = skipString(source, i);
+      if (end === null) break;
+      i = end;
+      lastToken = ')';
+    } else if (source.startsWith('//', i)) {
+      const end = source.indexOf('\n', i);
+      if (end === -1) break;
+      i = end + 1;
+    } else if (source.startsWith('/*', i)) {
+      const end = source.indexOf('*/', i);
+      if (end === -1) break;
+      i = end + 2;
+    } else if (ch === '<' && expectsExpression(lastToken) && /[A-Za-z>]/.test(source[i + 1] ?? '')) {
+      const tag = readTag(source, i);
+      if (!tag) break;
+      i = tag.end;
+      if (!tag.selfClosing) stack.push({ type: 'element', name: tag.name });
+      lastToken = ')';
+      safePoint = snapshot();
+    } else if (ch === '(' || ch === '{' || ch === '[') {
+      stack.push({ type: ch });
+      lastToken = ch;
+      i++;
+    } else if (ch === ')' || ch === '}' || ch === ']') {
+      const frame = stack.pop();
+      if (!frame || frame.type === 'element' || CLOSERS[frame.type] !== ch) break;
+      lastToken = ')';
+      i++;
+      // A child expression just ended
+      if (ch === '}' && stack[stack.length - 1]?.type === 'element') safePoint = snapshot();
+    } else {
+      const word = source.slice(i).match(/^[A-Za-z0-9_$]+/)?.[0];
+      lastToken = word ?? ch;
+      i += word?.length ?? 1;
+    }
+  }
+
+  if (!safePoint) return null;
+  // Complete code is left as it is
+  if (i === source.length && stack.length === 0) return source;
+  const closers = safePoint.open
+    .reverse()
+    .map(frame => frame.type === 'element' ? `</${frame.name}>` : CLOSERS[frame.type])
+    .join('');
+  return source.slice(0, safePoint.end) + closers;
+}
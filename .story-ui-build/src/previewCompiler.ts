@@ -0,0 +1,420 @@
+/**
+ * Preview Compiler
+ *
+ * Turns generated code into a React component using Babel standalone for JSX
+ * compilation and the component registry for component resolution. Registry
+ * components are code-split, so only the ones the code references are loaded
+ * before it is evaluated (see lazyRegistry).
+ *
+ * Generated code can take three shapes (see JSXExtractionKind): a bare JSX
+ * expression, a function component body with hooks and local data, or a
+ * complete component declaration. The compiler picks the matching wrapper.
+ *
+ * `compileJSX` evaluates generated code, so it must only be used inside the
+ * preview sandbox iframe (see PreviewSandbox), never in the host app.
+ * `transpilePreview` only transforms code and is safe to call anywhere.
+ *
+ * Transforms keep source maps so that compile and runtime errors can be
+ * reported against the generated code rather than the wrapper around it, and
+ * mark every element with its offset in the generated code (SOURCE_ATTRIBUTE)
+ * so inspect mode can map rendered DOM nodes back to their JSX.
+ */
+
+import React from 'react';
+import * as Babel from '@babel/standalone';
+import * as MantineHooks from '@mantine/hooks';
+import type { JSXOpeningElement } from '@babel/types';
+import { extractJSX, extractionOffset, parseSource, type JSXExtractionResult } from './jsxExtraction';
+import { registryPackages } from './componentLoaders';
+import { exportNameOf, loadComponents, packageOf, registryNameOf } from './lazyRegistry';
+import { jsxNameParts } from './componentResolution';
+import {
+  PreviewError,
+  createDiagnostic,
+  createSourceMapLookup,
+  findStackLocation,
+  type PreviewDiagnostic,
+} from './previewDiagnostics';
+
+const { types: t } = Babel.packages;
+
+// Export name used to reach a component that the generated module declares but doesn't export
+const PREVIEW_EXPORT = '__StoryUIPreview';
+
+// Name given to the evaluated code so its frames can be found in stack traces
+const PREVIEW_SOURCE_URL = 'story-ui-preview.js';
+
+/**
+ * Attribute added to every compiled element, holding the offset of its JSX in
+ * the code passed to `transpilePreview`. Components forward unknown props to
+ * their root DOM node, which is how the attribute reaches the rendered page.
+ */
+export const SOURCE_ATTRIBUTE = 'data-storyui-source';
+
+// Fragments reject every prop but key and children
+const FRAGMENT_NAMES = new Set(['Fragment', 'React.Fragment']);
+
+const BABEL_OPTIONS = {
+  presets: ['react', 'typescript'],
+  filename: 'preview.tsx',
+  sourceMaps: true,
+};
+
+/** Names bound in the scope of every compiled preview, besides registry components */
+export const BASE_SCOPE_NAMES = ['React', 'useState', 'useEffect', 'useCallback', 'useMemo', 'useRef'];
+
+/**
+ * Names bound in the scope of a preview using `components`, for transpiling
+ * outside the sandbox where the scope itself isn't built
+ */
+export const previewScopeNames = (components: string[]): string[] => [...BASE_SCOPE_NAMES, ...components];
+
+/**
+ * Build the scope the compiled code runs against from the loaded registry
+ * components
+ */
+function buildScope(components: Record<string, unknown>): Record<string, unknown> {
+  return {
+    React,
+    ...components,
+    // Add common React hooks
+    useState: React.useState,
+    useEffect: React.useEffect,
+    useCallback: React.useCallback,
+    useMemo: React.useMemo,
+    useRef: React.useRef,
+  };
+}
+
+/**
+ * Resolve `import` statements in component code. Only packages that are
+ * bundled with the app can be imported; registry packages resolve to the
+ * components loaded for the preview, under their export names.
+ */
+function createRequire(components: Record<string, unknown>) {
+  const modules: Record<string, Record<string, unknown>> = {
+    ...Object.fromEntries(Object.keys(registryPackages).map(pkg => [pkg, {}])),
+    react: React as unknown as Record<string, unknown>,
+    '@mantine/hooks': MantineHooks,
+  };
+  for (const [name, component] of Object.entries(components)) {
+    const pkg = packageOf(name);
+    if (pkg) {
+      modules[pkg][exportNameOf(name)] = component;
+    }
+  }
+
+  return (name: string): unknown => {
+    if (name in modules) {
+      return modules[name];
+    }
+    throw new Error(`Cannot import "${name}" in the live preview. Only ${Object.keys(modules).join(', ')} are available.`);
+  };
+}
+
+/**
+ * Generated code transformed into a JavaScript expression that evaluates to
+ * the preview component when `scope` and `require` are bound
+ */
+export interface TranspiledPreview {
+  code: string;
+  /** Maps a 1-based line and 0-based column in `code` to an offset in the code that was transpiled */
+  toSourceOffset: (line: number, column: number) => number | null;
+}
+
+interface TransformResult {
+  code: string;
+  mappings: string;
+}
+
+/**
+ * Babel plugin that adds SOURCE_ATTRIBUTE to each element, with its offset in
+ * the transform input mapped by `toSourceOffset`. Elements outside the mapped
+ * code (e.g. in a wrapper) are left alone.
+ */
+const sourceAttributePlugin = (toSourceOffset: (start: number) => number | null) => () => ({
+  visitor: {
+    JSXOpeningElement({ node }: { node: JSXOpeningElement }) {
+      const name = jsxNameParts(node.name)?.join('.');
+      const offset = node.start != null ? toSourceOffset(node.start) : null;
+      if (offset === null || (name && FRAGMENT_NAMES.has(name))) return;
+      node.attributes.push(t.jsxAttribute(t.jsxIdentifier(SOURCE_ATTRIBUTE), t.stringLiteral(String(offset))));
+    },
+  },
+});
+
+function transform(
+  input: string,
+  toSourceOffset: ((start: number) => number | null) | null,
+  options: { sourceType?: 'module'; plugins?: string[] } = {}
+): TransformResult {
+  const { plugins = [], ...rest } = options;
+  const transformed = Babel.transform(input, {
+    ...BABEL_OPTIONS,
+    ...rest,
+    plugins: toSourceOffset ? [sourceAttributePlugin(toSourceOffset), ...plugins] : plugins,
+  });
+  if (!transformed.code) {
+    throw new Error('Babel transformation produced no output');
+  }
+  return { code: transformed.code, mappings: transformed.map?.mappings ?? '' };
+}
+
+const locationToOffset = (text: string, line: number, column: number): number => {
+  const lines = text.split('\n');
+  let offset = 0;
+  for (let i = 0; i < line - 1 && i < lines.length; i++) {
+    offset += lines[i].length + 1;
+  }
+  return offset + column;
+};
+
+/**
+ * Babel reports syntax errors by offset in the transform input. Translate that
+ * to an offset in the extracted code, clamped so errors reported in the
+ * wrapper (e.g. an unclosed tag reaching the wrapper's closing brace) point at
+ * the end of the code.
+ */
+const babelErrorOffset = (error: unknown, codeStart: number, codeLength: number): number | null => {
+  const pos = (error as { pos?: number }).pos;
+  if (typeof pos !== 'number') return null;
+  return Math.max(0, Math.min(pos - codeStart, codeLength));
+};
+
+/**
+ * Thrown while transpiling, with the error offset inside the extracted code
+ */
+class TranspileError extends Error {
+  constructor(readonly original: Error, readonly offset: number | null) {
+    super(original.message);
+  }
+}
+
+/**
+ * Transform extracted expression or body code into a function component factory.
+ * `codeStart` is the offset of the extracted code in the displayed code, used
+ * for SOURCE_ATTRIBUTE; elements aren't marked when it's null.
+ */
+function transpileFunctionBody(
+  extraction: JSXExtractionResult,
+  scopeNames: string[],
+  codeStart: number | null
+): TranspiledPreview {
+  const prefix = `(function() {
+  const { ${scopeNames.join(', ')} } = scope;
+  return function PreviewComponent() {
+${extraction.kind === 'expression' ? 'return (' : ''}`;
+  const suffix = `${extraction.kind === 'expression' ? ');' : ''}
+  };
+})()`;
+  const input = `${prefix}${extraction.code}${suffix}`;
+
+  const toSourceOffset = codeStart === null ? null : (start: number) => {
+    const offset = start - prefix.length;
+    return offset >= 0 && offset <= extraction.code.length ? codeStart + offset : null;
+  };
+
+  let result: TransformResult;
+  try {
+    result = transform(input, toSourceOffset);
+  } catch (error) {
+    throw new TranspileError(error as Error, babelErrorOffset(error, prefix.length, extraction.code.length));
+  }
+
+  const lookup = createSourceMapLookup(result.mappings);
+  return {
+    code: result.code,
+    toSourceOffset: (line, column) => {
+      const original = lookup(line, column);
+      if (!original) return null;
+      const offset = locationToOffset(input, original.line, original.column) - prefix.length;
+      return offset >= 0 && offset <= extraction.code.length ? offset : null;
+    },
+  };
+}
+
+/**
+ * Transform extracted component module code into a factory that evaluates the
+ * module and returns the component it declares
+ */
+function transpileComponentModule(
+  extraction: JSXExtractionResult,
+  scopeNames: string[],
+  codeStart: number | null
+): TranspiledPreview {
+  const exportName = extraction.componentName === 'default' ? 'default' : PREVIEW_EXPORT;
+  const moduleCode = exportName === 'default'
+    ? extraction.code
+    : `${extraction.code}\nexport { ${extraction.componentName} as ${PREVIEW_EXPORT} };`;
+
+  const toSourceOffset = codeStart === null ? null : (start: number) =>
+    start <= extraction.code.length ? codeStart + start : null;
+
+  let result: TransformResult;
+  try {
+    result = transform(moduleCode, toSourceOffset, { sourceType: 'module', plugins: ['transform-modules-commonjs'] });
+  } catch (error) {
+    throw new TranspileError(error as Error, babelErrorOffset(error, 0, extraction.code.length));
+  }
+
+  // The module runs in its own function so its declarations may shadow scope names.
+  // Its code starts at column 0 of a known line so source map lines only need shifting.
+  const prefix = `(function() {
+  const { ${scopeNames.join(', ')} } = scope;
+  const module = { exports: {} };
+  (function(exports, module) {
+`;
+  const prefixLines = prefix.split('\n').length - 1;
+  const lookup = createSourceMapLookup(result.mappings);
+
+  return {
+    code: `${prefix}${result.code}
+  })(module.exports, module);
+  return module.exports[${JSON.stringify(exportName)}];
+})();`,
+    toSourceOffset: (line, column) => {
+      const original = lookup(line - prefixLines, column);
+      if (!original) return null;
+      const offset = locationToOffset(moduleCode, original.line, original.column);
+      return offset <= extraction.code.length ? offset : null;
+    },
+  };
+}
+
+/**
+ * Transpile generated code into JavaScript that evaluates to a React component
+ * when run with `scope` and `require` bound. Does not execute the code.
+ * Throws a PreviewError located in `jsxCode` when the code doesn't compile.
+ */
+export function transpilePreview(jsxCode: string, scopeNames: string[]): TranspiledPreview {
+  let extraction: JSXExtractionResult;
+  try {
+    extraction = extractJSX(jsxCode);
+  } catch (error) {
+    throw new PreviewError(createDiagnostic('compile', error as Error, jsxCode, null), jsxCode);
+  }
+
+  const codeStart = extractionOffset(jsxCode, extraction);
+  const toDisplayOffset = (offset: number | null) =>
+    offset !== null && codeStart !== null ? codeStart + offset : null;
+
+  try {
+    const transpiled = extraction.kind === 'component'
+      ? transpileComponentModule(extraction, scopeNames, codeStart)
+      : transpileFunctionBody(extraction, scopeNames, codeStart);
+    return {
+      code: transpiled.code,
+      toSourceOffset: (line, column) => toDisplayOffset(transpiled.toSourceOffset(line, column)),
+    };
+  } catch (error) {
+    if (error instanceof TranspileError) {
+      const diagnostic = createDiagnostic('compile', error.original, jsxCode, toDisplayOffset(error.offset));
+      throw new PreviewError(diagnostic, jsxCode);
+    }
+    throw error;
+  }
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+let functionBodyLineOffset: number | null = null;
+
+/**
+ * Browsers report line numbers in `new Function` code relative to the source
+ * they synthesize around the body, which adds engine-specific header lines.
+ * Measure the offset once with a probe function.
+ */
+function getFunctionBodyLineOffset(): number {
+  if (functionBodyLineOffset === null) {
+    const probeURL = 'story-ui-preview-probe.js';
+    const probe = new Function('scope', 'require', `return new Error().stack;\n//# sourceURL=${probeURL}`);
+    const location = findStackLocation(probe(), probeURL);
+    functionBodyLineOffset = location ? location.line - 1 : 0;
+  }
+  return functionBodyLineOffset;
+}
+
+/**
+ * A compiled preview component, with a way to locate the errors it throws
+ */
+export interface CompiledPreview {
+  Component: React.ComponentType;
+  /** Build a runtime diagnostic for an error thrown by the component */
+  diagnose: (error: Error, componentStack?: string) => PreviewDiagnostic;
+}
+
+/**
+ * The names in `components` that the code references, as identifiers, JSX
+ * names or imports from registry packages. Code that doesn't parse references
+ * nothing; transpiling reports the syntax error.
+ */
+function findReferencedComponents(jsxCode: string, components: string[]): string[] {
+  const available = new Set(components);
+  const referenced = new Set<string>();
+  try {
+    t.traverseFast(parseSource(extractJSX(jsxCode).code), node => {
+      if ((t.isIdentifier(node) || t.isJSXIdentifier(node)) && available.has(node.name)) {
+        referenced.add(node.name);
+      } else if (t.isImportDeclaration(node)) {
+        // `import { Calendar as DateCalendar } from '@mantine/dates'`
+        for (const specifier of node.specifiers) {
+          if (!t.isImportSpecifier(specifier)) continue;
+          const imported = t.isIdentifier(specifier.imported) ? specifier.imported.name : specifier.imported.value;
+          const name = registryNameOf(node.source.value, imported);
+          if (name && available.has(name)) referenced.add(name);
+        }
+      }
+    });
+  } catch {
+    return [];
+  }
+  return [...referenced];
+}
+
+/**
+ * Compile JSX code string to a React component, loading the registry
+ * components it uses from those listed in `components`.
+ * Rejects with a PreviewError when the code doesn't compile or evaluate.
+ */
+export async function compileJSX(jsxCode: string, components: string[]): Promise<CompiledPreview> {
+  // Create a scope object with the referenced components and React
+  const loaded = await loadComponents(findReferencedComponents(jsxCode, components));
+  const scope = buildScope(loaded);
+  const transpiled = transpilePreview(jsxCode, Object.keys(scope));
+
+  // Map a stack trace back into the generated code. The transpiled code starts
+  // on the second line of the function body.
+  const locate = (error: Error): number | null => {
+    const location = findStackLocation(error.stack, PREVIEW_SOURCE_URL);
+    if (!location) return null;
+    const line = location.line - getFunctionBodyLineOffset() - 1;
+    return line >= 1 ? transpiled.toSourceOffset(line, location.column - 1) : null;
+  };
+
+  let Component: unknown;
+  try {
+    // Create the component using Function constructor
+    // This runs in the sandbox iframe's realm, isolated from the host app
+    const createComponent = new Function(
+      'scope',
+      'require',
+      `const component =\n${transpiled.code}\nreturn component;\n//# sourceURL=${PREVIEW_SOURCE_URL}`
+    );
+    Component = createComponent(scope, createRequire(loaded));
+  } catch (err) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    throw new PreviewError(createDiagnostic('compile', error, jsxCode, locate(error)), jsxCode);
+  }
+
+  if (typeof Component !== 'function' && typeof Component !== 'object') {
+    throw new PreviewError({ phase: 'compile', message: 'Generated code did not produce a component' }, jsxCode);
+  }
+
+  return {
+    Component: Component as React.ComponentType,
+    diagnose: (error, componentStack) =>
+      createDiagnostic('runtime', error, jsxCode, locate(error), componentStack),
+  };
+}
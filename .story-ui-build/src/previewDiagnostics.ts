@@ -0,0 +1,212 @@
+/**
+ * Preview Diagnostics
+ *
+ * Structured errors for the live preview. Compile and runtime failures are
+ * reported with a line, column and code frame that refer to the generated code
+ * as the user sees it in the code viewer, rather than to the synthetic wrapper
+ * the preview compiler evaluates. The same diagnostics are shown in the
+ * preview, highlighted in the code viewer and sent back to the LLM on retry.
+ */
+
+export interface PreviewDiagnostic {
+  /** Whether compilation failed or the compiled component threw while running */
+  phase: 'compile' | 'runtime';
+  message: string;
+  /** 1-based line in the generated code, when the error could be located */
+  line?: number;
+  /** 1-based column in the generated code */
+  column?: number;
+  /** The lines around the error, with the offending position marked */
+  codeFrame?: string;
+  componentStack?: string;
+  stack?: string;
+}
+
+/**
+ * An error carrying a diagnostic for the code it was raised on
+ */
+export class PreviewError extends Error {
+  readonly diagnostic: PreviewDiagnostic;
+  /** The generated code the diagnostic's location refers to */
+  readonly code?: string;
+
+  constructor(diagnostic: PreviewDiagnostic, code?: string) {
+    super(diagnostic.message);
+    this.name = 'PreviewError';
+    this.diagnostic = diagnostic;
+    this.code = code;
+    if (diagnostic.stack) {
+      this.stack = diagnostic.stack;
+    }
+  }
+}
+
+// Lines shown above and below the error in a code frame
+const CODE_FRAME_CONTEXT_LINES = 2;
+
+/**
+ * Convert a character offset into a 1-based line and column
+ */
+export function offsetToLocation(code: string, offset: number): { line: number; column: number } {
+  const before = code.slice(0, Math.max(0, Math.min(offset, code.length)));
+  const lines = before.split('\n');
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
+
+/**
+ * Render the lines around a location, Babel-style:
+ *
+ *     2 |   const [value, setValue] = useState('');
+ *   > 3 |   return <Stack>
+ *       |          ^
+ */
+export function createCodeFrame(code: string, line: number, column: number): string {
+  const lines = code.split('\n');
+  const first = Math.max(1, line - CODE_FRAME_CONTEXT_LINES);
+  const last = Math.min(lines.length, line + CODE_FRAME_CONTEXT_LINES);
+  const gutterWidth = String(last).length;
+
+  const frame: string[] = [];
+  for (let current = first; current <= last; current++) {
+    const gutter = String(current).padStart(gutterWidth);
+    const marker = current === line ? '>' : ' ';
+    frame.push(`${marker} ${gutter} | ${lines[current - 1]}`.trimEnd());
+    if (current === line) {
+      frame.push(`  ${' '.repeat(gutterWidth)} | ${' '.repeat(Math.max(0, column - 1))}^`);
+    }
+  }
+  return frame.join('\n');
+}
+
+/**
+ * Build a diagnostic, locating it in `code` when the offset is known
+ */
+export function createDiagnostic(
+  phase: PreviewDiagnostic['phase'],
+  error: Error,
+  code: string,
+  offset: number | null,
+  componentStack?: string
+): PreviewDiagnostic {
+  const diagnostic: PreviewDiagnostic = {
+    phase,
+    message: cleanErrorMessage(error.message),
+    stack: error.stack,
+    componentStack,
+  };
+  if (offset !== null) {
+    const { line, column } = offsetToLocation(code, offset);
+    diagnostic.line = line;
+    diagnostic.column = column;
+    diagnostic.codeFrame = createCodeFrame(code, line, column);
+  }
+  return diagnostic;
+}
+
+/**
+ * Strip the parts of a Babel message that describe the synthetic wrapper:
+ * the file name prefix, the `(line:column)` suffix and the code frame
+ */
+function cleanErrorMessage(message: string): string {
+  const firstLine = message.split('\n')[0];
+  return firstLine
+    .replace(/^\/?preview\.tsx:\s*/, '')
+    .replace(/\s*\(\d+:\d+\)$/, '');
+}
+
+/**
+ * Format a diagnostic as plain text, for error panels and LLM prompts
+ */
+export function formatDiagnostic(diagnostic: PreviewDiagnostic): string {
+  const kind = diagnostic.phase === 'compile' ? 'Compilation error' : 'Runtime error';
+  const location = diagnostic.line !== undefined ? ` at line ${diagnostic.line}, column ${diagnostic.column}` : '';
+  const parts = [`${kind}${location}: ${diagnostic.message}`];
+  if (diagnostic.codeFrame) {
+    parts.push(diagnostic.codeFrame);
+  }
+  if (diagnostic.componentStack) {
+    parts.push(`Component stack:${diagnostic.componentStack.replace(/\n\s*$/, '')}`);
+  }
+  return parts.join('\n\n');
+}
+
+// ============================================================================
+// SOURCE MAPS
+// ============================================================================
+
+const BASE64_DIGITS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/** A decoded mapping segment: generated column, original line and column (all 0-based) */
+type MappingSegment = [generatedColumn: number, originalLine: number, originalColumn: number];
+
+/**
+ * Decode the `mappings` field of a single-source v3 source map into segments
+ * per generated line
+ */
+function decodeMappings(mappings: string): MappingSegment[][] {
+  const lines: MappingSegment[][] = [];
+  let originalLine = 0;
+  let originalColumn = 0;
+
+  for (const line of mappings.split(';')) {
+    const segments: MappingSegment[] = [];
+    let generatedColumn = 0;
+
+    for (const segment of line.split(',')) {
+      if (!segment) continue;
+      const fields: number[] = [];
+      let value = 0;
+      let shift = 0;
+      for (const char of segment) {
+        const digit = BASE64_DIGITS.indexOf(char);
+        value += (digit & 31) << shift;
+        if (digit & 32) {
+          shift += 5;
+        } else {
+          fields.push(value & 1 ? -(value >> 1) : value >> 1);
+          value = 0;
+          shift = 0;
+        }
+      }
+      generatedColumn += fields[0];
+      if (fields.length >= 4) {
+        originalLine += fields[2];
+        originalColumn += fields[3];
+        segments.push([generatedColumn, originalLine, originalColumn]);
+      }
+    }
+    lines.push(segments);
+  }
+  return lines;
+}
+
+/**
+ * Create a lookup from generated positions to original positions. Lines are
+ * 1-based and columns 0-based, as in stack traces and Babel locations.
+ */
+export function createSourceMapLookup(mappings: string) {
+  const lines = decodeMappings(mappings);
+
+  return (line: number, column: number): { line: number; column: number } | null => {
+    const segments = lines[line - 1];
+    if (!segments?.length) return null;
+    // The closest segment starting at or before the column
+    let match = segments[0];
+    for (const segment of segments) {
+      if (segment[0] > column) break;
+      match = segment;
+    }
+    return { line: match[1] + 1, column: match[2] };
+  };
+}
+
+/**
+ * Find the first stack frame in evaluated code tagged with `sourceURL` and
+ * return its 1-based line and column
+ */
+export function findStackLocation(stack: string | undefined, sourceURL: string): { line: number; column: number } | null {
+  if (!stack) return null;
+  const escaped = sourceURL.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const match = stack.match(new RegExp(`${escaped}:(\\d+):(\\d+)`));
+  return match ? { line: Number(match[1]), column: Number(match[2]) } : null;
+}
@@ -0,0 +1,66 @@
+/**
+ * Preview Theme
+ *
+ * The Mantine theme previews render with: the project's theme from the
+ * `theme` field of story-ui.config.js (see themePlugin.ts), with the color
+ * scheme, primary color and default radius chosen in the app's theme controls
+ * on top. The host sends the chosen settings to the preview sandbox, which
+ * builds the theme itself.
+ */
+
+import {
+  DEFAULT_THEME,
+  createTheme,
+  mergeMantineTheme,
+  mergeThemeOverrides,
+  type MantineThemeOverride,
+} from '@mantine/core';
+import configTheme from 'virtual:story-ui-theme';
+
+export type PreviewColorScheme = 'light' | 'dark';
+
+export interface PreviewThemeSettings {
+  colorScheme: PreviewColorScheme;
+  /** Overrides the configured primary color; unset keeps it */
+  primaryColor?: string;
+  /** Overrides the configured default radius; unset keeps it */
+  defaultRadius?: string;
+}
+
+export const DEFAULT_PREVIEW_THEME_SETTINGS: PreviewThemeSettings = { colorScheme: 'light' };
+
+/** The configured theme, as previews render it without overrides */
+export const configuredTheme: MantineThemeOverride = createTheme(configTheme);
+
+const resolvedConfiguredTheme = mergeMantineTheme(DEFAULT_THEME, configuredTheme);
+
+/** Colors the primary color can be set to: Mantine's and the theme's own */
+export const primaryColorOptions: string[] = Object.keys(resolvedConfiguredTheme.colors);
+
+/** Radius sizes the default radius can be set to */
+export const radiusOptions: string[] = Object.keys(resolvedConfiguredTheme.radius);
+
+/** The primary color and default radius previews use without overrides */
+export const configuredDefaults = {
+  primaryColor: resolvedConfiguredTheme.primaryColor,
+  defaultRadius: String(resolvedConfiguredTheme.defaultRadius),
+};
+
+/**
+ * The theme override to render previews with
+ */
+export function buildPreviewTheme(settings: PreviewThemeSettings): MantineThemeOverride {
+  return mergeThemeOverrides(configuredTheme, createTheme({
+    ...(settings.primaryColor ? { primaryColor: settings.primaryColor } : {}),
+    ...(settings.defaultRadius ? { defaultRadius: settings.defaultRadius } : {}),
+  }));
+}
+
+/**
+ * The page background of a preview, matching Mantine's body color for the
+ * color scheme
+ */
+export function previewBackground(settings: PreviewThemeSettings): string {
+  const theme = mergeMantineTheme(DEFAULT_THEME, buildPreviewTheme(settings));
+  return settings.colorScheme === 'dark' ? theme.colors.dark[7] : theme.white;
+}
@@ -0,0 +1,150 @@
+/**
+ * Prop Validation
+ *
+ * Checks the props generated JSX passes to registry components against the
+ * prop schema generated from the component types (see componentPropSchema).
+ * Unknown props, values outside a prop's allowed set (`variant="primary"` on
+ * `Button`) and missing required props would otherwise render silently wrong;
+ * they are reported as warnings for the chat and for the model's next turn.
+ */
+
+import * as Babel from '@babel/standalone';
+import type { JSXAttribute, JSXElement, Node } from '@babel/types';
+import { componentPropSchema, sharedProps, domProps, type ComponentPropSchema } from './componentPropSchema';
+import { findClosest, jsxNameParts, registryNameFor } from './componentResolution';
+import { extractJSX, extractionOffset, parseSource } from './jsxExtraction';
+import { offsetToLocation } from './previewDiagnostics';
+
+const { traverse, types: t } = Babel.packages;
+
+export interface PropWarning {
+  /** The component as written in the code, e.g. `Card.Section` */
+  component: string;
+  prop: string;
+  /** 1-based line of the attribute (or of the element, for missing props) */
+  line: number;
+  /** 1-based column */
+  column: number;
+  message: string;
+}
+
+// Accepted by every component: React's own props and polymorphic rendering
+const ALWAYS_ALLOWED = new Set(['key', 'ref', 'children', 'component', 'renderRoot']);
+
+// Values that are valid for any open prop, e.g. `color="white"`
+const GENERIC_VALUES = new Set(['white', 'black', 'transparent', 'currentColor', 'inherit', 'initial', 'unset', 'auto', 'none']);
+
+const KNOWN_PROPS = new Set([...sharedProps, ...domProps, ...ALWAYS_ALLOWED]);
+
+const isAllowedProp = (prop: string, schema: ComponentPropSchema) =>
+  KNOWN_PROPS.has(prop) ||
+  schema.props.includes(prop) ||
+  schema.required.includes(prop) ||
+  /^(?:data|aria)-/.test(prop) ||
+  /^on[A-Z]/.test(prop);
+
+/**
+ * A string an attribute is statically set to: `size="md"`, `size={'md'}` or
+ * a template literal without expressions
+ */
+const staticStringValue = (attribute: JSXAttribute): string | null => {
+  const value = t.isJSXExpressionContainer(attribute.value) ? attribute.value.expression : attribute.value;
+  if (t.isStringLiteral(value)) return value.value;
+  if (t.isTemplateLiteral(value) && value.expressions.length === 0) return value.quasis[0].value.cooked ?? null;
+  return null;
+};
+
+/**
+ * Open props accept custom values (theme extensions, CSS lengths and colors),
+ * so only plain keywords outside the known values are flagged
+ */
+const isSuspiciousOpenValue = (value: string) =>
+  /^[a-z][a-z-]*$/i.test(value) && !GENERIC_VALUES.has(value);
+
+const formatValues = (values: string[]) => values.map(value => `"${value}"`).join(', ');
+
+const hasChildren = (element: JSXElement) =>
+  element.children.some(child => !t.isJSXText(child) || child.value.trim() !== '');
+
+/**
+ * The prop schema of the registry component written as `component` in code
+ * (e.g. `Card.Section`), or null when it isn't a registry component
+ */
+export function propSchemaFor(component: string, components?: string[]): ComponentPropSchema | null {
+  const registryName = registryNameFor(component.split('.'), components);
+  return (registryName && componentPropSchema[registryName]) || null;
+}
+
+/**
+ * Validate the props of every registry component rendered by the code
+ */
+export function validateProps(code: string, components?: string[]): PropWarning[] {
+  let ast: ReturnType<typeof parseSource>;
+  let codeStart: number | null;
+  try {
+    const extraction = extractJSX(code);
+    ast = parseSource(extraction.code);
+    codeStart = extractionOffset(code, extraction);
+  } catch {
+    // Code that doesn't parse is reported by the compiler instead
+    return [];
+  }
+
+  const warnings: PropWarning[] = [];
+  const warn = (node: Node, component: string, prop: string, message: string) => {
+    const offset = codeStart !== null && node.start != null ? codeStart + node.start : null;
+    const { line, column } = offset !== null ? offsetToLocation(code, offset) : { line: 1, column: 1 };
+    warnings.push({ component, prop, line, column, message });
+  };
+
+  traverse.default(ast, {
+    JSXElement(path) {
+      const element: JSXElement = path.node;
+      const opening = element.openingElement;
+      const parts = jsxNameParts(opening.name);
+      if (!parts || !/^[A-Z]/.test(parts[0]) || path.scope.hasBinding(parts[0])) return;
+
+      const component = parts.join('.');
+      const schema = propSchemaFor(component, components);
+      if (!schema) return;
+
+      const present = new Set<string>();
+
+      for (const attribute of opening.attributes) {
+        if (!t.isJSXAttribute(attribute) || !t.isJSXIdentifier(attribute.name)) continue;
+        const prop = attribute.name.name;
+        present.add(prop);
+
+        if (!isAllowedProp(prop, schema)) {
+          const suggestion = findClosest(prop, schema.props);
+          warn(attribute, component, prop,
+            `<${component}> has no prop "${prop}"${suggestion ? `. Did you mean "${suggestion}"?` : ''}`);
+          continue;
+        }
+
+        const allowed = schema.enums[prop];
+        const value = staticStringValue(attribute);
+        if (!allowed || value === null || allowed.values.includes(value)) continue;
+
+        if (!allowed.open) {
+          warn(attribute, component, prop,
+            `${prop}="${value}" is not valid for <${component}>. Expected one of: ${formatValues(allowed.values)}`);
+        } else if (isSuspiciousOpenValue(value)) {
+          warn(attribute, component, prop,
+            `${prop}="${value}" is not a built-in value for <${component}> and will only work if the theme defines it. Built-in values: ${formatValues(allowed.values)}`);
+        }
+      }
+
+      // Spread props may supply anything, so required props can't be checked
+      if (opening.attributes.some(attribute => t.isJSXSpreadAttribute(attribute))) return;
+      for (const prop of schema.required) {
+        const isSupplied = present.has(prop) || (prop === 'children' && hasChildren(element));
+        if (!isSupplied) {
+          warn(opening, component, prop, `<${component}> is missing the required prop "${prop}"`);
+        }
+      }
+    },
+  });
+
+  return warnings;
+}
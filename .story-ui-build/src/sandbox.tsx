@@ -0,0 +1,32 @@
+/**
+ * Preview Sandbox Entry Point
+ *
+ * Boots the preview sandbox runtime (PreviewSandbox) in sandbox.html, the
+ * document the preview iframe loads. The document is served with a `sandbox`
+ * Content-Security-Policy (see sandboxPlugin.ts and public/_headers), so it
+ * gets an opaque origin however it is framed. The runtime still refuses to
+ * boot with any other origin, where generated code would run with the app's.
+ */
+
+import React from 'react';
+import ReactDOM from 'react-dom/client';
+import '@mantine/core/styles.css';
+import { PreviewSandbox } from './PreviewSandbox';
+import { hasOpaqueOrigin } from './sandboxProtocol';
+import './index.css';
+
+const rootElement = document.getElementById('root');
+
+if (!rootElement) {
+  throw new Error('Root element not found. Make sure there is a <div id="root"></div> in your HTML.');
+}
+
+if (hasOpaqueOrigin()) {
+  ReactDOM.createRoot(rootElement).render(
+    <React.StrictMode>
+      <PreviewSandbox />
+    </React.StrictMode>
+  );
+} else {
+  rootElement.textContent = 'The preview sandbox only runs in an isolated frame.';
+}
@@ -0,0 +1,153 @@
+/**
+ * Preview Sandbox Protocol
+ *
+ * Message types exchanged between the host app (LivePreviewRenderer) and the
+ * sandboxed preview iframe (PreviewSandbox). Generated code only ever runs
+ * inside the iframe, which is loaded without `allow-same-origin` so it gets an
+ * opaque origin and cannot read the host's storage or cookies. Its document is
+ * also served with a sandbox CSP, so the opaque origin doesn't depend on the
+ * embedding page. The two sides talk exclusively through these messages.
+ */
+
+import type React from 'react';
+import type { PreviewDiagnostic } from './previewDiagnostics';
+import type { PreviewThemeSettings } from './previewTheme';
+
+/** Marker included in every message so unrelated postMessage traffic is ignored */
+export const SANDBOX_MESSAGE_SOURCE = 'story-ui-preview-sandbox';
+
+/** Document the preview iframe loads, relative to the app; it boots src/sandbox.tsx */
+export const SANDBOX_DOCUMENT = 'sandbox.html';
+
+/** iframe `sandbox` attribute: scripts only - no same-origin, forms, popups or top navigation */
+export const SANDBOX_IFRAME_PERMISSIONS = 'allow-scripts';
+
+// ============================================================================
+// HOST -> SANDBOX
+// ============================================================================
+
+export interface SandboxRenderMessage {
+  source: typeof SANDBOX_MESSAGE_SOURCE;
+  type: 'render';
+  /** Identifies this render so stale responses can be dropped */
+  renderId: number;
+  /** The generated code to compile and mount */
+  code: string;
+  /** Names of the registry components the code may reference */
+  components: string[];
+  /** Styles for the element the preview is mounted in, inside the iframe */
+  contentStyle?: React.CSSProperties;
+}
+
+export interface SandboxInspectMessage {
+  source: typeof SANDBOX_MESSAGE_SOURCE;
+  type: 'inspect';
+  /** While enabled, hovering highlights elements and clicking selects them instead of interacting */
+  enabled: boolean;
+}
+
+export interface SandboxThemeMessage {
+  source: typeof SANDBOX_MESSAGE_SOURCE;
+  type: 'theme';
+  /** Color scheme and theme overrides to render the preview with */
+  settings: PreviewThemeSettings;
+}
+
+export type HostToSandboxMessage = SandboxRenderMessage | SandboxInspectMessage | SandboxThemeMessage;
+
+// ============================================================================
+// SANDBOX -> HOST
+// ============================================================================
+
+export interface SandboxReadyMessage {
+  source: typeof SANDBOX_MESSAGE_SOURCE;
+  type: 'ready';
+}
+
+export interface SandboxRenderedMessage {
+  source: typeof SANDBOX_MESSAGE_SOURCE;
+  type: 'rendered';
+  renderId: number;
+}
+
+export interface SandboxErrorMessage {
+  source: typeof SANDBOX_MESSAGE_SOURCE;
+  type: 'error';
+  renderId: number;
+  /** The error, located in the code sent with the render request */
+  diagnostic: PreviewDiagnostic;
+}
+
+export interface SandboxResizeMessage {
+  source: typeof SANDBOX_MESSAGE_SOURCE;
+  type: 'resize';
+  /** Height of the rendered content in CSS pixels */
+  height: number;
+}
+
+export interface SandboxSelectMessage {
+  source: typeof SANDBOX_MESSAGE_SOURCE;
+  type: 'select';
+  renderId: number;
+  /** Offset of the selected element's JSX in the code sent with the render request */
+  offset: number;
+}
+
+export type SandboxToHostMessage =
+  | SandboxReadyMessage
+  | SandboxRenderedMessage
+  | SandboxErrorMessage
+  | SandboxResizeMessage
+  | SandboxSelectMessage;
+
+// ============================================================================
+// GUARDS
+// ============================================================================
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+export function isHostToSandboxMessage(data: unknown): data is HostToSandboxMessage {
+  if (!isRecord(data) || data.source !== SANDBOX_MESSAGE_SOURCE) {
+    return false;
+  }
+  switch (data.type) {
+    case 'render':
+      return typeof data.renderId === 'number' && typeof data.code === 'string' && Array.isArray(data.components);
+    case 'inspect':
+      return typeof data.enabled === 'boolean';
+    case 'theme':
+      return isRecord(data.settings) &&
+        (data.settings.colorScheme === 'light' || data.settings.colorScheme === 'dark');
+    default:
+      return false;
+  }
+}
+
+export function isSandboxToHostMessage(data: unknown): data is SandboxToHostMessage {
+  if (!isRecord(data) || data.source !== SANDBOX_MESSAGE_SOURCE) {
+    return false;
+  }
+  switch (data.type) {
+    case 'ready':
+      return true;
+    case 'rendered':
+      return typeof data.renderId === 'number';
+    case 'error':
+      return typeof data.renderId === 'number' && isRecord(data.diagnostic) &&
+        typeof data.diagnostic.message === 'string' &&
+        (data.diagnostic.phase === 'compile' || data.diagnostic.phase === 'runtime');
+    case 'resize':
+      return typeof data.height === 'number';
+    case 'select':
+      return typeof data.renderId === 'number' && typeof data.offset === 'number';
+    default:
+      return false;
+  }
+}
+
+/**
+ * Whether the current document has an opaque origin. Without one, generated
+ * code would run with the app's origin and reach its storage.
+ */
+export const hasOpaqueOrigin = (): boolean => window.origin === 'null';
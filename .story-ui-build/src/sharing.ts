@@ -0,0 +1,172 @@
+/**
+ * Shared Previews
+ *
+ * Permalinks to a generated preview that anyone can open, without the chat
+ * history. A small preview travels in the link itself, compressed into the
+ * URL hash (`#share=<data>`), so nothing is stored anywhere. Larger ones are
+ * stored as a snapshot by the share API and linked by its id (`?share=<id>`).
+ * The API is a Pages Function in production (functions/api/shares) and a Vite
+ * plugin locally (sharePlugin.ts); snapshots expire after a retention period
+ * (see shareSnapshots.ts).
+ *
+ * Opening either link renders the preview read-only (see PopoutPreview).
+ */
+
+import { DEFAULT_PREVIEW_THEME_SETTINGS, type PreviewThemeSettings } from './previewTheme';
+
+export interface SharedPreview {
+  code: string;
+  /** Conversation title at the time of sharing */
+  title: string;
+  theme: PreviewThemeSettings;
+}
+
+export interface ShareLink {
+  url: string;
+  /** Whether the preview was stored as a snapshot instead of carried in the link */
+  stored: boolean;
+  /** When a stored snapshot expires, in ms since the epoch */
+  expiresAt?: number;
+}
+
+/**
+ * Thrown when a shared preview can't be created or loaded
+ */
+export class ShareError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShareError';
+  }
+}
+
+/** URL path of the share API, see shareSnapshots.ts */
+const SHARE_API_PATH = '/api/shares';
+
+const SHARE_PARAM = 'share';
+const HASH_PREFIX = `#${SHARE_PARAM}=`;
+
+// Links longer than this are cut off by some chat apps and issue trackers
+const MAX_LINK_LENGTH = 2000;
+
+// Payload encodings, marked by the first character of the encoded data
+const COMPRESSED = 'z';
+const UNCOMPRESSED = 'j';
+
+// ============================================================================
+// ENCODING
+// ============================================================================
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const transformBytes = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([new Uint8Array(bytes)]).stream().pipeThrough(stream)).arrayBuffer());
+
+/**
+ * Encode a preview for the URL hash, compressed where the browser supports it
+ */
+export async function encodeSharedPreview(preview: SharedPreview): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(preview));
+  if (typeof CompressionStream === 'undefined') {
+    return UNCOMPRESSED + toBase64Url(json);
+  }
+  return COMPRESSED + toBase64Url(await transformBytes(json, new CompressionStream('deflate-raw')));
+}
+
+/**
+ * The preview in shared data, or a ShareError when the data isn't a preview
+ */
+function parseSharedPreview(value: unknown): SharedPreview {
+  if (!value || typeof value !== 'object' || typeof (value as SharedPreview).code !== 'string') {
+    throw new ShareError('The shared preview is invalid.');
+  }
+  const { code, title, theme } = value as Partial<SharedPreview>;
+  return {
+    code: code!,
+    title: typeof title === 'string' ? title : '',
+    theme: theme?.colorScheme === 'light' || theme?.colorScheme === 'dark' ? theme : DEFAULT_PREVIEW_THEME_SETTINGS,
+  };
+}
+
+/**
+ * Decode a preview encoded by encodeSharedPreview
+ */
+export async function decodeSharedPreview(data: string): Promise<SharedPreview> {
+  try {
+    let bytes = fromBase64Url(data.slice(1));
+    if (data[0] === COMPRESSED) {
+      bytes = await transformBytes(bytes, new DecompressionStream('deflate-raw'));
+    } else if (data[0] !== UNCOMPRESSED) {
+      throw new ShareError('The shared preview link is not recognized.');
+    }
+    return parseSharedPreview(JSON.parse(new TextDecoder().decode(bytes)));
+  } catch (error) {
+    if (error instanceof ShareError) throw error;
+    throw new ShareError('The shared preview link is incomplete or damaged.');
+  }
+}
+
+// ============================================================================
+// LINKS
+// ============================================================================
+
+/**
+ * Create a link to a preview: in the hash when it's short enough, otherwise to
+ * a stored snapshot
+ */
+export async function createShareLink(preview: SharedPreview, baseUrl: string): Promise<ShareLink> {
+  const hashUrl = `${baseUrl}${HASH_PREFIX}${await encodeSharedPreview(preview)}`;
+  if (hashUrl.length <= MAX_LINK_LENGTH) {
+    return { url: hashUrl, stored: false };
+  }
+
+  const response = await fetch(SHARE_API_PATH, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(preview),
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok || typeof data?.id !== 'string') {
+    throw new ShareError(`Could not store the preview: ${data?.error || `server responded with ${response.status}`}`);
+  }
+  return {
+    url: `${baseUrl}?${SHARE_PARAM}=${encodeURIComponent(data.id)}`,
+    stored: true,
+    expiresAt: typeof data.expiresAt === 'number' ? data.expiresAt : undefined,
+  };
+}
+
+/**
+ * Whether the page was opened from a share link
+ */
+export const isShareLink = (location: Location): boolean =>
+  new URLSearchParams(location.search).has(SHARE_PARAM) || location.hash.startsWith(HASH_PREFIX);
+
+/**
+ * Load the preview a share link points to
+ */
+export async function loadSharedPreview(location: Location): Promise<SharedPreview> {
+  if (location.hash.startsWith(HASH_PREFIX)) {
+    return decodeSharedPreview(location.hash.slice(HASH_PREFIX.length));
+  }
+
+  const id = new URLSearchParams(location.search).get(SHARE_PARAM) ?? '';
+  const response = await fetch(`${SHARE_API_PATH}/${encodeURIComponent(id)}`);
+  if (response.status === 404) {
+    throw new ShareError('This shared preview does not exist or has expired.');
+  }
+  if (!response.ok) {
+    throw new ShareError(`Could not load the shared preview: server responded with ${response.status}`);
+  }
+  return parseSharedPreview(await response.json());
+}
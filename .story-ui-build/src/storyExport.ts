@@ -0,0 +1,340 @@
+/**
+ * Story Export
+ *
+ * Turns generated preview code into a Storybook story file that can be
+ * committed as-is: the code becomes a named component, with a `Meta` titled
+ * under the configured `storyPrefix` and a `Default` story that renders it.
+ *
+ * Previews get React, its hooks and every registry component from their
+ * scope, so the file's imports are worked out from the names the code
+ * references but doesn't declare: registry components are imported from the
+ * package they come from (under their export name when the registry aliases
+ * them), hooks from `react`. Imports the code already has are kept.
+ *
+ * The component declaration and imports are shared with component module
+ * exports (see componentExport).
+ */
+
+import * as Babel from '@babel/standalone';
+import type { File } from '@babel/types';
+import { extractJSX, parseSource } from './jsxExtraction';
+import { registryPackages } from './componentLoaders';
+import { exportNameOf, packageOf } from './lazyRegistry';
+import { BASE_SCOPE_NAMES } from './previewCompiler';
+
+const { traverse, types: t } = Babel.packages;
+
+export interface StoryFile {
+  /** Story id, the file name without `.stories.tsx` */
+  id: string;
+  fileName: string;
+  /** Full story title, including the prefix */
+  title: string;
+  /** Name of the component the story renders */
+  componentName: string;
+  code: string;
+}
+
+export interface StoryExportOptions {
+  /** Title of the story below the prefix, e.g. `Pricing card` */
+  title: string;
+  /** Title prefix, `storyPrefix` in story-ui.config.js */
+  storyPrefix: string;
+}
+
+/**
+ * Thrown when the code has no component to export
+ */
+export class StoryExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StoryExportError';
+  }
+}
+
+export const INDENT = '  ';
+
+// Import lists longer than this are wrapped one name per line
+const MAX_IMPORT_LINE_LENGTH = 100;
+
+const indent = (code: string, depth: number): string =>
+  code.split('\n').map(line => (line.trim() ? INDENT.repeat(depth) + line : '')).join('\n');
+
+const titleWords = (title: string): string[] => title.split(/[^a-zA-Z0-9]+/).filter(Boolean);
+
+/**
+ * The story id for a title: `Pricing card` -> `pricing-card`
+ */
+export const storyIdFor = (title: string): string =>
+  titleWords(title).join('-').toLowerCase() || 'generated-story';
+
+/**
+ * A component name for a title: `Pricing card` -> `PricingCard`
+ */
+export function componentNameFor(title: string): string {
+  const name = titleWords(title).map(word => word[0].toUpperCase() + word.slice(1)).join('');
+  if (!name) return 'GeneratedComponent';
+  return /^\d/.test(name) ? `Generated${name}` : name;
+}
+
+/**
+ * A single-quoted string literal for `value`
+ */
+export const quote = (value: string): string =>
+  `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+
+// ============================================================================
+// COMPONENT SOURCE
+// ============================================================================
+
+interface ComponentSource {
+  /** Module code declaring the component, without exports */
+  code: string;
+  /** Name of the declared component, or null when it still needs one */
+  name: string | null;
+}
+
+/**
+ * Remove the exports of component module code, since every export of a story
+ * file is read as a story. An anonymous default export is assigned to
+ * `fallbackName`.
+ */
+function stripExports(code: string, ast: File, fallbackName: string): ComponentSource {
+  const edits: { start: number; end: number; text: string }[] = [];
+  let name: string | null = null;
+
+  for (const statement of ast.program.body) {
+    if (t.isExportNamedDeclaration(statement)) {
+      if (statement.declaration) {
+        edits.push({ start: statement.start!, end: statement.declaration.start!, text: '' });
+      } else {
+        // `export { Preview as default }` names the component
+        for (const specifier of statement.specifiers) {
+          if (t.isExportSpecifier(specifier) && t.isIdentifier(specifier.exported, { name: 'default' })) {
+            name = specifier.local.name;
+          }
+        }
+        edits.push({ start: statement.start!, end: statement.end!, text: '' });
+      }
+    } else if (t.isExportDefaultDeclaration(statement)) {
+      const declaration = statement.declaration;
+      if (t.isIdentifier(declaration)) {
+        name = declaration.name;
+        edits.push({ start: statement.start!, end: statement.end!, text: '' });
+      } else if ((t.isFunctionDeclaration(declaration) || t.isClassDeclaration(declaration)) && declaration.id) {
+        name = declaration.id.name;
+        edits.push({ start: statement.start!, end: declaration.start!, text: '' });
+      } else {
+        name = fallbackName;
+        edits.push({ start: statement.start!, end: declaration.start!, text: `const ${fallbackName} = ` });
+        // A function or class declaration has no semicolon of its own to end the assignment
+        if (t.isFunctionDeclaration(declaration) || t.isClassDeclaration(declaration)) {
+          edits.push({ start: statement.end!, end: statement.end!, text: ';' });
+        }
+      }
+    }
+  }
+
+  const stripped = edits
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, edit) => result.slice(0, edit.start) + edit.text + result.slice(edit.end), code);
+  return { code: stripped.trim(), name };
+}
+
+/**
+ * Rename a top-level binding and every reference to it, JSX included
+ */
+function renameBinding(code: string, from: string, to: string): string {
+  if (from === to) return code;
+  const edits: { start: number; end: number }[] = [];
+  traverse.default(parseSource(code), {
+    Program(path) {
+      const binding = path.scope.getBinding(from);
+      if (binding) {
+        [binding.identifier, ...binding.referencePaths.map(reference => reference.node)]
+          .filter(node => (t.isIdentifier(node) || t.isJSXIdentifier(node)) && node.name === from)
+          .forEach(node => edits.push({ start: node.start!, end: node.end! }));
+      }
+      path.stop();
+    },
+  });
+  return edits
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, edit) => result.slice(0, edit.start) + to + result.slice(edit.end), code);
+}
+
+/**
+ * Pick a name for a generated component that doesn't shadow anything the
+ * code uses
+ */
+function uniqueComponentName(title: string, taken: (name: string) => boolean): string {
+  const base = componentNameFor(title);
+  if (!taken(base)) return base;
+  for (const suffix of ['Example', 'Story']) {
+    if (!taken(`${base}${suffix}`)) return `${base}${suffix}`;
+  }
+  let index = 2;
+  while (taken(`${base}${index}`)) index++;
+  return `${base}${index}`;
+}
+
+/**
+ * Declare the generated code as a component named after `title`. A component
+ * the code declares is renamed, since models name it `Preview` whatever it is.
+ * Throws a StoryExportError when the code has no component.
+ */
+export function buildComponentSource(previewCode: string, title: string): { code: string; name: string } {
+  const extracted = extractJSX(previewCode);
+  if (extracted.strategy === 'raw') {
+    throw new StoryExportError('The code has no component or JSX to export.');
+  }
+
+  let ast: File;
+  try {
+    ast = parseSource(extracted.code);
+  } catch (error) {
+    throw new StoryExportError(`The code doesn't parse: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const declared = new Set<string>();
+  traverse.default(ast, {
+    Program(path) {
+      Object.keys(path.scope.getAllBindings()).forEach(name => declared.add(name));
+    },
+  });
+  const isTaken = (candidate: string) =>
+    declared.has(candidate) || packageOf(candidate) !== undefined || BASE_SCOPE_NAMES.includes(candidate);
+  const name = uniqueComponentName(title, isTaken);
+
+  switch (extracted.kind) {
+    case 'expression':
+      return {
+        code: `function ${name}() {\n${INDENT}return (\n${indent(extracted.code, 2)}\n${INDENT});\n}`,
+        name,
+      };
+    case 'body':
+      return { code: `function ${name}() {\n${indent(extracted.code, 1)}\n}`, name };
+    case 'component': {
+      const component = stripExports(extracted.code, ast, name);
+      const componentName = component.name
+        ?? (extracted.componentName !== 'default' ? extracted.componentName : undefined);
+      if (!componentName) {
+        throw new StoryExportError('Could not find the component the code declares.');
+      }
+      const titleName = uniqueComponentName(title, candidate => candidate !== componentName && isTaken(candidate));
+      return { code: renameBinding(component.code, componentName, titleName), name: titleName };
+    }
+  }
+}
+
+// ============================================================================
+// IMPORTS
+// ============================================================================
+
+/**
+ * Names the code references without declaring or importing them
+ */
+function unboundNames(code: string): Set<string> {
+  const names = new Set<string>();
+  traverse.default(parseSource(code), {
+    ReferencedIdentifier(path) {
+      const node = path.node;
+      const name = t.isIdentifier(node) || t.isJSXIdentifier(node) ? node.name : null;
+      if (name && !path.scope.hasBinding(name, true)) names.add(name);
+    },
+  });
+  return names;
+}
+
+function importStatement(defaultImport: string | null, names: string[], source: string): string {
+  const parts = [
+    ...(defaultImport ? [defaultImport] : []),
+    ...(names.length > 0 ? [`{ ${names.join(', ')} }`] : []),
+  ];
+  const statement = `import ${parts.join(', ')} from ${quote(source)};`;
+  if (statement.length <= MAX_IMPORT_LINE_LENGTH || names.length === 0) return statement;
+  const list = names.map(name => `${INDENT}${name},`).join('\n');
+  return `import ${defaultImport ? `${defaultImport}, ` : ''}{\n${list}\n} from ${quote(source)};`;
+}
+
+/**
+ * The imports of the scope names the component source uses: React first,
+ * then registry packages in registry order
+ */
+function scopeImports(componentCode: string): string[] {
+  const used = unboundNames(componentCode);
+  const statements: string[] = [];
+
+  const hooks = BASE_SCOPE_NAMES.filter(name => name !== 'React' && used.has(name)).sort();
+  if (used.has('React') || hooks.length > 0) {
+    statements.push(importStatement(used.has('React') ? 'React' : null, hooks, 'react'));
+  }
+
+  for (const pkg of Object.keys(registryPackages)) {
+    const names = [...used]
+      .filter(name => packageOf(name) === pkg)
+      .sort()
+      .map(name => (exportNameOf(name) === name ? name : `${exportNameOf(name)} as ${name}`));
+    if (names.length > 0) statements.push(importStatement(null, names, pkg));
+  }
+  return statements;
+}
+
+/**
+ * Move the import declarations of module code to the top of the file
+ */
+function splitImports(code: string): { imports: string[]; body: string } {
+  const ast = parseSource(code);
+  const imports = ast.program.body.filter(statement => t.isImportDeclaration(statement));
+  const body = imports
+    .slice()
+    .reverse()
+    .reduce((result, statement) => result.slice(0, statement.start!) + result.slice(statement.end!), code);
+  return { imports: imports.map(statement => code.slice(statement.start!, statement.end!)), body: body.trim() };
+}
+
+/**
+ * The imports a module made of `code` needs, with the code left once its own
+ * imports are moved into them
+ */
+export function moduleImports(code: string): { imports: string[]; body: string } {
+  const { imports, body } = splitImports(code);
+  return { imports: [...scopeImports(code), ...imports], body };
+}
+
+// ============================================================================
+// STORY FILE
+// ============================================================================
+
+/**
+ * Build a story file from generated preview code. Throws a StoryExportError
+ * when the code has no component to export.
+ */
+export function buildStoryFile(previewCode: string, options: StoryExportOptions): StoryFile {
+  const storyTitle = options.title.trim() || 'Untitled';
+  const component = buildComponentSource(previewCode, storyTitle);
+  const { imports, body } = moduleImports(component.code);
+  const title = `${options.storyPrefix}${storyTitle}`;
+  const id = storyIdFor(storyTitle);
+
+  const code = [
+    [
+      "import type { Meta, StoryObj } from '@storybook/react-vite';",
+      ...imports,
+    ].join('\n'),
+    body,
+    [
+      'const meta = {',
+      `${INDENT}title: ${quote(title)},`,
+      `${INDENT}component: ${component.name},`,
+      `} satisfies Meta<typeof ${component.name}>;`,
+      '',
+      'export default meta;',
+      'type Story = StoryObj<typeof meta>;',
+      '',
+      'export const Default: Story = {};',
+    ].join('\n'),
+  ].join('\n\n') + '\n';
+
+  return { id, fileName: `${id}.stories.tsx`, title, componentName: component.name, code };
+}
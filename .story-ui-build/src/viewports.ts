@@ -0,0 +1,120 @@
+/**
+ * Preview Viewports
+ *
+ * Sizes the preview can be rendered at to check responsive layouts. The
+ * breakpoints come from the design tokens (story-ui-docs/tokens/spacing.json,
+ * `responsive.breakpoints`), so the breakpoint presets land exactly where
+ * responsive props like `cols={{ base: 1, md: 3 }}` switch. Mantine's default
+ * breakpoints are used when the tokens don't define them.
+ *
+ * The preview iframe is the viewport: media queries inside it evaluate
+ * against the frame's width, not the window's.
+ */
+
+import { designTokens } from './considerations';
+
+export interface Breakpoint {
+  /** Mantine breakpoint name, `xs` to `xl` */
+  name: string;
+  /** Minimum width in CSS pixels */
+  width: number;
+}
+
+export type DeviceFrame = 'phone' | 'tablet' | 'desktop';
+
+export interface Viewport {
+  id: string;
+  label: string;
+  /** Width in CSS pixels; null fills the preview pane */
+  width: number | null;
+  /** Fixed height for device frames; others grow with the content */
+  height?: number;
+  frame?: DeviceFrame;
+}
+
+// Mantine's default breakpoints, in em
+const DEFAULT_BREAKPOINTS: Record<string, string> = {
+  xs: '36em',
+  sm: '48em',
+  md: '62em',
+  lg: '75em',
+  xl: '88em',
+};
+
+// Root font size Mantine's em breakpoints are relative to
+const EM_PIXELS = 16;
+
+/**
+ * Read a token like `48em (768px)`, `48em` or `768px` as pixels
+ */
+function parseBreakpointWidth(value: string): number | null {
+  const pixels = value.match(/(\d+(?:\.\d+)?)px/);
+  if (pixels) return Number(pixels[1]);
+  const ems = value.match(/(\d+(?:\.\d+)?)r?em/);
+  return ems ? Math.round(Number(ems[1]) * EM_PIXELS) : null;
+}
+
+function loadBreakpoints(): Breakpoint[] {
+  const tokens = (designTokens as { responsive?: { breakpoints?: Record<string, string> } }).responsive?.breakpoints;
+  const source = tokens && Object.keys(tokens).some(name => name !== 'base') ? tokens : DEFAULT_BREAKPOINTS;
+
+  return Object.entries(source)
+    .flatMap(([name, value]) => {
+      const width = name === 'base' ? null : parseBreakpointWidth(value);
+      return width === null ? [] : [{ name, width }];
+    })
+    .sort((a, b) => a.width - b.width);
+}
+
+export const breakpoints: Breakpoint[] = loadBreakpoints();
+
+const breakpointWidth = (name: string, fallback: number) =>
+  breakpoints.find(breakpoint => breakpoint.name === name)?.width ?? fallback;
+
+/** The viewport that fills the pane, as before viewports existed */
+export const FIT_VIEWPORT: Viewport = { id: 'fit', label: 'Fit', width: null };
+
+/**
+ * Device presets. Mobile sits below the first breakpoint (`base` styles),
+ * tablet at `sm` and desktop at `lg`.
+ */
+export const deviceViewports: Viewport[] = [
+  { id: 'mobile', label: 'Mobile', width: 375, height: 667, frame: 'phone' },
+  { id: 'tablet', label: 'Tablet', width: breakpointWidth('sm', 768), height: 1024, frame: 'tablet' },
+  { id: 'desktop', label: 'Desktop', width: breakpointWidth('lg', 1200), height: 800, frame: 'desktop' },
+];
+
+/** One preset per breakpoint, at exactly the width where it starts */
+export const breakpointViewports: Viewport[] = breakpoints.map(breakpoint => ({
+  id: `breakpoint-${breakpoint.name}`,
+  label: breakpoint.name,
+  width: breakpoint.width,
+}));
+
+/** Smallest and largest custom widths */
+export const CUSTOM_WIDTH_RANGE = { min: 240, max: 2560 };
+
+export const customViewport = (width: number): Viewport => ({
+  id: 'custom',
+  label: 'Custom',
+  width: Math.min(Math.max(Math.round(width), CUSTOM_WIDTH_RANGE.min), CUSTOM_WIDTH_RANGE.max),
+});
+
+/**
+ * The viewport with `id`, or null when there is none. Custom viewports are
+ * built from their width instead.
+ */
+export const findViewport = (id: string): Viewport | null =>
+  [FIT_VIEWPORT, ...deviceViewports, ...breakpointViewports].find(viewport => viewport.id === id) ?? null;
+
+/**
+ * The breakpoint whose styles apply at `width` (the largest one it reaches),
+ * `base` below the first
+ */
+export function activeBreakpoint(width: number): string {
+  let active = 'base';
+  for (const breakpoint of breakpoints) {
+    if (width >= breakpoint.width) active = breakpoint.name;
+  }
+  return active;
+}
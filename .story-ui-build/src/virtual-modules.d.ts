@@ -0,0 +1,42 @@
+/**
+ * Per-component modules served by lazyRegistryPlugin.ts
+ */
+declare module 'virtual:story-ui-component/*' {
+  import type React from 'react';
+
+  const component: React.ElementType;
+  export default component;
+}
+
+/**
+ * Component loaders of the registry packages too large to inline
+ */
+declare module 'virtual:story-ui-loaders/*' {
+  import type React from 'react';
+
+  const loaders: Record<string, () => Promise<{ default: React.ElementType }>>;
+  export default loaders;
+}
+
+/**
+ * Mantine theme overrides from story-ui.config.js, served by themePlugin.ts
+ */
+declare module 'virtual:story-ui-theme' {
+  import type { MantineThemeOverride } from '@mantine/core';
+
+  const theme: MantineThemeOverride;
+  export default theme;
+}
+
+/**
+ * Story file settings from story-ui.config.js, served by storyConfigPlugin.ts
+ */
+declare module 'virtual:story-ui-story-config' {
+  const settings: {
+    /** Title prefix of generated stories, e.g. `Generated/` */
+    storyPrefix: string;
+    /** Folder the server writes saved stories to */
+    generatedStoriesPath: string;
+  };
+  export default settings;
+}
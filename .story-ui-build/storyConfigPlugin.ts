@@ -0,0 +1,72 @@
+/**
+ * Vite Plugin: Story Export Settings
+ *
+ * Serves the story file settings of story-ui.config.js to the app as
+ * `virtual:story-ui-story-config`, so stories exported from the app (see
+ * src/storyExport.ts) get the same title prefix and land in the same folder
+ * as the stories story-ui generates.
+ *
+ * In dev, editing the config reloads the module.
+ */
+
+import path from 'path';
+import type { Plugin } from 'vite';
+import { findConfigFile, loadStoryUIConfig } from './registryManifest';
+
+/** Import specifier of the settings module */
+export const STORY_CONFIG_MODULE_ID = 'virtual:story-ui-story-config';
+const RESOLVED_STORY_CONFIG_MODULE_ID = `\0${STORY_CONFIG_MODULE_ID}`;
+
+// story-ui's defaults for settings the config leaves out
+const DEFAULT_STORY_PREFIX = 'Generated/';
+const DEFAULT_GENERATED_STORIES_PATH = './src/stories/generated';
+
+/**
+ * Vite plugin that serves the story export settings
+ */
+export function storyConfigPlugin(): Plugin {
+  let root = process.cwd();
+
+  return {
+    name: 'story-ui-story-config',
+
+    configResolved(config) {
+      root = config.root;
+    },
+
+    resolveId(id) {
+      return id === STORY_CONFIG_MODULE_ID ? RESOLVED_STORY_CONFIG_MODULE_ID : null;
+    },
+
+    async load(id) {
+      if (id !== RESOLVED_STORY_CONFIG_MODULE_ID) return null;
+      const settings = {
+        storyPrefix: DEFAULT_STORY_PREFIX,
+        generatedStoriesPath: DEFAULT_GENERATED_STORIES_PATH,
+      };
+      try {
+        const config = await loadStoryUIConfig(root);
+        settings.storyPrefix = config.storyPrefix ?? settings.storyPrefix;
+        settings.generatedStoriesPath = config.generatedStoriesPath ?? settings.generatedStoriesPath;
+      } catch (error) {
+        // Exports fall back to story-ui's defaults rather than failing the build
+        console.warn('[story-config-plugin] Failed to load story-ui.config.js:', error);
+      }
+      return `export default ${JSON.stringify(settings)};`;
+    },
+
+    configureServer(server) {
+      const configPath = findConfigFile(root);
+      if (!configPath) return;
+      server.watcher.add(configPath);
+      server.watcher.on('change', file => {
+        const module = server.moduleGraph.getModuleById(RESOLVED_STORY_CONFIG_MODULE_ID);
+        if (path.resolve(file) === configPath && module) {
+          server.reloadModule(module);
+        }
+      });
+    },
+  };
+}
+
+export default storyConfigPlugin;
@@ -0,0 +1,82 @@
+/**
+ * Vite Plugin: Preview Theme
+ *
+ * Serves the `theme` field of story-ui.config.js to the app as
+ * `virtual:story-ui-theme`, so live previews render with the project's Mantine
+ * theme (see src/previewTheme.ts) instead of Mantine's defaults. The theme is
+ * sent as JSON: functions (e.g. `components` style functions) can't be, and
+ * are dropped with a warning.
+ *
+ * In dev, editing the config reloads the module.
+ */
+
+import path from 'path';
+import type { Plugin } from 'vite';
+import { findConfigFile, loadStoryUIConfig } from './registryManifest';
+
+/** Import specifier of the theme module */
+export const THEME_MODULE_ID = 'virtual:story-ui-theme';
+const RESOLVED_THEME_MODULE_ID = `\0${THEME_MODULE_ID}`;
+
+/**
+ * Serialize the theme, dropping (and reporting) what JSON can't carry
+ */
+function serializeTheme(theme: Record<string, unknown>): string {
+  const dropped: string[] = [];
+  const json = JSON.stringify(theme, function (key, value) {
+    if (typeof value === 'function') {
+      dropped.push(key);
+      return undefined;
+    }
+    return value;
+  });
+  if (dropped.length > 0) {
+    console.warn(`[theme-plugin] Theme values that are functions can't be used in previews, ignoring: ${dropped.join(', ')}`);
+  }
+  return json;
+}
+
+/**
+ * Vite plugin that serves the configured preview theme
+ */
+export function themePlugin(): Plugin {
+  let root = process.cwd();
+
+  return {
+    name: 'story-ui-theme',
+
+    configResolved(config) {
+      root = config.root;
+    },
+
+    resolveId(id) {
+      return id === THEME_MODULE_ID ? RESOLVED_THEME_MODULE_ID : null;
+    },
+
+    async load(id) {
+      if (id !== RESOLVED_THEME_MODULE_ID) return null;
+      let theme: Record<string, unknown> = {};
+      try {
+        theme = (await loadStoryUIConfig(root)).theme ?? {};
+      } catch (error) {
+        // Previews fall back to Mantine's default theme rather than failing the build
+        console.warn('[theme-plugin] Failed to load the theme from story-ui.config.js:', error);
+      }
+      return `export default ${serializeTheme(theme)};`;
+    },
+
+    configureServer(server) {
+      const configPath = findConfigFile(root);
+      if (!configPath) return;
+      server.watcher.add(configPath);
+      server.watcher.on('change', file => {
+        const module = server.moduleGraph.getModuleById(RESOLVED_THEME_MODULE_ID);
+        if (path.resolve(file) === configPath && module) {
+          server.reloadModule(module);
+        }
+      });
+    },
+  };
+}
+
+export default themePlugin;
@@ -1,6 +1,18 @@
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, searchForWorkspaceRoot } from 'vite';
 import react from '@vitejs/plugin-react';
 import path from 'path';
+import { propSchemaPlugin } from './propSchemaPlugin';
+import { lazyRegistryPlugin } from './lazyRegistryPlugin';
+import { themePlugin } from './themePlugin';
+import { storyConfigPlugin } from './storyConfigPlugin';
+import { sharePlugin } from './sharePlugin';
+import { sandboxPlugin } from './sandboxPlugin';
+
+// The preview sandbox iframe has an opaque origin, so its module scripts are
+// requested with `Origin: null` and need CORS to load
+const sandboxCors = {
+  origin: [/^https?:\/\/(?:localhost|127\.0\.0\.1|\[::1\])(?::\d+)?$/, 'null'],
+};
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => {
@@ -8,7 +20,7 @@ export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, process.cwd(), '');
 
   return {
-    plugins: [react()],
+    plugins: [react(), propSchemaPlugin(), lazyRegistryPlugin(), themePlugin(), storyConfigPlugin(), sharePlugin(), sandboxPlugin()],
 
     // Define environment variables to expose to the client
     define: {
@@ -35,6 +47,15 @@ export default defineConfig(({ mode }) => {
       port: 5173,
       strictPort: false,
       host: true, // Listen on all addresses
+      cors: sandboxCors,
+      fs: {
+        // The stream protocol and code diff are shared with the Storybook panel, outside the app root
+        allow: [
+          searchForWorkspaceRoot(process.cwd()),
+          path.resolve(__dirname, '../src/stories/StoryUI/streamProtocol.ts'),
+          path.resolve(__dirname, '../src/stories/StoryUI/codeDiff.ts'),
+        ],
+      },
       // Proxy API requests to backend in development
       proxy: {
         '/mcp': {
@@ -45,6 +66,11 @@ export default defineConfig(({ mode }) => {
           target: env.VITE_BACKEND_URL || 'http://localhost:4001',
           changeOrigin: true,
         },
+        // Streamed completions come from the Storybook dev server's generations API
+        '/api/story-ui-generations': {
+          target: env.VITE_STORYBOOK_URL || 'http://localhost:6006',
+          changeOrigin: true,
+        },
       },
     },
 
@@ -54,6 +80,11 @@ export default defineConfig(({ mode }) => {
       sourcemap: mode === 'development',
       // Optimize chunk size
       rollupOptions: {
+        // The preview sandbox is a document of its own, served with its own policy
+        input: {
+          main: path.resolve(__dirname, 'index.html'),
+          sandbox: path.resolve(__dirname, 'sandbox.html'),
+        },
         output: {
           manualChunks: {
             // Split vendor chunks for better caching
@@ -78,6 +109,7 @@ export default defineConfig(({ mode }) => {
       port: 4173,
       strictPort: false,
       host: true,
+      cors: sandboxCors,
     },
   };
 });
@@ -0,0 +1,318 @@
+/**
+ * Vite Plugin: Story UI Chats
+ *
+ * Keeps the Story UI panel's chats on disk next to the story metadata the
+ * server writes (`.story-mappings.json`, beside the generated stories), one
+ * JSON file per chat in `.story-ui-chats/`. Chats can be committed with the
+ * stories they produced, so they're shared with the team and don't depend on
+ * the browser or port Storybook runs on.
+ *
+ *   GET    /api/story-ui-chats?page=1&pageSize=20&q=<search> -> a page of chat summaries
+ *   GET    /api/story-ui-chats/<id>    -> a chat with its conversation
+ *   PUT    /api/story-ui-chats/<id>?baseUpdated=<lastUpdated it was loaded at>
+ *          -> save a chat, unless it was changed since (409, with the stored chat)
+ *   DELETE /api/story-ui-chats/<id>    -> delete a chat
+ *   POST   /api/story-ui-chats/import {chats} -> save chats unless newer ones are stored
+ *
+ * Stories generated without a saved chat (before chats were kept here, or by
+ * someone else) are listed too, with a conversation made of the prompts in
+ * their version history.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { Plugin } from 'vite';
+import { errorMessage, loadGeneratedStoriesPath, readJSONBody, sendJSON } from './plugin-utils';
+
+interface ChatMessage {
+  role: 'user' | 'ai';
+  content: string;
+}
+
+interface StoredChat {
+  id: string;
+  title: string;
+  fileName: string;
+  conversation: ChatMessage[];
+  lastUpdated: number;
+}
+
+interface ChatSummary {
+  id: string;
+  title: string;
+  fileName: string;
+  lastUpdated: number;
+  messageCount: number;
+  /** The chat's first prompt */
+  preview: string;
+}
+
+interface StoryMapping {
+  title: string;
+  fileName: string;
+  storyId: string;
+  createdAt: string;
+  updatedAt: string;
+  prompt?: string;
+}
+
+const CHATS_API_PATH = '/api/story-ui-chats';
+
+const CHATS_DIR = '.story-ui-chats';
+const MAPPINGS_FILE = '.story-mappings.json';
+const HISTORY_DIR = '.story-ui-history';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+// Chat ids are story ids, file names or timestamps, and end up in file paths
+const CHAT_ID_PATTERN = /^[A-Za-z0-9._-]{1,200}$/;
+
+/**
+ * The chat to store from a request body, or null when it isn't one
+ */
+function parseChat(body: unknown): StoredChat | null {
+  if (!body || typeof body !== 'object') return null;
+  const chat = body as Partial<StoredChat>;
+  if (typeof chat.id !== 'string' || !CHAT_ID_PATTERN.test(chat.id)) return null;
+  if (!Array.isArray(chat.conversation)) return null;
+  return {
+    ...chat,
+    id: chat.id,
+    title: typeof chat.title === 'string' ? chat.title : chat.id,
+    fileName: typeof chat.fileName === 'string' ? chat.fileName : '',
+    conversation: chat.conversation,
+    lastUpdated: typeof chat.lastUpdated === 'number' ? chat.lastUpdated : Date.now(),
+  };
+}
+
+const summarize = (chat: StoredChat): ChatSummary => ({
+  id: chat.id,
+  title: chat.title,
+  fileName: chat.fileName,
+  lastUpdated: chat.lastUpdated,
+  messageCount: chat.conversation.length,
+  preview: chat.conversation.find(message => message.role === 'user')?.content.slice(0, 120) ?? '',
+});
+
+const matchesQuery = (chat: StoredChat, query: string): boolean =>
+  [chat.title, chat.fileName, ...chat.conversation.map(message => message.content)]
+    .some(text => typeof text === 'string' && text.toLowerCase().includes(query));
+
+function createChatStore(root: string) {
+  // The chats live next to the story metadata, which the server keeps beside the generated stories
+  const metadataDir = loadGeneratedStoriesPath(root).then(storiesPath => path.dirname(storiesPath));
+  const chatsDir = async () => path.join(await metadataDir, CHATS_DIR);
+  const chatFile = async (id: string) => path.join(await chatsDir(), `${id}.json`);
+
+  const readJSON = <T>(file: string): T | null => {
+    try {
+      return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf-8')) : null;
+    } catch (error) {
+      console.warn(`[chats-plugin] Failed to read ${file}:`, error);
+      return null;
+    }
+  };
+
+  const readStoredChats = async (): Promise<StoredChat[]> => {
+    const dir = await chatsDir();
+    if (!fs.existsSync(dir)) return [];
+    return fs.readdirSync(dir)
+      .filter(file => file.endsWith('.json'))
+      .map(file => readJSON<StoredChat>(path.join(dir, file)))
+      .filter((chat): chat is StoredChat => !!chat && Array.isArray(chat.conversation));
+  };
+
+  /**
+   * Chats for the stories that have none, from the server's story metadata
+   */
+  const storyChats = async (storedChats: StoredChat[]): Promise<StoredChat[]> => {
+    const mappings = readJSON<StoryMapping[]>(path.join(await metadataDir, MAPPINGS_FILE)) ?? [];
+    const known = new Set(storedChats.flatMap(chat => [chat.id, chat.fileName]));
+    return mappings
+      .filter(mapping => !known.has(mapping.storyId) && !known.has(mapping.fileName))
+      .map(mapping => ({
+        id: mapping.storyId,
+        title: mapping.title,
+        fileName: mapping.fileName,
+        conversation: historyConversation(mapping),
+        lastUpdated: new Date(mapping.updatedAt || mapping.createdAt).getTime() || 0,
+      }));
+  };
+
+  /**
+   * A story's prompts from its version history, each answered with the
+   * version it produced
+   */
+  const historyConversation = (mapping: StoryMapping): ChatMessage[] => {
+    const historyId = mapping.fileName.replace(/-[a-f0-9]+\.stories\.tsx$/, '');
+    const history = readJSON<{ versions: { prompt: string; timestamp: number }[] }>(
+      path.join(root, HISTORY_DIR, `${historyId}.json`)
+    );
+    const prompts = history?.versions.length
+      ? [...history.versions].sort((a, b) => a.timestamp - b.timestamp).map(version => version.prompt)
+      : [mapping.prompt || `Generate ${mapping.title}`];
+
+    const conversation = prompts.flatMap((prompt, index): ChatMessage[] => [
+      { role: 'user', content: prompt },
+      { role: 'ai', content: `[SUCCESS] **${index === 0 ? 'Created' : 'Updated'}: "${mapping.title}"**` },
+    ]);
+    conversation[conversation.length - 1].content +=
+      "\n\n_This chat wasn't saved, so it was restored from the story's version history._";
+    return conversation;
+  };
+
+  const write = async (chat: StoredChat) => {
+    fs.mkdirSync(await chatsDir(), { recursive: true });
+    fs.writeFileSync(await chatFile(chat.id), JSON.stringify(chat, null, 2));
+  };
+
+  const allChats = async (): Promise<StoredChat[]> => {
+    const stored = await readStoredChats();
+    return [...stored, ...(await storyChats(stored))].sort((a, b) => b.lastUpdated - a.lastUpdated);
+  };
+
+  return {
+    async list(page: number, pageSize: number, query: string) {
+      const chats = (await allChats()).filter(chat => !query || matchesQuery(chat, query.toLowerCase()));
+      return {
+        chats: chats.slice((page - 1) * pageSize, page * pageSize).map(summarize),
+        total: chats.length,
+        page,
+        pageSize,
+      };
+    },
+
+    async get(id: string): Promise<StoredChat | null> {
+      return readJSON<StoredChat>(await chatFile(id))
+        ?? (await storyChats(await readStoredChats())).find(chat => chat.id === id)
+        ?? null;
+    },
+
+    /**
+     * Save a chat edited from the stored one last updated at `baseUpdated`.
+     * When the stored chat is newer, someone else changed it in the meantime:
+     * it's returned instead of being overwritten.
+     */
+    async save(chat: StoredChat, baseUpdated = chat.lastUpdated): Promise<StoredChat | null> {
+      const stored = readJSON<StoredChat>(await chatFile(chat.id));
+      if (stored && stored.lastUpdated > baseUpdated) {
+        return stored;
+      }
+      await write(chat);
+      return null;
+    },
+
+    async remove(id: string) {
+      const file = await chatFile(id);
+      if (fs.existsSync(file)) fs.unlinkSync(file);
+    },
+
+    /**
+     * Save chats kept elsewhere (e.g. in a browser), unless newer ones are stored
+     */
+    async import(chats: StoredChat[]): Promise<number> {
+      let imported = 0;
+      for (const chat of chats) {
+        const stored = readJSON<StoredChat>(await chatFile(chat.id));
+        if (!stored || stored.lastUpdated < chat.lastUpdated) {
+          await write(chat);
+          imported++;
+        }
+      }
+      return imported;
+    },
+  };
+}
+
+const positiveInteger = (value: string | null, fallback: number): number => {
+  const number = Number.parseInt(value ?? '', 10);
+  return Number.isFinite(number) && number > 0 ? number : fallback;
+};
+
+/**
+ * Vite plugin that serves the chats API
+ */
+export function chatsPlugin(): Plugin {
+  const store = createChatStore(process.cwd());
+
+  return {
+    name: 'story-ui-chats',
+
+    configureServer(server) {
+      server.middlewares.use(CHATS_API_PATH, (req, res) => {
+        const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+        const id = decodeURIComponent(url.pathname.slice(1));
+        const fail = (error: unknown) => sendJSON(res, 500, { success: false, error: errorMessage(error) });
+
+        if (url.pathname === '/' && req.method === 'GET') {
+          const page = positiveInteger(url.searchParams.get('page'), 1);
+          const pageSize = Math.min(positiveInteger(url.searchParams.get('pageSize'), DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+          store.list(page, pageSize, url.searchParams.get('q')?.trim() ?? '')
+            .then(result => sendJSON(res, 200, { success: true, ...result }))
+            .catch(fail);
+          return;
+        }
+
+        if (id === 'import' && req.method === 'POST') {
+          readJSONBody(req)
+            .then(async body => {
+              const chats = (body as { chats?: unknown })?.chats;
+              if (!Array.isArray(chats)) {
+                sendJSON(res, 400, { success: false, error: 'chats is required' });
+                return;
+              }
+              const valid = chats.map(parseChat).filter((chat): chat is StoredChat => !!chat);
+              sendJSON(res, 200, { success: true, imported: await store.import(valid) });
+            })
+            .catch(fail);
+          return;
+        }
+
+        if (!CHAT_ID_PATTERN.test(id)) {
+          sendJSON(res, 404, { success: false, error: 'Not found' });
+          return;
+        }
+
+        if (req.method === 'GET') {
+          store.get(id)
+            .then(chat => (chat
+              ? sendJSON(res, 200, { success: true, chat })
+              : sendJSON(res, 404, { success: false, error: 'Chat not found' })))
+            .catch(fail);
+          return;
+        }
+
+        if (req.method === 'PUT') {
+          readJSONBody(req)
+            .then(async body => {
+              const chat = parseChat(body);
+              if (!chat || chat.id !== id) {
+                sendJSON(res, 400, { success: false, error: 'The body must be the chat with this id' });
+                return;
+              }
+              const newer = await store.save(chat, positiveInteger(url.searchParams.get('baseUpdated'), chat.lastUpdated));
+              if (newer) {
+                sendJSON(res, 409, { success: false, error: 'This chat was changed since it was loaded', chat: newer });
+                return;
+              }
+              sendJSON(res, 200, { success: true });
+            })
+            .catch(fail);
+          return;
+        }
+
+        if (req.method === 'DELETE') {
+          store.remove(id)
+            .then(() => sendJSON(res, 200, { success: true }))
+            .catch(fail);
+          return;
+        }
+
+        sendJSON(res, 405, { success: false, error: 'Method not allowed' });
+      });
+    },
+  };
+}
+
+export default chatsPlugin;
@@ -0,0 +1,457 @@
+/**
+ * Vite Plugin: Story UI Generations
+ *
+ * Runs the Story UI panel's generations on the dev server, so they outlive the
+ * connection that started them. Each generation gets an id and its events are
+ * kept until a while after it ends, so a panel whose connection dropped (or
+ * whose page reloaded) picks up the events it missed instead of starting over:
+ *
+ *   POST   /api/story-ui-generations      {generate-stream request}
+ *          -> the Story UI server's generate-stream events, relayed
+ *   GET    /api/story-ui-generations/<id> (Last-Event-ID: <last event received>)
+ *          -> the events after that one, then the rest as they come
+ *   DELETE /api/story-ui-generations/<id> -> stop the generation
+ *
+ *   POST   /api/story-ui-generations/completion {LLM proxy request}
+ *          -> the response of the Story UI server's LLM provider, token by
+ *             token; the completion stops when the request is closed
+ *
+ * Events follow the Story UI stream protocol (src/stories/StoryUI/streamProtocol.ts).
+ * Each is numbered with an SSE `id`, and its envelope carries the
+ * `generationId`. Story generations are relayed from the Story UI server at
+ * STORY_UI_SERVER_URL, by default on VITE_STORY_UI_PORT or 4001 like the panel.
+ * The Story UI server's LLM proxy (`/story-ui/claude`) only answers once the
+ * response is complete, so completions run its provider here instead, with the
+ * same API keys from the environment or the project's .env.
+ *
+ * The production app (.story-ui-build) streams its completions from here: its
+ * dev server proxies the API, and in production it calls it from its own
+ * origin, so the API answers cross-origin requests like the Story UI server.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { loadEnv, type Plugin } from 'vite';
+import { errorMessage, readJSONBody, sendJSON } from './plugin-utils';
+import { readServerSentEvents, type CompletionResult, type ErrorFeedback } from '../src/stories/StoryUI/streamProtocol';
+
+/** An event's JSON envelope, as the Story UI server writes it */
+interface StreamEnvelope {
+  type: string;
+  data: unknown;
+  timestamp?: number;
+  version?: number;
+}
+
+type Emit = (envelope: StreamEnvelope) => void;
+
+/** What the LLM proxy accepts, as the production app sends it */
+interface CompletionRequest {
+  prompt?: string;
+  messages?: ChatMessage[];
+  model?: string;
+  maxTokens?: number;
+  systemPrompt?: string;
+  prefillAssistant?: string;
+}
+
+interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/** The part of the Story UI server's LLM provider interface completions use */
+interface StoryProvider {
+  name: string;
+  isConfigured(): boolean;
+  getConfig(): { model?: string };
+  chatStream(
+    messages: ChatMessage[],
+    options: { model?: string; maxTokens?: number; systemPrompt?: string }
+  ): AsyncIterable<{ type: 'text' | 'tool_call' | 'error' | 'done'; content?: string; error?: string }>;
+}
+
+interface Generation {
+  id: string;
+  /** The events sent so far, framed; an event's SSE id is its position + 1 */
+  events: string[];
+  /** Responses following the generation live */
+  listeners: Set<ServerResponse>;
+  controller: AbortController;
+  done: boolean;
+}
+
+const GENERATIONS_API_PATH = '/api/story-ui-generations';
+const COMPLETION_PATH = '/completion';
+
+// Where the Story UI server keeps its providers; the package exports don't expose them
+const STORY_UI_PACKAGE = path.join('node_modules', '@tpitre', 'story-ui');
+const PROVIDER_SERVICE = 'dist/story-generator/llm-providers/story-llm-service.js';
+
+// The LLM proxy's default
+const DEFAULT_MAX_TOKENS = 4096;
+
+// Finished generations are kept this long for panels to pick up their last events
+const GENERATION_RETENTION_MS = 10 * 60 * 1000;
+
+// Requests carry attached images; this matches the Story UI server's JSON limit
+const MAX_REQUEST_BYTES = 10 * 1024 * 1024;
+
+// Ids come from crypto.randomUUID
+const GENERATION_ID_PATTERN = /^[0-9a-f-]{36}$/;
+
+// Generate-stream events a generation ends with
+const TERMINAL_EVENTS = ['completion', 'error'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const errorEvent = (feedback: ErrorFeedback): StreamEnvelope => ({
+  type: 'error',
+  timestamp: Date.now(),
+  data: feedback,
+});
+
+const openEventStream = (res: ServerResponse) => {
+  res.statusCode = 200;
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+};
+
+/**
+ * The SSE id of the last event a client received, 0 when it received none
+ */
+const lastEventId = (req: IncomingMessage): number => {
+  const id = Number.parseInt(String(req.headers['last-event-id'] ?? ''), 10);
+  return Number.isFinite(id) && id > 0 ? id : 0;
+};
+
+function createGenerationStore() {
+  const generations = new Map<string, Generation>();
+
+  const emit = (generation: Generation, envelope: StreamEnvelope) => {
+    const framed = [
+      `id: ${generation.events.length + 1}`,
+      `event: ${envelope.type}`,
+      `data: ${JSON.stringify({ ...envelope, generationId: generation.id })}`,
+      '',
+      '',
+    ].join('\n');
+    generation.events.push(framed);
+    generation.listeners.forEach(res => res.write(framed));
+  };
+
+  const finish = (generation: Generation) => {
+    if (generation.done) return;
+    generation.done = true;
+    generation.listeners.forEach(res => res.end());
+    generation.listeners.clear();
+    setTimeout(() => generations.delete(generation.id), GENERATION_RETENTION_MS).unref();
+  };
+
+  return {
+    /**
+     * Start a generation. `run` emits its events until it settles; a rejection
+     * ends the generation with an error event.
+     */
+    start(run: (emit: Emit, signal: AbortSignal) => Promise<void>, suggestion: string): Generation {
+      const generation: Generation = {
+        id: crypto.randomUUID(),
+        events: [],
+        listeners: new Set(),
+        controller: new AbortController(),
+        done: false,
+      };
+      generations.set(generation.id, generation);
+
+      run(envelope => {
+        if (!generation.done) emit(generation, envelope);
+      }, generation.controller.signal)
+        .catch(error => {
+          if (generation.done) return;
+          emit(generation, errorEvent({
+            code: 'GENERATION_FAILED',
+            message: errorMessage(error),
+            recoverable: true,
+            suggestion,
+          }));
+        })
+        .finally(() => finish(generation));
+      return generation;
+    },
+
+    get(id: string): Generation | undefined {
+      return generations.get(id);
+    },
+
+    /**
+     * Stream a generation's events after the `after`th to a response, then
+     * the rest as they come. The generation goes on if the response closes.
+     */
+    follow(generation: Generation, res: ServerResponse, after: number) {
+      openEventStream(res);
+      generation.events.slice(after).forEach(framed => res.write(framed));
+      if (generation.done) {
+        res.end();
+        return;
+      }
+      generation.listeners.add(res);
+      res.on('close', () => generation.listeners.delete(res));
+    },
+
+    stop(generation: Generation) {
+      if (generation.done) return;
+      emit(generation, errorEvent({
+        code: 'STOPPED',
+        message: 'The generation was stopped',
+        recoverable: true,
+      }));
+      generation.controller.abort();
+      finish(generation);
+    },
+  };
+}
+
+/**
+ * Relay a story generation from the Story UI server's generate-stream
+ */
+async function relayStoryGeneration(serverUrl: string, request: Record<string, unknown>, emit: Emit, signal: AbortSignal) {
+  const response = await fetch(`${serverUrl}/story-ui/generate-stream`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+    signal,
+  });
+  if (!response.ok) {
+    throw new Error(`The Story UI server responded with ${response.status}`);
+  }
+
+  let ended = false;
+  await readServerSentEvents(response, event => {
+    let envelope: unknown;
+    try {
+      envelope = JSON.parse(event.data);
+    } catch {
+      envelope = null;
+    }
+    if (!isRecord(envelope) || typeof envelope.type !== 'string') {
+      throw new Error(`The Story UI server sent an event that isn't a stream protocol envelope: ${event.data.slice(0, 80)}`);
+    }
+    emit(envelope as unknown as StreamEnvelope);
+    ended ||= TERMINAL_EVENTS.includes(envelope.type);
+  });
+
+  if (!ended) {
+    emit(errorEvent({
+      code: 'STREAM_ENDED',
+      message: 'The Story UI server closed the generation stream before it finished',
+      recoverable: true,
+    }));
+  }
+}
+
+/**
+ * Find the Story UI package from `root` up, like Node resolves it
+ */
+function findStoryUIPackage(root: string): string | null {
+  let dir = root;
+  while (!fs.existsSync(path.join(dir, STORY_UI_PACKAGE, PROVIDER_SERVICE))) {
+    const parent = path.dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+  return path.join(dir, STORY_UI_PACKAGE);
+}
+
+/**
+ * Load the Story UI server's provider service. Like the server, it reads the
+ * API keys from the environment, so the .env of the project the package is
+ * installed in fills the keys the environment doesn't set.
+ */
+async function loadProviderService(root: string, mode: string): Promise<{ getStoryProvider(): StoryProvider }> {
+  const packageDir = findStoryUIPackage(root);
+  if (!packageDir) {
+    throw new Error('The Story UI package (@tpitre/story-ui) is not installed');
+  }
+  const env = loadEnv(mode, path.resolve(packageDir, '..', '..', '..'), '');
+  Object.keys(env).forEach(key => {
+    if (process.env[key] === undefined) process.env[key] = env[key];
+  });
+  return import(pathToFileURL(path.join(packageDir, PROVIDER_SERVICE)).href);
+}
+
+/**
+ * Validate an LLM proxy request
+ */
+function parseCompletionRequest(body: unknown): CompletionRequest | null {
+  if (!isRecord(body)) return null;
+  const { prompt, messages } = body as CompletionRequest;
+  const hasMessages = Array.isArray(messages) && messages.length > 0;
+  if (!(typeof prompt === 'string' && prompt) && !hasMessages) return null;
+  return body as CompletionRequest;
+}
+
+/**
+ * Stream a completion from the Story UI server's provider, building the
+ * conversation the way its LLM proxy does
+ */
+async function streamCompletion(provider: StoryProvider, request: CompletionRequest, emit: Emit, signal: AbortSignal) {
+  if (!provider.isConfigured()) {
+    throw new Error(`${provider.name} provider is not configured. Please set the API key.`);
+  }
+
+  const messages: ChatMessage[] = request.messages && request.messages.length > 0
+    ? request.messages.slice()
+    : [{ role: 'user', content: request.prompt ?? '' }];
+  // The response continues the prefill, which the client gets as its first token
+  let content = request.prefillAssistant ?? '';
+  if (content) {
+    messages.push({ role: 'assistant', content });
+    emit({ type: 'token', timestamp: Date.now(), data: { text: content } });
+  }
+
+  const chunks = provider.chatStream(messages, {
+    model: request.model,
+    maxTokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+    systemPrompt: request.systemPrompt,
+  })[Symbol.asyncIterator]();
+  try {
+    while (!signal.aborted) {
+      const { done, value: chunk } = await chunks.next();
+      if (done || chunk.type === 'done') break;
+      if (chunk.type === 'error') {
+        throw new Error(chunk.error || 'The LLM provider failed');
+      }
+      if (chunk.type === 'text' && chunk.content) {
+        content += chunk.content;
+        emit({ type: 'token', timestamp: Date.now(), data: { text: chunk.content } });
+      }
+    }
+  } finally {
+    // Stops reading the provider's response when the completion is stopped
+    await chunks.return?.();
+  }
+
+  const result: CompletionResult = {
+    content,
+    provider: provider.name,
+    model: request.model || provider.getConfig().model,
+  };
+  emit({ type: 'completion', timestamp: Date.now(), data: result });
+}
+
+/**
+ * Let the production app call the API from its own origin
+ */
+const allowCrossOrigin = (req: IncomingMessage, res: ServerResponse) => {
+  res.setHeader('Access-Control-Allow-Origin', req.headers.origin || '*');
+  res.setHeader('Vary', 'Origin');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Last-Event-ID');
+};
+
+/**
+ * The Story UI server generations are relayed from
+ */
+const storyUIServerUrl = (): string =>
+  (process.env.STORY_UI_SERVER_URL || `http://localhost:${process.env.VITE_STORY_UI_PORT || 4001}`).replace(/\/$/, '');
+
+/**
+ * Vite plugin that serves the generations API
+ */
+export function generationsPlugin(): Plugin {
+  const store = createGenerationStore();
+  let root = process.cwd();
+  let mode = 'development';
+  let providerService: ReturnType<typeof loadProviderService> | null = null;
+
+  return {
+    name: 'story-ui-generations',
+
+    configResolved(config) {
+      root = config.root;
+      mode = config.mode;
+    },
+
+    configureServer(server) {
+      const serverUrl = storyUIServerUrl();
+
+      server.middlewares.use(GENERATIONS_API_PATH, (req, res) => {
+        const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+        const id = decodeURIComponent(url.pathname.slice(1));
+        allowCrossOrigin(req, res);
+
+        if (req.method === 'OPTIONS') {
+          res.statusCode = 204;
+          res.end();
+          return;
+        }
+
+        if (url.pathname === COMPLETION_PATH && req.method === 'POST') {
+          readJSONBody(req, MAX_REQUEST_BYTES)
+            .then(body => {
+              const request = parseCompletionRequest(body);
+              if (!request) {
+                sendJSON(res, 400, { success: false, error: 'Missing prompt or messages' });
+                return;
+              }
+              const service = (providerService ??= loadProviderService(root, mode));
+              const generation = store.start(
+                async (emit, signal) => streamCompletion((await service).getStoryProvider(), request, emit, signal),
+                'Check the LLM provider settings of the Story UI server, then try again'
+              );
+              store.follow(generation, res, 0);
+              // Nobody resumes completions, so they end with their request
+              res.on('close', () => store.stop(generation));
+            })
+            .catch(error => sendJSON(res, 400, { success: false, error: errorMessage(error) }));
+          return;
+        }
+
+        if (url.pathname === '/' && req.method === 'POST') {
+          readJSONBody(req, MAX_REQUEST_BYTES)
+            .then(body => {
+              if (!isRecord(body)) {
+                sendJSON(res, 400, { success: false, error: 'Expected a generation request' });
+                return;
+              }
+              const generation = store.start(
+                (emit, signal) => relayStoryGeneration(serverUrl, body, emit, signal),
+                'Check that the Story UI server is running, then try again'
+              );
+              store.follow(generation, res, 0);
+            })
+            .catch(error => sendJSON(res, 400, { success: false, error: errorMessage(error) }));
+          return;
+        }
+
+        const generation = GENERATION_ID_PATTERN.test(id) ? store.get(id) : undefined;
+        if (!generation) {
+          sendJSON(res, 404, { success: false, error: 'Generation not found' });
+          return;
+        }
+
+        if (req.method === 'GET') {
+          store.follow(generation, res, lastEventId(req));
+          return;
+        }
+
+        if (req.method === 'DELETE') {
+          store.stop(generation);
+          sendJSON(res, 200, { success: true });
+          return;
+        }
+
+        sendJSON(res, 405, { success: false, error: 'Method not allowed' });
+      });
+    },
+  };
+}
+
+export default generationsPlugin;
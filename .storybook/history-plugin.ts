@@ -0,0 +1,167 @@
+/**
+ * Vite Plugin: Story UI History
+ *
+ * Serves the version history the Story UI server keeps for every generated
+ * story in `.story-ui-history/<story>.json`, for the Story UI panel's history
+ * drawer:
+ *
+ *   GET  /api/story-history?file=<fileName>       -> the story's history
+ *   POST /api/story-history/revert {file, versionId}
+ *        -> rewrites the story file with that version and makes it current
+ *
+ * Each version's code can also be imported as a module, so the panel can
+ * render an older version without touching the story file:
+ *
+ *   import('/@id/virtual:story-ui-history/<story>/<versionId>.tsx')
+ *
+ * The server reads the history files on every generation, so a reverted
+ * version is what the next update to the story builds on. Like the server,
+ * this only runs in development.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { Plugin } from 'vite';
+import { errorMessage, loadGeneratedStoriesPath, readJSONBody, sendJSON } from './plugin-utils';
+
+interface StoryVersion {
+  id: string;
+  timestamp: number;
+  prompt: string;
+  code: string;
+  fileName: string;
+  parentId?: string;
+}
+
+interface StoryHistory {
+  storyId: string;
+  title: string;
+  versions: StoryVersion[];
+  currentVersionId: string;
+}
+
+const HISTORY_API_PATH = '/api/story-history';
+const VIRTUAL_PREFIX = 'virtual:story-ui-history/';
+
+const HISTORY_DIR = '.story-ui-history';
+
+// History and version ids end up in file paths
+const ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * The history a story file belongs to, named the way the server names it:
+ * the file name without its hash and extension
+ */
+const historyIdFromFileName = (fileName: string): string =>
+  fileName.replace(/-[a-f0-9]+\.stories\.tsx$/, '');
+
+function createHistoryStore(root: string) {
+  const historyDir = path.join(root, HISTORY_DIR);
+  const historyFile = (historyId: string) => path.join(historyDir, `${historyId}.json`);
+
+  const read = (historyId: string): StoryHistory | null => {
+    if (!ID_PATTERN.test(historyId) || !fs.existsSync(historyFile(historyId))) return null;
+    return JSON.parse(fs.readFileSync(historyFile(historyId), 'utf-8'));
+  };
+
+  return {
+    read,
+
+    /**
+     * Write a version to the story file and make it the current version.
+     * The story file is the current version's, which keeps its name across
+     * updates.
+     */
+    async revert(historyId: string, versionId: string): Promise<StoryHistory | null> {
+      const history = read(historyId);
+      const version = history?.versions.find(v => v.id === versionId);
+      if (!history || !version) return null;
+
+      const current = history.versions.find(v => v.id === history.currentVersionId) ?? version;
+      if (path.basename(current.fileName) !== current.fileName) {
+        throw new Error(`Invalid story file name: ${current.fileName}`);
+      }
+      const storiesDir = await loadGeneratedStoriesPath(root);
+      fs.mkdirSync(storiesDir, { recursive: true });
+      fs.writeFileSync(path.join(storiesDir, current.fileName), version.code, 'utf-8');
+
+      const reverted = { ...history, currentVersionId: version.id };
+      fs.writeFileSync(historyFile(historyId), JSON.stringify(reverted, null, 2));
+      return reverted;
+    },
+  };
+}
+
+/**
+ * Vite plugin that serves the story history API and version modules
+ */
+export function historyPlugin(): Plugin {
+  const store = createHistoryStore(process.cwd());
+
+  return {
+    name: 'story-ui-history',
+
+    resolveId(id) {
+      return id.startsWith(VIRTUAL_PREFIX) ? id : null;
+    },
+
+    load(id) {
+      if (!id.startsWith(VIRTUAL_PREFIX)) return null;
+      const [historyId, versionFile] = id.slice(VIRTUAL_PREFIX.length).split('/');
+      const versionId = versionFile?.replace(/\.tsx$/, '');
+      const version = store.read(historyId)?.versions.find(v => v.id === versionId);
+      if (!version) {
+        throw new Error(`Story history version not found: ${historyId}/${versionId}`);
+      }
+      return version.code;
+    },
+
+    configureServer(server) {
+      server.middlewares.use(HISTORY_API_PATH, (req, res) => {
+        const url = new URL(req.url ?? '/', `http://${req.headers.host}`);
+
+        if (req.method === 'GET' && url.pathname === '/') {
+          const file = url.searchParams.get('file');
+          if (!file) {
+            sendJSON(res, 400, { success: false, error: 'No file parameter' });
+            return;
+          }
+          try {
+            const history = store.read(historyIdFromFileName(file));
+            if (history) {
+              sendJSON(res, 200, { success: true, history });
+            } else {
+              sendJSON(res, 404, { success: false, error: 'No history for this story' });
+            }
+          } catch (error) {
+            sendJSON(res, 500, { success: false, error: errorMessage(error) });
+          }
+          return;
+        }
+
+        if (req.method === 'POST' && url.pathname === '/revert') {
+          readJSONBody(req)
+            .then(async body => {
+              const { file, versionId } = (body ?? {}) as { file?: unknown; versionId?: unknown };
+              if (typeof file !== 'string' || typeof versionId !== 'string') {
+                sendJSON(res, 400, { success: false, error: 'file and versionId are required' });
+                return;
+              }
+              const history = await store.revert(historyIdFromFileName(file), versionId);
+              if (history) {
+                sendJSON(res, 200, { success: true, history });
+              } else {
+                sendJSON(res, 404, { success: false, error: 'Version not found' });
+              }
+            })
+            .catch(error => sendJSON(res, 500, { success: false, error: errorMessage(error) }));
+          return;
+        }
+
+        sendJSON(res, 404, { success: false, error: 'Not found' });
+      });
+    },
+  };
+}
+
+export default historyPlugin;
@@ -3,6 +3,9 @@ import { defineConfig } from 'vite';
 import fs from 'fs';
 import path from 'path';
 import { considerationsPlugin } from './considerations-plugin';
+import { historyPlugin } from './history-plugin';
+import { chatsPlugin } from './chats-plugin';
+import { generationsPlugin } from './generations-plugin';
 
 // Custom plugin to serve raw source files
 const rawSourcePlugin = () => {
@@ -81,6 +84,9 @@ const config: StorybookConfig = {
   viteFinal: async (config) => {
     config.plugins?.push(rawSourcePlugin());
     config.plugins?.push(considerationsPlugin());
+    config.plugins?.push(historyPlugin());
+    config.plugins?.push(chatsPlugin());
+    config.plugins?.push(generationsPlugin());
 
     // Deduplicate React to fix "Cannot read properties of null (reading 'useState')" error
     // This ensures packages that import React use the same instance as Storybook
@@ -624,11 +624,11 @@ const SourceCodePanel: React.FC<{ active?: boolean }> = ({ active }) => {
             const baseId = match[1];
             const variant = match[2];
 
-            // Try base story ID with --default variant (this is what we store)
+            // Try base story ID with --default variant (what earlier panels stored)
             if (variant && variant !== 'default') {
               keysToTry.push(`${baseId}--default`);
             }
-            // Also try just the base ID without any variant
+            // Also try just the base ID without any variant (stored with every variant)
             keysToTry.push(baseId);
 
             // Extract component name (e.g., "generated-simple-test-button" -> "simpletestbutton")
@@ -0,0 +1,66 @@
+/**
+ * Helpers shared by the Story UI dev server plugins (history-plugin.ts,
+ * chats-plugin.ts, generations-plugin.ts)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import type { IncomingMessage, ServerResponse } from 'http';
+
+const DEFAULT_GENERATED_STORIES_PATH = './src/stories/generated';
+
+export const sendJSON = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.end(JSON.stringify(body));
+};
+
+export const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : 'Unknown error';
+
+/**
+ * Read a JSON request body, rejecting bodies over `maxBytes`
+ */
+export function readJSONBody(req: IncomingMessage, maxBytes = 5 * 1024 * 1024): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        reject(new Error('Request body is too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf-8')));
+      } catch {
+        reject(new Error('Request body is not valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Where the Story UI server writes generated stories, from story-ui.config.js
+ */
+export async function loadGeneratedStoriesPath(root: string): Promise<string> {
+  const configPath = path.join(root, 'story-ui.config.js');
+  if (fs.existsSync(configPath)) {
+    try {
+      const config = (await import(pathToFileURL(configPath).href)).default;
+      if (typeof config?.generatedStoriesPath === 'string') {
+        return path.resolve(root, config.generatedStoriesPath);
+      }
+    } catch (error) {
+      console.warn('[story-ui] Failed to load story-ui.config.js:', error);
+    }
+  }
+  return path.resolve(root, DEFAULT_GENERATED_STORIES_PATH);
+}
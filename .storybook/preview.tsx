@@ -1,7 +1,11 @@
 import type { Preview } from '@storybook/react-vite'
-import { MantineProvider } from '@mantine/core'
+import { MantineProvider, createTheme, mergeThemeOverrides } from '@mantine/core'
+import { Notifications } from '@mantine/notifications'
 import '@mantine/core/styles.css'
+import '@mantine/dates/styles.css'
+import '@mantine/notifications/styles.css'
 import React from 'react'
+import storyUIConfig from '../story-ui.config.js'
 
 // Auto-detect production environment and configure Story UI to use same-origin API
 // This enables the StoryUIPanel to communicate with the MCP server behind Caddy
@@ -10,7 +14,57 @@ if (typeof window !== 'undefined' && !window.location.hostname.includes('localho
   (window as any).STORY_UI_EDGE_URL = window.location.origin;
 }
 
+// The project's theme from story-ui.config.js, so stories render as they will in the app
+const configuredTheme = createTheme(storyUIConfig.theme ?? {});
+
+// Toolbar values that keep the configured theme value
+const THEME_DEFAULT = 'theme';
+
 const preview: Preview = {
+  globalTypes: {
+    colorScheme: {
+      description: 'Mantine color scheme',
+      toolbar: {
+        title: 'Color scheme',
+        icon: 'mirror',
+        items: [
+          { value: 'light', title: 'Light', icon: 'sun' },
+          { value: 'dark', title: 'Dark', icon: 'moon' },
+        ],
+        dynamicTitle: true,
+      },
+    },
+    primaryColor: {
+      description: 'Mantine primary color',
+      toolbar: {
+        title: 'Primary color',
+        icon: 'paintbrush',
+        items: [
+          { value: THEME_DEFAULT, title: 'Theme default' },
+          ...['blue', 'cyan', 'teal', 'green', 'lime', 'yellow', 'orange', 'red', 'pink', 'grape', 'violet', 'indigo', 'dark', 'gray']
+            .map(color => ({ value: color, title: color })),
+        ],
+        dynamicTitle: true,
+      },
+    },
+    defaultRadius: {
+      description: 'Mantine default radius',
+      toolbar: {
+        title: 'Radius',
+        icon: 'circlehollow',
+        items: [
+          { value: THEME_DEFAULT, title: 'Theme default' },
+          ...['xs', 'sm', 'md', 'lg', 'xl'].map(radius => ({ value: radius, title: `Radius ${radius}` })),
+        ],
+        dynamicTitle: true,
+      },
+    },
+  },
+  initialGlobals: {
+    colorScheme: 'light',
+    primaryColor: THEME_DEFAULT,
+    defaultRadius: THEME_DEFAULT,
+  },
   parameters: {
     controls: {
       matchers: {
@@ -20,11 +74,19 @@ const preview: Preview = {
     },
   },
   decorators: [
-    (Story) => (
-      <MantineProvider>
-        <Story />
-      </MantineProvider>
-    ),
+    (Story, context) => {
+      const { colorScheme, primaryColor, defaultRadius } = context.globals;
+      const theme = mergeThemeOverrides(configuredTheme, createTheme({
+        ...(primaryColor && primaryColor !== THEME_DEFAULT ? { primaryColor } : {}),
+        ...(defaultRadius && defaultRadius !== THEME_DEFAULT ? { defaultRadius } : {}),
+      }));
+      return (
+        <MantineProvider theme={theme} forceColorScheme={colorScheme === 'dark' ? 'dark' : 'light'}>
+          <Notifications />
+          <Story />
+        </MantineProvider>
+      );
+    },
   ],
 };
 
@@ -0,0 +1,525 @@
+import React, { useEffect, useMemo, useState, type ReactNode } from 'react';
+import { diffLines, diffStats, type DiffRow } from './codeDiff';
+import {
+  importStoryVersion,
+  loadStoryHistory,
+  revertStoryVersion,
+  versionNumber,
+  versionsByAge,
+  type StoryHistory,
+  type StoryVersion,
+} from './storyHistory';
+import { storyVariantsFromCode } from './storyVariants';
+
+interface StoryHistoryDrawerProps {
+  /** File name of the active chat's story */
+  fileName: string;
+  title: string;
+  onClose: () => void;
+  /** Called once a version has been written to the story file */
+  onReverted: (history: StoryHistory, version: StoryVersion) => void;
+}
+
+type DrawerView = 'changes' | 'preview' | 'code';
+
+// Unchanged lines shown around each change; longer unchanged runs are folded
+const DIFF_CONTEXT_LINES = 3;
+
+const FONT_FAMILY = '-apple-system, BlinkMacSystemFont, "Segoe UI", "Roboto", "Oxygen", "Ubuntu", "Cantarell", "Fira Sans", "Droid Sans", "Helvetica Neue", sans-serif';
+const MONO_FONT_FAMILY = 'ui-monospace, Consolas, Monaco, monospace';
+
+const STYLES = {
+  drawer: {
+    position: 'absolute' as const,
+    top: 0,
+    right: 0,
+    bottom: 0,
+    width: 'min(520px, 100%)',
+    display: 'flex',
+    flexDirection: 'column' as const,
+    background: '#0f172a',
+    borderLeft: '1px solid rgba(255, 255, 255, 0.12)',
+    boxShadow: '-8px 0 24px rgba(0, 0, 0, 0.35)',
+    zIndex: 50,
+    fontFamily: FONT_FAMILY,
+    color: '#e2e8f0',
+  },
+
+  header: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: '12px 16px',
+    borderBottom: '1px solid rgba(255, 255, 255, 0.08)',
+  },
+
+  title: {
+    fontSize: '14px',
+    fontWeight: '600',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap' as const,
+  },
+
+  closeButton: {
+    background: 'transparent',
+    border: 'none',
+    color: '#94a3b8',
+    fontSize: '18px',
+    cursor: 'pointer',
+    lineHeight: 1,
+  },
+
+  versionList: {
+    maxHeight: '35%',
+    overflowY: 'auto' as const,
+    borderBottom: '1px solid rgba(255, 255, 255, 0.08)',
+  },
+
+  versionItem: {
+    display: 'block',
+    width: '100%',
+    textAlign: 'left' as const,
+    padding: '8px 16px',
+    background: 'transparent',
+    border: 'none',
+    borderLeft: '3px solid transparent',
+    color: 'inherit',
+    fontFamily: 'inherit',
+    cursor: 'pointer',
+  },
+
+  versionItemSelected: {
+    background: 'rgba(59, 130, 246, 0.12)',
+    borderLeftColor: '#3b82f6',
+  },
+
+  versionMeta: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '8px',
+    fontSize: '11px',
+    color: '#94a3b8',
+  },
+
+  versionPrompt: {
+    marginTop: '2px',
+    fontSize: '12px',
+    color: '#cbd5e1',
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap' as const,
+  },
+
+  currentBadge: {
+    padding: '1px 6px',
+    borderRadius: '4px',
+    background: 'rgba(16, 185, 129, 0.2)',
+    color: '#6ee7b7',
+    fontSize: '10px',
+    fontWeight: '600',
+  },
+
+  toolbar: {
+    display: 'flex',
+    flexWrap: 'wrap' as const,
+    alignItems: 'center',
+    gap: '6px',
+    padding: '8px 16px',
+    fontSize: '12px',
+    color: '#94a3b8',
+    borderBottom: '1px solid rgba(255, 255, 255, 0.08)',
+  },
+
+  tab: {
+    padding: '3px 10px',
+    borderRadius: '4px',
+    border: '1px solid rgba(255, 255, 255, 0.15)',
+    background: 'transparent',
+    color: '#cbd5e1',
+    fontSize: '12px',
+    fontFamily: 'inherit',
+    cursor: 'pointer',
+  },
+
+  tabActive: {
+    background: 'rgba(59, 130, 246, 0.25)',
+    borderColor: 'rgba(59, 130, 246, 0.6)',
+    color: '#e2e8f0',
+  },
+
+  select: {
+    background: '#1e293b',
+    border: '1px solid #334155',
+    borderRadius: '6px',
+    color: '#e2e8f0',
+    padding: '3px 6px',
+    fontSize: '12px',
+    maxWidth: '220px',
+  },
+
+  revertButton: {
+    marginLeft: 'auto',
+    padding: '4px 10px',
+    borderRadius: '4px',
+    border: '1px solid rgba(245, 158, 11, 0.5)',
+    background: 'rgba(245, 158, 11, 0.15)',
+    color: '#fcd34d',
+    fontSize: '12px',
+    fontFamily: 'inherit',
+    cursor: 'pointer',
+  },
+
+  body: {
+    flex: 1,
+    overflow: 'auto' as const,
+  },
+
+  pre: {
+    margin: 0,
+    padding: '12px 0',
+    fontSize: '11px',
+    lineHeight: '1.5',
+    fontFamily: MONO_FONT_FAMILY,
+    color: '#e2e8f0',
+  },
+
+  diffLine: {
+    display: 'block',
+    padding: '0 12px',
+    whiteSpace: 'pre' as const,
+  },
+
+  diffFold: {
+    display: 'block',
+    padding: '2px 12px',
+    color: '#64748b',
+    background: 'rgba(255, 255, 255, 0.03)',
+  },
+
+  previewCanvas: {
+    margin: '12px 16px',
+    padding: '16px',
+    borderRadius: '8px',
+    background: '#ffffff',
+    color: '#1f2937',
+    overflow: 'auto' as const,
+  },
+
+  message: {
+    padding: '16px',
+    fontSize: '13px',
+    color: '#94a3b8',
+  },
+
+  errorMessage: {
+    padding: '12px 16px',
+    fontSize: '13px',
+    color: '#fca5a5',
+  },
+};
+
+const DIFF_LINE_COLORS = {
+  '+': { background: 'rgba(16, 185, 129, 0.15)', color: '#a7f3d0' },
+  '-': { background: 'rgba(239, 68, 68, 0.15)', color: '#fecaca' },
+  ' ': {},
+};
+
+type UnifiedLine = { marker: '+' | '-' | ' '; text: string } | { fold: number };
+
+/**
+ * Lay diff rows out as a unified diff, folding unchanged runs away from the
+ * changes
+ */
+function unifiedLines(rows: DiffRow[]): UnifiedLine[] {
+  const lines: { marker: '+' | '-' | ' '; text: string }[] = [];
+  for (const row of rows) {
+    if (row.type === 'same') lines.push({ marker: ' ', text: row.after!.text });
+    if (row.before && row.type !== 'same') lines.push({ marker: '-', text: row.before.text });
+    if (row.after && row.type !== 'same') lines.push({ marker: '+', text: row.after.text });
+  }
+
+  const nearChange = lines.map(() => false);
+  lines.forEach((line, index) => {
+    if (line.marker === ' ') return;
+    for (let k = Math.max(0, index - DIFF_CONTEXT_LINES); k <= Math.min(lines.length - 1, index + DIFF_CONTEXT_LINES); k++) {
+      nearChange[k] = true;
+    }
+  });
+
+  const result: UnifiedLine[] = [];
+  lines.forEach((line, index) => {
+    if (nearChange[index]) {
+      result.push(line);
+    } else {
+      const last = result[result.length - 1];
+      if (last && 'fold' in last) last.fold++;
+      else result.push({ fold: 1 });
+    }
+  });
+  return result;
+}
+
+const formatTimestamp = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+// ============================================================================
+// VERSION PREVIEW
+// ============================================================================
+
+interface StoryAnnotations {
+  component?: React.ComponentType<Record<string, unknown>>;
+  args?: Record<string, unknown>;
+  render?: (args: Record<string, unknown>, context: { args: Record<string, unknown> }) => ReactNode;
+}
+
+/**
+ * Render one story of a story module the way Storybook does without
+ * decorators: the story's render, else the meta's, else the component with
+ * the story's args
+ */
+function VersionStory({ module, exportName }: { module: Record<string, unknown>; exportName: string }) {
+  const meta = (module.default ?? {}) as StoryAnnotations;
+  const story = module[exportName] as StoryAnnotations | ((args: Record<string, unknown>) => ReactNode);
+  if (typeof story === 'function') {
+    return <>{story({ ...meta.args })}</>;
+  }
+  const args = { ...meta.args, ...story?.args };
+  const render = story?.render ?? meta.render;
+  if (render) {
+    return <>{render(args, { args })}</>;
+  }
+  const Component = meta.component;
+  return Component ? <Component {...args} /> : <div>This story has no component or render function.</div>;
+}
+
+class PreviewErrorBoundary extends React.Component<{ children: ReactNode }, { error: Error | null }> {
+  state: { error: Error | null } = { error: null };
+
+  static getDerivedStateFromError(error: Error) {
+    return { error };
+  }
+
+  render() {
+    if (this.state.error) {
+      return <div style={{ color: '#b91c1c', fontSize: '13px' }}>This version doesn't render: {this.state.error.message}</div>;
+    }
+    return this.props.children;
+  }
+}
+
+function VersionPreview({ history, version }: { history: StoryHistory; version: StoryVersion }) {
+  const stories = useMemo(() => storyVariantsFromCode(version.code, history.storyId), [history.storyId, version.code]);
+  const [module, setModule] = useState<Record<string, unknown> | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [exportName, setExportName] = useState<string>('');
+
+  useEffect(() => {
+    let cancelled = false;
+    setModule(null);
+    setError(null);
+    importStoryVersion(history, version.id)
+      .then(loaded => { if (!cancelled) setModule(loaded); })
+      .catch(err => { if (!cancelled) setError(err instanceof Error ? err.message : String(err)); });
+    return () => { cancelled = true; };
+  }, [history, version.id]);
+
+  const selectedExport = stories.some(story => story.exportName === exportName) ? exportName : stories[0]?.exportName;
+
+  return (
+    <>
+      {stories.length > 1 && (
+        <div style={{ ...STYLES.toolbar, borderBottom: 'none', paddingBottom: 0 }}>
+          {stories.map(story => (
+            <button
+              key={story.exportName}
+              type="button"
+              onClick={() => setExportName(story.exportName)}
+              style={{ ...STYLES.tab, ...(story.exportName === selectedExport ? STYLES.tabActive : {}) }}
+            >
+              {story.name}
+            </button>
+          ))}
+        </div>
+      )}
+      {error && <div style={STYLES.errorMessage}>{error}</div>}
+      {!error && !module && <div style={STYLES.message}>Loading version...</div>}
+      {module && selectedExport && (
+        <div style={STYLES.previewCanvas}>
+          <PreviewErrorBoundary key={`${version.id}:${selectedExport}`}>
+            <VersionStory module={module} exportName={selectedExport} />
+          </PreviewErrorBoundary>
+        </div>
+      )}
+      {module && !selectedExport && <div style={STYLES.message}>This version has no stories.</div>}
+    </>
+  );
+}
+
+// ============================================================================
+// DRAWER
+// ============================================================================
+
+/**
+ * Version history of the active chat's story: every generation with its
+ * prompt, the changes between any two versions, a preview of each version
+ * rendered in place, and reverting the story file to one of them
+ */
+export function StoryHistoryDrawer({ fileName, title, onClose, onReverted }: StoryHistoryDrawerProps) {
+  const [history, setHistory] = useState<StoryHistory | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Version the selected one is compared with; defaults to the one before it
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [view, setView] = useState<DrawerView>('changes');
+  const [reverting, setReverting] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setHistory(null);
+    setError(null);
+    loadStoryHistory(fileName)
+      .then(loaded => {
+        if (cancelled) return;
+        setHistory(loaded);
+        setSelectedId(loaded.currentVersionId);
+        setCompareId(null);
+      })
+      .catch(err => { if (!cancelled) setError(err instanceof Error ? err.message : String(err)); });
+    return () => { cancelled = true; };
+  }, [fileName]);
+
+  const versions = useMemo(() => (history ? versionsByAge(history) : []), [history]);
+  const selectedIndex = versions.findIndex(version => version.id === selectedId);
+  const selected = versions[selectedIndex];
+  const base = versions.find(version => version.id === compareId && version.id !== selectedId)
+    ?? (selectedIndex > 0 ? versions[selectedIndex - 1] : undefined);
+
+  const rows = useMemo(() => (selected ? diffLines(base?.code ?? '', selected.code) : []), [base, selected]);
+  const stats = diffStats(rows);
+
+  const handleRevert = async () => {
+    if (!history || !selected) return;
+    const number = versionNumber(history, selected.id);
+    if (!confirm(`Revert "${title}" to version ${number}? The story file will be rewritten with this version.`)) return;
+
+    setReverting(true);
+    setError(null);
+    try {
+      const updated = await revertStoryVersion(fileName, selected.id);
+      setHistory(updated);
+      onReverted(updated, selected);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setReverting(false);
+    }
+  };
+
+  return (
+    <div style={STYLES.drawer} role="dialog" aria-label="Version history">
+      <div style={STYLES.header}>
+        <div style={STYLES.title}>Version history · {title}</div>
+        <button type="button" style={STYLES.closeButton} onClick={onClose} title="Close history">×</button>
+      </div>
+
+      {error && <div style={STYLES.errorMessage}>{error}</div>}
+      {!history && !error && <div style={STYLES.message}>Loading history...</div>}
+
+      {history && (
+        <>
+          <div style={STYLES.versionList}>
+            {[...versions].reverse().map(version => (
+              <button
+                key={version.id}
+                type="button"
+                onClick={() => { setSelectedId(version.id); setCompareId(null); }}
+                style={{ ...STYLES.versionItem, ...(version.id === selectedId ? STYLES.versionItemSelected : {}) }}
+              >
+                <div style={STYLES.versionMeta}>
+                  <strong style={{ color: '#e2e8f0' }}>v{versionNumber(history, version.id)}</strong>
+                  <span>{formatTimestamp(version.timestamp)}</span>
+                  {version.id === history.currentVersionId && <span style={STYLES.currentBadge}>CURRENT</span>}
+                </div>
+                <div style={STYLES.versionPrompt} title={version.prompt}>{version.prompt || 'No prompt recorded'}</div>
+              </button>
+            ))}
+          </div>
+
+          {selected && (
+            <>
+              <div style={STYLES.toolbar}>
+                {(['changes', 'preview', 'code'] as const).map(option => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => setView(option)}
+                    style={{ ...STYLES.tab, ...(view === option ? STYLES.tabActive : {}) }}
+                  >
+                    {option === 'changes' ? 'Changes' : option === 'preview' ? 'Preview' : 'Code'}
+                  </button>
+                ))}
+                <button
+                  type="button"
+                  onClick={handleRevert}
+                  disabled={reverting || selected.id === history.currentVersionId}
+                  style={{
+                    ...STYLES.revertButton,
+                    ...(reverting || selected.id === history.currentVersionId ? { opacity: 0.5, cursor: 'not-allowed' } : {}),
+                  }}
+                  title={selected.id === history.currentVersionId ? 'This is the current version' : 'Rewrite the story file with this version'}
+                >
+                  {reverting ? 'Reverting...' : 'Revert to this version'}
+                </button>
+              </div>
+
+              {view === 'changes' && (
+                <div style={{ ...STYLES.toolbar, borderBottom: 'none' }}>
+                  <span>Compared with</span>
+                  <select
+                    value={base?.id ?? ''}
+                    onChange={e => setCompareId(e.target.value || null)}
+                    style={STYLES.select}
+                  >
+                    {!base && <option value="">Nothing (first version)</option>}
+                    {versions.filter(version => version.id !== selected.id).map(version => (
+                      <option key={version.id} value={version.id}>
+                        v{versionNumber(history, version.id)} · {version.prompt.slice(0, 40) || formatTimestamp(version.timestamp)}
+                      </option>
+                    ))}
+                  </select>
+                  <span style={{ color: '#6ee7b7' }}>+{stats.added}</span>
+                  <span style={{ color: '#fca5a5' }}>−{stats.removed}</span>
+                </div>
+              )}
+
+              <div style={STYLES.body}>
+                {view === 'changes' && (
+                  stats.added === 0 && stats.removed === 0
+                    ? <div style={STYLES.message}>No changes between these versions.</div>
+                    : (
+                      <pre style={STYLES.pre}>
+                        {unifiedLines(rows).map((line, index) => ('fold' in line ? (
+                          <span key={index} style={STYLES.diffFold}>⋯ {line.fold} unchanged line{line.fold > 1 ? 's' : ''}</span>
+                        ) : (
+                          <span key={index} style={{ ...STYLES.diffLine, ...DIFF_LINE_COLORS[line.marker] }}>
+                            {line.marker} {line.text}
+                          </span>
+                        )))}
+                      </pre>
+                    )
+                )}
+                {view === 'preview' && <VersionPreview history={history} version={selected} />}
+                {view === 'code' && (
+                  <pre style={{ ...STYLES.pre, padding: '12px' }}><code>{selected.code}</code></pre>
+                )}
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+export default StoryHistoryDrawer;
@@ -1,4 +1,38 @@
 import React, { useState, useRef, useEffect, useCallback, ReactNode } from 'react';
+import {
+  StreamProtocolError,
+  generateStreamSchema,
+  readStreamEvents,
+  type CompletionFeedback,
+  type ErrorFeedback,
+  type GenerateStreamEvent,
+  type IntentPreview,
+  type ProgressUpdate,
+  type RetryInfo,
+  type ValidationFeedback,
+} from './streamProtocol';
+import {
+  MAX_VARIANTS,
+  VARIANT_PRESETS,
+  buildVariantConsiderations,
+  parseVariantNames,
+  storyTitleFromCode,
+  storyVariantsFromCode,
+  titleToComponentId,
+  type StoryVariant,
+} from './storyVariants';
+import { StoryHistoryDrawer } from './StoryHistoryDrawer';
+import { versionNumber, type StoryHistory, type StoryVersion } from './storyHistory';
+import {
+  ChatConflictError,
+  openChatStore,
+  pageCount,
+  withSavedChat,
+  type ChatPage,
+  type ChatStore,
+  type ChatSummary,
+  type StoredChat,
+} from './chatStorage';
 
 // Simple markdown renderer for AI messages with icon marker support
 const renderMarkdown = (text: string): ReactNode => {
@@ -159,74 +193,6 @@ interface ProvidersResponse {
   };
 }
 
-// Streaming event types (matching backend streamTypes.ts)
-type StreamEventType = 'intent' | 'progress' | 'validation' | 'retry' | 'completion' | 'error';
-
-interface IntentPreview {
-  requestType: 'new' | 'modification';
-  framework: string;
-  detectedDesignSystem: string | null;
-  strategy: string;
-  estimatedComponents: string[];
-  promptAnalysis: {
-    hasVisionInput: boolean;
-    hasConversationContext: boolean;
-    hasPreviousCode: boolean;
-  };
-}
-
-interface ProgressUpdate {
-  step: number;
-  totalSteps: number;
-  phase: 'config_loaded' | 'components_discovered' | 'prompt_built' | 'llm_thinking' | 'code_extracted' | 'validating' | 'post_processing' | 'saving';
-  message: string;
-  details?: Record<string, unknown>;
-}
-
-interface ValidationFeedback {
-  isValid: boolean;
-  errors: string[];
-  warnings: string[];
-  autoFixApplied: boolean;
-  fixDetails?: string[];
-}
-
-interface RetryInfo {
-  attempt: number;
-  maxAttempts: number;
-  reason: string;
-  errors: string[];
-}
-
-interface CompletionFeedback {
-  success: boolean;
-  title: string;
-  fileName: string;
-  storyId: string;
-  summary: { action: 'created' | 'updated' | 'failed'; description: string };
-  componentsUsed: { name: string; reason?: string }[];
-  layoutChoices: { pattern: string; reason: string }[];
-  styleChoices: { property: string; value: string; reason?: string }[];
-  suggestions?: string[];
-  validation: ValidationFeedback;
-  code: string;
-  metrics: { totalTimeMs: number; llmCallsCount: number; tokensUsed?: number };
-}
-
-interface ErrorFeedback {
-  code: string;
-  message: string;
-  details?: string;
-  recoverable: boolean;
-  suggestion?: string;
-}
-
-interface StreamEvent {
-  type: StreamEventType;
-  timestamp: number;
-  data: IntentPreview | ProgressUpdate | ValidationFeedback | RetryInfo | CompletionFeedback | ErrorFeedback;
-}
-
 // State for tracking streaming progress
 interface StreamingState {
   intent?: IntentPreview;
@@ -235,17 +201,27 @@ interface StreamingState {
   retry?: RetryInfo;
   completion?: CompletionFeedback;
   error?: ErrorFeedback;
+  // Reconnection attempt in progress after the stream dropped
+  reconnectAttempt?: number;
 }
 
-// Session type
-interface ChatSession {
-  id: string;
-  title: string;
-  fileName: string;
+// A streamed generation in progress, kept so it can be resumed after a
+// dropped connection or a page reload
+interface PendingGeneration {
+  // Empty until the server identifies the generation
+  generationId: string;
+  // SSE id of the last event received, sent as Last-Event-ID when resuming
+  lastEventId: string | null;
+  userInput: string;
   conversation: Message[];
-  lastUpdated: number;
+  chatId: string | null;
+  title: string;
+  isUpdate: boolean;
 }
 
+// Session type
+type ChatSession = StoredChat<Message>;
+
 // Determine the MCP API base URL.
 // Priority order:
 // 1. VITE_STORY_UI_EDGE_URL - Edge Worker URL for cloud deployments
@@ -296,13 +272,20 @@ const isEdgeMode = () => {
          baseUrl.startsWith('https://') && !baseUrl.includes('localhost');
 };
 
-// Helper to convert story title to Storybook URL format
-// e.g., "Simple Card With Image" -> "generated-simple-card-with-image--default"
-const titleToStoryPath = (title: string): string => {
-  const kebabTitle = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
-  return `generated-${kebabTitle}--default`;
+// Helper to work out the Storybook ids of a generated story file: the meta title
+// in the code wins over the chat title, and each exported story is a variant
+// e.g., "Simple Card With Image" -> "generated-simple-card-with-image", with "--primary", "--disabled", ...
+const generatedStoryIds = (title: string, code?: string): { componentId: string; variants: StoryVariant[] } => {
+  const storyTitle = code ? storyTitleFromCode(code) : null;
+  const componentId = storyTitle ? titleToComponentId(storyTitle) : `generated-${titleToComponentId(title)}`;
+  return { componentId, variants: code ? storyVariantsFromCode(code, componentId) : [] };
 };
 
+// Helper to get the variants of a completed generation, worked out from its code
+// when the server doesn't list them
+const completionVariants = (completion: CompletionFeedback): StoryVariant[] =>
+  completion.variants?.length ? completion.variants : generatedStoryIds(completion.title, completion.code).variants;
+
 // Extend window to include our code cache for the Source Code panel
 declare global {
   interface Window {
@@ -311,16 +294,19 @@ declare global {
 }
 
 // Helper to store generated code for the Source Code panel to display
-const storeGeneratedCode = (title: string, code: string) => {
-  const storyPath = titleToStoryPath(title);
+const storeGeneratedCode = (title: string, code: string, variants: StoryVariant[]) => {
+  const { componentId } = generatedStoryIds(title, code);
+  const storyIds = [...variants.map(variant => variant.storyId), componentId];
   const topWindow = window.top || window;
 
   // Store code in the top window so it's accessible from manager frame
   if (!topWindow.__STORY_UI_GENERATED_CODE__) {
     topWindow.__STORY_UI_GENERATED_CODE__ = {};
   }
-  topWindow.__STORY_UI_GENERATED_CODE__[storyPath] = code;
-  console.log(`[Story UI] Stored code for story "${storyPath}" in window cache`);
+  for (const storyId of storyIds) {
+    topWindow.__STORY_UI_GENERATED_CODE__[storyId] = code;
+  }
+  console.log(`[Story UI] Stored code for stories "${storyIds.join('", "')}" in window cache`);
 
   // ALSO store to localStorage so it persists across page navigation/reload
   // The window cache gets cleared on navigation, but localStorage persists
@@ -328,13 +314,15 @@ const storeGeneratedCode = (title: string, code: string) => {
     const stored = JSON.parse(localStorage.getItem('storyui_generated_code') || '{}');
 
     // Store under multiple keys so manager.tsx can find it using its key-matching logic
-    // Key formats that manager.tsx tries: storyPath, componentNameLower, pascalCase, title, etc.
-    stored[storyPath] = code;
+    // Key formats that manager.tsx tries: story id, base id, componentNameLower, pascalCase, title, etc.
+    for (const storyId of storyIds) {
+      stored[storyId] = code;
+    }
     stored[title] = code;
     stored[title.replace(/\s+/g, '')] = code; // No spaces version
 
     localStorage.setItem('storyui_generated_code', JSON.stringify(stored));
-    console.log(`[Story UI] Stored code for story "${storyPath}" in localStorage (keys: ${storyPath}, ${title})`);
+    console.log(`[Story UI] Stored code in localStorage (keys: ${storyIds.join(', ')}, ${title})`);
   } catch (e) {
     console.warn('[Story UI] Failed to store code in localStorage:', e);
   }
@@ -343,13 +331,16 @@ const storeGeneratedCode = (title: string, code: string) => {
 // Helper to navigate to a newly created story after generation completes
 // In dev mode with HMR, this prevents the "Couldn't find story after HMR" error
 // In all modes, this provides a better UX by auto-navigating to the new story
-const navigateToNewStory = (title: string, code?: string, delayMs: number = 1500) => {
-  const storyPath = titleToStoryPath(title);
+// Opens the first variant; without one, the component id lets Storybook pick its first story
+const navigateToNewStory = (title: string, code?: string, variants?: StoryVariant[], delayMs: number = 1500) => {
+  const ids = generatedStoryIds(title, code);
+  const storyVariants = variants?.length ? variants : ids.variants;
+  const storyPath = storyVariants[0]?.storyId ?? ids.componentId;
   console.log(`[Story UI] Will navigate to story "${storyPath}" in ${delayMs}ms...`);
 
   // Store the code for the Source Code panel if provided
   if (code) {
-    storeGeneratedCode(title, code);
+    storeGeneratedCode(title, code, storyVariants);
   }
 
   setTimeout(() => {
@@ -390,6 +381,9 @@ const MCP_STREAM_API = `${API_BASE}/story-ui/generate-stream`;
 const STORIES_API = `${API_BASE}/story-ui/stories`;
 const DELETE_API_BASE = `${API_BASE}/story-ui/stories`;
 const PROVIDERS_API = `${API_BASE}/story-ui/providers`;
+// Served by the Storybook dev server (see .storybook/generations-plugin.ts), which
+// relays generate-stream with generation ids so dropped streams can be resumed
+const GENERATIONS_API = '/api/story-ui-generations';
 // Considerations API URL - includes storybookOrigin param for Edge mode
 const getConsiderationsApiUrl = () => {
   const baseUrl = `${API_BASE}/story-ui/considerations`;
@@ -402,123 +396,44 @@ const getConsiderationsApiUrl = () => {
   return baseUrl;
 };
 const CONSIDERATIONS_API = getConsiderationsApiUrl();
+// Chats are kept here only when the Storybook dev server can't store them (see chatStorage.ts)
 const STORAGE_KEY = `story-ui-chats-${window.location.port}`;
-const MAX_RECENT_CHATS = 20;
+// Wait for a pause in typing before searching chats
+const CHAT_SEARCH_DELAY_MS = 300;
 
 // Feature flag: Enable streaming mode (can be toggled for testing)
 const USE_STREAMING = true;
 
-// Load from localStorage
-const loadChats = (): ChatSession[] => {
+const PENDING_GENERATION_KEY = `story-ui-pending-generation-${window.location.port}`;
+// Reconnection attempts after a dropped stream, and the delay before the first (doubled for each next one)
+const MAX_RESUME_ATTEMPTS = 3;
+const RESUME_DELAY_MS = 1000;
+
+// Load the generation that was in progress when the page was closed, if any
+const loadPendingGeneration = (): PendingGeneration | null => {
   try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (!stored) return [];
-    const chats = JSON.parse(stored) as ChatSession[];
-    // Sort by lastUpdated and limit
-    return chats
-      .sort((a, b) => b.lastUpdated - a.lastUpdated)
-      .slice(0, MAX_RECENT_CHATS);
+    const stored = localStorage.getItem(PENDING_GENERATION_KEY);
+    return stored ? JSON.parse(stored) as PendingGeneration : null;
   } catch (e) {
-    console.error('Failed to load chats:', e);
-    return [];
+    console.error('Failed to load pending generation:', e);
+    return null;
   }
 };
 
-// Save to localStorage
-const saveChats = (chats: ChatSession[]) => {
+const savePendingGeneration = (generation: PendingGeneration) => {
   try {
-    // Keep only the most recent chats
-    const toSave = chats
-      .sort((a, b) => b.lastUpdated - a.lastUpdated)
-      .slice(0, MAX_RECENT_CHATS);
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(toSave));
+    localStorage.setItem(PENDING_GENERATION_KEY, JSON.stringify(generation));
   } catch (e) {
-    console.error('Failed to save chats:', e);
+    console.error('Failed to save pending generation:', e);
   }
 };
 
-// Sync with memory stories from backend
-const syncWithActualStories = async (): Promise<ChatSession[]> => {
-  try {
-    const response = await fetch(STORIES_API);
-    if (!response.ok) {
-      console.error('Failed to fetch stories from backend');
-      return loadChats();
-    }
-
-    // Check if response is JSON
-    const contentType = response.headers.get('content-type');
-    if (!contentType || !contentType.includes('application/json')) {
-      console.error('Server returned non-JSON response, likely server not running or wrong port');
-      return loadChats();
-    }
-
-    const data = await response.json();
-    const memoryStories = data.stories || [];
-
-    // Load existing chats
-    const existingChats = loadChats();
-
-    // Create a map for quick lookup - using chat.id as the primary key
-    const chatMap = new Map<string, ChatSession>();
-    existingChats.forEach(chat => {
-      chatMap.set(chat.id, chat);
-    });
-
-    // Update or add memory stories
-    memoryStories.forEach((story: any) => {
-      const storyId = story.storyId || story.fileName;
-      
-      // Look for existing chat by ID or by matching fileName
-      let existingChat = chatMap.get(storyId);
-      
-      // If not found by ID, search by fileName
-      if (!existingChat && story.fileName) {
-        for (const [id, chat] of chatMap.entries()) {
-          if (chat.fileName === story.fileName) {
-            existingChat = chat;
-            break;
-          }
-        }
-      }
-
-      if (existingChat) {
-        // Update existing chat with latest info
-        existingChat.title = story.title || existingChat.title;
-        existingChat.fileName = story.fileName || existingChat.fileName;
-        existingChat.lastUpdated = new Date(story.updatedAt || story.createdAt).getTime();
-      } else {
-        // Create new chat from memory story
-        const newChat: ChatSession = {
-          id: storyId,
-          title: story.title || story.fileName,
-          fileName: story.fileName,
-          conversation: [{
-            role: 'user',
-            content: story.prompt || `Generate ${story.title}`
-          }, {
-            role: 'ai',
-            content: `✅ Created story: "${story.title}"\n\nThis story was recovered from memory. You can continue updating it or view it in Storybook.`
-          }],
-          lastUpdated: new Date(story.updatedAt || story.createdAt).getTime()
-        };
-        chatMap.set(storyId, newChat);
-      }
-    });
-
-    // Convert back to array and save
-    const syncedChats = Array.from(chatMap.values());
-    saveChats(syncedChats);
-
-    return syncedChats;
-  } catch (error) {
-    console.error('Error syncing with backend:', error);
-    return loadChats();
-  }
+const clearPendingGeneration = () => {
+  localStorage.removeItem(PENDING_GENERATION_KEY);
 };
 
 // Delete story and chat
-const deleteStoryAndChat = async (chatId: string): Promise<boolean> => {
+const deleteStoryAndChat = async (chatId: string, chatStore: ChatStore<Message>): Promise<boolean> => {
   try {
     // Remove .stories.tsx extension if present to get the actual story ID
     const storyId = chatId.replace(/\.stories\.tsx$/, '');
@@ -533,11 +448,11 @@ const deleteStoryAndChat = async (chatId: string): Promise<boolean> => {
         headers: { 'Content-Type': 'application/json' }
       });
 
-      // 404 means story doesn't exist on server - that's OK, we can still clean up localStorage
+      // 404 means story doesn't exist on server - that's OK, we can still delete the chat
       if (response.ok || response.status === 404) {
         serverDeleteSucceeded = true;
         if (response.status === 404) {
-          console.log('Story not found on server (may have been a failed generation), cleaning up localStorage');
+          console.log('Story not found on server (may have been a failed generation), deleting the chat');
         }
       } else {
         console.warn(`Backend delete returned ${response.status}, trying legacy endpoint`);
@@ -569,23 +484,21 @@ const deleteStoryAndChat = async (chatId: string): Promise<boolean> => {
       }
     }
 
-    // Always clean up localStorage - the chat/story data is primarily client-side
-    // Even if server delete failed, we should allow users to clean up their chat history
-    const chats = loadChats().filter(chat => chat.id !== chatId);
-    saveChats(chats);
-    console.log('Cleaned up localStorage chat entry');
+    // Always delete the chat - even if server delete failed, we should allow
+    // users to clean up their chat history
+    await chatStore.remove(chatId);
+    console.log(`Deleted chat from ${chatStore.kind} storage`);
 
     return true;
   } catch (error) {
     console.error('Error deleting story:', error);
-    // Still try to clean up localStorage even on error
+    // Still try to delete the chat even on error
     try {
-      const chats = loadChats().filter(chat => chat.id !== chatId);
-      saveChats(chats);
-      console.log('Cleaned up localStorage despite error');
+      await chatStore.remove(chatId);
+      console.log('Deleted chat despite error');
       return true;
-    } catch (localError) {
-      console.error('Failed to clean up localStorage:', localError);
+    } catch (storeError) {
+      console.error('Failed to delete chat:', storeError);
       return false;
     }
   }
@@ -614,6 +527,30 @@ const testMCPConnection = async (): Promise<{ connected: boolean; error?: string
   }
 };
 
+// Reconnect to a generation the server identified, receiving the events
+// after the last one received
+const resumeGenerationStream = async (generation: PendingGeneration, signal: AbortSignal): Promise<Response> => {
+  const response = await fetch(`${GENERATIONS_API}/${encodeURIComponent(generation.generationId)}`, {
+    method: 'GET',
+    headers: generation.lastEventId ? { 'Last-Event-ID': generation.lastEventId } : undefined,
+    signal,
+  });
+  if (!response.ok) {
+    throw new Error(`Resuming the generation failed: ${response.status}`);
+  }
+  return response;
+};
+
+// Wait before a reconnection attempt, unless the generation is stopped meanwhile
+const waitToResume = (ms: number, signal: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Generation stopped', 'AbortError'));
+    }, { once: true });
+  });
+
 // Component styles
 const STYLES = {
   container: {
@@ -728,6 +665,44 @@ const STYLES = {
     transition: 'opacity 0.2s ease',
   },
 
+  chatSearchInput: {
+    width: '100%',
+    boxSizing: 'border-box' as const,
+    padding: '6px 10px',
+    marginBottom: '12px',
+    borderRadius: '6px',
+    border: '1px solid rgba(255, 255, 255, 0.15)',
+    background: 'rgba(255, 255, 255, 0.05)',
+    color: '#e2e8f0',
+    fontSize: '12px',
+    outline: 'none',
+  },
+
+  chatListEmpty: {
+    color: '#64748b',
+    fontSize: '12px',
+    padding: '8px 0',
+  },
+
+  chatPagination: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: '8px',
+    color: '#94a3b8',
+    fontSize: '12px',
+  },
+
+  chatPageButton: {
+    padding: '4px 8px',
+    borderRadius: '4px',
+    border: '1px solid rgba(255, 255, 255, 0.15)',
+    background: 'transparent',
+    color: '#cbd5e1',
+    fontSize: '12px',
+    cursor: 'pointer',
+  },
+
   // Main content
   mainContent: {
     flex: 1,
@@ -743,6 +718,25 @@ const STYLES = {
     backdropFilter: 'blur(10px)',
   },
 
+  historyButton: {
+    position: 'absolute' as const,
+    top: '12px',
+    right: '16px',
+    padding: '4px 10px',
+    borderRadius: '6px',
+    border: '1px solid rgba(255, 255, 255, 0.15)',
+    background: 'rgba(255, 255, 255, 0.05)',
+    color: '#cbd5e1',
+    fontSize: '12px',
+    cursor: 'pointer',
+  },
+
+  historyButtonActive: {
+    background: 'rgba(59, 130, 246, 0.2)',
+    borderColor: 'rgba(59, 130, 246, 0.5)',
+    color: '#e2e8f0',
+  },
+
   chatContainer: {
     flex: 1,
     padding: '16px',
@@ -1043,6 +1037,21 @@ const STYLES = {
     gap: '3px',
   },
 
+  stopButton: {
+    marginTop: '10px',
+    padding: '4px 10px',
+    fontSize: '11px',
+    fontWeight: '500',
+    color: '#b91c1c',
+    background: 'rgba(248, 113, 113, 0.1)',
+    border: '1px solid rgba(248, 113, 113, 0.4)',
+    borderRadius: '4px',
+    cursor: 'pointer',
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: '4px',
+  },
+
   // Code viewer styles for generated stories
   codeViewerContainer: {
     marginTop: '12px',
@@ -1212,6 +1221,46 @@ const STYLES = {
     border: '1px solid rgba(255, 255, 255, 0.25)',
   },
 
+  // Story variants
+  variantBar: {
+    display: 'flex',
+    flexWrap: 'wrap' as const,
+    alignItems: 'center',
+    gap: '6px',
+    margin: '0 16px 8px 16px',
+    fontSize: '12px',
+    color: '#94a3b8',
+  },
+
+  variantPreset: {
+    fontFamily: 'inherit',
+    padding: '3px 8px',
+    borderRadius: '4px',
+    border: '1px solid rgba(255, 255, 255, 0.15)',
+    background: 'transparent',
+    color: '#cbd5e1',
+    fontSize: '11px',
+    cursor: 'pointer',
+  },
+
+  variantPresetActive: {
+    background: 'rgba(59, 130, 246, 0.2)',
+    borderColor: 'rgba(59, 130, 246, 0.5)',
+    color: '#e2e8f0',
+  },
+
+  variantInput: {
+    flex: 1,
+    minWidth: '160px',
+    padding: '4px 8px',
+    borderRadius: '4px',
+    border: '1px solid rgba(255, 255, 255, 0.15)',
+    background: 'rgba(255, 255, 255, 0.05)',
+    color: '#e2e8f0',
+    fontSize: '12px',
+    outline: 'none',
+  },
+
   // Drag and drop overlay
   dropOverlay: {
     position: 'absolute' as const,
@@ -1291,8 +1340,11 @@ const getPhaseInfo = (phase: ProgressUpdate['phase']): { icon: string; text: str
 };
 
 // Streaming Progress Message Component
-const StreamingProgressMessage: React.FC<{ streamingData: StreamingState }> = ({ streamingData }) => {
-  const { intent, progress, validation, retry, completion, error } = streamingData;
+const StreamingProgressMessage: React.FC<{
+  streamingData: StreamingState;
+  onStop?: () => void;
+}> = ({ streamingData, onStop }) => {
+  const { intent, progress, validation, retry, completion, error, reconnectAttempt } = streamingData;
   const [showCode, setShowCode] = useState(true); // Show code by default for better UX
   const [copyStatus, setCopyStatus] = useState<'idle' | 'copied'>('idle');
 
@@ -1309,6 +1361,7 @@ const StreamingProgressMessage: React.FC<{ streamingData: StreamingState }> = ({
 
   // If completed, show completion summary
   if (completion) {
+    const variants = completionVariants(completion);
     return (
       <div style={STYLES.streamingContainer}>
         <div style={STYLES.completionSummary}>
@@ -1319,6 +1372,18 @@ const StreamingProgressMessage: React.FC<{ streamingData: StreamingState }> = ({
             {completion.summary.description}
           </div>
 
+          {/* Variants */}
+          {variants.length > 1 && (
+            <div style={{ marginTop: '10px' }}>
+              <div style={{ fontSize: '12px', color: '#6b7280', marginBottom: '6px' }}>Variants:</div>
+              <div style={STYLES.intentComponents}>
+                {variants.map(variant => (
+                  <span key={variant.exportName} style={STYLES.componentTag} title={variant.storyId}>{variant.name}</span>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Components Used */}
           {completion.componentsUsed.length > 0 && (
             <div style={{ marginTop: '10px' }}>
@@ -1479,12 +1544,27 @@ const StreamingProgressMessage: React.FC<{ streamingData: StreamingState }> = ({
         </div>
       )}
 
+      {/* Reconnection after a dropped stream */}
+      {reconnectAttempt && (
+        <div style={STYLES.retryBadge}>
+          📡 Connection lost, reconnecting ({reconnectAttempt}/{MAX_RESUME_ATTEMPTS})
+        </div>
+      )}
+
       {/* Loading indicator when no specific phase */}
       {!progress && !intent && (
         <div style={STYLES.progressPhase}>
           <span className="loading-dots">Connecting</span>
         </div>
       )}
+
+      {onStop && (
+        <div>
+          <button type="button" style={STYLES.stopButton} onClick={onStop}>
+            ■ Stop
+          </button>
+        </div>
+      )}
     </div>
   );
 };
@@ -1495,9 +1575,12 @@ function StoryUIPanel() {
   const [conversation, setConversation] = useState<Message[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [recentChats, setRecentChats] = useState<ChatSession[]>([]);
+  // The page of chats shown in the sidebar, and the search that filters them
+  const [chatPage, setChatPage] = useState<ChatPage>({ chats: [], total: 0, page: 1, pageSize: 1 });
+  const [chatQuery, setChatQuery] = useState('');
   const [activeChatId, setActiveChatId] = useState<string | null>(null);
   const [activeTitle, setActiveTitle] = useState<string>('');
+  const [activeChatFileName, setActiveChatFileName] = useState<string>('');
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [connectionStatus, setConnectionStatus] = useState<{ connected: boolean; error?: string }>({ connected: false });
   const [availableProviders, setAvailableProviders] = useState<ProviderInfo[]>([]);
@@ -1506,10 +1589,16 @@ function StoryUIPanel() {
   const [streamingState, setStreamingState] = useState<StreamingState | null>(null);
   const [attachedImages, setAttachedImages] = useState<AttachedImage[]>([]);
   const [considerations, setConsiderations] = useState<string>('');
+  // Comma-separated names of the story variants to generate; empty for a single story
+  const [variantInput, setVariantInput] = useState<string>('');
+  const [historyOpen, setHistoryOpen] = useState(false);
   const chatEndRef = useRef<HTMLDivElement | null>(null);
   const inputRef = useRef<HTMLInputElement | null>(null);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
+  const chatStoreRef = useRef<ChatStore<Message> | null>(null);
+  // When each chat was last loaded or saved here, so saves over someone else's changes are refused
+  const chatVersionsRef = useRef(new Map<string, number>());
 
   // Maximum images allowed
   const MAX_IMAGES = 4;
@@ -1743,6 +1832,53 @@ function StoryUIPanel() {
     }
   }, [attachedImages.length, fileToBase64]);
 
+  // Show a chat, or a new empty one
+  const openChat = (chat: ChatSession | null) => {
+    if (chat) chatVersionsRef.current.set(chat.id, chat.lastUpdated);
+    setConversation(chat?.conversation ?? []);
+    setActiveChatId(chat?.id ?? null);
+    setActiveTitle(chat?.title ?? '');
+    setActiveChatFileName(chat?.fileName ?? '');
+    setHistoryOpen(false);
+  };
+
+  // Save a chat and move it to the top of the sidebar
+  const persistChat = useCallback((session: ChatSession) => {
+    setChatPage(page => withSavedChat(page, session, chatQuery));
+    const baseUpdated = chatVersionsRef.current.get(session.id);
+    chatVersionsRef.current.set(session.id, session.lastUpdated);
+    chatStoreRef.current?.save(session, baseUpdated).catch(e => {
+      console.error('Failed to save chat:', e);
+      if (e instanceof ChatConflictError) {
+        setError(`"${session.title}" was changed by someone else since you opened it, so this update wasn't saved. Reopen the chat to see the latest messages.`);
+      } else {
+        setError(`This chat couldn't be saved: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    });
+  }, [chatQuery]);
+
+  // Load a page of chats into the sidebar
+  const loadChatPage = useCallback(async (page: number, query: string) => {
+    if (!chatStoreRef.current) return;
+    try {
+      setChatPage(await chatStoreRef.current.list({ page, query }));
+    } catch (e) {
+      console.error('Failed to load chats:', e);
+      setError(`Chats couldn't be loaded: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }, []);
+
+  // Search chats once typing pauses
+  const isFirstSearch = useRef(true);
+  useEffect(() => {
+    if (isFirstSearch.current) {
+      isFirstSearch.current = false;
+      return;
+    }
+    const timer = setTimeout(() => loadChatPage(1, chatQuery), CHAT_SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [chatQuery, loadChatPage]);
+
   // Load and sync chats on mount
   useEffect(() => {
     const initializeChats = async () => {
@@ -1782,19 +1918,25 @@ function StoryUIPanel() {
           console.error('Failed to fetch considerations:', e);
         }
 
-        const syncedChats = await syncWithActualStories();
-        const sortedChats = syncedChats.sort((a, b) => b.lastUpdated - a.lastUpdated).slice(0, MAX_RECENT_CHATS);
-        setRecentChats(sortedChats);
+      }
 
-        if (sortedChats.length > 0) {
-          setConversation(sortedChats[0].conversation);
-          setActiveChatId(sortedChats[0].id);
-          setActiveTitle(sortedChats[0].title);
-        }
-      } else {
-        // Load from local storage if server is not available
-        const localChats = loadChats();
-        setRecentChats(localChats);
+      // Chats are stored by the Storybook dev server, independently of the MCP server
+      const chatStore = await openChatStore<Message>(STORAGE_KEY, !isEdgeMode());
+      chatStoreRef.current = chatStore;
+      let firstPage: ChatPage;
+      try {
+        firstPage = await chatStore.list({ page: 1 });
+      } catch (e) {
+        console.error('Failed to load chats:', e);
+        return;
+      }
+      setChatPage(firstPage);
+
+      const pendingGeneration = connectionTest.connected ? loadPendingGeneration() : null;
+      if (pendingGeneration) {
+        resumePendingGeneration(pendingGeneration);
+      } else if (connectionTest.connected && firstPage.chats.length > 0) {
+        openChat(await chatStore.load(firstPage.chats[0].id));
       }
     };
 
@@ -1808,6 +1950,13 @@ function StoryUIPanel() {
     }
   }, [conversation, loading]);
 
+  // The design system considerations plus the instructions for the requested variants
+  const requestConsiderations = (): string | undefined => {
+    const variantNames = parseVariantNames(variantInput);
+    const parts = [considerations, variantNames.length > 0 ? buildVariantConsiderations(variantNames) : ''];
+    return parts.filter(Boolean).join('\n\n') || undefined;
+  };
+
   // Helper function for non-streaming fallback
   const handleSendNonStreaming = async (userInput: string, newConversation: Message[]) => {
     const res = await fetch(MCP_API, {
@@ -1819,7 +1968,7 @@ function StoryUIPanel() {
         fileName: activeChatId || undefined,
         provider: selectedProvider || undefined,
         model: selectedModel || undefined,
-        considerations: considerations || undefined,
+        considerations: requestConsiderations(),
       }),
     });
 
@@ -1851,6 +2000,12 @@ function StoryUIPanel() {
       parts.push(`${statusMarker} **Created: "${completion.title}"**`);
     }
 
+    // List the stories when there's more than one, so they're easy to find in the sidebar
+    const variants = completionVariants(completion);
+    if (variants.length > 1) {
+      parts.push(`\n**Variants:** ${variants.map(v => `\`${v.name}\``).join(', ')}`);
+    }
+
     // Build component insights with reasons when available
     const componentCount = completion.componentsUsed?.length || 0;
     if (componentCount > 0) {
@@ -1927,10 +2082,16 @@ function StoryUIPanel() {
   };
 
   // Helper function to finalize conversation after streaming completes
+  // The session defaults to the active chat; resumed generations pass the chat they were started in
   const finalizeStreamingConversation = useCallback((
     newConversation: Message[],
     completion: CompletionFeedback,
-    userInput: string
+    userInput: string,
+    session: { chatId: string | null; title: string; isExisting: boolean } = {
+      chatId: activeChatId,
+      title: activeTitle,
+      isExisting: !!activeChatId && conversation.length > 0,
+    }
   ) => {
     // Build conversational response using rich completion data
     const isUpdate = completion.summary.action === 'updated';
@@ -1941,24 +2102,18 @@ function StoryUIPanel() {
     setConversation(updatedConversation);
 
     // Update chat session
-    const isExistingSession = activeChatId && conversation.length > 0;
-
-    if (isExistingSession && activeChatId) {
+    if (session.isExisting && session.chatId) {
+      const chatId = session.chatId;
       const updatedSession: ChatSession = {
-        id: activeChatId,
-        title: activeTitle,
-        fileName: completion.fileName || activeChatId,
+        id: chatId,
+        title: session.title,
+        fileName: completion.fileName || chatId,
         conversation: updatedConversation,
         lastUpdated: Date.now(),
       };
 
-      const chats = loadChats();
-      const chatIndex = chats.findIndex(c => c.id === activeChatId);
-      if (chatIndex !== -1) {
-        chats[chatIndex] = updatedSession;
-      }
-      saveChats(chats);
-      setRecentChats(chats);
+      persistChat(updatedSession);
+      setActiveChatFileName(updatedSession.fileName);
     } else {
       const chatId = completion.storyId || completion.fileName || Date.now().toString();
       const chatTitle = completion.title || userInput;
@@ -1973,20 +2128,160 @@ function StoryUIPanel() {
         lastUpdated: Date.now(),
       };
 
-      const chats = loadChats().filter(c => c.id !== chatId);
-      chats.unshift(newSession);
-      if (chats.length > MAX_RECENT_CHATS) {
-        chats.splice(MAX_RECENT_CHATS);
-      }
-      saveChats(chats);
-      setRecentChats(chats);
+      persistChat(newSession);
+      setActiveChatFileName(newSession.fileName);
 
       // Auto-navigate to the newly created story after HMR processes the file
       // This prevents the "Couldn't find story after HMR" error by refreshing
       // after the file system has been updated and HMR has processed the change
-      navigateToNewStory(chatTitle, completion.code);
+      navigateToNewStory(chatTitle, completion.code, completion.variants);
+    }
+  }, [activeChatId, activeTitle, conversation.length, persistChat]);
+
+  // Follow a generation's event stream to its completion or error. Once the
+  // server identifies the generation, it's kept in localStorage and a dropped
+  // connection is resumed from the last event received instead of failing.
+  // Without a response, the generation is resumed right away.
+  const followGenerationStream = async (
+    generation: PendingGeneration,
+    initialResponse: Response | null,
+    signal: AbortSignal
+  ): Promise<{ completion: CompletionFeedback | null; error: ErrorFeedback | null }> => {
+    const current = { ...generation };
+    let response = initialResponse;
+    let completionData: CompletionFeedback | null = null;
+    let errorData: ErrorFeedback | null = null;
+    let attempt = 0;
+
+    const handleEvent = (event: GenerateStreamEvent) => {
+      if (event.generationId) current.generationId = event.generationId;
+      if (event.id !== null) current.lastEventId = event.id;
+      if (current.generationId) savePendingGeneration(current);
+      if (attempt > 0) {
+        attempt = 0;
+        setStreamingState(prev => ({ ...prev, reconnectAttempt: undefined }));
+      }
+
+      // Update streaming state based on event type
+      switch (event.type) {
+        case 'intent':
+          setStreamingState(prev => ({ ...prev, intent: event.data }));
+          break;
+        case 'progress':
+          setStreamingState(prev => ({ ...prev, progress: event.data }));
+          break;
+        case 'validation':
+          setStreamingState(prev => ({ ...prev, validation: event.data }));
+          break;
+        case 'retry':
+          setStreamingState(prev => ({ ...prev, retry: event.data }));
+          break;
+        case 'completion':
+          completionData = event.data;
+          setStreamingState(prev => ({ ...prev, completion: event.data }));
+          break;
+        case 'error':
+          errorData = event.data;
+          setStreamingState(prev => ({ ...prev, error: event.data }));
+          break;
+      }
+    };
+
+    while (true) {
+      try {
+        if (!response) {
+          response = await resumeGenerationStream(current, signal);
+        }
+        await readStreamEvents(response, generateStreamSchema, handleEvent);
+        if (completionData || errorData || !current.generationId) {
+          return { completion: completionData, error: errorData };
+        }
+        throw new Error('The generation stream closed before it finished');
+      } catch (err: unknown) {
+        // Only generations the server identified can be resumed, and a
+        // protocol mismatch won't go away by reconnecting
+        if (
+          (err as Error).name === 'AbortError' ||
+          err instanceof StreamProtocolError ||
+          !current.generationId ||
+          attempt >= MAX_RESUME_ATTEMPTS
+        ) {
+          throw err;
+        }
+        attempt++;
+        console.warn(`Generation stream dropped, reconnecting (${attempt}/${MAX_RESUME_ATTEMPTS}):`, err);
+        setStreamingState(prev => ({ ...prev, reconnectAttempt: attempt }));
+        await waitToResume(RESUME_DELAY_MS * 2 ** (attempt - 1), signal);
+        response = null;
+      }
+    }
+  };
+
+  // Show the outcome of a streamed generation in its conversation
+  const settleStreamedGeneration = (
+    generation: PendingGeneration,
+    completionData: CompletionFeedback | null,
+    errorData: ErrorFeedback | null
+  ) => {
+    if (completionData) {
+      finalizeStreamingConversation(generation.conversation, completionData, generation.userInput, {
+        chatId: generation.chatId,
+        title: generation.title,
+        isExisting: generation.isUpdate,
+      });
+    } else if (errorData) {
+      setError(errorData.message);
+      const errorConversation = [...generation.conversation, { role: 'ai' as const, content: `Error: ${errorData.message}\n\n${errorData.suggestion || ''}` }];
+      setConversation(errorConversation);
+    }
+  };
+
+  // Pick up the generation that was in progress when the page was closed
+  const resumePendingGeneration = async (generation: PendingGeneration) => {
+    setConversation(generation.conversation);
+    setActiveChatId(generation.chatId);
+    setActiveTitle(generation.title);
+    setLoading(true);
+    setStreamingState({});
+
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    try {
+      const { completion, error: errorData } = await followGenerationStream(generation, null, controller.signal);
+      settleStreamedGeneration(generation, completion, errorData);
+    } catch (err: unknown) {
+      if ((err as Error).name !== 'AbortError') {
+        const errorMessage = `Could not resume the generation: ${err instanceof Error ? err.message : 'Unknown error'}`;
+        setError(errorMessage);
+        setConversation([...generation.conversation, { role: 'ai', content: `Error: ${errorMessage}` }]);
+      }
+    } finally {
+      clearPendingGeneration();
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setLoading(false);
+        setStreamingState(null);
+      }
+    }
+  };
+
+  // Stop the generation in progress. A generation the dev server relays is
+  // stopped there too; the Story UI server may still finish the story it was
+  // writing, which shows up in the sidebar once it's saved.
+  const handleStop = () => {
+    if (!abortControllerRef.current) return;
+    abortControllerRef.current.abort();
+    abortControllerRef.current = null;
+    const pendingGeneration = loadPendingGeneration();
+    if (pendingGeneration) {
+      fetch(`${GENERATIONS_API}/${encodeURIComponent(pendingGeneration.generationId)}`, { method: 'DELETE' })
+        .catch(e => console.error('Failed to stop the generation:', e));
     }
-  }, [activeChatId, activeTitle, conversation.length]);
+    clearPendingGeneration();
+    setLoading(false);
+    setStreamingState(null);
+    setConversation(prev => [...prev, { role: 'ai', content: 'Generation stopped.' }]);
+  };
 
   const handleSend = async (e?: React.FormEvent) => {
     if (e) e.preventDefault();
@@ -2026,13 +2321,14 @@ function StoryUIPanel() {
 
     // Use streaming if enabled
     if (USE_STREAMING) {
-      try {
-        // Cancel any existing request
-        if (abortControllerRef.current) {
-          abortControllerRef.current.abort();
-        }
-        abortControllerRef.current = new AbortController();
+      // Cancel any existing request
+      if (abortControllerRef.current) {
+        abortControllerRef.current.abort();
+      }
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
 
+      try {
         // Initialize streaming state
         setStreamingState({});
 
@@ -2045,7 +2341,10 @@ function StoryUIPanel() {
             }))
           : undefined;
 
-        const response = await fetch(MCP_STREAM_API, {
+        // Without the dev server (edge deployments), the Story UI server is
+        // streamed from directly and a dropped stream can't be resumed
+        const streamUrl = chatStoreRef.current?.kind === 'server' ? GENERATIONS_API : MCP_STREAM_API;
+        const response = await fetch(streamUrl, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
@@ -2059,82 +2358,51 @@ function StoryUIPanel() {
             visionMode: hasImages ? 'screenshot_to_story' : undefined,
             provider: selectedProvider || undefined,
             model: selectedModel || undefined,
-            considerations: considerations || undefined,
+            considerations: requestConsiderations(),
           }),
-          signal: abortControllerRef.current.signal,
+          signal: controller.signal,
         });
 
         if (!response.ok) {
           throw new Error(`Streaming request failed: ${response.status}`);
         }
 
-        const reader = response.body?.getReader();
-        if (!reader) {
-          throw new Error('No response body');
-        }
+        const generation: PendingGeneration = {
+          generationId: '',
+          lastEventId: null,
+          userInput,
+          conversation: newConversation,
+          chatId: activeChatId,
+          title: activeTitle,
+          isUpdate: !!activeChatId && conversation.length > 0,
+        };
+        const { completion, error: errorData } = await followGenerationStream(generation, response, controller.signal);
+        clearPendingGeneration();
+        settleStreamedGeneration(generation, completion, errorData);
 
-        const decoder = new TextDecoder();
-        let buffer = '';
-        let completionData: CompletionFeedback | null = null;
-        let errorData: ErrorFeedback | null = null;
-
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          buffer += decoder.decode(value, { stream: true });
-
-          // Parse SSE events from buffer
-          const lines = buffer.split('\n');
-          buffer = lines.pop() || ''; // Keep incomplete line in buffer
-
-          for (const line of lines) {
-            if (line.startsWith('data: ')) {
-              try {
-                const event: StreamEvent = JSON.parse(line.slice(6));
-
-                // Update streaming state based on event type
-                switch (event.type) {
-                  case 'intent':
-                    setStreamingState(prev => ({ ...prev, intent: event.data as IntentPreview }));
-                    break;
-                  case 'progress':
-                    setStreamingState(prev => ({ ...prev, progress: event.data as ProgressUpdate }));
-                    break;
-                  case 'validation':
-                    setStreamingState(prev => ({ ...prev, validation: event.data as ValidationFeedback }));
-                    break;
-                  case 'retry':
-                    setStreamingState(prev => ({ ...prev, retry: event.data as RetryInfo }));
-                    break;
-                  case 'completion':
-                    completionData = event.data as CompletionFeedback;
-                    setStreamingState(prev => ({ ...prev, completion: event.data as CompletionFeedback }));
-                    break;
-                  case 'error':
-                    errorData = event.data as ErrorFeedback;
-                    setStreamingState(prev => ({ ...prev, error: event.data as ErrorFeedback }));
-                    break;
-                }
-              } catch (parseError) {
-                console.warn('Failed to parse SSE event:', line, parseError);
-              }
-            }
-          }
+      } catch (err: unknown) {
+        if ((err as Error).name === 'AbortError') {
+          console.log('Request aborted');
+          return;
         }
 
-        // Handle completion or error
-        if (completionData) {
-          finalizeStreamingConversation(newConversation, completionData, userInput);
-        } else if (errorData) {
-          setError(errorData.message);
-          const errorConversation = [...newConversation, { role: 'ai' as const, content: `Error: ${errorData.message}\n\n${errorData.suggestion || ''}` }];
-          setConversation(errorConversation);
+        // A server that streams events this panel can't read is reported
+        // rather than retried without streaming, so the mismatch gets fixed
+        if (err instanceof StreamProtocolError) {
+          clearPendingGeneration();
+          const errorMessage = `The server's generation stream doesn't match this panel: ${err.message}`;
+          setError(errorMessage);
+          setConversation([...newConversation, { role: 'ai' as const, content: `Error: ${errorMessage}` }]);
+          return;
         }
 
-      } catch (err: unknown) {
-        if ((err as Error).name === 'AbortError') {
-          console.log('Request aborted');
+        // The server identified the generation but it couldn't be resumed: it
+        // may still complete, so it isn't started over
+        if (loadPendingGeneration()) {
+          clearPendingGeneration();
+          const errorMessage = `Lost the connection to the generation: ${err instanceof Error ? err.message : 'Unknown error'}`;
+          setError(errorMessage);
+          setConversation([...newConversation, { role: 'ai' as const, content: `Error: ${errorMessage}` }]);
           return;
         }
 
@@ -2170,11 +2438,8 @@ function StoryUIPanel() {
               conversation: updatedConversation,
               lastUpdated: Date.now(),
             };
-            const chats = loadChats();
-            const chatIndex = chats.findIndex(c => c.id === activeChatId);
-            if (chatIndex !== -1) chats[chatIndex] = updatedSession;
-            saveChats(chats);
-            setRecentChats(chats);
+            persistChat(updatedSession);
+            setActiveChatFileName(updatedSession.fileName);
           } else {
             const chatId = data.storyId || data.fileName || Date.now().toString();
             const chatTitle = data.title || userInput;
@@ -2187,14 +2452,11 @@ function StoryUIPanel() {
               conversation: updatedConversation,
               lastUpdated: Date.now(),
             };
-            const chats = loadChats().filter(c => c.id !== chatId);
-            chats.unshift(newSession);
-            if (chats.length > MAX_RECENT_CHATS) chats.splice(MAX_RECENT_CHATS);
-            saveChats(chats);
-            setRecentChats(chats);
+            persistChat(newSession);
+            setActiveChatFileName(newSession.fileName);
 
             // Auto-navigate to the newly created story
-            navigateToNewStory(chatTitle, data.code);
+            navigateToNewStory(chatTitle, data.code, data.variants);
           }
         } catch (fallbackErr: unknown) {
           const errorMessage = fallbackErr instanceof Error ? fallbackErr.message : 'Unknown error';
@@ -2203,9 +2465,12 @@ function StoryUIPanel() {
           setConversation(errorConversation);
         }
       } finally {
-        setLoading(false);
-        setStreamingState(null);
-        abortControllerRef.current = null;
+        // A stopped or replaced request no longer owns the panel state
+        if (!controller.signal.aborted) {
+          setLoading(false);
+          setStreamingState(null);
+          abortControllerRef.current = null;
+        }
       }
     } else {
       // Non-streaming mode (original implementation)
@@ -2235,11 +2500,8 @@ function StoryUIPanel() {
             conversation: updatedConversation,
             lastUpdated: Date.now(),
           };
-          const chats = loadChats();
-          const chatIndex = chats.findIndex(c => c.id === activeChatId);
-          if (chatIndex !== -1) chats[chatIndex] = updatedSession;
-          saveChats(chats);
-          setRecentChats(chats);
+          persistChat(updatedSession);
+          setActiveChatFileName(updatedSession.fileName);
         } else {
           const chatId = data.storyId || data.fileName || Date.now().toString();
           setActiveChatId(chatId);
@@ -2251,11 +2513,8 @@ function StoryUIPanel() {
             conversation: updatedConversation,
             lastUpdated: Date.now(),
           };
-          const chats = loadChats().filter(c => c.id !== chatId);
-          chats.unshift(newSession);
-          if (chats.length > MAX_RECENT_CHATS) chats.splice(MAX_RECENT_CHATS);
-          saveChats(chats);
-          setRecentChats(chats);
+          persistChat(newSession);
+          setActiveChatFileName(newSession.fileName);
         }
       } catch (err: unknown) {
         const errorMessage = err instanceof Error ? err.message : 'Unknown error';
@@ -2268,38 +2527,67 @@ function StoryUIPanel() {
     }
   };
 
-  const handleSelectChat = (chat: ChatSession) => {
-    setConversation(chat.conversation);
-    setActiveChatId(chat.id);
-    setActiveTitle(chat.title);
+  const handleSelectChat = async (summary: ChatSummary) => {
+    try {
+      const chat = await chatStoreRef.current?.load(summary.id);
+      if (chat) {
+        openChat(chat);
+      } else {
+        setError(`The chat "${summary.title}" no longer exists.`);
+        loadChatPage(chatPage.page, chatQuery);
+      }
+    } catch (e) {
+      setError(`The chat couldn't be loaded: ${e instanceof Error ? e.message : String(e)}`);
+    }
   };
 
   const handleNewChat = () => {
-    setConversation([]);
-    setActiveChatId(null);
-    setActiveTitle('');
+    openChat(null);
+  };
+
+  // The story file of the active chat, whose versions the history drawer shows.
+  // History is kept by the local server only, so there's none in Edge mode.
+  const activeFileName = !isEdgeMode() && activeChatFileName || null;
+
+  // Record a revert from the history drawer in the chat, and show the reverted
+  // code in the Source Code panel
+  const handleVersionReverted = (history: StoryHistory, version: StoryVersion) => {
+    const aiMsg: Message = {
+      role: 'ai',
+      content: `[SUCCESS] **Reverted "${activeTitle}" to version ${versionNumber(history, version.id)}**\n\n_${version.prompt}_`,
+    };
+    const updatedConversation = [...conversation, aiMsg];
+    setConversation(updatedConversation);
+
+    if (activeChatId) {
+      persistChat({
+        id: activeChatId,
+        title: activeTitle,
+        fileName: activeChatFileName,
+        conversation: updatedConversation,
+        lastUpdated: Date.now(),
+      });
+    }
+
+    const { componentId } = generatedStoryIds(activeTitle, version.code);
+    storeGeneratedCode(activeTitle, version.code, storyVariantsFromCode(version.code, componentId));
   };
 
   const handleDeleteChat = async (chatId: string, e: React.MouseEvent) => {
     e.stopPropagation(); // Prevent selecting the chat
 
     if (confirm('Delete this story and chat? This action cannot be undone.')) {
-      const success = await deleteStoryAndChat(chatId);
+      const success = !!chatStoreRef.current && await deleteStoryAndChat(chatId, chatStoreRef.current);
 
       if (success) {
-        // Update local state
-        const updatedChats = recentChats.filter(chat => chat.id !== chatId);
-        setRecentChats(updatedChats);
+        // Reload the page the chat was on, or the new last page when it was the only chat on it
+        const remaining = chatPage.chats.filter(chat => chat.id !== chatId);
+        const lastPage = Math.max(1, Math.ceil((chatPage.total - 1) / chatPage.pageSize));
+        await loadChatPage(Math.min(chatPage.page, lastPage), chatQuery);
 
         // If we deleted the active chat, switch to another or clear
         if (activeChatId === chatId) {
-          if (updatedChats.length > 0) {
-            setConversation(updatedChats[0].conversation);
-            setActiveChatId(updatedChats[0].id);
-            setActiveTitle(updatedChats[0].title);
-          } else {
-            handleNewChat();
-          }
+          openChat(remaining.length > 0 ? await chatStoreRef.current!.load(remaining[0].id) : null);
         }
       } else {
         alert('Failed to delete story. Please try again.');
@@ -2347,7 +2635,16 @@ function StoryUIPanel() {
               <span style={{ lineHeight: '0.5', display: 'inline-block', alignItems: 'center', width: '10px', height: '10px' }}>+</span>
               <span>New Chat</span>
             </button>
-            {recentChats.length > 0 && (
+            {(chatPage.total > 0 || chatQuery) && (
+              <input
+                type="search"
+                value={chatQuery}
+                onChange={e => setChatQuery(e.target.value)}
+                placeholder="Search chats..."
+                style={STYLES.chatSearchInput}
+              />
+            )}
+            {(chatPage.total > 0 || chatQuery) && (
               <div style={{
                 color: '#64748b',
                 fontSize: '12px',
@@ -2355,11 +2652,18 @@ function StoryUIPanel() {
                 fontWeight: '500',
                 textTransform: 'uppercase',
                 letterSpacing: '0.05em',
-              }}>
-                Recent Chats
+              }}
+                title={chatStoreRef.current?.kind === 'local'
+                  ? 'Saved in this browser only'
+                  : 'Saved with the stories, shared with everyone working on them'}
+              >
+                {chatQuery ? `Results (${chatPage.total})` : `Chats (${chatPage.total})`}
               </div>
             )}
-            {recentChats.map(chat => (
+            {chatQuery && chatPage.total === 0 && (
+              <div style={STYLES.chatListEmpty}>No chats match "{chatQuery}"</div>
+            )}
+            {chatPage.chats.map(chat => (
               <div
                 key={chat.id}
                 onClick={() => handleSelectChat(chat)}
@@ -2394,6 +2698,30 @@ function StoryUIPanel() {
                 </button>
               </div>
             ))}
+            {pageCount(chatPage) > 1 && (
+              <div style={STYLES.chatPagination}>
+                <button
+                  type="button"
+                  onClick={() => loadChatPage(chatPage.page - 1, chatQuery)}
+                  disabled={chatPage.page <= 1}
+                  style={{ ...STYLES.chatPageButton, ...(chatPage.page <= 1 ? { opacity: 0.4, cursor: 'default' } : {}) }}
+                >
+                  ‹ Newer
+                </button>
+                <span>{chatPage.page} / {pageCount(chatPage)}</span>
+                <button
+                  type="button"
+                  onClick={() => loadChatPage(chatPage.page + 1, chatQuery)}
+                  disabled={chatPage.page >= pageCount(chatPage)}
+                  style={{
+                    ...STYLES.chatPageButton,
+                    ...(chatPage.page >= pageCount(chatPage) ? { opacity: 0.4, cursor: 'default' } : {}),
+                  }}
+                >
+                  Older ›
+                </button>
+              </div>
+            )}
           </div>
         )}
         {!sidebarOpen && (
@@ -2444,7 +2772,27 @@ function StoryUIPanel() {
           </div>
         )}
 
-        <div style={STYLES.chatHeader}>
+        {historyOpen && activeFileName && (
+          <StoryHistoryDrawer
+            fileName={activeFileName}
+            title={activeTitle}
+            onClose={() => setHistoryOpen(false)}
+            onReverted={handleVersionReverted}
+          />
+        )}
+
+        <div style={{ ...STYLES.chatHeader, position: 'relative' as const }}>
+          {activeFileName && (
+            <button
+              type="button"
+              onClick={() => setHistoryOpen(open => !open)}
+              disabled={loading}
+              style={{ ...STYLES.historyButton, ...(historyOpen ? STYLES.historyButtonActive : {}) }}
+              title="Browse, compare and revert the versions of this story"
+            >
+              🕘 History
+            </button>
+          )}
           <h1 style={{
             fontSize: '24px',
             margin: 0,
@@ -2585,7 +2933,10 @@ function StoryUIPanel() {
           {loading && (
             <div style={STYLES.messageContainer}>
               {streamingState ? (
-                <StreamingProgressMessage streamingData={streamingState} />
+                <StreamingProgressMessage
+                  streamingData={streamingState}
+                  onStop={streamingState.completion || streamingState.error ? undefined : handleStop}
+                />
               ) : (
                 <div style={STYLES.loadingMessage}>
                   <span>Generating story</span>
@@ -2633,6 +2984,35 @@ function StoryUIPanel() {
           </div>
         )}
 
+        {/* Story variants */}
+        <div style={STYLES.variantBar}>
+          <span>Variants:</span>
+          {VARIANT_PRESETS.map(preset => {
+            const presetInput = preset.variants.join(', ');
+            const active = variantInput === presetInput;
+            return (
+              <button
+                key={preset.label}
+                type="button"
+                disabled={loading}
+                onClick={() => setVariantInput(active ? '' : presetInput)}
+                style={{ ...STYLES.variantPreset, ...(active ? STYLES.variantPresetActive : {}) }}
+                title={active ? 'Generate a single story' : `Generate ${preset.variants.join(', ')} stories`}
+              >
+                {preset.label}
+              </button>
+            );
+          })}
+          <input
+            type="text"
+            value={variantInput}
+            onChange={e => setVariantInput(e.target.value)}
+            disabled={loading}
+            placeholder={`Custom, comma-separated (up to ${MAX_VARIANTS})`}
+            style={STYLES.variantInput}
+          />
+        </div>
+
         <form onSubmit={handleSend} style={{
           ...STYLES.inputForm,
           ...(attachedImages.length > 0 ? {
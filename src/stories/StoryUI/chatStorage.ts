@@ -0,0 +1,271 @@
+/**
+ * Chat Storage
+ *
+ * Where the panel keeps its chats. They're stored by the Storybook dev server
+ * next to the stories they produced (see .storybook/chats-plugin.ts), so they
+ * survive port changes and are shared with everyone working on the stories.
+ * Where that server isn't running (Edge mode, static Storybook builds), chats
+ * stay in the browser's localStorage as before.
+ *
+ * Both stores list chats a page at a time, newest first, optionally filtered
+ * by a search over titles and messages.
+ */
+
+export interface StoredChat<M> {
+  id: string;
+  title: string;
+  fileName: string;
+  conversation: M[];
+  lastUpdated: number;
+}
+
+export interface ChatSummary {
+  id: string;
+  title: string;
+  fileName: string;
+  lastUpdated: number;
+  messageCount: number;
+  /** The chat's first prompt */
+  preview: string;
+}
+
+export interface ChatPage {
+  chats: ChatSummary[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface ChatListOptions {
+  page: number;
+  /** Matched case-insensitively against titles, file names and messages */
+  query?: string;
+}
+
+export interface ChatStore<M> {
+  /** Whether chats are shared through the server or kept in this browser */
+  kind: 'server' | 'local';
+  list(options: ChatListOptions): Promise<ChatPage>;
+  load(id: string): Promise<StoredChat<M> | null>;
+  /**
+   * Save a chat edited from the stored one last updated at `baseUpdated`
+   * (a new chat has none). Throws a ChatConflictError when the stored chat has
+   * changed since, rather than overwriting someone else's messages.
+   */
+  save(chat: StoredChat<M>, baseUpdated?: number): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+/**
+ * Thrown when the chat store can't be reached or refuses a change
+ */
+export class ChatStorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChatStorageError';
+  }
+}
+
+/**
+ * Thrown when a chat was changed elsewhere since it was loaded
+ */
+export class ChatConflictError extends ChatStorageError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChatConflictError';
+  }
+}
+
+/** The chats API is served by the Storybook dev server, the panel's own origin */
+const CHATS_API = '/api/story-ui-chats';
+
+export const CHAT_PAGE_SIZE = 20;
+
+type ChatMessage = { role: string; content: string };
+
+const summarize = <M extends ChatMessage>(chat: StoredChat<M>): ChatSummary => ({
+  id: chat.id,
+  title: chat.title,
+  fileName: chat.fileName,
+  lastUpdated: chat.lastUpdated,
+  messageCount: chat.conversation.length,
+  preview: chat.conversation.find(message => message.role === 'user')?.content.slice(0, 120) ?? '',
+});
+
+const matchesQuery = <M extends ChatMessage>(chat: StoredChat<M>, search: string): boolean =>
+  [chat.title, chat.fileName, ...chat.conversation.map(message => message.content)]
+    .some(text => text?.toLowerCase().includes(search));
+
+/**
+ * The number of pages a listing spans, at least one
+ */
+export const pageCount = (page: ChatPage): number => Math.max(1, Math.ceil(page.total / page.pageSize));
+
+// ============================================================================
+// SERVER
+// ============================================================================
+
+const requestChats = async (path: string, init?: RequestInit) => {
+  const response = await fetch(`${CHATS_API}${path}`, init);
+  const data = await response.json().catch(() => null);
+  if (!data) {
+    throw new ChatStorageError('The chats API is not available. It runs with the Storybook dev server.');
+  }
+  return { response, data };
+};
+
+export function createServerChatStore<M extends ChatMessage>(): ChatStore<M> {
+  return {
+    kind: 'server',
+
+    async list({ page, query }) {
+      const params = new URLSearchParams({ page: String(page), pageSize: String(CHAT_PAGE_SIZE) });
+      if (query?.trim()) params.set('q', query.trim());
+      const { response, data } = await requestChats(`?${params}`);
+      if (!response.ok || !data.success) {
+        throw new ChatStorageError(data.error || `Server responded with ${response.status}`);
+      }
+      return { chats: data.chats, total: data.total, page: data.page, pageSize: data.pageSize };
+    },
+
+    async load(id) {
+      const { response, data } = await requestChats(`/${encodeURIComponent(id)}`);
+      if (response.status === 404) return null;
+      if (!response.ok || !data.success) {
+        throw new ChatStorageError(data.error || `Server responded with ${response.status}`);
+      }
+      return data.chat;
+    },
+
+    async save(chat, baseUpdated) {
+      const params = baseUpdated !== undefined ? `?baseUpdated=${baseUpdated}` : '';
+      const { response, data } = await requestChats(`/${encodeURIComponent(chat.id)}${params}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(chat),
+      });
+      if (response.status === 409) {
+        throw new ChatConflictError(data.error || 'This chat was changed since it was loaded');
+      }
+      if (!response.ok || !data.success) {
+        throw new ChatStorageError(data.error || `Server responded with ${response.status}`);
+      }
+    },
+
+    async remove(id) {
+      const { response, data } = await requestChats(`/${encodeURIComponent(id)}`, { method: 'DELETE' });
+      if (!response.ok || !data.success) {
+        throw new ChatStorageError(data.error || `Server responded with ${response.status}`);
+      }
+    },
+  };
+}
+
+// ============================================================================
+// LOCAL
+// ============================================================================
+
+const readLocalChats = <M>(storageKey: string): StoredChat<M>[] => {
+  try {
+    const stored = localStorage.getItem(storageKey);
+    return stored ? (JSON.parse(stored) as StoredChat<M>[]).sort((a, b) => b.lastUpdated - a.lastUpdated) : [];
+  } catch (e) {
+    console.error('Failed to load chats:', e);
+    return [];
+  }
+};
+
+const writeLocalChats = <M>(storageKey: string, chats: StoredChat<M>[]) => {
+  try {
+    localStorage.setItem(storageKey, JSON.stringify(chats));
+  } catch (e) {
+    throw new ChatStorageError(`Could not save chats in this browser: ${e instanceof Error ? e.message : String(e)}`);
+  }
+};
+
+export function createLocalChatStore<M extends ChatMessage>(storageKey: string): ChatStore<M> {
+  return {
+    kind: 'local',
+
+    async list({ page, query }) {
+      const search = query?.trim().toLowerCase();
+      const chats = readLocalChats<M>(storageKey).filter(chat => !search || matchesQuery(chat, search));
+      return {
+        chats: chats.slice((page - 1) * CHAT_PAGE_SIZE, page * CHAT_PAGE_SIZE).map(summarize),
+        total: chats.length,
+        page,
+        pageSize: CHAT_PAGE_SIZE,
+      };
+    },
+
+    async load(id) {
+      return readLocalChats<M>(storageKey).find(chat => chat.id === id) ?? null;
+    },
+
+    async save(chat, baseUpdated = chat.lastUpdated) {
+      const chats = readLocalChats<M>(storageKey);
+      // Another tab may have saved the chat since
+      const stored = chats.find(c => c.id === chat.id);
+      if (stored && stored.lastUpdated > baseUpdated) {
+        throw new ChatConflictError('This chat was changed in another tab since it was loaded');
+      }
+      writeLocalChats(storageKey, [chat, ...chats.filter(c => c.id !== chat.id)]);
+    },
+
+    async remove(id) {
+      writeLocalChats(storageKey, readLocalChats<M>(storageKey).filter(chat => chat.id !== id));
+    },
+  };
+}
+
+/**
+ * The server store when the chats API is reachable, else the local one. Chats
+ * kept in this browser by earlier versions of the panel are moved to the
+ * server the first time it's reached.
+ */
+export async function openChatStore<M extends ChatMessage>(storageKey: string, useServer: boolean): Promise<ChatStore<M>> {
+  const local = createLocalChatStore<M>(storageKey);
+  if (!useServer) return local;
+
+  const server = createServerChatStore<M>();
+  try {
+    await server.list({ page: 1 });
+  } catch (error) {
+    console.warn('[Story UI] Keeping chats in this browser:', error instanceof Error ? error.message : error);
+    return local;
+  }
+
+  const localChats = readLocalChats<M>(storageKey);
+  if (localChats.length > 0) {
+    try {
+      const { response, data } = await requestChats('/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ chats: localChats }),
+      });
+      if (response.ok && data.success) {
+        localStorage.removeItem(storageKey);
+        console.log(`[Story UI] Moved ${data.imported} chats from this browser to the server`);
+      }
+    } catch (error) {
+      console.warn('[Story UI] Failed to move chats to the server:', error);
+    }
+  }
+  return server;
+}
+
+/**
+ * Put a saved chat at the top of a listing's first page, where a newest-first
+ * listing would have it. A listing filtered by `query` only gets the chat when
+ * it matches.
+ */
+export function withSavedChat<M extends ChatMessage>(page: ChatPage, chat: StoredChat<M>, query = ''): ChatPage {
+  const search = query.trim().toLowerCase();
+  if (search && !matchesQuery(chat, search)) {
+    return page;
+  }
+  const existing = page.chats.some(summary => summary.id === chat.id);
+  const chats = page.chats.filter(summary => summary.id !== chat.id);
+  if (page.page === 1) chats.unshift(summarize(chat));
+  return { ...page, chats: chats.slice(0, page.pageSize), total: existing ? page.total : page.total + 1 };
+}
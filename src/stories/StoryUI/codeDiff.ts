@@ -0,0 +1,119 @@
+/**
+ * Code Diff
+ *
+ * Line-based diff between two versions of generated code, laid out as rows
+ * for a side-by-side view. Generated components are a few hundred lines at
+ * most, so a plain longest-common-subsequence table is fast enough.
+ *
+ * Used by both the panel's story history and the production app's version
+ * comparison (.story-ui-build), so it has no dependencies.
+ */
+
+export interface DiffLine {
+  /** 1-based line number in its version */
+  number: number;
+  text: string;
+}
+
+export interface DiffRow {
+  /** `changed` pairs a removed line with the added line that replaced it */
+  type: 'same' | 'added' | 'removed' | 'changed';
+  before?: DiffLine;
+  after?: DiffLine;
+}
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+}
+
+type Edit =
+  | { type: 'same'; before: number; after: number }
+  | { type: 'removed'; before: number }
+  | { type: 'added'; after: number };
+
+/**
+ * The shortest edit script turning `before` into `after`, in order
+ */
+function editScript(before: string[], after: string[]): Edit[] {
+  // lengths[i][j]: longest common subsequence of before[i..] and after[j..]
+  const lengths = Array.from({ length: before.length + 1 }, () => new Uint32Array(after.length + 1));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const edits: Edit[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      edits.push({ type: 'same', before: i++, after: j++ });
+    } else if (i < before.length && (j === after.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      // Removals go first, so they pair up with the additions that follow
+      edits.push({ type: 'removed', before: i++ });
+    } else {
+      edits.push({ type: 'added', after: j++ });
+    }
+  }
+  return edits;
+}
+
+/**
+ * Diff two versions into side-by-side rows. Runs of removed lines followed by
+ * added lines are paired up as changes.
+ */
+export function diffLines(beforeCode: string, afterCode: string): DiffRow[] {
+  const before = beforeCode.split('\n');
+  const after = afterCode.split('\n');
+  const line = (lines: string[], index: number): DiffLine => ({ number: index + 1, text: lines[index] });
+
+  const rows: DiffRow[] = [];
+  let removed: number[] = [];
+  let added: number[] = [];
+
+  const flushChanges = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const b = removed[k];
+      const a = added[k];
+      rows.push({
+        type: b !== undefined && a !== undefined ? 'changed' : b !== undefined ? 'removed' : 'added',
+        before: b !== undefined ? line(before, b) : undefined,
+        after: a !== undefined ? line(after, a) : undefined,
+      });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const edit of editScript(before, after)) {
+    if (edit.type === 'same') {
+      flushChanges();
+      rows.push({ type: 'same', before: line(before, edit.before), after: line(after, edit.after) });
+    } else if (edit.type === 'removed') {
+      // A removal after additions starts a new run
+      if (added.length > 0) flushChanges();
+      removed.push(edit.before);
+    } else {
+      added.push(edit.after);
+    }
+  }
+  flushChanges();
+  return rows;
+}
+
+/**
+ * Count the added and removed lines of a diff, counting changes as both
+ */
+export function diffStats(rows: DiffRow[]): DiffStats {
+  return rows.reduce(
+    (stats, row) => ({
+      added: stats.added + (row.type === 'added' || row.type === 'changed' ? 1 : 0),
+      removed: stats.removed + (row.type === 'removed' || row.type === 'changed' ? 1 : 0),
+    }),
+    { added: 0, removed: 0 }
+  );
+}
@@ -0,0 +1,101 @@
+/**
+ * Story History
+ *
+ * Client for the version history the Story UI server keeps for each generated
+ * story (`.story-ui-history/<story>.json`), served by the Storybook dev server
+ * (see .storybook/history-plugin.ts). Every generation of a story adds a
+ * version with the prompt that produced it; the current version is the one in
+ * the story file.
+ */
+
+export interface StoryVersion {
+  id: string;
+  timestamp: number;
+  prompt: string;
+  code: string;
+  fileName: string;
+  parentId?: string;
+}
+
+export interface StoryHistory {
+  storyId: string;
+  title: string;
+  versions: StoryVersion[];
+  currentVersionId: string;
+}
+
+/**
+ * Thrown when a story's history can't be loaded or changed
+ */
+export class StoryHistoryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StoryHistoryError';
+  }
+}
+
+/** The history API is served by the Storybook dev server, the panel's own origin */
+const HISTORY_API = '/api/story-history';
+
+/**
+ * The history a story file belongs to, named the way the server names it: the
+ * file name without its hash and extension
+ */
+export const historyIdFromFileName = (fileName: string): string =>
+  fileName.replace(/-[a-f0-9]+\.stories\.tsx$/, '');
+
+const readHistoryResponse = async (response: Response): Promise<StoryHistory> => {
+  const data = await response.json().catch(() => null);
+  if (response.status === 404 && !data?.history) {
+    throw new StoryHistoryError(data?.error || 'The history API is not available. It runs with the Storybook dev server.');
+  }
+  if (!response.ok || !data?.success) {
+    throw new StoryHistoryError(data?.error || `Server responded with ${response.status}`);
+  }
+  return data.history;
+};
+
+/**
+ * Load the history of a generated story file
+ */
+export async function loadStoryHistory(fileName: string): Promise<StoryHistory> {
+  return readHistoryResponse(await fetch(`${HISTORY_API}?file=${encodeURIComponent(fileName)}`));
+}
+
+/**
+ * Rewrite a story file with one of its versions and make it the current
+ * version, so the next update to the story builds on it
+ */
+export async function revertStoryVersion(fileName: string, versionId: string): Promise<StoryHistory> {
+  return readHistoryResponse(await fetch(`${HISTORY_API}/revert`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ file: fileName, versionId }),
+  }));
+}
+
+/**
+ * Import a version's story file as a module, to render its stories without
+ * writing it to the story file
+ */
+export async function importStoryVersion(history: StoryHistory, versionId: string): Promise<Record<string, unknown>> {
+  const url = `/@id/virtual:story-ui-history/${history.storyId}/${versionId}.tsx`;
+  try {
+    return await import(/* @vite-ignore */ url);
+  } catch (error) {
+    throw new StoryHistoryError(`Could not load this version: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * The versions oldest first. Pruning on the server leaves them newest first,
+ * so the file order can't be relied on.
+ */
+export const versionsByAge = (history: StoryHistory): StoryVersion[] =>
+  [...history.versions].sort((a, b) => a.timestamp - b.timestamp);
+
+/**
+ * The 1-based number of a version, in the order they were generated
+ */
+export const versionNumber = (history: StoryHistory, versionId: string): number =>
+  versionsByAge(history).findIndex(version => version.id === versionId) + 1;
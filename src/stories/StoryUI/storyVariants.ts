@@ -0,0 +1,111 @@
+/**
+ * Story Variants
+ *
+ * Generated stories can hold several named variants of a component, e.g.
+ * Primary/Secondary/Disabled or Loading/Empty/Error, each its own story export
+ * driven by `args`, so Storybook Controls work on them. This module asks the
+ * server for them (through the considerations sent with a generation request)
+ * and works out the variants a generated story file ended up with and their
+ * Storybook ids.
+ */
+
+import type { StoryVariant } from './streamProtocol';
+
+export type { StoryVariant };
+
+/** Variant sets offered in the panel */
+export const VARIANT_PRESETS: { label: string; variants: string[] }[] = [
+  { label: 'Primary / Secondary / Disabled', variants: ['Primary', 'Secondary', 'Disabled'] },
+  { label: 'Loading / Empty / Error', variants: ['Loading', 'Empty', 'Error'] },
+  { label: 'Sizes', variants: ['Small', 'Medium', 'Large'] },
+];
+
+// More variants than this make for slow generations and crowded sidebars
+export const MAX_VARIANTS = 6;
+
+/**
+ * Parse a comma-separated list of variant names, dropping blanks and duplicates
+ */
+export const parseVariantNames = (input: string): string[] => {
+  const names: string[] = [];
+  for (const name of input.split(',').map(part => part.trim()).filter(Boolean)) {
+    if (!names.some(existing => existing.toLowerCase() === name.toLowerCase())) {
+      names.push(name);
+    }
+  }
+  return names.slice(0, MAX_VARIANTS);
+};
+
+/**
+ * The story export name for a variant name, e.g. "Loading state" -> "LoadingState"
+ */
+export const variantExportName = (name: string): string => {
+  const words = name.match(/[A-Za-z0-9]+/g) ?? [];
+  const exportName = words.map(word => word[0].toUpperCase() + word.slice(1)).join('');
+  return /^[0-9]/.test(exportName) ? `Variant${exportName}` : exportName || 'Default';
+};
+
+/**
+ * Instructions for generating a story with the given variants, added to the
+ * design system considerations so they reach the generation prompt
+ */
+export const buildVariantConsiderations = (names: string[]): string => {
+  const exports = names.map(name => `- \`export const ${variantExportName(name)}: Story\` (${name})`).join('\n');
+  return [
+    '## Story variants',
+    'Write the story file with one named story export per variant below, in this order, instead of a single `Default` story:',
+    exports,
+    '',
+    'Set `component` in the meta so Storybook can infer controls, put the props shared by all variants in the meta `args`, and describe the props a reader would want to change in the meta `argTypes` with a `control` (e.g. `select` with `options` for variants and sizes, `boolean` for flags, `text` for labels).',
+    'Each variant sets only the `args` that make it different. Use a `render: (args) => ...` function only when the variant needs surrounding layout or data, and pass `args` through to the component so the controls keep working. Do not hard-code in `render` the props that are in `args`.',
+  ].join('\n');
+};
+
+/**
+ * The id part Storybook derives from a story export name: the export name is
+ * start-cased into words, then kebab-cased, e.g. "WithVariants" ->
+ * "with-variants", "HTMLInput" -> "html-input", "Disabled2" -> "disabled-2"
+ */
+export const exportNameToStoryIdPart = (exportName: string): string =>
+  exportName
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1-$2')
+    .replace(/([A-Za-z])([0-9])/g, '$1-$2')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+/**
+ * The component id Storybook derives from a story title, e.g.
+ * "Generated/Simple Card" -> "generated-simple-card"
+ */
+export const titleToComponentId = (title: string): string =>
+  title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+/**
+ * The title set in a story file's meta, or null when it has none
+ */
+export const storyTitleFromCode = (code: string): string | null => {
+  const match = code.match(/\btitle:\s*(['"`])((?:\\.|(?!\1).)*)\1/);
+  return match ? match[2].replace(/\\(.)/g, '$1') : null;
+};
+
+/**
+ * The variants a generated story file exports, in file order. Stories are the
+ * named exports starting with an uppercase letter, as generated code never
+ * exports anything else in capitals.
+ */
+export const storyVariantsFromCode = (code: string, componentId: string): StoryVariant[] => {
+  const variants: StoryVariant[] = [];
+  for (const match of code.matchAll(/^export\s+const\s+([A-Z][A-Za-z0-9_$]*)\s*(?::\s*[A-Za-z0-9_.<>\s]+)?=/gm)) {
+    const exportName = match[1];
+    if (variants.some(variant => variant.exportName === exportName)) continue;
+    const nameMatch = code.slice(match.index).match(/^[^{]*\{\s*name:\s*(['"`])((?:\\.|(?!\1).)*)\1/);
+    variants.push({
+      name: nameMatch ? nameMatch[2] : exportName.replace(/([a-z0-9])([A-Z])/g, '$1 $2').replace(/_/g, ' '),
+      exportName,
+      storyId: `${componentId}--${exportNameToStoryIdPart(exportName)}`,
+    });
+  }
+  return variants;
+};
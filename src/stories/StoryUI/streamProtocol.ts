@@ -0,0 +1,489 @@
+/**
+ * Story UI Stream Protocol
+ *
+ * The server-sent events Story UI streams generations with, read the same way
+ * by every client: the Storybook panel (StoryUIPanel) for `generate-stream`,
+ * and the production app (.story-ui-build) for streamed completions. The
+ * Storybook dev server's generations API (.storybook/generations-plugin.ts)
+ * serves both with this module.
+ *
+ * Framing follows the SSE spec: an event is `event:`, `id:` and any number of
+ * `data:` lines, ended by a blank line. Comments and `retry:` are ignored.
+ *
+ * Each event's data is a JSON envelope:
+ *
+ *   { type, data, timestamp?, version?, generationId? }
+ *
+ * `version` is the protocol version the server wrote the event for, 1 when
+ * it's missing. `generationId` and the SSE `id` are set by the generations
+ * API, which replays the events after a `Last-Event-ID`. Envelopes are
+ * checked against the client's schema before they reach it, so a server that
+ * drifts from the schema fails with a StreamProtocolError naming the field,
+ * instead of leaving fields undefined. Events of types the schema doesn't
+ * know are skipped, and fields it doesn't know are kept, so servers can add
+ * both without breaking older clients.
+ */
+
+/** The protocol version this client reads */
+export const STREAM_PROTOCOL_VERSION = 1;
+
+/**
+ * Thrown when a stream doesn't follow the protocol: malformed JSON, an
+ * envelope or payload that doesn't match the schema, or a newer version
+ */
+export class StreamProtocolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StreamProtocolError';
+  }
+}
+
+// ============================================================================
+// SCHEMA
+// ============================================================================
+
+/** Checks a value, returning it typed or throwing a StreamProtocolError */
+export type Validator<T> = (value: unknown, path: string) => T;
+
+const describeValue = (value: unknown): string => {
+  if (value === undefined) return 'nothing';
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'object') return 'an object';
+  const json = JSON.stringify(value);
+  return `${typeof value} ${json.length > 40 ? `${json.slice(0, 40)}...` : json}`;
+};
+
+const check = <T>(test: (value: unknown) => boolean, expected: string): Validator<T> => (value, path) => {
+  if (!test(value)) {
+    throw new StreamProtocolError(`${path} should be ${expected}, got ${describeValue(value)}`);
+  }
+  return value as T;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Validators for event payloads
+ */
+export const schema = {
+  string: check<string>(value => typeof value === 'string', 'a string'),
+  number: check<number>(value => typeof value === 'number' && Number.isFinite(value), 'a number'),
+  boolean: check<boolean>(value => typeof value === 'boolean', 'a boolean'),
+  record: check<Record<string, unknown>>(isRecord, 'an object'),
+
+  oneOf: <T extends string>(...values: T[]): Validator<T> =>
+    check<T>(value => values.includes(value as T), `one of ${values.map(v => `"${v}"`).join(', ')}`),
+
+  optional: <T>(validator: Validator<T>): Validator<T | undefined> => (value, path) =>
+    value === undefined ? undefined : validator(value, path),
+
+  nullable: <T>(validator: Validator<T>): Validator<T | null> => (value, path) =>
+    value === null ? null : validator(value, path),
+
+  array: <T>(item: Validator<T>): Validator<T[]> => (value, path) => {
+    if (!Array.isArray(value)) {
+      throw new StreamProtocolError(`${path} should be an array, got ${describeValue(value)}`);
+    }
+    return value.map((entry, index) => item(entry, `${path}[${index}]`));
+  },
+
+  object: <Shape extends Record<string, Validator<unknown>>>(
+    shape: Shape
+  ): Validator<{ [K in keyof Shape]: ReturnType<Shape[K]> }> => (value, path) => {
+    if (!isRecord(value)) {
+      throw new StreamProtocolError(`${path} should be an object, got ${describeValue(value)}`);
+    }
+    const result: Record<string, unknown> = { ...value };
+    for (const key of Object.keys(shape)) {
+      const field = shape[key](value[key], `${path}.${key}`);
+      if (field !== undefined) result[key] = field;
+    }
+    return result as { [K in keyof Shape]: ReturnType<Shape[K]> };
+  },
+};
+
+/** Payload validators by event type */
+export type EventSchema = Record<string, Validator<unknown>>;
+
+/** An event of a schema, narrowed to its payload by `type` */
+export type SchemaEvent<S extends EventSchema> = {
+  [Type in keyof S & string]: {
+    type: Type;
+    data: ReturnType<S[Type]>;
+    timestamp?: number;
+    version: number;
+    /** Set by the generations API, which can resume the generation after a dropped connection */
+    generationId?: string;
+    /** SSE id of the event, or of the last numbered event before it */
+    id: string | null;
+  };
+}[keyof S & string];
+
+// ============================================================================
+// FRAMING
+// ============================================================================
+
+/** An event as framed on the wire */
+export interface ServerSentEvent {
+  /** The `event:` field, `message` when there is none */
+  event: string;
+  id: string | null;
+  data: string;
+}
+
+/**
+ * Read the server-sent events of a response to its end, calling onEvent with
+ * each one. onEvent can return false to stop reading; errors it throws are
+ * rethrown. Either way the rest of the response is cancelled.
+ */
+export async function readServerSentEvents(
+  response: Response,
+  onEvent: (event: ServerSentEvent) => boolean | void
+): Promise<void> {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error('No response body');
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let lastEventId: string | null = null;
+  let eventName = '';
+  let dataLines: string[] = [];
+  let stopped = false;
+
+  const processLine = (line: string) => {
+    if (stopped) return;
+    if (line === '') {
+      // A blank line dispatches the event; its id stays the last event id
+      if (dataLines.length > 0) {
+        stopped = onEvent({ event: eventName || 'message', id: lastEventId, data: dataLines.join('\n') }) === false;
+      }
+      eventName = '';
+      dataLines = [];
+      return;
+    }
+    if (line.startsWith(':')) return;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+    if (field === 'data') {
+      dataLines.push(value);
+    } else if (field === 'event') {
+      eventName = value;
+    } else if (field === 'id' && !value.includes('\0')) {
+      lastEventId = value;
+    }
+  };
+
+  try {
+    while (!stopped) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      // A trailing \r may be the first half of a \r\n
+      const lines = buffer.split(/\r\n|\r(?!$)|\n/);
+      // The last line may still be incomplete
+      buffer = lines.pop() ?? '';
+      lines.forEach(processLine);
+    }
+
+    if (stopped) {
+      reader.cancel().catch(() => undefined);
+      return;
+    }
+
+    // Dispatch an event the stream ended without terminating
+    buffer += decoder.decode();
+    if (buffer) processLine(buffer.replace(/\r$/, ''));
+    processLine('');
+  } catch (error) {
+    reader.cancel().catch(() => undefined);
+    throw error;
+  }
+}
+
+// ============================================================================
+// EVENTS
+// ============================================================================
+
+const envelope = schema.object({
+  type: schema.string,
+  timestamp: schema.optional(schema.number),
+  version: schema.optional(schema.number),
+  generationId: schema.optional(schema.string),
+});
+
+/**
+ * Parse and check the envelope and payload of a framed event. Returns null
+ * for event types the schema doesn't know.
+ */
+export function parseStreamEvent<S extends EventSchema>(event: ServerSentEvent, eventSchema: S): SchemaEvent<S> | null {
+  let json: unknown;
+  try {
+    json = JSON.parse(event.data);
+  } catch {
+    throw new StreamProtocolError(`The "${event.event}" event is not valid JSON: ${event.data.slice(0, 80)}`);
+  }
+
+  const { type, timestamp, version = 1, generationId } = envelope(json, 'event');
+  const data = (json as { data?: unknown }).data;
+  if (version > STREAM_PROTOCOL_VERSION) {
+    throw new StreamProtocolError(
+      `The server sent a version ${version} "${type}" event, but this client reads version ${STREAM_PROTOCOL_VERSION}. Update Story UI to the server's version.`
+    );
+  }
+  if (event.event !== 'message' && event.event !== type) {
+    throw new StreamProtocolError(`A "${event.event}" event carries a "${type}" payload`);
+  }
+  if (!Object.prototype.hasOwnProperty.call(eventSchema, type)) {
+    return null;
+  }
+
+  return {
+    type,
+    data: eventSchema[type](data, `${type}.data`),
+    timestamp,
+    version,
+    generationId,
+    id: event.id,
+  } as SchemaEvent<S>;
+}
+
+/**
+ * Read a stream of protocol events to its end, calling onEvent with each
+ * event the schema knows; it can return false to stop reading. Throws a
+ * StreamProtocolError when an event doesn't follow the protocol.
+ */
+export async function readStreamEvents<S extends EventSchema>(
+  response: Response,
+  eventSchema: S,
+  onEvent: (event: SchemaEvent<S>) => boolean | void
+): Promise<void> {
+  const skipped = new Set<string>();
+  await readServerSentEvents(response, framed => {
+    const event = parseStreamEvent(framed, eventSchema);
+    if (event) {
+      return onEvent(event);
+    }
+    // parseStreamEvent has checked the envelope already
+    const { type } = JSON.parse(framed.data) as { type: string };
+    if (!skipped.has(type)) {
+      skipped.add(type);
+      console.warn(`[stream] Skipping "${type}" events, which this client doesn't know`);
+    }
+  });
+}
+
+// ============================================================================
+// GENERATE-STREAM
+// ============================================================================
+
+export interface IntentPreview {
+  requestType: 'new' | 'modification';
+  framework: string;
+  detectedDesignSystem: string | null;
+  strategy: string;
+  estimatedComponents: string[];
+  promptAnalysis: {
+    hasVisionInput: boolean;
+    hasConversationContext: boolean;
+    hasPreviousCode: boolean;
+  };
+}
+
+export interface ProgressUpdate {
+  step: number;
+  totalSteps: number;
+  phase: 'config_loaded' | 'components_discovered' | 'prompt_built' | 'llm_thinking' | 'code_extracted' | 'validating' | 'post_processing' | 'saving';
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+export interface ValidationFeedback {
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+  autoFixApplied: boolean;
+  fixDetails?: string[];
+}
+
+export interface RetryInfo {
+  attempt: number;
+  maxAttempts: number;
+  reason: string;
+  errors: string[];
+}
+
+/** A named story exported by a generated story file */
+export interface StoryVariant {
+  name: string;
+  exportName: string;
+  /** Storybook id of the story, e.g. `generated-button--primary` */
+  storyId: string;
+}
+
+export interface CompletionFeedback {
+  success: boolean;
+  title: string;
+  fileName: string;
+  storyId: string;
+  summary: { action: 'created' | 'updated' | 'failed'; description: string };
+  componentsUsed: { name: string; reason?: string }[];
+  layoutChoices: { pattern: string; reason: string }[];
+  styleChoices: { property: string; value: string; reason?: string }[];
+  suggestions?: string[];
+  validation: ValidationFeedback;
+  code: string;
+  /** Stories the file exports; servers that don't list them leave it out */
+  variants?: StoryVariant[];
+  metrics: { totalTimeMs: number; llmCallsCount: number; tokensUsed?: number };
+}
+
+export interface ErrorFeedback {
+  code: string;
+  message: string;
+  details?: string;
+  recoverable: boolean;
+  suggestion?: string;
+}
+
+const validationFeedback: Validator<ValidationFeedback> = schema.object({
+  isValid: schema.boolean,
+  errors: schema.array(schema.string),
+  warnings: schema.array(schema.string),
+  autoFixApplied: schema.boolean,
+  fixDetails: schema.optional(schema.array(schema.string)),
+});
+
+const intentPreview: Validator<IntentPreview> = schema.object({
+  requestType: schema.oneOf('new', 'modification'),
+  framework: schema.string,
+  detectedDesignSystem: schema.nullable(schema.string),
+  strategy: schema.string,
+  estimatedComponents: schema.array(schema.string),
+  promptAnalysis: schema.object({
+    hasVisionInput: schema.boolean,
+    hasConversationContext: schema.boolean,
+    hasPreviousCode: schema.boolean,
+  }),
+});
+
+const progressUpdate: Validator<ProgressUpdate> = schema.object({
+  step: schema.number,
+  totalSteps: schema.number,
+  phase: schema.oneOf(
+    'config_loaded', 'components_discovered', 'prompt_built', 'llm_thinking',
+    'code_extracted', 'validating', 'post_processing', 'saving'
+  ),
+  message: schema.string,
+  details: schema.optional(schema.record),
+});
+
+const retryInfo: Validator<RetryInfo> = schema.object({
+  attempt: schema.number,
+  maxAttempts: schema.number,
+  reason: schema.string,
+  errors: schema.array(schema.string),
+});
+
+const storyVariant: Validator<StoryVariant> = schema.object({
+  name: schema.string,
+  exportName: schema.string,
+  storyId: schema.string,
+});
+
+const completionFeedback: Validator<CompletionFeedback> = schema.object({
+  success: schema.boolean,
+  title: schema.string,
+  fileName: schema.string,
+  storyId: schema.string,
+  summary: schema.object({
+    action: schema.oneOf('created', 'updated', 'failed'),
+    description: schema.string,
+  }),
+  componentsUsed: schema.array(schema.object({ name: schema.string, reason: schema.optional(schema.string) })),
+  layoutChoices: schema.array(schema.object({ pattern: schema.string, reason: schema.string })),
+  styleChoices: schema.array(schema.object({
+    property: schema.string,
+    value: schema.string,
+    reason: schema.optional(schema.string),
+  })),
+  suggestions: schema.optional(schema.array(schema.string)),
+  validation: validationFeedback,
+  code: schema.string,
+  variants: schema.optional(schema.array(storyVariant)),
+  metrics: schema.object({
+    totalTimeMs: schema.number,
+    llmCallsCount: schema.number,
+    tokensUsed: schema.optional(schema.number),
+  }),
+});
+
+const errorFeedback: Validator<ErrorFeedback> = schema.object({
+  code: schema.string,
+  message: schema.string,
+  details: schema.optional(schema.string),
+  recoverable: schema.boolean,
+  suggestion: schema.optional(schema.string),
+});
+
+/**
+ * The events of the server's `generate-stream` endpoint
+ */
+export const generateStreamSchema = {
+  intent: intentPreview,
+  progress: progressUpdate,
+  validation: validationFeedback,
+  retry: retryInfo,
+  completion: completionFeedback,
+  error: errorFeedback,
+};
+
+export type GenerateStreamEvent = SchemaEvent<typeof generateStreamSchema>;
+
+// ============================================================================
+// COMPLETIONS
+// ============================================================================
+
+/** The end of a completion */
+export interface CompletionResult {
+  /** The full response, the tokens joined */
+  content: string;
+  provider?: string;
+  model?: string;
+}
+
+const completionResult: Validator<CompletionResult> = schema.object({
+  content: schema.string,
+  provider: schema.optional(schema.string),
+  model: schema.optional(schema.string),
+});
+
+/**
+ * The events of the generations API's `completion` endpoint, which streams an
+ * LLM response as it's written: `token` events with the next piece of the
+ * text, then `completion` or `error`
+ */
+export const completionStreamSchema = {
+  token: schema.object({ text: schema.string }),
+  completion: completionResult,
+  error: errorFeedback,
+};
+
+export type CompletionStreamEvent = SchemaEvent<typeof completionStreamSchema>;
+
+/**
+ * The JSON body of the Story UI server's LLM proxy (`/story-ui/claude`), which
+ * answers with the whole response at once. Not an event stream, but checked
+ * the same way so clients falling back to it don't read undefined fields.
+ */
+export const llmProxyResponse = schema.object({
+  content: schema.array(schema.object({ type: schema.string, text: schema.string })),
+  provider: schema.optional(schema.string),
+  model: schema.optional(schema.string),
+});
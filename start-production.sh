@@ -27,8 +27,9 @@ wait_for_port() {
 }
 
 # Start Storybook dev server in background
+# Its generations API relays story generations from the MCP server
 echo "Starting Storybook dev server on port 6006..."
-npm run storybook -- --port 6006 --host 0.0.0.0 --ci --no-open &
+STORY_UI_SERVER_URL=http://127.0.0.1:4005 npm run storybook -- --port 6006 --host 0.0.0.0 --ci --no-open &
 STORYBOOK_PID=$!
 
 # Start Story UI MCP server in background
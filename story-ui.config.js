@@ -13,12 +13,53 @@ export default {
   "storyPrefix": "Generated/",
   "defaultAuthor": "Story UI AI",
 
-  // Production app dependencies (design system packages)
-  "dependencies": ["@mantine/core", "@mantine/hooks"],
+  // Production app dependencies (design system packages). Their components make
+  // up the live preview registry; a name several packages export belongs to the
+  // first one listed.
+  "dependencies": ["@mantine/core", "@mantine/hooks", "@mantine/dates", "@mantine/notifications", "@tabler/icons-react"],
+
+  // Live preview registry options per package: `include` narrows the exports,
+  // `exports` adds non-component exports, `aliases` renames colliding exports and
+  // `description` stands in for component lists too long for prompts
+  "registry": {
+    "@mantine/notifications": {
+      "exports": ["notifications"],
+      "description": "Render <Notifications /> once, then call notifications.show({ title, message, color })"
+    },
+    "@tabler/icons-react": {
+      "include": "^Icon",
+      "description": "Tabler icons named Icon + the PascalCase icon name, e.g. IconSearch, IconHeart, IconSettings, IconUser, IconChevronRight, IconCheck, IconX, IconPlus, IconTrash, IconBell. Size them with size={16} and stroke={1.5}"
+    }
+  },
+
+  // Components from other packages that generated stories may import
+  "additionalImports": [
+    {
+      "path": "@mantine/dates",
+      "components": ["DatePicker", "DateInput", "DatePickerInput", "DateTimePicker", "MonthPicker", "Calendar", "TimeInput"]
+    },
+    {
+      "path": "@mantine/notifications",
+      "components": ["Notifications", "notifications"]
+    },
+    {
+      "path": "@tabler/icons-react",
+      "components": ["IconSearch", "IconHeart", "IconSettings", "IconUser", "IconBell", "IconCheck", "IconX", "IconPlus", "IconTrash", "IconPencil", "IconChevronRight", "IconChevronDown", "IconArrowRight", "IconMail", "IconCalendar", "IconHome", "IconStar", "IconInfoCircle", "IconAlertCircle", "IconExternalLink"]
+    }
+  ],
+
+  // Mantine theme overrides, as passed to createTheme. Live previews and the
+  // Storybook preview render with this theme, so generated components are
+  // checked against it rather than Mantine's defaults. Plain data only: the
+  // production app receives it as JSON.
+  "theme": {
+    "primaryColor": "blue",
+    "defaultRadius": "sm"
+  },
 
   // Provider configuration for production app
   "provider": {
-    "cssImports": ["@mantine/core/styles.css"],
+    "cssImports": ["@mantine/core/styles.css", "@mantine/dates/styles.css", "@mantine/notifications/styles.css"],
     "imports": ["import { MantineProvider } from '@mantine/core';"],
     "wrapper": "<MantineProvider>{children}</MantineProvider>"
   }